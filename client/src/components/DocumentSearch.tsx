@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { MIN_SEARCH_TERM_LENGTH, searchTerms, type SearchSnippet } from "@shared/documentSearch";
+import { FileText, Loader2, Search, X } from "lucide-react";
+
+interface DocumentSearchProps {
+  roomId: number;
+  onOpen: (documentId: number, page: number) => void;
+}
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start < at) return;
+    parts.push(snippet.text.slice(at, start));
+    parts.push(<mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">{snippet.text.slice(start, end)}</mark>);
+    at = end;
+  });
+  parts.push(snippet.text.slice(at));
+  return <>{parts}</>;
+}
+
+/** Search box over the text of every document of the room; picking a result opens its page. */
+export function DocumentSearch({ roomId, onOpen }: DocumentSearchProps) {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { data: results, isFetching } = trpc.document.search.useQuery(
+    { roomId, query },
+    { enabled: searchTerms(query).length > 0 }
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim());
+  };
+
+  const clear = () => {
+    setInput("");
+    setQuery("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2 shrink-0">
+      <form onSubmit={handleSubmit} className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Buscar nos documentos"
+          className="h-8 pl-7 pr-7 text-xs"
+        />
+        {input && (
+          <button
+            type="button"
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            onClick={clear}
+            title="Limpar busca"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </form>
+
+      {query && (
+        <div className="max-h-72 overflow-y-auto space-y-1 border rounded-md p-1" style={{ scrollbarWidth: 'thin' }}>
+          {searchTerms(query).length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2">
+              Use palavras com pelo menos {MIN_SEARCH_TERM_LENGTH} letras
+            </p>
+          ) : isFetching && !results ? (
+            <div className="flex justify-center p-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : results && results.length > 0 ? (
+            results.map(result => (
+              <button
+                key={`${result.documentId}-${result.page}`}
+                type="button"
+                className="w-full flex gap-2 p-1.5 rounded text-left hover:bg-muted"
+                onClick={() => onOpen(result.documentId, result.page)}
+              >
+                {result.thumbnailUrl ? (
+                  <img src={result.thumbnailUrl} alt="" className="w-10 shrink-0 self-start border rounded-sm" />
+                ) : (
+                  <FileText className="h-4 w-4 shrink-0 text-primary" />
+                )}
+                <span className="min-w-0">
+                  <span className="block text-[11px] font-medium truncate">
+                    {result.title} · pág. {result.page}
+                  </span>
+                  <span className="block text-[11px] text-muted-foreground line-clamp-3">
+                    <Highlighted snippet={result.snippet} />
+                  </span>
+                </span>
+              </button>
+            ))
+          ) : (
+            <p className="text-xs text-muted-foreground p-2">Nada encontrado</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
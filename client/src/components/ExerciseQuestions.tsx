@@ -0,0 +1,605 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ANSWER_CHECK_MODE_LABELS, ANSWER_CHECK_MODES, type AnswerCheckMode } from "@shared/answerCheck";
+import {
+  MAX_CHOICE_OPTIONS,
+  MAX_ORDERING_STEPS,
+  MAX_QUESTION_PARTS,
+  MIN_CHOICE_OPTIONS,
+  MIN_ORDERING_STEPS,
+  MIN_QUESTION_PARTS,
+  optionLetter,
+  QUESTION_TYPE_LABELS,
+  type ContentQuestion,
+  type ExerciseAnswer,
+  type ExerciseQuestion,
+  type PartResult,
+  type PublicQuestion,
+  type PublicSimpleQuestion,
+  type QuestionPart,
+  type QuestionSummary,
+  type SimpleAnswer,
+  type SimpleQuestion,
+  type SimpleQuestionResults,
+} from "@shared/exerciseQuestions";
+import { ArrowDown, ArrowUp, CheckCircle2, Plus, Trash2, XCircle } from "lucide-react";
+
+type SimpleQuestionType = SimpleQuestion["type"];
+
+const SIMPLE_QUESTION_TYPES: SimpleQuestionType[] = ["text", "multipleChoice", "numeric", "trueFalse", "ordering"];
+
+function emptySimpleQuestion(type: SimpleQuestionType): SimpleQuestion {
+  switch (type) {
+    case "text":
+      return { type, correctAnswer: "", checkMode: "strict" };
+    case "multipleChoice":
+      return { type, options: ["", ""], correct: [0], multiple: false };
+    case "numeric":
+      return { type, value: 0, tolerance: 0 };
+    case "trueFalse":
+      return { type, correct: true };
+    case "ordering":
+      return { type, steps: ["", ""] };
+  }
+}
+
+function emptyPart(): QuestionPart {
+  return { prompt: "", points: 5, question: emptySimpleQuestion("text") };
+}
+
+/** A blank question of `type`, for the teacher to fill in. */
+export function emptyQuestion(type: ContentQuestion["type"]): ContentQuestion {
+  return type === "multiPart" ? { type, parts: [emptyPart(), emptyPart()] } : emptySimpleQuestion(type) as ContentQuestion;
+}
+
+// ==================== EDITORS ====================
+
+function ItemsEditor({
+  items,
+  min,
+  max,
+  placeholder,
+  onChange,
+  marker,
+}: {
+  items: string[];
+  min: number;
+  max: number;
+  placeholder: (index: number) => string;
+  onChange: (items: string[], removed?: number) => void;
+  marker: (index: number) => React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-1">
+          {marker(index)}
+          <Input
+            value={item}
+            onChange={(e) => onChange(items.map((other, i) => (i === index ? e.target.value : other)))}
+            placeholder={placeholder(index)}
+            className="h-7 text-xs"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={() => onChange(items.filter((_, i) => i !== index), index)}
+            disabled={items.length <= min}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {items.length < max && (
+        <Button variant="ghost" size="sm" className="h-6 text-xs gap-1" onClick={() => onChange([...items, ""])}>
+          <Plus className="h-3 w-3" />
+          Adicionar
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function SimpleQuestionEditor({ value, onChange }: { value: SimpleQuestion; onChange: (value: SimpleQuestion) => void }) {
+  switch (value.type) {
+    case "text":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={value.correctAnswer}
+            onChange={(e) => onChange({ ...value, correctAnswer: e.target.value })}
+            placeholder="Resposta"
+            className="h-7 text-xs"
+          />
+          <Select value={value.checkMode} onValueChange={(v) => onChange({ ...value, checkMode: v as AnswerCheckMode })}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANSWER_CHECK_MODES.map(mode => (
+                <SelectItem key={mode} value={mode}>{ANSWER_CHECK_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+
+    case "multipleChoice": {
+      const toggle = (index: number) => {
+        if (!value.multiple) {
+          onChange({ ...value, correct: [index] });
+        } else if (value.correct.includes(index)) {
+          onChange({ ...value, correct: value.correct.filter(i => i !== index) });
+        } else {
+          onChange({ ...value, correct: [...value.correct, index] });
+        }
+      };
+      return (
+        <div className="space-y-1">
+          <ItemsEditor
+            items={value.options}
+            min={MIN_CHOICE_OPTIONS}
+            max={MAX_CHOICE_OPTIONS}
+            placeholder={index => `Alternativa ${optionLetter(index)}`}
+            // Removing an option shifts the indexes of the right ones after it
+            onChange={(options, removed) => onChange({
+              ...value,
+              options,
+              correct: removed === undefined
+                ? value.correct
+                : value.correct.filter(i => i !== removed).map(i => (i > removed ? i - 1 : i)),
+            })}
+            marker={index => (
+              <Checkbox
+                checked={value.correct.includes(index)}
+                onCheckedChange={() => toggle(index)}
+                title="Correta"
+              />
+            )}
+          />
+          <label className="flex items-center gap-2 text-xs">
+            <Switch
+              checked={value.multiple}
+              onCheckedChange={(multiple) => onChange({ ...value, multiple, correct: multiple ? value.correct : value.correct.slice(0, 1) })}
+            />
+            Várias alternativas corretas
+          </label>
+        </div>
+      );
+    }
+
+    case "numeric":
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            type="number"
+            step="any"
+            value={Number.isNaN(value.value) ? "" : value.value}
+            onChange={(e) => onChange({ ...value, value: e.target.value === "" ? NaN : Number(e.target.value) })}
+            placeholder="Valor"
+            className="h-7 text-xs"
+          />
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            value={value.tolerance || ""}
+            onChange={(e) => onChange({ ...value, tolerance: e.target.value ? Number(e.target.value) : 0 })}
+            placeholder="± tolerância"
+            className="h-7 text-xs"
+          />
+          <Input
+            value={value.unit ?? ""}
+            onChange={(e) => onChange({ ...value, unit: e.target.value || undefined })}
+            placeholder="Unidade (m/s)"
+            className="h-7 text-xs"
+          />
+        </div>
+      );
+
+    case "trueFalse":
+      return (
+        <div className="flex gap-2">
+          {[true, false].map(option => (
+            <Button
+              key={String(option)}
+              variant={value.correct === option ? "default" : "outline"}
+              size="sm"
+              className="h-7 flex-1 text-xs"
+              onClick={() => onChange({ ...value, correct: option })}
+            >
+              {option ? "Verdadeiro" : "Falso"}
+            </Button>
+          ))}
+        </div>
+      );
+
+    case "ordering":
+      return (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Na ordem correta; os alunos recebem embaralhados</p>
+          <ItemsEditor
+            items={value.steps}
+            min={MIN_ORDERING_STEPS}
+            max={MAX_ORDERING_STEPS}
+            placeholder={index => `Passo ${index + 1}`}
+            onChange={(steps) => onChange({ ...value, steps })}
+            marker={index => <span className="w-4 text-xs text-muted-foreground text-right">{index + 1}.</span>}
+          />
+        </div>
+      );
+  }
+}
+
+function SimpleTypeSelect({ value, onChange }: { value: SimpleQuestionType; onChange: (type: SimpleQuestionType) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as SimpleQuestionType)}>
+      <SelectTrigger className="h-7 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SIMPLE_QUESTION_TYPES.map(type => (
+          <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** The editor of every type of question but free text, which the exercise form edits itself. */
+export function QuestionEditor({ value, onChange }: { value: ContentQuestion; onChange: (value: ContentQuestion) => void }) {
+  if (value.type !== "multiPart") {
+    // Each editor gives back a question of the type it was given
+    return <SimpleQuestionEditor value={value} onChange={question => onChange(question as ContentQuestion)} />;
+  }
+
+  const updatePart = (index: number, part: QuestionPart) =>
+    onChange({ ...value, parts: value.parts.map((other, i) => (i === index ? part : other)) });
+
+  return (
+    <div className="space-y-2">
+      {value.parts.map((part, index) => (
+        <div key={index} className="space-y-1 p-2 border rounded bg-background">
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-medium w-5">{index + 1})</span>
+            <Input
+              value={part.prompt}
+              onChange={(e) => updatePart(index, { ...part, prompt: e.target.value })}
+              placeholder="Enunciado da parte"
+              className="h-7 text-xs"
+            />
+            <Input
+              type="number"
+              min={1}
+              value={part.points}
+              onChange={(e) => updatePart(index, { ...part, points: Number(e.target.value) })}
+              className="h-7 w-14 text-xs"
+              title="Pontos"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => onChange({ ...value, parts: value.parts.filter((_, i) => i !== index) })}
+              disabled={value.parts.length <= MIN_QUESTION_PARTS}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <SimpleTypeSelect
+            value={part.question.type}
+            onChange={(type) => updatePart(index, { ...part, question: emptySimpleQuestion(type) })}
+          />
+          <SimpleQuestionEditor value={part.question} onChange={(question) => updatePart(index, { ...part, question })} />
+        </div>
+      ))}
+      {value.parts.length < MAX_QUESTION_PARTS && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs gap-1"
+          onClick={() => onChange({ ...value, parts: [...value.parts, emptyPart()] })}
+        >
+          <Plus className="h-3 w-3" />
+          Adicionar parte
+        </Button>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Total: {value.parts.reduce((total, part) => total + (part.points || 0), 0)} pontos; cada parte certa vale os seus
+      </p>
+    </div>
+  );
+}
+
+// ==================== ANSWERING ====================
+
+export type AnswerDraft = SimpleAnswer | null | (SimpleAnswer | null)[];
+
+function initialSimpleAnswer(question: PublicSimpleQuestion): SimpleAnswer | null {
+  switch (question.type) {
+    case "text":
+    case "numeric":
+      return "";
+    case "multipleChoice":
+      return [];
+    case "trueFalse":
+      return null;
+    case "ordering":
+      return question.steps;
+  }
+}
+
+/** What a student starts from: nothing chosen, steps in the order received. */
+export function initialAnswer(question: PublicQuestion): AnswerDraft {
+  return question.type === "multiPart"
+    ? question.parts.map(part => initialSimpleAnswer(part.question))
+    : initialSimpleAnswer(question);
+}
+
+function readySimpleAnswer(answer: SimpleAnswer | null): SimpleAnswer | null {
+  if (typeof answer === "string") return answer.trim() || null;
+  if (Array.isArray(answer) && answer.length === 0) return null;
+  return answer;
+}
+
+/** The answer to send, or null while there is nothing to send. Blank parts go as null. */
+export function readyAnswer(question: PublicQuestion, draft: AnswerDraft): ExerciseAnswer | null {
+  if (question.type !== "multiPart") return readySimpleAnswer(draft as SimpleAnswer | null);
+  const parts = (draft as (SimpleAnswer | null)[]).map(readySimpleAnswer);
+  // Steps always have some order, so an ordering part alone does not count as answering
+  const answered = parts.some((part, index) => part !== null && question.parts[index].question.type !== "ordering");
+  return answered ? parts : null;
+}
+
+function SimpleAnswerInput({
+  question,
+  value,
+  onChange,
+  disabled,
+}: {
+  question: PublicSimpleQuestion;
+  value: SimpleAnswer | null;
+  onChange: (value: SimpleAnswer | null) => void;
+  disabled?: boolean;
+}) {
+  switch (question.type) {
+    case "text":
+    case "numeric":
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            value={(value as string) ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={question.type === "numeric" ? "Valor..." : "Sua resposta..."}
+            className="h-8 text-sm"
+            disabled={disabled}
+          />
+          {question.type === "numeric" && question.unit && (
+            <span className="text-sm text-muted-foreground">{question.unit}</span>
+          )}
+        </div>
+      );
+
+    case "multipleChoice": {
+      const chosen = (value as number[] | null) ?? [];
+      const toggle = (index: number) => onChange(
+        !question.multiple ? [index]
+          : chosen.includes(index) ? chosen.filter(i => i !== index)
+            : [...chosen, index]
+      );
+      return (
+        <div className="space-y-1">
+          {question.multiple && <p className="text-xs text-muted-foreground">Marque todas as corretas</p>}
+          {question.options.map((option, index) => (
+            <Button
+              key={index}
+              variant={chosen.includes(index) ? "default" : "outline"}
+              size="sm"
+              className="w-full justify-start h-auto py-1.5 text-left whitespace-normal"
+              onClick={() => toggle(index)}
+              disabled={disabled}
+            >
+              <span className="font-bold mr-2">{optionLetter(index)}</span>
+              {option}
+            </Button>
+          ))}
+        </div>
+      );
+    }
+
+    case "trueFalse":
+      return (
+        <div className="flex gap-2">
+          {[true, false].map(option => (
+            <Button
+              key={String(option)}
+              variant={value === option ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => onChange(option)}
+              disabled={disabled}
+            >
+              {option ? "Verdadeiro" : "Falso"}
+            </Button>
+          ))}
+        </div>
+      );
+
+    case "ordering": {
+      const steps = (value as string[] | null) ?? question.steps;
+      const move = (index: number, by: number) => {
+        const reordered = steps.slice();
+        [reordered[index], reordered[index + by]] = [reordered[index + by], reordered[index]];
+        onChange(reordered);
+      };
+      return (
+        <div className="space-y-1">
+          {steps.map((step, index) => (
+            <div key={step} className="flex items-center gap-1 p-1.5 rounded border bg-background text-sm">
+              <span className="w-5 text-xs text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1">{step}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => move(index, -1)} disabled={disabled || index === 0}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => move(index, 1)} disabled={disabled || index === steps.length - 1}>
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+}
+
+/** Where a student answers a question of any type but free text. */
+export function AnswerInput({
+  question,
+  value,
+  onChange,
+  disabled,
+}: {
+  question: PublicQuestion;
+  value: AnswerDraft;
+  onChange: (value: AnswerDraft) => void;
+  disabled?: boolean;
+}) {
+  if (question.type !== "multiPart") {
+    return <SimpleAnswerInput question={question} value={value as SimpleAnswer | null} onChange={onChange} disabled={disabled} />;
+  }
+
+  const parts = value as (SimpleAnswer | null)[];
+  return (
+    <div className="space-y-3">
+      {question.parts.map((part, index) => (
+        <div key={index} className="space-y-1">
+          <Label className="text-xs">
+            {index + 1}) {part.prompt} <span className="text-muted-foreground">({part.points} pts)</span>
+          </Label>
+          <SimpleAnswerInput
+            question={part.question}
+            value={parts[index]}
+            onChange={(answer) => onChange(parts.map((other, i) => (i === index ? answer : other)))}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** How each part of a student's answer went. */
+export function PartResults({ parts }: { parts: PartResult[] }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {parts.map((part, index) => (
+        <div key={index} className="flex items-start gap-1.5 text-xs">
+          {part.correct ? (
+            <CheckCircle2 className="h-3.5 w-3.5 text-green-600 shrink-0" />
+          ) : (
+            <XCircle className="h-3.5 w-3.5 text-red-600 shrink-0" />
+          )}
+          <span>
+            Parte {index + 1}: {part.reason}
+            {part.pointsEarned > 0 && ` (+${part.pointsEarned})`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ==================== RESULTS ====================
+
+function CountBar({ label, count, total, correct }: { label: string; count: number; total: number; correct?: boolean }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className={`w-24 truncate ${correct ? "font-medium text-green-700" : ""}`} title={label}>
+        {correct && "✓ "}{label}
+      </span>
+      <Progress value={total > 0 ? (count / total) * 100 : 0} className="flex-1 h-2" />
+      <span className="w-6 text-right font-mono">{count}</span>
+    </div>
+  );
+}
+
+function SimpleResults({ question, results, answered }: { question: SimpleQuestion; results: SimpleQuestionResults; answered: number }) {
+  if (results.type === "multipleChoice" && question.type === "multipleChoice") {
+    return (
+      <div className="space-y-1">
+        {results.counts.map((count, index) => (
+          <CountBar
+            key={index}
+            label={`${optionLetter(index)}) ${question.options[index]}`}
+            count={count}
+            total={answered}
+            correct={question.correct.includes(index)}
+          />
+        ))}
+      </div>
+    );
+  }
+  if (results.type === "trueFalse" && question.type === "trueFalse") {
+    return (
+      <div className="space-y-1">
+        <CountBar label="Verdadeiro" count={results.counts.true} total={answered} correct={question.correct} />
+        <CountBar label="Falso" count={results.counts.false} total={answered} correct={!question.correct} />
+      </div>
+    );
+  }
+  if (results.type === "ordering" && question.type === "ordering") {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Na posição certa:</p>
+        {results.inPlace.map((count, index) => (
+          <CountBar key={index} label={`${index + 1}. ${question.steps[index]}`} count={count} total={answered} />
+        ))}
+      </div>
+    );
+  }
+  if (results.type === "text" || results.type === "numeric") {
+    return (
+      <div className="space-y-1">
+        {results.answers.map(({ answer, count, correct }) => (
+          <div key={answer} className="flex items-center gap-2 text-xs">
+            {correct ? <CheckCircle2 className="h-3 w-3 text-green-600" /> : <XCircle className="h-3 w-3 text-red-600" />}
+            <span className="flex-1 truncate font-mono">{answer}</span>
+            <span className="font-mono">{count}×</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return null;
+}
+
+/** How the class answered, in the view that fits the type of the question. */
+export function QuestionResults({ question, summary }: { question: ExerciseQuestion; summary: QuestionSummary }) {
+  const { results } = summary;
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium">
+        {summary.correct} de {summary.answered} {summary.answered === 1 ? "acertou" : "acertaram"}
+      </p>
+      {results.type === "multiPart" && question.type === "multiPart" ? (
+        results.parts.map((part, index) => (
+          <div key={index} className="space-y-1">
+            <p className="text-xs">
+              <span className="font-medium">{index + 1}) {question.parts[index].prompt}</span>{" "}
+              <span className="text-muted-foreground">{part.correct}/{part.answered}</span>
+            </p>
+            <SimpleResults question={question.parts[index].question} results={part.results} answered={part.answered} />
+          </div>
+        ))
+      ) : question.type !== "multiPart" && results.type !== "multiPart" ? (
+        <SimpleResults question={question} results={results} answered={summary.answered} />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { QUESTION_TYPE_LABELS } from "@shared/exerciseQuestions";
+import { toast } from "sonner";
+import { ListOrdered, Loader2, SkipForward, Trash2 } from "lucide-react";
+
+interface ExerciseQueueProps {
+  sessionId: number;
+}
+
+/** Quiz sets of the teacher's bank queued into the session (host only). */
+export function ExerciseQueue({ sessionId }: ExerciseQueueProps) {
+  const [setId, setSetId] = useState<string>("");
+
+  const utils = trpc.useUtils();
+
+  const { data: queue } = trpc.exercise.getQueue.useQuery({ sessionId });
+  const { data: sets } = trpc.bank.listSets.useQuery();
+
+  useSessionEvent(SESSION_EVENTS.exercise, () => {
+    utils.exercise.getQueue.invalidate({ sessionId });
+  });
+
+  const onError = (error: { message?: string }) => {
+    toast.error(error.message || "Erro na fila de exercícios");
+  };
+
+  const queueMutation = trpc.bank.queue.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.queued} ${result.queued === 1 ? "questão na fila" : "questões na fila"}`);
+      setSetId("");
+      utils.exercise.getQueue.invalidate({ sessionId });
+      if (result.started) utils.exercise.getActive.invalidate({ sessionId });
+    },
+    onError,
+  });
+
+  const nextMutation = trpc.exercise.next.useMutation({
+    onSuccess: () => {
+      utils.exercise.getQueue.invalidate({ sessionId });
+      utils.exercise.getActive.invalidate({ sessionId });
+    },
+    onError,
+  });
+
+  const autoAdvanceMutation = trpc.exercise.setAutoAdvance.useMutation({
+    onSuccess: () => utils.exercise.getQueue.invalidate({ sessionId }),
+    onError,
+  });
+
+  const clearMutation = trpc.exercise.clearQueue.useMutation({
+    onSuccess: () => {
+      toast.success("Fila esvaziada");
+      utils.exercise.getQueue.invalidate({ sessionId });
+    },
+    onError,
+  });
+
+  const selectedSet = sets?.find(set => String(set.id) === setId);
+  const queued = queue?.exercises ?? [];
+
+  return (
+    <div className="space-y-2 mb-4 p-3 bg-muted/50 rounded-lg shrink-0">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+          <ListOrdered className="h-3 w-3" />
+          Fila {queued.length > 0 && `(${queued.length})`}
+        </h4>
+        <label className="flex items-center gap-2 text-xs">
+          <Switch
+            checked={queue?.autoAdvance ?? false}
+            onCheckedChange={(autoAdvance) => autoAdvanceMutation.mutate({ sessionId, autoAdvance })}
+            disabled={!queue || autoAdvanceMutation.isPending}
+          />
+          Avançar sozinho
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={setId} onValueChange={setSetId}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue placeholder={sets && sets.length > 0 ? "Conjunto do banco..." : "Nenhum conjunto no banco"} />
+          </SelectTrigger>
+          <SelectContent>
+            {sets?.map(set => (
+              <SelectItem key={set.id} value={String(set.id)}>
+                {set.title} ({set.questionIds.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          className="h-8"
+          onClick={() => selectedSet && queueMutation.mutate({ sessionId, questionIds: selectedSet.questionIds })}
+          disabled={!selectedSet || queueMutation.isPending}
+        >
+          {queueMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : "Aplicar"}
+        </Button>
+      </div>
+
+      {queued.length > 0 && (
+        <>
+          <ol className="space-y-1 max-h-24 overflow-y-auto text-xs">
+            {queued.map((exercise, index) => (
+              <li key={exercise.id} className="flex items-center gap-2">
+                <span className="text-muted-foreground w-4 text-right">{index + 1}.</span>
+                <span className="flex-1 truncate">{exercise.question}</span>
+                <span className="text-muted-foreground shrink-0">{QUESTION_TYPE_LABELS[exercise.questionType]}</span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 flex-1 gap-1 text-xs"
+              onClick={() => nextMutation.mutate({ sessionId })}
+              disabled={nextMutation.isPending}
+            >
+              <SkipForward className="h-3 w-3" />
+              Próxima
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 gap-1 text-xs text-destructive"
+              onClick={() => clearMutation.mutate({ sessionId })}
+              disabled={clearMutation.isPending}
+            >
+              <Trash2 className="h-3 w-3" />
+              Esvaziar
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,8 +6,39 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import {
+  ANSWER_CHECK_MODE_LABELS,
+  ANSWER_CHECK_MODES,
+  type AnswerCheckMode,
+  type ToleranceType,
+} from "@shared/answerCheck";
+import {
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  validateExerciseQuestion,
+  type ContentQuestion,
+  type PartResult,
+  type QuestionType,
+} from "@shared/exerciseQuestions";
+import { LATE_ANSWER_GRACE_MS, MAX_SPEED_BONUS } from "@shared/exerciseScoring";
+import {
+  AnswerInput,
+  emptyQuestion,
+  initialAnswer,
+  PartResults,
+  QuestionEditor,
+  QuestionResults,
+  readyAnswer,
+  type AnswerDraft,
+} from "@/components/ExerciseQuestions";
+import { ExerciseQueue } from "@/components/ExerciseQueue";
+import { LiveResponsePanel, RevealedResultsChart } from "@/components/ResponseAnalytics";
 import { toast } from "sonner";
 import katex from "katex";
 import { 
@@ -19,33 +50,55 @@ import {
   Timer,
   Star,
   Medal,
-  Target
+  Target,
+  Flame,
+  Zap,
+  Library
 } from "lucide-react";
 
 interface GamificationProps {
   sessionId: number;
   participantId: number;
+  participantToken: string;
   isHost: boolean;
 }
 
-export function Gamification({ sessionId, participantId, isHost }: GamificationProps) {
+export function Gamification({ sessionId, participantId, participantToken, isHost }: GamificationProps) {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [question, setQuestion] = useState("");
   const [questionLatex, setQuestionLatex] = useState("");
+  const [questionType, setQuestionType] = useState<QuestionType>("text");
+  // The question of every type but free text
+  const [content, setContent] = useState<ContentQuestion | null>(null);
   const [correctAnswer, setCorrectAnswer] = useState("");
+  const [checkMode, setCheckMode] = useState<AnswerCheckMode>("strict");
+  const [tolerance, setTolerance] = useState<number | undefined>(undefined);
+  const [toleranceType, setToleranceType] = useState<ToleranceType>("absolute");
   const [points, setPoints] = useState(10);
   const [timeLimit, setTimeLimit] = useState<number | undefined>(undefined);
+  const [speedBonus, setSpeedBonus] = useState(0);
+  const [streakBonus, setStreakBonus] = useState(false);
   const [answer, setAnswer] = useState("");
+  const [answerDraft, setAnswerDraft] = useState<AnswerDraft>(null);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [hasAnswered, setHasAnswered] = useState(false);
-  const [lastResult, setLastResult] = useState<{ isCorrect: boolean; correctAnswer: string } | null>(null);
+  const [lastResult, setLastResult] = useState<{
+    isCorrect: boolean;
+    correctAnswer: string;
+    pointsEarned: number;
+    bonusPoints: number;
+    streak: number;
+    parts: PartResult[] | null;
+  } | null>(null);
+
+  const utils = trpc.useUtils();
 
   // Fetch active exercise
   const { data: activeExercise, refetch: refetchExercise } = trpc.exercise.getActive.useQuery(
     { sessionId },
     { 
       enabled: !!sessionId,
-      refetchInterval: 2000,
+      refetchInterval: usePollingFallback(2000),
     }
   );
 
@@ -54,14 +107,54 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
     { sessionId },
     { 
       enabled: !!sessionId,
-      refetchInterval: 3000,
+      refetchInterval: usePollingFallback(3000),
+    }
+  );
+
+  // Answers to the active exercise and why each was judged (host only)
+  const { data: responses } = trpc.exercise.getResponses.useQuery(
+    { exerciseId: activeExercise?.id ?? 0 },
+    {
+      enabled: isHost && !!activeExercise,
+      refetchInterval: usePollingFallback(3000),
+    }
+  );
+
+  // How the class answered the active exercise, by type of question (host only)
+  const { data: results } = trpc.exercise.getResults.useQuery(
+    { exerciseId: activeExercise?.id ?? 0 },
+    {
+      enabled: isHost && !!activeExercise,
+      refetchInterval: usePollingFallback(3000),
     }
   );
 
+  // How the class answered, once the teacher reveals it (students)
+  const { data: revealedResults } = trpc.exercise.getRevealedResults.useQuery(
+    { exerciseId: activeExercise?.id ?? 0 },
+    { enabled: !isHost && !!activeExercise?.resultsRevealed }
+  );
+
+  // Realtime updates: exercise started/ended and scores changed
+  useSessionEvent(SESSION_EVENTS.exercise, () => {
+    utils.exercise.getActive.invalidate({ sessionId });
+  });
+
+  useSessionEvent(SESSION_EVENTS.score, (event) => {
+    utils.score.getRanking.invalidate({ sessionId });
+    if (isHost) {
+      utils.exercise.getResponses.invalidate();
+      utils.exercise.getResults.invalidate();
+    }
+    if (event.participantId === participantId) {
+      utils.score.getMyScore.invalidate({ participantToken });
+    }
+  });
+
   // Fetch my score
   const { data: myScore } = trpc.score.getMyScore.useQuery(
-    { sessionId, participantId },
-    { enabled: !!sessionId && !!participantId }
+    { participantToken },
+    { enabled: !!participantToken }
   );
 
   // Create exercise mutation
@@ -71,9 +164,16 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
       setShowCreateForm(false);
       setQuestion("");
       setQuestionLatex("");
+      setQuestionType("text");
+      setContent(null);
       setCorrectAnswer("");
+      setCheckMode("strict");
+      setTolerance(undefined);
+      setToleranceType("absolute");
       setPoints(10);
       setTimeLimit(undefined);
+      setSpeedBonus(0);
+      setStreakBonus(false);
       refetchExercise();
     },
     onError: (error: { message?: string }) => {
@@ -88,11 +188,17 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
       setLastResult({
         isCorrect: result.isCorrect ?? false,
         correctAnswer: result.correctAnswer,
+        pointsEarned: result.pointsEarned ?? 0,
+        bonusPoints: result.bonusPoints ?? 0,
+        streak: result.streak,
+        parts: result.parts,
       });
       refetchRanking();
       
       if (result.isCorrect === true) {
         toast.success(`Correto! +${result.pointsEarned} pontos`);
+      } else if (result.pointsEarned) {
+        toast.success(`Parcialmente correto: +${result.pointsEarned} pontos`);
       } else {
         toast.error(`Incorreto. A resposta era: ${result.correctAnswer}`);
       }
@@ -110,11 +216,38 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
     },
   });
 
-  // Timer effect
+  // Save the active exercise as a question of the bank (host only)
+  const saveToBankMutation = trpc.bank.saveExercise.useMutation({
+    onSuccess: () => {
+      toast.success("Exercício guardado no banco de questões");
+      utils.bank.list.invalidate();
+    },
+    onError: (error: { message?: string }) => {
+      toast.error(error.message || "Erro ao guardar no banco");
+    },
+  });
+
+  // Once no answer can count, the teacher's screen tells the server to move on to the next exercise of the queue
+  const timeUpMutation = trpc.exercise.timeUp.useMutation({
+    onSuccess: (result) => {
+      if (result.advanced) utils.exercise.getActive.invalidate({ sessionId });
+    },
+  });
+
+  useEffect(() => {
+    if (!isHost || !activeExercise || activeExercise.remainingTime == null) return;
+    const exerciseId = activeExercise.id;
+    const timeout = setTimeout(
+      () => timeUpMutation.mutate({ exerciseId }),
+      activeExercise.remainingTime + LATE_ANSWER_GRACE_MS + 500
+    );
+    return () => clearTimeout(timeout);
+  }, [activeExercise, isHost]);
+
+  // Timer effect: counts down what the server said was left, whatever the clock of this device
   useEffect(() => {
-    if (activeExercise?.timeLimit && !hasAnswered) {
-      const startTime = new Date(activeExercise.createdAt).getTime();
-      const endTime = startTime + activeExercise.timeLimit * 1000;
+    if (activeExercise?.remainingTime != null && !hasAnswered) {
+      const endTime = Date.now() + activeExercise.remainingTime;
       
       const updateTimer = () => {
         const now = Date.now();
@@ -141,32 +274,54 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
       setHasAnswered(false);
       setLastResult(null);
       setAnswer("");
+      setAnswerDraft(initialAnswer(activeExercise.content));
     }
   }, [activeExercise?.id]);
 
+  const handleQuestionTypeChange = (type: QuestionType) => {
+    setQuestionType(type);
+    setContent(type === "text" ? null : emptyQuestion(type));
+  };
+
   const handleCreateExercise = () => {
-    if (!question.trim() || !correctAnswer.trim()) {
+    if (!question.trim() || (!content && !correctAnswer.trim())) {
       toast.error("Preencha a pergunta e a resposta correta");
       return;
     }
+    const contentError = content && validateExerciseQuestion(content);
+    if (contentError) {
+      toast.error(contentError);
+      return;
+    }
 
     createExerciseMutation.mutate({
       sessionId,
       question: question.trim(),
       questionLatex: questionLatex.trim() || undefined,
       correctAnswer: correctAnswer.trim(),
+      checkMode,
+      ...(checkMode === "equivalent" && tolerance !== undefined
+        ? { tolerance: toleranceType === "relative" ? tolerance / 100 : tolerance, toleranceType }
+        : {}),
       points,
       timeLimit,
+      speedBonus: timeLimit ? speedBonus : 0,
+      streakBonus,
+      content: content ?? undefined,
     });
   };
 
+  const readyToSubmit = activeExercise && activeExercise.content.type !== "text"
+    ? readyAnswer(activeExercise.content, answerDraft)
+    : answer.trim() || null;
+
   const handleSubmitAnswer = () => {
-    if (!activeExercise || !answer.trim()) return;
+    if (!activeExercise || readyToSubmit === null) return;
 
     submitAnswerMutation.mutate({
       exerciseId: activeExercise.id,
-      participantId,
-      answer: answer.trim(),
+      participantToken,
+      answer: readyToSubmit,
     });
   };
 
@@ -215,9 +370,25 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
       </CardHeader>
 
       <CardContent className="flex-1 flex flex-col p-4 overflow-hidden">
+        {/* Quiz sets queued from the bank (Host Only) */}
+        {isHost && !showCreateForm && <ExerciseQueue sessionId={sessionId} />}
+
         {/* Create Exercise Form (Host Only) */}
         {isHost && showCreateForm && (
           <div className="space-y-3 mb-4 p-3 bg-muted/50 rounded-lg shrink-0">
+            <div className="space-y-1">
+              <Label className="text-xs">Tipo</Label>
+              <Select value={questionType} onValueChange={(v) => handleQuestionTypeChange(v as QuestionType)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-1">
               <Label className="text-xs">Pergunta</Label>
               <Textarea
@@ -242,39 +413,111 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
                 />
               )}
             </div>
-            <div className="grid grid-cols-3 gap-2">
+            {content && (
               <div className="space-y-1">
                 <Label className="text-xs">Resposta</Label>
-                <Input
-                  value={correctAnswer}
-                  onChange={(e) => setCorrectAnswer(e.target.value)}
-                  placeholder="5"
-                  className="h-8 text-xs"
-                />
+                <QuestionEditor value={content} onChange={setContent} />
               </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              {!content && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Resposta</Label>
+                  <Input
+                    value={correctAnswer}
+                    onChange={(e) => setCorrectAnswer(e.target.value)}
+                    placeholder={checkMode === "equivalent" ? "1/2, x^2+1, 9,8 m/s²" : "5"}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              )}
+              {/* Multi-part questions are worth the sum of their parts */}
+              {content?.type !== "multiPart" && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Pontos</Label>
+                  <Input
+                    type="number"
+                    value={points}
+                    onChange={(e) => setPoints(Number(e.target.value))}
+                    min={1}
+                    max={100}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              )}
               <div className="space-y-1">
-                <Label className="text-xs">Pontos</Label>
+                <Label className="text-xs">Tempo (s)</Label>
                 <Input
                   type="number"
-                  value={points}
-                  onChange={(e) => setPoints(Number(e.target.value))}
-                  min={1}
-                  max={100}
+                  value={timeLimit || ""}
+                  onChange={(e) => setTimeLimit(e.target.value ? Number(e.target.value) : undefined)}
+                  placeholder="∞"
+                  min={10}
                   className="h-8 text-xs"
                 />
               </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 items-end">
               <div className="space-y-1">
-                <Label className="text-xs">Tempo (s)</Label>
+                <Label className="text-xs">Bônus de velocidade</Label>
                 <Input
                   type="number"
-                  value={timeLimit || ""}
-                  onChange={(e) => setTimeLimit(e.target.value ? Number(e.target.value) : undefined)}
-                  placeholder="∞"
-                  min={10}
+                  value={speedBonus || ""}
+                  onChange={(e) => setSpeedBonus(e.target.value ? Number(e.target.value) : 0)}
+                  placeholder={timeLimit ? "0" : "Defina o tempo"}
+                  min={0}
+                  max={MAX_SPEED_BONUS}
+                  disabled={!timeLimit}
                   className="h-8 text-xs"
                 />
               </div>
+              <label className="flex items-center gap-2 text-xs h-8">
+                <Switch checked={streakBonus} onCheckedChange={setStreakBonus} />
+                Multiplicar por sequência
+              </label>
             </div>
+            {!content && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Correção</Label>
+                  <Select value={checkMode} onValueChange={(v) => setCheckMode(v as AnswerCheckMode)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANSWER_CHECK_MODES.map(mode => (
+                        <SelectItem key={mode} value={mode}>{ANSWER_CHECK_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {checkMode === "equivalent" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Tolerância</Label>
+                    <div className="flex gap-1">
+                      <Input
+                        type="number"
+                        value={tolerance ?? ""}
+                        onChange={(e) => setTolerance(e.target.value ? Number(e.target.value) : undefined)}
+                        placeholder="0"
+                        min={0}
+                        step="any"
+                        className="h-8 text-xs"
+                      />
+                      <Select value={toleranceType} onValueChange={(v) => setToleranceType(v as ToleranceType)}>
+                        <SelectTrigger className="h-8 w-16 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="absolute">±</SelectItem>
+                          <SelectItem value="relative">%</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex gap-2">
               <Button
                 onClick={handleCreateExercise}
@@ -315,9 +558,23 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
 
             {/* Question */}
             <div className="mb-3">
-              <Badge variant="secondary" className="mb-2">
-                {activeExercise.points} pontos
-              </Badge>
+              <div className="flex flex-wrap gap-1 mb-2">
+                <Badge variant="secondary">
+                  {activeExercise.points} pontos
+                </Badge>
+                {activeExercise.speedBonus > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <Zap className="h-3 w-3" />
+                    até +{activeExercise.speedBonus} por rapidez
+                  </Badge>
+                )}
+                {activeExercise.streakBonus && (
+                  <Badge variant="outline" className="gap-1">
+                    <Flame className="h-3 w-3" />
+                    vale mais em sequência
+                  </Badge>
+                )}
+              </div>
               <p className="text-sm font-medium">{activeExercise.question}</p>
               {activeExercise.questionLatex && (
                 <div 
@@ -328,7 +585,28 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
             </div>
 
             {/* Answer Input (Student) */}
-            {!isHost && !hasAnswered && (
+            {!isHost && !hasAnswered && !activeExercise.resultsRevealed && activeExercise.content.type !== "text" && (
+              <div className="space-y-2">
+                <AnswerInput
+                  question={activeExercise.content}
+                  value={answerDraft}
+                  onChange={setAnswerDraft}
+                  disabled={submitAnswerMutation.isPending}
+                />
+                <Button
+                  className="w-full"
+                  onClick={handleSubmitAnswer}
+                  disabled={readyToSubmit === null || submitAnswerMutation.isPending}
+                >
+                  {submitAnswerMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Enviar"
+                  )}
+                </Button>
+              </div>
+            )}
+            {!isHost && !hasAnswered && !activeExercise.resultsRevealed && activeExercise.content.type === "text" && (
               <div className="flex gap-2">
                 <Input
                   value={answer}
@@ -353,34 +631,103 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
 
             {/* Result Feedback */}
             {hasAnswered && lastResult && (
-              <div className={`flex items-center gap-2 p-2 rounded ${
+              <div className={`p-2 rounded ${
                 lastResult.isCorrect ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
               }`}>
-                {lastResult.isCorrect ? (
-                  <CheckCircle2 className="h-5 w-5" />
-                ) : (
-                  <XCircle className="h-5 w-5" />
+                <div className="flex items-center gap-2">
+                  {lastResult.isCorrect ? (
+                    <CheckCircle2 className="h-5 w-5 shrink-0" />
+                  ) : (
+                    <XCircle className="h-5 w-5 shrink-0" />
+                  )}
+                  <span className="text-sm font-medium">
+                    {lastResult.isCorrect
+                      ? "Correto!"
+                      : `${lastResult.pointsEarned > 0 ? "Parcialmente correto" : "Incorreto"}. Resposta: ${lastResult.correctAnswer}`
+                    }
+                  </span>
+                </div>
+                {(lastResult.bonusPoints > 0 || lastResult.streak > 1) && (
+                  <div className="flex items-center gap-3 mt-1 text-xs">
+                    {lastResult.bonusPoints > 0 && (
+                      <span className="flex items-center gap-1">
+                        <Zap className="h-3 w-3" />
+                        +{lastResult.bonusPoints} de bônus
+                      </span>
+                    )}
+                    {lastResult.streak > 1 && (
+                      <span className="flex items-center gap-1">
+                        <Flame className="h-3 w-3" />
+                        {lastResult.streak} seguidas
+                      </span>
+                    )}
+                  </div>
                 )}
-                <span className="text-sm font-medium">
-                  {lastResult.isCorrect 
-                    ? "Correto!" 
-                    : `Incorreto. Resposta: ${lastResult.correctAnswer}`
-                  }
-                </span>
+                {lastResult.parts && <PartResults parts={lastResult.parts} />}
+              </div>
+            )}
+
+            {/* The spread of the answers, once revealed (Student) */}
+            {!isHost && revealedResults && <RevealedResultsChart results={revealedResults} />}
+
+            {/* Who answered and how, live (Host) */}
+            {isHost && <LiveResponsePanel exerciseId={activeExercise.id} />}
+
+            {/* How the class answered, by type of question (Host) */}
+            {isHost && results && results.summary.answered > 0 && (
+              <div className="mt-3 p-2 rounded bg-background">
+                <QuestionResults question={results.question} summary={results.summary} />
+              </div>
+            )}
+
+            {/* Answers and why they were judged so (Host) */}
+            {isHost && responses && responses.length > 0 && (
+              <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+                {responses.map(response => (
+                  <div key={response.id} className="flex items-start gap-2 text-xs p-1.5 rounded bg-background">
+                    {response.isCorrect ? (
+                      <CheckCircle2 className="h-3.5 w-3.5 text-green-600 shrink-0 mt-0.5" />
+                    ) : (
+                      <XCircle className="h-3.5 w-3.5 text-red-600 shrink-0 mt-0.5" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        <span className="font-medium">{response.participantName}:</span>{" "}
+                        <span className="font-mono">{response.answer}</span>
+                      </p>
+                      {response.checkReason && (
+                        <p className="text-muted-foreground">{response.checkReason}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
 
-            {/* End Exercise Button (Host) */}
+            {/* Save to the bank and End Exercise Buttons (Host) */}
             {isHost && (
-              <Button
-                variant="destructive"
-                size="sm"
-                className="mt-3 w-full"
-                onClick={() => endExerciseMutation.mutate({ exerciseId: activeExercise.id })}
-                disabled={endExerciseMutation.isPending}
-              >
-                Encerrar Desafio
-              </Button>
+              <div className="mt-3 flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => saveToBankMutation.mutate({ exerciseId: activeExercise.id })}
+                  disabled={saveToBankMutation.isPending}
+                  title="Guardar no banco de questões"
+                >
+                  <Library className="h-3 w-3" />
+                  Guardar no banco
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => endExerciseMutation.mutate({ exerciseId: activeExercise.id })}
+                  disabled={endExerciseMutation.isPending}
+                >
+                  Encerrar Desafio
+                </Button>
+              </div>
             )}
           </div>
         )}
@@ -410,6 +757,12 @@ export function Gamification({ sessionId, participantId, isHost }: GamificationP
                       {score.participantName}
                       {score.participantId === participantId && " (você)"}
                     </span>
+                    {score.streak > 1 && (
+                      <span className="flex items-center text-xs text-orange-500" title={`${score.streak} acertos seguidos`}>
+                        <Flame className="h-3 w-3" />
+                        {score.streak}
+                      </span>
+                    )}
                     <div className="text-right">
                       <span className="text-sm font-bold">{score.totalPoints}</span>
                       <span className="text-xs text-muted-foreground ml-1">pts</span>
@@ -1,11 +1,47 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { evaluate, formatMathError, getFreeSymbols, MathParseError, parseExpression } from "@shared/mathExpression";
+import {
+  analysisToLatex,
+  findExtrema,
+  findIntersections,
+  findRoots,
+  integrate,
+  tangentAt,
+  type AnalysisResult,
+} from "@shared/graphAnalysis";
+import {
+  compileGraphExpression,
+  DEFAULT_CURVE_RANGE,
+  getGraphParameterNames,
+  GRAPH_COLORS,
+  GRAPH_TYPE_EXAMPLES,
+  GRAPH_TYPE_LABELS,
+  GRAPH_TYPES,
+  MAX_GRAPH_EXPRESSIONS,
+  parameterScope,
+  parseGraphExpression,
+  readGraphExpressions,
+  readGraphParameters,
+  SPACE_KINDS,
+  syncGraphParameters,
+  traceImplicit,
+  type GraphExpression,
+  type GraphExpressionKind,
+  type GraphParameter,
+  type GraphType,
+} from "@shared/graphExpressions";
+import { DEFAULT_CAMERA, readGraphCamera, type GraphCamera } from "@shared/graph3d";
+import { SpaceGraph } from "@/components/SpaceGraph";
 import { toast } from "sonner";
 import { 
   LineChart, 
@@ -14,22 +50,27 @@ import {
   ZoomIn,
   ZoomOut,
   Move,
-  RotateCcw
+  RotateCcw,
+  X,
+  Copy,
+  Undo2,
+  Crosshair,
+  Share2
 } from "lucide-react";
 
 interface InteractiveGraphProps {
   sessionId: number;
   isHost: boolean;
+  // Needed to share analysis results in the live chat
+  participantToken: string | null;
 }
 
-type GraphType = "linear" | "quadratic" | "cubic" | "trigonometric" | "exponential" | "custom";
 
 interface GraphConfig {
   xMin: number;
   xMax: number;
   yMin: number;
   yMax: number;
-  color: string;
   showGrid: boolean;
 }
 
@@ -38,13 +79,78 @@ const defaultConfig: GraphConfig = {
   xMax: 10,
   yMin: -10,
   yMax: 10,
-  color: "#3b82f6",
   showGrid: true,
 };
 
-export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
+// Slider values and camera moves are sent at most this often while the teacher drags
+const PARAMETER_BROADCAST_INTERVAL = 100;
+
+type AnalysisTool = AnalysisResult["tool"];
+
+const ANALYSIS_TOOLS: Record<AnalysisTool, string> = {
+  roots: "Raízes",
+  extrema: "Máximos e mínimos",
+  intersections: "Interseções",
+  tangent: "Reta tangente",
+  area: "Área sob a curva",
+};
+
+// Select value for "no analysis"
+const NO_ANALYSIS = "none";
+
+type LocalCopy = {
+  graphId: number;
+  expressions: GraphExpression[];
+  parameters: GraphParameter[];
+};
+
+let nextExpressionId = 1;
+
+function newExpression(source: string, index: number): GraphExpression {
+  return { id: String(nextExpressionId++), source, color: GRAPH_COLORS[index % GRAPH_COLORS.length] };
+}
+
+function checkExpression(source: string): { error: MathParseError | null; kind: GraphExpressionKind | null } {
+  try {
+    return { error: null, kind: parseGraphExpression(source).kind };
+  } catch (error) {
+    if (error instanceof MathParseError) return { error, kind: null };
+    throw error;
+  }
+}
+
+// Curves drawn over a range of t or θ, which the editor lets the teacher change
+const CURVE_KINDS: (GraphExpressionKind | null)[] = ["parametric", "polar", "spaceCurve"];
+
+// Arrows drawn for a vector field, per canvas width and height
+const FIELD_COLUMNS = 20;
+const FIELD_ROWS = 16;
+
+// Size in pixels of the marching squares cells for implicit relations
+const IMPLICIT_CELL = 4;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+function ExpressionError({ source, error }: { source: string; error: MathParseError }) {
+  return (
+    <div className="space-y-0.5">
+      <p className="text-xs font-mono whitespace-pre">
+        {source.slice(0, error.start)}
+        <span className="bg-destructive/20 text-destructive underline decoration-wavy">
+          {source.slice(error.start, error.end) || " "}
+        </span>
+        {source.slice(error.end)}
+      </p>
+      <p className="text-xs text-destructive">{formatMathError(error)}</p>
+    </div>
+  );
+}
+
+export function InteractiveGraph({ sessionId, isHost, participantToken }: InteractiveGraphProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [equation, setEquation] = useState("y = x");
+  const utils = trpc.useUtils();
+  const [draftExpressions, setDraftExpressions] = useState<GraphExpression[]>(() => [newExpression(GRAPH_TYPE_EXAMPLES.linear, 0)]);
+  const [draftParameterSettings, setDraftParameterSettings] = useState<GraphParameter[]>([]);
   const [graphType, setGraphType] = useState<GraphType>("linear");
   const [config, setConfig] = useState<GraphConfig>(defaultConfig);
   const [zoom, setZoom] = useState(1);
@@ -52,16 +158,51 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [showCreateForm, setShowCreateForm] = useState(false);
+  // Teacher's slider values not yet confirmed by the server
+  const [hostParameters, setHostParameters] = useState<GraphParameter[] | null>(null);
+  // Student's private copy of the graph to experiment with
+  const [localCopy, setLocalCopy] = useState<LocalCopy | null>(null);
+  // Teacher's camera not yet confirmed by the server
+  const [hostCamera, setHostCamera] = useState<GraphCamera | null>(null);
+  // Camera of the form preview, or of a student who turned away from the teacher's view
+  const [ownCamera, setOwnCamera] = useState<GraphCamera | null>(null);
+  const [analysisTool, setAnalysisTool] = useState<AnalysisTool | null>(null);
+  const [analysisTargetId, setAnalysisTargetId] = useState<string | null>(null);
+  const [analysisSecondId, setAnalysisSecondId] = useState<string | null>(null);
+  const [tangentX, setTangentX] = useState<number | null>(null);
+  const [areaBounds, setAreaBounds] = useState({ from: "0", to: "1" });
+  // Whether the mouse moved since it was pressed: a click without moving picks the tangent point
+  const dragMoved = useRef(false);
+  const broadcastTimer = useRef<number | null>(null);
+  const pendingParameters = useRef<GraphParameter[]>([]);
+  const cameraTimer = useRef<number | null>(null);
+  const pendingCamera = useRef<GraphCamera>(DEFAULT_CAMERA);
 
   // Fetch active graph
   const { data: activeGraph, refetch: refetchGraph } = trpc.graph.getActive.useQuery(
     { sessionId },
     { 
       enabled: !!sessionId,
-      refetchInterval: 3000,
+      refetchInterval: usePollingFallback(3000),
     }
   );
 
+  useSessionEvent(SESSION_EVENTS.graph, () => {
+    refetchGraph();
+  });
+
+  useSessionEvent(SESSION_EVENTS.graphParameters, ({ graphId, parameters }) => {
+    utils.graph.getActive.setData({ sessionId }, graph =>
+      graph && graph.id === graphId ? { ...graph, parameters: JSON.stringify(parameters) } : graph
+    );
+  });
+
+  useSessionEvent(SESSION_EVENTS.graphCamera, ({ graphId, camera }) => {
+    utils.graph.getActive.setData({ sessionId }, graph =>
+      graph && graph.id === graphId ? { ...graph, camera: JSON.stringify(camera) } : graph
+    );
+  });
+
   // Create graph mutation
   const createGraphMutation = trpc.graph.create.useMutation({
     onSuccess: () => {
@@ -74,39 +215,141 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
     },
   });
 
-  // Parse equation and evaluate
-  const evaluateEquation = useCallback((x: number, eq: string, type: GraphType): number | null => {
-    try {
-      // Clean the equation
-      let cleanEq = eq.replace(/y\s*=\s*/i, "").trim();
-      
-      // Replace common math functions
-      cleanEq = cleanEq
-        .replace(/sen|sin/gi, "Math.sin")
-        .replace(/cos/gi, "Math.cos")
-        .replace(/tan/gi, "Math.tan")
-        .replace(/sqrt/gi, "Math.sqrt")
-        .replace(/abs/gi, "Math.abs")
-        .replace(/log/gi, "Math.log")
-        .replace(/exp/gi, "Math.exp")
-        .replace(/\^/g, "**")
-        .replace(/π|pi/gi, "Math.PI")
-        .replace(/e(?![xp])/gi, "Math.E");
-
-      // Replace x with the value
-      const evalStr = cleanEq.replace(/x/gi, `(${x})`);
-      
-      // Evaluate safely
-      const result = Function(`"use strict"; return (${evalStr})`)();
-      
-      if (typeof result === "number" && isFinite(result)) {
-        return result;
+  const setParametersMutation = trpc.graph.setParameters.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Erro ao atualizar os parâmetros");
+    },
+  });
+
+  const setCameraMutation = trpc.graph.setCamera.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Erro ao sincronizar a câmera");
+    },
+  });
+
+  const shareMutation = trpc.liveChat.sendMessage.useMutation({
+    onSuccess: () => {
+      toast.success("Resultado enviado ao chat");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao enviar ao chat");
+    },
+  });
+
+  useEffect(() => {
+    setHostParameters(null);
+    setHostCamera(null);
+    setOwnCamera(null);
+  }, [activeGraph?.id]);
+
+  useEffect(() => () => {
+    if (broadcastTimer.current !== null) window.clearTimeout(broadcastTimer.current);
+    if (cameraTimer.current !== null) window.clearTimeout(cameraTimer.current);
+  }, []);
+
+  const draftParameters = useMemo(
+    () => syncGraphParameters(draftParameterSettings, getGraphParameterNames(draftExpressions)),
+    [draftParameterSettings, draftExpressions]
+  );
+
+  const draftChecks = useMemo(
+    () => new Map(draftExpressions.map(expression => [expression.id, checkExpression(expression.source)])),
+    [draftExpressions]
+  );
+  const hasDraftErrors = Array.from(draftChecks.values()).some(check => check.error !== null);
+  const draftSpaceCount = Array.from(draftChecks.values()).filter(check => check.kind && SPACE_KINDS.includes(check.kind)).length;
+  const draftMixesDimensions = draftSpaceCount > 0 && draftSpaceCount < draftExpressions.length;
+
+  const sharedExpressions = useMemo(() => (activeGraph ? readGraphExpressions(activeGraph) : []), [activeGraph]);
+  const sharedParameters = useMemo(() => (activeGraph ? readGraphParameters(activeGraph) : []), [activeGraph]);
+  const isLocal = !!localCopy && localCopy.graphId === activeGraph?.id;
+
+  // What is on screen: the form preview, the student's copy or the shared graph
+  const shownExpressions = showCreateForm ? draftExpressions : isLocal ? localCopy.expressions : sharedExpressions;
+  const shownParameters = showCreateForm
+    ? draftParameters
+    : isLocal ? localCopy.parameters : hostParameters ?? sharedParameters;
+  const sharedCamera = useMemo(() => readGraphCamera(activeGraph?.camera ?? null), [activeGraph?.camera]);
+  const shownCamera = showCreateForm || !isHost ? ownCamera ?? sharedCamera : hostCamera ?? sharedCamera;
+  const storedConfig = showCreateForm ? null : activeGraph?.config;
+  const currentConfig = useMemo<GraphConfig>(
+    () => (storedConfig ? { ...defaultConfig, ...JSON.parse(storedConfig) } : config),
+    [storedConfig, config]
+  );
+
+  const parsedExpressions = useMemo(
+    () => shownExpressions.flatMap(expression => {
+      if (expression.hidden) return [];
+      try {
+        return [{ expression, parsed: parseGraphExpression(expression.source) }];
+      } catch {
+        return [];
+      }
+    }),
+    [shownExpressions]
+  );
+
+  const compiledExpressions = useMemo(() => {
+    const scope = parameterScope(shownParameters);
+    return parsedExpressions.map(({ expression, parsed }) => ({
+      expression,
+      parsed,
+      compiled: compileGraphExpression(parsed, scope, expression.range),
+    }));
+  }, [parsedExpressions, shownParameters]);
+
+  // Graphs with surfaces or curves in space are drawn in the 3D view
+  const spaceEntries = useMemo(
+    () => compiledExpressions.filter(({ parsed }) => SPACE_KINDS.includes(parsed.kind)),
+    [compiledExpressions]
+  );
+  const isSpaceGraph = spaceEntries.length > 0;
+
+  // Visible window after zoom and pan
+  const viewport = useMemo(() => {
+    const xRange = (currentConfig.xMax - currentConfig.xMin) / zoom;
+    const yRange = (currentConfig.yMax - currentConfig.yMin) / zoom;
+    const xMin = currentConfig.xMin + panOffset.x;
+    const yMin = currentConfig.yMin + panOffset.y;
+    return { xMin, xMax: xMin + xRange, xRange, yMin, yMax: yMin + yRange, yRange };
+  }, [currentConfig, zoom, panOffset]);
+
+  // Functions that can be analysed (points, lines and inequalities cannot)
+  const functionEntries = compiledExpressions.flatMap(entry =>
+    entry.compiled.kind === "function" && entry.parsed.kind === "function"
+      ? [{ expression: entry.expression, node: entry.parsed.expression, plot: entry.compiled.plot }]
+      : []
+  );
+  const analysisTarget = functionEntries.find(entry => entry.expression.id === analysisTargetId) ?? functionEntries[0];
+  const analysisSecond = functionEntries.find(entry => entry.expression.id === analysisSecondId)
+    ?? functionEntries.find(entry => entry !== analysisTarget);
+
+  const analysis = useMemo((): AnalysisResult | null => {
+    if (!analysisTool || !analysisTarget) return null;
+    const { plot } = analysisTarget;
+    const { xMin, xMax } = viewport;
+
+    switch (analysisTool) {
+      case "roots":
+        return { tool: "roots", points: findRoots(plot, xMin, xMax).map(x => ({ x, y: 0 })) };
+      case "extrema":
+        return { tool: "extrema", points: findExtrema(plot, xMin, xMax) };
+      case "intersections":
+        return analysisSecond
+          ? { tool: "intersections", points: findIntersections(plot, analysisSecond.plot, xMin, xMax) }
+          : null;
+      case "tangent": {
+        const tangent = tangentX === null ? null : tangentAt(plot, tangentX);
+        return tangent ? { tool: "tangent", tangent } : null;
+      }
+      case "area": {
+        const [from, to] = [Number(areaBounds.from.replace(",", ".")), Number(areaBounds.to.replace(",", "."))];
+        if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) return null;
+        const area = integrate(plot, from, to);
+        return area === null ? null : { tool: "area", from, to, area };
       }
-      return null;
-    } catch {
-      return null;
     }
-  }, []);
+  }, [analysisTool, analysisTarget, analysisSecond, viewport, tangentX, areaBounds]);
 
   // Draw graph on canvas
   const drawGraph = useCallback(() => {
@@ -118,17 +361,8 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
 
     const width = canvas.width;
     const height = canvas.height;
-    const currentConfig = activeGraph?.config ? JSON.parse(activeGraph.config) : config;
-    const currentEquation = activeGraph?.equation || equation;
-    const currentType = (activeGraph?.graphType || graphType) as GraphType;
 
-    // Apply zoom and pan
-    const xRange = (currentConfig.xMax - currentConfig.xMin) / zoom;
-    const yRange = (currentConfig.yMax - currentConfig.yMin) / zoom;
-    const xMin = currentConfig.xMin + panOffset.x;
-    const xMax = xMin + xRange;
-    const yMin = currentConfig.yMin + panOffset.y;
-    const yMax = yMin + yRange;
+    const { xMin, xMax, xRange, yMin, yMax, yRange } = viewport;
 
     // Clear canvas
     ctx.fillStyle = "#ffffff";
@@ -182,33 +416,195 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
       ctx.stroke();
     }
 
-    // Draw function
-    ctx.strokeStyle = currentConfig.color || "#3b82f6";
-    ctx.lineWidth = 3;
-    ctx.beginPath();
+    const toPx = (x: number) => ((x - xMin) / xRange) * width;
+    const toPy = (y: number) => height - ((y - yMin) / yRange) * height;
+
+    // Inequalities first, so curves and points stay visible over the shading
+    for (const { expression, compiled } of compiledExpressions) {
+      if (compiled.kind !== "inequality") continue;
+      const above = compiled.op === ">" || compiled.op === ">=";
 
-    let firstPoint = true;
-    const step = xRange / width;
+      ctx.fillStyle = expression.color;
+      ctx.globalAlpha = 0.15;
+      for (let px = 0; px <= width; px++) {
+        const y = compiled.boundary(xMin + (px / width) * xRange);
+        if (y === null) continue;
+        const py = Math.min(Math.max(toPy(y), 0), height);
+        if (above) ctx.fillRect(px, 0, 1, py);
+        else ctx.fillRect(px, py, 1, height - py);
+      }
+      ctx.globalAlpha = 1;
+    }
 
-    for (let px = 0; px <= width; px++) {
-      const x = xMin + (px / width) * xRange;
-      const y = evaluateEquation(x, currentEquation, currentType);
+    for (const { expression, compiled } of compiledExpressions) {
+      if (compiled.kind === "point" || compiled.kind === "vectorField") continue;
+      if (compiled.kind === "surface" || compiled.kind === "spaceCurve") continue;
 
-      if (y !== null && y >= yMin && y <= yMax) {
-        const py = height - ((y - yMin) / yRange) * height;
-        
-        if (firstPoint) {
-          ctx.moveTo(px, py);
-          firstPoint = false;
-        } else {
-          ctx.lineTo(px, py);
+      ctx.strokeStyle = expression.color;
+      ctx.lineWidth = 3;
+      // Strict inequalities have a dashed boundary, as on paper
+      ctx.setLineDash(compiled.kind === "inequality" && (compiled.op === "<" || compiled.op === ">") ? [8, 6] : []);
+      ctx.beginPath();
+
+      if (compiled.kind === "vertical") {
+        if (compiled.x !== null) {
+          ctx.moveTo(toPx(compiled.x), 0);
+          ctx.lineTo(toPx(compiled.x), height);
+        }
+      } else if (compiled.kind === "implicit") {
+        const segments = traceImplicit(
+          compiled.relation,
+          viewport,
+          Math.ceil(width / IMPLICIT_CELL),
+          Math.ceil(height / IMPLICIT_CELL)
+        );
+        for (const [from, to] of segments) {
+          ctx.moveTo(toPx(from.x), toPy(from.y));
+          ctx.lineTo(toPx(to.x), toPy(to.y));
+        }
+      } else if (compiled.kind === "parametric") {
+        const { min, max } = compiled.range;
+        const steps = 1000;
+        let previous: { px: number; py: number } | null = null;
+
+        for (let i = 0; i <= steps; i++) {
+          const point = compiled.curve(min + ((max - min) * i) / steps);
+          if (!point) {
+            previous = null;
+            continue;
+          }
+          const current = { px: toPx(point.x), py: toPy(point.y) };
+          // A jump across most of the canvas is a discontinuity, not part of the curve
+          const jumps = previous && Math.hypot(current.px - previous.px, current.py - previous.py) > Math.max(width, height) / 2;
+          if (!previous || jumps) ctx.moveTo(current.px, current.py);
+          else ctx.lineTo(current.px, current.py);
+          previous = current;
         }
       } else {
-        firstPoint = true;
+        const plot = compiled.kind === "function" ? compiled.plot : compiled.boundary;
+        let firstPoint = true;
+
+        for (let px = 0; px <= width; px++) {
+          const x = xMin + (px / width) * xRange;
+          const y = plot(x);
+
+          if (y !== null && y >= yMin && y <= yMax) {
+            const py = toPy(y);
+
+            if (firstPoint) {
+              ctx.moveTo(px, py);
+              firstPoint = false;
+            } else {
+              ctx.lineTo(px, py);
+            }
+          } else {
+            firstPoint = true;
+          }
+        }
       }
+
+      ctx.stroke();
     }
+    ctx.setLineDash([]);
+
+    // Vector fields: arrows on a grid, scaled so the longest fills its cell
+    for (const { expression, compiled } of compiledExpressions) {
+      if (compiled.kind !== "vectorField") continue;
+
+      const cellWidth = width / FIELD_COLUMNS;
+      const cellHeight = height / FIELD_ROWS;
+      const arrows: { px: number; py: number; vx: number; vy: number }[] = [];
+      for (let i = 0; i < FIELD_COLUMNS; i++) {
+        for (let j = 0; j < FIELD_ROWS; j++) {
+          const px = (i + 0.5) * cellWidth;
+          const py = (j + 0.5) * cellHeight;
+          const vector = compiled.field(xMin + (px / width) * xRange, yMax - (py / height) * yRange);
+          // Screen y grows downwards
+          if (vector) arrows.push({ px, py, vx: vector.x / xRange * width, vy: -vector.y / yRange * height });
+        }
+      }
+      const longest = Math.max(...arrows.map(({ vx, vy }) => Math.hypot(vx, vy)));
+      if (!Number.isFinite(longest) || longest === 0) continue;
+
+      const scale = (Math.min(cellWidth, cellHeight) * 0.8) / longest;
+      ctx.strokeStyle = expression.color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      for (const { px, py, vx, vy } of arrows) {
+        const [dx, dy] = [vx * scale, vy * scale];
+        const [tipX, tipY] = [px + dx / 2, py + dy / 2];
+        const angle = Math.atan2(dy, dx);
+        ctx.moveTo(px - dx / 2, py - dy / 2);
+        ctx.lineTo(tipX, tipY);
+        ctx.moveTo(tipX - 5 * Math.cos(angle - 0.5), tipY - 5 * Math.sin(angle - 0.5));
+        ctx.lineTo(tipX, tipY);
+        ctx.lineTo(tipX - 5 * Math.cos(angle + 0.5), tipY - 5 * Math.sin(angle + 0.5));
+      }
+      ctx.stroke();
+    }
+
+    for (const { expression, compiled } of compiledExpressions) {
+      if (compiled.kind !== "point" || compiled.x === null || compiled.y === null) continue;
+
+      ctx.fillStyle = expression.color;
+      ctx.beginPath();
+      ctx.arc(toPx(compiled.x), toPy(compiled.y), 5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.font = "12px sans-serif";
+      ctx.textAlign = "left";
+      ctx.fillText(`(${formatNumber(compiled.x)}, ${formatNumber(compiled.y)})`, toPx(compiled.x) + 8, toPy(compiled.y) - 8);
+    }
+
+    // Analysis results over the curves
+    if (analysis && analysisTarget) {
+      ctx.strokeStyle = "#111827";
+      ctx.fillStyle = "#111827";
+      ctx.lineWidth = 2;
 
-    ctx.stroke();
+      if (analysis.tool === "area") {
+        const axis = Math.min(Math.max(toPy(0), 0), height);
+        ctx.fillStyle = analysisTarget.expression.color;
+        ctx.globalAlpha = 0.3;
+        for (let px = Math.max(0, Math.ceil(toPx(analysis.from))); px <= Math.min(width, toPx(analysis.to)); px++) {
+          const y = analysisTarget.plot(xMin + (px / width) * xRange);
+          if (y === null) continue;
+          const py = Math.min(Math.max(toPy(y), 0), height);
+          ctx.fillRect(px, Math.min(py, axis), 1, Math.abs(axis - py));
+        }
+        ctx.globalAlpha = 1;
+      }
+
+      if (analysis.tool === "tangent") {
+        const { x, y, slope } = analysis.tangent;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(0, toPy(y + slope * (xMin - x)));
+        ctx.lineTo(width, toPy(y + slope * (xMax - x)));
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      const labelled = analysis.tool === "tangent"
+        ? [{ ...analysis.tangent, label: `m = ${formatNumber(analysis.tangent.slope)}` }]
+        : analysis.tool === "area"
+          ? []
+          : analysis.points.map(point => ({
+            ...point,
+            label: `${"kind" in point ? (point.kind === "min" ? "mín " : "máx ") : ""}(${formatNumber(point.x)}; ${formatNumber(point.y)})`,
+          }));
+
+      ctx.font = "bold 12px sans-serif";
+      ctx.textAlign = "left";
+      for (const { x, y, label } of labelled) {
+        ctx.fillStyle = "#ffffff";
+        ctx.beginPath();
+        ctx.arc(toPx(x), toPy(y), 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = "#111827";
+        ctx.fillText(label, toPx(x) + 8, toPy(y) + 16);
+      }
+    }
 
     // Draw axis labels
     ctx.fillStyle = "#374151";
@@ -240,12 +636,14 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
       }
     }
 
-    // Draw equation label
-    ctx.fillStyle = currentConfig.color || "#3b82f6";
+    // Draw equation labels
     ctx.font = "bold 16px sans-serif";
     ctx.textAlign = "left";
-    ctx.fillText(currentEquation, 10, 25);
-  }, [activeGraph, config, equation, graphType, zoom, panOffset, evaluateEquation]);
+    compiledExpressions.forEach(({ expression }, index) => {
+      ctx.fillStyle = expression.color;
+      ctx.fillText(expression.source, 10, 25 + index * 20);
+    });
+  }, [currentConfig, compiledExpressions, viewport, analysis, analysisTarget]);
 
   // Redraw when dependencies change
   useEffect(() => {
@@ -256,6 +654,7 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsDragging(true);
     setDragStart({ x: e.clientX, y: e.clientY });
+    dragMoved.current = false;
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -263,10 +662,9 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
 
     const canvas = canvasRef.current;
     if (!canvas) return;
+    dragMoved.current = true;
 
-    const currentConfig = activeGraph?.config ? JSON.parse(activeGraph.config) : config;
-    const xRange = (currentConfig.xMax - currentConfig.xMin) / zoom;
-    const yRange = (currentConfig.yMax - currentConfig.yMin) / zoom;
+    const { xRange, yRange } = viewport;
 
     const dx = ((e.clientX - dragStart.x) / canvas.width) * xRange;
     const dy = ((e.clientY - dragStart.y) / canvas.height) * yRange;
@@ -279,8 +677,13 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
     setDragStart({ x: e.clientX, y: e.clientY });
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsDragging(false);
+
+    const canvas = canvasRef.current;
+    if (!canvas || !isDragging || dragMoved.current || analysisTool !== "tangent") return;
+    const rect = canvas.getBoundingClientRect();
+    setTangentX(viewport.xMin + ((e.clientX - rect.left) / rect.width) * viewport.xRange);
   };
 
   const handleZoomIn = () => setZoom(prev => Math.min(prev * 1.5, 10));
@@ -293,22 +696,113 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
   const handleCreateGraph = () => {
     createGraphMutation.mutate({
       sessionId,
-      title: `Gráfico: ${equation}`,
+      title: `Gráfico: ${draftExpressions[0].source}`,
       graphType,
-      equation,
+      expressions: draftExpressions,
+      parameters: draftParameters,
       config: JSON.stringify(config),
     });
   };
 
-  const getEquationPlaceholder = (type: GraphType): string => {
-    switch (type) {
-      case "linear": return "y = 2x + 1";
-      case "quadratic": return "y = x^2 - 4";
-      case "cubic": return "y = x^3 - 3x";
-      case "trigonometric": return "y = sin(x)";
-      case "exponential": return "y = 2^x";
-      default: return "y = x";
+  const updateDraftExpression = (id: string, changes: Partial<GraphExpression>) => {
+    setDraftExpressions(prev => prev.map(expression => (expression.id === id ? { ...expression, ...changes } : expression)));
+  };
+
+  const updateDraftParameter = (name: string, changes: Partial<GraphParameter>) => {
+    setDraftParameterSettings(draftParameters.map(parameter => (parameter.name === name ? { ...parameter, ...changes } : parameter)));
+  };
+
+  const handleParameterChange = (name: string, value: number) => {
+    const next = shownParameters.map(parameter => (parameter.name === name ? { ...parameter, value } : parameter));
+
+    if (isLocal) {
+      setLocalCopy({ ...localCopy, parameters: next });
+      return;
+    }
+    if (!isHost || !activeGraph) return;
+
+    setHostParameters(next);
+    pendingParameters.current = next;
+    if (broadcastTimer.current === null) {
+      const graphId = activeGraph.id;
+      broadcastTimer.current = window.setTimeout(() => {
+        broadcastTimer.current = null;
+        setParametersMutation.mutate({ graphId, parameters: pendingParameters.current });
+      }, PARAMETER_BROADCAST_INTERVAL);
+    }
+  };
+
+  const handleCameraChange = useCallback((camera: GraphCamera) => {
+    if (showCreateForm || !isHost || !activeGraph) {
+      setOwnCamera(camera);
+      return;
+    }
+
+    setHostCamera(camera);
+    pendingCamera.current = camera;
+    if (cameraTimer.current === null) {
+      const graphId = activeGraph.id;
+      cameraTimer.current = window.setTimeout(() => {
+        cameraTimer.current = null;
+        setCameraMutation.mutate({ graphId, camera: pendingCamera.current });
+      }, PARAMETER_BROADCAST_INTERVAL);
+    }
+  }, [showCreateForm, isHost, activeGraph, setCameraMutation]);
+
+  const handleShareAnalysis = () => {
+    if (!analysis || !analysisTarget || !participantToken) return;
+
+    const second = analysis.tool === "intersections" ? analysisSecond : undefined;
+    const used = new Set([...getFreeSymbols(analysisTarget.node), ...(second ? getFreeSymbols(second.node) : [])]);
+    const values = shownParameters
+      .filter(parameter => used.has(parameter.name))
+      .map(parameter => `$${parameter.name} = ${formatNumber(parameter.value)}$`);
+
+    const message = analysisToLatex(analysis, analysisTarget.node, second?.node)
+      + (values.length > 0 ? ` (com ${values.join(", ")})` : "");
+    shareMutation.mutate({ participantToken, message: message.slice(0, 1000) });
+  };
+
+  const handleStartLocalCopy = () => {
+    if (!activeGraph) return;
+    setLocalCopy({ graphId: activeGraph.id, expressions: sharedExpressions, parameters: sharedParameters });
+  };
+
+  const updateLocalExpression = (id: string, source: string) => {
+    if (!localCopy) return;
+    const expressions = localCopy.expressions.map(expression => (expression.id === id ? { ...expression, source } : expression));
+    setLocalCopy({
+      ...localCopy,
+      expressions,
+      parameters: syncGraphParameters(localCopy.parameters, getGraphParameterNames(expressions)),
+    });
+  };
+
+  // The first expression follows the type while it is still the example of the previous type
+  const handleGraphTypeChange = (type: GraphType) => {
+    setDraftExpressions(prev => prev.map((expression, index) =>
+      index === 0 && expression.source === GRAPH_TYPE_EXAMPLES[graphType]
+        ? { ...expression, source: GRAPH_TYPE_EXAMPLES[type] }
+        : expression
+    ));
+    setGraphType(type);
+  };
+
+  // Range bounds accept expressions such as 2pi
+  const handleRangeChange = (expression: GraphExpression, bound: "min" | "max", text: string) => {
+    const range = expression.range ?? DEFAULT_CURVE_RANGE;
+    let value: number;
+    try {
+      value = evaluate(parseExpression(text));
+    } catch {
+      value = NaN;
     }
+    const next = { ...range, [bound]: value };
+    if (!Number.isFinite(value) || next.min >= next.max) {
+      toast.error("Intervalo inválido");
+      return;
+    }
+    updateDraftExpression(expression.id, { range: next });
   };
 
   return (
@@ -340,43 +834,125 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
             <div className="grid grid-cols-2 gap-3">
               <div className="space-y-1">
                 <Label className="text-xs">Tipo</Label>
-                <Select value={graphType} onValueChange={(v) => setGraphType(v as GraphType)}>
+                <Select value={graphType} onValueChange={(v) => handleGraphTypeChange(v as GraphType)}>
                   <SelectTrigger className="h-8 text-xs">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="linear">Linear</SelectItem>
-                    <SelectItem value="quadratic">Quadrática</SelectItem>
-                    <SelectItem value="cubic">Cúbica</SelectItem>
-                    <SelectItem value="trigonometric">Trigonométrica</SelectItem>
-                    <SelectItem value="exponential">Exponencial</SelectItem>
-                    <SelectItem value="custom">Personalizada</SelectItem>
+                    {GRAPH_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{GRAPH_TYPE_LABELS[type]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-1">
-                <Label className="text-xs">Cor</Label>
-                <Input
-                  type="color"
-                  value={config.color}
-                  onChange={(e) => setConfig(prev => ({ ...prev, color: e.target.value }))}
-                  className="h-8 p-1"
-                />
+                <Label className="text-xs">Grade</Label>
+                <Select
+                  value={config.showGrid ? "on" : "off"}
+                  onValueChange={(v) => setConfig(prev => ({ ...prev, showGrid: v === "on" }))}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="on">Com grade</SelectItem>
+                    <SelectItem value="off">Sem grade</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
             </div>
-            <div className="space-y-1">
-              <Label className="text-xs">Equação</Label>
-              <Input
-                value={equation}
-                onChange={(e) => setEquation(e.target.value)}
-                placeholder={getEquationPlaceholder(graphType)}
-                className="h-8 text-xs font-mono"
-              />
+            <div className="space-y-2">
+              <Label className="text-xs">Expressões</Label>
+              {draftExpressions.map((expression, index) => {
+                const { error, kind } = draftChecks.get(expression.id)!;
+                const range = expression.range ?? DEFAULT_CURVE_RANGE;
+                return (
+                  <div key={expression.id} className="space-y-1">
+                    <div className="flex gap-1">
+                      <Input
+                        type="color"
+                        value={expression.color}
+                        onChange={(e) => updateDraftExpression(expression.id, { color: e.target.value })}
+                        className="h-8 w-9 p-1 shrink-0"
+                      />
+                      <Input
+                        value={expression.source}
+                        onChange={(e) => updateDraftExpression(expression.id, { source: e.target.value })}
+                        placeholder={index === 0 ? GRAPH_TYPE_EXAMPLES[graphType] : "(1, 2), x = k, y < x, r = cos θ"}
+                        className="h-8 text-xs font-mono"
+                        aria-invalid={!!error}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => setDraftExpressions(prev => prev.filter(item => item.id !== expression.id))}
+                        disabled={draftExpressions.length === 1}
+                        title="Remover expressão"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    {CURVE_KINDS.includes(kind) && (
+                      <div className="flex items-center gap-1 pl-10 text-xs text-muted-foreground">
+                        {kind === "polar" ? "θ" : "t"} de
+                        <Input
+                          key={`min-${range.min}`}
+                          defaultValue={formatNumber(range.min)}
+                          onBlur={(e) => handleRangeChange(expression, "min", e.target.value)}
+                          className="h-6 w-16 text-xs"
+                        />
+                        a
+                        <Input
+                          key={`max-${range.max}`}
+                          defaultValue={formatNumber(range.max)}
+                          onBlur={(e) => handleRangeChange(expression, "max", e.target.value)}
+                          className="h-6 w-16 text-xs"
+                        />
+                      </div>
+                    )}
+                    {error && <ExpressionError source={expression.source} error={error} />}
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs gap-1"
+                onClick={() => setDraftExpressions(prev => [...prev, newExpression("", prev.length)])}
+                disabled={draftExpressions.length >= MAX_GRAPH_EXPRESSIONS}
+              >
+                <Plus className="h-3 w-3" />
+                Expressão
+              </Button>
             </div>
+            {draftParameters.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Parâmetros (valor, mínimo, máximo)</Label>
+                {draftParameters.map(parameter => (
+                  <div key={parameter.name} className="flex items-center gap-1">
+                    <span className="w-8 text-xs font-mono shrink-0">{parameter.name}</span>
+                    {(["value", "min", "max"] as const).map(field => (
+                      <Input
+                        key={field}
+                        type="number"
+                        step={parameter.step}
+                        value={parameter[field]}
+                        onChange={(e) => updateDraftParameter(parameter.name, { [field]: Number(e.target.value) })}
+                        className="h-7 text-xs"
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            {draftMixesDimensions && (
+              <p className="text-xs text-destructive">Um gráfico não pode misturar expressões 2D e 3D</p>
+            )}
             <div className="flex gap-2">
               <Button
                 onClick={handleCreateGraph}
-                disabled={createGraphMutation.isPending}
+                disabled={createGraphMutation.isPending || hasDraftErrors || draftMixesDimensions}
                 size="sm"
                 className="flex-1"
               >
@@ -396,47 +972,58 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
 
         {/* Graph Canvas */}
         <div className="flex-1 relative border rounded-lg overflow-hidden bg-white min-h-[200px]">
-          <canvas
-            ref={canvasRef}
-            width={500}
-            height={400}
-            className="w-full h-full cursor-move"
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-          />
-
-          {/* Zoom Controls */}
-          <div className="absolute bottom-2 right-2 flex gap-1">
-            <Button
-              variant="secondary"
-              size="icon"
-              className="h-7 w-7"
-              onClick={handleZoomIn}
-              title="Zoom In"
-            >
-              <ZoomIn className="h-3 w-3" />
-            </Button>
-            <Button
-              variant="secondary"
-              size="icon"
-              className="h-7 w-7"
-              onClick={handleZoomOut}
-              title="Zoom Out"
-            >
-              <ZoomOut className="h-3 w-3" />
-            </Button>
-            <Button
-              variant="secondary"
-              size="icon"
-              className="h-7 w-7"
-              onClick={handleReset}
-              title="Reset"
-            >
-              <RotateCcw className="h-3 w-3" />
-            </Button>
-          </div>
+          {isSpaceGraph ? (
+            <SpaceGraph
+              entries={spaceEntries}
+              window={currentConfig}
+              camera={shownCamera}
+              onCameraChange={handleCameraChange}
+            />
+          ) : (
+            <>
+              <canvas
+                ref={canvasRef}
+                width={500}
+                height={400}
+                className="w-full h-full cursor-move"
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={() => setIsDragging(false)}
+              />
+
+              {/* Zoom Controls */}
+              <div className="absolute bottom-2 right-2 flex gap-1">
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={handleZoomIn}
+                  title="Zoom In"
+                >
+                  <ZoomIn className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={handleZoomOut}
+                  title="Zoom Out"
+                >
+                  <ZoomOut className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={handleReset}
+                  title="Reset"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              </div>
+            </>
+          )}
 
           {/* No Graph Message */}
           {!activeGraph && !showCreateForm && (
@@ -459,9 +1046,174 @@ export function InteractiveGraph({ sessionId, isHost }: InteractiveGraphProps) {
           )}
         </div>
 
+        {/* Analysis tools */}
+        {!showCreateForm && activeGraph && functionEntries.length > 0 && (
+          <div className="shrink-0 mt-2 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={analysisTool ?? NO_ANALYSIS}
+                onValueChange={(v) => {
+                  setAnalysisTool(v === NO_ANALYSIS ? null : v as AnalysisTool);
+                  setTangentX(null);
+                }}
+              >
+                <SelectTrigger className="h-7 w-44 text-xs">
+                  <Crosshair className="h-3 w-3" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ANALYSIS}>Analisar...</SelectItem>
+                  {(Object.keys(ANALYSIS_TOOLS) as AnalysisTool[]).map(tool => (
+                    <SelectItem key={tool} value={tool}>{ANALYSIS_TOOLS[tool]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {analysisTool && functionEntries.length > 1 && (
+                <Select value={analysisTarget?.expression.id} onValueChange={setAnalysisTargetId}>
+                  <SelectTrigger className="h-7 w-36 text-xs font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {functionEntries.map(({ expression }) => (
+                      <SelectItem key={expression.id} value={expression.id} className="font-mono">{expression.source}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {analysisTool === "intersections" && functionEntries.length > 1 && (
+                <>
+                  <span className="text-xs text-muted-foreground">com</span>
+                  <Select value={analysisSecond?.expression.id} onValueChange={setAnalysisSecondId}>
+                    <SelectTrigger className="h-7 w-36 text-xs font-mono">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {functionEntries.filter(entry => entry !== analysisTarget).map(({ expression }) => (
+                        <SelectItem key={expression.id} value={expression.id} className="font-mono">{expression.source}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+
+              {analysisTool === "area" && (
+                <>
+                  <Input
+                    value={areaBounds.from}
+                    onChange={(e) => setAreaBounds(prev => ({ ...prev, from: e.target.value }))}
+                    className="h-7 w-16 text-xs"
+                    title="De"
+                  />
+                  <span className="text-xs text-muted-foreground">até</span>
+                  <Input
+                    value={areaBounds.to}
+                    onChange={(e) => setAreaBounds(prev => ({ ...prev, to: e.target.value }))}
+                    className="h-7 w-16 text-xs"
+                    title="Até"
+                  />
+                </>
+              )}
+
+              {analysis && participantToken && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs gap-1 ml-auto"
+                  onClick={handleShareAnalysis}
+                  disabled={shareMutation.isPending}
+                >
+                  <Share2 className="h-3 w-3" />
+                  Enviar ao chat
+                </Button>
+              )}
+            </div>
+
+            {analysisTool && (
+              <p className="text-xs text-muted-foreground">
+                {analysisTool === "tangent" && tangentX === null && "Clique no gráfico para escolher o ponto de tangência."}
+                {analysisTool === "intersections" && functionEntries.length < 2 && "É preciso ter duas funções no gráfico."}
+                {analysisTool === "area" && !analysis && "Informe um intervalo válido em que a função esteja definida."}
+                {analysis?.tool === "roots" && `${analysis.points.length} raiz(es) na parte visível do gráfico.`}
+                {analysis?.tool === "extrema" && `${analysis.points.length} extremo(s) local(is) na parte visível do gráfico.`}
+                {analysis?.tool === "intersections" && `${analysis.points.length} interseção(ões) na parte visível do gráfico.`}
+                {analysis?.tool === "tangent" && `Inclinação em x = ${formatNumber(analysis.tangent.x)}: ${formatNumber(analysis.tangent.slope)}`}
+                {analysis?.tool === "area" && `Área com sinal: ${formatNumber(analysis.area)}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Parameters and student's local copy */}
+        {!showCreateForm && activeGraph && (
+          <div className="shrink-0 mt-2 space-y-2 max-h-48 overflow-y-auto">
+            {!isHost && isSpaceGraph && ownCamera && (
+              <Button variant="link" size="sm" className="h-6 px-0 text-xs gap-1" onClick={() => setOwnCamera(null)}>
+                <Undo2 className="h-3 w-3" />
+                Seguir a visão do professor
+              </Button>
+            )}
+            {!isHost && (
+              <div className="flex items-center gap-2">
+                {isLocal ? (
+                  <>
+                    <Badge variant="secondary">Cópia local</Badge>
+                    <Button variant="link" size="sm" className="h-6 px-0 text-xs gap-1" onClick={() => setLocalCopy(null)}>
+                      <Undo2 className="h-3 w-3" />
+                      Voltar ao gráfico da aula
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={handleStartLocalCopy}>
+                    <Copy className="h-3 w-3" />
+                    Explorar por conta própria
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {isLocal && localCopy.expressions.map(expression => {
+              const { error } = checkExpression(expression.source);
+              return (
+                <div key={expression.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: expression.color }} />
+                    <Input
+                      value={expression.source}
+                      onChange={(e) => updateLocalExpression(expression.id, e.target.value)}
+                      className="h-7 text-xs font-mono"
+                      aria-invalid={!!error}
+                    />
+                  </div>
+                  {error && <ExpressionError source={expression.source} error={error} />}
+                </div>
+              );
+            })}
+
+            {shownParameters.map(parameter => (
+              <div key={parameter.name} className="flex items-center gap-3">
+                <span className="w-20 text-xs font-mono shrink-0">
+                  {parameter.name} = {formatNumber(parameter.value)}
+                </span>
+                <Slider
+                  value={[parameter.value]}
+                  min={parameter.min}
+                  max={parameter.max}
+                  step={parameter.step}
+                  onValueChange={([value]) => handleParameterChange(parameter.name, value)}
+                  disabled={!isHost && !isLocal}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Instructions */}
         <p className="text-xs text-muted-foreground mt-2 shrink-0">
-          Arraste para mover • Use os botões para zoom • Interaja com o gráfico
+          {isSpaceGraph
+            ? "Arraste para girar • Role ou use os botões para zoom"
+            : "Arraste para mover • Use os botões para zoom • Interaja com o gráfico"}
         </p>
       </CardContent>
     </Card>
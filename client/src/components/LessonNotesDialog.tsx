@@ -0,0 +1,106 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Download, Loader2, NotebookPen, RefreshCw } from "lucide-react";
+import { Streamdown } from "streamdown";
+import "katex/dist/katex.min.css";
+
+interface LessonNotesDialogProps {
+  sessionId: number | null;
+  sessionTitle: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LessonNotesDialog({ sessionId, sessionTitle, onOpenChange }: LessonNotesDialogProps) {
+  // Poll while the notes are still being generated
+  const { data: notes, isLoading, refetch } = trpc.lessonNotes.get.useQuery(
+    { sessionId: sessionId ?? 0 },
+    {
+      enabled: sessionId !== null,
+      refetchInterval: (query) => (query.state.data?.status === "processing" ? 3000 : false),
+    }
+  );
+
+  const regenerateMutation = trpc.lessonNotes.regenerate.useMutation({
+    onSuccess: () => {
+      toast.success("Gerando novas notas da aula...");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao gerar notas da aula");
+    },
+  });
+
+  const handleExport = () => {
+    if (!notes?.content) return;
+    const markdown = `# ${sessionTitle}\n\n${notes.content}\n`;
+    const blob = new Blob([markdown], { type: "text/markdown;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `notas-aula-${sessionId}.md`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const isGenerating = notes?.status === "processing" || regenerateMutation.isPending;
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <NotebookPen className="h-5 w-5" />
+            Notas da Aula
+          </DialogTitle>
+          <DialogDescription>{sessionTitle}</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {isLoading || isGenerating ? (
+            <div className="flex flex-col items-center justify-center py-12 gap-2 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              {isGenerating && <p className="text-sm">Gerando notas da aula...</p>}
+            </div>
+          ) : notes?.status === "ready" && notes.content ? (
+            <div className="prose prose-sm dark:prose-invert max-w-none">
+              <Streamdown>{notes.content}</Streamdown>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <p className="text-sm">
+                {notes?.status === "failed"
+                  ? "Não foi possível gerar as notas desta aula."
+                  : "As notas desta aula ainda não foram geradas."}
+              </p>
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => sessionId !== null && regenerateMutation.mutate({ sessionId })}
+            disabled={isGenerating}
+            className="gap-2"
+          >
+            <RefreshCw className="h-4 w-4" />
+            {notes ? "Regenerar" : "Gerar"}
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={notes?.status !== "ready" || !notes.content}
+            className="gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Exportar Markdown
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
 import { toast } from "sonner";
+import "katex/dist/katex.min.css";
+import katex from "katex";
 import { 
   Send, 
   MessageCircle,
@@ -18,10 +22,25 @@ import {
 interface LiveChatProps {
   sessionId: number;
   participantId: number;
-  participantName: string;
+  participantToken: string;
   isHost: boolean;
 }
 
+// Text with formulas between $...$ (e.g. results shared from the graph):
+// formulas go through KaTeX, everything else stays plain text
+function renderMessage(text: string) {
+  return text.split(/(\$[^$]+\$)/g).map((part, index) =>
+    part.length > 2 && part.startsWith("$") && part.endsWith("$") ? (
+      <span
+        key={index}
+        dangerouslySetInnerHTML={{ __html: katex.renderToString(part.slice(1, -1), { throwOnError: false }) }}
+      />
+    ) : (
+      part
+    )
+  );
+}
+
 interface ChatMessageType {
   id: number;
   senderName: string;
@@ -30,7 +49,7 @@ interface ChatMessageType {
   participantId: number;
 }
 
-export function LiveChat({ sessionId, participantId, participantName, isHost }: LiveChatProps) {
+export function LiveChat({ sessionId, participantId, participantToken, isHost }: LiveChatProps) {
   const [message, setMessage] = useState("");
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [unreadCount, setUnreadCount] = useState(0);
@@ -81,15 +100,27 @@ export function LiveChat({ sessionId, participantId, participantName, isHost }:
     }
   }, [notificationsEnabled]);
 
-  // Fetch messages with polling for real-time updates
+  const utils = trpc.useUtils();
+
+  // Fetch messages (pushed over the realtime socket, polled only as a fallback)
   const { data: messages, refetch } = trpc.liveChat.getMessages.useQuery(
     { sessionId },
     { 
       enabled: !!sessionId,
-      refetchInterval: 2000,
+      refetchInterval: usePollingFallback(2000),
     }
   );
 
+  // Append pushed messages to the cached history
+  useSessionEvent(SESSION_EVENTS.liveChat, (incoming) => {
+    if (incoming.sessionId !== sessionId) return;
+    utils.liveChat.getMessages.setData({ sessionId }, (prev) => {
+      if (!prev) return [incoming];
+      if (prev.some((m) => m.id === incoming.id)) return prev;
+      return [...prev, incoming];
+    });
+  });
+
   // Check for new messages and notify
   useEffect(() => {
     if (!messages) return;
@@ -147,9 +178,7 @@ export function LiveChat({ sessionId, participantId, participantName, isHost }:
     if (!message.trim()) return;
 
     sendMessageMutation.mutate({
-      sessionId,
-      participantId,
-      senderName: participantName,
+      participantToken,
       message: message.trim(),
     });
   };
@@ -264,7 +293,7 @@ export function LiveChat({ sessionId, participantId, participantName, isHost }:
                             : "bg-muted"
                         }`}
                       >
-                        <p className="text-sm break-words whitespace-pre-wrap">{msg.message}</p>
+                        <p className="text-sm break-words whitespace-pre-wrap">{renderMessage(msg.message)}</p>
                       </div>
                     </div>
                   </div>
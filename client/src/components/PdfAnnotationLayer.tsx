@@ -0,0 +1,502 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useRealtime, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SEND_PDF_ANNOTATION_DRAFT, SEND_PDF_POINTER, SESSION_EVENTS } from "@shared/realtime";
+import type { BoardPoint } from "@shared/board";
+import {
+  MAX_PDF_ANNOTATION_POINTS,
+  PDF_ANNOTATION_COLORS,
+  PDF_ANNOTATION_TOOL_LABELS,
+  PDF_HIGHLIGHT_OPACITY,
+  PDF_HIGHLIGHT_WIDTH,
+  PDF_INK_WIDTH,
+  PDF_TEXT_SIZE,
+  pdfAnnotationHit,
+  type PdfAnnotationData,
+  type PdfAnnotationDraft,
+  type PdfAnnotationTool,
+} from "@shared/pdfAnnotations";
+import { toast } from "sonner";
+import { Crosshair, Download, Eraser, Highlighter, Loader2, Pencil, StickyNote, Trash2, Undo2 } from "lucide-react";
+
+// The laser points at the page without leaving anything on it
+export type PdfAnnotationMode = PdfAnnotationTool | "eraser" | "laser";
+
+/** Pen picked in the toolbar; no tool means the page can be scrolled and read. */
+export type PdfAnnotationPen = {
+  tool: PdfAnnotationMode | null;
+  color: string;
+  text: string;
+};
+
+export const DEFAULT_PDF_PEN: PdfAnnotationPen = { tool: null, color: PDF_ANNOTATION_COLORS[0], text: "" };
+
+type Annotation = { tool: PdfAnnotationTool; data: PdfAnnotationData };
+
+const MODE_ICONS: Record<PdfAnnotationMode, typeof Pencil> = {
+  ink: Pencil,
+  highlight: Highlighter,
+  text: StickyNote,
+  eraser: Eraser,
+  laser: Crosshair,
+};
+
+const MODE_LABELS: Record<PdfAnnotationMode, string> = {
+  ...PDF_ANNOTATION_TOOL_LABELS,
+  eraser: "Borracha",
+  laser: "Laser",
+};
+
+const MODES: PdfAnnotationMode[] = ["ink", "highlight", "text", "eraser", "laser"];
+
+const TOOL_WIDTHS: Record<PdfAnnotationTool, number> = {
+  ink: PDF_INK_WIDTH,
+  highlight: PDF_HIGHLIGHT_WIDTH,
+  text: PDF_TEXT_SIZE,
+};
+
+// In fractions of the page width
+const ERASER_RADIUS = 0.01;
+const MIN_POINT_DISTANCE = 0.002;
+
+// Annotations in progress are relayed at most this often
+const DRAFT_INTERVAL = 50;
+
+function drawAnnotation(ctx: CanvasRenderingContext2D, { tool, data }: Annotation, width: number, height: number) {
+  const { color, points } = data;
+  const size = data.width * width;
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+
+  if (tool === "text") {
+    ctx.font = `${size}px Helvetica, Arial, sans-serif`;
+    ctx.textBaseline = "top";
+    (data.text ?? "").split("\n").forEach((line, index) => {
+      ctx.fillText(line, points[0][0] * width, points[0][1] * height + index * size * 1.2);
+    });
+  } else {
+    ctx.lineWidth = size;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    if (tool === "highlight") ctx.globalAlpha = PDF_HIGHLIGHT_OPACITY;
+    ctx.beginPath();
+    ctx.moveTo(points[0][0] * width, points[0][1] * height);
+    // A single click still leaves a dot
+    if (points.length === 1) ctx.lineTo(points[0][0] * width + 0.1, points[0][1] * height);
+    points.slice(1).forEach(([x, y]) => ctx.lineTo(x * width, y * height));
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function parseAnnotations<T extends { data: string }>(annotations: T[]) {
+  return annotations.map(annotation => ({ ...annotation, data: JSON.parse(annotation.data) as PdfAnnotationData }));
+}
+
+interface PdfAnnotationLayerProps {
+  sessionId: number;
+  documentId: number;
+  page: number;
+  isHost: boolean;
+  pen: PdfAnnotationPen;
+  // Size of the rendered page, in pixels
+  width: number;
+  height: number;
+}
+
+/** Annotations of one page, drawn over the rendered PDF page; the teacher draws on it with the toolbar's pen. */
+export function PdfAnnotationLayer({ sessionId, documentId, page, isHost, pen, width, height }: PdfAnnotationLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const utils = trpc.useUtils();
+  const { socket } = useRealtime();
+
+  const [current, setCurrent] = useState<Annotation | null>(null);
+  const [pending, setPending] = useState<Annotation[]>([]);
+  const [erasing, setErasing] = useState<Set<number>>(new Set());
+  const [draft, setDraft] = useState<PdfAnnotationDraft | null>(null);
+  // Teacher's laser: their own pointer, or the one relayed to students
+  const [pointer, setPointer] = useState<BoardPoint | null>(null);
+  const drawing = useRef(false);
+  const lastDraftAt = useRef(0);
+  const lastPointerAt = useRef(0);
+
+  const { data } = trpc.pdfAnnotation.get.useQuery(
+    { sessionId, documentId },
+    { refetchInterval: usePollingFallback(3000) }
+  );
+
+  useSessionEvent(SESSION_EVENTS.pdfAnnotations, (event) => {
+    if (event.documentId === null || event.documentId === documentId) {
+      utils.pdfAnnotation.get.invalidate({ sessionId, documentId });
+    }
+  });
+
+  useSessionEvent(SESSION_EVENTS.pdfAnnotation, (annotation) => {
+    if (annotation.documentId !== documentId) return;
+    utils.pdfAnnotation.get.setData({ sessionId, documentId }, prev =>
+      prev && !prev.annotations.some(existing => existing.id === annotation.id)
+        ? { ...prev, annotations: [...prev.annotations, annotation] }
+        : prev
+    );
+    setDraft(null);
+  });
+
+  useSessionEvent(SESSION_EVENTS.pdfAnnotationErase, ({ documentId: erasedFrom, ids }) => {
+    if (erasedFrom !== documentId) return;
+    utils.pdfAnnotation.get.setData({ sessionId, documentId }, prev =>
+      prev ? { ...prev, annotations: prev.annotations.filter(annotation => !ids.includes(annotation.id)) } : prev
+    );
+  });
+
+  useSessionEvent(SESSION_EVENTS.pdfAnnotationDraft, (next) => {
+    setDraft(next.data ? next : null);
+  });
+
+  useSessionEvent(SESSION_EVENTS.pdfPointer, (next) => {
+    setPointer(next.documentId === documentId && next.page === page ? next.point : null);
+  });
+
+  const addMutation = trpc.pdfAnnotation.add.useMutation({
+    onSuccess: (annotation, { tool, data }) => {
+      if (annotation) {
+        utils.pdfAnnotation.get.setData({ sessionId, documentId }, prev =>
+          prev && !prev.annotations.some(existing => existing.id === annotation.id)
+            ? { ...prev, annotations: [...prev.annotations, annotation] }
+            : prev
+        );
+      }
+      setPending(prev => prev.filter(item => item.tool !== tool || item.data !== data));
+    },
+    onError: (error, { page, tool, data }) => {
+      setPending(prev => prev.filter(item => item.tool !== tool || item.data !== data));
+      socket?.emit(SEND_PDF_ANNOTATION_DRAFT, { documentId, page, tool, data: null });
+      toast.error(error.message || "Erro ao salvar a anotação");
+    },
+  });
+
+  const eraseMutation = trpc.pdfAnnotation.erase.useMutation({
+    onSuccess: (_, { ids }) => {
+      utils.pdfAnnotation.get.setData({ sessionId, documentId }, prev =>
+        prev ? { ...prev, annotations: prev.annotations.filter(annotation => !ids.includes(annotation.id)) } : prev
+      );
+    },
+    onSettled: () => setErasing(new Set()),
+    onError: (error) => {
+      toast.error(error.message || "Erro ao apagar");
+    },
+  });
+
+  const pageAnnotations = useMemo(
+    () => parseAnnotations(data?.annotations ?? [])
+      .filter(annotation => annotation.page === page && !erasing.has(annotation.id)),
+    [data?.annotations, page, erasing]
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    pageAnnotations.forEach(annotation => drawAnnotation(ctx, annotation, width, height));
+    if (draft?.data && draft.documentId === documentId && draft.page === page) {
+      drawAnnotation(ctx, { tool: draft.tool, data: draft.data }, width, height);
+    }
+    pending.forEach(annotation => drawAnnotation(ctx, annotation, width, height));
+    if (current) drawAnnotation(ctx, current, width, height);
+  }, [pageAnnotations, draft, pending, current, documentId, page, width, height]);
+
+  const sendDraft = useCallback((annotation: Annotation | null, force = false) => {
+    const now = Date.now();
+    if (!socket || (!force && now - lastDraftAt.current < DRAFT_INTERVAL)) return;
+    lastDraftAt.current = now;
+    socket.emit(SEND_PDF_ANNOTATION_DRAFT, {
+      documentId,
+      page,
+      tool: annotation?.tool ?? "ink",
+      data: annotation?.data ?? null,
+    });
+  }, [socket, documentId, page]);
+
+  const sendPointer = useCallback((point: BoardPoint | null) => {
+    const now = Date.now();
+    if (!socket || (point && now - lastPointerAt.current < DRAFT_INTERVAL)) return;
+    lastPointerAt.current = now;
+    socket.emit(SEND_PDF_POINTER, { documentId, page, point });
+  }, [socket, documentId, page]);
+
+  // Put the laser away when the teacher picks another tool or leaves the page
+  const laserOn = isHost && pen.tool === "laser";
+  useEffect(() => {
+    if (!laserOn) return;
+    return () => {
+      setPointer(null);
+      sendPointer(null);
+    };
+  }, [laserOn, sendPointer]);
+
+  const commit = (annotation: Annotation) => {
+    setPending(prev => [...prev, annotation]);
+    addMutation.mutate({ sessionId, documentId, page, tool: annotation.tool, data: annotation.data });
+  };
+
+  const toPage = (e: React.PointerEvent<HTMLCanvasElement>): BoardPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return [clamp((e.clientX - rect.left) / rect.width), clamp((e.clientY - rect.top) / rect.height)];
+  };
+
+  const eraseAt = (point: BoardPoint) => {
+    const aspect = height / width;
+    const hits = pageAnnotations.filter(annotation =>
+      pdfAnnotationHit(annotation.tool, annotation.data, point, ERASER_RADIUS, aspect)
+    );
+    if (hits.length > 0) setErasing(prev => new Set([...Array.from(prev), ...hits.map(annotation => annotation.id)]));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { tool, color, text } = pen;
+    if (!isHost || !tool || tool === "laser") return;
+    const point = toPage(e);
+
+    if (tool === "text") {
+      if (!text.trim()) {
+        toast.error("Digite a nota antes de clicar na página");
+        return;
+      }
+      commit({ tool, data: { color, width: TOOL_WIDTHS.text, points: [point], text: text.trim() } });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    if (tool === "eraser") {
+      eraseAt(point);
+      return;
+    }
+    setCurrent({ tool, data: { color, width: TOOL_WIDTHS[tool], points: [point] } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (laserOn) {
+      const point = toPage(e);
+      setPointer(point);
+      sendPointer(point);
+      return;
+    }
+    if (!drawing.current) return;
+    const point = toPage(e);
+
+    if (pen.tool === "eraser") {
+      eraseAt(point);
+      return;
+    }
+    if (!current) return;
+
+    const { points } = current.data;
+    const last = points[points.length - 1];
+    if (Math.hypot(point[0] - last[0], point[1] - last[1]) < MIN_POINT_DISTANCE) return;
+    let next: Annotation;
+    // Long strokes are saved in pieces
+    if (points.length >= MAX_PDF_ANNOTATION_POINTS) {
+      commit(current);
+      next = { ...current, data: { ...current.data, points: [last, point] } };
+    } else {
+      next = { ...current, data: { ...current.data, points: [...points, point] } };
+    }
+    setCurrent(next);
+    sendDraft(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+
+    if (pen.tool === "eraser") {
+      if (erasing.size > 0) eraseMutation.mutate({ sessionId, documentId, ids: Array.from(erasing) });
+      return;
+    }
+    if (current) {
+      sendDraft(current, true);
+      commit(current);
+      setCurrent(null);
+    }
+  };
+
+  const drawable = isHost && !!pen.tool;
+
+  const handlePointerLeave = () => {
+    if (!laserOn) return;
+    setPointer(null);
+    sendPointer(null);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className={`absolute inset-0 touch-none ${drawable ? "cursor-crosshair" : "pointer-events-none"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+      />
+      {pointer && (
+        <div
+          className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-red-500 shadow-[0_0_12px_4px_rgba(239,68,68,0.7)] pointer-events-none"
+          style={{ left: pointer[0] * width, top: pointer[1] * height }}
+        />
+      )}
+    </>
+  );
+}
+
+interface PdfAnnotationToolbarProps {
+  roomId: number;
+  sessionId: number;
+  documentId: number;
+  page: number;
+  pen: PdfAnnotationPen;
+  onPenChange: (pen: PdfAnnotationPen) => void;
+}
+
+/** Teacher's annotation tools, shown above the page. */
+export function PdfAnnotationToolbar({ roomId, sessionId, documentId, page, pen, onPenChange }: PdfAnnotationToolbarProps) {
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.pdfAnnotation.get.useQuery({ sessionId, documentId });
+
+  const eraseMutation = trpc.pdfAnnotation.erase.useMutation({
+    onSuccess: (_, { ids }) => {
+      utils.pdfAnnotation.get.setData({ sessionId, documentId }, prev =>
+        prev ? { ...prev, annotations: prev.annotations.filter(annotation => !ids.includes(annotation.id)) } : prev
+      );
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao desfazer");
+    },
+  });
+
+  const clearPageMutation = trpc.pdfAnnotation.clearPage.useMutation({
+    onSuccess: () => {
+      utils.pdfAnnotation.get.invalidate({ sessionId, documentId });
+      toast.success("Anotações da página apagadas");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao limpar a página");
+    },
+  });
+
+  const setKeepMutation = trpc.pdfAnnotation.setKeep.useMutation({
+    onSuccess: (_, { keep }) => {
+      utils.pdfAnnotation.get.invalidate();
+      toast.success(keep ? "As anotações ficarão para as próximas aulas" : "Cada aula começa sem anotações");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao alterar as anotações da sala");
+    },
+  });
+
+  const exportMutation = trpc.pdfAnnotation.export.useMutation({
+    onSuccess: (document) => {
+      utils.document.getByRoom.invalidate({ roomId });
+      toast.success(`"${document.title}" salvo nos documentos`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao exportar o PDF");
+    },
+  });
+
+  const handleUndo = () => {
+    const onPage = (data?.annotations ?? []).filter(annotation => annotation.page === page);
+    const last = onPage[onPage.length - 1];
+    if (last) eraseMutation.mutate({ sessionId, documentId, ids: [last.id] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-3 py-1.5 bg-card border-b shrink-0">
+      {MODES.map(mode => {
+        const Icon = MODE_ICONS[mode];
+        return (
+          <Button
+            key={mode}
+            variant={pen.tool === mode ? "default" : "outline"}
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onPenChange({ ...pen, tool: pen.tool === mode ? null : mode })}
+            title={MODE_LABELS[mode]}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        );
+      })}
+
+      <div className="flex items-center gap-1 mx-2">
+        {PDF_ANNOTATION_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            className={`h-5 w-5 rounded-full border ${pen.color === option ? "ring-2 ring-primary ring-offset-1" : ""}`}
+            style={{ backgroundColor: option }}
+            onClick={() => onPenChange({ ...pen, color: option })}
+            title={option}
+          />
+        ))}
+      </div>
+
+      {pen.tool === "text" && (
+        <Input
+          value={pen.text}
+          onChange={(e) => onPenChange({ ...pen, text: e.target.value })}
+          placeholder="Digite e clique na página"
+          className="h-7 w-48 text-xs"
+        />
+      )}
+
+      <div className="ml-auto flex items-center gap-1">
+        <div className="flex items-center gap-1.5 mr-2">
+          <Switch
+            id="keep-pdf-annotations"
+            checked={!!data?.keep}
+            onCheckedChange={(keep) => setKeepMutation.mutate({ roomId, keep })}
+            disabled={!data || setKeepMutation.isPending}
+          />
+          <Label htmlFor="keep-pdf-annotations" className="text-xs font-normal">
+            Manter entre aulas
+          </Label>
+        </div>
+        <Button variant="outline" size="icon" className="h-7 w-7" onClick={handleUndo} title="Desfazer última anotação">
+          <Undo2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => {
+            if (confirm("Apagar as anotações desta página?")) clearPageMutation.mutate({ sessionId, documentId, page });
+          }}
+          title="Limpar anotações da página"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs gap-1"
+          onClick={() => exportMutation.mutate({ sessionId, documentId })}
+          disabled={exportMutation.isPending || !data?.annotations.length}
+          title="Salvar uma cópia do PDF com as anotações"
+        >
+          {exportMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+          Exportar
+        </Button>
+      </div>
+    </div>
+  );
+}
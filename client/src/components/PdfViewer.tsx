@@ -1,8 +1,19 @@
 import { useState, useRef, useCallback, useEffect } from "react";
+import { Document, Page, pdfjs } from "react-pdf";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { DocumentSearch } from "@/components/DocumentSearch";
+import { DEFAULT_PDF_PEN, PdfAnnotationLayer, PdfAnnotationToolbar, type PdfAnnotationPen } from "@/components/PdfAnnotationLayer";
+import { checkDocumentFiles, maxDocumentUploadSize, uploadDocumentFiles, type DocumentUploadResult } from "@/lib/documentUpload";
+import { DOCUMENT_UPLOAD_ACCEPT } from "@shared/documentFormats";
 import { toast } from "sonner";
 import { 
   ChevronLeft, 
@@ -17,9 +28,23 @@ import {
   ExternalLink,
   X,
   Users,
-  Share2
+  Share2,
+  Lock,
+  LockOpen,
+  Undo2,
+  RefreshCw
 } from "lucide-react";
 
+pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+// Zoom steps, in percent of the width of the viewer
+const ZOOM_STEP = 25;
+const MIN_ZOOM = 50;
+const MAX_ZOOM = 300;
+
+// The teacher's scroll position is sent at most this often
+const SCROLL_BROADCAST_INTERVAL = 200;
+
 interface PdfViewerProps {
   roomId: number;
   isHost: boolean;
@@ -30,6 +55,8 @@ interface DocumentData {
   id: number;
   title: string;
   s3Url: string | null;
+  pageCount: number | null;
+  indexStatus: "processing" | "ready" | "failed" | null;
 }
 
 export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
@@ -37,39 +64,76 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
   const [selectedDocId, setSelectedDocId] = useState<number | null>(null);
   const [localPdfUrl, setLocalPdfUrl] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [isLoadingPdf, setIsLoadingPdf] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [numPages, setNumPages] = useState(1);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [zoom, setZoom] = useState(100);
+  // Height over width of the current page, to size the annotation layer
+  const [pageAspect, setPageAspect] = useState<number | null>(null);
+  const [viewerWidth, setViewerWidth] = useState(0);
+  const [pen, setPen] = useState<PdfAnnotationPen>(DEFAULT_PDF_PEN);
+  // Student: whether the view follows the teacher's document, page, zoom and scroll
+  const [following, setFollowing] = useState(true);
+  // Bumped whenever a page finishes drawing, so the scroll position can be applied to it
+  const [pageRendered, setPageRendered] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const scrollTimer = useRef<number | null>(null);
 
-  // Cleanup blob URLs on unmount
+  // Cleanup blob URLs and the scroll broadcast on unmount
   useEffect(() => {
     return () => {
       if (localPdfUrl && localPdfUrl.startsWith('blob:')) {
         URL.revokeObjectURL(localPdfUrl);
       }
+      if (scrollTimer.current !== null) window.clearTimeout(scrollTimer.current);
     };
   }, []);
 
   // Fetch documents
   const { data: documents, refetch: refetchDocs } = trpc.document.getByRoom.useQuery(
     { roomId },
-    { enabled: !!roomId }
+    {
+      enabled: !!roomId,
+      // Pages are counted and indexed in the background after an upload
+      refetchInterval: (query) => query.state.data?.some(d => d.indexStatus === "processing") ? 3000 : false,
+    }
   );
 
-  // PDF Sync State - for students to receive teacher's state
+  const utils = trpc.useUtils();
+
+  // PDF Sync State - for students to receive teacher's state, and for the teacher's lock
+  const syncPolling = usePollingFallback(2000); // Poll only while the socket is down
   const { data: syncState, refetch: refetchSyncState } = trpc.pdfSync.getState.useQuery(
     { sessionId: sessionId || 0 },
     { 
-      enabled: !!sessionId && !isHost,
-      refetchInterval: 2000, // Poll every 2 seconds for sync updates
+      enabled: !!sessionId,
+      refetchInterval: isHost ? false : syncPolling,
     }
   );
 
+  // A locked teacher view is followed even by students who chose to navigate on their own
+  const followsTeacher = !isHost && (following || !!syncState?.locked);
+
+  // Student: apply teacher's state as soon as it is pushed
+  useSessionEvent(SESSION_EVENTS.pdfSync, (state) => {
+    if (isHost || !sessionId) return;
+    utils.pdfSync.getState.setData({ sessionId }, state ?? null);
+    // A freshly uploaded document is not in our list yet
+    if (state?.documentId && !documents?.some(d => d.id === state.documentId)) {
+      refetchDocs();
+    }
+  });
+
   // Update sync state mutation (teacher only)
   const updateSyncMutation = trpc.pdfSync.updateState.useMutation({
-    onSuccess: () => {
+    onSuccess: (state) => {
       setIsSyncing(false);
+      if (sessionId) utils.pdfSync.getState.setData({ sessionId }, state ?? null);
     },
     onError: (error) => {
       console.error("Sync error:", error);
@@ -80,22 +144,25 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
   // Clear sync state mutation
   const clearSyncMutation = trpc.pdfSync.clearState.useMutation();
 
-  // Sync state to students when teacher changes document
-  const syncToStudents = useCallback((docId: number | null, docUrl: string | null) => {
+  // Sync state to students when teacher changes document, page, zoom, scroll or lock
+  const syncToStudents = useCallback((state: {
+    documentId?: number | null;
+    currentPage?: number;
+    totalPages?: number;
+    zoomLevel?: number;
+    scrollX?: number;
+    scrollY?: number;
+    locked?: boolean;
+  }) => {
     if (!isHost || !sessionId) return;
     
     setIsSyncing(true);
-    updateSyncMutation.mutate({
-      sessionId,
-      documentId: docId,
-      currentPage: 1,
-      totalPages: 1,
-    });
+    updateSyncMutation.mutate({ sessionId, ...state });
   }, [isHost, sessionId, updateSyncMutation]);
 
   // Student: auto-load document when sync state changes
   useEffect(() => {
-    if (isHost || !syncState || !documents) return;
+    if (!followsTeacher || !syncState || !documents) return;
 
     // If teacher has a document selected
     if (syncState.documentId) {
@@ -109,27 +176,50 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
       // Teacher cleared the document
       clearPdfState();
     }
-  }, [syncState, documents, isHost, selectedDocId]);
+  }, [syncState, documents, followsTeacher, selectedDocId]);
 
-  // Upload mutation
-  const uploadMutation = trpc.document.upload.useMutation({
-    onSuccess: (data) => {
-      toast.success("PDF enviado com sucesso!");
-      refetchDocs();
-      setIsUploading(false);
-      // If we have a URL from the upload, use it
-      if (data?.s3Url) {
-        setSelectedPdf(data.s3Url);
-        setSelectedDocId(data.id);
-        // Sync to students
-        syncToStudents(data.id, data.s3Url);
-      }
-    },
-    onError: (error) => {
-      toast.error(error.message || "Erro ao enviar PDF");
-      setIsUploading(false);
-    },
-  });
+  // Student: follow the teacher's page and zoom
+  useEffect(() => {
+    if (!followsTeacher || !syncState) return;
+    setCurrentPage(syncState.currentPage);
+    setZoom(syncState.zoomLevel);
+  }, [syncState, followsTeacher]);
+
+  // Student: show the part of the page the teacher is looking at
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    const pageElement = pageRef.current;
+    if (!followsTeacher || !syncState || !viewer || !pageElement) return;
+    viewer.scrollTo({
+      left: syncState.scrollX > 0 ? pageElement.offsetLeft + syncState.scrollX * pageElement.offsetWidth : 0,
+      top: syncState.scrollY > 0 ? pageElement.offsetTop + syncState.scrollY * pageElement.offsetHeight : 0,
+    });
+  }, [syncState, followsTeacher, pageRendered]);
+
+  // Pages are rendered to the width of the viewer, times the zoom
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    const observer = new ResizeObserver(([entry]) => setViewerWidth(entry.contentRect.width));
+    observer.observe(viewer);
+    return () => observer.disconnect();
+  }, [selectedPdf]);
+
+  const { user } = useAuth();
+
+  const handleUploaded = ({ document, duplicate }: DocumentUploadResult) => {
+    if (duplicate) {
+      toast.info("Este documento já estava na sala e foi aberto");
+    } else {
+      toast.success("Documento enviado com sucesso!");
+    }
+    refetchDocs();
+    setIsUploading(false);
+    setSelectedPdf(document.s3Url);
+    setSelectedDocId(document.id);
+    // Sync to students
+    syncToStudents({ documentId: document.id, currentPage: 1, totalPages: document.pageCount ?? numPages, zoomLevel: zoom });
+  };
 
   // Delete mutation
   const deleteMutation = trpc.document.delete.useMutation({
@@ -145,6 +235,17 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
     },
   });
 
+  // Index documents uploaded before search existed, or whose indexing failed
+  const reindexMutation = trpc.document.reindex.useMutation({
+    onSuccess: () => {
+      toast.success("Indexando documento...");
+      refetchDocs();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao indexar documento");
+    },
+  });
+
   const clearPdfState = useCallback(() => {
     if (localPdfUrl && localPdfUrl.startsWith('blob:')) {
       URL.revokeObjectURL(localPdfUrl);
@@ -154,6 +255,9 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
     setLocalPdfUrl(null);
     setPdfError(null);
     setIsLoadingPdf(false);
+    setCurrentPage(1);
+    setPageAspect(null);
+    setPen(DEFAULT_PDF_PEN);
 
     // Clear sync state if teacher
     if (isHost && sessionId) {
@@ -162,63 +266,58 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
   }, [localPdfUrl, isHost, sessionId, clearSyncMutation]);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (file.type !== "application/pdf") {
-      toast.error("Por favor, selecione um arquivo PDF");
-      return;
+    const files = Array.from(event.target.files ?? []);
+    // Reset input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
     }
+    if (files.length === 0) return;
 
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("O arquivo deve ter no máximo 10MB");
+    const problem = checkDocumentFiles(files, maxDocumentUploadSize(user?.role));
+    if (problem) {
+      toast.error(problem);
       return;
     }
 
     // Clear previous state
     clearPdfState();
-    setIsLoadingPdf(true);
     setPdfError(null);
 
-    // Create local URL for immediate preview
-    const localUrl = URL.createObjectURL(file);
-    setLocalPdfUrl(localUrl);
-    setSelectedPdf(localUrl);
-    setSelectedDocId(null);
-    setIsLoadingPdf(false);
+    // A PDF is shown right away; anything else once the server has converted it
+    if (files.length === 1 && files[0].type === "application/pdf") {
+      const localUrl = URL.createObjectURL(files[0]);
+      setIsLoadingPdf(true);
+      setLocalPdfUrl(localUrl);
+      setSelectedPdf(localUrl);
+      setSelectedDocId(null);
+    }
 
     // Upload to server in background
     setIsUploading(true);
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(",")[1];
-      uploadMutation.mutate({
-        roomId,
-        title: file.name,
-        fileData: base64,
-        mimeType: file.type,
-        fileSize: file.size,
+    setUploadProgress(0);
+    uploadDocumentFiles(roomId, files, setUploadProgress)
+      .then(handleUploaded)
+      .catch((error: Error) => {
+        toast.error(error.message || "Erro ao enviar documento");
+        setIsUploading(false);
       });
-    };
-    reader.onerror = () => {
-      toast.error("Erro ao processar arquivo");
-      setIsUploading(false);
-    };
-    reader.readAsDataURL(file);
+  }, [roomId, user?.role, handleUploaded, clearPdfState]);
 
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-  }, [roomId, uploadMutation, clearPdfState]);
-
-  const handleSelectDocument = useCallback((doc: DocumentData) => {
+  const handleSelectDocument = useCallback((doc: DocumentData, page = 1) => {
     if (!doc.s3Url) {
       toast.error("URL do documento não disponível");
       return;
     }
 
+    // Student: opening another document leaves the teacher's view, opening theirs goes back to it
+    if (!isHost) {
+      if (syncState?.locked) {
+        toast.error("O professor travou a navegação");
+        return;
+      }
+      setFollowing(page === 1 && doc.id === syncState?.documentId);
+    }
+
     // Clear previous state first
     if (localPdfUrl && localPdfUrl.startsWith('blob:')) {
       URL.revokeObjectURL(localPdfUrl);
@@ -231,25 +330,87 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
 
     // Use the S3 URL directly
     setSelectedPdf(doc.s3Url);
-    setIsLoadingPdf(false);
+    setCurrentPage(page);
+    setPageAspect(null);
 
     // Sync to students if teacher
     if (isHost) {
-      syncToStudents(doc.id, doc.s3Url);
+      syncToStudents({ documentId: doc.id, currentPage: page, totalPages: doc.pageCount ?? 1, scrollY: 0 });
       toast.success("PDF sincronizado com os alunos!");
     }
-  }, [localPdfUrl, isHost, syncToStudents]);
+  }, [localPdfUrl, isHost, syncState, syncToStudents]);
 
-  const handleIframeLoad = () => {
+  const handleDocumentLoad = ({ numPages: pages }: { numPages: number }) => {
     setIsLoadingPdf(false);
     setPdfError(null);
+    setNumPages(pages);
+    if (selectedDocId) syncToStudents({ totalPages: pages });
   };
 
-  const handleIframeError = () => {
+  const handleDocumentError = () => {
     setIsLoadingPdf(false);
     setPdfError("Erro ao carregar o PDF no visualizador embutido.");
   };
 
+  // Teacher: students see the same page and zoom
+  const goToPage = (page: number) => {
+    const next = Math.min(numPages, Math.max(1, page));
+    setCurrentPage(next);
+    viewerRef.current?.scrollTo({ top: 0 });
+    syncToStudents({ currentPage: next, scrollY: 0 });
+  };
+
+  // A search result opens its document at the matching page
+  const handleOpenSearchResult = (documentId: number, page: number) => {
+    const doc = documents?.find(d => d.id === documentId);
+    if (!doc) return;
+    if (doc.id !== selectedDocId) {
+      handleSelectDocument(doc, page);
+      return;
+    }
+    if (!isHost) {
+      if (syncState?.locked) {
+        toast.error("O professor travou a navegação");
+        return;
+      }
+      setFollowing(false);
+    }
+    goToPage(page);
+  };
+
+  const zoomTo = (level: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, level));
+    setZoom(next);
+    syncToStudents({ zoomLevel: next });
+  };
+
+  // Teacher: the scroll position is sent as the top-left corner of the view, in fractions of the page
+  const handleViewerScroll = () => {
+    if (!isHost || !selectedDocId || scrollTimer.current !== null) return;
+    scrollTimer.current = window.setTimeout(() => {
+      scrollTimer.current = null;
+      const viewer = viewerRef.current;
+      const pageElement = pageRef.current;
+      if (!viewer || !pageElement) return;
+      const fraction = (offset: number, size: number) => Math.min(1, Math.max(0, offset / size));
+      syncToStudents({
+        scrollX: fraction(viewer.scrollLeft - pageElement.offsetLeft, pageElement.offsetWidth),
+        scrollY: fraction(viewer.scrollTop - pageElement.offsetTop, pageElement.offsetHeight),
+      });
+    }, SCROLL_BROADCAST_INTERVAL);
+  };
+
+  // Student: scrolling on their own while following lets them read freely
+  const handleStudentScrollIntent = () => {
+    if (followsTeacher && !syncState?.locked) setFollowing(false);
+  };
+
+  const canNavigate = isHost || !followsTeacher;
+  const driftedFromTeacher = !isHost && !followsTeacher && !!syncState?.documentId;
+
+  // Leaves room for the padding around the page
+  const pageWidth = Math.max(0, Math.round(((viewerWidth - 32) * zoom) / 100));
+
   const openInNewTab = () => {
     if (selectedPdf) {
       window.open(selectedPdf, '_blank');
@@ -272,7 +433,8 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="application/pdf,.pdf"
+                accept={DOCUMENT_UPLOAD_ACCEPT}
+                multiple
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -287,8 +449,16 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                 ) : (
                   <Upload className="h-4 w-4" />
                 )}
-                {isUploading ? "Enviando..." : "Enviar PDF"}
+                {isUploading ? "Enviando..." : "Enviar documento"}
               </Button>
+              {isUploading && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <Progress value={uploadProgress * 100} className="h-1.5" />
+                  <span className="text-xs text-muted-foreground tabular-nums w-9 text-right">
+                    {Math.round(uploadProgress * 100)}%
+                  </span>
+                </div>
+              )}
             </>
           )}
 
@@ -309,6 +479,10 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
             </div>
           )}
 
+          {documents && documents.length > 0 && (
+            <DocumentSearch roomId={roomId} onOpen={handleOpenSearchResult} />
+          )}
+
           <div 
             className="flex-1 overflow-y-auto space-y-1" 
             style={{ scrollbarWidth: 'thin' }}
@@ -324,7 +498,19 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                 onClick={() => handleSelectDocument(doc)}
               >
                 <FileText className="h-4 w-4 text-primary shrink-0" />
-                <span className="text-xs truncate flex-1" title={doc.title}>{doc.title}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-xs truncate" title={doc.title}>{doc.title}</span>
+                  {doc.indexStatus === "processing" ? (
+                    <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                      <Loader2 className="h-2.5 w-2.5 animate-spin" />
+                      Indexando...
+                    </span>
+                  ) : doc.pageCount ? (
+                    <span className="block text-[10px] text-muted-foreground">
+                      {doc.pageCount} {doc.pageCount === 1 ? "página" : "páginas"}
+                    </span>
+                  ) : null}
+                </span>
                 {/* Show sync indicator for the synced document */}
                 {!isHost && syncState?.documentId === doc.id && (
                   <Badge variant="secondary" className="text-[10px] px-1 py-0">
@@ -332,6 +518,21 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                     Ao vivo
                   </Badge>
                 )}
+                {isHost && (doc.indexStatus === null || doc.indexStatus === "failed") && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      reindexMutation.mutate({ id: doc.id });
+                    }}
+                    disabled={reindexMutation.isPending}
+                    title={doc.indexStatus === "failed" ? "Falha ao indexar. Tentar de novo" : "Indexar para a busca"}
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                )}
                 {isHost && (
                   <Button
                     variant="ghost"
@@ -371,15 +572,109 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                 <span className="text-sm text-muted-foreground">
                   {documents?.find(d => d.id === selectedDocId)?.title || "Documento local"}
                 </span>
-                {!isHost && syncState?.documentId === selectedDocId && (
+                {followsTeacher && syncState?.documentId === selectedDocId && (
                   <Badge variant="outline" className="text-xs gap-1">
-                    <Users className="h-3 w-3" />
-                    Sincronizado
+                    {syncState?.locked ? <Lock className="h-3 w-3" /> : <Users className="h-3 w-3" />}
+                    {syncState?.locked ? "Travado pelo professor" : "Sincronizado"}
                   </Badge>
                 )}
+                {driftedFromTeacher && (
+                  <>
+                    <Badge variant="secondary" className="text-xs">
+                      Professor na página {syncState?.currentPage}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs gap-1"
+                      onClick={() => setFollowing(true)}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Voltar ao professor
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1">
+                {canNavigate && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => goToPage(currentPage - 1)}
+                    disabled={currentPage <= 1}
+                    title="Página anterior"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                )}
+                <span className="text-xs text-muted-foreground">Página {currentPage} de {numPages}</span>
+                {canNavigate && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => goToPage(currentPage + 1)}
+                    disabled={currentPage >= numPages}
+                    title="Próxima página"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
+                {isHost && selectedDocId && sessionId && (
+                  <Button
+                    variant={syncState?.locked ? "default" : "outline"}
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => syncToStudents({ locked: !syncState?.locked })}
+                    title={syncState?.locked ? "Deixar os alunos navegarem" : "Obrigar todos a seguir sua visão"}
+                  >
+                    {syncState?.locked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                    {syncState?.locked ? "Travado" : "Travar"}
+                  </Button>
+                )}
+                {!isHost && syncState?.documentId && (
+                  <div className="flex items-center gap-1.5">
+                    <Switch
+                      id="follow-teacher"
+                      checked={followsTeacher}
+                      onCheckedChange={setFollowing}
+                      disabled={!!syncState?.locked}
+                    />
+                    <Label htmlFor="follow-teacher" className="text-xs font-normal">
+                      Seguir professor
+                    </Label>
+                  </div>
+                )}
+                {canNavigate && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => zoomTo(zoom - ZOOM_STEP)}
+                      disabled={zoom <= MIN_ZOOM}
+                      title="Diminuir zoom"
+                    >
+                      <ZoomOut className="h-4 w-4" />
+                    </Button>
+                    <span className="text-xs text-muted-foreground w-10 text-center">{zoom}%</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => zoomTo(zoom + ZOOM_STEP)}
+                      disabled={zoom >= MAX_ZOOM}
+                      title="Aumentar zoom"
+                    >
+                      <ZoomIn className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -402,8 +697,25 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
               </div>
             </div>
 
+            {isHost && sessionId && selectedDocId && (
+              <PdfAnnotationToolbar
+                roomId={roomId}
+                sessionId={sessionId}
+                documentId={selectedDocId}
+                page={currentPage}
+                pen={pen}
+                onPenChange={setPen}
+              />
+            )}
+
             {/* PDF Content */}
-            <div className="flex-1 overflow-hidden relative">
+            <div
+              ref={viewerRef}
+              className={`flex-1 relative ${followsTeacher && syncState?.locked ? "overflow-hidden" : "overflow-auto"}`}
+              onScroll={handleViewerScroll}
+              onWheel={handleStudentScrollIntent}
+              onTouchMove={handleStudentScrollIntent}
+            >
               {isLoadingPdf && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-100 dark:bg-slate-800 z-10">
                   <Loader2 className="h-8 w-8 animate-spin text-primary mb-3" />
@@ -429,13 +741,37 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                   </div>
                 </div>
               ) : (
-                <iframe
-                  src={selectedPdf}
-                  className="w-full h-full border-0"
-                  title="PDF Viewer"
-                  onLoad={handleIframeLoad}
-                  onError={handleIframeError}
-                />
+                <Document
+                  file={selectedPdf}
+                  onLoadSuccess={handleDocumentLoad}
+                  onLoadError={handleDocumentError}
+                  loading={null}
+                  className="pdf-viewer py-4"
+                >
+                  {pageWidth > 0 && (
+                    <div ref={pageRef} className="relative mx-auto w-fit shadow-md">
+                      <Page
+                        pageNumber={currentPage}
+                        width={pageWidth}
+                        renderTextLayer={false}
+                        renderAnnotationLayer={false}
+                        onLoadSuccess={(page) => setPageAspect(page.originalHeight / page.originalWidth)}
+                        onRenderSuccess={() => setPageRendered(count => count + 1)}
+                      />
+                      {sessionId && selectedDocId && pageAspect && (
+                        <PdfAnnotationLayer
+                          sessionId={sessionId}
+                          documentId={selectedDocId}
+                          page={currentPage}
+                          isHost={isHost}
+                          pen={pen}
+                          width={pageWidth}
+                          height={Math.round(pageWidth * pageAspect)}
+                        />
+                      )}
+                    </div>
+                  )}
+                </Document>
               )}
             </div>
           </>
@@ -451,7 +787,7 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
                   {isHost 
-                    ? "Envie um PDF ou selecione um da lista para compartilhar com os alunos" 
+                    ? "Envie um documento ou selecione um da lista para compartilhar com os alunos" 
                     : "Aguarde o professor compartilhar um documento"
                   }
                 </p>
@@ -463,7 +799,7 @@ export function PdfViewer({ roomId, isHost, sessionId }: PdfViewerProps) {
                   onClick={() => fileInputRef.current?.click()}
                 >
                   <Upload className="h-4 w-4" />
-                  Enviar PDF
+                  Enviar documento
                 </Button>
               )}
             </div>
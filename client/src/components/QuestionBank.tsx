@@ -0,0 +1,670 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { emptyQuestion, QuestionEditor } from "@/components/ExerciseQuestions";
+import { ANSWER_CHECK_MODE_LABELS, ANSWER_CHECK_MODES, type AnswerCheckMode } from "@shared/answerCheck";
+import {
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  readExerciseQuestion,
+  type ContentQuestion,
+  type QuestionType,
+} from "@shared/exerciseQuestions";
+import { MAX_SPEED_BONUS } from "@shared/exerciseScoring";
+import {
+  MAX_IMPORT_SIZE,
+  QUESTION_DIFFICULTIES,
+  QUESTION_DIFFICULTY_LABELS,
+  QUIZ_EXPORT_FORMAT_LABELS,
+  QUIZ_EXPORT_FORMATS,
+  validateBankItem,
+  type BankItem,
+  type QuestionDifficulty,
+  type QuizExportFormat,
+} from "@shared/questionBank";
+import type { BankQuestion } from "../../../drizzle/schema";
+import { toast } from "sonner";
+import { Copy, Download, Edit, Library, Loader2, Plus, Share2, Trash2, Upload } from "lucide-react";
+
+// Select values cannot be empty
+const ALL = "all";
+
+function downloadFile(filename: string, content: string) {
+  const blob = new Blob([content], { type: filename.endsWith(".json") ? "application/json" : "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function showWarnings(warnings: string[]) {
+  if (warnings.length === 0) return;
+  toast.warning(`${warnings.length} ${warnings.length === 1 ? "aviso" : "avisos"}`, {
+    description: warnings.slice(0, 5).join("\n") + (warnings.length > 5 ? "\n..." : ""),
+  });
+}
+
+interface BankQuestionDialogProps {
+  // The question to edit, or null for a new one; undefined while closed
+  question: BankQuestion | null | undefined;
+  topics: string[];
+  grades: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+function BankQuestionDialog({ question, topics, grades, onOpenChange, onSaved }: BankQuestionDialogProps) {
+  const stored = question ? readExerciseQuestion(question) : null;
+  const [text, setText] = useState(question?.question ?? "");
+  const [questionLatex, setQuestionLatex] = useState(question?.questionLatex ?? "");
+  const [questionType, setQuestionType] = useState<QuestionType>(question?.questionType ?? "text");
+  const [content, setContent] = useState<ContentQuestion | null>(stored && stored.type !== "text" ? stored : null);
+  const [correctAnswer, setCorrectAnswer] = useState(stored?.type === "text" ? stored.correctAnswer : "");
+  const [checkMode, setCheckMode] = useState<AnswerCheckMode>(stored?.type === "text" ? stored.checkMode : "strict");
+  const [points, setPoints] = useState(question?.points ?? 10);
+  const [timeLimit, setTimeLimit] = useState<number | undefined>(question?.timeLimit ?? undefined);
+  const [speedBonus, setSpeedBonus] = useState(question?.speedBonus ?? 0);
+  const [streakBonus, setStreakBonus] = useState(question?.streakBonus ?? false);
+  const [topic, setTopic] = useState(question?.topic ?? "");
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | null>(question?.difficulty ?? null);
+  const [grade, setGrade] = useState(question?.grade ?? "");
+
+  const options = {
+    onSuccess: () => {
+      toast.success("Questão salva no banco");
+      onSaved();
+      onOpenChange(false);
+    },
+    onError: (error: { message?: string }) => {
+      toast.error(error.message || "Erro ao salvar questão");
+    },
+  };
+  const createMutation = trpc.bank.create.useMutation(options);
+  const updateMutation = trpc.bank.update.useMutation(options);
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const handleTypeChange = (type: QuestionType) => {
+    setQuestionType(type);
+    setContent(type === "text" ? null : emptyQuestion(type));
+  };
+
+  const handleSave = () => {
+    const item: BankItem = {
+      question: text.trim(),
+      questionLatex: questionLatex.trim() || null,
+      content: content ?? {
+        type: "text",
+        correctAnswer: correctAnswer.trim(),
+        checkMode,
+        // Kept as they were: the bank edits only how answers are compared
+        tolerance: stored?.type === "text" ? stored.tolerance : null,
+        toleranceType: stored?.type === "text" ? stored.toleranceType : "absolute",
+      },
+      points,
+      timeLimit: timeLimit ?? null,
+      speedBonus: timeLimit ? speedBonus : 0,
+      streakBonus,
+      tags: { topic, difficulty, grade },
+    };
+    const error = (!content && !correctAnswer.trim() ? "Preencha a resposta correta" : null) ?? validateBankItem(item);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    if (question) {
+      updateMutation.mutate({ id: question.id, item });
+    } else {
+      createMutation.mutate(item);
+    }
+  };
+
+  return (
+    <Dialog open={question !== undefined} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question ? "Editar Questão" : "Nova Questão"}</DialogTitle>
+          <DialogDescription>Fica no seu banco para aplicar em qualquer sala</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Tipo</Label>
+            <Select value={questionType} onValueChange={(v) => handleTypeChange(v as QuestionType)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Pergunta</Label>
+            <Textarea value={text} onChange={(e) => setText(e.target.value)} className="min-h-[60px] text-sm" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">LaTeX (opcional)</Label>
+            <Input value={questionLatex} onChange={(e) => setQuestionLatex(e.target.value)} className="h-8 text-xs font-mono" />
+          </div>
+          {content ? (
+            <div className="space-y-1">
+              <Label className="text-xs">Resposta</Label>
+              <QuestionEditor value={content} onChange={setContent} />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Resposta</Label>
+                <Input value={correctAnswer} onChange={(e) => setCorrectAnswer(e.target.value)} className="h-8 text-xs" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Correção</Label>
+                <Select value={checkMode} onValueChange={(v) => setCheckMode(v as AnswerCheckMode)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ANSWER_CHECK_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>{ANSWER_CHECK_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            {content?.type !== "multiPart" && (
+              <div className="space-y-1">
+                <Label className="text-xs">Pontos</Label>
+                <Input type="number" min={1} max={100} value={points} onChange={(e) => setPoints(Number(e.target.value))} className="h-8 text-xs" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Tempo (s)</Label>
+              <Input
+                type="number"
+                min={10}
+                value={timeLimit || ""}
+                onChange={(e) => setTimeLimit(e.target.value ? Number(e.target.value) : undefined)}
+                placeholder="∞"
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Bônus de velocidade</Label>
+              <Input
+                type="number"
+                min={0}
+                max={MAX_SPEED_BONUS}
+                value={speedBonus || ""}
+                onChange={(e) => setSpeedBonus(e.target.value ? Number(e.target.value) : 0)}
+                placeholder={timeLimit ? "0" : "Defina o tempo"}
+                disabled={!timeLimit}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs">
+            <Switch checked={streakBonus} onCheckedChange={setStreakBonus} />
+            Multiplicar por sequência
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Assunto</Label>
+              <Input value={topic} onChange={(e) => setTopic(e.target.value)} list="bank-topics" placeholder="Frações" className="h-8 text-xs" />
+              <datalist id="bank-topics">
+                {topics.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Dificuldade</Label>
+              <Select value={difficulty ?? ALL} onValueChange={(v) => setDifficulty(v === ALL ? null : (v as QuestionDifficulty))}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>—</SelectItem>
+                  {QUESTION_DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level}>{QUESTION_DIFFICULTY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Série</Label>
+              <Input value={grade} onChange={(e) => setGrade(e.target.value)} list="bank-grades" placeholder="7º ano" className="h-8 text-xs" />
+              <datalist id="bank-grades">
+                {grades.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** The teacher's question bank and quiz sets, with import and export. */
+export function QuestionBank() {
+  const [search, setSearch] = useState("");
+  const [topic, setTopic] = useState(ALL);
+  const [difficulty, setDifficulty] = useState(ALL);
+  const [grade, setGrade] = useState(ALL);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [editing, setEditing] = useState<BankQuestion | null | undefined>(undefined);
+  const [setDialogOpen, setSetDialogOpen] = useState(false);
+  const [setTitle, setSetTitle] = useState("");
+  const [setDescription, setSetDescription] = useState("");
+  const [shareCode, setShareCode] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utils = trpc.useUtils();
+
+  const { data: questions, isLoading } = trpc.bank.list.useQuery({
+    search: search.trim() || undefined,
+    topic: topic === ALL ? undefined : topic,
+    difficulty: difficulty === ALL ? undefined : (difficulty as QuestionDifficulty),
+    grade: grade === ALL ? undefined : grade,
+  });
+  const { data: tags } = trpc.bank.getTags.useQuery();
+  const { data: sets } = trpc.bank.listSets.useQuery();
+
+  const refresh = () => {
+    utils.bank.list.invalidate();
+    utils.bank.getTags.invalidate();
+    utils.bank.listSets.invalidate();
+  };
+
+  const onError = (error: { message?: string }) => {
+    toast.error(error.message || "Erro no banco de questões");
+  };
+
+  const deleteMutation = trpc.bank.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Questão excluída");
+      refresh();
+    },
+    onError,
+  });
+
+  const saveSetMutation = trpc.bank.saveSet.useMutation({
+    onSuccess: () => {
+      toast.success("Conjunto criado");
+      setSetDialogOpen(false);
+      setSetTitle("");
+      setSetDescription("");
+      setSelected([]);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteSetMutation = trpc.bank.deleteSet.useMutation({
+    onSuccess: () => {
+      toast.success("Conjunto excluído");
+      refresh();
+    },
+    onError,
+  });
+
+  const shareSetMutation = trpc.bank.shareSet.useMutation({
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const copySharedSetMutation = trpc.bank.copySharedSet.useMutation({
+    onSuccess: (set) => {
+      toast.success(`Conjunto "${set?.title}" copiado para o seu banco`);
+      setShareCode("");
+      refresh();
+    },
+    onError,
+  });
+
+  const exportMutation = trpc.bank.export.useMutation({
+    onSuccess: (file) => {
+      downloadFile(file.filename, file.content);
+      showWarnings(file.warnings);
+    },
+    onError,
+  });
+
+  const importMutation = trpc.bank.import.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.imported} ${result.imported === 1 ? "questão importada" : "questões importadas"}`);
+      showWarnings(result.warnings);
+      refresh();
+    },
+    onError,
+  });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_IMPORT_SIZE) {
+      toast.error("Arquivo grande demais");
+      return;
+    }
+    const format: QuizExportFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "gift";
+    importMutation.mutate({ format, content: await file.text() });
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected(current => (checked ? [...current, id] : current.filter(other => other !== id)));
+  };
+
+  const questionTitle = (id: number) => questions?.find(question => question.id === id)?.question;
+
+  return (
+    <main className="flex-1">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Banco de Questões</h1>
+          <p className="text-muted-foreground">Questões e conjuntos para aplicar em qualquer sala</p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.txt,.gift,application/json,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" className="gap-2" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+            {importMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            Importar
+          </Button>
+          <Button className="gap-2" onClick={() => setEditing(null)}>
+            <Plus className="h-4 w-4" />
+            Nova Questão
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="questions">
+        <TabsList>
+          <TabsTrigger value="questions">Questões</TabsTrigger>
+          <TabsTrigger value="sets">Conjuntos</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="questions" className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Buscar..." className="h-8 w-48 text-xs" />
+            <Select value={topic} onValueChange={setTopic}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os assuntos</SelectItem>
+                {tags?.topics.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={difficulty} onValueChange={setDifficulty}>
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Qualquer dificuldade</SelectItem>
+                {QUESTION_DIFFICULTIES.map(level => (
+                  <SelectItem key={level} value={level}>{QUESTION_DIFFICULTY_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={grade} onValueChange={setGrade}>
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as séries</SelectItem>
+                {tags?.grades.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selected.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-muted/50 text-sm">
+              <span className="mr-auto">{selected.length} {selected.length === 1 ? "selecionada" : "selecionadas"}</span>
+              <Button size="sm" variant="outline" onClick={() => setSetDialogOpen(true)}>Criar conjunto</Button>
+              {QUIZ_EXPORT_FORMATS.map(format => (
+                <Button
+                  key={format}
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => exportMutation.mutate({ format, questionIds: selected })}
+                  disabled={exportMutation.isPending}
+                >
+                  <Download className="h-3 w-3" />
+                  {QUIZ_EXPORT_FORMAT_LABELS[format]}
+                </Button>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => setSelected([])}>Limpar</Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : questions && questions.length > 0 ? (
+            <div className="space-y-2">
+              {questions.map(question => (
+                <Card key={question.id}>
+                  <CardContent className="p-3 flex items-start gap-3">
+                    <Checkbox
+                      className="mt-1"
+                      checked={selected.includes(question.id)}
+                      onCheckedChange={(checked) => toggleSelected(question.id, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium line-clamp-2">{question.question}</p>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="text-xs">{QUESTION_TYPE_LABELS[question.questionType]}</Badge>
+                        <Badge variant="outline" className="text-xs">{question.points} pts</Badge>
+                        {question.topic && <Badge variant="outline" className="text-xs">{question.topic}</Badge>}
+                        {question.difficulty && (
+                          <Badge variant="outline" className="text-xs">{QUESTION_DIFFICULTY_LABELS[question.difficulty]}</Badge>
+                        )}
+                        {question.grade && <Badge variant="outline" className="text-xs">{question.grade}</Badge>}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(question)} title="Editar">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => {
+                        if (confirm("Excluir esta questão do banco?")) deleteMutation.mutate({ id: question.id });
+                      }}
+                      title="Excluir"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <Library className="h-12 w-12 opacity-50 mx-auto mb-2" />
+                <p className="text-sm">Nenhuma questão no banco</p>
+                <p className="text-xs">Crie questões aqui, importe um arquivo ou guarde os desafios das suas aulas</p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="sets" className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={shareCode}
+              onChange={(e) => setShareCode(e.target.value)}
+              placeholder="Código de um conjunto compartilhado"
+              className="h-8 w-72 text-xs"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              onClick={() => copySharedSetMutation.mutate({ shareCode: shareCode.trim() })}
+              disabled={!shareCode.trim() || copySharedSetMutation.isPending}
+            >
+              <Copy className="h-3 w-3" />
+              Copiar para o meu banco
+            </Button>
+          </div>
+
+          {sets && sets.length > 0 ? (
+            sets.map(set => (
+              <Card key={set.id}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{set.title}</p>
+                      {set.description && <p className="text-sm text-muted-foreground line-clamp-2">{set.description}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {set.questionIds.length} {set.questionIds.length === 1 ? "questão" : "questões"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive shrink-0"
+                      onClick={() => {
+                        if (confirm("Excluir este conjunto? As questões continuam no banco.")) deleteSetMutation.mutate({ id: set.id });
+                      }}
+                      title="Excluir"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <ol className="text-xs text-muted-foreground list-decimal list-inside">
+                    {set.questionIds.slice(0, 5).map(id => questionTitle(id) && <li key={id} className="truncate">{questionTitle(id)}</li>)}
+                  </ol>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-2 text-xs">
+                      <Switch
+                        checked={!!set.shareCode}
+                        onCheckedChange={(shared) => shareSetMutation.mutate({ id: set.id, shared })}
+                      />
+                      <Share2 className="h-3 w-3" />
+                      Compartilhar
+                    </label>
+                    {set.shareCode && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 gap-1 font-mono text-xs"
+                        onClick={() => {
+                          navigator.clipboard.writeText(set.shareCode!);
+                          toast.success("Código copiado!");
+                        }}
+                      >
+                        <Copy className="h-3 w-3" />
+                        {set.shareCode}
+                      </Button>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                      {QUIZ_EXPORT_FORMATS.map(format => (
+                        <Button
+                          key={format}
+                          size="sm"
+                          variant="outline"
+                          className="h-7 gap-1 text-xs"
+                          onClick={() => exportMutation.mutate({ format, setId: set.id })}
+                          disabled={exportMutation.isPending}
+                        >
+                          <Download className="h-3 w-3" />
+                          {QUIZ_EXPORT_FORMAT_LABELS[format]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <p className="text-sm">Nenhum conjunto ainda</p>
+                <p className="text-xs">Selecione questões na aba Questões para criar um conjunto e aplicá-lo numa aula</p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <BankQuestionDialog
+        key={editing === undefined ? "closed" : (editing?.id ?? "new")}
+        question={editing}
+        topics={tags?.topics ?? []}
+        grades={tags?.grades ?? []}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        onSaved={refresh}
+      />
+
+      <Dialog open={setDialogOpen} onOpenChange={setSetDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo Conjunto</DialogTitle>
+            <DialogDescription>
+              As {selected.length} questões selecionadas, na ordem em que foram marcadas
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Título</Label>
+              <Input value={setTitle} onChange={(e) => setSetTitle(e.target.value)} placeholder="Revisão de frações" />
+            </div>
+            <div className="space-y-1">
+              <Label>Descrição (opcional)</Label>
+              <Textarea value={setDescription} onChange={(e) => setSetDescription(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSetDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveSetMutation.mutate({
+                title: setTitle.trim(),
+                description: setDescription.trim() || undefined,
+                questionIds: selected,
+              })}
+              disabled={!setTitle.trim() || saveSetMutation.isPending}
+            >
+              {saveSetMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Criar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
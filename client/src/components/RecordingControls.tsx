@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { createRecordingUploader } from "@/lib/recordingUpload";
 import { toast } from "sonner";
 import { 
   Circle, 
@@ -28,9 +29,9 @@ export function RecordingControls({
 }: RecordingControlsProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
-  const [recordingId, setRecordingId] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   // Fetch recordings
@@ -40,27 +41,7 @@ export function RecordingControls({
   );
 
   // Mutations
-  const createRecordingMutation = trpc.recording.create.useMutation({
-    onSuccess: (recording) => {
-      if (recording) {
-        setRecordingId(recording.id);
-      }
-    },
-    onError: (error) => {
-      toast.error(error.message || "Erro ao iniciar gravação");
-      setIsRecording(false);
-    },
-  });
-
-  const uploadCompleteMutation = trpc.recording.uploadComplete.useMutation({
-    onSuccess: () => {
-      toast.success("Gravação salva com sucesso!");
-      refetchRecordings();
-    },
-    onError: (error) => {
-      toast.error(error.message || "Erro ao salvar gravação");
-    },
-  });
+  const createRecordingMutation = trpc.recording.create.useMutation();
 
   // Timer effect
   useEffect(() => {
@@ -104,10 +85,14 @@ export function RecordingControls({
       }
 
       // Create recording entry in database
-      createRecordingMutation.mutate({
+      const recording = await createRecordingMutation.mutateAsync({
         sessionId,
         title: `Gravação ${new Date().toLocaleString('pt-BR')}`,
       });
+      if (!recording) return;
+      refetchRecordings();
+
+      const uploader = createRecordingUploader(recording.id);
 
       // Set up MediaRecorder
       const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9')
@@ -119,47 +104,38 @@ export function RecordingControls({
         videoBitsPerSecond: 2500000, // 2.5 Mbps
       });
 
-      chunksRef.current = [];
-
+      // Chunks are uploaded as they arrive
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
+          uploader.addChunk(event.data);
         }
       };
 
       mediaRecorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        
-        // For now, create a download link (in production, upload to S3)
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `gravacao-${sessionId}-${Date.now()}.webm`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
-        // Update recording status
-        if (recordingId) {
-          uploadCompleteMutation.mutate({
-            recordingId,
-            s3Url: url, // In production, this would be the S3 URL
-            duration: recordingTime,
-            fileSize: blob.size,
+        setIsUploading(true);
+        try {
+          await uploader.finish({
+            mimeType,
+            duration: Math.round((Date.now() - startedAtRef.current) / 1000),
           });
+          toast.success("Gravação salva com sucesso!");
+        } catch (error) {
+          console.error("Error uploading recording:", error);
+          toast.error(error instanceof Error ? error.message : "Erro ao salvar gravação");
+        } finally {
+          setIsUploading(false);
+          refetchRecordings();
         }
-
-        setRecordingId(null);
       };
 
+      startedAtRef.current = Date.now();
       mediaRecorder.start(1000); // Collect data every second
       mediaRecorderRef.current = mediaRecorder;
       setIsRecording(true);
       toast.success("Gravação iniciada!");
     } catch (error) {
       console.error("Error starting recording:", error);
-      toast.error("Erro ao iniciar gravação");
+      toast.error(error instanceof Error && error.message ? error.message : "Erro ao iniciar gravação");
     }
   };
 
@@ -204,10 +180,10 @@ export function RecordingControls({
             <Button
               variant="default"
               onClick={startRecording}
-              disabled={createRecordingMutation.isPending || (!localStream && !screenStream)}
+              disabled={createRecordingMutation.isPending || isUploading || (!localStream && !screenStream)}
               className="gap-2"
             >
-              {createRecordingMutation.isPending ? (
+              {createRecordingMutation.isPending || isUploading ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
                 <Circle className="h-4 w-4 fill-red-500 text-red-500" />
@@ -253,7 +229,9 @@ export function RecordingControls({
         )}
 
         <p className="text-xs text-muted-foreground">
-          A gravação será baixada automaticamente ao parar.
+          {isUploading
+            ? "Enviando gravação..."
+            : "A gravação é enviada ao servidor enquanto você grava."}
         </p>
       </CardContent>
     </Card>
@@ -0,0 +1,155 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import type { RevealedResults } from "@shared/responseAnalytics";
+import { toast } from "sonner";
+import { BarChart3, CheckCircle2, Clock, Eye, Loader2, UserX, XCircle } from "lucide-react";
+
+function formatSeconds(milliseconds: number) {
+  return `${(milliseconds / 1000).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} s`;
+}
+
+function AnswerBar({ label, title, count, total, correct }: { label: string; title?: string; count: number; total: number; correct: boolean }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {correct ? <CheckCircle2 className="h-3 w-3 text-green-600 shrink-0" /> : <XCircle className="h-3 w-3 text-red-600 shrink-0" />}
+      <span className="w-28 truncate font-mono" title={title ?? label}>{label}</span>
+      <Progress value={total > 0 ? (count / total) * 100 : 0} className="flex-1 h-2" />
+      <span className="w-6 text-right font-mono">{count}</span>
+    </div>
+  );
+}
+
+/** How the class is answering the active exercise, updated as answers arrive (host only). */
+export function LiveResponsePanel({ exerciseId }: { exerciseId: number }) {
+  const utils = trpc.useUtils();
+
+  const { data: stats } = trpc.exercise.getLiveStats.useQuery(
+    { exerciseId },
+    { refetchInterval: usePollingFallback(3000) }
+  );
+
+  // A new answer or someone joining or leaving changes the numbers
+  useSessionEvent(SESSION_EVENTS.score, () => {
+    utils.exercise.getLiveStats.invalidate({ exerciseId });
+  });
+
+  useSessionEvent(SESSION_EVENTS.participants, () => {
+    utils.exercise.getLiveStats.invalidate({ exerciseId });
+  });
+
+  const revealMutation = trpc.exercise.revealResults.useMutation({
+    onSuccess: () => {
+      toast.success("Resultados revelados para a turma");
+      utils.exercise.getLiveStats.invalidate({ exerciseId });
+    },
+    onError: (error: { message?: string }) => {
+      toast.error(error.message || "Erro ao revelar resultados");
+    },
+  });
+
+  if (!stats) return null;
+
+  return (
+    <div className="mt-3 p-2 rounded bg-background space-y-2">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span className="font-medium">
+            {stats.answered} de {stats.expected} {stats.expected === 1 ? "respondeu" : "responderam"}
+          </span>
+          {stats.answered > 0 && (
+            <span className="text-muted-foreground">
+              {stats.correct} {stats.correct === 1 ? "acerto" : "acertos"}
+            </span>
+          )}
+        </div>
+        <Progress value={stats.expected > 0 ? (stats.answered / stats.expected) * 100 : 0} className="h-2" />
+      </div>
+
+      {stats.averageResponseTime !== null && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          Tempo médio: {formatSeconds(stats.averageResponseTime)}
+        </p>
+      )}
+
+      {stats.mostCommonWrong && stats.mostCommonWrong.count > 1 && (
+        <p className="text-xs">
+          <span className="text-muted-foreground">Erro mais comum:</span>{" "}
+          <span className="font-mono">{stats.mostCommonWrong.answer}</span>{" "}
+          <span className="text-muted-foreground">({stats.mostCommonWrong.count}×)</span>
+        </p>
+      )}
+
+      {stats.groups.length > 0 && (
+        <div className="space-y-1">
+          {stats.groups.map(group => (
+            <AnswerBar
+              key={`${group.correct}:${group.answer}`}
+              label={group.variants.length > 0 ? `${group.answer} (+${group.variants.length})` : group.answer}
+              title={[group.answer, ...group.variants].join(" = ")}
+              count={group.count}
+              total={stats.answered}
+              correct={group.correct}
+            />
+          ))}
+        </div>
+      )}
+
+      {stats.notAnswered.length > 0 && (
+        <div className="text-xs">
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <UserX className="h-3 w-3" />
+            Ainda sem resposta:
+          </p>
+          <p className="line-clamp-2">{stats.notAnswered.map(student => student.name).join(", ")}</p>
+        </div>
+      )}
+
+      {stats.resultsRevealed ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Eye className="h-3 w-3" />
+          Resultados revelados: a turma vê a distribuição e não pode mais responder
+        </p>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full gap-1"
+          onClick={() => {
+            if (confirm("Revelar os resultados para a turma? Depois disso ninguém mais pode responder.")) {
+              revealMutation.mutate({ exerciseId });
+            }
+          }}
+          disabled={stats.answered === 0 || revealMutation.isPending}
+        >
+          {revealMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <BarChart3 className="h-3 w-3" />}
+          Revelar resultados para a turma
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/** The anonymous spread of the answers, as the teacher revealed it to the class. */
+export function RevealedResultsChart({ results }: { results: RevealedResults }) {
+  return (
+    <div className="mt-3 p-2 rounded bg-muted/50 space-y-1">
+      <p className="flex items-center gap-1 text-xs font-medium">
+        <BarChart3 className="h-3 w-3" />
+        Como a turma respondeu: {results.correct} de {results.answered} {results.answered === 1 ? "acertou" : "acertaram"}
+      </p>
+      {results.bars.map(bar => (
+        <AnswerBar
+          key={`${bar.correct}:${bar.label}`}
+          label={bar.label}
+          count={bar.count}
+          total={results.answered}
+          correct={bar.correct}
+        />
+      ))}
+    </div>
+  );
+}
@@ -2,16 +2,20 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { streamTutorAnswer } from "@/lib/shadowTutorStream";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { TUTOR_POLICY_LABELS } from "@shared/tutorPolicy";
 import { toast } from "sonner";
-import { X, Send, Loader2, Brain, User } from "lucide-react";
+import { X, Send, Brain, User, Lock, Square } from "lucide-react";
 import { Streamdown } from "streamdown";
 import "katex/dist/katex.min.css";
 import katex from "katex";
 
 interface ShadowTutorProps {
-  sessionId: number;
-  participantId: number;
+  participantToken: string;
   onClose: () => void;
 }
 
@@ -22,54 +26,112 @@ interface ChatMessage {
   createdAt: Date;
 }
 
-// Function to render LaTeX in text
-function renderLatexInText(text: string): string {
-  // Replace display math $$...$$ 
-  let result = text.replace(/\$\$(.*?)\$\$/g, (_, latex) => {
-    try {
-      return katex.renderToString(latex, { displayMode: true, throwOnError: false });
-    } catch {
-      return `$$${latex}$$`;
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+type TextPart = { math: false; text: string } | { math: true; display: boolean; latex: string };
+
+// Index of the $ or $$ closing a formula whose content starts at `from`, or -1.
+// Escaped characters such as \$ never close it.
+function findClosingMath(text: string, from: number, display: boolean): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
     }
-  });
-  
-  // Replace inline math $...$
-  result = result.replace(/\$([^$]+)\$/g, (_, latex) => {
-    try {
-      return katex.renderToString(latex, { displayMode: false, throwOnError: false });
-    } catch {
-      return `$${latex}$`;
+    if (text[i] !== "$") continue;
+
+    const isDouble = text[i + 1] === "$";
+    if (isDouble === display) return i;
+    if (isDouble) i++;
+  }
+  return -1;
+}
+
+// Text and formulas of an answer: $$...$$ is display math, $...$ inline
+// and \$ a dollar sign. A formula that is not closed, as in an answer
+// still being written, stays as text from its opening $ on.
+function splitMath(text: string): TextPart[] {
+  const parts: TextPart[] = [];
+  let plain = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === "\\" && text[i + 1] === "$") {
+      plain += "$";
+      i += 2;
+      continue;
     }
-  });
-  
-  return result;
+    if (text[i] !== "$") {
+      plain += text[i++];
+      continue;
+    }
+
+    const display = text[i + 1] === "$";
+    const delimiter = display ? "$$" : "$";
+    const closeAt = findClosingMath(text, i + delimiter.length, display);
+    if (closeAt === -1) {
+      plain += text.slice(i);
+      break;
+    }
+
+    if (plain) parts.push({ math: false, text: plain });
+    plain = "";
+    parts.push({ math: true, display, latex: text.slice(i + delimiter.length, closeAt) });
+    i = closeAt + delimiter.length;
+  }
+  if (plain) parts.push({ math: false, text: plain });
+  return parts;
+}
+
+// An answer as HTML: formulas typeset by KaTeX, everything else escaped
+function renderLatexInText(text: string): string {
+  return splitMath(text)
+    .map(part => part.math
+      ? katex.renderToString(part.latex, { displayMode: part.display, throwOnError: false })
+      : escapeHtml(part.text))
+    .join("");
 }
 
-export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorProps) {
+interface PendingAnswer {
+  question: string;
+  answer: string;
+  cancelled: boolean;
+}
+
+export function ShadowTutor({ participantToken, onClose }: ShadowTutorProps) {
   const [message, setMessage] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
+  const [pending, setPending] = useState<PendingAnswer | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Fetch chat history
   const { data: history, refetch: refetchHistory } = trpc.shadowTutor.getHistory.useQuery(
-    { participantId },
+    { participantToken },
     { refetchInterval: false }
   );
 
-  // Chat mutation
-  const chatMutation = trpc.shadowTutor.chat.useMutation({
-    onMutate: () => {
-      setIsTyping(true);
-    },
-    onSuccess: () => {
-      refetchHistory();
-      setIsTyping(false);
-    },
-    onError: (error) => {
-      toast.error(error.message || "Erro ao enviar mensagem");
-      setIsTyping(false);
-    },
+  // Tutor mode set by the teacher; an active exercise locks it to hints
+  const utils = trpc.useUtils();
+  const { data: policy } = trpc.shadowTutor.getPolicy.useQuery(
+    { participantToken },
+    { refetchInterval: usePollingFallback(5000) }
+  );
+  const isOff = policy?.policy === "off";
+
+  useSessionEvent(SESSION_EVENTS.tutorPolicy, () => {
+    utils.shadowTutor.getPolicy.invalidate({ participantToken });
+  });
+
+  useSessionEvent(SESSION_EVENTS.exercise, () => {
+    utils.shadowTutor.getPolicy.invalidate({ participantToken });
   });
 
   // Scroll to bottom on new messages
@@ -77,22 +139,53 @@ export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorPr
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [history, isTyping]);
+  }, [history, pending]);
 
-  // Focus input on mount
+  // Focus input on mount; stop a running answer on unmount
   useEffect(() => {
     inputRef.current?.focus();
+    return () => abortRef.current?.abort();
   }, []);
 
-  const handleSend = () => {
-    if (!message.trim() || chatMutation.isPending) return;
+  const handleSend = async () => {
+    const question = message.trim();
+    if (!question || isStreaming || isOff) return;
 
-    chatMutation.mutate({
-      sessionId,
-      participantId,
-      message: message.trim(),
-    });
     setMessage("");
+    setIsStreaming(true);
+    // Pick up a previously stopped answer before showing the new question
+    if (pending) await refetchHistory();
+    setPending({ question, answer: "", cancelled: false });
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    try {
+      await streamTutorAnswer({
+        participantToken,
+        message: question,
+        signal: abort.signal,
+        onDelta: (text) => setPending(current => current && { ...current, answer: current.answer + text }),
+      });
+      await refetchHistory();
+      setPending(null);
+    } catch (error) {
+      if (abort.signal.aborted) {
+        // The server keeps the partial answer; show it until the history catches up
+        setPending(current => current && { ...current, cancelled: true });
+      } else {
+        toast.error(error instanceof Error ? error.message : "Erro ao enviar mensagem");
+        await refetchHistory();
+        setPending(null);
+      }
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   return (
@@ -102,6 +195,12 @@ export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorPr
         <div className="flex items-center gap-2">
           <Brain className="h-5 w-5 text-primary" />
           <span className="font-semibold">Shadow Tutor</span>
+          {policy && (
+            <Badge variant={isOff ? "destructive" : "secondary"} className="gap-1">
+              {policy.locked && <Lock className="h-3 w-3" />}
+              {TUTOR_POLICY_LABELS[policy.policy]}
+            </Badge>
+          )}
         </div>
         <Button variant="ghost" size="icon" onClick={onClose}>
           <X className="h-4 w-4" />
@@ -160,18 +259,44 @@ export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorPr
             </div>
           ))}
 
-          {/* Typing indicator */}
-          {isTyping && (
+          {/* Question being answered */}
+          {pending && (
+            <div className="flex gap-2 justify-end">
+              <div className="max-w-[85%] rounded-lg px-3 py-2 bg-primary text-primary-foreground">
+                <p className="text-sm">{pending.question}</p>
+              </div>
+              <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center shrink-0">
+                <User className="h-4 w-4 text-primary-foreground" />
+              </div>
+            </div>
+          )}
+
+          {/* Answer as it is written, typing indicator until the first words arrive */}
+          {pending && (
             <div className="flex gap-2 justify-start">
               <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
                 <Brain className="h-4 w-4 text-primary" />
               </div>
-              <div className="bg-muted rounded-lg px-3 py-2">
-                <div className="flex gap-1">
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
-                </div>
+              <div className="max-w-[85%] bg-muted rounded-lg px-3 py-2">
+                {pending.answer ? (
+                  <>
+                    <div
+                      className="text-sm prose prose-sm max-w-none dark:prose-invert"
+                      dangerouslySetInnerHTML={{ __html: renderLatexInText(pending.answer) }}
+                    />
+                    {pending.cancelled && (
+                      <p className="mt-1 text-xs text-muted-foreground">Resposta interrompida</p>
+                    )}
+                  </>
+                ) : pending.cancelled ? (
+                  <p className="text-xs text-muted-foreground">Resposta interrompida</p>
+                ) : (
+                  <div className="flex gap-1">
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -180,6 +305,16 @@ export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorPr
 
       {/* Input */}
       <div className="p-4 border-t shrink-0">
+        {policy?.locked && (
+          <p className="text-xs text-muted-foreground mb-2">
+            Exercício em andamento: o tutor só pode dar dicas até o fim da rodada.
+          </p>
+        )}
+        {isOff && (
+          <p className="text-xs text-muted-foreground mb-2">
+            O professor desativou o Shadow Tutor nesta aula.
+          </p>
+        )}
         <form
           onSubmit={(e) => {
             e.preventDefault();
@@ -192,20 +327,22 @@ export function ShadowTutor({ sessionId, participantId, onClose }: ShadowTutorPr
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             placeholder="Digite sua dúvida..."
-            disabled={chatMutation.isPending}
+            disabled={isStreaming || isOff}
             className="flex-1"
           />
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!message.trim() || chatMutation.isPending}
-          >
-            {chatMutation.isPending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isStreaming ? (
+            <Button type="button" size="icon" variant="outline" onClick={handleStop} title="Parar resposta">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!message.trim() || isOff}
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </form>
         <p className="text-xs text-muted-foreground mt-2 text-center">
           Use $ para fórmulas: $x^2 + y^2$
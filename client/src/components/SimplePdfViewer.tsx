@@ -2,6 +2,11 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { checkDocumentFiles, maxDocumentUploadSize, uploadDocumentFiles, type DocumentUploadResult } from "@/lib/documentUpload";
+import { DOCUMENT_UPLOAD_ACCEPT } from "@shared/documentFormats";
 import { toast } from "sonner";
 import { 
   Upload, 
@@ -33,6 +38,7 @@ export function SimplePdfViewer({ roomId, isHost, sessionId }: SimplePdfViewerPr
   const [selectedDocId, setSelectedDocId] = useState<number | null>(null);
   const [localPdfUrl, setLocalPdfUrl] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [isLoadingPdf, setIsLoadingPdf] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -52,15 +58,25 @@ export function SimplePdfViewer({ roomId, isHost, sessionId }: SimplePdfViewerPr
     { enabled: !!roomId }
   );
 
+  const utils = trpc.useUtils();
+
   // PDF Sync State - for students to receive teacher's state
   const { data: syncState } = trpc.pdfSync.getState.useQuery(
     { sessionId: sessionId || 0 },
     { 
       enabled: !!sessionId && !isHost,
-      refetchInterval: 2000,
+      refetchInterval: usePollingFallback(2000),
     }
   );
 
+  useSessionEvent(SESSION_EVENTS.pdfSync, (state) => {
+    if (isHost || !sessionId) return;
+    utils.pdfSync.getState.setData({ sessionId }, state ?? null);
+    if (state?.documentId && !documents?.some(d => d.id === state.documentId)) {
+      refetchDocs();
+    }
+  });
+
   // Update sync state mutation (teacher only)
   const updateSyncMutation = trpc.pdfSync.updateState.useMutation();
 
@@ -90,77 +106,53 @@ export function SimplePdfViewer({ roomId, isHost, sessionId }: SimplePdfViewerPr
     }
   }, [syncState, documents, isHost, selectedDocId]);
 
-  // Upload mutation
-  const uploadMutation = trpc.document.upload.useMutation({
-    onSuccess: (data) => {
-      toast.success("PDF enviado!");
-      refetchDocs();
-      setIsUploading(false);
-      if (data?.s3Url) {
-        setSelectedPdf(data.s3Url);
-        setSelectedDocId(data.id);
-        syncToStudents(data.id);
-      }
-    },
-    onError: (error) => {
-      toast.error(error.message || "Erro ao enviar PDF");
-      setIsUploading(false);
-    },
-  });
+  const { user } = useAuth();
 
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleUploaded = ({ document, duplicate }: DocumentUploadResult) => {
+    toast.success(duplicate ? "Documento já estava na sala" : "Documento enviado!");
+    refetchDocs();
+    setIsUploading(false);
+    setSelectedPdf(document.s3Url);
+    setSelectedDocId(document.id);
+    syncToStudents(document.id);
+  };
 
-    if (file.type !== "application/pdf") {
-      toast.error("Por favor, selecione um arquivo PDF");
-      return;
+  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
     }
+    if (files.length === 0) return;
 
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("O arquivo deve ter no máximo 10MB");
+    const problem = checkDocumentFiles(files, maxDocumentUploadSize(user?.role));
+    if (problem) {
+      toast.error(problem);
       return;
     }
 
-    // Clear previous state
-    if (localPdfUrl && localPdfUrl.startsWith('blob:')) {
-      URL.revokeObjectURL(localPdfUrl);
+    // A PDF is shown right away; anything else once the server has converted it
+    if (files.length === 1 && files[0].type === "application/pdf") {
+      if (localPdfUrl && localPdfUrl.startsWith('blob:')) {
+        URL.revokeObjectURL(localPdfUrl);
+      }
+      const localUrl = URL.createObjectURL(files[0]);
+      setPdfError(null);
+      setLocalPdfUrl(localUrl);
+      setSelectedPdf(localUrl);
+      setSelectedDocId(null);
     }
-    setIsLoadingPdf(true);
-    setPdfError(null);
-
-    // Create local URL for immediate preview
-    const localUrl = URL.createObjectURL(file);
-    setLocalPdfUrl(localUrl);
-    setSelectedPdf(localUrl);
-    setSelectedDocId(null);
-    setIsLoadingPdf(false);
 
     // Upload to server in background
     setIsUploading(true);
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(",")[1];
-      uploadMutation.mutate({
-        roomId,
-        title: file.name,
-        fileData: base64,
-        mimeType: file.type,
-        fileSize: file.size,
+    setUploadProgress(0);
+    uploadDocumentFiles(roomId, files, setUploadProgress)
+      .then(handleUploaded)
+      .catch((error: Error) => {
+        toast.error(error.message || "Erro ao enviar documento");
+        setIsUploading(false);
       });
-    };
-    reader.onerror = () => {
-      toast.error("Erro ao processar arquivo");
-      setIsUploading(false);
-    };
-    reader.readAsDataURL(file);
-
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-  }, [roomId, uploadMutation, localPdfUrl]);
+  }, [roomId, user?.role, handleUploaded, localPdfUrl]);
 
   const handleSelectDocument = useCallback((doc: DocumentData) => {
     if (!doc.s3Url) {
@@ -215,7 +207,8 @@ export function SimplePdfViewer({ roomId, isHost, sessionId }: SimplePdfViewerPr
             <input
               ref={fileInputRef}
               type="file"
-              accept="application/pdf,.pdf"
+              accept={DOCUMENT_UPLOAD_ACCEPT}
+              multiple
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -230,7 +223,7 @@ export function SimplePdfViewer({ roomId, isHost, sessionId }: SimplePdfViewerPr
               ) : (
                 <Upload className="h-4 w-4" />
               )}
-              {isUploading ? "Enviando..." : "Enviar PDF"}
+              {isUploading ? `Enviando... ${Math.round(uploadProgress * 100)}%` : "Enviar documento"}
             </Button>
           </>
         )}
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import type { CompiledGraphExpression, GraphExpression } from "@shared/graphExpressions";
+import {
+  buildSurfaceMesh,
+  clampCamera,
+  DEFAULT_CAMERA,
+  project,
+  shade,
+  toCube,
+  zRangeOf,
+  type GraphCamera,
+  type SpaceWindow,
+} from "@shared/graph3d";
+import { RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+
+interface SpaceGraphProps {
+  entries: { expression: GraphExpression; compiled: CompiledGraphExpression }[];
+  window: { xMin: number; xMax: number; yMin: number; yMax: number };
+  camera: GraphCamera;
+  onCameraChange: (camera: GraphCamera) => void;
+}
+
+// Surface grid, per side; 40 × 40 quads sort and fill fast enough on school machines
+const SURFACE_CELLS = 40;
+const CURVE_STEPS = 500;
+// Radians turned per pixel dragged
+const ROTATE_SPEED = 0.01;
+
+const CUBE_EDGES: [number, number, number][][] = [
+  [[-1, -1, -1], [1, -1, -1]], [[-1, 1, -1], [1, 1, -1]], [[-1, -1, 1], [1, -1, 1]], [[-1, 1, 1], [1, 1, 1]],
+  [[-1, -1, -1], [-1, 1, -1]], [[1, -1, -1], [1, 1, -1]], [[-1, -1, 1], [-1, 1, 1]], [[1, -1, 1], [1, 1, 1]],
+  [[-1, -1, -1], [-1, -1, 1]], [[1, -1, -1], [1, -1, 1]], [[-1, 1, -1], [-1, 1, 1]], [[1, 1, -1], [1, 1, 1]],
+];
+
+const AXIS_LABELS: { label: string; at: [number, number, number] }[] = [
+  { label: "x", at: [1.2, -1, -1] },
+  { label: "y", at: [-1, 1.2, -1] },
+  { label: "z", at: [-1, -1, 1.2] },
+];
+
+function shadeColor(hex: string, brightness: number): string {
+  const [r, g, b] = [1, 3, 5].map(i => Math.round(parseInt(hex.slice(i, i + 2), 16) * brightness));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/** Surfaces and curves in space drawn on a 2D canvas; dragging turns the camera, the wheel zooms. */
+export function SpaceGraph({ entries, window: plane, camera, onCameraChange }: SpaceGraphProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragFrom = useRef<{ x: number; y: number } | null>(null);
+  // Latest camera for the wheel listener, which is registered once
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+
+    // Sample everything once to find the z range shared by all expressions
+    const curves = entries.flatMap(({ expression, compiled }) => {
+      if (compiled.kind !== "spaceCurve") return [];
+      const { min, max } = compiled.range;
+      const points = Array.from({ length: CURVE_STEPS + 1 }, (_, i) => compiled.curve(min + ((max - min) * i) / CURVE_STEPS));
+      return [{ expression, points }];
+    });
+    const heights: number[] = curves.flatMap(({ points }) => points.flatMap(point => (point ? [point.z] : [])));
+    for (const { compiled } of entries) {
+      if (compiled.kind !== "surface") continue;
+      for (let i = 0; i <= SURFACE_CELLS; i++) {
+        for (let j = 0; j <= SURFACE_CELLS; j++) {
+          const z = compiled.surface(
+            plane.xMin + ((plane.xMax - plane.xMin) * i) / SURFACE_CELLS,
+            plane.yMin + ((plane.yMax - plane.yMin) * j) / SURFACE_CELLS
+          );
+          if (z !== null) heights.push(z);
+        }
+      }
+    }
+    const space: SpaceWindow = { ...plane, ...zRangeOf(heights) };
+    const toScreen = (x: number, y: number, z: number) => project({ x, y, z }, camera, width, height);
+
+    // Bounding box
+    ctx.strokeStyle = "#d1d5db";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const [from, to] of CUBE_EDGES) {
+      const [a, b] = [toScreen(...from), toScreen(...to)];
+      ctx.moveTo(a.px, a.py);
+      ctx.lineTo(b.px, b.py);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = "#6b7280";
+    ctx.font = "14px sans-serif";
+    ctx.textAlign = "center";
+    for (const { label, at } of AXIS_LABELS) {
+      const { px, py } = toScreen(...at);
+      ctx.fillText(label, px, py);
+    }
+
+    // Surfaces, back to front
+    const quads = entries.flatMap(({ expression, compiled }) =>
+      compiled.kind === "surface"
+        ? buildSurfaceMesh(compiled.surface, space, SURFACE_CELLS).map(quad => {
+          const corners = quad.corners.map(corner => project(corner, camera, width, height));
+          const depth = corners.reduce((sum, corner) => sum + corner.depth, 0) / 4;
+          return { corners, depth, fill: shadeColor(expression.color, shade(quad.corners)) };
+        })
+        : []
+    );
+    quads.sort((a, b) => a.depth - b.depth);
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+    for (const { corners, fill } of quads) {
+      ctx.fillStyle = fill;
+      ctx.beginPath();
+      ctx.moveTo(corners[0].px, corners[0].py);
+      corners.slice(1).forEach(corner => ctx.lineTo(corner.px, corner.py));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    // Curves on top of the surfaces
+    ctx.lineWidth = 3;
+    for (const { expression, points } of curves) {
+      ctx.strokeStyle = expression.color;
+      ctx.beginPath();
+      let drawing = false;
+      for (const point of points) {
+        if (!point) {
+          drawing = false;
+          continue;
+        }
+        const { px, py } = project(toCube(point, space), camera, width, height);
+        if (drawing) ctx.lineTo(px, py);
+        else ctx.moveTo(px, py);
+        drawing = true;
+      }
+      ctx.stroke();
+    }
+
+    ctx.font = "bold 16px sans-serif";
+    ctx.textAlign = "left";
+    entries.forEach(({ expression }, index) => {
+      ctx.fillStyle = expression.color;
+      ctx.fillText(expression.source, 10, 25 + index * 20);
+    });
+  }, [entries, plane, camera]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Registered by hand: React wheel listeners are passive and cannot stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = cameraRef.current;
+      onCameraChange(clampCamera({ ...current, zoom: current.zoom * Math.exp(-e.deltaY * 0.001) }));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [onCameraChange]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragFrom.current) return;
+    const [dx, dy] = [e.clientX - dragFrom.current.x, e.clientY - dragFrom.current.y];
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+    onCameraChange(clampCamera({
+      ...camera,
+      yaw: camera.yaw - dx * ROTATE_SPEED,
+      pitch: camera.pitch + dy * ROTATE_SPEED,
+    }));
+  };
+
+  const zoomBy = (factor: number) => onCameraChange(clampCamera({ ...camera, zoom: camera.zoom * factor }));
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={500}
+        height={400}
+        className="w-full h-full cursor-grab touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragFrom.current = null)}
+        onPointerCancel={() => (dragFrom.current = null)}
+      />
+
+      <div className="absolute bottom-2 right-2 flex gap-1">
+        <Button variant="secondary" size="icon" className="h-7 w-7" onClick={() => zoomBy(1.5)} title="Zoom In">
+          <ZoomIn className="h-3 w-3" />
+        </Button>
+        <Button variant="secondary" size="icon" className="h-7 w-7" onClick={() => zoomBy(1 / 1.5)} title="Zoom Out">
+          <ZoomOut className="h-3 w-3" />
+        </Button>
+        <Button variant="secondary" size="icon" className="h-7 w-7" onClick={() => onCameraChange(DEFAULT_CAMERA)} title="Reset">
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      </div>
+    </>
+  );
+}
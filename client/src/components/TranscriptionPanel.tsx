@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -12,24 +12,126 @@ import {
   Loader2,
   Copy,
   Download,
-  Trash2
+  Trash2,
+  PlayCircle,
+  RotateCcw
 } from "lucide-react";
+import type { Recording } from "@shared/types";
 
 interface TranscriptionPanelProps {
   sessionId: number;
   isHost: boolean;
 }
 
+function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+interface TranscriptSegmentsProps {
+  transcriptionId: number;
+  recording: Recording | undefined;
+}
+
+function TranscriptSegments({ transcriptionId, recording }: TranscriptSegmentsProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+
+  const { data: segments, isLoading } = trpc.transcription.getSegments.useQuery({ transcriptionId });
+
+  // Jump the recording player to the start of a segment
+  const handleSeek = (startMs: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = startMs / 1000;
+    video.play().catch(() => {});
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {recording?.s3Url && (
+        <video
+          ref={videoRef}
+          src={recording.s3Url}
+          controls
+          className="w-full rounded-md bg-black"
+          onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+        />
+      )}
+      <div className="space-y-1">
+        {segments && segments.length > 0 ? (
+          segments.map((segment) => {
+            const isCurrent = currentMs >= segment.startMs && currentMs < segment.endMs;
+            return (
+              <button
+                key={segment.id}
+                type="button"
+                onClick={() => handleSeek(segment.startMs)}
+                disabled={!recording?.s3Url}
+                className={`w-full text-left flex gap-2 rounded px-2 py-1 text-sm hover:bg-muted ${
+                  isCurrent ? "bg-primary/10" : ""
+                }`}
+                title={
+                  segment.confidence !== null
+                    ? `Confiança: ${Math.round(segment.confidence * 100)}%`
+                    : undefined
+                }
+              >
+                <span className="font-mono text-xs text-muted-foreground shrink-0 pt-0.5">
+                  {formatTimestamp(segment.startMs)}
+                </span>
+                <span>{segment.text}</span>
+              </button>
+            );
+          })
+        ) : (
+          <p className="text-xs text-muted-foreground">Nenhum segmento encontrado</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function TranscriptionPanel({ sessionId, isHost }: TranscriptionPanelProps) {
   const [newTranscription, setNewTranscription] = useState("");
   const [isAdding, setIsAdding] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
 
-  // Fetch transcriptions
+  // Fetch transcriptions, polling while an automatic one is still running
   const { data: transcriptions, refetch: refetchTranscriptions } = trpc.transcription.getBySession.useQuery(
+    { sessionId },
+    {
+      enabled: !!sessionId,
+      refetchInterval: (query) =>
+        query.state.data?.some((trans) => trans.status === "processing") ? 5000 : false,
+    }
+  );
+
+  const { data: recordings } = trpc.recording.getBySession.useQuery(
     { sessionId },
     { enabled: !!sessionId }
   );
 
+  const retryMutation = trpc.transcription.retry.useMutation({
+    onSuccess: () => {
+      toast.success("Transcrição reiniciada");
+      refetchTranscriptions();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao refazer transcrição");
+    },
+  });
+
   // Create transcription mutation
   const createTranscriptionMutation = trpc.transcription.create.useMutation({
     onSuccess: () => {
@@ -137,14 +239,49 @@ export function TranscriptionPanel({ sessionId, isHost }: TranscriptionPanelProp
                   <CardContent className="p-3 space-y-2">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
-                        <Badge variant={trans.status === "ready" ? "default" : "secondary"}>
-                          {trans.status === "ready" ? "Pronto" : "Processando"}
+                        <Badge
+                          variant={
+                            trans.status === "ready"
+                              ? "default"
+                              : trans.status === "failed"
+                                ? "destructive"
+                                : "secondary"
+                          }
+                        >
+                          {trans.status === "ready"
+                            ? "Pronto"
+                            : trans.status === "failed"
+                              ? "Erro"
+                              : "Processando"}
                         </Badge>
                         <span className="text-xs text-muted-foreground">
                           {new Date(trans.createdAt).toLocaleString('pt-BR')}
                         </span>
                       </div>
                       <div className="flex gap-1">
+                        {trans.recordingId && trans.status === "ready" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => setExpandedId(expandedId === trans.id ? null : trans.id)}
+                            title="Segmentos"
+                          >
+                            <PlayCircle className="h-3 w-3" />
+                          </Button>
+                        )}
+                        {isHost && trans.recordingId && trans.status === "failed" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => retryMutation.mutate({ transcriptionId: trans.id })}
+                            disabled={retryMutation.isPending}
+                            title="Tentar novamente"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -165,9 +302,16 @@ export function TranscriptionPanel({ sessionId, isHost }: TranscriptionPanelProp
                         </Button>
                       </div>
                     </div>
-                    <p className="text-sm whitespace-pre-wrap line-clamp-5">
-                      {trans.content}
-                    </p>
+                    {expandedId === trans.id ? (
+                      <TranscriptSegments
+                        transcriptionId={trans.id}
+                        recording={recordings?.find((rec) => rec.id === trans.recordingId)}
+                      />
+                    ) : (
+                      <p className="text-sm whitespace-pre-wrap line-clamp-5">
+                        {trans.content}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               ))
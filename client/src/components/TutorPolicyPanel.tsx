@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { TUTOR_POLICIES, TUTOR_POLICY_LABELS, type TutorPolicy } from "@shared/tutorPolicy";
+import type { TutorPolicyLog } from "@shared/types";
+import { toast } from "sonner";
+import { Brain, Lock, MessagesSquare } from "lucide-react";
+import { TutorQuestionsDialog } from "@/components/TutorQuestionsDialog";
+
+interface TutorPolicyPanelProps {
+  roomId: number;
+  roomPolicy: TutorPolicy;
+  sessionId: number;
+  sessionPolicy: TutorPolicy | null;
+  participantToken: string;
+}
+
+// Value used in the session select for "follow the room policy"
+const ROOM_DEFAULT = "room";
+
+const EVENT_LABELS: Record<TutorPolicyLog["event"], string> = {
+  changed: "Modo alterado",
+  answered: "Pergunta respondida",
+  blocked: "Pergunta bloqueada",
+};
+
+export function TutorPolicyPanel({ roomId, roomPolicy, sessionId, sessionPolicy, participantToken }: TutorPolicyPanelProps) {
+  const utils = trpc.useUtils();
+  const [showQuestions, setShowQuestions] = useState(false);
+
+  const { data: effective } = trpc.shadowTutor.getPolicy.useQuery(
+    { participantToken },
+    { refetchInterval: usePollingFallback(5000) }
+  );
+
+  const { data: log } = trpc.shadowTutor.getPolicyLog.useQuery(
+    { roomId },
+    { refetchInterval: usePollingFallback(10000) }
+  );
+
+  useSessionEvent(SESSION_EVENTS.tutorPolicy, () => {
+    utils.shadowTutor.getPolicy.invalidate({ participantToken });
+    utils.shadowTutor.getPolicyLog.invalidate({ roomId });
+  });
+
+  useSessionEvent(SESSION_EVENTS.exercise, () => {
+    utils.shadowTutor.getPolicy.invalidate({ participantToken });
+  });
+
+  const onChanged = () => {
+    utils.room.getBySlug.invalidate();
+    utils.session.getActive.invalidate({ roomId });
+    utils.shadowTutor.getPolicy.invalidate({ participantToken });
+    utils.shadowTutor.getPolicyLog.invalidate({ roomId });
+    toast.success("Modo do Shadow Tutor atualizado");
+  };
+
+  const setRoomPolicyMutation = trpc.room.setTutorPolicy.useMutation({
+    onSuccess: onChanged,
+    onError: (error) => {
+      toast.error(error.message || "Erro ao alterar o modo do Shadow Tutor");
+    },
+  });
+
+  const setSessionPolicyMutation = trpc.session.setTutorPolicy.useMutation({
+    onSuccess: onChanged,
+    onError: (error) => {
+      toast.error(error.message || "Erro ao alterar o modo do Shadow Tutor");
+    },
+  });
+
+  return (
+    <Card className="h-full flex flex-col overflow-hidden">
+      <CardHeader className="py-3 px-4 shrink-0 border-b bg-card">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Brain className="h-4 w-4 text-primary" />
+          Shadow Tutor
+          {effective && (
+            <Badge variant={effective.policy === "off" ? "destructive" : "secondary"} className="ml-auto gap-1">
+              {effective.locked && <Lock className="h-3 w-3" />}
+              {TUTOR_POLICY_LABELS[effective.policy]}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="flex-1 flex flex-col gap-4 p-4 overflow-hidden">
+        <div className="space-y-2">
+          <Label>Padrão da sala</Label>
+          <Select
+            value={roomPolicy}
+            onValueChange={(value) => setRoomPolicyMutation.mutate({ roomId, policy: value as TutorPolicy })}
+            disabled={setRoomPolicyMutation.isPending}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TUTOR_POLICIES.map(policy => (
+                <SelectItem key={policy} value={policy}>{TUTOR_POLICY_LABELS[policy]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Nesta aula</Label>
+          <Select
+            value={sessionPolicy ?? ROOM_DEFAULT}
+            onValueChange={(value) => setSessionPolicyMutation.mutate({
+              sessionId,
+              policy: value === ROOM_DEFAULT ? null : value as TutorPolicy,
+            })}
+            disabled={setSessionPolicyMutation.isPending}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ROOM_DEFAULT}>Usar o padrão da sala</SelectItem>
+              {TUTOR_POLICIES.map(policy => (
+                <SelectItem key={policy} value={policy}>{TUTOR_POLICY_LABELS[policy]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {effective?.locked && (
+            <p className="text-xs text-muted-foreground">
+              Há um exercício ativo: o tutor fica em "Apenas dicas" até o fim da rodada.
+            </p>
+          )}
+        </div>
+
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowQuestions(true)}>
+          <MessagesSquare className="h-4 w-4" />
+          Perguntas dos alunos
+        </Button>
+
+        <div className="flex-1 flex flex-col min-h-0">
+          <Label className="mb-2">Histórico</Label>
+          <ScrollArea className="flex-1 min-h-0">
+            {!log || log.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-4">Nenhum registro ainda</p>
+            ) : (
+              <div className="space-y-2 pr-3">
+                {log.map(entry => (
+                  <div key={entry.id} className="text-xs border rounded-md p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={entry.event === "blocked" ? "font-medium text-destructive" : "font-medium"}>
+                        {EVENT_LABELS[entry.event]}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground flex items-center gap-1">
+                      {entry.locked && <Lock className="h-3 w-3" />}
+                      {TUTOR_POLICY_LABELS[entry.policy]}
+                      {entry.participantName && ` · ${entry.participantName}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </CardContent>
+
+      <TutorQuestionsDialog
+        sessionId={showQuestions ? sessionId : null}
+        sessionTitle="Aula em andamento"
+        isLive
+        onOpenChange={setShowQuestions}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Layers, Loader2, MessageCircle, MessagesSquare, Sparkles, Trophy } from "lucide-react";
+
+interface TutorQuestionsDialogProps {
+  sessionId: number | null;
+  sessionTitle: string;
+  // Promoting questions only makes sense while the session is running
+  isLive: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface QuestionItem {
+  id: number;
+  content: string;
+  createdAt: Date;
+  answerId: number | null;
+}
+
+// Clusters shown as the most frequent confusions
+const HIGHLIGHTED_CLUSTERS = 3;
+
+/** The lesson context the tutor was given for an answer, loaded when opened. */
+function AnswerContext({ answerId }: { answerId: number }) {
+  const [open, setOpen] = useState(false);
+  const { data: context, isLoading } = trpc.shadowTutor.getAnswerContext.useQuery(
+    { messageId: answerId },
+    { enabled: open }
+  );
+
+  return (
+    <details className="text-xs text-muted-foreground" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary className="cursor-pointer flex items-center gap-1">
+        <Layers className="h-3 w-3" />
+        Contexto usado na resposta
+      </summary>
+      {isLoading && open ? (
+        <Loader2 className="h-3 w-3 animate-spin mt-1" />
+      ) : context && context.length > 0 ? (
+        <div className="mt-1 space-y-2">
+          {context.map((section, index) => (
+            <div key={index}>
+              <p className="font-medium">
+                {section.label}
+                {section.truncated && " (trecho)"}
+              </p>
+              <p className="whitespace-pre-wrap line-clamp-6">{section.content}</p>
+            </div>
+          ))}
+        </div>
+      ) : context && (
+        <p className="mt-1">Sem contexto da aula</p>
+      )}
+    </details>
+  );
+}
+
+export function TutorQuestionsDialog({ sessionId, sessionTitle, isLive, onOpenChange }: TutorQuestionsDialogProps) {
+  const [exerciseFrom, setExerciseFrom] = useState<number | null>(null);
+  const [correctAnswer, setCorrectAnswer] = useState("");
+  const [points, setPoints] = useState(10);
+
+  const { data: students, isLoading } = trpc.shadowTutor.getSessionQuestions.useQuery(
+    { sessionId: sessionId ?? 0 },
+    { enabled: sessionId !== null }
+  );
+
+  const clusterMutation = trpc.shadowTutor.clusterSessionQuestions.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Erro ao agrupar as perguntas");
+    },
+  });
+
+  const promoteToChatMutation = trpc.shadowTutor.promoteQuestionToChat.useMutation({
+    onSuccess: () => {
+      toast.success("Pergunta enviada ao chat da aula");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao enviar a pergunta ao chat");
+    },
+  });
+
+  const createExerciseMutation = trpc.exercise.create.useMutation({
+    onSuccess: () => {
+      toast.success("Exercício criado!");
+      setExerciseFrom(null);
+      setCorrectAnswer("");
+      setPoints(10);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao criar exercício");
+    },
+  });
+
+  const questionsById = useMemo(() => {
+    const map = new Map<number, QuestionItem>();
+    students?.forEach(student => student.questions.forEach(question => map.set(question.id, question)));
+    return map;
+  }, [students]);
+
+  const handleCreateExercise = (question: QuestionItem) => {
+    if (sessionId === null || !correctAnswer.trim()) return;
+    createExerciseMutation.mutate({
+      sessionId,
+      question: question.content,
+      correctAnswer: correctAnswer.trim(),
+      points,
+    });
+  };
+
+  const renderQuestion = (question: QuestionItem) => (
+    <div key={question.id} className="rounded-md border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm whitespace-pre-wrap">{question.content}</p>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {new Date(question.createdAt).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      </div>
+
+      {question.answerId !== null && <AnswerContext answerId={question.answerId} />}
+
+      {isLive && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 h-7 text-xs"
+            onClick={() => promoteToChatMutation.mutate({ messageId: question.id })}
+            disabled={promoteToChatMutation.isPending}
+          >
+            <MessageCircle className="h-3 w-3" />
+            Enviar ao chat
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 h-7 text-xs"
+            onClick={() => setExerciseFrom(exerciseFrom === question.id ? null : question.id)}
+          >
+            <Trophy className="h-3 w-3" />
+            Criar exercício
+          </Button>
+        </div>
+      )}
+
+      {exerciseFrom === question.id && (
+        <div className="flex gap-2">
+          <Input
+            value={correctAnswer}
+            onChange={(e) => setCorrectAnswer(e.target.value)}
+            placeholder="Resposta correta"
+            className="h-8 text-sm"
+          />
+          <Input
+            type="number"
+            min={1}
+            value={points}
+            onChange={(e) => setPoints(Number(e.target.value) || 10)}
+            className="h-8 w-20 text-sm"
+            title="Pontos"
+          />
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={() => handleCreateExercise(question)}
+            disabled={!correctAnswer.trim() || createExerciseMutation.isPending}
+          >
+            {createExerciseMutation.isPending && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            Enviar Desafio
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessagesSquare className="h-5 w-5" />
+            Perguntas ao Shadow Tutor
+          </DialogTitle>
+          <DialogDescription>{sessionTitle}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !students || students.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            Nenhum aluno fez perguntas ao Shadow Tutor nesta aula.
+          </p>
+        ) : (
+          <Tabs defaultValue="students">
+            <TabsList>
+              <TabsTrigger value="students">Por aluno</TabsTrigger>
+              <TabsTrigger value="topics">Por tópico</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="students">
+              <ScrollArea className="h-[55vh] pr-4">
+                <div className="space-y-4">
+                  {students.map(student => (
+                    <div key={student.participantId} className="space-y-2">
+                      <p className="font-medium text-sm">
+                        {student.studentName}
+                        <span className="text-muted-foreground font-normal"> · {student.questions.length} pergunta(s)</span>
+                      </p>
+                      {student.questions.map(renderQuestion)}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="topics">
+              <div className="flex justify-end mb-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => sessionId !== null && clusterMutation.mutate({ sessionId })}
+                  disabled={clusterMutation.isPending}
+                >
+                  {clusterMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                  {clusterMutation.data ? "Agrupar novamente" : "Agrupar por tópico"}
+                </Button>
+              </div>
+              <ScrollArea className="h-[50vh] pr-4">
+                {!clusterMutation.data ? (
+                  <p className="text-sm text-muted-foreground text-center py-12">
+                    Agrupe as perguntas para ver as dúvidas mais frequentes da turma.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {clusterMutation.data.map((cluster, index) => (
+                      <div key={cluster.topic} className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-sm">{cluster.topic}</p>
+                          <Badge variant="secondary">{cluster.questionIds.length}</Badge>
+                          {index < HIGHLIGHTED_CLUSTERS && cluster.questionIds.length > 1 && <Badge variant="destructive">Dúvida frequente</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{cluster.confusion}</p>
+                        {cluster.questionIds
+                          .map(id => questionsById.get(id))
+                          .filter((question): question is QuestionItem => !!question)
+                          .map(renderQuestion)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
 import { 
   Video, 
   VideoOff, 
@@ -63,11 +65,15 @@ export function VideoConference({
     { sessionId: sessionId || 0 },
     { 
       enabled: !!sessionId,
-      refetchInterval: 3000,
+      refetchInterval: usePollingFallback(3000),
       staleTime: 2000,
     }
   );
 
+  useSessionEvent(SESSION_EVENTS.participants, () => {
+    refetchParticipants();
+  });
+
   // Filter out current participant and deduplicate by id
   const otherParticipants: RemoteParticipant[] = (() => {
     if (!participants) return [];
@@ -24,7 +24,7 @@ interface WebRTCVideoConferenceProps {
   roomSlug: string;
   sessionId: number | null;
   isHost: boolean;
-  oderId: number;
+  participantToken: string | null;
   odername: string;
   isMuted: boolean;
   isVideoOff: boolean;
@@ -69,7 +69,7 @@ export function WebRTCVideoConference({
   roomSlug,
   sessionId,
   isHost,
-  oderId,
+  participantToken,
   odername,
   isMuted,
   isVideoOff,
@@ -163,7 +163,7 @@ export function WebRTCVideoConference({
 
   // Initialize socket connection
   useEffect(() => {
-    if (!sessionId) return;
+    if (!sessionId || !participantToken) return;
 
     setIsConnecting(true);
     setError(null);
@@ -182,16 +182,18 @@ export function WebRTCVideoConference({
       const stream = await initLocalStream();
       if (!stream) return;
 
-      // Join the room
+      // Join the room (the server derives our identity and role from the token)
       socketInstance.emit("join-room", {
         roomSlug,
-        sessionId,
-        oderId,
-        odername,
-        isHost,
+        participantToken,
       });
     });
 
+    socketInstance.on("join-error", (data: { message: string }) => {
+      console.error("[WebRTC] Join rejected:", data.message);
+      setError("Não foi possível entrar na videoconferência");
+    });
+
     socketInstance.on("disconnect", () => {
       console.log("[WebRTC] Socket disconnected");
       setIsConnected(false);
@@ -346,7 +348,7 @@ export function WebRTCVideoConference({
       });
       peersRef.current.clear();
     };
-  }, [sessionId, roomSlug, oderId, odername, isHost, initLocalStream, createPeerConnection]);
+  }, [sessionId, roomSlug, participantToken, initLocalStream, createPeerConnection]);
 
   // Initiate call to a peer
   const initiateCall = async (
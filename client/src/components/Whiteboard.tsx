@@ -0,0 +1,613 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import "katex/dist/katex.min.css";
+import katex from "katex";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { usePollingFallback, useRealtime, useSessionEvent } from "@/contexts/RealtimeContext";
+import { SEND_BOARD_DRAFT, SESSION_EVENTS } from "@shared/realtime";
+import {
+  BOARD_COLORS,
+  BOARD_HEIGHT,
+  BOARD_TOOL_LABELS,
+  BOARD_WIDTH,
+  boardStrokeHit,
+  ellipsePath,
+  LATEX_STAMPS,
+  MAX_BOARD_PAGES,
+  MAX_STROKE_POINTS,
+  type BoardDraft,
+  type BoardPoint,
+  type BoardStrokeData,
+  type BoardTool,
+} from "@shared/board";
+import { toast } from "sonner";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Circle,
+  Eraser,
+  Highlighter,
+  Lock,
+  Minus,
+  MoveUpRight,
+  Pencil,
+  Plus,
+  Presentation,
+  Sigma,
+  Square,
+  Trash2,
+  Type,
+  Undo2,
+  Users,
+} from "lucide-react";
+
+interface WhiteboardProps {
+  sessionId: number;
+  isHost: boolean;
+  participantId: number | null;
+  participantToken: string | null;
+}
+
+type Tool = BoardTool | "eraser";
+
+type Stroke = { tool: BoardTool; data: BoardStrokeData };
+
+const TOOL_ICONS: Record<Tool, typeof Pencil> = {
+  pen: Pencil,
+  highlighter: Highlighter,
+  line: Minus,
+  arrow: MoveUpRight,
+  rectangle: Square,
+  ellipse: Circle,
+  text: Type,
+  latex: Sigma,
+  eraser: Eraser,
+};
+
+const TOOLS: Tool[] = ["pen", "highlighter", "line", "arrow", "rectangle", "ellipse", "text", "latex", "eraser"];
+
+const WIDTHS = [3, 6, 12];
+// Text and formulas use the width as font size
+const TEXT_SIZES = [24, 36, 56];
+const ERASER_RADIUS = 12;
+
+// Strokes in progress are relayed at most this often
+const DRAFT_INTERVAL = 50;
+
+// Skip pen points closer than this to the previous one, in board units
+const MIN_POINT_DISTANCE = 2;
+
+function drawStroke(ctx: CanvasRenderingContext2D, { tool, data }: Stroke) {
+  const { color, width, points } = data;
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = tool === "highlighter" ? width * 3 : width;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  if (tool === "highlighter") ctx.globalAlpha = 0.35;
+
+  const path = (line: BoardPoint[]) => {
+    ctx.beginPath();
+    ctx.moveTo(line[0][0], line[0][1]);
+    // A single click still leaves a dot
+    if (line.length === 1) ctx.lineTo(line[0][0] + 0.1, line[0][1]);
+    line.slice(1).forEach(([x, y]) => ctx.lineTo(x, y));
+    ctx.stroke();
+  };
+
+  switch (tool) {
+    case "pen":
+    case "highlighter":
+    case "line":
+      path(points);
+      break;
+    case "arrow": {
+      const [[ax, ay], [bx, by]] = points;
+      const angle = Math.atan2(by - ay, bx - ax);
+      const head = Math.max(12, width * 3);
+      path(points);
+      path([
+        [bx - head * Math.cos(angle - 0.45), by - head * Math.sin(angle - 0.45)],
+        [bx, by],
+        [bx - head * Math.cos(angle + 0.45), by - head * Math.sin(angle + 0.45)],
+      ]);
+      break;
+    }
+    case "rectangle": {
+      const [[ax, ay], [bx, by]] = points;
+      path([[ax, ay], [bx, ay], [bx, by], [ax, by], [ax, ay]]);
+      break;
+    }
+    case "ellipse":
+      path(ellipsePath(points[0], points[1]));
+      break;
+    case "text":
+      ctx.font = `${width}px sans-serif`;
+      ctx.textBaseline = "top";
+      ctx.fillText(data.text ?? "", points[0][0], points[0][1]);
+      break;
+    case "latex":
+      // Drawn as HTML over the canvas
+      break;
+  }
+  ctx.restore();
+}
+
+export function Whiteboard({ sessionId, isHost, participantId, participantToken }: WhiteboardProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const utils = trpc.useUtils();
+  const { socket } = useRealtime();
+
+  const [tool, setTool] = useState<Tool>("pen");
+  const [color, setColor] = useState(BOARD_COLORS[0]);
+  const [widthIndex, setWidthIndex] = useState(0);
+  const [text, setText] = useState("");
+  const [latex, setLatex] = useState(LATEX_STAMPS[0]);
+  // Stroke under the pointer, and finished ones waiting for the server
+  const [current, setCurrent] = useState<Stroke | null>(null);
+  const [pending, setPending] = useState<Stroke[]>([]);
+  const [erasing, setErasing] = useState<Set<number>>(new Set());
+  const [drafts, setDrafts] = useState<Map<number, BoardDraft>>(new Map());
+  const [scale, setScale] = useState(1);
+  const drawing = useRef(false);
+  const lastDraftAt = useRef(0);
+
+  const { data: board } = trpc.board.get.useQuery(
+    { sessionId },
+    { refetchInterval: usePollingFallback(3000) }
+  );
+
+  const { data: participants } = trpc.session.getParticipants.useQuery(
+    { sessionId },
+    { enabled: isHost }
+  );
+
+  useSessionEvent(SESSION_EVENTS.board, () => {
+    utils.board.get.invalidate({ sessionId });
+  });
+
+  useSessionEvent(SESSION_EVENTS.boardStroke, (stroke) => {
+    utils.board.get.setData({ sessionId }, prev =>
+      prev && !prev.strokes.some(existing => existing.id === stroke.id)
+        ? { ...prev, strokes: [...prev.strokes, stroke] }
+        : prev
+    );
+    setDrafts(prev => {
+      if (!prev.has(stroke.participantId)) return prev;
+      const next = new Map(prev);
+      next.delete(stroke.participantId);
+      return next;
+    });
+  });
+
+  useSessionEvent(SESSION_EVENTS.boardErase, ({ ids }) => {
+    utils.board.get.setData({ sessionId }, prev =>
+      prev ? { ...prev, strokes: prev.strokes.filter(stroke => !ids.includes(stroke.id)) } : prev
+    );
+  });
+
+  useSessionEvent(SESSION_EVENTS.boardDraft, (draft) => {
+    setDrafts(prev => {
+      const next = new Map(prev);
+      if (draft.data) next.set(draft.participantId, draft);
+      else next.delete(draft.participantId);
+      return next;
+    });
+  });
+
+  const addStrokeMutation = trpc.board.addStroke.useMutation({
+    onSuccess: (stroke, { tool, data }) => {
+      if (stroke) {
+        utils.board.get.setData({ sessionId }, prev =>
+          prev && !prev.strokes.some(existing => existing.id === stroke.id)
+            ? { ...prev, strokes: [...prev.strokes, stroke] }
+            : prev
+        );
+      }
+      setPending(prev => prev.filter(item => item.tool !== tool || item.data !== data));
+    },
+    onError: (error, { page, tool, data }) => {
+      setPending(prev => prev.filter(item => item.tool !== tool || item.data !== data));
+      socket?.emit(SEND_BOARD_DRAFT, { page, tool, data: null });
+      toast.error(error.message || "Erro ao salvar o traço");
+    },
+  });
+
+  const eraseMutation = trpc.board.erase.useMutation({
+    onSuccess: (_, { ids }) => {
+      utils.board.get.setData({ sessionId }, prev =>
+        prev ? { ...prev, strokes: prev.strokes.filter(stroke => !ids.includes(stroke.id)) } : prev
+      );
+    },
+    onSettled: () => setErasing(new Set()),
+    onError: (error) => {
+      toast.error(error.message || "Erro ao apagar");
+    },
+  });
+
+  const setPageMutation = trpc.board.setPage.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Erro ao trocar de página");
+    },
+  });
+
+  const clearPageMutation = trpc.board.clearPage.useMutation({
+    onSuccess: () => {
+      toast.success("Página limpa");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao limpar a página");
+    },
+  });
+
+  const setDrawersMutation = trpc.board.setDrawers.useMutation({
+    onSuccess: () => {
+      utils.board.get.invalidate({ sessionId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao alterar as permissões");
+    },
+  });
+
+  const page = board?.currentPage ?? 1;
+  const pageCount = board?.pageCount ?? 1;
+  const canDraw = !!participantToken && (isHost || (participantId !== null && !!board?.drawers.includes(participantId)));
+  const isTextTool = tool === "text" || tool === "latex";
+  const width = isTextTool ? TEXT_SIZES[widthIndex] : WIDTHS[widthIndex];
+
+  const pageStrokes = useMemo(
+    () => (board?.strokes ?? [])
+      .filter(stroke => stroke.page === page && !erasing.has(stroke.id))
+      .map(stroke => ({ ...stroke, data: JSON.parse(stroke.data) as BoardStrokeData })),
+    [board?.strokes, page, erasing]
+  );
+
+  // Redraw everything: the board is small enough that incremental drawing is not worth it
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+    pageStrokes.forEach(stroke => drawStroke(ctx, stroke));
+    drafts.forEach(draft => {
+      if (draft.page === page && draft.data) drawStroke(ctx, { tool: draft.tool, data: draft.data });
+    });
+    pending.forEach(stroke => drawStroke(ctx, stroke));
+    if (current) drawStroke(ctx, current);
+  }, [pageStrokes, drafts, pending, current, page]);
+
+  // Formulas are positioned in board units, so they follow the size of the canvas
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setScale(entry.contentRect.width / BOARD_WIDTH));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const sendDraft = useCallback((stroke: Stroke | null, force = false) => {
+    const now = Date.now();
+    if (!socket || (!force && now - lastDraftAt.current < DRAFT_INTERVAL)) return;
+    lastDraftAt.current = now;
+    socket.emit(SEND_BOARD_DRAFT, { page, tool: stroke?.tool ?? "pen", data: stroke?.data ?? null });
+  }, [socket, page]);
+
+  const commit = (stroke: Stroke) => {
+    if (!participantToken) return;
+    setPending(prev => [...prev, stroke]);
+    addStrokeMutation.mutate({ participantToken, page, tool: stroke.tool, data: stroke.data });
+  };
+
+  const toBoard = (e: React.PointerEvent<HTMLCanvasElement>): BoardPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number, max: number) => Math.round(Math.min(max, Math.max(0, value)));
+    return [
+      clamp(((e.clientX - rect.left) / rect.width) * BOARD_WIDTH, BOARD_WIDTH),
+      clamp(((e.clientY - rect.top) / rect.height) * BOARD_HEIGHT, BOARD_HEIGHT),
+    ];
+  };
+
+  const eraseAt = (point: BoardPoint) => {
+    const hits = pageStrokes.filter(stroke => boardStrokeHit(stroke.tool, stroke.data, point, ERASER_RADIUS));
+    if (hits.length > 0) setErasing(prev => new Set([...Array.from(prev), ...hits.map(stroke => stroke.id)]));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canDraw) return;
+    const point = toBoard(e);
+
+    if (isTextTool) {
+      const content = tool === "text" ? text.trim() : latex.trim();
+      if (!content) {
+        toast.error(tool === "text" ? "Digite o texto antes de clicar no quadro" : "Escolha uma fórmula");
+        return;
+      }
+      commit({ tool, data: { color, width, points: [point], text: content } });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    if (tool === "eraser") {
+      eraseAt(point);
+      return;
+    }
+    const points: BoardPoint[] = tool === "pen" || tool === "highlighter" ? [point] : [point, point];
+    setCurrent({ tool, data: { color, width, points } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const point = toBoard(e);
+
+    if (tool === "eraser") {
+      eraseAt(point);
+      return;
+    }
+    if (!current) return;
+
+    const { points } = current.data;
+    let next: Stroke;
+    if (current.tool === "pen" || current.tool === "highlighter") {
+      const last = points[points.length - 1];
+      if (Math.hypot(point[0] - last[0], point[1] - last[1]) < MIN_POINT_DISTANCE) return;
+      // Long strokes are saved in pieces
+      if (points.length >= MAX_STROKE_POINTS) {
+        commit(current);
+        next = { ...current, data: { ...current.data, points: [last, point] } };
+      } else {
+        next = { ...current, data: { ...current.data, points: [...points, point] } };
+      }
+    } else {
+      next = { ...current, data: { ...current.data, points: [points[0], point] } };
+    }
+    setCurrent(next);
+    sendDraft(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+
+    if (tool === "eraser") {
+      if (erasing.size > 0 && participantToken) {
+        eraseMutation.mutate({ participantToken, ids: Array.from(erasing) });
+      }
+      return;
+    }
+    if (current) {
+      sendDraft(current, true);
+      commit(current);
+      setCurrent(null);
+    }
+  };
+
+  const handleUndo = () => {
+    const own = pageStrokes.filter(stroke => stroke.participantId === participantId);
+    const last = own[own.length - 1];
+    if (last && participantToken) eraseMutation.mutate({ participantToken, ids: [last.id] });
+  };
+
+  const toggleDrawer = (id: number, allowed: boolean) => {
+    const drawers = board?.drawers ?? [];
+    setDrawersMutation.mutate({
+      sessionId,
+      participantIds: allowed ? [...drawers, id] : drawers.filter(drawer => drawer !== id),
+    });
+  };
+
+  const students = (participants ?? []).filter(participant => participant.role !== "teacher");
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="pb-2 shrink-0 border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Presentation className="h-4 w-4 text-primary" />
+            Quadro
+          </CardTitle>
+
+          <div className="flex items-center gap-1">
+            {isHost && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setPageMutation.mutate({ sessionId, page: page - 1 })}
+                disabled={page <= 1}
+                title="Página anterior"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground">Página {page} de {pageCount}</span>
+            {isHost && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setPageMutation.mutate({ sessionId, page: page + 1 })}
+                disabled={page >= MAX_BOARD_PAGES}
+                title={page < pageCount ? "Próxima página" : "Nova página"}
+              >
+                {page < pageCount ? <ChevronRight className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            )}
+
+            {isHost && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-7 text-xs gap-1 ml-2">
+                    <Users className="h-3 w-3" />
+                    Quem desenha
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64">
+                  <p className="text-xs text-muted-foreground mb-2">O professor sempre pode desenhar.</p>
+                  {students.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Nenhum aluno na aula</p>
+                  ) : (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {students.map(student => (
+                        <div key={student.id} className="flex items-center justify-between gap-2">
+                          <Label htmlFor={`drawer-${student.id}`} className="text-sm font-normal truncate">
+                            {student.visibleName || student.guestName || "Anônimo"}
+                          </Label>
+                          <Switch
+                            id={`drawer-${student.id}`}
+                            checked={!!board?.drawers.includes(student.id)}
+                            onCheckedChange={(checked) => toggleDrawer(student.id, checked)}
+                            disabled={setDrawersMutation.isPending}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex-1 flex flex-col gap-2 p-4 overflow-hidden">
+        {canDraw ? (
+          <div className="flex flex-wrap items-center gap-1 shrink-0">
+            {TOOLS.map(item => {
+              const Icon = TOOL_ICONS[item];
+              return (
+                <Button
+                  key={item}
+                  variant={tool === item ? "default" : "outline"}
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setTool(item)}
+                  title={item === "eraser" ? "Borracha" : BOARD_TOOL_LABELS[item]}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              );
+            })}
+
+            <div className="flex items-center gap-1 mx-2">
+              {BOARD_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  className={`h-6 w-6 rounded-full border ${color === option ? "ring-2 ring-primary ring-offset-1" : ""}`}
+                  style={{ backgroundColor: option }}
+                  onClick={() => setColor(option)}
+                  title={option}
+                />
+              ))}
+            </div>
+
+            <Select value={String(widthIndex)} onValueChange={(v) => setWidthIndex(Number(v))}>
+              <SelectTrigger className="h-8 w-24 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {["Fino", "Médio", "Grosso"].map((label, index) => (
+                  <SelectItem key={label} value={String(index)}>{isTextTool ? ["Pequeno", "Médio", "Grande"][index] : label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {tool === "text" && (
+              <Input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Digite e clique no quadro"
+                className="h-8 w-48 text-xs"
+              />
+            )}
+            {tool === "latex" && (
+              <>
+                <Select value={LATEX_STAMPS.includes(latex) ? latex : ""} onValueChange={setLatex}>
+                  <SelectTrigger className="h-8 w-28 text-xs">
+                    <SelectValue placeholder="Modelos" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LATEX_STAMPS.map(stamp => (
+                      <SelectItem key={stamp} value={stamp}>
+                        <span dangerouslySetInnerHTML={{ __html: katex.renderToString(stamp, { throwOnError: false }) }} />
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={latex}
+                  onChange={(e) => setLatex(e.target.value)}
+                  className="h-8 w-48 text-xs font-mono"
+                />
+              </>
+            )}
+
+            <div className="ml-auto flex gap-1">
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleUndo} title="Desfazer meu último traço">
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              {isHost && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => {
+                    if (confirm("Apagar tudo desta página?")) clearPageMutation.mutate({ sessionId, page });
+                  }}
+                  title="Limpar página"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
+            <Lock className="h-3 w-3" />
+            Só o professor e os alunos liberados por ele podem desenhar
+          </p>
+        )}
+
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          <div ref={containerRef} className="relative w-full max-h-full aspect-video border rounded-lg overflow-hidden bg-white">
+            <canvas
+              ref={canvasRef}
+              width={BOARD_WIDTH}
+              height={BOARD_HEIGHT}
+              className={`w-full h-full touch-none ${canDraw ? "cursor-crosshair" : ""}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {[
+              ...pageStrokes.map(stroke => ({ key: String(stroke.id), stroke })),
+              ...pending.map((stroke, index) => ({ key: `pending-${index}`, stroke })),
+            ].filter(({ stroke }) => stroke.tool === "latex").map(({ key, stroke }) => (
+              <div
+                key={key}
+                className="absolute pointer-events-none"
+                style={{
+                  left: stroke.data.points[0][0] * scale,
+                  top: stroke.data.points[0][1] * scale,
+                  color: stroke.data.color,
+                  fontSize: stroke.data.width * scale,
+                }}
+                dangerouslySetInnerHTML={{ __html: katex.renderToString(stroke.data.text ?? "", { throwOnError: false }) }}
+              />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { io, Socket } from "socket.io-client";
+import {
+  SUBSCRIBE_ERROR,
+  SUBSCRIBE_SESSION,
+  SUBSCRIBED,
+  type SessionEventName,
+  type SessionEventPayloads,
+} from "@shared/realtime";
+
+interface RealtimeContextType {
+  socket: Socket | null;
+  // Subscribed to the session: its events are arriving
+  isConnected: boolean;
+}
+
+// Outside a provider there is no socket, so consumers fall back to polling
+const RealtimeContext = createContext<RealtimeContextType>({
+  socket: null,
+  isConnected: false,
+});
+
+/**
+ * Open one realtime connection for a session and subscribe to its events.
+ * The participant token from `session.join` decides which session that is.
+ * The subscription is re-sent on every (re)connect, and the connection
+ * only counts once the server accepts it; a refused token keeps polling on.
+ */
+export function useRealtimeConnection(participantToken: string | null): RealtimeContextType {
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!participantToken) return;
+
+    const socketInstance = io({
+      path: "/api/webrtc",
+      transports: ["websocket", "polling"],
+    });
+
+    socketInstance.on("connect", () => {
+      socketInstance.emit(SUBSCRIBE_SESSION, { participantToken });
+    });
+
+    socketInstance.on(SUBSCRIBED, () => {
+      setIsConnected(true);
+    });
+
+    socketInstance.on(SUBSCRIBE_ERROR, () => {
+      setIsConnected(false);
+    });
+
+    socketInstance.on("disconnect", () => {
+      setIsConnected(false);
+    });
+
+    setSocket(socketInstance);
+
+    return () => {
+      socketInstance.disconnect();
+      setSocket(null);
+      setIsConnected(false);
+    };
+  }, [participantToken]);
+
+  return { socket, isConnected };
+}
+
+interface RealtimeProviderProps {
+  value: RealtimeContextType;
+  children: React.ReactNode;
+}
+
+export function RealtimeProvider({ value, children }: RealtimeProviderProps) {
+  return (
+    <RealtimeContext.Provider value={value}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  return useContext(RealtimeContext);
+}
+
+/**
+ * Polling interval to use for a query that is also kept fresh by realtime
+ * events: disabled while the socket is up, `intervalMs` while it is down.
+ */
+export function usePollingFallback(intervalMs: number): number | false {
+  const { isConnected } = useRealtime();
+  return isConnected ? false : intervalMs;
+}
+
+export function useSocketEvent<E extends SessionEventName>(
+  socket: Socket | null,
+  event: E,
+  handler: (payload: SessionEventPayloads[E]) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const eventName: string = event;
+    const listener = (payload: SessionEventPayloads[E]) => handlerRef.current(payload);
+    socket.on(eventName, listener);
+    return () => {
+      socket.off(eventName, listener);
+    };
+  }, [socket, event]);
+}
+
+export function useSessionEvent<E extends SessionEventName>(
+  event: E,
+  handler: (payload: SessionEventPayloads[E]) => void
+) {
+  const { socket } = useRealtime();
+  useSocketEvent(socket, event, handler);
+}
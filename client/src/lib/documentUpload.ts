@@ -0,0 +1,65 @@
+import type { Document } from "@shared/types";
+import { MAX_DOCUMENT_UPLOAD_BYTES, MAX_IMAGE_PAGES } from "@shared/documentFormats";
+
+export type DocumentUploadResult = {
+  document: Document;
+  // The room already had a document uploaded from the same files
+  duplicate: boolean;
+};
+
+/** The largest upload, in bytes, for an account role. */
+export function maxDocumentUploadSize(role: string | undefined): number {
+  return role === "admin" ? MAX_DOCUMENT_UPLOAD_BYTES.admin : MAX_DOCUMENT_UPLOAD_BYTES.user;
+}
+
+/**
+ * Why `files` cannot be uploaded together, or null. Only the obvious is
+ * checked here: the server recognizes what each file really is.
+ */
+export function checkDocumentFiles(files: File[], maxSize: number): string | null {
+  if (files.length > MAX_IMAGE_PAGES) {
+    return `Envie no máximo ${MAX_IMAGE_PAGES} imagens de uma vez`;
+  }
+  if (files.length > 1 && !files.every(file => file.type.startsWith("image/"))) {
+    return "Só imagens podem ser enviadas juntas, como páginas de um PDF";
+  }
+  if (files.reduce((total, file) => total + file.size, 0) > maxSize) {
+    return `Os arquivos devem ter no máximo ${Math.round(maxSize / (1024 * 1024))} MB`;
+  }
+  return null;
+}
+
+/**
+ * Send `files` as one document of the room, streamed as multipart form
+ * data. `onProgress` gets the fraction of the bytes sent so far; fetch
+ * cannot report upload progress, hence XMLHttpRequest.
+ */
+export function uploadDocumentFiles(
+  roomId: number,
+  files: File[],
+  onProgress: (fraction: number) => void
+): Promise<DocumentUploadResult> {
+  const form = new FormData();
+  // Before the files, so the server has it when they arrive
+  form.append("title", files[0].name);
+  for (const file of files) form.append("files", file, file.name);
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", `/api/rooms/${roomId}/documents`);
+    request.withCredentials = true;
+    request.responseType = "json";
+    request.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve(request.response as DocumentUploadResult);
+      } else {
+        reject(new Error(request.response?.error ?? `Falha no upload (${request.status})`));
+      }
+    };
+    request.onerror = () => reject(new Error("Falha de conexão ao enviar o documento"));
+    request.send(form);
+  });
+}
@@ -0,0 +1,76 @@
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+async function readError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error ?? `Falha no upload (${response.status})`);
+}
+
+async function putChunk(recordingId: number, index: number, chunk: Blob) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/chunks/${index}`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunk,
+      });
+      if (response.ok) return;
+      // Client errors will not go away by retrying
+      if (response.status < 500) throw await readError(response);
+      if (attempt >= MAX_ATTEMPTS) throw await readError(response);
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !(error instanceof TypeError)) throw error;
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+  }
+}
+
+/**
+ * Upload MediaRecorder chunks to the server while recording.
+ * Chunks are sent one at a time in order; any that fail are kept and
+ * re-sent by `finish`, which asks the server what it already has before
+ * completing the upload.
+ */
+export function createRecordingUploader(recordingId: number) {
+  const chunks: Blob[] = [];
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    addChunk(chunk: Blob) {
+      const index = chunks.push(chunk) - 1;
+      queue = queue
+        .then(() => putChunk(recordingId, index, chunk))
+        .catch(error => console.warn("[Recording] Chunk upload deferred", index, error));
+    },
+
+    async finish(options: { mimeType: string; duration: number }) {
+      await queue;
+
+      const statusResponse = await fetch(`/api/recordings/${recordingId}/chunks`, {
+        credentials: "include",
+      });
+      if (!statusResponse.ok) throw await readError(statusResponse);
+      const { received } = (await statusResponse.json()) as { received: number[] };
+
+      const receivedSet = new Set(received);
+      for (let index = 0; index < chunks.length; index++) {
+        if (!receivedSet.has(index)) {
+          await putChunk(recordingId, index, chunks[index]);
+        }
+      }
+
+      const response = await fetch(`/api/recordings/${recordingId}/complete`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          totalChunks: chunks.length,
+          mimeType: options.mimeType,
+          duration: options.duration,
+        }),
+      });
+      if (!response.ok) throw await readError(response);
+    },
+  };
+}
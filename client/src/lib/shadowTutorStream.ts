@@ -0,0 +1,51 @@
+async function readError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error ?? `Erro ao enviar mensagem (${response.status})`);
+}
+
+/**
+ * Ask the Shadow Tutor a question and receive the answer as it is written.
+ * `onDelta` is called with each new piece of text; the promise resolves
+ * with the id of the stored answer. Aborting `signal` stops the answer, and
+ * the server keeps what was generated so far.
+ */
+export async function streamTutorAnswer(options: {
+  participantToken: string;
+  message: string;
+  signal?: AbortSignal;
+  onDelta: (text: string) => void;
+}): Promise<{ messageId: number | null }> {
+  const response = await fetch("/api/shadow-tutor/stream", {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ participantToken: options.participantToken, message: options.message }),
+    signal: options.signal,
+  });
+  if (!response.ok || !response.body) throw await readError(response);
+
+  // Server-sent events: "event: <name>" and "data: <json>" lines, blank line between events
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let separator: number;
+    while ((separator = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, separator);
+      buffer = buffer.slice(separator + 2);
+
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? "null");
+
+      if (event === "delta") options.onDelta(data.text);
+      if (event === "error") throw new Error(data.message);
+      if (event === "done") return { messageId: data.messageId };
+    }
+  }
+
+  throw new Error("A resposta foi interrompida");
+}
@@ -9,6 +9,9 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
+import { LessonNotesDialog } from "@/components/LessonNotesDialog";
+import { TutorQuestionsDialog } from "@/components/TutorQuestionsDialog";
+import { QuestionBank } from "@/components/QuestionBank";
 import { getLoginUrl } from "@/const";
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
@@ -28,17 +31,24 @@ import {
   Settings,
   LogOut,
   Loader2,
-  Calendar
+  Calendar,
+  NotebookPen,
+  MessagesSquare,
+  Library
 } from "lucide-react";
 
 export default function Dashboard() {
   const { user, loading: authLoading, isAuthenticated, logout } = useAuth();
   const [, setLocation] = useLocation();
   
+  const [view, setView] = useState<"rooms" | "history" | "bank">("rooms");
+
   // Dialog states
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingRoom, setEditingRoom] = useState<any>(null);
+  const [notesSession, setNotesSession] = useState<{ id: number; title: string } | null>(null);
+  const [questionsSession, setQuestionsSession] = useState<{ id: number; title: string; isLive: boolean } | null>(null);
   
   // Form states
   const [newRoomName, setNewRoomName] = useState("");
@@ -58,6 +68,12 @@ export default function Dashboard() {
     { enabled: isAuthenticated }
   );
 
+  // Fetch past sessions for the history view
+  const { data: history, isLoading: historyLoading } = trpc.session.getMyHistory.useQuery(
+    undefined,
+    { enabled: isAuthenticated && view === "history" }
+  );
+
   // Mutations
   const createRoomMutation = trpc.room.create.useMutation({
     onSuccess: (room) => {
@@ -171,14 +187,29 @@ export default function Dashboard() {
             <Card>
               <CardContent className="p-4">
                 <nav className="space-y-1">
-                  <Button variant="ghost" className="w-full justify-start gap-2">
+                  <Button
+                    variant={view === "rooms" ? "secondary" : "ghost"}
+                    className="w-full justify-start gap-2"
+                    onClick={() => setView("rooms")}
+                  >
                     <LayoutDashboard className="h-4 w-4" />
                     Minhas Salas
                   </Button>
-                  <Button variant="ghost" className="w-full justify-start gap-2" disabled>
+                  <Button
+                    variant={view === "history" ? "secondary" : "ghost"}
+                    className="w-full justify-start gap-2"
+                    onClick={() => setView("history")}
+                  >
                     <History className="h-4 w-4" />
                     Histórico
-                    <Badge variant="outline" className="ml-auto text-xs">Em breve</Badge>
+                  </Button>
+                  <Button
+                    variant={view === "bank" ? "secondary" : "ghost"}
+                    className="w-full justify-start gap-2"
+                    onClick={() => setView("bank")}
+                  >
+                    <Library className="h-4 w-4" />
+                    Banco de Questões
                   </Button>
                   <Button variant="ghost" className="w-full justify-start gap-2" disabled>
                     <Settings className="h-4 w-4" />
@@ -191,180 +222,277 @@ export default function Dashboard() {
           </aside>
 
           {/* Main Content */}
-          <main className="flex-1">
-            <div className="flex items-center justify-between mb-6">
-              <div>
-                <h1 className="text-2xl font-bold">Minhas Salas</h1>
+          {view === "bank" ? (
+            <QuestionBank />
+          ) : view === "history" ? (
+            <main className="flex-1">
+              <div className="mb-6">
+                <h1 className="text-2xl font-bold">Histórico</h1>
                 <p className="text-muted-foreground">
-                  Gerencie suas salas de tutoria de matemática
+                  Aulas anteriores e suas notas
                 </p>
               </div>
-              <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="gap-2">
-                    <Plus className="h-4 w-4" />
-                    Nova Sala
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Criar Nova Sala</DialogTitle>
-                    <DialogDescription>
-                      Configure sua sala de tutoria de matemática
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="room-name">Nome da Sala</Label>
-                      <Input
-                        id="room-name"
-                        placeholder="Ex: Matemática - Turma 3A"
-                        value={newRoomName}
-                        onChange={(e) => setNewRoomName(e.target.value)}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="room-desc">Descrição (opcional)</Label>
-                      <Textarea
-                        id="room-desc"
-                        placeholder="Descreva o conteúdo ou objetivo da sala"
-                        value={newRoomDescription}
-                        onChange={(e) => setNewRoomDescription(e.target.value)}
-                      />
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div className="space-y-0.5">
-                        <Label>Permitir Convidados</Label>
-                        <p className="text-sm text-muted-foreground">
-                          Alunos podem entrar sem fazer login
-                        </p>
-                      </div>
-                      <Switch
-                        checked={allowGuests}
-                        onCheckedChange={setAllowGuests}
-                      />
-                    </div>
-                  </div>
-                  <DialogFooter>
-                    <Button
-                      variant="outline"
-                      onClick={() => setCreateDialogOpen(false)}
-                    >
-                      Cancelar
-                    </Button>
-                    <Button
-                      onClick={handleCreateRoom}
-                      disabled={createRoomMutation.isPending}
-                    >
-                      {createRoomMutation.isPending && (
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      )}
-                      Criar Sala
-                    </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
-            </div>
 
-            {/* Rooms Grid */}
-            {roomsLoading ? (
-              <div className="flex items-center justify-center py-12">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              </div>
-            ) : rooms && rooms.length > 0 ? (
-              <div className="grid md:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-4">
-                {rooms.map((room) => (
-                  <Card key={room.id} className="hover:border-primary/50 transition-colors">
-                    <CardHeader className="pb-2">
-                      <div className="flex items-start justify-between">
-                        <div className="space-y-1">
-                          <CardTitle className="text-lg">{room.name}</CardTitle>
-                          <CardDescription className="line-clamp-2">
-                            {room.description || "Sem descrição"}
-                          </CardDescription>
+              {historyLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : history && history.length > 0 ? (
+                <div className="space-y-3">
+                  {history.map((session) => (
+                    <Card key={session.id}>
+                      <CardContent className="p-4 flex items-center justify-between gap-4">
+                        <div className="space-y-1 min-w-0">
+                          <p className="font-medium truncate">{session.title || "Aula sem título"}</p>
+                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                            <span className="truncate">{session.roomName}</span>
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {new Date(session.startedAt).toLocaleString("pt-BR")}
+                            </span>
+                            {session.duration ? (
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {Math.floor(session.duration / 60)} min
+                              </span>
+                            ) : null}
+                          </div>
                         </div>
-                        <Badge variant={room.isActive ? "default" : "secondary"}>
-                          {room.isActive ? "Ativa" : "Inativa"}
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-1">
-                          <Users className="h-4 w-4" />
-                          <span>{room.allowGuests ? "Convidados permitidos" : "Apenas logados"}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Badge variant={session.status === "active" ? "default" : "secondary"}>
+                            {session.status === "active" ? "Em andamento" : "Encerrada"}
+                          </Badge>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() =>
+                              setQuestionsSession({
+                                id: session.id,
+                                title: session.title || "Aula sem título",
+                                isLive: session.status === "active",
+                              })
+                            }
+                          >
+                            <MessagesSquare className="h-4 w-4" />
+                            Perguntas à IA
+                          </Button>
+                          {session.status === "ended" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() =>
+                                setNotesSession({ id: session.id, title: session.title || "Aula sem título" })
+                              }
+                            >
+                              <NotebookPen className="h-4 w-4" />
+                              Notas da aula
+                            </Button>
+                          )}
                         </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    <History className="h-12 w-12 opacity-50 mx-auto mb-2" />
+                    <p className="text-sm">Nenhuma aula realizada ainda</p>
+                  </CardContent>
+                </Card>
+              )}
+            </main>
+          ) : (
+            <main className="flex-1">
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h1 className="text-2xl font-bold">Minhas Salas</h1>
+                  <p className="text-muted-foreground">
+                    Gerencie suas salas de tutoria de matemática
+                  </p>
+                </div>
+                <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="gap-2">
+                      <Plus className="h-4 w-4" />
+                      Nova Sala
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Criar Nova Sala</DialogTitle>
+                      <DialogDescription>
+                        Configure sua sala de tutoria de matemática
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="room-name">Nome da Sala</Label>
+                        <Input
+                          id="room-name"
+                          placeholder="Ex: Matemática - Turma 3A"
+                          value={newRoomName}
+                          onChange={(e) => setNewRoomName(e.target.value)}
+                        />
                       </div>
-                      <div className="flex items-center gap-2 text-sm">
-                        <code className="flex-1 bg-muted px-2 py-1 rounded text-xs truncate">
-                          /sala/{room.slug}
-                        </code>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => handleCopyLink(room.slug)}
-                        >
-                          <Copy className="h-3 w-3" />
-                        </Button>
+                      <div className="space-y-2">
+                        <Label htmlFor="room-desc">Descrição (opcional)</Label>
+                        <Textarea
+                          id="room-desc"
+                          placeholder="Descreva o conteúdo ou objetivo da sala"
+                          value={newRoomDescription}
+                          onChange={(e) => setNewRoomDescription(e.target.value)}
+                        />
                       </div>
-                      <div className="flex gap-2">
-                        <Button
-                          className="flex-1 gap-2"
-                          onClick={() => setLocation(`/sala/${room.slug}`)}
-                        >
-                          <Video className="h-4 w-4" />
-                          Entrar
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => {
-                            setEditingRoom({ ...room });
-                            setEditDialogOpen(true);
-                          }}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => {
-                            if (confirm("Tem certeza que deseja excluir esta sala?")) {
-                              deleteRoomMutation.mutate({ id: room.id });
-                            }
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label>Permitir Convidados</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Alunos podem entrar sem fazer login
+                          </p>
+                        </div>
+                        <Switch
+                          checked={allowGuests}
+                          onCheckedChange={setAllowGuests}
+                        />
                       </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                    </div>
+                    <DialogFooter>
+                      <Button
+                        variant="outline"
+                        onClick={() => setCreateDialogOpen(false)}
+                      >
+                        Cancelar
+                      </Button>
+                      <Button
+                        onClick={handleCreateRoom}
+                        disabled={createRoomMutation.isPending}
+                      >
+                        {createRoomMutation.isPending && (
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        )}
+                        Criar Sala
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
               </div>
-            ) : (
-              <Card>
-                <CardContent className="py-12">
-                  <div className="text-center space-y-4">
-                    <Video className="h-12 w-12 text-muted-foreground/50 mx-auto" />
-                    <div>
-                      <h3 className="font-semibold">Nenhuma sala criada</h3>
-                      <p className="text-sm text-muted-foreground">
-                        Crie sua primeira sala de tutoria para começar
-                      </p>
+
+              {/* Rooms Grid */}
+              {roomsLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : rooms && rooms.length > 0 ? (
+                <div className="grid md:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {rooms.map((room) => (
+                    <Card key={room.id} className="hover:border-primary/50 transition-colors">
+                      <CardHeader className="pb-2">
+                        <div className="flex items-start justify-between">
+                          <div className="space-y-1">
+                            <CardTitle className="text-lg">{room.name}</CardTitle>
+                            <CardDescription className="line-clamp-2">
+                              {room.description || "Sem descrição"}
+                            </CardDescription>
+                          </div>
+                          <Badge variant={room.isActive ? "default" : "secondary"}>
+                            {room.isActive ? "Ativa" : "Inativa"}
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            <span>{room.allowGuests ? "Convidados permitidos" : "Apenas logados"}</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <code className="flex-1 bg-muted px-2 py-1 rounded text-xs truncate">
+                            /sala/{room.slug}
+                          </code>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleCopyLink(room.slug)}
+                          >
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            className="flex-1 gap-2"
+                            onClick={() => setLocation(`/sala/${room.slug}`)}
+                          >
+                            <Video className="h-4 w-4" />
+                            Entrar
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => {
+                              setEditingRoom({ ...room });
+                              setEditDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => {
+                              if (confirm("Tem certeza que deseja excluir esta sala?")) {
+                                deleteRoomMutation.mutate({ id: room.id });
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card>
+                  <CardContent className="py-12">
+                    <div className="text-center space-y-4">
+                      <Video className="h-12 w-12 text-muted-foreground/50 mx-auto" />
+                      <div>
+                        <h3 className="font-semibold">Nenhuma sala criada</h3>
+                        <p className="text-sm text-muted-foreground">
+                          Crie sua primeira sala de tutoria para começar
+                        </p>
+                      </div>
+                      <Button onClick={() => setCreateDialogOpen(true)} className="gap-2">
+                        <Plus className="h-4 w-4" />
+                        Criar Primeira Sala
+                      </Button>
                     </div>
-                    <Button onClick={() => setCreateDialogOpen(true)} className="gap-2">
-                      <Plus className="h-4 w-4" />
-                      Criar Primeira Sala
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-          </main>
+                  </CardContent>
+                </Card>
+              )}
+            </main>
+          )}
         </div>
       </div>
 
+      <LessonNotesDialog
+        sessionId={notesSession?.id ?? null}
+        sessionTitle={notesSession?.title ?? ""}
+        onOpenChange={(open) => !open && setNotesSession(null)}
+      />
+
+      <TutorQuestionsDialog
+        sessionId={questionsSession?.id ?? null}
+        sessionTitle={questionsSession?.title ?? ""}
+        isLive={questionsSession?.isLive ?? false}
+        onOpenChange={(open) => !open && setQuestionsSession(null)}
+      />
+
       {/* Edit Room Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent>
@@ -29,20 +29,26 @@ import {
   LineChart,
   Trophy,
   PanelLeftClose,
-  PanelLeft
+  PanelLeft,
+  Brain,
+  Presentation
 } from "lucide-react";
 import { ShadowTutor } from "@/components/ShadowTutor";
+import { TutorPolicyPanel } from "@/components/TutorPolicyPanel";
 import { PdfViewer } from "@/components/PdfViewer";
 import { LatexEditor } from "@/components/LatexEditor";
 import { VideoConference } from "@/components/VideoConference";
 import { LiveChat } from "@/components/LiveChat";
 import { InteractiveGraph } from "@/components/InteractiveGraph";
+import { Whiteboard } from "@/components/Whiteboard";
 import { Gamification } from "@/components/Gamification";
 import { SimplePdfViewer } from "@/components/SimplePdfViewer";
 import { WebRTCVideoConference } from "@/components/WebRTCVideoConference";
+import { RealtimeProvider, useRealtimeConnection, useSocketEvent } from "@/contexts/RealtimeContext";
+import { SESSION_EVENTS } from "@shared/realtime";
 
-type MainView = "video" | "pdf" | "latex" | "graph";
-type RightPanel = "chat" | "gamification" | "shadowtutor" | null;
+type MainView = "video" | "pdf" | "latex" | "graph" | "board";
+type RightPanel = "chat" | "gamification" | "shadowtutor" | "tutorpolicy" | null;
 
 export default function Room() {
   const { slug } = useParams<{ slug: string }>();
@@ -53,6 +59,7 @@ export default function Room() {
   const [guestName, setGuestName] = useState("");
   const [showGuestDialog, setShowGuestDialog] = useState(false);
   const [participantId, setParticipantId] = useState<number | null>(null);
+  const [participantToken, setParticipantToken] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<number | null>(null);
   
   // UI state
@@ -78,12 +85,22 @@ export default function Room() {
     { enabled: !!room?.id }
   );
 
-  // Fetch participants
+  // Realtime connection shared by every panel of the room
+  const realtime = useRealtimeConnection(participantToken);
+  const utils = trpc.useUtils();
+
+  // Fetch participants (polling only while the realtime socket is down)
   const { data: participants } = trpc.session.getParticipants.useQuery(
     { sessionId: sessionId || 0 },
-    { enabled: !!sessionId, refetchInterval: 5000 }
+    { enabled: !!sessionId, refetchInterval: realtime.isConnected ? false : 5000 }
   );
 
+  useSocketEvent(realtime.socket, SESSION_EVENTS.participants, () => {
+    if (sessionId) {
+      utils.session.getParticipants.invalidate({ sessionId });
+    }
+  });
+
   // Mutations
   const startSessionMutation = trpc.session.start.useMutation({
     onSuccess: (session) => {
@@ -110,6 +127,7 @@ export default function Room() {
   const joinSessionMutation = trpc.session.join.useMutation({
     onSuccess: (participant) => {
       setParticipantId(participant.id);
+      setParticipantToken(participant.participantToken);
       setShowGuestDialog(false);
       toast.success("Você entrou na sessão!");
     },
@@ -154,8 +172,8 @@ export default function Room() {
 
   // Handle leave
   const handleLeave = () => {
-    if (participantId) {
-      leaveSessionMutation.mutate({ participantId });
+    if (participantToken) {
+      leaveSessionMutation.mutate({ participantToken });
     }
     setLocation("/");
   };
@@ -183,13 +201,6 @@ export default function Room() {
     }
   };
 
-  // Get participant name
-  const getParticipantName = () => {
-    if (user?.name) return user.name;
-    if (guestName) return guestName;
-    return "Participante";
-  };
-
   // Loading state
   if (roomLoading) {
     return (
@@ -251,348 +262,389 @@ export default function Room() {
   }
 
   return (
-    <div className="h-screen flex flex-col bg-background overflow-hidden">
-      {/* Guest Name Dialog */}
-      <Dialog open={showGuestDialog} onOpenChange={setShowGuestDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Entrar na Sala</DialogTitle>
-            <DialogDescription>
-              Digite seu nome para entrar na sessão de tutoria
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="guest-name">Seu Nome</Label>
-              <Input
-                id="guest-name"
-                placeholder="Ex: João Silva"
-                value={guestName}
-                onChange={(e) => setGuestName(e.target.value)}
-                onKeyDown={(e) => e.key === "Enter" && handleGuestJoin()}
-              />
+    <RealtimeProvider value={realtime}>
+      <div className="h-screen flex flex-col bg-background overflow-hidden">
+        {/* Guest Name Dialog */}
+        <Dialog open={showGuestDialog} onOpenChange={setShowGuestDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Entrar na Sala</DialogTitle>
+              <DialogDescription>
+                Digite seu nome para entrar na sessão de tutoria
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="guest-name">Seu Nome</Label>
+                <Input
+                  id="guest-name"
+                  placeholder="Ex: João Silva"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleGuestJoin()}
+                />
+              </div>
             </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setLocation("/")}>
-              Cancelar
-            </Button>
-            <Button onClick={handleGuestJoin} disabled={joinSessionMutation.isPending}>
-              {joinSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
-              Entrar
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setLocation("/")}>
+                Cancelar
+              </Button>
+              <Button onClick={handleGuestJoin} disabled={joinSessionMutation.isPending}>
+                {joinSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Entrar
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Header */}
+        <header className="h-14 border-b bg-card flex items-center justify-between px-4 shrink-0">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSidebarOpen(!sidebarOpen)}
+              className="shrink-0"
+            >
+              {sidebarOpen ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeft className="h-4 w-4" />}
             </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      {/* Header */}
-      <header className="h-14 border-b bg-card flex items-center justify-between px-4 shrink-0">
-        <div className="flex items-center gap-4">
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setSidebarOpen(!sidebarOpen)}
-            className="shrink-0"
-          >
-            {sidebarOpen ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeft className="h-4 w-4" />}
-          </Button>
-          <div className="flex items-center gap-2">
-            <GraduationCap className="h-6 w-6 text-primary" />
-            <span className="font-semibold hidden sm:inline">MathTutor Live</span>
-          </div>
-          <div className="h-6 w-px bg-border hidden sm:block" />
-          <div className="flex flex-col">
-            <span className="font-medium text-sm">{room.name}</span>
-            <span className="text-xs text-muted-foreground">
-              {participants?.length || 0} participante(s)
-            </span>
+            <div className="flex items-center gap-2">
+              <GraduationCap className="h-6 w-6 text-primary" />
+              <span className="font-semibold hidden sm:inline">MathTutor Live</span>
+            </div>
+            <div className="h-6 w-px bg-border hidden sm:block" />
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">{room.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {participants?.length || 0} participante(s)
+              </span>
+            </div>
           </div>
-        </div>
 
-        <div className="flex items-center gap-2">
-          {/* Media Controls */}
-          <Button
-            variant={isMuted ? "destructive" : "outline"}
-            size="icon"
-            onClick={() => setIsMuted(!isMuted)}
-            title={isMuted ? "Ativar microfone" : "Desativar microfone"}
-          >
-            {isMuted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
-          </Button>
-          
-          <Button
-            variant={isVideoOff ? "destructive" : "outline"}
-            size="icon"
-            onClick={() => setIsVideoOff(!isVideoOff)}
-            title={isVideoOff ? "Ativar câmera" : "Desativar câmera"}
-          >
-            {isVideoOff ? <VideoOff className="h-4 w-4" /> : <Video className="h-4 w-4" />}
-          </Button>
-
-          {isHost && (
+          <div className="flex items-center gap-2">
+            {/* Media Controls */}
             <Button
-              variant={isScreenSharing ? "default" : "outline"}
+              variant={isMuted ? "destructive" : "outline"}
               size="icon"
-              onClick={() => setIsScreenSharing(!isScreenSharing)}
-              title={isScreenSharing ? "Parar compartilhamento" : "Compartilhar tela"}
+              onClick={() => setIsMuted(!isMuted)}
+              title={isMuted ? "Ativar microfone" : "Desativar microfone"}
             >
-              {isScreenSharing ? <MonitorOff className="h-4 w-4" /> : <Monitor className="h-4 w-4" />}
+              {isMuted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
             </Button>
-          )}
-
-          <div className="h-6 w-px bg-border" />
-
-          {/* Right Panel Toggles */}
-          <Button
-            variant={rightPanel === "chat" ? "default" : "outline"}
-            size="icon"
-            onClick={() => toggleRightPanel("chat")}
-            title="Chat ao vivo"
-          >
-            <MessageCircle className="h-4 w-4" />
-          </Button>
-
-          <Button
-            variant={rightPanel === "gamification" ? "default" : "outline"}
-            size="icon"
-            onClick={() => toggleRightPanel("gamification")}
-            title="Desafios"
-          >
-            <Trophy className="h-4 w-4" />
-          </Button>
-
-          {/* Shadow Tutor Button (students only) */}
-          {!isHost && participantId && (
+          
             <Button
-              variant={rightPanel === "shadowtutor" ? "default" : "outline"}
-              size="sm"
-              onClick={() => toggleRightPanel("shadowtutor")}
-              className="gap-2"
+              variant={isVideoOff ? "destructive" : "outline"}
+              size="icon"
+              onClick={() => setIsVideoOff(!isVideoOff)}
+              title={isVideoOff ? "Ativar câmera" : "Desativar câmera"}
             >
-              <MessageSquare className="h-4 w-4" />
-              <span className="hidden sm:inline">Perguntar à IA</span>
+              {isVideoOff ? <VideoOff className="h-4 w-4" /> : <Video className="h-4 w-4" />}
             </Button>
-          )}
 
-          <div className="h-6 w-px bg-border" />
+            {isHost && (
+              <Button
+                variant={isScreenSharing ? "default" : "outline"}
+                size="icon"
+                onClick={() => setIsScreenSharing(!isScreenSharing)}
+                title={isScreenSharing ? "Parar compartilhamento" : "Compartilhar tela"}
+              >
+                {isScreenSharing ? <MonitorOff className="h-4 w-4" /> : <Monitor className="h-4 w-4" />}
+              </Button>
+            )}
+
+            <div className="h-6 w-px bg-border" />
 
-          {/* Session Controls */}
-          {isHost && !activeSession && (
-            <Button onClick={handleStartSession} disabled={startSessionMutation.isPending}>
-              {startSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
-              Iniciar Sessão
+            {/* Right Panel Toggles */}
+            <Button
+              variant={rightPanel === "chat" ? "default" : "outline"}
+              size="icon"
+              onClick={() => toggleRightPanel("chat")}
+              title="Chat ao vivo"
+            >
+              <MessageCircle className="h-4 w-4" />
             </Button>
-          )}
 
-          {isHost && activeSession && (
-            <Button variant="destructive" onClick={handleEndSession} disabled={endSessionMutation.isPending}>
-              {endSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
-              Encerrar
+            <Button
+              variant={rightPanel === "gamification" ? "default" : "outline"}
+              size="icon"
+              onClick={() => toggleRightPanel("gamification")}
+              title="Desafios"
+            >
+              <Trophy className="h-4 w-4" />
             </Button>
-          )}
 
-          <Button variant="destructive" size="icon" onClick={handleLeave} title="Sair da sala">
-            <Phone className="h-4 w-4" />
-          </Button>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <div className="flex-1 flex overflow-hidden">
-        {/* Left Sidebar - Participants & Tools */}
-        <aside className={`${sidebarOpen ? 'w-64' : 'w-0'} border-r bg-card transition-all duration-300 overflow-hidden shrink-0`}>
-          <div className="h-full flex flex-col w-64">
-            <Tabs defaultValue="participants" className="flex-1 flex flex-col">
-              <TabsList className="w-full justify-start rounded-none border-b h-10 px-2">
-                <TabsTrigger value="participants" className="gap-1 text-xs">
-                  <Users className="h-3 w-3" />
-                  Participantes
-                </TabsTrigger>
-                <TabsTrigger value="tools" className="gap-1 text-xs">
-                  <Settings className="h-3 w-3" />
-                  Ferramentas
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="participants" className="flex-1 overflow-auto p-4 mt-0">
-                <div className="space-y-2">
-                  {participants?.map((p) => (
-                    <div
-                      key={p.id}
-                      className="flex items-center gap-2 p-2 rounded-lg bg-muted/50"
-                    >
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium ${
-                        p.role === 'teacher' ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'
-                      }`}>
-                        {(p.visibleName || p.guestName || "?")[0].toUpperCase()}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium truncate">
-                          {p.visibleName || p.guestName || "Anônimo"}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {p.role === 'teacher' ? 'Professor' : p.role === 'student' ? 'Aluno' : 'Convidado'}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </TabsContent>
-
-              <TabsContent value="tools" className="flex-1 overflow-auto p-4 mt-0">
-                <div className="space-y-3">
-                  <p className="text-xs font-medium text-muted-foreground mb-2">Visualização Principal</p>
-                  <Button
-                    variant={mainView === "video" ? "default" : "outline"}
-                    className="w-full justify-start gap-2"
-                    onClick={() => setMainView("video")}
-                  >
-                    <Video className="h-4 w-4" />
-                    Vídeo
-                  </Button>
-                  {isHost && (
-                    <>
-                      <Button
-                        variant={mainView === "pdf" ? "default" : "outline"}
-                        className="w-full justify-start gap-2"
-                        onClick={() => setMainView("pdf")}
-                      >
-                        <FileText className="h-4 w-4" />
-                        PDF
-                      </Button>
-                      <Button
-                        variant={mainView === "latex" ? "default" : "outline"}
-                        className="w-full justify-start gap-2"
-                        onClick={() => setMainView("latex")}
-                      >
-                        <span className="font-mono text-sm">∑</span>
-                        LaTeX
-                      </Button>
-                      <Button
-                        variant={mainView === "graph" ? "default" : "outline"}
-                        className="w-full justify-start gap-2"
-                        onClick={() => setMainView("graph")}
+            {/* Shadow Tutor policy (host only) */}
+            {isHost && activeSession && (
+              <Button
+                variant={rightPanel === "tutorpolicy" ? "default" : "outline"}
+                size="icon"
+                onClick={() => toggleRightPanel("tutorpolicy")}
+                title="Modo do Shadow Tutor"
+              >
+                <Brain className="h-4 w-4" />
+              </Button>
+            )}
+
+            {/* Shadow Tutor Button (students only) */}
+            {!isHost && participantId && (
+              <Button
+                variant={rightPanel === "shadowtutor" ? "default" : "outline"}
+                size="sm"
+                onClick={() => toggleRightPanel("shadowtutor")}
+                className="gap-2"
+              >
+                <MessageSquare className="h-4 w-4" />
+                <span className="hidden sm:inline">Perguntar à IA</span>
+              </Button>
+            )}
+
+            <div className="h-6 w-px bg-border" />
+
+            {/* Session Controls */}
+            {isHost && !activeSession && (
+              <Button onClick={handleStartSession} disabled={startSessionMutation.isPending}>
+                {startSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Iniciar Sessão
+              </Button>
+            )}
+
+            {isHost && activeSession && (
+              <Button variant="destructive" onClick={handleEndSession} disabled={endSessionMutation.isPending}>
+                {endSessionMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Encerrar
+              </Button>
+            )}
+
+            <Button variant="destructive" size="icon" onClick={handleLeave} title="Sair da sala">
+              <Phone className="h-4 w-4" />
+            </Button>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <div className="flex-1 flex overflow-hidden">
+          {/* Left Sidebar - Participants & Tools */}
+          <aside className={`${sidebarOpen ? 'w-64' : 'w-0'} border-r bg-card transition-all duration-300 overflow-hidden shrink-0`}>
+            <div className="h-full flex flex-col w-64">
+              <Tabs defaultValue="participants" className="flex-1 flex flex-col">
+                <TabsList className="w-full justify-start rounded-none border-b h-10 px-2">
+                  <TabsTrigger value="participants" className="gap-1 text-xs">
+                    <Users className="h-3 w-3" />
+                    Participantes
+                  </TabsTrigger>
+                  <TabsTrigger value="tools" className="gap-1 text-xs">
+                    <Settings className="h-3 w-3" />
+                    Ferramentas
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="participants" className="flex-1 overflow-auto p-4 mt-0">
+                  <div className="space-y-2">
+                    {participants?.map((p) => (
+                      <div
+                        key={p.id}
+                        className="flex items-center gap-2 p-2 rounded-lg bg-muted/50"
                       >
-                        <LineChart className="h-4 w-4" />
-                        Gráficos
-                      </Button>
-                    </>
-                  )}
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium ${
+                          p.role === 'teacher' ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'
+                        }`}>
+                          {(p.visibleName || p.guestName || "?")[0].toUpperCase()}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {p.visibleName || p.guestName || "Anônimo"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {p.role === 'teacher' ? 'Professor' : p.role === 'student' ? 'Aluno' : 'Convidado'}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </TabsContent>
 
-                  <div className="border-t pt-3 mt-3">
-                    <p className="text-xs font-medium text-muted-foreground mb-2">Opções</p>
+                <TabsContent value="tools" className="flex-1 overflow-auto p-4 mt-0">
+                  <div className="space-y-3">
+                    <p className="text-xs font-medium text-muted-foreground mb-2">Visualização Principal</p>
                     <Button
-                      variant={showPdfSidebar ? "default" : "outline"}
+                      variant={mainView === "video" ? "default" : "outline"}
                       className="w-full justify-start gap-2"
-                      onClick={() => setShowPdfSidebar(!showPdfSidebar)}
+                      onClick={() => setMainView("video")}
                     >
-                      <FileText className="h-4 w-4" />
-                      PDF Lateral
+                      <Video className="h-4 w-4" />
+                      Vídeo
                     </Button>
+                    <Button
+                      variant={mainView === "board" ? "default" : "outline"}
+                      className="w-full justify-start gap-2"
+                      onClick={() => setMainView("board")}
+                    >
+                      <Presentation className="h-4 w-4" />
+                      Quadro
+                    </Button>
+                    {isHost && (
+                      <>
+                        <Button
+                          variant={mainView === "pdf" ? "default" : "outline"}
+                          className="w-full justify-start gap-2"
+                          onClick={() => setMainView("pdf")}
+                        >
+                          <FileText className="h-4 w-4" />
+                          PDF
+                        </Button>
+                        <Button
+                          variant={mainView === "latex" ? "default" : "outline"}
+                          className="w-full justify-start gap-2"
+                          onClick={() => setMainView("latex")}
+                        >
+                          <span className="font-mono text-sm">∑</span>
+                          LaTeX
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant={mainView === "graph" ? "default" : "outline"}
+                      className="w-full justify-start gap-2"
+                      onClick={() => setMainView("graph")}
+                    >
+                      <LineChart className="h-4 w-4" />
+                      Gráficos
+                    </Button>
+
+                    <div className="border-t pt-3 mt-3">
+                      <p className="text-xs font-medium text-muted-foreground mb-2">Opções</p>
+                      <Button
+                        variant={showPdfSidebar ? "default" : "outline"}
+                        className="w-full justify-start gap-2"
+                        onClick={() => setShowPdfSidebar(!showPdfSidebar)}
+                      >
+                        <FileText className="h-4 w-4" />
+                        PDF Lateral
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </TabsContent>
-            </Tabs>
-          </div>
-        </aside>
-
-        {/* Main Stage */}
-        <main className="flex-1 flex overflow-hidden">
-          {/* Main Content Area */}
-          <div className="flex-1 flex flex-col overflow-hidden">
-            {/* Main View */}
-            <div className="flex-1 flex overflow-hidden">
-              {/* Primary Content */}
-              <div className={`flex-1 p-4 overflow-auto ${showPdfSidebar && mainView === "video" ? "w-1/2" : ""}`}>
-                {mainView === "video" && (
-                  <WebRTCVideoConference
-                    roomSlug={slug || ""}
-                    sessionId={sessionId}
-                    isHost={isHost || false}
-                    oderId={participantId || 0}
-                    odername={user?.name || guestName || "Você"}
-                    isMuted={isMuted}
-                    isVideoOff={isVideoOff}
-                    isScreenSharing={isScreenSharing}
-                    onMuteToggle={() => setIsMuted(!isMuted)}
-                    onVideoToggle={() => setIsVideoOff(!isVideoOff)}
-                    onScreenShareToggle={() => setIsScreenSharing(!isScreenSharing)}
-                  />
-                )}
+                </TabsContent>
+              </Tabs>
+            </div>
+          </aside>
+
+          {/* Main Stage */}
+          <main className="flex-1 flex overflow-hidden">
+            {/* Main Content Area */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              {/* Main View */}
+              <div className="flex-1 flex overflow-hidden">
+                {/* Primary Content */}
+                <div className={`flex-1 p-4 overflow-auto ${showPdfSidebar && mainView === "video" ? "w-1/2" : ""}`}>
+                  {mainView === "video" && (
+                    <WebRTCVideoConference
+                      roomSlug={slug || ""}
+                      sessionId={sessionId}
+                      isHost={isHost || false}
+                      participantToken={participantToken}
+                      odername={user?.name || guestName || "Você"}
+                      isMuted={isMuted}
+                      isVideoOff={isVideoOff}
+                      isScreenSharing={isScreenSharing}
+                      onMuteToggle={() => setIsMuted(!isMuted)}
+                      onVideoToggle={() => setIsVideoOff(!isVideoOff)}
+                      onScreenShareToggle={() => setIsScreenSharing(!isScreenSharing)}
+                    />
+                  )}
                 
-                {mainView === "pdf" && room && (
-                  <PdfViewer roomId={room.id} isHost={isHost || false} sessionId={sessionId} />
-                )}
+                  {mainView === "pdf" && room && (
+                    <PdfViewer roomId={room.id} isHost={isHost || false} sessionId={sessionId} />
+                  )}
                 
-                {mainView === "latex" && isHost && (
-                  <LatexEditor />
-                )}
+                  {mainView === "latex" && isHost && (
+                    <LatexEditor />
+                  )}
 
-                {mainView === "graph" && isHost && sessionId && (
-                  <InteractiveGraph sessionId={sessionId} isHost={isHost} />
-                )}
+                  {mainView === "board" && sessionId && (
+                    <Whiteboard
+                      sessionId={sessionId}
+                      isHost={isHost || false}
+                      participantId={participantId}
+                      participantToken={participantToken}
+                    />
+                  )}
 
-                {/* For students, show what teacher is presenting */}
-                {!isHost && mainView !== "video" && mainView !== "pdf" && (
-                  <div className="h-full flex items-center justify-center">
-                    <p className="text-muted-foreground">
-                      Aguardando conteúdo do professor...
-                    </p>
+                  {mainView === "graph" && sessionId && (
+                    <InteractiveGraph sessionId={sessionId} isHost={isHost || false} participantToken={participantToken} />
+                  )}
+
+                  {/* For students, show what teacher is presenting */}
+                  {!isHost && mainView === "latex" && (
+                    <div className="h-full flex items-center justify-center">
+                      <p className="text-muted-foreground">
+                        Aguardando conteúdo do professor...
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* PDF Sidebar (when enabled with video) */}
+                {showPdfSidebar && mainView === "video" && room && (
+                  <div className="w-[45%] border-l flex flex-col bg-slate-50 dark:bg-slate-900">
+                    <SimplePdfViewer roomId={room.id} isHost={isHost || false} sessionId={sessionId} />
                   </div>
                 )}
               </div>
 
-              {/* PDF Sidebar (when enabled with video) */}
-              {showPdfSidebar && mainView === "video" && room && (
-                <div className="w-[45%] border-l flex flex-col bg-slate-50 dark:bg-slate-900">
-                  <SimplePdfViewer roomId={room.id} isHost={isHost || false} sessionId={sessionId} />
+              {/* Video Thumbnails (when not in video-only mode) */}
+              {mainView !== "video" && (
+                <div className="h-32 border-t bg-card p-2 shrink-0">
+                  <div className="flex gap-2 h-full overflow-x-auto">
+                    <div className="aspect-video h-full bg-muted rounded-lg flex items-center justify-center">
+                      <Video className="h-6 w-6 text-muted-foreground" />
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
 
-            {/* Video Thumbnails (when not in video-only mode) */}
-            {mainView !== "video" && (
-              <div className="h-32 border-t bg-card p-2 shrink-0">
-                <div className="flex gap-2 h-full overflow-x-auto">
-                  <div className="aspect-video h-full bg-muted rounded-lg flex items-center justify-center">
-                    <Video className="h-6 w-6 text-muted-foreground" />
-                  </div>
-                </div>
-              </div>
-            )}
-          </div>
-
-          {/* Right Panel */}
-          {rightPanel && participantId && sessionId && (
-            <aside className="w-80 border-l bg-card shrink-0 flex flex-col overflow-hidden">
-              {rightPanel === "chat" && (
-                <LiveChat
-                  sessionId={sessionId}
-                  participantId={participantId}
-                  participantName={getParticipantName()}
-                  isHost={isHost || false}
-                />
-              )}
+            {/* Right Panel */}
+            {rightPanel && participantId && participantToken && sessionId && (
+              <aside className="w-80 border-l bg-card shrink-0 flex flex-col overflow-hidden">
+                {rightPanel === "chat" && (
+                  <LiveChat
+                    sessionId={sessionId}
+                    participantId={participantId}
+                    participantToken={participantToken}
+                    isHost={isHost || false}
+                  />
+                )}
               
-              {rightPanel === "gamification" && (
-                <Gamification
-                  sessionId={sessionId}
-                  participantId={participantId}
-                  isHost={isHost || false}
-                />
-              )}
+                {rightPanel === "gamification" && (
+                  <Gamification
+                    sessionId={sessionId}
+                    participantId={participantId}
+                    participantToken={participantToken}
+                    isHost={isHost || false}
+                  />
+                )}
 
-              {rightPanel === "shadowtutor" && !isHost && (
-                <ShadowTutor
-                  sessionId={sessionId}
-                  participantId={participantId}
-                  onClose={() => setRightPanel(null)}
-                />
-              )}
-            </aside>
-          )}
-        </main>
+                {rightPanel === "tutorpolicy" && isHost && activeSession && (
+                  <TutorPolicyPanel
+                    roomId={room.id}
+                    roomPolicy={room.tutorPolicy}
+                    sessionId={sessionId}
+                    sessionPolicy={activeSession.tutorPolicy}
+                    participantToken={participantToken}
+                  />
+                )}
+
+                {rightPanel === "shadowtutor" && !isHost && (
+                  <ShadowTutor
+                    participantToken={participantToken}
+                    onClose={() => setRightPanel(null)}
+                  />
+                )}
+              </aside>
+            )}
+          </main>
+        </div>
       </div>
-    </div>
+    </RealtimeProvider>
   );
 }
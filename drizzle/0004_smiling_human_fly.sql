@@ -0,0 +1,11 @@
+CREATE TABLE `transcriptSegments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transcriptionId` int NOT NULL,
+	`recordingId` int NOT NULL,
+	`startMs` int NOT NULL,
+	`endMs` int NOT NULL,
+	`text` text NOT NULL,
+	`confidence` float,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `transcriptSegments_id` PRIMARY KEY(`id`)
+);
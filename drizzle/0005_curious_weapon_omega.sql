@@ -0,0 +1,11 @@
+CREATE TABLE `lessonNotes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`summary` text,
+	`content` text,
+	`status` enum('processing','ready','failed') NOT NULL DEFAULT 'processing',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lessonNotes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `lessonNotes_sessionId_unique` UNIQUE(`sessionId`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `chatMessages` ADD `context` text;
\ No newline at end of file
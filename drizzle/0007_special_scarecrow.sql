@@ -0,0 +1,15 @@
+CREATE TABLE `tutorPolicyLog` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`sessionId` int,
+	`participantId` int,
+	`event` enum('changed','answered','blocked') NOT NULL,
+	`policy` enum('off','hints','socratic','full') NOT NULL,
+	`locked` boolean NOT NULL DEFAULT false,
+	`exerciseId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `tutorPolicyLog_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `rooms` ADD `tutorPolicy` enum('off','hints','socratic','full') DEFAULT 'full' NOT NULL;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `tutorPolicy` enum('off','hints','socratic','full');
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `interactiveGraphs` ADD `expressions` text;--> statement-breakpoint
+ALTER TABLE `interactiveGraphs` ADD `parameters` text;
\ No newline at end of file
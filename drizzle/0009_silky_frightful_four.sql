@@ -0,0 +1,2 @@
+ALTER TABLE `interactiveGraphs` MODIFY COLUMN `graphType` enum('linear','quadratic','cubic','trigonometric','exponential','custom','parametric','polar','implicit','vectorField') NOT NULL DEFAULT 'linear';--> statement-breakpoint
+UPDATE `interactiveGraphs` SET `expressions` = JSON_ARRAY(JSON_OBJECT('id', '1', 'source', `equation`, 'color', COALESCE(CASE WHEN JSON_VALID(`config`) THEN JSON_UNQUOTE(JSON_EXTRACT(`config`, '$.color')) END, '#3b82f6'))) WHERE `expressions` IS NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE `interactiveGraphs` MODIFY COLUMN `graphType` enum('linear','quadratic','cubic','trigonometric','exponential','custom','parametric','polar','implicit','vectorField','surface','spaceCurve') NOT NULL DEFAULT 'linear';--> statement-breakpoint
+ALTER TABLE `interactiveGraphs` ADD `camera` text;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `whiteboardStrokes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`page` int NOT NULL DEFAULT 1,
+	`participantId` int NOT NULL,
+	`tool` enum('pen','highlighter','line','arrow','rectangle','ellipse','text','latex') NOT NULL,
+	`data` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `whiteboardStrokes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `whiteboards` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`pageCount` int NOT NULL DEFAULT 1,
+	`currentPage` int NOT NULL DEFAULT 1,
+	`drawers` text,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `whiteboards_id` PRIMARY KEY(`id`),
+	CONSTRAINT `whiteboards_sessionId_unique` UNIQUE(`sessionId`)
+);
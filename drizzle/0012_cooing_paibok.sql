@@ -0,0 +1,13 @@
+CREATE TABLE `pdfAnnotations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`sessionId` int NOT NULL,
+	`documentId` int NOT NULL,
+	`page` int NOT NULL,
+	`tool` enum('ink','highlight','text') NOT NULL,
+	`data` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `pdfAnnotations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `rooms` ADD `keepPdfAnnotations` boolean DEFAULT false NOT NULL;
\ No newline at end of file
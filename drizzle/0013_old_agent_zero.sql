@@ -0,0 +1,3 @@
+ALTER TABLE `pdfSyncState` ADD `scrollX` float DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `pdfSyncState` ADD `scrollY` float DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `pdfSyncState` ADD `locked` boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `documentPages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`page` int NOT NULL,
+	`text` text NOT NULL,
+	`searchText` text NOT NULL,
+	`thumbnailKey` varchar(512),
+	`thumbnailUrl` varchar(1024),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `documentPages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `documents` ADD `indexStatus` enum('processing','ready','failed');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `checksum` varchar(64);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `exerciseResponses` ADD `checkReason` varchar(255);--> statement-breakpoint
+ALTER TABLE `exercises` ADD `checkMode` enum('strict','equivalent') DEFAULT 'strict' NOT NULL;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `tolerance` float;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `toleranceType` enum('absolute','relative') DEFAULT 'absolute' NOT NULL;
\ No newline at end of file
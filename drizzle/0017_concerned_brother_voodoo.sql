@@ -0,0 +1,4 @@
+ALTER TABLE `exerciseResponses` ADD `answerData` text;--> statement-breakpoint
+ALTER TABLE `exerciseResponses` ADD `partResults` text;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `questionType` enum('text','multipleChoice','numeric','trueFalse','ordering','multiPart') DEFAULT 'text' NOT NULL;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `content` text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `exerciseResponses` ADD `bonusPoints` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `speedBonus` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `streakBonus` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `activatedAt` timestamp(3);--> statement-breakpoint
+ALTER TABLE `participantScores` ADD `streak` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `participantScores` ADD `totalResponseTime` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `exercises` SET `activatedAt` = `createdAt` WHERE `activatedAt` IS NULL;
\ No newline at end of file
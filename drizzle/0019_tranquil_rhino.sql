@@ -0,0 +1,39 @@
+CREATE TABLE `bankQuestions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ownerId` int NOT NULL,
+	`question` text NOT NULL,
+	`questionLatex` text,
+	`questionType` enum('text','multipleChoice','numeric','trueFalse','ordering','multiPart') NOT NULL DEFAULT 'text',
+	`content` text,
+	`correctAnswer` varchar(255) NOT NULL,
+	`checkMode` enum('strict','equivalent') NOT NULL DEFAULT 'strict',
+	`tolerance` float,
+	`toleranceType` enum('absolute','relative') NOT NULL DEFAULT 'absolute',
+	`points` int NOT NULL DEFAULT 10,
+	`timeLimit` int,
+	`speedBonus` int NOT NULL DEFAULT 0,
+	`streakBonus` boolean NOT NULL DEFAULT false,
+	`topic` varchar(64),
+	`difficulty` enum('easy','medium','hard'),
+	`grade` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bankQuestions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `quizSets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ownerId` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`description` text,
+	`questionIds` text NOT NULL,
+	`shareCode` varchar(16),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `quizSets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `quizSets_shareCode_unique` UNIQUE(`shareCode`)
+);
+--> statement-breakpoint
+ALTER TABLE `exercises` ADD `bankQuestionId` int;--> statement-breakpoint
+ALTER TABLE `exercises` ADD `queuePosition` int;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `autoAdvance` boolean DEFAULT false NOT NULL;
\ No newline at end of file
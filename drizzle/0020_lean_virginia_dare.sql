@@ -0,0 +1 @@
+ALTER TABLE `exercises` ADD `resultsRevealed` boolean DEFAULT false NOT NULL;
\ No newline at end of file
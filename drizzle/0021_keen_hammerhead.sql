@@ -0,0 +1 @@
+ALTER TABLE `exercises` ADD `revealedResults` text;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, float } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -31,6 +31,8 @@ export const rooms = mysqlTable("rooms", {
   dailyRoomUrl: varchar("dailyRoomUrl", { length: 512 }), // Daily.co room URL
   isActive: boolean("isActive").default(true).notNull(),
   allowGuests: boolean("allowGuests").default(true).notNull(),
+  tutorPolicy: mysqlEnum("tutorPolicy", ["off", "hints", "socratic", "full"]).default("full").notNull(), // Default Shadow Tutor policy
+  keepPdfAnnotations: boolean("keepPdfAnnotations").default(false).notNull(), // PDF annotations carry over to later sessions
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -49,6 +51,8 @@ export const sessions = mysqlTable("sessions", {
   endedAt: timestamp("endedAt"),
   duration: int("duration"), // Duration in seconds
   status: mysqlEnum("status", ["active", "ended", "cancelled"]).default("active").notNull(),
+  tutorPolicy: mysqlEnum("tutorPolicy", ["off", "hints", "socratic", "full"]), // Overrides the room policy when set
+  autoAdvance: boolean("autoAdvance").default(false).notNull(), // Start the next queued exercise when one ends
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -120,6 +124,7 @@ export const chatMessages = mysqlTable("chatMessages", {
   participantId: int("participantId").notNull(), // References participants.id
   role: mysqlEnum("role", ["user", "assistant"]).notNull(),
   content: text("content").notNull(),
+  context: text("context"), // JSON of the lesson context injected for assistant answers
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -138,12 +143,31 @@ export const documents = mysqlTable("documents", {
   s3Url: varchar("s3Url", { length: 1024 }).notNull(),
   fileSize: int("fileSize"),
   pageCount: int("pageCount"),
+  indexStatus: mysqlEnum("indexStatus", ["processing", "ready", "failed"]), // Text and thumbnails; null for documents uploaded before indexing
+  checksum: varchar("checksum", { length: 64 }), // SHA-256 of the files as uploaded, to spot the same upload twice in a room
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = typeof documents.$inferInsert;
 
+/**
+ * Document pages table - text and thumbnail of every page, for search
+ */
+export const documentPages = mysqlTable("documentPages", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull(), // References documents.id
+  page: int("page").notNull(),
+  text: text("text").notNull(), // Text as extracted from the PDF
+  searchText: text("searchText").notNull(), // Same text in lower case without accents, matched by search
+  thumbnailKey: varchar("thumbnailKey", { length: 512 }),
+  thumbnailUrl: varchar("thumbnailUrl", { length: 1024 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DocumentPage = typeof documentPages.$inferSelect;
+export type InsertDocumentPage = typeof documentPages.$inferInsert;
+
 
 /**
  * Live chat messages table - stores real-time chat between participants
@@ -168,9 +192,16 @@ export const interactiveGraphs = mysqlTable("interactiveGraphs", {
   sessionId: int("sessionId").notNull(), // References sessions.id
   createdBy: int("createdBy").notNull(), // References users.id (teacher)
   title: varchar("title", { length: 255 }),
-  graphType: mysqlEnum("graphType", ["linear", "quadratic", "cubic", "trigonometric", "exponential", "custom"]).default("linear").notNull(),
-  equation: varchar("equation", { length: 512 }).notNull(), // e.g., "y = 2x + 3"
+  graphType: mysqlEnum("graphType", [
+    "linear", "quadratic", "cubic", "trigonometric", "exponential", "custom",
+    "parametric", "polar", "implicit", "vectorField",
+    "surface", "spaceCurve",
+  ]).default("linear").notNull(),
+  equation: varchar("equation", { length: 512 }).notNull(), // e.g., "y = 2x + 3"; first expression of the graph
+  expressions: text("expressions"), // JSON GraphExpression[] (functions, points, lines, inequalities)
+  parameters: text("parameters"), // JSON GraphParameter[]: slider settings and current values
   config: text("config"), // JSON config for graph settings (colors, range, etc.)
+  camera: text("camera"), // JSON GraphCamera of 3D graphs, synced from the teacher
   isActive: boolean("isActive").default(true).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -188,10 +219,22 @@ export const exercises = mysqlTable("exercises", {
   createdBy: int("createdBy").notNull(), // References users.id (teacher)
   question: text("question").notNull(),
   questionLatex: text("questionLatex"), // LaTeX version of the question
-  correctAnswer: varchar("correctAnswer", { length: 255 }).notNull(),
+  questionType: mysqlEnum("questionType", ["text", "multipleChoice", "numeric", "trueFalse", "ordering", "multiPart"]).default("text").notNull(),
+  content: text("content"), // JSON ExerciseQuestion for every type but text: options, steps, parts and what is right
+  correctAnswer: varchar("correctAnswer", { length: 255 }).notNull(), // The right answer as text, for every type
+  checkMode: mysqlEnum("checkMode", ["strict", "equivalent"]).default("strict").notNull(), // How answers are compared with correctAnswer
+  tolerance: float("tolerance"), // Accepted numeric error in equivalent mode (optional)
+  toleranceType: mysqlEnum("toleranceType", ["absolute", "relative"]).default("absolute").notNull(),
   points: int("points").default(10).notNull(),
-  timeLimit: int("timeLimit"), // Time limit in seconds (optional)
+  timeLimit: int("timeLimit"), // Time limit in seconds (optional), enforced by the server
+  speedBonus: int("speedBonus").default(0).notNull(), // Extra points for an instant right answer, down to none at the time limit
+  streakBonus: boolean("streakBonus").default(false).notNull(), // Multiply the points by the streak of right answers
   isActive: boolean("isActive").default(true).notNull(),
+  activatedAt: timestamp("activatedAt", { fsp: 3 }), // When students could start answering; response times count from here
+  bankQuestionId: int("bankQuestionId"), // References bankQuestions.id, when asked from the question bank
+  queuePosition: int("queuePosition"), // Place in the queue of the session while waiting to be asked, null otherwise
+  resultsRevealed: boolean("resultsRevealed").default(false).notNull(), // The class sees how it answered; no more answers are taken
+  revealedResults: text("revealedResults"), // JSON RevealedResults, fixed when the teacher reveals them
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -205,10 +248,14 @@ export const exerciseResponses = mysqlTable("exerciseResponses", {
   id: int("id").autoincrement().primaryKey(),
   exerciseId: int("exerciseId").notNull(), // References exercises.id
   participantId: int("participantId").notNull(), // References participants.id
-  answer: varchar("answer", { length: 255 }).notNull(),
+  answer: varchar("answer", { length: 255 }).notNull(), // The answer as text, as the teacher reads it
+  answerData: text("answerData"), // JSON ExerciseAnswer as sent: text, chosen options, order or parts
   isCorrect: boolean("isCorrect").notNull(),
-  pointsEarned: int("pointsEarned").default(0).notNull(),
-  responseTime: int("responseTime"), // Time taken to answer in seconds
+  checkReason: varchar("checkReason", { length: 255 }), // Why the answer was judged right or wrong, for the teacher
+  partResults: text("partResults"), // JSON PartResult[] of multi-part questions
+  pointsEarned: int("pointsEarned").default(0).notNull(), // Bonus points included
+  bonusPoints: int("bonusPoints").default(0).notNull(), // From the speed bonus and the streak multiplier
+  responseTime: int("responseTime"), // Milliseconds from the activation of the exercise to the answer, measured by the server
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -225,6 +272,8 @@ export const participantScores = mysqlTable("participantScores", {
   totalPoints: int("totalPoints").default(0).notNull(),
   correctAnswers: int("correctAnswers").default(0).notNull(),
   totalAnswers: int("totalAnswers").default(0).notNull(),
+  streak: int("streak").default(0).notNull(), // Right answers in a row, up to the last one
+  totalResponseTime: int("totalResponseTime").default(0).notNull(), // Milliseconds, breaks ties in the ranking
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
@@ -242,9 +291,158 @@ export const pdfSyncState = mysqlTable("pdfSyncState", {
   currentPage: int("currentPage").default(1).notNull(),
   totalPages: int("totalPages").default(1).notNull(),
   zoomLevel: int("zoomLevel").default(100).notNull(), // Zoom percentage
+  scrollX: float("scrollX").default(0).notNull(), // Top-left corner of the teacher's view, as fractions of the page
+  scrollY: float("scrollY").default(0).notNull(),
+  locked: boolean("locked").default(false).notNull(), // Students cannot leave the teacher's view
   updatedBy: int("updatedBy").notNull(), // References users.id (teacher who updated)
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
 export type PdfSyncState = typeof pdfSyncState.$inferSelect;
 export type InsertPdfSyncState = typeof pdfSyncState.$inferInsert;
+
+/**
+ * Transcript segments table - timestamped pieces of automatic transcriptions
+ */
+export const transcriptSegments = mysqlTable("transcriptSegments", {
+  id: int("id").autoincrement().primaryKey(),
+  transcriptionId: int("transcriptionId").notNull(), // References transcriptions.id
+  recordingId: int("recordingId").notNull(), // References recordings.id
+  startMs: int("startMs").notNull(), // Offset from the start of the recording
+  endMs: int("endMs").notNull(),
+  text: text("text").notNull(),
+  confidence: float("confidence"), // 0-1, null when the transcriber reports none
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
+export type InsertTranscriptSegment = typeof transcriptSegments.$inferInsert;
+
+/**
+ * Lesson notes table - AI-generated summary of a session, one per session
+ */
+export const lessonNotes = mysqlTable("lessonNotes", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: int("sessionId").notNull().unique(), // References sessions.id
+  summary: text("summary"), // Short overview of the lesson
+  content: text("content"), // Full notes in Markdown with LaTeX
+  status: mysqlEnum("status", ["processing", "ready", "failed"]).default("processing").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type LessonNotes = typeof lessonNotes.$inferSelect;
+export type InsertLessonNotes = typeof lessonNotes.$inferInsert;
+
+/**
+ * Tutor policy log table - policy changes and Shadow Tutor answers under each policy, for teacher review
+ */
+export const tutorPolicyLog = mysqlTable("tutorPolicyLog", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(), // References rooms.id
+  sessionId: int("sessionId"), // References sessions.id, null for room changes outside a session
+  participantId: int("participantId"), // References participants.id, null for teacher changes
+  event: mysqlEnum("event", ["changed", "answered", "blocked"]).notNull(),
+  policy: mysqlEnum("policy", ["off", "hints", "socratic", "full"]).notNull(), // Policy in effect (or the new one, for changes)
+  locked: boolean("locked").default(false).notNull(), // Hint-only lock from an active exercise
+  exerciseId: int("exerciseId"), // References exercises.id, the exercise behind the lock
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TutorPolicyLog = typeof tutorPolicyLog.$inferSelect;
+export type InsertTutorPolicyLog = typeof tutorPolicyLog.$inferInsert;
+
+/**
+ * Whiteboards table - pages and drawing rights of the board of a session
+ */
+export const whiteboards = mysqlTable("whiteboards", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: int("sessionId").notNull().unique(), // References sessions.id - one board per session
+  pageCount: int("pageCount").default(1).notNull(),
+  currentPage: int("currentPage").default(1).notNull(), // Page shown by the teacher, followed by students
+  drawers: text("drawers"), // JSON participants.id[] allowed to draw besides the teacher
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Whiteboard = typeof whiteboards.$inferSelect;
+export type InsertWhiteboard = typeof whiteboards.$inferInsert;
+
+/**
+ * Whiteboard strokes table - everything drawn on the board, replayed for late joiners
+ */
+export const whiteboardStrokes = mysqlTable("whiteboardStrokes", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: int("sessionId").notNull(), // References sessions.id
+  page: int("page").default(1).notNull(),
+  participantId: int("participantId").notNull(), // References participants.id (author)
+  tool: mysqlEnum("tool", ["pen", "highlighter", "line", "arrow", "rectangle", "ellipse", "text", "latex"]).notNull(),
+  data: text("data").notNull(), // JSON BoardStrokeData: color, width and points, or text and position
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WhiteboardStroke = typeof whiteboardStrokes.$inferSelect;
+export type InsertWhiteboardStroke = typeof whiteboardStrokes.$inferInsert;
+
+/**
+ * PDF annotations table - ink, highlights and notes drawn by the teacher over document pages
+ */
+export const pdfAnnotations = mysqlTable("pdfAnnotations", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(), // References rooms.id
+  sessionId: int("sessionId").notNull(), // References sessions.id - session it was drawn in
+  documentId: int("documentId").notNull(), // References documents.id
+  page: int("page").notNull(),
+  tool: mysqlEnum("tool", ["ink", "highlight", "text"]).notNull(),
+  data: text("data").notNull(), // JSON PdfAnnotationData, in fractions of the page size
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PdfAnnotation = typeof pdfAnnotations.$inferSelect;
+export type InsertPdfAnnotation = typeof pdfAnnotations.$inferInsert;
+
+/**
+ * Bank questions table - questions kept by a teacher to ask in any of their rooms
+ */
+export const bankQuestions = mysqlTable("bankQuestions", {
+  id: int("id").autoincrement().primaryKey(),
+  ownerId: int("ownerId").notNull(), // References users.id (teacher)
+  // The question, as in exercises
+  question: text("question").notNull(),
+  questionLatex: text("questionLatex"),
+  questionType: mysqlEnum("questionType", ["text", "multipleChoice", "numeric", "trueFalse", "ordering", "multiPart"]).default("text").notNull(),
+  content: text("content"), // JSON ExerciseQuestion for every type but text
+  correctAnswer: varchar("correctAnswer", { length: 255 }).notNull(),
+  checkMode: mysqlEnum("checkMode", ["strict", "equivalent"]).default("strict").notNull(),
+  tolerance: float("tolerance"),
+  toleranceType: mysqlEnum("toleranceType", ["absolute", "relative"]).default("absolute").notNull(),
+  points: int("points").default(10).notNull(),
+  timeLimit: int("timeLimit"),
+  speedBonus: int("speedBonus").default(0).notNull(),
+  streakBonus: boolean("streakBonus").default(false).notNull(),
+  // Tags to find it again
+  topic: varchar("topic", { length: 64 }),
+  difficulty: mysqlEnum("difficulty", ["easy", "medium", "hard"]),
+  grade: varchar("grade", { length: 64 }), // School year or course, as the teacher writes it
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type BankQuestion = typeof bankQuestions.$inferSelect;
+export type InsertBankQuestion = typeof bankQuestions.$inferInsert;
+
+/**
+ * Quiz sets table - ordered lists of bank questions, queued into a session all at once
+ */
+export const quizSets = mysqlTable("quizSets", {
+  id: int("id").autoincrement().primaryKey(),
+  ownerId: int("ownerId").notNull(), // References users.id (teacher)
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description"),
+  questionIds: text("questionIds").notNull(), // JSON bankQuestions.id[] in the order they are asked
+  shareCode: varchar("shareCode", { length: 16 }).unique(), // Lets other teachers copy the set, null while not shared
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type QuizSet = typeof quizSets.$inferSelect;
+export type InsertQuizSet = typeof quizSets.$inferInsert;
@@ -8,6 +8,10 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { initializeWebRTCSignaling } from "../webrtc-signaling";
+import { registerStorageRoutes } from "../storage";
+import { registerRecordingUploadRoutes } from "../recordingUpload";
+import { registerDocumentUploadRoutes } from "../documentUpload";
+import { registerShadowTutorRoutes } from "../shadowTutor";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -31,11 +35,19 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
-  // Configure body parser with larger size limit for file uploads
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  // Files go through their own streamed routes; JSON bodies only carry room state
+  app.use(express.json({ limit: "5mb" }));
+  app.use(express.urlencoded({ limit: "5mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Files of the local storage backend under /api/storage
+  registerStorageRoutes(app);
+  // Chunked recording uploads under /api/recordings
+  registerRecordingUploadRoutes(app);
+  // Streamed document uploads under /api/rooms/:roomId/documents
+  registerDocumentUploadRoutes(app);
+  // Streamed Shadow Tutor answers under /api/shadow-tutor
+  registerShadowTutorRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
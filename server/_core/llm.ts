@@ -265,9 +265,7 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
-
+const buildPayload = (params: InvokeParams): Record<string, unknown> => {
   const {
     messages,
     tools,
@@ -312,13 +310,19 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
+  return payload;
+};
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  assertApiKey();
+
   const response = await fetch(resolveApiUrl(), {
     method: "POST",
     headers: {
       "content-type": "application/json",
       authorization: `Bearer ${ENV.forgeApiKey}`,
     },
-    body: JSON.stringify(payload),
+    body: JSON.stringify(buildPayload(params)),
   });
 
   if (!response.ok) {
@@ -330,3 +334,62 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
 
   return (await response.json()) as InvokeResult;
 }
+
+export type StreamChunk = {
+  choices: Array<{
+    index: number;
+    delta: { role?: Role; content?: string | null };
+    finish_reason: string | null;
+  }>;
+};
+
+/**
+ * Streaming variant of `invokeLLM`: yields the text deltas of the completion
+ * as they arrive. Aborting `signal` cancels the upstream request and ends the
+ * iteration with an AbortError.
+ */
+export async function* streamLLM(
+  params: InvokeParams,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  assertApiKey();
+
+  const response = await fetch(resolveApiUrl(), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      authorization: `Bearer ${ENV.forgeApiKey}`,
+    },
+    body: JSON.stringify({ ...buildPayload(params), stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    throw new Error(
+      `LLM stream failed: ${response.status} ${response.statusText} – ${errorText}`
+    );
+  }
+
+  // Server-sent events: one "data: {json}" line per chunk, "data: [DONE]" at the end
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice("data:".length).trim();
+      if (data === "[DONE]") return;
+
+      const chunk = JSON.parse(data) as StreamChunk;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
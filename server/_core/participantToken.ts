@@ -0,0 +1,103 @@
+import { SignJWT, jwtVerify } from "jose";
+import type { Participant } from "../../drizzle/schema";
+import * as db from "../db";
+import { ENV } from "./env";
+
+/**
+ * Participant tokens are issued by `session.join` and prove that the caller
+ * is a given participant of a given session. They are signed with the same
+ * secret as the session cookie but carry their own audience so one can never
+ * be accepted in place of the other.
+ */
+export type ParticipantClaims = {
+  sessionId: number;
+  participantId: number;
+  role: Participant["role"];
+  name: string;
+};
+
+const PARTICIPANT_TOKEN_AUDIENCE = "mathtutor-participant";
+const PARTICIPANT_TOKEN_TTL_MS = 1000 * 60 * 60 * 12;
+const PARTICIPANT_ROLES: readonly string[] = ["teacher", "student", "guest"];
+
+function getParticipantSecret() {
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+export async function signParticipantToken(
+  claims: ParticipantClaims,
+  options: { expiresInMs?: number } = {}
+): Promise<string> {
+  const expiresInMs = options.expiresInMs ?? PARTICIPANT_TOKEN_TTL_MS;
+  const expirationSeconds = Math.floor((Date.now() + expiresInMs) / 1000);
+
+  return new SignJWT({
+    sessionId: claims.sessionId,
+    participantId: claims.participantId,
+    role: claims.role,
+    name: claims.name,
+  })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(PARTICIPANT_TOKEN_AUDIENCE)
+    .setExpirationTime(expirationSeconds)
+    .sign(getParticipantSecret());
+}
+
+export async function verifyParticipantToken(
+  token: string | undefined | null
+): Promise<ParticipantClaims | null> {
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, getParticipantSecret(), {
+      algorithms: ["HS256"],
+      audience: PARTICIPANT_TOKEN_AUDIENCE,
+    });
+    const { sessionId, participantId, role, name } = payload as Record<string, unknown>;
+
+    if (
+      typeof sessionId !== "number" ||
+      typeof participantId !== "number" ||
+      typeof role !== "string" ||
+      !PARTICIPANT_ROLES.includes(role) ||
+      typeof name !== "string"
+    ) {
+      console.warn("[Auth] Participant token missing required fields");
+      return null;
+    }
+
+    return {
+      sessionId,
+      participantId,
+      role: role as Participant["role"],
+      name,
+    };
+  } catch (error) {
+    console.warn("[Auth] Participant token verification failed", String(error));
+    return null;
+  }
+}
+
+/**
+ * Verify a participant token and that it still holds: the participant has
+ * not left and the session is still going. Tokens outlive both, so any
+ * action in the session goes through this rather than the signature alone.
+ */
+export async function verifyActiveParticipant(
+  token: string | undefined | null
+): Promise<ParticipantClaims | null> {
+  const claims = await verifyParticipantToken(token);
+  if (!claims) return null;
+
+  const [participant, session] = await Promise.all([
+    db.getParticipantById(claims.participantId),
+    db.getSessionById(claims.sessionId),
+  ]);
+  if (!participant || participant.sessionId !== claims.sessionId || participant.leftAt) {
+    return null;
+  }
+  if (!session || session.status !== "active") {
+    return null;
+  }
+  return claims;
+}
@@ -1,7 +1,9 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { INVALID_PARTICIPANT_ERR_MSG, NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { z } from "zod";
 import type { TrpcContext } from "./context";
+import { verifyActiveParticipant } from "./participantToken";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -27,6 +29,33 @@ const requireUser = t.middleware(async opts => {
 
 export const protectedProcedure = t.procedure.use(requireUser);
 
+const requireParticipant = t.middleware(async opts => {
+  const { ctx, next, input } = opts;
+  const token = (input as { participantToken?: string } | undefined)?.participantToken;
+  const participant = await verifyActiveParticipant(token);
+
+  if (!participant) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: INVALID_PARTICIPANT_ERR_MSG });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      participant,
+    },
+  });
+});
+
+/**
+ * Procedures called by a session participant (students and guests included).
+ * The caller's identity comes from the signed `participantToken` issued by
+ * `session.join`, never from ids in the input, and is refused once the
+ * participant has left or the session has ended.
+ */
+export const participantProcedure = t.procedure
+  .input(z.object({ participantToken: z.string() }))
+  .use(requireParticipant);
+
 export const adminProcedure = t.procedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
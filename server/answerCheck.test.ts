@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { checkAnswer, parseUnit, type AnswerCheckOptions } from "@shared/answerCheck";
+
+const equivalent: AnswerCheckOptions = { mode: "equivalent" };
+
+function accepts(answer: string, expected: string, options = equivalent) {
+  return checkAnswer(answer, expected, options).correct;
+}
+
+describe("answer checking", () => {
+  it("keeps exact text as the default of older exercises", () => {
+    expect(checkAnswer(" Quatro ", "quatro", { mode: "strict" })).toEqual({ correct: true, reason: "Texto igual à resposta esperada" });
+    expect(checkAnswer("0,5", "1/2", { mode: "strict" })).toEqual({ correct: false, reason: "Texto diferente da resposta esperada" });
+  });
+
+  it("accepts numbers, fractions and LaTeX of the same value", () => {
+    expect(accepts("0,5", "1/2")).toBe(true);
+    expect(accepts("0.5", "1/2")).toBe(true);
+    expect(accepts("2/4", "1/2")).toBe(true);
+    expect(accepts("\\frac{1}{2}", "1/2")).toBe(true);
+    expect(accepts("$\\dfrac12$", "0.5")).toBe(true);
+    expect(accepts("\\sqrt[3]{8}", "2")).toBe(true);
+    expect(accepts("2\\cdot 3", "6")).toBe(true);
+    expect(checkAnswer("0.333", "1/3", equivalent)).toEqual({ correct: false, reason: "Valor 0,333 diferente do esperado, 0,333333" });
+  });
+
+  it("reads digits around an e as scientific notation", () => {
+    expect(checkAnswer("1e3", "1000", equivalent)).toEqual({ correct: true, reason: "Mesmo valor da resposta esperada" });
+    expect(accepts("6,02E23", "6.02*10^23")).toBe(true);
+    expect(accepts("2.5e-3 km", "2,5 m")).toBe(true);
+    // Without digits on both sides e is still the constant
+    expect(accepts("2e", "2*e")).toBe(true);
+    expect(accepts("e^2", "e*e")).toBe(true);
+  });
+
+  it("compares algebraic expressions at sample points", () => {
+    expect(accepts("1+x", "x+1")).toBe(true);
+    expect(accepts("(x+1)^2", "x^2+2x+1")).toBe(true);
+    expect(accepts("\\sin^2 x + \\cos^2 x", "1")).toBe(true);
+    expect(accepts("x_{1}+1", "x_1+1")).toBe(true);
+
+    const wrong = checkAnswer("x^2+2x", "x^2+2x+1", equivalent);
+    expect(wrong.correct).toBe(false);
+    expect(wrong.reason).toMatch(/^Não é equivalente: com x = /);
+  });
+
+  it("compares equations and inequalities as relations", () => {
+    expect(accepts("x = 3", "3")).toBe(true);
+    expect(accepts("3", "x = 3")).toBe(true);
+    expect(accepts("2x - y + 1 = 0", "y = 2x + 1")).toBe(true);
+    expect(accepts("y < 2x", "2x > y")).toBe(true);
+    expect(checkAnswer("y > 2x", "2x > y", equivalent)).toEqual({ correct: false, reason: "A desigualdade está invertida" });
+  });
+
+  it("accepts values within the tolerance of the teacher", () => {
+    expect(checkAnswer("0.333", "1/3", { mode: "equivalent", tolerance: 0.01 })).toEqual({
+      correct: true,
+      reason: "Valor 0,333 aceito para 0,333333 (tolerância de ±0,01)",
+    });
+    expect(accepts("3.2", "3", { mode: "equivalent", tolerance: 0.1, toleranceType: "relative" })).toBe(true);
+    expect(accepts("3.4", "3", { mode: "equivalent", tolerance: 0.1, toleranceType: "relative" })).toBe(false);
+  });
+
+  it("converts units of the same kind and explains the others", () => {
+    expect(parseUnit("km/h")).toMatchObject({ factor: 1000 / 3600, dimensions: { m: 1, s: -1 } });
+    expect(checkAnswer("2500 m", "2,5 km", equivalent)).toEqual({
+      correct: true,
+      reason: "Mesmo valor da resposta esperada (convertida de m para km)",
+    });
+    expect(accepts("10 m/s", "36 km/h")).toBe(true);
+    expect(accepts("90°", "\\pi/2 rad")).toBe(true);
+    expect(accepts("50%", "0.5")).toBe(true);
+    expect(checkAnswer("2500", "2,5 km", equivalent)).toEqual({ correct: false, reason: "Faltou a unidade (esperada: km)" });
+    expect(checkAnswer("3 s", "2,5 km", equivalent)).toEqual({
+      correct: false,
+      reason: "Unidade incompatível: s não pode ser convertida em km",
+    });
+  });
+
+  it("says why an answer could not be read", () => {
+    const result = checkAnswer("2 + (", "1", equivalent);
+    expect(result.correct).toBe(false);
+    expect(result.reason).toMatch(/^Texto diferente da resposta esperada \(não foi possível interpretar a resposta: /);
+    expect(checkAnswer("", "1", equivalent).correct).toBe(false);
+  });
+
+  it("compares words as text", () => {
+    expect(checkAnswer("paris", "Paris", equivalent)).toEqual({
+      correct: true,
+      reason: "Texto igual à resposta esperada (a resposta esperada não é uma expressão e foi comparada como texto)",
+    });
+    expect(checkAnswer("Londres", "2", equivalent)).toEqual({
+      correct: false,
+      reason: "Texto diferente da resposta esperada (a resposta não é uma expressão; comparada como texto)",
+    });
+    // Functions, constants and units are not words
+    expect(accepts("sqrt(4) rad", "2 rad")).toBe(true);
+    expect(accepts("2pix", "2xpi")).toBe(true);
+  });
+
+  it("shows the digits where two values differ", () => {
+    expect(checkAnswer("1000000.4", "1000000", equivalent).reason).toBe("Valor 1000000,4 diferente do esperado, 1000000");
+    expect(checkAnswer("x + 0.0000001", "x", equivalent).reason).toMatch(/a resposta vale -?[\d,]+ e a esperada -?[\d,]+$/);
+  });
+});
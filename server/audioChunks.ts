@@ -0,0 +1,75 @@
+import { execFile } from "child_process";
+import { mkdir, mkdtemp, readdir, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+const run = promisify(execFile);
+
+// The speech-to-text service takes files up to 16 MB
+export const MAX_TRANSCRIPTION_BYTES = 16 * 1024 * 1024;
+
+// Ten minutes of mono speech at 24 kbit/s is under 2 MB, well within the limit
+const CHUNK_SECONDS = 600;
+const SPEECH_BITRATE = "24k";
+
+const STAGING_ROOT = path.join(os.tmpdir(), "mathtutor-audio-chunks");
+
+export type AudioChunk = {
+  data: Buffer;
+  mimeType: string;
+  // Seconds from the start of the recording
+  offset: number;
+};
+
+/**
+ * Turns a recording on local disk too large for the speech-to-text
+ * service into pieces of audio it takes, in order.
+ */
+export type AudioSplitter = (input: { filePath: string; mimeType: string }) => Promise<AudioChunk[]>;
+
+/** Run `task` with a scratch directory, removed afterwards. */
+export async function withStagingDir<T>(task: (dir: string) => Promise<T>): Promise<T> {
+  await mkdir(STAGING_ROOT, { recursive: true });
+  const dir = await mkdtemp(path.join(STAGING_ROOT, "recording-"));
+  try {
+    return await task(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Default splitter: ffmpeg drops the video, compresses the speech and
+ * cuts it every `CHUNK_SECONDS`, each piece starting its clock at zero.
+ * It needs the `ffmpeg` binary on the PATH (docs/recording-transcription.md).
+ */
+export const ffmpegSplitter: AudioSplitter = ({ filePath }) => withStagingDir(async dir => {
+  try {
+    await run("ffmpeg", [
+      "-loglevel", "error",
+      "-i", filePath,
+      "-vn", "-ac", "1", "-ar", "16000",
+      "-c:a", "libopus", "-b:a", SPEECH_BITRATE,
+      "-f", "segment", "-segment_time", String(CHUNK_SECONDS), "-reset_timestamps", "1",
+      path.join(dir, "chunk-%04d.ogg"),
+    ]);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.error("[Transcription] ffmpeg not installed: recordings over 16 MB cannot be split for transcription");
+      throw new Error("ffmpeg not installed");
+    }
+    throw error;
+  }
+
+  const names = (await readdir(dir)).filter(name => name.startsWith("chunk-")).sort();
+  const chunks: AudioChunk[] = [];
+  for (let index = 0; index < names.length; index++) {
+    const chunk = await readFile(path.join(dir, names[index]));
+    if (chunk.length > MAX_TRANSCRIPTION_BYTES) {
+      throw new Error(`Audio chunk ${index} is still larger than ${MAX_TRANSCRIPTION_BYTES} bytes`);
+    }
+    chunks.push({ data: chunk, mimeType: "audio/ogg", offset: index * CHUNK_SECONDS });
+  }
+  return chunks;
+});
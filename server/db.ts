@@ -1,4 +1,4 @@
-import { eq, desc, and, isNull } from "drizzle-orm";
+import { eq, desc, and, isNull, isNotNull, inArray, like, or } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users, 
@@ -210,6 +210,13 @@ export async function endSession(id: number): Promise<void> {
   }).where(eq(sessions.id, id));
 }
 
+export async function updateSession(id: number, data: Partial<InsertSession>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(sessions).set(data).where(eq(sessions.id, id));
+}
+
 // ==================== PARTICIPANT FUNCTIONS ====================
 
 export async function addParticipant(participant: InsertParticipant): Promise<Participant | undefined> {
@@ -265,6 +272,14 @@ export async function getParticipantsBySession(sessionId: number): Promise<Parti
   return db.select().from(participants).where(eq(participants.sessionId, sessionId));
 }
 
+export async function getParticipantById(id: number): Promise<Participant | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(participants).where(eq(participants.id, id)).limit(1);
+  return result[0];
+}
+
 export async function getActiveParticipantsBySession(sessionId: number): Promise<Participant[]> {
   const db = await getDb();
   if (!db) return [];
@@ -292,6 +307,14 @@ export async function createRecording(recording: InsertRecording): Promise<Recor
   return created[0];
 }
 
+export async function getRecordingById(id: number): Promise<Recording | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(recordings).where(eq(recordings.id, id)).limit(1);
+  return result[0];
+}
+
 export async function getRecordingsBySession(sessionId: number): Promise<Recording[]> {
   const db = await getDb();
   if (!db) return [];
@@ -357,6 +380,14 @@ export async function getChatMessagesBySession(sessionId: number): Promise<ChatM
     .orderBy(chatMessages.createdAt);
 }
 
+export async function getChatMessageById(id: number): Promise<ChatMessage | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(chatMessages).where(eq(chatMessages.id, id)).limit(1);
+  return result[0];
+}
+
 export async function getChatMessagesByParticipant(participantId: number): Promise<ChatMessage[]> {
   const db = await getDb();
   if (!db) return [];
@@ -378,6 +409,25 @@ export async function createDocument(document: InsertDocument): Promise<Document
   return created[0];
 }
 
+export async function getDocumentById(id: number): Promise<Document | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(documents).where(eq(documents.id, id)).limit(1);
+  return result[0];
+}
+
+/** A document of the room uploaded from the very same files. */
+export async function getDocumentByChecksum(roomId: number, checksum: string): Promise<Document | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(documents)
+    .where(and(eq(documents.roomId, roomId), eq(documents.checksum, checksum)))
+    .limit(1);
+  return result[0];
+}
+
 export async function getDocumentsByRoom(roomId: number): Promise<Document[]> {
   const db = await getDb();
   if (!db) return [];
@@ -387,13 +437,85 @@ export async function getDocumentsByRoom(roomId: number): Promise<Document[]> {
     .orderBy(desc(documents.createdAt));
 }
 
+export async function updateDocument(id: number, data: Partial<InsertDocument>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(documents).set(data).where(eq(documents.id, id));
+}
+
 export async function deleteDocument(id: number): Promise<void> {
   const db = await getDb();
   if (!db) return;
 
+  await db.delete(documentPages).where(eq(documentPages.documentId, id));
   await db.delete(documents).where(eq(documents.id, id));
 }
 
+// ==================== DOCUMENT PAGE FUNCTIONS ====================
+
+import { documentPages, InsertDocumentPage, DocumentPage } from "../drizzle/schema";
+
+export type DocumentPageMatch = {
+  documentId: number;
+  title: string;
+  page: number;
+  text: string;
+  thumbnailUrl: string | null;
+};
+
+export async function createDocumentPages(pages: InsertDocumentPage[]): Promise<void> {
+  const db = await getDb();
+  if (!db || pages.length === 0) return;
+
+  await db.insert(documentPages).values(pages);
+}
+
+export async function getDocumentPage(documentId: number, page: number): Promise<DocumentPage | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(documentPages)
+    .where(and(eq(documentPages.documentId, documentId), eq(documentPages.page, page)))
+    .limit(1);
+  return result[0];
+}
+
+export async function getDocumentPages(documentId: number): Promise<DocumentPage[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(documentPages)
+    .where(eq(documentPages.documentId, documentId))
+    .orderBy(documentPages.page);
+}
+
+/**
+ * Pages of the room's documents whose search text contains every term.
+ * Terms must already be normalized like `documentPages.searchText`.
+ */
+export async function searchDocumentPages(roomId: number, terms: string[], limit: number): Promise<DocumentPageMatch[]> {
+  const db = await getDb();
+  if (!db || terms.length === 0) return [];
+
+  const escapeLike = (term: string) => term.replace(/[\\%_]/g, char => `\\${char}`);
+  return db.select({
+    documentId: documentPages.documentId,
+    title: documents.title,
+    page: documentPages.page,
+    text: documentPages.text,
+    thumbnailUrl: documentPages.thumbnailUrl,
+  })
+    .from(documentPages)
+    .innerJoin(documents, eq(documentPages.documentId, documents.id))
+    .where(and(
+      eq(documents.roomId, roomId),
+      ...terms.map(term => like(documentPages.searchText, `%${escapeLike(term)}%`))
+    ))
+    .orderBy(desc(documents.createdAt), documentPages.page)
+    .limit(limit);
+}
+
 
 // ==================== LIVE CHAT FUNCTIONS ====================
 
@@ -436,6 +558,14 @@ export async function createInteractiveGraph(graph: InsertInteractiveGraph): Pro
   return created[0];
 }
 
+export async function getGraphById(id: number): Promise<InteractiveGraph | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(interactiveGraphs).where(eq(interactiveGraphs.id, id)).limit(1);
+  return result[0];
+}
+
 export async function getGraphsBySession(sessionId: number): Promise<InteractiveGraph[]> {
   const db = await getDb();
   if (!db) return [];
@@ -501,12 +631,13 @@ export async function getActiveExercise(sessionId: number): Promise<Exercise | u
   return result[0];
 }
 
+// Exercises asked so far; those still in the queue are not
 export async function getExercisesBySession(sessionId: number): Promise<Exercise[]> {
   const db = await getDb();
   if (!db) return [];
 
   return db.select().from(exercises)
-    .where(eq(exercises.sessionId, sessionId))
+    .where(and(eq(exercises.sessionId, sessionId), isNull(exercises.queuePosition)))
     .orderBy(desc(exercises.createdAt));
 }
 
@@ -524,6 +655,55 @@ export async function deactivateSessionExercises(sessionId: number): Promise<voi
   await db.update(exercises).set({ isActive: false }).where(eq(exercises.sessionId, sessionId));
 }
 
+/** Ends the exercise if it is still active; false when it had already ended. */
+export async function endActiveExercise(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db.update(exercises).set({ isActive: false })
+    .where(and(eq(exercises.id, id), eq(exercises.isActive, true)));
+  return result[0].affectedRows > 0;
+}
+
+export async function getQueuedExercises(sessionId: number): Promise<Exercise[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(exercises)
+    .where(and(eq(exercises.sessionId, sessionId), isNotNull(exercises.queuePosition)))
+    .orderBy(exercises.queuePosition);
+}
+
+export async function createQueuedExercises(queued: InsertExercise[]): Promise<void> {
+  const db = await getDb();
+  if (!db || queued.length === 0) return;
+
+  await db.insert(exercises).values(queued);
+}
+
+/** Starts the first exercise waiting in the queue of the session, ending the active one. */
+export async function activateNextQueuedExercise(sessionId: number): Promise<Exercise | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [next] = await getQueuedExercises(sessionId);
+  if (!next) return undefined;
+
+  await deactivateSessionExercises(sessionId);
+  await db.update(exercises)
+    .set({ isActive: true, activatedAt: new Date(), queuePosition: null })
+    .where(eq(exercises.id, next.id));
+  return getExerciseById(next.id);
+}
+
+export async function deleteQueuedExercises(sessionId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(exercises)
+    .where(and(eq(exercises.sessionId, sessionId), isNotNull(exercises.queuePosition)));
+}
+
 // ==================== EXERCISE RESPONSE FUNCTIONS ====================
 
 export async function createExerciseResponse(response: InsertExerciseResponse): Promise<ExerciseResponse | undefined> {
@@ -555,9 +735,32 @@ export async function getResponsesByExercise(exerciseId: number): Promise<Exerci
     .orderBy(exerciseResponses.createdAt);
 }
 
+export async function getExerciseResponsesWithNames(exerciseId: number): Promise<(ExerciseResponse & { participantName: string })[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select({ response: exerciseResponses, participant: participants })
+    .from(exerciseResponses)
+    .leftJoin(participants, eq(exerciseResponses.participantId, participants.id))
+    .where(eq(exerciseResponses.exerciseId, exerciseId))
+    .orderBy(exerciseResponses.createdAt);
+
+  return rows.map(({ response, participant }) => ({
+    ...response,
+    participantName: participant?.visibleName || participant?.guestName || "Anônimo",
+  }));
+}
+
 // ==================== PARTICIPANT SCORE FUNCTIONS ====================
 
-export async function updateParticipantScore(sessionId: number, participantId: number, pointsEarned: number, isCorrect: boolean): Promise<void> {
+export async function updateParticipantScore(
+  sessionId: number,
+  participantId: number,
+  pointsEarned: number,
+  isCorrect: boolean,
+  responseTime: number,
+  streak: number
+): Promise<void> {
   const db = await getDb();
   if (!db) return;
 
@@ -572,6 +775,8 @@ export async function updateParticipantScore(sessionId: number, participantId: n
       totalPoints: existing[0].totalPoints + pointsEarned,
       correctAnswers: existing[0].correctAnswers + (isCorrect ? 1 : 0),
       totalAnswers: existing[0].totalAnswers + 1,
+      streak,
+      totalResponseTime: existing[0].totalResponseTime + responseTime,
     }).where(eq(participantScores.id, existing[0].id));
   } else {
     // Create new score record
@@ -581,6 +786,8 @@ export async function updateParticipantScore(sessionId: number, participantId: n
       totalPoints: pointsEarned,
       correctAnswers: isCorrect ? 1 : 0,
       totalAnswers: 1,
+      streak,
+      totalResponseTime: responseTime,
     });
   }
 }
@@ -599,10 +806,10 @@ export async function getSessionRanking(sessionId: number): Promise<(Participant
   const db = await getDb();
   if (!db) return [];
 
-  // Get all scores for the session
+  // Get all scores for the session; on equal points, the faster answers come first
   const scores = await db.select().from(participantScores)
     .where(eq(participantScores.sessionId, sessionId))
-    .orderBy(desc(participantScores.totalPoints));
+    .orderBy(desc(participantScores.totalPoints), participantScores.totalResponseTime);
 
   // Get participant names
   const result = await Promise.all(scores.map(async (score) => {
@@ -652,6 +859,7 @@ export async function updatePdfSyncState(
   } else {
     // Create new state
     await db.insert(pdfSyncState).values({
+      ...data,
       sessionId,
       currentPage: data.currentPage || 1,
       totalPages: data.totalPages || 1,
@@ -674,3 +882,337 @@ export async function clearPdfSyncState(sessionId: number): Promise<void> {
 
   await db.delete(pdfSyncState).where(eq(pdfSyncState.sessionId, sessionId));
 }
+
+// ==================== TRANSCRIPT SEGMENT FUNCTIONS ====================
+
+import { transcriptSegments, InsertTranscriptSegment, TranscriptSegment } from "../drizzle/schema";
+
+export async function getTranscriptionById(id: number): Promise<Transcription | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(transcriptions).where(eq(transcriptions.id, id)).limit(1);
+  return result[0];
+}
+
+export async function createTranscriptSegments(segments: InsertTranscriptSegment[]): Promise<void> {
+  const db = await getDb();
+  if (!db || segments.length === 0) return;
+
+  await db.insert(transcriptSegments).values(segments);
+}
+
+export async function getRecentTranscriptSegments(sessionId: number, limit: number): Promise<TranscriptSegment[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db.select({ segment: transcriptSegments })
+    .from(transcriptSegments)
+    .innerJoin(transcriptions, eq(transcriptSegments.transcriptionId, transcriptions.id))
+    .where(eq(transcriptions.sessionId, sessionId))
+    .orderBy(desc(transcriptSegments.recordingId), desc(transcriptSegments.startMs))
+    .limit(limit);
+
+  // Oldest first, like a transcript
+  return result.map(row => row.segment).reverse();
+}
+
+export async function getTranscriptSegments(transcriptionId: number): Promise<TranscriptSegment[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(transcriptSegments)
+    .where(eq(transcriptSegments.transcriptionId, transcriptionId))
+    .orderBy(transcriptSegments.startMs);
+}
+
+// ==================== LESSON NOTES FUNCTIONS ====================
+
+import { lessonNotes, InsertLessonNotes, LessonNotes } from "../drizzle/schema";
+
+export async function getLessonNotesBySession(sessionId: number): Promise<LessonNotes | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(lessonNotes)
+    .where(eq(lessonNotes.sessionId, sessionId))
+    .limit(1);
+  return result[0];
+}
+
+export async function upsertLessonNotes(
+  sessionId: number,
+  data: Partial<InsertLessonNotes>
+): Promise<LessonNotes | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  await db.insert(lessonNotes)
+    .values({ ...data, sessionId })
+    .onDuplicateKeyUpdate({ set: data });
+
+  return getLessonNotesBySession(sessionId);
+}
+
+// ==================== TUTOR POLICY LOG FUNCTIONS ====================
+
+import { tutorPolicyLog, InsertTutorPolicyLog, TutorPolicyLog } from "../drizzle/schema";
+
+export async function addTutorPolicyLog(entry: InsertTutorPolicyLog): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.insert(tutorPolicyLog).values(entry);
+}
+
+export async function getTutorPolicyLogByRoom(roomId: number, limit: number = 100): Promise<TutorPolicyLog[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(tutorPolicyLog)
+    .where(eq(tutorPolicyLog.roomId, roomId))
+    .orderBy(desc(tutorPolicyLog.createdAt), desc(tutorPolicyLog.id))
+    .limit(limit);
+}
+
+// ==================== WHITEBOARD FUNCTIONS ====================
+
+import { whiteboards, InsertWhiteboard, Whiteboard, whiteboardStrokes, InsertWhiteboardStroke, WhiteboardStroke } from "../drizzle/schema";
+
+export async function getWhiteboard(sessionId: number): Promise<Whiteboard | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(whiteboards)
+    .where(eq(whiteboards.sessionId, sessionId))
+    .limit(1);
+  return result[0];
+}
+
+export async function upsertWhiteboard(
+  sessionId: number,
+  data: Partial<InsertWhiteboard>
+): Promise<Whiteboard | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  await db.insert(whiteboards)
+    .values({ ...data, sessionId })
+    .onDuplicateKeyUpdate({ set: data });
+
+  return getWhiteboard(sessionId);
+}
+
+export async function getWhiteboardStrokes(sessionId: number): Promise<WhiteboardStroke[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(whiteboardStrokes)
+    .where(eq(whiteboardStrokes.sessionId, sessionId))
+    .orderBy(whiteboardStrokes.id);
+}
+
+export async function addWhiteboardStroke(stroke: InsertWhiteboardStroke): Promise<WhiteboardStroke | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.insert(whiteboardStrokes).values(stroke);
+  const insertId = result[0].insertId;
+  const created = await db.select().from(whiteboardStrokes).where(eq(whiteboardStrokes.id, insertId)).limit(1);
+  return created[0];
+}
+
+export async function deleteWhiteboardStrokes(sessionId: number, ids: number[]): Promise<void> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return;
+
+  await db.delete(whiteboardStrokes)
+    .where(and(eq(whiteboardStrokes.sessionId, sessionId), inArray(whiteboardStrokes.id, ids)));
+}
+
+export async function clearWhiteboardPage(sessionId: number, page: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(whiteboardStrokes)
+    .where(and(eq(whiteboardStrokes.sessionId, sessionId), eq(whiteboardStrokes.page, page)));
+}
+
+// ==================== PDF ANNOTATION FUNCTIONS ====================
+
+import { pdfAnnotations, InsertPdfAnnotation, PdfAnnotation } from "../drizzle/schema";
+
+/** Annotations of a document, all of them or only those drawn in one session. */
+export async function getPdfAnnotations(documentId: number, sessionId?: number): Promise<PdfAnnotation[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(pdfAnnotations)
+    .where(sessionId === undefined
+      ? eq(pdfAnnotations.documentId, documentId)
+      : and(eq(pdfAnnotations.documentId, documentId), eq(pdfAnnotations.sessionId, sessionId)))
+    .orderBy(pdfAnnotations.id);
+}
+
+export async function addPdfAnnotation(annotation: InsertPdfAnnotation): Promise<PdfAnnotation | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.insert(pdfAnnotations).values(annotation);
+  const insertId = result[0].insertId;
+  const created = await db.select().from(pdfAnnotations).where(eq(pdfAnnotations.id, insertId)).limit(1);
+  return created[0];
+}
+
+// Only annotations of the room are touched, and only the session's unless the room keeps them
+export async function deletePdfAnnotations(documentId: number, ids: number[], roomId: number, sessionId?: number): Promise<void> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return;
+
+  const inRoom = and(eq(pdfAnnotations.roomId, roomId), eq(pdfAnnotations.documentId, documentId), inArray(pdfAnnotations.id, ids));
+  await db.delete(pdfAnnotations)
+    .where(sessionId === undefined ? inRoom : and(inRoom, eq(pdfAnnotations.sessionId, sessionId)));
+}
+
+export async function clearPdfAnnotationPage(documentId: number, page: number, roomId: number, sessionId?: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  const onPage = and(eq(pdfAnnotations.roomId, roomId), eq(pdfAnnotations.documentId, documentId), eq(pdfAnnotations.page, page));
+  await db.delete(pdfAnnotations)
+    .where(sessionId === undefined ? onPage : and(onPage, eq(pdfAnnotations.sessionId, sessionId)));
+}
+
+// ==================== QUESTION BANK FUNCTIONS ====================
+
+import { bankQuestions, InsertBankQuestion, BankQuestion, quizSets, InsertQuizSet, QuizSet } from "../drizzle/schema";
+
+export type BankQuestionFilter = {
+  topic?: string;
+  difficulty?: BankQuestion["difficulty"];
+  grade?: string;
+  // Words in the question
+  search?: string;
+};
+
+export async function createBankQuestion(question: InsertBankQuestion): Promise<BankQuestion | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.insert(bankQuestions).values(question);
+  const insertId = result[0].insertId;
+  const created = await db.select().from(bankQuestions).where(eq(bankQuestions.id, insertId)).limit(1);
+  return created[0];
+}
+
+export async function getBankQuestionById(id: number): Promise<BankQuestion | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(bankQuestions).where(eq(bankQuestions.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getBankQuestions(ownerId: number, filter: BankQuestionFilter = {}): Promise<BankQuestion[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const search = filter.search?.trim();
+  return db.select().from(bankQuestions)
+    .where(and(
+      eq(bankQuestions.ownerId, ownerId),
+      filter.topic ? eq(bankQuestions.topic, filter.topic) : undefined,
+      filter.difficulty ? eq(bankQuestions.difficulty, filter.difficulty) : undefined,
+      filter.grade ? eq(bankQuestions.grade, filter.grade) : undefined,
+      search
+        ? or(like(bankQuestions.question, `%${search}%`), like(bankQuestions.questionLatex, `%${search}%`))
+        : undefined,
+    ))
+    .orderBy(desc(bankQuestions.updatedAt));
+}
+
+/** The teacher's questions among the ids, in the order of the ids; missing ones are left out. */
+export async function getBankQuestionsByIds(ownerId: number, ids: number[]): Promise<BankQuestion[]> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return [];
+
+  const found = await db.select().from(bankQuestions)
+    .where(and(eq(bankQuestions.ownerId, ownerId), inArray(bankQuestions.id, ids)));
+  return ids.flatMap(id => found.filter(question => question.id === id));
+}
+
+/** Topics and grades the teacher has tagged questions with, for filters. */
+export async function getBankTags(ownerId: number): Promise<{ topics: string[]; grades: string[] }> {
+  const db = await getDb();
+  if (!db) return { topics: [], grades: [] };
+
+  const tags = await db.selectDistinct({ topic: bankQuestions.topic, grade: bankQuestions.grade })
+    .from(bankQuestions)
+    .where(eq(bankQuestions.ownerId, ownerId));
+  const distinct = (values: (string | null)[]) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b, "pt-BR"));
+  return { topics: distinct(tags.map(tag => tag.topic)), grades: distinct(tags.map(tag => tag.grade)) };
+}
+
+export async function updateBankQuestion(id: number, data: Partial<InsertBankQuestion>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(bankQuestions).set(data).where(eq(bankQuestions.id, id));
+}
+
+export async function deleteBankQuestion(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(bankQuestions).where(eq(bankQuestions.id, id));
+}
+
+export async function createQuizSet(set: InsertQuizSet): Promise<QuizSet | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.insert(quizSets).values(set);
+  const insertId = result[0].insertId;
+  const created = await db.select().from(quizSets).where(eq(quizSets.id, insertId)).limit(1);
+  return created[0];
+}
+
+export async function getQuizSetById(id: number): Promise<QuizSet | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(quizSets).where(eq(quizSets.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getQuizSetByShareCode(shareCode: string): Promise<QuizSet | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(quizSets).where(eq(quizSets.shareCode, shareCode)).limit(1);
+  return result[0];
+}
+
+export async function getQuizSetsByOwner(ownerId: number): Promise<QuizSet[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(quizSets)
+    .where(eq(quizSets.ownerId, ownerId))
+    .orderBy(desc(quizSets.updatedAt));
+}
+
+export async function updateQuizSet(id: number, data: Partial<InsertQuizSet>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(quizSets).set(data).where(eq(quizSets.id, id));
+}
+
+export async function deleteQuizSet(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(quizSets).where(eq(quizSets.id, id));
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { convertToPdf, sniffDocumentFormat } from "./documentConvert";
+import { parseLatex, parseMarkdown } from "./documentMarkup";
+import { readPdfPages } from "./pdfText";
+
+// Mock the database functions
+vi.mock("./db", () => ({}));
+
+vi.mock("./storage", () => ({
+  storageRead: vi.fn(),
+}));
+
+// 4×2 pixel images
+const PNG = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAQAAAACCAYAAAB/qH1jAAAABHNCSVQICAgIfAhkiAAAAAFzUkdCAK7OHOkAAAATSURBVAiZYzxjbPyfAQkwMaABAEUhAjXBdqYGAAAAAElFTkSuQmCC", "base64");
+const JPEG = Buffer.from("/9j/2wBDABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERXRTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2P/2wBDARESEhgVGC8aGi9jQjhCY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2P/wAARCAACAAQDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAX/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABAb/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCeAGpH/9k=", "base64");
+
+/** The JPEG with an EXIF segment giving its orientation, as phones write it. */
+function withOrientation(jpeg: Buffer, orientation: number): Uint8Array {
+  const exif = Buffer.alloc(36);
+  exif.writeUInt16BE(0xffe1, 0);
+  exif.writeUInt16BE(34, 2);
+  exif.write("Exif\0\0MM", 4, "latin1");
+  exif.writeUInt16BE(42, 12);
+  exif.writeUInt32BE(8, 14);
+  exif.writeUInt16BE(1, 18);
+  exif.writeUInt16BE(0x0112, 20);
+  exif.writeUInt16BE(3, 22);
+  exif.writeUInt32BE(1, 24);
+  exif.writeUInt16BE(orientation, 28);
+  return new Uint8Array(Buffer.concat([jpeg.subarray(0, 2), exif, jpeg.subarray(2)]));
+}
+
+function text(source: string): Uint8Array {
+  return new TextEncoder().encode(source);
+}
+
+async function pdfText(data: Uint8Array): Promise<string> {
+  const pages = await readPdfPages(data, 40);
+  return pages.map(page => page.text).join("\n");
+}
+
+describe("document conversion", () => {
+  it("recognizes files by their content", () => {
+    expect(sniffDocumentFormat(text("%PDF-1.7\n"))).toBe("pdf");
+    expect(sniffDocumentFormat(new Uint8Array(PNG))).toBe("png");
+    expect(sniffDocumentFormat(new Uint8Array(JPEG))).toBe("jpeg");
+    expect(sniffDocumentFormat(text("# Lista 1\n\nCalcule $x^2$."))).toBe("markdown");
+    expect(sniffDocumentFormat(text("\\documentclass{article}\n\\begin{document}Oi\\end{document}"))).toBe("latex");
+    expect(sniffDocumentFormat(text("\\frac{a}{b} + \\sqrt{2}"))).toBe("latex");
+    expect(sniffDocumentFormat(text("Matriz:\n\n$$\\begin{pmatrix} 1 & 0 \\\\ 0 & 1 \\end{pmatrix}$$"))).toBe("markdown");
+  });
+
+  it("explains why a file cannot be used", () => {
+    expect(() => sniffDocumentFormat(new Uint8Array())).toThrow("O arquivo está vazio");
+    expect(() => sniffDocumentFormat(text("GIF89a..."))).toThrow("Imagens GIF não são suportadas");
+    expect(() => sniffDocumentFormat(text("PK\x03\x04word/document.xml"))).toThrow("Exporte como PDF");
+    expect(() => sniffDocumentFormat(new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x00]))).toThrow("Formato de arquivo não suportado");
+  });
+
+  it("joins images into one page each, turned as the photo was taken", async () => {
+    const { data, format } = await convertToPdf([new Uint8Array(PNG), withOrientation(JPEG, 6)], "Fotos do quadro");
+
+    expect(format).toBe("png");
+    const pdf = await PDFDocument.load(data);
+    const [first, second] = pdf.getPages();
+    expect(pdf.getPageCount()).toBe(2);
+    expect(pdf.getTitle()).toBe("Fotos do quadro");
+    // Wider than tall: landscape
+    expect(first.getWidth()).toBeGreaterThan(first.getHeight());
+    expect(first.getRotation().angle).toBe(0);
+    expect(second.getRotation().angle).toBe(90);
+  });
+
+  it("accepts several files only when they are all images", async () => {
+    await expect(convertToPdf([new Uint8Array(PNG), text("# Notas")], "Notas"))
+      .rejects.toThrow("Só imagens podem ser enviadas juntas");
+  });
+
+  it("keeps prices as text and formulas as math in Markdown", () => {
+    const blocks = parseMarkdown("# Lista\n\nCusta R$ 10 e R$ 20.\n\n- Calcule $x^2$\n  - em $x=3$\n\n$$\\frac{a}{b}$$");
+
+    expect(blocks.map(block => block.type)).toEqual(["heading", "paragraph", "item", "item", "math"]);
+    expect(blocks[1]).toEqual({ type: "paragraph", content: [{ type: "text", text: "Custa R$ 10 e R$ 20." }] });
+    expect(blocks[2]).toMatchObject({ depth: 0, content: [{ type: "text", text: "Calcule " }, { type: "math", tex: "x^2" }] });
+    expect(blocks[3]).toMatchObject({ depth: 1 });
+    expect(blocks[4]).toEqual({ type: "math", tex: "\\frac{a}{b}" });
+  });
+
+  it("reads the structure of a LaTeX document and bare formulas", () => {
+    const document = parseLatex([
+      "\\documentclass{article}",
+      "\\title{Lista}",
+      "\\begin{document}",
+      "\\maketitle",
+      "\\section{Derivadas}",
+      "Calcule \\textbf{todas} as derivadas: % rascunho",
+      "\\begin{enumerate}\\item $f(x) = x^2$\\item $g(x) = \\sin x$\\end{enumerate}",
+      "\\end{document}",
+    ].join("\n"));
+
+    expect(document.map(block => block.type)).toEqual(["heading", "heading", "paragraph", "item", "item"]);
+    expect(document[2]).toMatchObject({ content: [{ type: "text", text: "Calcule " }, { type: "text", text: "todas", bold: true }, { type: "text", text: " as derivadas:" }] });
+    expect(document[3]).toMatchObject({ marker: "1.", content: [{ type: "math", tex: "f(x) = x^2" }] });
+
+    expect(parseLatex("\\int_0^1 x^2\\,dx = \\frac{1}{3}\n\n\\sum_{n=1}^\\infty \\frac{1}{n^2}")).toEqual([
+      { type: "math", tex: "\\int_0^1 x^2\\,dx = \\frac{1}{3}" },
+      { type: "math", tex: "\\sum_{n=1}^\\infty \\frac{1}{n^2}" },
+    ]);
+  });
+
+  it("typesets Markdown notes into a PDF with searchable text", async () => {
+    const { data, format } = await convertToPdf([text("# Função quadrática\n\nSeja $f(x) = ax^2 + bx + c$ com $a \\neq 0$.\n\n$$x = \\frac{-b \\pm \\sqrt{\\Delta}}{2a}$$")], "Notas");
+
+    expect(format).toBe("markdown");
+    const content = await pdfText(data);
+    expect(content).toContain("Função quadrática");
+    expect(content).toContain("Seja");
+  });
+});
@@ -0,0 +1,169 @@
+import { degrees, PDFDocument, type PDFImage } from "pdf-lib";
+import { MAX_IMAGE_PAGES, type DocumentFormat } from "@shared/documentFormats";
+import { parseLatex, parseMarkdown } from "./documentMarkup";
+import { typesetDocument } from "./documentTypeset";
+
+export class DocumentConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentConversionError";
+  }
+}
+
+const UNSUPPORTED_FORMAT = "Formato de arquivo não suportado. Envie PDF, imagens PNG ou JPEG, Markdown ou LaTeX";
+
+// Formats recognized only to tell the teacher what to do with them instead
+const REJECTED_FORMATS: { signature: string; offset?: number; message: string }[] = [
+  { signature: "GIF8", message: "Imagens GIF não são suportadas. Envie PNG ou JPEG" },
+  { signature: "WEBP", offset: 8, message: "Imagens WebP não são suportadas. Envie PNG ou JPEG" },
+  { signature: "ftypheic", offset: 4, message: "Fotos HEIC não são suportadas. Envie PNG ou JPEG" },
+  { signature: "ftypmif1", offset: 4, message: "Fotos HEIC não são suportadas. Envie PNG ou JPEG" },
+  { signature: "BM", message: "Imagens BMP não são suportadas. Envie PNG ou JPEG" },
+  { signature: "PK\x03\x04", message: "Documentos do Word, PowerPoint ou compactados não são suportados. Exporte como PDF" },
+  { signature: "\xd0\xcf\x11\xe0", message: "Documentos do Word ou PowerPoint não são suportados. Exporte como PDF" },
+];
+
+// A PDF header may follow up to this many bytes of junk
+export const PDF_HEADER_WINDOW = 1024;
+
+// Formulas, which Markdown notes share with LaTeX
+const MATH_SPANS = /\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\$[^$\n]*\$/g;
+
+// LaTeX structure a Markdown file would not have, outside formulas
+const LATEX_MARKERS = /\\(documentclass|begin\{|section\*?\{|subsection\*?\{|maketitle|textbf\{|emph\{|item\b)/;
+
+// A4, in points, and the margin around images
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const IMAGE_MARGIN = 24;
+
+// Rotation, in degrees clockwise, each EXIF orientation of a photo asks for
+const EXIF_ROTATIONS: Record<number, number> = { 3: 180, 6: 90, 8: 270 };
+
+function bytesAt(data: Uint8Array, text: string, offset = 0): boolean {
+  if (data.length < offset + text.length) return false;
+  for (let index = 0; index < text.length; index++) {
+    if (data[offset + index] !== text.charCodeAt(index)) return false;
+  }
+  return true;
+}
+
+/**
+ * The text of a file that is text: UTF-8, or Latin-1 for older files,
+ * without control characters other than whitespace. Null otherwise.
+ */
+function decodeText(data: Uint8Array): string | null {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder("latin1").decode(data);
+  }
+  if (/[\x00-\x08\x0e-\x1f\x7f]/.test(text)) return null;
+  return text.replace(/^\ufeff/, "");
+}
+
+/** Whether a file is a PDF, from its first `PDF_HEADER_WINDOW` bytes alone. */
+export function isPdfHeader(data: Uint8Array): boolean {
+  return new TextDecoder("latin1").decode(data.subarray(0, PDF_HEADER_WINDOW)).includes("%PDF-");
+}
+
+/** What an uploaded file is, from its content. Throws a message for the teacher when it cannot be used. */
+export function sniffDocumentFormat(data: Uint8Array): DocumentFormat {
+  if (data.length === 0) throw new DocumentConversionError("O arquivo está vazio");
+
+  if (isPdfHeader(data)) return "pdf";
+  if (bytesAt(data, "\x89PNG\r\n\x1a\n")) return "png";
+  if (bytesAt(data, "\xff\xd8\xff")) return "jpeg";
+  for (const rejected of REJECTED_FORMATS) {
+    if (bytesAt(data, rejected.signature, rejected.offset)) throw new DocumentConversionError(rejected.message);
+  }
+
+  const text = decodeText(data);
+  if (text === null) throw new DocumentConversionError(UNSUPPORTED_FORMAT);
+  // Commands without any $ around them are a LaTeX formula, not Markdown
+  return LATEX_MARKERS.test(text.replace(MATH_SPANS, "")) || (/\\[a-zA-Z]+/.test(text) && !text.includes("$")) ? "latex" : "markdown";
+}
+
+/** Rotation the EXIF orientation of a JPEG asks for, 0 without one. */
+function jpegRotation(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let at = 2;
+  while (at + 4 <= data.length && data[at] === 0xff) {
+    const marker = data[at + 1];
+    // Metadata segments all come before the start of the image data
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && bytesAt(data, "Exif\0\0", at + 4)) {
+      const tiff = at + 10;
+      const little = bytesAt(data, "II", tiff);
+      const directory = tiff + view.getUint32(tiff + 4, little);
+      const entries = directory + 2 <= data.length ? view.getUint16(directory, little) : 0;
+      for (let entry = directory + 2; entry + 12 <= data.length && entry < directory + 2 + entries * 12; entry += 12) {
+        if (view.getUint16(entry, little) === 0x0112) return EXIF_ROTATIONS[view.getUint16(entry + 8, little)] ?? 0;
+      }
+      return 0;
+    }
+    at += 2 + view.getUint16(at + 2);
+  }
+  return 0;
+}
+
+/** One A4 page per image, in the orientation of the image, which fills it up to a margin. */
+async function imagesToPdf(images: { data: Uint8Array; format: DocumentFormat }[], title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+
+  for (const { data, format } of images) {
+    let image: PDFImage;
+    try {
+      image = format === "png" ? await pdf.embedPng(data) : await pdf.embedJpg(data);
+    } catch {
+      throw new DocumentConversionError("Não foi possível ler uma das imagens");
+    }
+
+    // Laid out as stored; the page is then turned the way the camera was held
+    const [width, height] = image.width > image.height ? [A4_HEIGHT, A4_WIDTH] : [A4_WIDTH, A4_HEIGHT];
+    const scale = Math.min((width - 2 * IMAGE_MARGIN) / image.width, (height - 2 * IMAGE_MARGIN) / image.height);
+    const page = pdf.addPage([width, height]);
+    page.drawImage(image, {
+      x: (width - image.width * scale) / 2,
+      y: (height - image.height * scale) / 2,
+      width: image.width * scale,
+      height: image.height * scale,
+    });
+    if (format === "jpeg") page.setRotation(degrees(jpegRotation(data)));
+  }
+  return pdf.save();
+}
+
+/**
+ * The PDF to store for an upload: a PDF as it is, images as one page
+ * each, Markdown and LaTeX typeset. Several files are only accepted as
+ * images to join into one PDF.
+ */
+export async function convertToPdf(files: Uint8Array[], title: string): Promise<{ data: Uint8Array; format: DocumentFormat }> {
+  const formats = files.map(sniffDocumentFormat);
+  const [format] = formats;
+
+  if (files.length > 1 && !formats.every(each => each === "png" || each === "jpeg")) {
+    throw new DocumentConversionError("Só imagens podem ser enviadas juntas, como páginas de um PDF");
+  }
+  if (files.length > MAX_IMAGE_PAGES) {
+    throw new DocumentConversionError(`Envie no máximo ${MAX_IMAGE_PAGES} imagens de uma vez`);
+  }
+
+  switch (format) {
+    case "pdf":
+      return { data: files[0], format };
+    case "png":
+    case "jpeg":
+      return { data: await imagesToPdf(files.map((data, index) => ({ data, format: formats[index] })), title), format };
+    case "markdown":
+    case "latex": {
+      const text = decodeText(files[0]) ?? "";
+      const blocks = format === "latex" ? parseLatex(text) : parseMarkdown(text);
+      if (blocks.length === 0) throw new DocumentConversionError("O arquivo está vazio");
+      return { data: await typesetDocument(blocks, title), format };
+    }
+  }
+}
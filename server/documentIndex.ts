@@ -0,0 +1,57 @@
+import type { Document, InsertDocumentPage } from "../drizzle/schema";
+import { normalizeSearchText } from "@shared/documentSearch";
+import { readPdfPages } from "./pdfText";
+import { storagePut, storageRead } from "./storage";
+import * as db from "./db";
+
+const THUMBNAIL_WIDTH = 160;
+
+// Page text is stored in a TEXT column: 64 KB, up to four bytes per character
+const MAX_PAGE_TEXT = 16000;
+
+/**
+ * Count the pages of an uploaded PDF, store the text of each page for
+ * search and upload a thumbnail of each page next to the file. The
+ * document ends up ready or failed; errors are logged, never thrown.
+ */
+export async function runDocumentIndexJob(document: Document, data?: Uint8Array): Promise<Document["indexStatus"]> {
+  try {
+    const pages = await readPdfPages(data ?? new Uint8Array(await storageRead(document.s3Key)), THUMBNAIL_WIDTH);
+
+    const rows: InsertDocumentPage[] = [];
+    for (let index = 0; index < pages.length; index++) {
+      const { text, thumbnail } = pages[index];
+      const page = index + 1;
+      let thumbnailKey: string | null = null;
+      let thumbnailUrl: string | null = null;
+      if (thumbnail) {
+        thumbnailKey = `${document.s3Key.replace(/\.pdf$/i, "")}/page-${page}.jpg`;
+        thumbnailUrl = (await storagePut(thumbnailKey, thumbnail, "image/jpeg")).url;
+      }
+      const stored = text.slice(0, MAX_PAGE_TEXT);
+      rows.push({
+        documentId: document.id,
+        page,
+        text: stored,
+        searchText: normalizeSearchText(stored),
+        thumbnailKey,
+        thumbnailUrl,
+      });
+    }
+
+    await db.createDocumentPages(rows);
+    await db.updateDocument(document.id, { pageCount: pages.length, indexStatus: "ready" });
+    return "ready";
+  } catch (error) {
+    console.error("[Documents] Failed to index document", document.id, error);
+    await db.updateDocument(document.id, { indexStatus: "failed" });
+    return "failed";
+  }
+}
+
+/** Start indexing an uploaded document in the background. */
+export function enqueueDocumentIndexing(document: Document, data?: Uint8Array) {
+  runDocumentIndexJob(document, data).catch(error => {
+    console.error("[Documents] Indexing job crashed", document.id, error);
+  });
+}
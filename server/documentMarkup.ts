@@ -0,0 +1,630 @@
+import katex from "katex";
+import type { DocumentBlock, InlineSpan } from "./documentTypeset";
+
+/**
+ * Parsing of Markdown notes and LaTeX sources into the blocks the
+ * typesetter sets. Both cover what teachers write in class notes and
+ * exercise lists, not the full languages: anything unknown is kept as text.
+ */
+
+type SpanStyle = { bold?: boolean; italic?: boolean; code?: boolean };
+
+const NBSP = "\u00a0";
+
+function pushText(spans: InlineSpan[], text: string, style: SpanStyle) {
+  if (!text) return;
+  const last = spans[spans.length - 1];
+  if (last?.type === "text" && !!last.bold === !!style.bold && !!last.italic === !!style.italic && !!last.code === !!style.code) {
+    last.text += text;
+  } else {
+    spans.push({ type: "text", text, ...style });
+  }
+}
+
+/** The spans without the whitespace at the start and end of the text they make up. */
+function trimSpans(spans: InlineSpan[]): InlineSpan[] {
+  const trimmed = spans.map(span => ({ ...span }));
+  const first = trimmed[0];
+  if (first?.type === "text") first.text = first.text.replace(/^[ \t\n]+/, "");
+  const last = trimmed[trimmed.length - 1];
+  if (last?.type === "text") last.text = last.text.replace(/[ \t\n]+$/, "");
+  return trimmed.filter(span => span.type !== "text" || span.text !== "");
+}
+
+function hasText(spans: InlineSpan[]): boolean {
+  return spans.some(span => span.type === "math" || (span.type === "text" && span.text.trim() !== ""));
+}
+
+// ==================== MARKDOWN ====================
+
+/**
+ * Where an inline `$…$` formula that opens at `start` closes, or -1. As in
+ * Pandoc, the opening `$` must be followed and the closing one preceded by
+ * a non-space, and the closing one not followed by a digit, so prices
+ * like "R$ 10" stay text.
+ */
+function closingDollar(text: string, start: number): number {
+  if (!text[start + 1] || /\s/.test(text[start + 1])) return -1;
+  for (let at = start + 1; at < text.length; at++) {
+    if (text[at] === "\\") {
+      at++;
+    } else if (text[at] === "$") {
+      if (/\s/.test(text[at - 1]) || /\d/.test(text[at + 1] ?? "")) return -1;
+      return at;
+    }
+  }
+  return -1;
+}
+
+/** Emphasis, code, links and math of a line of Markdown. */
+export function parseMarkdownInline(text: string): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const style: SpanStyle = {};
+  let at = 0;
+
+  while (at < text.length) {
+    const char = text[at];
+    const rest = text.slice(at);
+
+    if (char === "\\" && rest.startsWith("\\(")) {
+      const end = text.indexOf("\\)", at + 2);
+      if (end !== -1) {
+        spans.push({ type: "math", tex: text.slice(at + 2, end) });
+        at = end + 2;
+        continue;
+      }
+    }
+    if (char === "\\" && /^[\\`*_{}[\]()#+\-.!$|>~]$/.test(text[at + 1] ?? "")) {
+      pushText(spans, text[at + 1], style);
+      at += 2;
+      continue;
+    }
+    if (rest.startsWith("$$")) {
+      const end = text.indexOf("$$", at + 2);
+      if (end !== -1) {
+        spans.push({ type: "math", tex: text.slice(at + 2, end) });
+        at = end + 2;
+        continue;
+      }
+    }
+    if (char === "$") {
+      const end = closingDollar(text, at);
+      if (end !== -1) {
+        spans.push({ type: "math", tex: text.slice(at + 1, end) });
+        at = end + 1;
+        continue;
+      }
+    }
+    if (char === "`") {
+      const end = text.indexOf("`", at + 1);
+      if (end !== -1) {
+        pushText(spans, text.slice(at + 1, end), { ...style, code: true });
+        at = end + 1;
+        continue;
+      }
+    }
+    const link = rest.match(/^!?\[([^\]]*)\]\([^)]*\)/);
+    if (link) {
+      // Images cannot be fetched here, so only their description is kept
+      pushText(spans, link[1], link[0].startsWith("!") ? { ...style, italic: true } : style);
+      at += link[0].length;
+      continue;
+    }
+    // Emphasis opens before a non-space and closes after one, so "2 * 3" stays text
+    const marker = rest.startsWith("**") || rest.startsWith("__") ? 2 : char === "*" || char === "_" ? 1 : 0;
+    const active = marker === 2 ? style.bold : style.italic;
+    const flanked = active ? !/\s/.test(text[at - 1] ?? " ") : !/\s/.test(text[at + marker] ?? " ");
+    // An underscore inside a word, as in nomes_de_variaveis, is not emphasis either
+    const inWord = char === "_" && /\w/.test(text[at - 1] ?? "") && /\w/.test(text[at + marker] ?? "");
+    if (marker > 0 && flanked && !inWord) {
+      if (marker === 2) style.bold = !style.bold;
+      else style.italic = !style.italic;
+      at += marker;
+      continue;
+    }
+    pushText(spans, char, style);
+    at += 1;
+  }
+  return spans;
+}
+
+/** The lines of a paragraph, with Markdown's hard breaks (two spaces or a backslash at the end) kept. */
+function markdownParagraph(lines: string[]): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  lines.forEach((line, index) => {
+    const hardBreak = / {2,}$|\\$/.test(line);
+    spans.push(...parseMarkdownInline(line.replace(/ {2,}$|\\$/, "").trim()));
+    if (index < lines.length - 1) spans.push(hardBreak ? { type: "break" } : { type: "text", text: " " });
+  });
+  return spans;
+}
+
+const MARKDOWN_FENCE = /^\s*(```|~~~)/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const MARKDOWN_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const MARKDOWN_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const MARKDOWN_QUOTE = /^\s*>\s?(.*)$/;
+const MARKDOWN_DISPLAY_MATH = /^\s*(\$\$|\\\[)/;
+
+/** Headings, paragraphs, lists, quotes, code and display math of a Markdown document. */
+export function parseMarkdown(source: string): DocumentBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: DocumentBlock[] = [];
+  // Indentation of each open list level
+  let listIndents: number[] = [];
+  let at = 0;
+
+  const startsBlock = (line: string) =>
+    MARKDOWN_FENCE.test(line) || MARKDOWN_HEADING.test(line) || MARKDOWN_RULE.test(line) ||
+    MARKDOWN_ITEM.test(line) || MARKDOWN_QUOTE.test(line) || MARKDOWN_DISPLAY_MATH.test(line);
+
+  while (at < lines.length) {
+    const line = lines[at];
+
+    if (line.trim() === "") {
+      at++;
+      continue;
+    }
+
+    const fence = line.match(MARKDOWN_FENCE);
+    if (fence) {
+      const code: string[] = [];
+      at++;
+      while (at < lines.length && !lines[at].trim().startsWith(fence[1])) code.push(lines[at++]);
+      at++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      listIndents = [];
+      continue;
+    }
+
+    const math = line.match(MARKDOWN_DISPLAY_MATH);
+    if (math) {
+      const close = math[1] === "$$" ? "$$" : "\\]";
+      const opening = line.indexOf(math[1]) + math[1].length;
+      let tex = line.slice(opening);
+      let end = tex.indexOf(close);
+      while (end === -1 && at + 1 < lines.length) {
+        tex += "\n" + lines[++at];
+        end = tex.indexOf(close);
+      }
+      blocks.push({ type: "math", tex: (end === -1 ? tex : tex.slice(0, end)).trim() });
+      at++;
+      continue;
+    }
+
+    const heading = line.match(MARKDOWN_HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, content: parseMarkdownInline(heading[2]) });
+      listIndents = [];
+      at++;
+      continue;
+    }
+
+    if (MARKDOWN_RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      at++;
+      continue;
+    }
+
+    const item = line.match(MARKDOWN_ITEM);
+    if (item) {
+      const indent = item[1].replace(/\t/g, "    ").length;
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop();
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent);
+      const depth = listIndents.length - 1;
+
+      // Lines indented under an item, up to a blank line or the next block, continue it
+      const content = [item[3]];
+      at++;
+      while (at < lines.length && lines[at].trim() !== "" && !startsBlock(lines[at])) content.push(lines[at++]);
+
+      const ordered = /\d/.test(item[2]);
+      blocks.push({
+        type: "item",
+        marker: ordered ? item[2].replace(")", ".") : depth === 0 ? "•" : "–",
+        depth,
+        content: markdownParagraph(content),
+      });
+      continue;
+    }
+    listIndents = [];
+
+    if (MARKDOWN_QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (at < lines.length && MARKDOWN_QUOTE.test(lines[at])) quoted.push(lines[at++].match(MARKDOWN_QUOTE)![1]);
+      blocks.push({ type: "quote", content: markdownParagraph(quoted) });
+      continue;
+    }
+
+    const paragraph = [line];
+    at++;
+    while (at < lines.length && lines[at].trim() !== "" && !startsBlock(lines[at])) paragraph.push(lines[at++]);
+    blocks.push({ type: "paragraph", content: markdownParagraph(paragraph) });
+  }
+  return blocks;
+}
+
+// ==================== LATEX ====================
+
+// Combining marks of LaTeX's accent commands, as in \'a or \c{c}
+const LATEX_ACCENTS: Record<string, string> = {
+  "'": "\u0301",
+  "`": "\u0300",
+  "^": "\u0302",
+  "~": "\u0303",
+  '"': "\u0308",
+  "=": "\u0304",
+  ".": "\u0307",
+  c: "\u0327",
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ldots: "…",
+  dots: "…",
+  LaTeX: "LaTeX",
+  TeX: "TeX",
+  textendash: "–",
+  textemdash: "—",
+  S: "§",
+  P: "¶",
+  copyright: "©",
+  textdegree: "°",
+  quad: "  ",
+  qquad: "    ",
+};
+
+// Commands whose argument is dropped along with them
+const LATEX_IGNORED = new Set([
+  "label", "vspace", "hspace", "usepackage", "documentclass", "setlength", "pagestyle", "thispagestyle",
+  "includegraphics", "bibliographystyle", "bibliography", "newcommand", "renewcommand", "caption",
+  "title", "author", "date",
+]);
+
+const LATEX_MATH_ENVIRONMENTS = new Set([
+  "equation", "equation*", "align", "align*", "gather", "gather*", "multline", "multline*",
+  "eqnarray", "eqnarray*", "displaymath", "alignat", "alignat*", "flalign", "flalign*",
+]);
+
+const LATEX_CODE_ENVIRONMENTS = new Set(["verbatim", "verbatim*", "lstlisting", "minted"]);
+
+const LATEX_HEADINGS: Record<string, number> = { section: 1, subsection: 2, subsubsection: 3, paragraph: 3 };
+
+/** The content of the `{…}` group opening at `open`, and where it ends. */
+function readGroup(text: string, open: number): { content: string; end: number } {
+  let depth = 0;
+  for (let at = open; at < text.length; at++) {
+    if (text[at] === "\\") {
+      at++;
+    } else if (text[at] === "{") {
+      depth++;
+    } else if (text[at] === "}" && --depth === 0) {
+      return { content: text.slice(open + 1, at), end: at + 1 };
+    }
+  }
+  return { content: text.slice(open + 1), end: text.length };
+}
+
+/** The argument of a command when the text at `at` is `{…}`, skipping spaces and an optional `[…]`. */
+function readArgument(text: string, at: number): { content: string; end: number } | null {
+  let start = at;
+  while (text[start] === " ") start++;
+  if (text[start] === "[") {
+    const close = text.indexOf("]", start);
+    if (close !== -1) start = close + 1;
+  }
+  return text[start] === "{" ? readGroup(text, start) : null;
+}
+
+/** The inside of `\begin{name}` opening at `at`, up to its matching `\end{name}`. */
+function readEnvironment(text: string, name: string, at: number): { content: string; end: number } {
+  const begin = `\\begin{${name}}`;
+  const end = `\\end{${name}}`;
+  let depth = 0;
+  for (let position = at; position < text.length; ) {
+    const nextBegin = text.indexOf(begin, position);
+    const nextEnd = text.indexOf(end, position);
+    if (nextEnd === -1) break;
+    if (nextBegin !== -1 && nextBegin < nextEnd) {
+      depth++;
+      position = nextBegin + begin.length;
+    } else {
+      if (--depth === 0) return { content: text.slice(at + begin.length, nextEnd), end: nextEnd + end.length };
+      position = nextEnd + end.length;
+    }
+  }
+  return { content: text.slice(at + begin.length), end: text.length };
+}
+
+/** Text, emphasis and math of a LaTeX paragraph. */
+export function parseLatexInline(text: string, initial: SpanStyle = {}): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  // Declarations like \bf change the style up to the end of the group
+  const style: SpanStyle = { ...initial };
+  let at = 0;
+
+  const nested = (content: string, nestedStyle: SpanStyle) => {
+    for (const span of parseLatexInline(content, nestedStyle)) {
+      if (span.type === "text") pushText(spans, span.text, span);
+      else spans.push(span);
+    }
+  };
+
+  while (at < text.length) {
+    const char = text[at];
+    const rest = text.slice(at);
+
+    if (char === "$" || rest.startsWith("\\(")) {
+      const display = rest.startsWith("$$");
+      const open = display ? 2 : char === "$" ? 1 : 2;
+      const close = display ? "$$" : char === "$" ? "$" : "\\)";
+      let end = at + open;
+      while (end < text.length && !text.startsWith(close, end)) end += text[end] === "\\" ? 2 : 1;
+      spans.push({ type: "math", tex: text.slice(at + open, end) });
+      at = end + close.length;
+      continue;
+    }
+
+    if (char === "{") {
+      const group = readGroup(text, at);
+      nested(group.content, style);
+      at = group.end;
+      continue;
+    }
+
+    if (char === "\\") {
+      const next = text[at + 1] ?? "";
+      if (next === "\\") {
+        spans.push({ type: "break" });
+        at += 2;
+        // The optional spacing of \\[2mm]
+        const spacing = text.slice(at).match(/^\[[^\]]*\]/);
+        if (spacing) at += spacing[0].length;
+        continue;
+      }
+      if ("%$&#_{} ".includes(next)) {
+        pushText(spans, next, style);
+        at += 2;
+        continue;
+      }
+      if (next in LATEX_ACCENTS && (next !== "c" || text[at + 2] === "{")) {
+        const argument = text[at + 2] === "{" ? readGroup(text, at + 2) : { content: text[at + 2] ?? "", end: at + 3 };
+        pushText(spans, (argument.content.trim() + LATEX_ACCENTS[next]).normalize("NFC"), style);
+        at = argument.end;
+        continue;
+      }
+
+      const command = rest.match(/^\\([a-zA-Z]+)\*?/);
+      if (!command) {
+        at += 1;
+        continue;
+      }
+      const name = command[1];
+      at += command[0].length;
+      const argument = readArgument(text, at);
+
+      if (name in LATEX_SYMBOLS) {
+        pushText(spans, LATEX_SYMBOLS[name], style);
+        if (text[at] === "{" && text[at + 1] === "}") at += 2;
+        else if (text[at] === " ") at += 1;
+      } else if (name === "bf" || name === "bfseries") {
+        style.bold = true;
+      } else if (name === "it" || name === "em" || name === "itshape" || name === "sl") {
+        style.italic = true;
+      } else if (name === "tt" || name === "ttfamily") {
+        style.code = true;
+      } else if (LATEX_IGNORED.has(name)) {
+        if (argument) at = argument.end;
+      } else if (!argument) {
+        // \noindent, \centering, \medskip and the like only change the layout
+      } else if (name === "textbf") {
+        nested(argument.content, { ...style, bold: true });
+        at = argument.end;
+      } else if (name === "textit" || name === "emph" || name === "textsl") {
+        nested(argument.content, { ...style, italic: !style.italic });
+        at = argument.end;
+      } else if (name === "texttt" || name === "url") {
+        pushText(spans, argument.content, { ...style, code: true });
+        at = argument.end;
+      } else if (name === "href") {
+        // \href{url}{text} shows its text
+        const label = readArgument(text, argument.end);
+        if (label) nested(label.content, style);
+        at = label?.end ?? argument.end;
+      } else if (name === "ref" || name === "eqref" || name === "cite") {
+        pushText(spans, `[${argument.content}]`, style);
+        at = argument.end;
+      } else if (name === "footnote") {
+        pushText(spans, " (", style);
+        nested(argument.content, style);
+        pushText(spans, ")", style);
+        at = argument.end;
+      } else {
+        // \text, \mbox, \underline and unknown commands keep their argument
+        nested(argument.content, style);
+        at = argument.end;
+      }
+      continue;
+    }
+
+    if (char === "%") {
+      // Comments run to the end of the line
+      const end = text.indexOf("\n", at);
+      at = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    const ligature = rest.match(/^(---|--|``|''|~)/);
+    if (ligature) {
+      pushText(spans, { "---": "—", "--": "–", "``": "“", "''": "”", "~": NBSP }[ligature[1]]!, style);
+      at += ligature[1].length;
+      continue;
+    }
+
+    pushText(spans, /\s/.test(char) ? " " : char, style);
+    at += 1;
+  }
+  return spans;
+}
+
+/** `\item`s of a list environment, each with its optional label. */
+function splitItems(content: string): { label: string | null; text: string }[] {
+  const items: { label: string | null; text: string }[] = [];
+  const token = /\\begin\{|\\end\{|\\item\b\s*(\[[^\]]*\])?/g;
+  let depth = 0;
+  let current: { label: string | null; start: number } | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(content))) {
+    if (match[0].startsWith("\\begin")) depth++;
+    else if (match[0].startsWith("\\end")) depth--;
+    else if (depth === 0) {
+      if (current) items.push({ label: current.label, text: content.slice(current.start, match.index) });
+      current = { label: match[1] ? match[1].slice(1, -1) : null, start: match.index + match[0].length };
+    }
+  }
+  if (current) items.push({ label: current.label, text: content.slice(current.start) });
+  return items;
+}
+
+const LATEX_BLOCK = /\n[ \t]*\n|\\(section|subsection|subsubsection|paragraph)\*?\s*(?=[[{])|\\begin\{([^}]+)\}|\\\[|\$\$|\\(newpage|clearpage|pagebreak|maketitle)\b/g;
+
+function parseLatexBlocks(body: string, depth: number, meta: { title?: string; author?: string }): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph = "";
+  const flush = () => {
+    const content = trimSpans(parseLatexInline(paragraph));
+    if (hasText(content)) blocks.push({ type: "paragraph", content });
+    paragraph = "";
+  };
+
+  let at = 0;
+  const token = new RegExp(LATEX_BLOCK.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(body))) {
+    paragraph += body.slice(at, match.index);
+    at = match.index + match[0].length;
+    const [whole, heading, environment, pageCommand] = match;
+
+    if (whole.trim() === "") {
+      flush();
+    } else if (heading) {
+      flush();
+      const title = readArgument(body, at);
+      if (title) {
+        blocks.push({ type: "heading", level: LATEX_HEADINGS[heading], content: parseLatexInline(title.content) });
+        at = title.end;
+      }
+    } else if (environment) {
+      flush();
+      const inner = readEnvironment(body, environment, match.index);
+      at = inner.end;
+      blocks.push(...latexEnvironment(environment, inner.content, depth, meta));
+    } else if (whole === "\\[" || whole === "$$") {
+      flush();
+      const close = whole === "\\[" ? "\\]" : "$$";
+      const end = body.indexOf(close, at);
+      blocks.push({ type: "math", tex: body.slice(at, end === -1 ? body.length : end).trim() });
+      at = end === -1 ? body.length : end + close.length;
+    } else if (pageCommand === "maketitle") {
+      flush();
+      if (meta.title) blocks.push({ type: "heading", level: 1, content: parseLatexInline(meta.title) });
+      if (meta.author) blocks.push({ type: "paragraph", content: parseLatexInline(meta.author, { italic: true }) });
+    } else {
+      flush();
+      blocks.push({ type: "pageBreak" });
+    }
+    token.lastIndex = at;
+  }
+  paragraph += body.slice(at);
+  flush();
+  return blocks;
+}
+
+function latexEnvironment(name: string, content: string, depth: number, meta: { title?: string; author?: string }): DocumentBlock[] {
+  const bare = name.replace(/\*$/, "");
+  if (LATEX_MATH_ENVIRONMENTS.has(name)) {
+    return [{ type: "math", tex: `\\begin{${name}}${content}\\end{${name}}` }];
+  }
+  if (LATEX_CODE_ENVIRONMENTS.has(name)) {
+    // The options of lstlisting and the language of minted come first
+    return [{ type: "code", text: content.replace(/^(\[[^\]]*\]|\{[^}]*\})/, "").replace(/^\n|\n\s*$/g, "") }];
+  }
+  if (bare === "itemize" || bare === "enumerate" || bare === "description") {
+    return splitItems(content).flatMap(({ label, text }, index) => {
+      const marker = label ?? (bare === "enumerate" ? `${index + 1}.` : depth === 0 ? "•" : "–");
+      const [first, ...rest] = parseLatexBlocks(text, depth + 1, meta);
+      const item: DocumentBlock = {
+        type: "item",
+        marker: bare === "description" ? "" : marker,
+        depth,
+        content: [
+          ...(bare === "description" && label ? [{ type: "text" as const, text: `${label} `, bold: true }] : []),
+          ...(first?.type === "paragraph" ? first.content : []),
+        ],
+      };
+      return first?.type === "paragraph" ? [item, ...rest] : [item, ...(first ? [first] : []), ...rest];
+    });
+  }
+  if (bare === "quote" || bare === "quotation") {
+    return parseLatexBlocks(content, depth, meta).map(block => (block.type === "paragraph" ? { type: "quote", content: block.content } : block));
+  }
+  if (bare === "tabular" || bare === "array") {
+    // Rows become lines with the cells spaced apart
+    const rows = content.replace(/^\{[^}]*\}/, "").split(/\\\\/).map(row => row.replace(/\\hline/g, "").trim()).filter(Boolean);
+    return rows.map(row => ({
+      type: "paragraph" as const,
+      content: parseLatexInline(row.split(/(?<!\\)&/).map(cell => cell.trim()).join(`${NBSP}${NBSP}${NBSP} `)),
+    }));
+  }
+  if (bare === "abstract") {
+    return parseLatexBlocks(content, depth, meta).map(block =>
+      block.type === "paragraph" ? { ...block, content: block.content.map(span => (span.type === "text" ? { ...span, italic: true } : span)) } : block
+    );
+  }
+  if (bare === "thebibliography" || bare === "comment" || bare === "tikzpicture") {
+    return [];
+  }
+  // center, minipage, document, theorem environments and the rest: their content
+  return parseLatexBlocks(content, depth, meta);
+}
+
+/**
+ * Whether a snippet is a formula written without $ around it: KaTeX can
+ * parse it and, leaving out commands and \text, it has no run of words.
+ */
+function isBareFormula(text: string): boolean {
+  if (/\$|\\\(|\\\[|\\(section|subsection|item|textbf|textit|emph|paragraph)\b/.test(text)) return false;
+  const symbols = text.replace(/\\text\s*\{[^}]*\}/g, "").replace(/\\[a-zA-Z]+/g, " ");
+  if (/[a-zA-Zà-ÿ]{2,}\s+[a-zA-Zà-ÿ]{2,}/.test(symbols)) return false;
+  try {
+    katex.renderToString(text, { displayMode: true, throwOnError: true, strict: false });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sections, paragraphs, lists and display math of a LaTeX source: a whole
+ * document, whose preamble only gives the title, or just a snippet. A
+ * snippet that is only formulas has one per paragraph.
+ */
+export function parseLatex(source: string): DocumentBlock[] {
+  // Comments run from an unescaped % to the end of the line
+  const text = source.replace(/\r\n?/g, "\n").replace(/(^|[^\\])%.*$/gm, "$1");
+  const begin = text.indexOf("\\begin{document}");
+  const body = begin === -1 ? text : readEnvironment(text, "document", begin).content;
+
+  const paragraphs = body.split(/\n[ \t]*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  if (begin === -1 && paragraphs.length > 0 && paragraphs.every(isBareFormula)) {
+    return paragraphs.map(tex => ({ type: "math", tex }));
+  }
+
+  // What \maketitle shows; the commands themselves print nothing
+  const meta: { title?: string; author?: string } = {};
+  for (const field of ["title", "author"] as const) {
+    const command = text.indexOf(`\\${field}`);
+    const argument = command === -1 ? null : readArgument(text, command + field.length + 1);
+    if (argument) meta[field] = argument.content;
+  }
+  return parseLatexBlocks(body, 0, meta);
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { runDocumentIndexJob } from "./documentIndex";
+import { normalizeSearchText, searchSnippet, searchTerms } from "@shared/documentSearch";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  createDocumentPages: vi.fn(),
+  updateDocument: vi.fn(),
+  searchDocumentPages: vi.fn(),
+  getDocumentById: vi.fn(),
+  getRoomById: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `/api/storage/${key}` })),
+  storageRead: vi.fn(),
+}));
+
+import * as db from "./db";
+import { storagePut } from "./storage";
+
+function createContext(id = 1): TrpcContext {
+  return {
+    user: {
+      id,
+      openId: `teacher-${id}`,
+      email: "teacher@example.com",
+      name: "Professor",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+const document = {
+  id: 3,
+  roomId: 1,
+  title: "Lista.pdf",
+  s3Key: "documents/1/lista.pdf",
+  s3Url: "/api/storage/documents/1/lista.pdf",
+  pageCount: null,
+  indexStatus: "processing" as const,
+  uploadedBy: 1,
+  createdAt: new Date(),
+};
+
+describe("document search", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getDocumentById).mockResolvedValue({ ...document, indexStatus: "failed" } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1 } as any);
+    vi.mocked(db.searchDocumentPages).mockResolvedValue([]);
+  });
+
+  it("compares words in lower case and without accents", () => {
+    expect(normalizeSearchText("Função\tQUADRÁTICA")).toBe("funcao quadratica");
+    expect(normalizeSearchText("Função").length).toBe("Função".length);
+    expect(searchTerms("  Derivada da função a ")).toEqual(["derivada", "da", "funcao"]);
+    expect(searchTerms("a")).toEqual([]);
+  });
+
+  it("marks every match in the text around the first one", () => {
+    const text = `${"x".repeat(100)} A Função f e a função g`;
+    const snippet = searchSnippet(text, ["funcao"]);
+
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(snippet.highlights).toHaveLength(2);
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(["Função", "função"]);
+  });
+
+  it("indexes the text and a thumbnail of each page", async () => {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    pdf.addPage([300, 400]).drawText("Teorema de Pitagoras", { x: 20, y: 350, font, size: 14 });
+    pdf.addPage([300, 400]).drawText("Exercicios resolvidos", { x: 20, y: 350, font, size: 14 });
+
+    const status = await runDocumentIndexJob(document, await pdf.save());
+
+    expect(status).toBe("ready");
+    expect(storagePut).toHaveBeenCalledWith("documents/1/lista/page-1.jpg", expect.any(Buffer), "image/jpeg");
+    const [rows] = vi.mocked(db.createDocumentPages).mock.calls[0];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ documentId: 3, page: 1, thumbnailUrl: "/api/storage/documents/1/lista/page-1.jpg" });
+    expect(rows[0].text).toContain("Teorema de Pitagoras");
+    expect(rows[1].searchText).toContain("exercicios resolvidos");
+    expect(db.updateDocument).toHaveBeenCalledWith(3, { pageCount: 2, indexStatus: "ready" });
+  });
+
+  it("marks documents that cannot be read as failed", async () => {
+    const status = await runDocumentIndexJob(document, new TextEncoder().encode("not a pdf"));
+
+    expect(status).toBe("failed");
+    expect(db.createDocumentPages).not.toHaveBeenCalled();
+    expect(db.updateDocument).toHaveBeenCalledWith(3, { indexStatus: "failed" });
+  });
+
+  it("finds pages by normalized words and returns a highlighted snippet", async () => {
+    vi.mocked(db.searchDocumentPages).mockResolvedValue([
+      { documentId: 3, title: "Lista.pdf", page: 2, text: "Resolva a equação", thumbnailUrl: null },
+    ]);
+
+    const [result] = await appRouter.createCaller(createContext()).document.search({ roomId: 1, query: "Equação" });
+
+    expect(db.searchDocumentPages).toHaveBeenCalledWith(1, ["equacao"], 30);
+    expect(result).toMatchObject({ documentId: 3, page: 2, snippet: { text: "Resolva a equação", highlights: [[10, 17]] } });
+    expect(result).not.toHaveProperty("text");
+  });
+
+  it("lets only the host index a document again", async () => {
+    await expect(appRouter.createCaller(createContext(2)).document.reindex({ id: 3 }))
+      .rejects.toThrow("Apenas o professor pode indexar documentos");
+
+    vi.mocked(db.getDocumentById).mockResolvedValue({ ...document, indexStatus: "ready" } as any);
+    await expect(appRouter.createCaller(createContext()).document.reindex({ id: 3 }))
+      .rejects.toThrow("O documento já está indexado");
+    expect(db.updateDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+import { PDFDocument } from "pdf-lib";
+import { layoutMath } from "./mathTypeset";
+import { createFontSet, shiftItems, type DrawItem, type FontName, type FontSet, type TypesetBox } from "./typesetFonts";
+
+/**
+ * Typesetting of Markdown and LaTeX documents into PDF pages. The source
+ * is first parsed into blocks (see documentMarkup.ts); this module breaks
+ * them into lines and pages.
+ */
+
+export type InlineSpan =
+  | { type: "text"; text: string; bold?: boolean; italic?: boolean; code?: boolean }
+  | { type: "math"; tex: string }
+  | { type: "break" };
+
+export type DocumentBlock =
+  | { type: "heading"; level: number; content: InlineSpan[] }
+  | { type: "paragraph"; content: InlineSpan[] }
+  | { type: "item"; marker: string; depth: number; content: InlineSpan[] }
+  | { type: "quote"; content: InlineSpan[] }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string }
+  | { type: "rule" }
+  | { type: "pageBreak" };
+
+// A4, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 64;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const BODY_SIZE = 11;
+const CODE_SIZE = 9;
+const HEADING_SIZES = [18, 15, 13];
+// Extra space between lines, in em
+const LEADING = 0.3;
+const BLOCK_GAP = 8;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+
+type Line = { box: TypesetBox; x: number; gapBefore: number };
+
+function spanFont(span: { bold?: boolean; italic?: boolean; code?: boolean }): FontName {
+  if (span.code) return "mono";
+  if (span.bold && span.italic) return "serif-bold-italic";
+  if (span.bold) return "serif-bold";
+  if (span.italic) return "serif-italic";
+  return "serif";
+}
+
+function emptyBox(width = 0): TypesetBox {
+  return { width, height: 0, depth: 0, items: [] };
+}
+
+/** Pieces laid side by side on a common baseline. */
+function joinPieces(pieces: TypesetBox[]): TypesetBox {
+  const items: DrawItem[] = [];
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  for (const piece of pieces) {
+    items.push(...shiftItems(piece, width, 0));
+    width += piece.width;
+    height = Math.max(height, piece.height);
+    depth = Math.max(depth, piece.depth);
+  }
+  return { width, height, depth, items };
+}
+
+function scaleBox(box: TypesetBox, factor: number): TypesetBox {
+  return {
+    width: box.width * factor,
+    height: box.height * factor,
+    depth: box.depth * factor,
+    items: box.items.map(item =>
+      item.type === "text"
+        ? { ...item, size: item.size * factor, x: item.x * factor, y: item.y * factor }
+        : { ...item, x1: item.x1 * factor, y1: item.y1 * factor, x2: item.x2 * factor, y2: item.y2 * factor, thickness: item.thickness * factor }
+    ),
+  };
+}
+
+/** A word too long for a line, cut into pieces that fit. */
+function splitWord(word: string, font: FontName, size: number, width: number, fonts: FontSet): TypesetBox[] {
+  const pieces: TypesetBox[] = [];
+  let current = "";
+  for (const char of Array.from(word)) {
+    if (current && fonts.textBox(font, current + char, size).width > width) {
+      pieces.push(fonts.textBox(font, current, size));
+      current = "";
+    }
+    current += char;
+  }
+  if (current) pieces.push(fonts.textBox(font, current, size));
+  return pieces;
+}
+
+/**
+ * Break inline content into lines at most `width` wide, filling each line
+ * before starting the next. Every line is at least as tall as the text.
+ */
+function breakLines(content: InlineSpan[], size: number, width: number, fonts: FontSet, base: { bold?: boolean; italic?: boolean; code?: boolean } = {}): TypesetBox[] {
+  const lines: TypesetBox[] = [];
+  let pieces: TypesetBox[] = [];
+  let lineWidth = 0;
+  let pendingSpace: TypesetBox | null = null;
+
+  const strut = { ...emptyBox(), height: 0.75 * size, depth: 0.25 * size };
+  const endLine = () => {
+    lines.push(joinPieces([strut, ...pieces]));
+    pieces = [];
+    lineWidth = 0;
+    pendingSpace = null;
+  };
+  const place = (piece: TypesetBox) => {
+    const space: TypesetBox | null = pieces.length > 0 ? pendingSpace : null;
+    const needed = (space?.width ?? 0) + piece.width;
+    if (pieces.length > 0 && lineWidth + needed > width) endLine();
+    else if (space) {
+      pieces.push(space);
+      lineWidth += space.width;
+    }
+    pieces.push(piece);
+    lineWidth += piece.width;
+    pendingSpace = null;
+  };
+
+  for (const span of content) {
+    if (span.type === "break") {
+      endLine();
+      continue;
+    }
+    if (span.type === "math") {
+      let box = layoutMath(span.tex, false, size, fonts);
+      if (box.width > width) box = scaleBox(box, width / box.width);
+      place(box);
+      continue;
+    }
+    const font = spanFont({ ...base, ...span });
+    // Code inside prose is set a little smaller than the prose
+    const spanSize = span.code && !base.code ? size * 0.9 : size;
+    // Lines break at spaces, never at the non-breaking ones
+    for (const part of span.text.split(/([ \t\n]+)/)) {
+      if (!part) continue;
+      if (/^[ \t\n]+$/.test(part)) {
+        pendingSpace = fonts.textBox(font, " ", spanSize);
+        continue;
+      }
+      const word = fonts.textBox(font, part, spanSize);
+      for (const piece of word.width > width ? splitWord(part, font, spanSize, width, fonts) : [word]) place(piece);
+    }
+  }
+  if (pieces.length > 0 || lines.length === 0) endLine();
+  return lines;
+}
+
+function blockLines(block: DocumentBlock, fonts: FontSet): Line[] {
+  switch (block.type) {
+    case "heading": {
+      const size = HEADING_SIZES[Math.min(block.level, HEADING_SIZES.length) - 1];
+      return breakLines(block.content, size, TEXT_WIDTH, fonts, { bold: true })
+        .map((box, index) => ({ box, x: 0, gapBefore: index === 0 ? BLOCK_GAP + size * 0.6 : LEADING * size }));
+    }
+    case "paragraph":
+      return breakLines(block.content, BODY_SIZE, TEXT_WIDTH, fonts)
+        .map((box, index) => ({ box, x: 0, gapBefore: index === 0 ? BLOCK_GAP : LEADING * BODY_SIZE }));
+    case "item": {
+      const indent = LIST_INDENT * (block.depth + 1);
+      const lines = breakLines(block.content, BODY_SIZE, TEXT_WIDTH - indent, fonts)
+        .map((box, index) => ({ box, x: indent, gapBefore: index === 0 ? BLOCK_GAP / 2 : LEADING * BODY_SIZE }));
+      const marker = fonts.textBox("serif", block.marker, BODY_SIZE);
+      lines[0].box = joinPieces([emptyBox(-marker.width - 6), marker, emptyBox(6), lines[0].box]);
+      return lines;
+    }
+    case "quote": {
+      const lines = breakLines(block.content, BODY_SIZE, TEXT_WIDTH - QUOTE_INDENT, fonts, { italic: true });
+      return lines.map((box, index) => {
+        const gapBefore = index === 0 ? BLOCK_GAP : LEADING * BODY_SIZE;
+        // A bar down the margin of the quote, covering the space above each line too
+        const bar: DrawItem = { type: "line", x1: -QUOTE_INDENT / 2, y1: -box.depth, x2: -QUOTE_INDENT / 2, y2: box.height + (index === 0 ? 0 : gapBefore), thickness: 1.5 };
+        return { box: { ...box, items: [...box.items, bar] }, x: QUOTE_INDENT, gapBefore };
+      });
+    }
+    case "code":
+      return block.text.split("\n").flatMap((line, index) =>
+        // Indentation and runs of spaces are kept
+        breakLines([{ type: "text", text: line.replace(/\t/g, "    ").replace(/ /g, "\u00a0") }], CODE_SIZE, TEXT_WIDTH - LIST_INDENT, fonts, { code: true })
+          .map((box, part) => ({ box, x: LIST_INDENT, gapBefore: index === 0 && part === 0 ? BLOCK_GAP : 0.15 * CODE_SIZE }))
+      );
+    case "math": {
+      let box = layoutMath(block.tex, true, BODY_SIZE * 1.1, fonts);
+      if (box.width > TEXT_WIDTH) box = scaleBox(box, TEXT_WIDTH / box.width);
+      return [{ box, x: (TEXT_WIDTH - box.width) / 2, gapBefore: BLOCK_GAP * 1.5 }];
+    }
+    case "rule":
+      return [{
+        box: { width: TEXT_WIDTH, height: 4, depth: 4, items: [{ type: "line", x1: 0, y1: 0, x2: TEXT_WIDTH, y2: 0, thickness: 0.5 }] },
+        x: 0,
+        gapBefore: BLOCK_GAP,
+      }];
+    case "pageBreak":
+      return [];
+  }
+}
+
+/** A PDF of A4 pages with `blocks` set one after the other. */
+export async function typesetDocument(blocks: DocumentBlock[], title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  const fonts = createFontSet(pdf);
+
+  const pages: DrawItem[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  for (const block of blocks) {
+    if (block.type === "pageBreak") {
+      if (pages[pages.length - 1].length > 0) newPage();
+      continue;
+    }
+    for (const line of blockLines(block, fonts)) {
+      const atTop = pages[pages.length - 1].length === 0;
+      const gap = atTop ? 0 : line.gapBefore;
+      if (!atTop && y - gap - line.box.height - line.box.depth < MARGIN) newPage();
+      y -= (pages[pages.length - 1].length === 0 ? 0 : gap) + line.box.height;
+      pages[pages.length - 1].push(...shiftItems(line.box, MARGIN + line.x, y));
+      y -= line.box.depth;
+    }
+  }
+
+  await fonts.embed();
+  for (const items of pages) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    for (const item of items) {
+      if (item.type === "text") {
+        page.drawText(item.text, { x: item.x, y: item.y, size: item.size, font: fonts.pdfFont(item.font) });
+      } else {
+        page.drawLine({ start: { x: item.x1, y: item.y1 }, end: { x: item.x2, y: item.y2 }, thickness: item.thickness });
+      }
+    }
+  }
+  return pdf.save();
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "crypto";
+import express from "express";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import type { AddressInfo } from "net";
+import { request, type IncomingMessage, type Server } from "http";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { HttpError } from "@shared/_core/errors";
+import type { Room } from "../drizzle/schema";
+import {
+  receiveDocumentFiles,
+  registerDocumentUploadRoutes,
+  storeDocumentUpload,
+  type ReceivedDocument,
+} from "./documentUpload";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getRoomById: vi.fn(),
+  getDocumentByChecksum: vi.fn(),
+  createDocument: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `/api/storage/${key}` })),
+  storagePutFile: vi.fn(async (key: string) => ({ key, url: `/api/storage/${key}` })),
+}));
+
+vi.mock("./documentIndex", () => ({
+  enqueueDocumentIndexing: vi.fn(),
+}));
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn() },
+}));
+
+import * as db from "./db";
+import { storagePut, storagePutFile } from "./storage";
+import { enqueueDocumentIndexing } from "./documentIndex";
+import { sdk } from "./_core/sdk";
+
+const room = { id: 1, slug: "calculo", hostId: 1 } as Room;
+const PDF = Buffer.from("%PDF-1.4\n% apostila\n");
+
+function sha256(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** A request carrying `form` as multipart form data, as Express hands it over. */
+async function multipartRequest(form: FormData): Promise<IncomingMessage> {
+  const request = new Request("http://localhost/", { method: "POST", body: form });
+  const body = Buffer.from(await request.arrayBuffer());
+  const stream = Object.assign(new PassThrough(), {
+    headers: { "content-type": request.headers.get("content-type")!, "content-length": String(body.length) },
+  });
+  stream.end(body);
+  return stream as unknown as IncomingMessage;
+}
+
+function markdownUpload(dir: string, checksum = "abc"): ReceivedDocument {
+  return { title: "aula-3.md", files: [path.join(dir, "000")], size: 20, checksum };
+}
+
+describe("document upload", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(path.join(os.tmpdir(), "document-upload-test-"));
+    vi.mocked(db.getRoomById).mockResolvedValue(room);
+    vi.mocked(db.getDocumentByChecksum).mockResolvedValue(undefined);
+    vi.mocked(db.createDocument).mockImplementation(async values => ({ id: 7, pageCount: null, createdAt: new Date(), ...values } as any));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("streams the files to disk and hashes them", async () => {
+    const form = new FormData();
+    form.append("title", "Apostila de cálculo.pdf");
+    form.append("files", new Blob([PDF]), "apostila.pdf");
+
+    const upload = await receiveDocumentFiles(await multipartRequest(form), dir, 1024);
+
+    expect(upload).toMatchObject({ title: "Apostila de cálculo.pdf", size: PDF.length, checksum: sha256(PDF) });
+    expect(await readFile(upload.files[0])).toEqual(PDF);
+  });
+
+  it("keeps images in order and names the upload after the first file", async () => {
+    const form = new FormData();
+    form.append("files", new Blob(["primeira"]), "quadro-1.jpg");
+    form.append("files", new Blob(["segunda"]), "quadro-2.jpg");
+
+    const upload = await receiveDocumentFiles(await multipartRequest(form), dir, 1024);
+
+    expect(upload.title).toBe("quadro-1.jpg");
+    expect(await Promise.all(upload.files.map(file => readFile(file, "utf8")))).toEqual(["primeira", "segunda"]);
+    expect(upload.checksum).toBe(sha256(`${sha256("primeira")}\n${sha256("segunda")}`));
+  });
+
+  it("stops reading once the files pass the size limit", async () => {
+    const form = new FormData();
+    form.append("files", new Blob([Buffer.alloc(4096)]), "grande.pdf");
+
+    await expect(receiveDocumentFiles(await multipartRequest(form), dir, 1024))
+      .rejects.toMatchObject({ statusCode: 413 });
+  });
+
+  it("converts and stores a new upload with its checksum", async () => {
+    await writeFile(path.join(dir, "000"), "# Aula 3\n\nTexto da aula.");
+
+    const { document, duplicate } = await storeDocumentUpload(room, 1, markdownUpload(dir));
+
+    expect(duplicate).toBe(false);
+    expect(storagePut).toHaveBeenCalledWith(expect.stringMatching(/^documents\/calculo\/.+\.pdf$/), expect.any(Uint8Array), "application/pdf");
+    expect(db.createDocument).toHaveBeenCalledWith(expect.objectContaining({ roomId: 1, title: "aula-3.pdf", checksum: "abc", indexStatus: "processing" }));
+    expect(enqueueDocumentIndexing).toHaveBeenCalledWith(document);
+  });
+
+  it("stores a PDF straight from the staged file", async () => {
+    await writeFile(path.join(dir, "000"), PDF);
+
+    const { document } = await storeDocumentUpload(room, 1, { title: "apostila.pdf", files: [path.join(dir, "000")], size: PDF.length, checksum: "pdf" });
+
+    expect(storagePutFile).toHaveBeenCalledWith(expect.stringMatching(/^documents\/calculo\/.+\.pdf$/), path.join(dir, "000"), "application/pdf");
+    expect(storagePut).not.toHaveBeenCalled();
+    expect(db.createDocument).toHaveBeenCalledWith(expect.objectContaining({ title: "apostila.pdf", fileSize: PDF.length }));
+    expect(enqueueDocumentIndexing).toHaveBeenCalledWith(document);
+  });
+
+  it("gives back the document already uploaded from the same files", async () => {
+    const existing = { id: 3, roomId: 1, title: "Lista.pdf" } as any;
+    vi.mocked(db.getDocumentByChecksum).mockResolvedValue(existing);
+
+    const result = await storeDocumentUpload(room, 1, markdownUpload(dir, "abc"));
+
+    expect(result).toEqual({ document: existing, duplicate: true });
+    expect(db.getDocumentByChecksum).toHaveBeenCalledWith(1, "abc");
+    expect(storagePut).not.toHaveBeenCalled();
+    expect(db.createDocument).not.toHaveBeenCalled();
+  });
+
+  it("rejects files that cannot be converted with the reason", async () => {
+    await writeFile(path.join(dir, "000"), "GIF89a...");
+
+    const error = await storeDocumentUpload(room, 1, markdownUpload(dir)).catch(error => error);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ statusCode: 400, message: expect.stringContaining("GIF") });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  describe("route", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      const app = express();
+      registerDocumentUploadRoutes(app);
+      server = app.listen(0);
+      await new Promise(resolve => server.once("listening", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    function post(form: FormData) {
+      return fetch(`${baseUrl}/api/rooms/1/documents`, { method: "POST", body: form });
+    }
+
+    it("stores a PDF sent by the host of the room", async () => {
+      vi.mocked(sdk.authenticateRequest).mockResolvedValue({ id: 1, role: "user" } as any);
+      const form = new FormData();
+      form.append("files", new Blob([PDF]), "apostila.pdf");
+
+      const response = await post(form);
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({ duplicate: false, document: { title: "apostila.pdf", checksum: sha256(PDF) } });
+    });
+
+    it("lets only the host upload", async () => {
+      vi.mocked(sdk.authenticateRequest).mockResolvedValue({ id: 2, role: "user" } as any);
+      const form = new FormData();
+      form.append("files", new Blob([PDF]), "apostila.pdf");
+
+      const response = await post(form);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: "Apenas o professor pode fazer upload de documentos" });
+      expect(db.createDocument).not.toHaveBeenCalled();
+    });
+
+    it("limits the size of an upload by the role of the account", async () => {
+      // Only the headers are sent: a declared length past the limit is refused before the body
+      const declare = (length: number) => new Promise<{ status?: number; body: string }>((resolve, reject) => {
+        const outgoing = request(`${baseUrl}/api/rooms/1/documents`, {
+          method: "POST",
+          headers: { "Content-Type": "multipart/form-data; boundary=x", "Content-Length": length },
+        }, response => {
+          let body = "";
+          response.on("data", chunk => (body += chunk));
+          response.on("end", () => {
+            outgoing.destroy();
+            resolve({ status: response.statusCode, body });
+          });
+        });
+        outgoing.on("error", reject);
+        outgoing.flushHeaders();
+      });
+
+      vi.mocked(sdk.authenticateRequest).mockResolvedValue({ id: 1, role: "user" } as any);
+      const teacher = await declare(200 * 1024 * 1024);
+      expect(teacher.status).toBe(413);
+      expect(JSON.parse(teacher.body).error).toContain("100 MB");
+
+      vi.mocked(sdk.authenticateRequest).mockResolvedValue({ id: 1, role: "admin" } as any);
+      const admin = await declare(600 * 1024 * 1024);
+      expect(JSON.parse(admin.body).error).toContain("500 MB");
+      expect(db.createDocument).not.toHaveBeenCalled();
+    });
+  });
+});
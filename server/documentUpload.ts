@@ -0,0 +1,249 @@
+import busboy from "busboy";
+import { createHash } from "crypto";
+import type { Express, Request, Response } from "express";
+import { createWriteStream } from "fs";
+import { mkdir, mkdtemp, open, readFile, rm } from "fs/promises";
+import type { IncomingMessage } from "http";
+import { nanoid } from "nanoid";
+import os from "os";
+import path from "path";
+import {
+  BadRequestError,
+  ForbiddenError,
+  HttpError,
+} from "@shared/_core/errors";
+import { MAX_DOCUMENT_UPLOAD_BYTES, MAX_IMAGE_PAGES } from "@shared/documentFormats";
+import type { Document, Room } from "../drizzle/schema";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { convertToPdf, DocumentConversionError, isPdfHeader, PDF_HEADER_WINDOW } from "./documentConvert";
+import { enqueueDocumentIndexing } from "./documentIndex";
+import { storagePut, storagePutFile } from "./storage";
+
+// Boundaries, part headers and the title field around the files of a multipart body
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+// Files are staged on local disk while they arrive
+const STAGING_ROOT = path.join(os.tmpdir(), "mathtutor-document-uploads");
+
+export type ReceivedDocument = {
+  title: string;
+  // Staged files, in the order they were sent
+  files: string[];
+  size: number;
+  // SHA-256 of the file, or of the checksums of each file when there are several
+  checksum: string;
+};
+
+export type DocumentUploadResult = {
+  document: Document;
+  // The room already had a document uploaded from the same files
+  duplicate: boolean;
+};
+
+function tooLarge(maxSize: number) {
+  return new HttpError(413, `O envio excede o limite de ${Math.round(maxSize / (1024 * 1024))} MB`);
+}
+
+/**
+ * Stream the files of a multipart request into `dir`, hashing them on
+ * the way, without ever holding a whole file in memory. Fails with 413
+ * as soon as the files together pass `maxSize`.
+ */
+export function receiveDocumentFiles(req: IncomingMessage, dir: string, maxSize: number): Promise<ReceivedDocument> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { files: MAX_IMAGE_PAGES, fields: 1, fieldSize: 1024 } });
+    } catch {
+      reject(BadRequestError("Envie os arquivos como multipart/form-data"));
+      return;
+    }
+
+    const files: string[] = [];
+    const checksums: string[] = [];
+    const writes: Promise<void>[] = [];
+    let fieldTitle = "";
+    let fileTitle = "";
+    let size = 0;
+    let failed = false;
+
+    const fail = (error: HttpError) => {
+      if (failed) return;
+      failed = true;
+      req.unpipe(parser);
+      // Drain what is still coming so the client gets to read the response
+      req.resume();
+      reject(error);
+    };
+
+    parser.on("field", (name, value) => {
+      if (name === "title") fieldTitle = value.trim();
+    });
+
+    parser.on("file", (_name, stream, info) => {
+      if (failed) {
+        stream.resume();
+        return;
+      }
+      const index = files.length;
+      const filePath = path.join(dir, String(index).padStart(3, "0"));
+      files.push(filePath);
+      if (index === 0) fileTitle = info.filename ?? "";
+
+      const hash = createHash("sha256");
+      const out = createWriteStream(filePath);
+      writes.push(new Promise((done, error) => {
+        out.on("finish", () => {
+          checksums[index] = hash.digest("hex");
+          done();
+        });
+        out.on("error", error);
+      }));
+      stream.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxSize) {
+          stream.unpipe(out);
+          stream.resume();
+          out.destroy();
+          fail(tooLarge(maxSize));
+          return;
+        }
+        hash.update(chunk);
+      });
+      stream.pipe(out);
+    });
+
+    parser.on("filesLimit", () => fail(BadRequestError(`Envie no máximo ${MAX_IMAGE_PAGES} imagens de uma vez`)));
+    parser.on("error", () => fail(BadRequestError("Envio de arquivos inválido")));
+    req.on("aborted", () => fail(BadRequestError("Envio interrompido")));
+
+    parser.on("close", () => {
+      if (failed) return;
+      if (files.length === 0) {
+        fail(BadRequestError("Nenhum arquivo enviado"));
+        return;
+      }
+      Promise.all(writes).then(() => {
+        const checksum = checksums.length === 1
+          ? checksums[0]
+          : createHash("sha256").update(checksums.join("\n")).digest("hex");
+        resolve({ title: fieldTitle || fileTitle || "Documento", files, size, checksum });
+      }, reject);
+    });
+
+    req.pipe(parser);
+  });
+}
+
+async function readFileHeader(file: string, length: number): Promise<Uint8Array> {
+  const handle = await open(file, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(length), 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Store staged files as a document of the room: a PDF as it is, streamed
+ * from disk, anything else read and converted first. The same files
+ * uploaded again to the room give back the document they already made.
+ */
+export async function storeDocumentUpload(room: Room, uploadedBy: number, upload: ReceivedDocument): Promise<DocumentUploadResult> {
+  const existing = await db.getDocumentByChecksum(room.id, upload.checksum);
+  if (existing) {
+    return { document: existing, duplicate: true };
+  }
+
+  const s3Key = `documents/${room.slug}/${nanoid()}.pdf`;
+  let stored: { url: string; title: string; fileSize: number };
+
+  // Recognized by content rather than by the name or type the browser reports
+  if (upload.files.length === 1 && isPdfHeader(await readFileHeader(upload.files[0], PDF_HEADER_WINDOW))) {
+    const { url } = await storagePutFile(s3Key, upload.files[0], "application/pdf");
+    stored = { url, title: upload.title, fileSize: upload.size };
+  } else {
+    let converted: Awaited<ReturnType<typeof convertToPdf>>;
+    try {
+      const contents = await Promise.all(upload.files.map(async file => new Uint8Array(await readFile(file))));
+      converted = await convertToPdf(contents, upload.title);
+    } catch (error) {
+      if (error instanceof DocumentConversionError) {
+        throw BadRequestError(error.message);
+      }
+      throw error;
+    }
+
+    const { url } = await storagePut(s3Key, converted.data, "application/pdf");
+    stored = {
+      url,
+      title: converted.format === "pdf" ? upload.title : `${upload.title.replace(/\.[^.]+$/, "")}.pdf`,
+      fileSize: converted.data.length,
+    };
+  }
+
+  const document = await db.createDocument({
+    roomId: room.id,
+    uploadedBy,
+    title: stored.title,
+    s3Key,
+    s3Url: stored.url,
+    fileSize: stored.fileSize,
+    indexStatus: "processing",
+    checksum: upload.checksum,
+  });
+  if (!document) {
+    throw new HttpError(503, "Banco de dados indisponível");
+  }
+
+  // Page count, text and thumbnails are filled in by the indexing job, from the stored file
+  enqueueDocumentIndexing(document);
+  return { document, duplicate: false };
+}
+
+function handleUpload(handler: (req: Request, res: Response) => Promise<void>) {
+  return async (req: Request, res: Response) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Documents] Upload request failed", error);
+      res.status(500).json({ error: "Falha no upload do documento" });
+    }
+  };
+}
+
+export function registerDocumentUploadRoutes(app: Express) {
+  app.post(
+    "/api/rooms/:roomId/documents",
+    handleUpload(async (req, res) => {
+      const user = await sdk.authenticateRequest(req);
+      const room = await db.getRoomById(Number(req.params.roomId));
+      if (!room || room.hostId !== user.id) {
+        throw ForbiddenError("Apenas o professor pode fazer upload de documentos");
+      }
+
+      // Refused before reading any of the body when the client says it is too large
+      const maxSize = MAX_DOCUMENT_UPLOAD_BYTES[user.role];
+      if (Number(req.headers["content-length"]) > maxSize + MULTIPART_OVERHEAD) {
+        req.resume();
+        throw tooLarge(maxSize);
+      }
+
+      await mkdir(STAGING_ROOT, { recursive: true });
+      const dir = await mkdtemp(path.join(STAGING_ROOT, "upload-"));
+      try {
+        const upload = await receiveDocumentFiles(req, dir, maxSize);
+        const result = await storeDocumentUpload(room, user.id, upload);
+        res.status(result.duplicate ? 200 : 201).json(result);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    })
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeCorrectAnswer,
+  describeExerciseAnswer,
+  gradeExerciseAnswer,
+  publicQuestion,
+  summarizeAnswers,
+  validateExerciseAnswer,
+  validateExerciseQuestion,
+  type ChoiceQuestion,
+  type MultiPartQuestion,
+  type OrderingQuestion,
+} from "@shared/exerciseQuestions";
+import { exerciseQuestionInput, toPublicExercise } from "./exerciseQuestions";
+
+const choice: ChoiceQuestion = { type: "multipleChoice", options: ["1", "2", "4", "8"], correct: [2], multiple: false };
+const primes: ChoiceQuestion = { type: "multipleChoice", options: ["2", "4", "5", "9"], correct: [0, 2], multiple: true };
+const proof: OrderingQuestion = {
+  type: "ordering",
+  steps: ["Suponha √2 = p/q irredutível", "Então p² = 2q²", "Logo p e q são pares", "Contradição"],
+};
+const parts: MultiPartQuestion = {
+  type: "multiPart",
+  parts: [
+    { prompt: "Derivada de x²", points: 5, question: { type: "text", correctAnswer: "2x", checkMode: "equivalent" } },
+    { prompt: "Valor em x = 3", points: 3, question: { type: "numeric", value: 6, tolerance: 0 } },
+    { prompt: "É crescente em x > 0?", points: 2, question: { type: "trueFalse", correct: true } },
+  ],
+};
+
+describe("exercise questions", () => {
+  it("checks each type of question against its rules", () => {
+    expect(validateExerciseQuestion(choice)).toBeNull();
+    expect(validateExerciseQuestion({ ...choice, correct: [0, 1] })).toBe("Marque uma alternativa correta");
+    expect(validateExerciseQuestion({ ...choice, correct: [7] })).toBe("Alternativa correta inexistente");
+    expect(validateExerciseQuestion({ type: "numeric", value: 9.8, tolerance: 0.1, unit: "parsecs" })).toBe("Unidade desconhecida: parsecs");
+    expect(validateExerciseQuestion({ ...proof, steps: ["a", "a"] })).toBe("Os passos devem ser diferentes");
+    expect(validateExerciseQuestion({ ...parts, parts: parts.parts.slice(0, 1) })).toBe("Use de 2 a 6 partes");
+    expect(validateExerciseQuestion({
+      ...parts,
+      parts: [parts.parts[0], { ...parts.parts[1], question: { type: "text", correctAnswer: "2x +", checkMode: "equivalent" } }],
+    })).toMatch(/^Parte 2: A resposta esperada não é uma expressão válida/);
+  });
+
+  it("rejects invalid questions at the input", () => {
+    expect(exerciseQuestionInput.safeParse(choice).success).toBe(true);
+    expect(exerciseQuestionInput.safeParse({ type: "multipleChoice", options: ["só uma"], correct: [0] }).success).toBe(false);
+    // Free-text questions keep using the fields of the exercise
+    expect(exerciseQuestionInput.safeParse({ type: "text", correctAnswer: "4" }).success).toBe(false);
+  });
+
+  it("grades multiple choice, single and multi select", () => {
+    expect(gradeExerciseAnswer(choice, [2], 10)).toEqual({ correct: true, pointsEarned: 10, reason: "Alternativa correta" });
+    expect(gradeExerciseAnswer(choice, [1], 10)).toEqual({ correct: false, pointsEarned: 0, reason: "Escolheu B; a correta é C" });
+    expect(gradeExerciseAnswer(primes, [2, 0], 10).correct).toBe(true);
+    expect(gradeExerciseAnswer(primes, [0, 1], 10).reason).toBe("Alternativas incorretas: faltou marcar C; marcou B, que não é correta");
+    expect(validateExerciseAnswer(choice, [0, 1])).toBe("Escolha só uma alternativa");
+  });
+
+  it("grades numbers within the tolerance, in any unit of the same kind", () => {
+    const gravity = { type: "numeric" as const, value: 9.8, tolerance: 0.1, unit: "m/s^2" };
+    expect(gradeExerciseAnswer(gravity, "9,75 m/s^2", 10).correct).toBe(true);
+    expect(gradeExerciseAnswer(gravity, "9,6 m/s^2", 10).correct).toBe(false);
+    expect(gradeExerciseAnswer(gravity, "9,8", 10).reason).toBe("Faltou a unidade (esperada: m/s^2)");
+    expect(describeCorrectAnswer(gravity)).toBe("9,8 ± 0,1 m/s^2");
+  });
+
+  it("grades true or false and the order of steps", () => {
+    expect(gradeExerciseAnswer({ type: "trueFalse", correct: false }, true, 5)).toEqual({
+      correct: false,
+      pointsEarned: 0,
+      reason: "A afirmação é falsa",
+    });
+    expect(gradeExerciseAnswer(proof, proof.steps, 10).correct).toBe(true);
+    const swapped = [proof.steps[0], proof.steps[2], proof.steps[1], proof.steps[3]];
+    expect(gradeExerciseAnswer(proof, swapped, 10).reason).toBe("2 de 4 passos na posição certa");
+    expect(validateExerciseAnswer(proof, proof.steps.slice(1))).toBe("Ordene todos os passos");
+  });
+
+  it("gives partial credit for each right part", () => {
+    const result = gradeExerciseAnswer(parts, ["2*x", "7", true], 10);
+
+    expect(result.correct).toBe(false);
+    expect(result.pointsEarned).toBe(7);
+    expect(result.reason).toBe("2 de 3 partes corretas (parte 2: Valor 7 diferente do esperado, 6)");
+    expect(result.parts?.map(part => part.pointsEarned)).toEqual([5, 0, 2]);
+    expect(gradeExerciseAnswer(parts, [null, "6", null], 10)).toMatchObject({ pointsEarned: 3, parts: [{ reason: "Em branco" }, {}, {}] });
+    expect(describeExerciseAnswer(parts, ["2*x", null, true])).toBe("1) 2*x; 2) (em branco); 3) Verdadeiro");
+    expect(validateExerciseAnswer(parts, [null, null, null])).toBe("Responda ao menos uma parte");
+  });
+
+  it("sends students the question without its answer", () => {
+    expect(publicQuestion(choice, 1)).toEqual({ type: "multipleChoice", options: choice.options, multiple: false });
+
+    const shuffled = publicQuestion(proof, 7);
+    expect(shuffled.type === "ordering" && shuffled.steps).not.toEqual(proof.steps);
+    expect(publicQuestion(proof, 7)).toEqual(shuffled);
+    expect(shuffled.type === "ordering" && shuffled.steps.slice().sort()).toEqual(proof.steps.slice().sort());
+
+    const exercise = toPublicExercise({
+      id: 1, sessionId: 1, createdBy: 1, question: "Qual?", questionLatex: null, questionType: "multipleChoice",
+      content: JSON.stringify(choice), correctAnswer: "C) 4", checkMode: "strict", tolerance: null, toleranceType: "absolute",
+      points: 10, timeLimit: null, speedBonus: 0, streakBonus: false, isActive: true, activatedAt: new Date(), createdAt: new Date(),
+    });
+    expect(exercise).not.toHaveProperty("correctAnswer");
+    expect(JSON.stringify(exercise)).not.toContain("correct");
+  });
+
+  it("sums up how the class answered", () => {
+    expect(summarizeAnswers(choice, [
+      { answer: [2], correct: true },
+      { answer: [1], correct: false },
+      { answer: [2], correct: true },
+    ])).toEqual({ answered: 3, correct: 2, results: { type: "multipleChoice", counts: [0, 1, 2, 0] } });
+
+    const summary = summarizeAnswers(parts, [
+      { answer: ["2x", "6", true], correct: true, parts: [{ correct: true }, { correct: true }, { correct: true }] as any },
+      { answer: ["x", null, false], correct: false, parts: [{ correct: false }, { correct: false }, { correct: false }] as any },
+    ]);
+    expect(summary.results.type === "multiPart" && summary.results.parts.map(part => [part.answered, part.correct]))
+      .toEqual([[2, 1], [1, 1], [2, 1]]);
+  });
+});
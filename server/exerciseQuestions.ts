@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { Exercise, ExerciseResponse, Participant } from "../drizzle/schema";
+import { ANSWER_CHECK_MODES, TOLERANCE_TYPES } from "@shared/answerCheck";
+import {
+  MAX_CHOICE_OPTIONS,
+  MAX_ORDERING_STEPS,
+  MAX_QUESTION_PARTS,
+  MAX_QUESTION_TEXT,
+  publicQuestion,
+  readExerciseQuestion,
+  validateExerciseQuestion,
+  type ExerciseAnswer,
+  type PartResult,
+  type PublicQuestion,
+  type QuestionSummary,
+  summarizeAnswers,
+} from "@shared/exerciseQuestions";
+import { analyzeResponses, groupAnswers, type AnswerGroup, type ResponseAnalytics } from "@shared/responseAnalytics";
+
+const questionText = z.string().trim().min(1).max(MAX_QUESTION_TEXT);
+
+const textQuestionInput = z.object({
+  type: z.literal("text"),
+  correctAnswer: questionText,
+  checkMode: z.enum(ANSWER_CHECK_MODES).default("strict"),
+});
+
+const choiceQuestionInput = z.object({
+  type: z.literal("multipleChoice"),
+  options: z.array(questionText).max(MAX_CHOICE_OPTIONS),
+  correct: z.array(z.number().int()).max(MAX_CHOICE_OPTIONS),
+  multiple: z.boolean().default(false),
+});
+
+const numericQuestionInput = z.object({
+  type: z.literal("numeric"),
+  value: z.number(),
+  tolerance: z.number().nonnegative().default(0),
+  unit: z.string().trim().max(32).optional(),
+});
+
+const trueFalseQuestionInput = z.object({
+  type: z.literal("trueFalse"),
+  correct: z.boolean(),
+});
+
+const orderingQuestionInput = z.object({
+  type: z.literal("ordering"),
+  steps: z.array(questionText).max(MAX_ORDERING_STEPS),
+});
+
+const multiPartQuestionInput = z.object({
+  type: z.literal("multiPart"),
+  parts: z.array(z.object({
+    prompt: questionText,
+    points: z.number().int().min(1).max(100),
+    question: z.discriminatedUnion("type", [
+      textQuestionInput,
+      choiceQuestionInput,
+      numericQuestionInput,
+      trueFalseQuestionInput,
+      orderingQuestionInput,
+    ]),
+  })).max(MAX_QUESTION_PARTS),
+});
+
+/**
+ * The question of an exercise of any type but free text, whose answer
+ * stays in the fields it always had. Checked against the rules of its type.
+ */
+export const exerciseQuestionInput = z.discriminatedUnion("type", [
+  choiceQuestionInput,
+  numericQuestionInput,
+  trueFalseQuestionInput,
+  orderingQuestionInput,
+  multiPartQuestionInput,
+]).superRefine((question, ctx) => {
+  const error = validateExerciseQuestion(question);
+  if (error) ctx.addIssue({ code: "custom", message: error });
+});
+
+/** A question of any type, free text included with how its answers are checked. */
+export const storedQuestionInput = z.discriminatedUnion("type", [
+  textQuestionInput.extend({
+    tolerance: z.number().nonnegative().nullish(),
+    toleranceType: z.enum(TOLERANCE_TYPES).optional(),
+  }),
+  choiceQuestionInput,
+  numericQuestionInput,
+  trueFalseQuestionInput,
+  orderingQuestionInput,
+  multiPartQuestionInput,
+]).superRefine((question, ctx) => {
+  const error = validateExerciseQuestion(question);
+  if (error) ctx.addIssue({ code: "custom", message: error });
+});
+
+const simpleAnswerInput = z.union([
+  z.string().max(MAX_QUESTION_TEXT),
+  z.boolean(),
+  z.array(z.number().int()).max(MAX_CHOICE_OPTIONS),
+  z.array(z.string().max(MAX_QUESTION_TEXT)).max(MAX_ORDERING_STEPS),
+]);
+
+/** An answer of any type, fitted to its question by `validateExerciseAnswer`. */
+export const exerciseAnswerInput = z.union([
+  simpleAnswerInput,
+  z.array(simpleAnswerInput.nullable()).max(MAX_QUESTION_PARTS),
+]);
+
+export type PublicExercise = Pick<
+  Exercise,
+  | "id" | "sessionId" | "question" | "questionLatex" | "questionType" | "points"
+  | "timeLimit" | "speedBonus" | "streakBonus" | "isActive" | "activatedAt" | "resultsRevealed" | "createdAt"
+> & {
+  content: PublicQuestion;
+  // Milliseconds left to answer by the server clock, null without a time limit
+  remainingTime: number | null;
+};
+
+/** The exercise as students may see it while they answer it: never what is right. */
+export function toPublicExercise(exercise: Exercise, now = new Date()): PublicExercise {
+  const activatedAt = exercise.activatedAt ?? exercise.createdAt;
+  return {
+    id: exercise.id,
+    sessionId: exercise.sessionId,
+    question: exercise.question,
+    questionLatex: exercise.questionLatex,
+    questionType: exercise.questionType,
+    points: exercise.points,
+    timeLimit: exercise.timeLimit,
+    speedBonus: exercise.speedBonus,
+    streakBonus: exercise.streakBonus,
+    isActive: exercise.isActive,
+    activatedAt: exercise.activatedAt,
+    resultsRevealed: exercise.resultsRevealed,
+    createdAt: exercise.createdAt,
+    content: publicQuestion(readExerciseQuestion(exercise), exercise.id),
+    remainingTime: exercise.timeLimit
+      ? Math.max(0, activatedAt.getTime() + exercise.timeLimit * 1000 - now.getTime())
+      : null,
+  };
+}
+
+/** How the class answered the exercise, from the answers stored so far. */
+export function summarizeResponses(exercise: Exercise, responses: ExerciseResponse[]): QuestionSummary {
+  return summarizeAnswers(readExerciseQuestion(exercise), responses.map(response => ({
+    // Answers from before answerData existed were always text
+    answer: response.answerData ? (JSON.parse(response.answerData) as ExerciseAnswer) : response.answer,
+    correct: response.isCorrect,
+    parts: response.partResults ? (JSON.parse(response.partResults) as PartResult[]) : null,
+  })));
+}
+
+// Answer groups of the exercises being followed, worked out again only when answers come in:
+// comparing typed answers for equivalence is too slow to repeat on every poll
+const answerGroupCache = new Map<number, { answered: number; groups: AnswerGroup[] }>();
+const MAX_CACHED_EXERCISES = 200;
+
+function cachedAnswerGroups(exercise: Exercise, responses: { answer: string; correct: boolean }[]): AnswerGroup[] {
+  const cached = answerGroupCache.get(exercise.id);
+  if (cached && cached.answered === responses.length) return cached.groups;
+
+  const groups = groupAnswers(exercise.questionType, responses);
+  answerGroupCache.delete(exercise.id);
+  answerGroupCache.set(exercise.id, { answered: responses.length, groups });
+  if (answerGroupCache.size > MAX_CACHED_EXERCISES) {
+    answerGroupCache.delete(answerGroupCache.keys().next().value!);
+  }
+  return groups;
+}
+
+/** How the exercise is going, from its answers and the students in the session. */
+export function analyzeExercise(exercise: Exercise, responses: ExerciseResponse[], participants: Participant[]): ResponseAnalytics {
+  const analyzed = responses.map(response => ({
+    participantId: response.participantId,
+    answer: response.answer,
+    correct: response.isCorrect,
+    responseTime: response.responseTime,
+  }));
+  return analyzeResponses(
+    exercise.questionType,
+    analyzed,
+    participants
+      .filter(participant => participant.role !== "teacher")
+      .map(participant => ({ participantId: participant.id, name: participant.visibleName || participant.guestName || "Anônimo" })),
+    cachedAnswerGroups(exercise, analyzed)
+  );
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { isLateAnswer, MAX_STREAK_MULTIPLIER, scoreAnswer, streakMultiplier } from "@shared/exerciseScoring";
+
+const rules = { timeLimit: 20, speedBonus: 10, streakBonus: false };
+
+describe("exercise scoring", () => {
+  it("accepts answers up to the time limit, with a little grace", () => {
+    expect(isLateAnswer(null, 3_600_000)).toBe(false);
+    expect(isLateAnswer(20, 21_000)).toBe(false);
+    expect(isLateAnswer(20, 23_000)).toBe(true);
+  });
+
+  it("gives a speed bonus that runs out at the time limit", () => {
+    expect(scoreAnswer(rules, { correct: true, pointsEarned: 10 }, 0, 0)).toMatchObject({ pointsEarned: 20, bonusPoints: 10 });
+    expect(scoreAnswer(rules, { correct: true, pointsEarned: 10 }, 15_000, 0)).toMatchObject({ pointsEarned: 13, bonusPoints: 3 });
+    expect(scoreAnswer(rules, { correct: true, pointsEarned: 10 }, 21_000, 0)).toMatchObject({ pointsEarned: 10, bonusPoints: 0 });
+    expect(scoreAnswer(rules, { correct: false, pointsEarned: 0 }, 0, 0)).toMatchObject({ pointsEarned: 0, bonusPoints: 0 });
+    // Without a time limit there is nothing to be fast against
+    expect(scoreAnswer({ ...rules, timeLimit: null }, { correct: true, pointsEarned: 10 }, 0, 0).bonusPoints).toBe(0);
+  });
+
+  it("multiplies the points of answers in a row when the exercise asks for it", () => {
+    const streak = { timeLimit: null, speedBonus: 0, streakBonus: true };
+    expect(scoreAnswer(streak, { correct: true, pointsEarned: 10 }, 0, 0)).toEqual({ pointsEarned: 10, bonusPoints: 0, streak: 1, multiplier: 1 });
+    expect(scoreAnswer(streak, { correct: true, pointsEarned: 10 }, 0, 1)).toEqual({ pointsEarned: 15, bonusPoints: 5, streak: 2, multiplier: 1.5 });
+    // Partial credit is multiplied but ends the streak
+    expect(scoreAnswer(streak, { correct: false, pointsEarned: 4 }, 0, 2)).toMatchObject({ pointsEarned: 8, streak: 0 });
+    expect(streakMultiplier(10)).toBe(MAX_STREAK_MULTIPLIER);
+    // The streak is kept even where it is not rewarded
+    expect(scoreAnswer(rules, { correct: true, pointsEarned: 10 }, 20_000, 4)).toMatchObject({ pointsEarned: 10, streak: 5, multiplier: 1 });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { buildSurfaceMesh, clampCamera, DEFAULT_CAMERA, project, readGraphCamera, toCube, zRangeOf } from "@shared/graph3d";
+
+const window = { xMin: -2, xMax: 2, yMin: -2, yMax: 2, zMin: -4, zMax: 4 };
+
+describe("3D graphs", () => {
+  it("keeps the camera within limits", () => {
+    expect(clampCamera({ yaw: 2 * Math.PI + 1, pitch: 3, zoom: 100 })).toEqual({ yaw: 1, pitch: Math.PI / 2, zoom: 4 });
+    expect(readGraphCamera(null)).toEqual(DEFAULT_CAMERA);
+    expect(readGraphCamera('{"zoom":2}')).toEqual({ ...DEFAULT_CAMERA, zoom: 2 });
+  });
+
+  it("projects from above with up pointing along y", () => {
+    const camera = { yaw: 0, pitch: Math.PI / 2, zoom: 1 };
+    const center = project({ x: 0, y: 0, z: 0 }, camera, 400, 400);
+    const top = project({ x: 0, y: 0, z: 1 }, camera, 400, 400);
+    const north = project({ x: 0, y: 1, z: 0 }, camera, 400, 400);
+
+    expect(center).toMatchObject({ px: 200, py: 200 });
+    expect(top.depth).toBeCloseTo(1);
+    expect(north.py).toBeLessThan(200);
+    expect(north.px).toBeCloseTo(200);
+  });
+
+  it("puts nearer points in front", () => {
+    // Looking along +y from the -y side: y = -1 is closer than y = 1
+    const camera = { yaw: 0, pitch: 0, zoom: 1 };
+    expect(project({ x: 0, y: -1, z: 0 }, camera, 400, 400).depth)
+      .toBeGreaterThan(project({ x: 0, y: 1, z: 0 }, camera, 400, 400).depth);
+  });
+
+  it("scales the window to the unit cube", () => {
+    expect(toCube({ x: 2, y: -2, z: 0 }, window)).toEqual({ x: 1, y: -1, z: 0 });
+    expect(zRangeOf([])).toEqual({ zMin: -1, zMax: 1 });
+    expect(zRangeOf([3, 3])).toEqual({ zMin: 2, zMax: 4 });
+  });
+
+  it("leaves out cells where the surface is undefined", () => {
+    const full = buildSurfaceMesh((x, y) => x * y, window, 10);
+    expect(full).toHaveLength(100);
+
+    const half = buildSurfaceMesh((x, y) => (x < 0 ? null : x * y), window, 10);
+    expect(half.length).toBeLessThan(60);
+    expect(half.every(quad => quad.corners.every(corner => corner.x >= 0))).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  analysisToLatex,
+  derivativeAt,
+  findExtrema,
+  findIntersections,
+  findRoots,
+  integrate,
+  tangentAt,
+} from "@shared/graphAnalysis";
+import { compileEquation, parseEquation } from "@shared/mathExpression";
+
+describe("graph analysis", () => {
+  it("finds crossing and touching roots but not asymptotes", () => {
+    const roots = findRoots(compileEquation("y = x^3 - 4x"), -10, 10);
+    expect(roots).toHaveLength(3);
+    [-2, 0, 2].forEach((root, i) => expect(roots[i]).toBeCloseTo(root, 8));
+
+    const touching = findRoots(compileEquation("y = (x - 1.3)^2"), -10, 10);
+    expect(touching).toHaveLength(1);
+    expect(touching[0]).toBeCloseTo(1.3, 3);
+
+    const tangent = findRoots(compileEquation("y = tg x"), -2, 2);
+    expect(tangent).toHaveLength(1);
+    expect(tangent[0]).toBeCloseTo(0, 8);
+  });
+
+  it("finds local extrema and intersections", () => {
+    const extrema = findExtrema(compileEquation("y = x^3 - 3x"), -10, 10);
+    expect(extrema.map(e => e.kind)).toEqual(["max", "min"]);
+    expect(extrema[0].x).toBeCloseTo(-1, 5);
+    expect(extrema[0].y).toBeCloseTo(2, 8);
+
+    const points = findIntersections(compileEquation("y = x^2"), compileEquation("y = x + 2"), -10, 10);
+    expect(points).toHaveLength(2);
+    expect(points[0].x).toBeCloseTo(-1, 8);
+    expect(points[1].y).toBeCloseTo(4, 8);
+  });
+
+  it("computes derivatives, tangent lines and areas", () => {
+    const square = compileEquation("y = x^2");
+    expect(derivativeAt(square, 3)).toBeCloseTo(6, 6);
+    expect(tangentAt(compileEquation("y = raiz(x)"), -1)).toBeNull();
+    expect(integrate(square, 0, 3)).toBeCloseTo(9, 8);
+    expect(integrate(compileEquation("y = 1/x"), -1, 1)).toBeNull();
+  });
+
+  it("writes results as LaTeX for the chat", () => {
+    const f = parseEquation("y = x^2 - 2").expression;
+    expect(analysisToLatex({ tool: "roots", points: [{ x: -Math.SQRT2, y: 0 }, { x: Math.SQRT2, y: 0 }] }, f))
+      .toBe("Raízes de $f(x) = x^{2} - 2$: $x = -1{,}4142$, $x = 1{,}4142$");
+    expect(analysisToLatex({ tool: "tangent", tangent: { x: 1, y: -1, slope: 2 } }, f))
+      .toBe("Reta tangente a $f(x) = x^{2} - 2$ em $x = 1$: $y = 2x - 3$ ($f'(1) = 2$)");
+    expect(analysisToLatex({ tool: "area", from: 0, to: 1.5, area: -1.875 }, f))
+      .toBe("$\\int_{0}^{1{,}5} x^{2} - 2\\,dx \\approx -1{,}875$");
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileGraphExpression,
+  describeGraph,
+  getGraphParameterNames,
+  parseGraphExpression,
+  readGraphExpressions,
+  syncGraphParameters,
+  traceImplicit,
+} from "@shared/graphExpressions";
+import { MathParseError } from "@shared/mathExpression";
+
+function parseError(source: string): MathParseError {
+  try {
+    parseGraphExpression(source);
+  } catch (error) {
+    if (error instanceof MathParseError) return error;
+    throw error;
+  }
+  throw new Error(`"${source}" parsed without errors`);
+}
+
+describe("graph expressions", () => {
+  it("classifies functions, points, vertical lines and inequalities", () => {
+    expect(parseGraphExpression("y = a x^2 + b")).toMatchObject({ kind: "function", parameters: ["a", "b"] });
+    expect(parseGraphExpression("f(x) = sen x")).toMatchObject({ kind: "function", parameters: [] });
+    expect(parseGraphExpression("(h, k^2)")).toMatchObject({ kind: "point", parameters: ["h", "k"] });
+    expect(parseGraphExpression("(x + 1)(x - 1)")).toMatchObject({ kind: "function" });
+    expect(parseGraphExpression("x = k")).toMatchObject({ kind: "vertical", parameters: ["k"] });
+    expect(parseGraphExpression("y >= 2x + c")).toMatchObject({ kind: "inequality", op: ">=", parameters: ["c"] });
+  });
+
+  it("classifies parametric, polar and implicit curves and vector fields", () => {
+    expect(parseGraphExpression("(a cos t, sen t)")).toMatchObject({ kind: "parametric", variable: "t", parameters: ["a"] });
+    expect(parseGraphExpression("r = 1 + cos θ")).toMatchObject({ kind: "polar", variable: "θ" });
+    expect(parseGraphExpression("r = t")).toMatchObject({ kind: "polar", variable: "t" });
+    expect(parseGraphExpression("x^2 + y^2 = 25")).toMatchObject({ kind: "implicit" });
+    expect(parseGraphExpression("y = y + 1")).toMatchObject({ kind: "implicit" });
+    expect(parseGraphExpression("(-y, x)")).toMatchObject({ kind: "vectorField" });
+  });
+
+  it("classifies surfaces and curves in space", () => {
+    expect(parseGraphExpression("z = a x^2 - y^2")).toMatchObject({ kind: "surface", parameters: ["a"] });
+    expect(parseGraphExpression("(cos t, sen t, k t)")).toMatchObject({ kind: "spaceCurve", variable: "t", parameters: ["k"] });
+    expect(parseError("(1, 2, 3)").message).toBe("Curvas no espaço usam t nas coordenadas");
+  });
+
+  it("points at misplaced variables", () => {
+    expect(parseError("(t, x)").message).toBe("Use t para curvas paramétricas ou x e y para campos vetoriais, não os dois");
+    expect(parseError("r = x")).toMatchObject({ message: '"x" não pode ser usado aqui', start: 4 });
+    expect(parseError("(1, 2, 3, 4)")).toMatchObject({ start: 8 });
+    expect(parseError("2x < y").message).toBe('Escreva a desigualdade como "y < expressão"');
+  });
+
+  it("binds parameter values, defaulting missing ones to 1", () => {
+    const parabola = compileGraphExpression(parseGraphExpression("y = a x^2 + b"), { a: 2 });
+    expect(parabola.kind === "function" && parabola.plot(3)).toBe(19);
+
+    const point = compileGraphExpression(parseGraphExpression("(h, -h)"), { h: 4 });
+    expect(point).toEqual({ kind: "point", x: 4, y: -4 });
+  });
+
+  it("turns polar curves into parametric ones over their range", () => {
+    const curve = compileGraphExpression(parseGraphExpression("r = 2"), {}, { min: 0, max: Math.PI });
+    expect(curve.kind).toBe("parametric");
+    if (curve.kind !== "parametric") return;
+    expect(curve.range).toEqual({ min: 0, max: Math.PI });
+    expect(curve.curve(Math.PI / 2)!.x).toBeCloseTo(0);
+    expect(curve.curve(Math.PI / 2)!.y).toBeCloseTo(2);
+  });
+
+  it("traces implicit relations with segments on the curve", () => {
+    const circle = compileGraphExpression(parseGraphExpression("x^2 + y^2 = 25"), {});
+    if (circle.kind !== "implicit") throw new Error("expected an implicit relation");
+    const segments = traceImplicit(circle.relation, { xMin: -10, xMax: 10, yMin: -10, yMax: 10 }, 80, 80);
+    expect(segments.length).toBeGreaterThan(50);
+    for (const point of segments.flat()) {
+      expect(Math.hypot(point.x, point.y)).toBeCloseTo(5, 0);
+    }
+  });
+
+  it("keeps slider settings when expressions change", () => {
+    const names = getGraphParameterNames([
+      { id: "1", source: "y = a x + b", color: "#000000" },
+      { id: "2", source: "y = sen(", color: "#000000" },
+      { id: "3", source: "x = b", color: "#000000" },
+    ]);
+    expect(names).toEqual(["a", "b"]);
+
+    const synced = syncGraphParameters([{ name: "b", value: 3, min: 0, max: 5, step: 1 }], names);
+    expect(synced).toEqual([
+      { name: "a", value: 1, min: -10, max: 10, step: 0.1 },
+      { name: "b", value: 3, min: 0, max: 5, step: 1 },
+    ]);
+  });
+
+  it("reads graphs stored before multiple expressions", () => {
+    const legacy = { equation: "y = x^2", expressions: null, parameters: null, config: '{"color":"#ff0000"}' };
+    expect(readGraphExpressions(legacy)).toEqual([{ id: "1", source: "y = x^2", color: "#ff0000" }]);
+    expect(describeGraph({
+      ...legacy,
+      expressions: JSON.stringify([{ id: "1", source: "y = k x", color: "#000000" }]),
+      parameters: JSON.stringify([{ name: "k", value: 2, min: 0, max: 5, step: 1 }]),
+    })).toBe("y = k x; k = 2");
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import type { Session } from "../drizzle/schema";
+import { buildLessonContext, extractLatexFormulas, generateLessonNotes } from "./lessonNotes";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSessionById: vi.fn(),
+  getRoomById: vi.fn(),
+  getTranscriptionsBySession: vi.fn(),
+  getLiveChatMessages: vi.fn(),
+  getExercisesBySession: vi.fn(),
+  getGraphsBySession: vi.fn(),
+  getResponsesByExercise: vi.fn(),
+  getLessonNotesBySession: vi.fn(),
+  upsertLessonNotes: vi.fn(),
+}));
+
+// Mock the LLM
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+import * as db from "./db";
+import { invokeLLM } from "./_core/llm";
+
+const session: Session = {
+  id: 1,
+  roomId: 1,
+  title: "Derivadas",
+  startedAt: new Date(),
+  endedAt: new Date(),
+  duration: 3600,
+  status: "ended",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function createAuthContext(userId: number = 1): TrpcContext {
+  return {
+    user: {
+      id: userId,
+      openId: `user-${userId}`,
+      email: `user${userId}@example.com`,
+      name: `User ${userId}`,
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("lesson notes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSessionById).mockResolvedValue(session);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1 } as any);
+    vi.mocked(db.getTranscriptionsBySession).mockResolvedValue([
+      { id: 1, sessionId: 1, recordingId: 1, content: "Hoje vamos derivar $x^2$.", language: "pt-BR", status: "ready", createdAt: new Date(), updatedAt: new Date() },
+    ]);
+    vi.mocked(db.getLiveChatMessages).mockResolvedValue([
+      { id: 1, sessionId: 1, participantId: 2, senderName: "Ana", message: "E a derivada de $\\sin x$?", createdAt: new Date() },
+    ]);
+    vi.mocked(db.getExercisesBySession).mockResolvedValue([
+      { id: 5, sessionId: 1, createdBy: 1, question: "Derive x^2", questionLatex: "\\frac{d}{dx} x^2", correctAnswer: "2x", points: 10, timeLimit: null, isActive: false, createdAt: new Date() },
+    ]);
+    vi.mocked(db.getResponsesByExercise).mockResolvedValue([
+      { id: 1, exerciseId: 5, participantId: 2, answer: "2x", isCorrect: true, pointsEarned: 10, responseTime: 5, createdAt: new Date() },
+      { id: 2, exerciseId: 5, participantId: 3, answer: "x", isCorrect: false, pointsEarned: 0, responseTime: 8, createdAt: new Date() },
+      { id: 3, exerciseId: 5, participantId: 4, answer: "x ", isCorrect: false, pointsEarned: 0, responseTime: 9, createdAt: new Date() },
+    ]);
+    vi.mocked(db.getGraphsBySession).mockResolvedValue([
+      { id: 1, sessionId: 1, createdBy: 1, title: "Parábola", graphType: "quadratic", equation: "y = x^2", config: null, isActive: false, createdAt: new Date(), updatedAt: new Date() },
+    ]);
+  });
+
+  it("extracts inline and block LaTeX formulas", () => {
+    expect(extractLatexFormulas("Seja $f(x) = x^2$ e $$\\int_0^1 x\\,dx$$.")).toEqual([
+      "f(x) = x^2",
+      "\\int_0^1 x\\,dx",
+    ]);
+  });
+
+  it("builds the lesson context from transcript, chat, exercises and graphs", async () => {
+    const context = await buildLessonContext(session);
+
+    expect(context).toContain("Hoje vamos derivar $x^2$.");
+    expect(context).toContain("Ana: E a derivada de $\\sin x$?");
+    expect(context).toContain("Respostas: 3, corretas: 1");
+    expect(context).toContain('Respostas erradas mais comuns: "x" (2x)');
+    expect(context).toContain("Parábola (quadratic): y = x^2");
+    expect(context).toContain("- $\\sin x$");
+    expect(context).toContain("- $\\frac{d}{dx} x^2$");
+  });
+
+  it("stores the generated notes as Markdown", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue({
+      choices: [{
+        message: {
+          role: "assistant",
+          content: JSON.stringify({
+            summary: "Aula sobre derivadas.",
+            keyConcepts: ["Regra da potência"],
+            workedExamples: [{ title: "Derivada de $x^2$", solution: "$$\\frac{d}{dx}x^2 = 2x$$" }],
+            commonMistakes: ["Esquecer o expoente"],
+            homework: ["Derive $x^3$"],
+          }),
+        },
+      }],
+    } as any);
+
+    await generateLessonNotes(1);
+
+    expect(db.upsertLessonNotes).toHaveBeenNthCalledWith(1, 1, { status: "processing" });
+    const [, stored] = vi.mocked(db.upsertLessonNotes).mock.calls[1];
+    expect(stored.status).toBe("ready");
+    expect(stored.summary).toBe("Aula sobre derivadas.");
+    expect(stored.content).toContain("## Conceitos-chave\n\n- Regra da potência");
+    expect(stored.content).toContain("### Derivada de $x^2$\n\n$$\\frac{d}{dx}x^2 = 2x$$");
+    expect(stored.content).toContain("## Exercícios para casa\n\n- Derive $x^3$");
+  });
+
+  it("marks the notes as failed when the LLM fails", async () => {
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM unavailable"));
+
+    await generateLessonNotes(1);
+
+    expect(db.upsertLessonNotes).toHaveBeenLastCalledWith(1, { status: "failed" });
+  });
+
+  it("only lets the host regenerate the notes", async () => {
+    const caller = appRouter.createCaller(createAuthContext(2));
+
+    await expect(caller.lessonNotes.regenerate({ sessionId: 1 })).rejects.toThrow(
+      "Apenas o professor pode gerar notas da aula"
+    );
+    expect(db.upsertLessonNotes).not.toHaveBeenCalled();
+  });
+
+  it("refuses to regenerate while notes are being generated", async () => {
+    vi.mocked(db.getLessonNotesBySession).mockResolvedValue({
+      id: 1, sessionId: 1, summary: null, content: null, status: "processing", createdAt: new Date(), updatedAt: new Date(),
+    });
+    const caller = appRouter.createCaller(createAuthContext(1));
+
+    await expect(caller.lessonNotes.regenerate({ sessionId: 1 })).rejects.toThrow(
+      "As notas desta aula já estão sendo geradas"
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import type { LessonNotes, Session } from "../drizzle/schema";
+import * as db from "./db";
+import { invokeLLM } from "./_core/llm";
+import { describeGraph, readGraphExpressions } from "@shared/graphExpressions";
+
+const LESSON_NOTES_SYSTEM_PROMPT = `Você é um professor de matemática experiente que prepara notas de aula para os alunos a partir do registro de uma aula ao vivo.
+
+Diretrizes:
+- Baseie-se apenas no que aconteceu na aula
+- Use notação LaTeX para fórmulas matemáticas (ex: $x^2 + y^2 = r^2$, ou $$...$$ para blocos)
+- Nos exemplos resolvidos, mostre a resolução passo a passo
+- Use as estatísticas dos exercícios para identificar os erros mais comuns
+- Sugira exercícios de casa no mesmo nível dos trabalhados em aula
+- Escreva sempre em português brasileiro`;
+
+const LESSON_NOTES_SCHEMA = {
+  name: "lesson_notes",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "Resumo da aula em um parágrafo" },
+      keyConcepts: { type: "array", items: { type: "string" } },
+      workedExamples: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            solution: { type: "string", description: "Resolução passo a passo em Markdown com LaTeX" },
+          },
+          required: ["title", "solution"],
+          additionalProperties: false,
+        },
+      },
+      commonMistakes: { type: "array", items: { type: "string" } },
+      homework: { type: "array", items: { type: "string" } },
+    },
+    required: ["summary", "keyConcepts", "workedExamples", "commonMistakes", "homework"],
+    additionalProperties: false,
+  },
+};
+
+// Keep the prompt within a reasonable size for long sessions
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_CHAT_MESSAGES = 100;
+
+export type GeneratedLessonNotes = {
+  summary: string;
+  keyConcepts: string[];
+  workedExamples: { title: string; solution: string }[];
+  commonMistakes: string[];
+  homework: string[];
+};
+
+/** LaTeX snippets written between $...$ or $$...$$. */
+export function extractLatexFormulas(text: string): string[] {
+  const formulas: string[] = [];
+  const pattern = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const formula = (match[1] ?? match[2]).trim();
+    if (formula) formulas.push(formula);
+  }
+  return formulas;
+}
+
+/**
+ * Gather everything that happened in a session into a plain-text report
+ * for the LLM: transcript, live chat, exercises with answer statistics,
+ * graphs shown and the LaTeX formulas used.
+ */
+export async function buildLessonContext(session: Session): Promise<string> {
+  const [transcriptions, chat, exercises, graphs] = await Promise.all([
+    db.getTranscriptionsBySession(session.id),
+    db.getLiveChatMessages(session.id),
+    db.getExercisesBySession(session.id),
+    db.getGraphsBySession(session.id),
+  ]);
+
+  const sections: string[] = [`Aula: ${session.title ?? "Sem título"}`];
+  const formulas: string[] = [];
+
+  const transcript = transcriptions
+    .filter(trans => trans.status === "ready" && trans.content.trim())
+    .reverse()
+    .map(trans => trans.content.trim())
+    .join("\n\n");
+  if (transcript) {
+    sections.push(`## Transcrição\n${transcript.slice(0, MAX_TRANSCRIPT_CHARS)}`);
+    formulas.push(...extractLatexFormulas(transcript));
+  }
+
+  if (chat.length > 0) {
+    const lines = chat
+      .slice(-MAX_CHAT_MESSAGES)
+      .map(msg => `${msg.senderName}: ${msg.message}`);
+    sections.push(`## Chat da aula\n${lines.join("\n")}`);
+    chat.forEach(msg => formulas.push(...extractLatexFormulas(msg.message)));
+  }
+
+  if (exercises.length > 0) {
+    const blocks = await Promise.all(exercises.map(async exercise => {
+      const responses = await db.getResponsesByExercise(exercise.id);
+      const correct = responses.filter(response => response.isCorrect).length;
+
+      // Most frequent wrong answers
+      const wrongCounts = new Map<string, number>();
+      responses
+        .filter(response => !response.isCorrect)
+        .forEach(response => {
+          const answer = response.answer.trim();
+          wrongCounts.set(answer, (wrongCounts.get(answer) ?? 0) + 1);
+        });
+      const commonWrong = Array.from(wrongCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([answer, count]) => `"${answer}" (${count}x)`);
+
+      if (exercise.questionLatex) formulas.push(exercise.questionLatex);
+      formulas.push(...extractLatexFormulas(exercise.question));
+
+      return [
+        `- Pergunta: ${exercise.questionLatex ? `$${exercise.questionLatex}$` : exercise.question}`,
+        `  Resposta correta: ${exercise.correctAnswer}`,
+        `  Respostas: ${responses.length}, corretas: ${correct}`,
+        commonWrong.length > 0 ? `  Respostas erradas mais comuns: ${commonWrong.join(", ")}` : null,
+      ].filter(Boolean).join("\n");
+    }));
+    sections.push(`## Exercícios\n${blocks.join("\n")}`);
+  }
+
+  if (graphs.length > 0) {
+    const lines = graphs.map(graph => `- ${graph.title ?? "Gráfico"} (${graph.graphType}): ${describeGraph(graph)}`);
+    sections.push(`## Gráficos mostrados\n${lines.join("\n")}`);
+    graphs.forEach(graph => formulas.push(...readGraphExpressions(graph).map(expression => expression.source)));
+  }
+
+  const uniqueFormulas = Array.from(new Set(formulas));
+  if (uniqueFormulas.length > 0) {
+    sections.push(`## Fórmulas usadas\n${uniqueFormulas.map(formula => `- $${formula}$`).join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+export function formatLessonNotesMarkdown(notes: GeneratedLessonNotes): string {
+  const list = (items: string[]) => items.map(item => `- ${item}`).join("\n");
+
+  return [
+    `## Resumo\n\n${notes.summary}`,
+    `## Conceitos-chave\n\n${list(notes.keyConcepts)}`,
+    `## Exemplos resolvidos\n\n${notes.workedExamples
+      .map(example => `### ${example.title}\n\n${example.solution}`)
+      .join("\n\n")}`,
+    `## Erros comuns\n\n${list(notes.commonMistakes)}`,
+    `## Exercícios para casa\n\n${list(notes.homework)}`,
+  ].join("\n\n");
+}
+
+/**
+ * Generate (or regenerate) the lesson notes of a session.
+ * The row goes through processing to ready or failed; errors are logged,
+ * never thrown.
+ */
+export async function generateLessonNotes(sessionId: number): Promise<LessonNotes | undefined> {
+  const session = await db.getSessionById(sessionId);
+  if (!session) return undefined;
+
+  await db.upsertLessonNotes(sessionId, { status: "processing" });
+
+  try {
+    const context = await buildLessonContext(session);
+    const response = await invokeLLM({
+      messages: [
+        { role: "system", content: LESSON_NOTES_SYSTEM_PROMPT },
+        { role: "user", content: `Prepare as notas desta aula:\n\n${context}` },
+      ],
+      outputSchema: LESSON_NOTES_SCHEMA,
+    });
+
+    const rawContent = response.choices[0]?.message?.content;
+    if (typeof rawContent !== "string") {
+      throw new Error("LLM returned no content");
+    }
+    const notes = JSON.parse(rawContent) as GeneratedLessonNotes;
+
+    return db.upsertLessonNotes(sessionId, {
+      summary: notes.summary,
+      content: formatLessonNotesMarkdown(notes),
+      status: "ready",
+    });
+  } catch (error) {
+    console.error("[LessonNotes] Failed to generate notes for session", sessionId, error);
+    return db.upsertLessonNotes(sessionId, { status: "failed" });
+  }
+}
+
+/** Start generating the lesson notes of a session in the background. */
+export function enqueueLessonNotes(sessionId: number) {
+  generateLessonNotes(sessionId).catch(error => {
+    console.error("[LessonNotes] Job crashed", sessionId, error);
+  });
+}
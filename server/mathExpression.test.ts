@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileEquation,
+  evaluate,
+  formatMathError,
+  MathParseError,
+  parseEquation,
+  parseExpression,
+  toLatex,
+} from "@shared/mathExpression";
+
+function value(source: string, scope: Record<string, number> = {}) {
+  return evaluate(parseExpression(source), scope);
+}
+
+function parseError(source: string): MathParseError {
+  try {
+    parseEquation(source);
+  } catch (error) {
+    if (error instanceof MathParseError) return error;
+    throw error;
+  }
+  throw new Error(`"${source}" parsed without errors`);
+}
+
+describe("math expression parser", () => {
+  it("follows the usual precedence rules", () => {
+    expect(value("1 + 2 * 3")).toBe(7);
+    expect(value("2^3^2")).toBe(512);
+    expect(value("-2^2")).toBe(-4);
+    expect(value("2^-1")).toBe(0.5);
+    expect(value("(1 + 2) * 3")).toBe(9);
+    expect(value("3!")).toBe(6);
+    expect(value("x²", { x: 3 })).toBe(9);
+  });
+
+  it("supports implicit multiplication", () => {
+    expect(value("2x", { x: 3 })).toBe(6);
+    expect(value("3(x + 1)", { x: 1 })).toBe(6);
+    expect(value("(x + 1)(x - 1)", { x: 3 })).toBe(8);
+    expect(value("xy", { x: 2, y: 5 })).toBe(10);
+    expect(value("2pi")).toBeCloseTo(2 * Math.PI);
+    expect(value("|x||y|", { x: -2, y: 3 })).toBe(6);
+  });
+
+  it("understands Portuguese function names and constants", () => {
+    expect(value("sen(pi/2)")).toBeCloseTo(1);
+    expect(value("tg(0) + raiz(9)")).toBe(3);
+    expect(value("sen 2x", { x: Math.PI / 4 })).toBeCloseTo(1);
+    expect(value("sen^2 x + cos^2 x", { x: 0.7 })).toBeCloseTo(1);
+    expect(value("exp(1)")).toBeCloseTo(Math.E);
+    expect(value("e^x", { x: 2 })).toBeCloseTo(Math.exp(2));
+    expect(value("log(100) + log(8, 2) + ln(e)")).toBeCloseTo(6);
+    expect(value("(-8)^(1/3)")).toBeCloseTo(-2);
+  });
+
+  it("evaluates piecewise functions", () => {
+    const abs = "{x < 0: -x, x}";
+    expect(value(abs, { x: -3 })).toBe(3);
+    expect(value(abs, { x: 2 })).toBe(2);
+
+    const steps = "{x < 0: 0, 0 <= x < 2: x^2, 4}";
+    expect(value(steps, { x: 1.5 })).toBe(2.25);
+    expect(value(steps, { x: 5 })).toBe(4);
+
+    expect(value("se(x > 0, 1, -1)", { x: -1 })).toBe(-1);
+    expect(value("{x > 0: 1}", { x: -1 })).toBeNaN();
+  });
+
+  it("reads y = and f(x) = equations and lists their parameters", () => {
+    expect(parseEquation("y = a x^2 + b x + c").parameters).toEqual(["a", "b", "c"]);
+    expect(parseEquation("f(x) = k_1 sen(x)").parameters).toEqual(["k_1"]);
+    expect(parseEquation("2x + 1").parameters).toEqual([]);
+
+    const f = compileEquation("y = a x + 1", { a: 2 });
+    expect(f(3)).toBe(7);
+    expect(compileEquation("y = 1/x")(0)).toBeNull();
+    expect(compileEquation("y = raiz(x)")(-1)).toBeNull();
+  });
+
+  it("reports errors with their position", () => {
+    const missing = parseError("y = 2x +");
+    expect(missing.message).toBe("Expressão incompleta: faltou um número ou variável");
+    expect(missing.start).toBe(8);
+
+    const unknown = parseError("y = foo(x)");
+    expect(unknown.message).toBe("Função desconhecida: foo");
+    expect([unknown.start, unknown.end]).toEqual([4, 7]);
+
+    const paren = parseError("y = (x + 1");
+    expect(paren.message).toBe('Expressão incompleta: faltou ")"');
+
+    const character = parseError("y = x # 2");
+    expect(formatMathError(character)).toBe('Caractere inválido: "#" (posição 7)');
+
+    expect(parseError("y = log(1, 2, 3)").message).toBe("log recebe de 1 a 2 argumento(s), recebeu 3");
+    expect(parseError("y = x < 2").message).toBe('Escreva a equação como "y = expressão"');
+    expect(parseError("y = 2..3").message).toBe("Número com mais de um ponto decimal");
+  });
+
+  it("gives up on factorials too large for a number at once", () => {
+    const started = Date.now();
+    expect(value("fat(1000000000000)")).toBe(Infinity);
+    expect(value("171!")).toBe(Infinity);
+    expect(Date.now() - started).toBeLessThan(50);
+    expect(Number.isFinite(value("170!"))).toBe(true);
+  });
+
+  it("never runs the input as JavaScript", () => {
+    expect(() => parseEquation("y = constructor.constructor('return process')()")).toThrow(MathParseError);
+    expect(() => parseEquation("y = Math.PI")).toThrow(MathParseError);
+  });
+
+  it("prints expressions as LaTeX", () => {
+    const latex = (source: string) => toLatex(parseEquation(source).expression);
+    expect(latex("y = 2x^2 - 3(x + 1)")).toBe("2 x^{2} - 3 \\left(x + 1\\right)");
+    expect(latex("sen(x)/2 + raiz(x - 1)")).toBe("\\frac{\\sin\\left(x\\right)}{2} + \\sqrt{x - 1}");
+    expect(latex("(-x)^2 - (-1)")).toBe("\\left(-x\\right)^{2} - \\left(-1\\right)");
+    expect(latex("{x < 0: -x, x}")).toBe("\\begin{cases} -x & \\text{se } x < 0 \\\\ x & \\text{caso contrário} \\end{cases}");
+  });
+});
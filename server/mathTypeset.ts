@@ -0,0 +1,519 @@
+import katex from "katex";
+import { shiftItems, type DrawItem, type FontName, type FontSet, type TypesetBox } from "./typesetFonts";
+
+/**
+ * Typesetting of TeX formulas for converted documents. KaTeX parses the
+ * formula into MathML, which is laid out here after a simplified version
+ * of TeX's rules and drawn with KaTeX's fonts.
+ */
+
+// Distances in em of the current size, after TeX's font parameters
+const AXIS_HEIGHT = 0.25;
+const X_HEIGHT = 0.431;
+const RULE_THICKNESS = 0.04;
+const SUP_DROP = 0.386;
+const SUB_DROP = 0.05;
+const SUP_MIN = { display: 0.413, text: 0.363 };
+const SUB_MIN = 0.15;
+const SCRIPT_SPACE = 0.05;
+const LIMIT_GAP = 0.111;
+const THIN_SPACE = 1 / 6;
+const MEDIUM_SPACE = 2 / 9;
+const THICK_SPACE = 5 / 18;
+
+// Size of each script level relative to the formula
+const SCRIPT_SCALES = [1, 0.7, 0.5];
+
+// Fonts a stretchy delimiter is tried in, from the smallest
+const DELIMITER_FONTS: FontName[] = ["math-main", "math-size1", "math-size2", "math-size3", "math-size4"];
+
+const LARGE_OPERATORS = new Set(Array.from("∑∏∐∫∬∭∮⋃⋂⨁⨂⨀⋁⋀"));
+const RELATIONS = new Set(Array.from("=<>≤≥≠≈≡∼≃≅∝∈∉∋⊂⊃⊆⊇⊊→←↔⇒⇐⇔↦∣∥⊥≪≫:"));
+const BINARY_OPERATORS = new Set(Array.from("+−±∓×÷⋅∗∘∙∪∩∧∨⊕⊗∖*"));
+const PUNCTUATION = new Set([",", ";"]);
+const OPENING = new Set(Array.from("([{⟨⌊⌈"));
+const CLOSING = new Set(Array.from(")]}⟩⌋⌉"));
+// Function application, invisible times, separator and plus
+const INVISIBLE = new Set(["⁡", "⁢", "⁣", "⁤"]);
+// Stretchy accents drawn as a rule across what they cover
+const RULE_ACCENTS = new Set(Array.from("‾_⏞⏟︷︸"));
+const ARROW_ACCENTS = new Set(Array.from("→←↔"));
+// Combining characters KaTeX uses that have no advance of their own
+const ACCENT_SUBSTITUTES: Record<string, string> = { "⃗": "→" };
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+type MathNode = { tag: string; attributes: Record<string, string>; children: MathNode[]; text: string };
+
+type MathStyle = { size: number; display: boolean; level: number };
+
+// How an atom is spaced from its neighbours in a row, as in TeX
+type AtomKind = "ord" | "op" | "bin" | "rel" | "open" | "close" | "punct";
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name] ?? entity;
+    return String.fromCodePoint(name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+  });
+}
+
+/** The elements of KaTeX's MathML output. */
+function parseMathMl(markup: string): MathNode {
+  const root: MathNode = { tag: "root", attributes: {}, children: [], text: "" };
+  const stack = [root];
+  const token = /<(\/?)([a-z]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(markup))) {
+    const [, closing, tag, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else {
+      const attributes: Record<string, string> = {};
+      const attribute = /([a-z-]+)="([^"]*)"/g;
+      let pair: RegExpExecArray | null;
+      while ((pair = attribute.exec(attributeText))) attributes[pair[1]] = decodeEntities(pair[2]);
+      const node: MathNode = { tag, attributes, children: [], text: "" };
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  return root;
+}
+
+function find(node: MathNode, tag: string): MathNode | undefined {
+  if (node.tag === tag) return node;
+  for (const child of node.children) {
+    const found = find(child, tag);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function sizeOf(style: MathStyle): number {
+  return style.size * SCRIPT_SCALES[Math.min(style.level, SCRIPT_SCALES.length - 1)];
+}
+
+function scriptStyle(style: MathStyle): MathStyle {
+  return { ...style, display: false, level: style.level + 1 };
+}
+
+function ems(value: string | undefined, size: number): number {
+  const match = value?.match(/^(-?[\d.]+)em$/);
+  return match ? parseFloat(match[1]) * size : 0;
+}
+
+function emptyBox(width = 0): TypesetBox {
+  return { width, height: 0, depth: 0, items: [] };
+}
+
+/** Boxes side by side, on a common baseline. */
+function hbox(boxes: TypesetBox[]): TypesetBox {
+  const items: DrawItem[] = [];
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  for (const box of boxes) {
+    items.push(...shiftItems(box, width, 0));
+    width += box.width;
+    height = Math.max(height, box.height);
+    depth = Math.max(depth, box.depth);
+  }
+  return { width, height, depth, items };
+}
+
+/** `box` raised by `shift` (lowered when negative). */
+function raise(box: TypesetBox, shift: number): TypesetBox {
+  return { width: box.width, height: box.height + shift, depth: box.depth - shift, items: shiftItems(box, 0, shift) };
+}
+
+/** Boxes stacked and centred on the widest, each with its baseline at the given height. */
+function vstack(parts: { box: TypesetBox; baseline: number }[]): TypesetBox {
+  const width = Math.max(...parts.map(part => part.box.width));
+  return {
+    width,
+    height: Math.max(...parts.map(part => part.baseline + part.box.height)),
+    depth: Math.max(...parts.map(part => part.box.depth - part.baseline)),
+    items: parts.flatMap(part => shiftItems(part.box, (width - part.box.width) / 2, part.baseline)),
+  };
+}
+
+function rule(x1: number, y1: number, x2: number, y2: number, thickness: number): DrawItem {
+  return { type: "line", x1, y1, x2, y2, thickness };
+}
+
+function isLargeOperator(node: MathNode): boolean {
+  return node.tag === "mo" && LARGE_OPERATORS.has(node.text.trim());
+}
+
+function atomKind(node: MathNode): AtomKind {
+  if (["msub", "msup", "msubsup", "munder", "mover", "munderover"].includes(node.tag) && node.children[0]) {
+    return atomKind(node.children[0]);
+  }
+  if (node.tag === "mi" && node.text.length > 1) return "op";
+  if (node.tag !== "mo" || "lspace" in node.attributes) return "ord";
+  const text = node.text.trim();
+  if (LARGE_OPERATORS.has(text)) return "op";
+  if (RELATIONS.has(text)) return "rel";
+  if (BINARY_OPERATORS.has(text)) return "bin";
+  if (PUNCTUATION.has(text)) return "punct";
+  if (OPENING.has(text)) return "open";
+  if (CLOSING.has(text)) return "close";
+  return "ord";
+}
+
+// Space, in em, between two atoms of a row; medium and thick spaces vanish in scripts
+function atomSpace(left: AtomKind, right: AtomKind, level: number): number {
+  if (left === "rel" && right === "rel") return 0;
+  if (left === "rel" || right === "rel") return level === 0 && left !== "open" && right !== "close" ? THICK_SPACE : 0;
+  if (left === "bin" || right === "bin") return level === 0 ? MEDIUM_SPACE : 0;
+  if (left === "punct") return level === 0 ? THIN_SPACE : 0;
+  if (left === "op" && (right === "ord" || right === "op")) return THIN_SPACE;
+  if (right === "op" && (left === "ord" || left === "close")) return THIN_SPACE;
+  return 0;
+}
+
+function textFont(node: MathNode): FontName {
+  const variant = node.attributes.mathvariant;
+  if (node.tag === "mtext") return variant === "bold" ? "serif-bold" : "serif";
+  if (variant === "double-struck") return "math-ams";
+  if (variant === "bold" || variant === "bold-italic") return "math-bold";
+  if (variant === "normal" || node.tag !== "mi" || node.text.length > 1) return "math-main";
+  // Latin letters and lower case Greek are italic; upper case Greek stays upright, as in TeX
+  return /^[A-Za-z\u03b1-\u03c9\u03d1\u03d5\u03d6\u03f1\u03f5]$/.test(node.text) ? "math-italic" : "math-main";
+}
+
+/** A delimiter tall enough for content `height` above and `depth` below the baseline, centred on the axis. */
+function delimiter(char: string, height: number, depth: number, style: MathStyle, fonts: FontSet): TypesetBox {
+  const size = sizeOf(style);
+  const axis = AXIS_HEIGHT * size;
+  const needed = 2 * Math.max(height - axis, depth + axis);
+  const candidates = DELIMITER_FONTS.filter(font => fonts.has(font, char));
+  let box = fonts.textBox(candidates[0] ?? "math-main", char, size);
+  for (const font of candidates) {
+    box = fonts.textBox(font, char, size);
+    if (box.height + box.depth >= needed * 0.9) break;
+  }
+  return raise(box, axis - (box.height - box.depth) / 2);
+}
+
+function layoutRow(nodes: MathNode[], style: MathStyle, fonts: FontSet): TypesetBox {
+  const size = sizeOf(style);
+  const atoms = nodes
+    .filter(node => !(node.tag === "mo" && INVISIBLE.has(node.text)))
+    .map(node => ({
+      node,
+      kind: atomKind(node),
+      stretchy: node.tag === "mo" && node.attributes.fence === "true" && node.attributes.stretchy !== "false",
+      box: null as TypesetBox | null,
+    }));
+
+  // Stretchy delimiters grow to the content between them, which is set first
+  let height = 0.7 * size;
+  let depth = 0.2 * size;
+  for (const atom of atoms) {
+    if (atom.stretchy) continue;
+    atom.box = layoutNode(atom.node, style, fonts);
+    height = Math.max(height, atom.box.height);
+    depth = Math.max(depth, atom.box.depth);
+  }
+
+  // A binary operator with nothing to combine on one side is an ordinary symbol, like a leading minus
+  atoms.forEach((atom, index) => {
+    if (atom.kind !== "bin") return;
+    const before = atoms[index - 1]?.kind;
+    const after = atoms[index + 1]?.kind;
+    if (!before || ["bin", "op", "rel", "open", "punct"].includes(before) || !after || ["rel", "close", "punct"].includes(after)) {
+      atom.kind = "ord";
+    }
+  });
+
+  const boxes: TypesetBox[] = [];
+  atoms.forEach((atom, index) => {
+    const box = atom.box ?? delimiter(atom.node.text.trim(), height, depth, style, fonts);
+    const previous = atoms[index - 1];
+    if (previous) boxes.push(emptyBox(atomSpace(previous.kind, atom.kind, style.level) * size));
+    boxes.push(emptyBox(ems(atom.node.attributes.lspace, size)), box, emptyBox(ems(atom.node.attributes.rspace, size)));
+  });
+  return hbox(boxes);
+}
+
+function layoutFraction(node: MathNode, style: MathStyle, fonts: FontSet): TypesetBox {
+  const size = sizeOf(style);
+  const partStyle = style.display ? { ...style, display: false } : scriptStyle(style);
+  const numerator = layoutNode(node.children[0], partStyle, fonts);
+  const denominator = layoutNode(node.children[1], partStyle, fonts);
+  const thickness = node.attributes.linethickness === "0px" ? 0 : RULE_THICKNESS * size;
+  const gap = (style.display ? 3 : 1) * RULE_THICKNESS * size + thickness / 2;
+  const axis = AXIS_HEIGHT * size;
+  const padding = 0.1 * size;
+
+  const stacked = vstack([
+    { box: numerator, baseline: axis + gap + numerator.depth },
+    { box: denominator, baseline: axis - gap - denominator.height },
+  ]);
+  const width = stacked.width + 2 * padding;
+  const items = shiftItems(stacked, padding, 0);
+  if (thickness > 0) items.push(rule(0, axis, width, axis, thickness));
+  return { width, height: stacked.height, depth: stacked.depth, items };
+}
+
+function layoutRadical(body: TypesetBox, index: TypesetBox | null, style: MathStyle): TypesetBox {
+  const size = sizeOf(style);
+  const thickness = RULE_THICKNESS * size;
+  const clearance = thickness + ((style.display ? X_HEIGHT : RULE_THICKNESS) * size) / 4;
+  const top = body.height + clearance + thickness / 2;
+  const bottom = -body.depth - 0.05 * size;
+  const tick = bottom + 0.45 * Math.min(top - bottom, 1.2 * size);
+  const signWidth = 0.55 * size;
+
+  // The index sits over the short stroke of the sign
+  const offset = index ? Math.max(0, index.width - 0.3 * size) : 0;
+  const items: DrawItem[] = index ? shiftItems(index, 0, tick + 0.1 * size + index.depth) : [];
+  const end = offset + signWidth + body.width + 0.1 * size;
+  items.push(
+    rule(offset + 0.05 * size, tick, offset + 0.16 * size, tick + 0.05 * size, thickness),
+    rule(offset + 0.16 * size, tick + 0.05 * size, offset + 0.3 * size, bottom, thickness * 1.8),
+    rule(offset + 0.3 * size, bottom, offset + signWidth, top, thickness),
+    rule(offset + signWidth, top, end, top, thickness),
+    ...shiftItems(body, offset + signWidth + 0.05 * size, 0)
+  );
+  return {
+    width: end,
+    height: Math.max(top + thickness / 2, index ? tick + 0.1 * size + index.depth + index.height : 0),
+    depth: Math.max(body.depth, -bottom),
+    items,
+  };
+}
+
+function attachScripts(base: TypesetBox, sub: TypesetBox | null, sup: TypesetBox | null, style: MathStyle): TypesetBox {
+  const size = sizeOf(style);
+  let supShift = 0;
+  let subShift = 0;
+  if (sup) {
+    supShift = Math.max(
+      base.height - SUP_DROP * size,
+      (style.display ? SUP_MIN.display : SUP_MIN.text) * size,
+      sup.depth + (X_HEIGHT * size) / 4
+    );
+  }
+  if (sub) {
+    subShift = Math.max(base.depth + SUB_DROP * size, SUB_MIN * size, sub.height - (4 * X_HEIGHT * size) / 5);
+  }
+  if (sub && sup) {
+    const gap = supShift - sup.depth - (sub.height - subShift);
+    if (gap < 4 * RULE_THICKNESS * size) subShift += 4 * RULE_THICKNESS * size - gap;
+  }
+
+  const scripts: { box: TypesetBox; baseline: number }[] = [];
+  if (sup) scripts.push({ box: sup, baseline: supShift });
+  if (sub) scripts.push({ box: sub, baseline: -subShift });
+  const scriptWidth = Math.max(...scripts.map(script => script.box.width));
+  const items = [...base.items];
+  for (const script of scripts) items.push(...shiftItems(script.box, base.width, script.baseline));
+  return {
+    width: base.width + scriptWidth + SCRIPT_SPACE * size,
+    height: Math.max(base.height, ...scripts.map(script => script.baseline + script.box.height)),
+    depth: Math.max(base.depth, ...scripts.map(script => script.box.depth - script.baseline)),
+    items,
+  };
+}
+
+/** An accent over or under `base`: a glyph, or a rule or arrow as wide as the base when stretchy. */
+function layoutAccent(node: MathNode, base: TypesetBox, under: boolean, style: MathStyle, fonts: FontSet): TypesetBox {
+  const size = sizeOf(style);
+  const char = node.text.trim();
+  const thickness = RULE_THICKNESS * size;
+  const gap = 0.1 * size;
+
+  if (node.attributes.stretchy === "true" && (RULE_ACCENTS.has(char) || ARROW_ACCENTS.has(char))) {
+    const y = under ? -base.depth - gap : base.height + gap;
+    const items = [...base.items, rule(0, y, base.width, y, thickness)];
+    const head = 0.12 * size;
+    if (char !== "←" && ARROW_ACCENTS.has(char)) {
+      items.push(rule(base.width - head, y + head, base.width, y, thickness), rule(base.width - head, y - head, base.width, y, thickness));
+    }
+    if (char !== "→" && ARROW_ACCENTS.has(char)) {
+      items.push(rule(head, y + head, 0, y, thickness), rule(head, y - head, 0, y, thickness));
+    }
+    return {
+      width: base.width,
+      height: under ? base.height : y + head,
+      depth: under ? -y + head : base.depth,
+      items,
+    };
+  }
+
+  const substitute = ACCENT_SUBSTITUTES[char];
+  const accent = fonts.textBox("math-main", substitute ?? char, substitute ? 0.7 * size : size);
+  // Accent glyphs are drawn for a base as tall as an x; taller bases push them up
+  const baseline = under ? -base.depth - gap - accent.height : Math.max(0, base.height - X_HEIGHT * size) + (substitute ? 0.45 * size : 0);
+  return vstack([{ box: base, baseline: 0 }, { box: accent, baseline }]);
+}
+
+function layoutLimits(node: MathNode, style: MathStyle, fonts: FontSet): TypesetBox {
+  const [baseNode, first, second] = node.children;
+  const base = layoutNode(baseNode, style, fonts);
+  const underNode = node.tag === "mover" ? null : first;
+  const overNode = node.tag === "mover" ? first : node.tag === "munderover" ? second : null;
+
+  // Outside display style, the limits of \sum and the like become scripts
+  if (isLargeOperator(baseNode) && !style.display) {
+    return attachScripts(
+      base,
+      underNode ? layoutNode(underNode, scriptStyle(style), fonts) : null,
+      overNode ? layoutNode(overNode, scriptStyle(style), fonts) : null,
+      style
+    );
+  }
+
+  const gap = LIMIT_GAP * sizeOf(style);
+  let box = base;
+  if (underNode && node.attributes.accentunder === "true") {
+    box = layoutAccent(underNode, box, true, style, fonts);
+  } else if (underNode) {
+    const under = layoutNode(underNode, scriptStyle(style), fonts);
+    box = vstack([{ box, baseline: 0 }, { box: under, baseline: -box.depth - gap - under.height }]);
+  }
+  if (overNode && node.attributes.accent === "true") {
+    box = layoutAccent(overNode, box, false, style, fonts);
+  } else if (overNode) {
+    const over = layoutNode(overNode, scriptStyle(style), fonts);
+    box = vstack([{ box, baseline: 0 }, { box: over, baseline: box.height + gap + over.depth }]);
+  }
+  return box;
+}
+
+function layoutTable(node: MathNode, style: MathStyle, fonts: FontSet): TypesetBox {
+  const size = sizeOf(style);
+  const rows = node.children
+    .filter(row => row.tag === "mtr")
+    .map(row => row.children.map(cell => layoutRow(cell.children, style, fonts)));
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (columns === 0) return emptyBox();
+
+  const alignments = (node.attributes.columnalign ?? "center").split(" ");
+  const columnSpacing = "columnspacing" in node.attributes ? ems(node.attributes.columnspacing.split(" ")[0], size) : size;
+  const rowSpacing = ems(node.attributes.rowspacing?.split(" ")[0], size);
+  const widths = Array.from({ length: columns }, (_, column) => Math.max(0, ...rows.map(row => row[column]?.width ?? 0)));
+
+  const items: DrawItem[] = [];
+  let y = 0;
+  rows.forEach((row, index) => {
+    const rowHeight = Math.max(0.7 * size, ...row.map(cell => cell.height));
+    const rowDepth = Math.max(0.3 * size, ...row.map(cell => cell.depth));
+    y -= (index > 0 ? rowSpacing : 0) + rowHeight;
+    let x = 0;
+    row.forEach((cell, column) => {
+      const align = alignments[Math.min(column, alignments.length - 1)];
+      const slack = widths[column] - cell.width;
+      items.push(...shiftItems(cell, x + (align === "left" ? 0 : align === "right" ? slack : slack / 2), y));
+      x += widths[column] + columnSpacing;
+    });
+    y -= rowDepth;
+  });
+
+  // The table is centred on the axis
+  const shift = AXIS_HEIGHT * size - y / 2;
+  const table: TypesetBox = {
+    width: widths.reduce((sum, width) => sum + width, 0) + columnSpacing * (columns - 1),
+    height: 0,
+    depth: -y,
+    items,
+  };
+  return raise(table, shift);
+}
+
+/**
+ * A negated relation the fonts have no glyph for, like ≠ or ∉: the
+ * relation struck through with a slash, as TeX's \not does. Null for
+ * anything else.
+ */
+function negatedRelation(text: string, size: number, fonts: FontSet): TypesetBox | null {
+  const parts = Array.from(text.normalize("NFD"));
+  if (parts.length !== 2 || parts[1] !== "\u0338") return null;
+  if (fonts.has("math-main", text) || fonts.has("math-ams", text)) return null;
+  const box = fonts.textBox("math-main", parts[0], size);
+  const center = box.width / 2;
+  const slash = rule(center - 0.12 * size, (AXIS_HEIGHT - 0.36) * size, center + 0.12 * size, (AXIS_HEIGHT + 0.36) * size, 0.045 * size);
+  return { ...box, height: Math.max(box.height, (AXIS_HEIGHT + 0.36) * size), items: [...box.items, slash] };
+}
+
+function layoutNode(node: MathNode | undefined, style: MathStyle, fonts: FontSet): TypesetBox {
+  if (!node) return emptyBox();
+  const size = sizeOf(style);
+
+  switch (node.tag) {
+    case "mi":
+    case "mn":
+    case "mtext":
+    case "ms":
+      return fonts.textBox(textFont(node), node.text, size);
+    case "mo": {
+      const text = node.text.trim();
+      if (LARGE_OPERATORS.has(text)) {
+        // Larger in display style, and centred on the axis like a delimiter
+        const box = fonts.textBox(style.display ? "math-size2" : "math-size1", text, size);
+        return raise(box, AXIS_HEIGHT * size - (box.height - box.depth) / 2);
+      }
+      return negatedRelation(text, size, fonts) ?? fonts.textBox(textFont(node), text, size);
+    }
+    case "mspace":
+      return emptyBox(ems(node.attributes.width, size));
+    case "mstyle": {
+      const nested: MathStyle = {
+        ...style,
+        display: node.attributes.displaystyle ? node.attributes.displaystyle === "true" : style.display,
+        level: node.attributes.scriptlevel ? parseInt(node.attributes.scriptlevel, 10) || 0 : style.level,
+      };
+      return layoutRow(node.children, nested, fonts);
+    }
+    case "mphantom":
+      return { ...layoutRow(node.children, style, fonts), items: [] };
+    case "mfrac":
+      return layoutFraction(node, style, fonts);
+    case "msqrt":
+      return layoutRadical(layoutRow(node.children, style, fonts), null, style);
+    case "mroot":
+      return layoutRadical(
+        layoutNode(node.children[0], style, fonts),
+        layoutNode(node.children[1], { ...style, display: false, level: style.level + 2 }, fonts),
+        style
+      );
+    case "msup":
+    case "msub":
+    case "msubsup": {
+      const base = layoutNode(node.children[0], style, fonts);
+      const scripts = node.children.slice(1).map(child => layoutNode(child, scriptStyle(style), fonts));
+      if (node.tag === "msup") return attachScripts(base, null, scripts[0], style);
+      return attachScripts(base, scripts[0], scripts[1] ?? null, style);
+    }
+    case "munder":
+    case "mover":
+    case "munderover":
+      return layoutLimits(node, style, fonts);
+    case "mtable":
+      return layoutTable(node, style, fonts);
+    default:
+      // mrow, mpadded, menclose and anything else: the children in a row
+      return layoutRow(node.children, style, fonts);
+  }
+}
+
+/**
+ * Lay out a TeX formula at font size `size`, in display style (centred on
+ * its own line) or inline. A formula KaTeX cannot parse is shown as its
+ * source, so one typo does not lose the whole document.
+ */
+export function layoutMath(tex: string, display: boolean, size: number, fonts: FontSet): TypesetBox {
+  let markup: string;
+  try {
+    markup = katex.renderToString(tex, { output: "mathml", displayMode: display, throwOnError: true, strict: false });
+  } catch {
+    return fonts.textBox("mono", tex, size * 0.9);
+  }
+  const semantics = find(parseMathMl(markup), "semantics");
+  return layoutNode(semantics?.children[0], { size, display, level: 0 }, fonts);
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { appRouter } from "./routers";
 import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
 
 // Mock the database functions
 vi.mock("./db", () => ({
@@ -8,6 +9,7 @@ vi.mock("./db", () => ({
   getUserById: vi.fn().mockResolvedValue({ id: 1, name: "Test User" }),
   getRoomById: vi.fn().mockResolvedValue({ id: 1, hostId: 1, name: "Test Room" }),
   getSessionById: vi.fn().mockResolvedValue({ id: 1, roomId: 1, status: "active" }),
+  getParticipantById: vi.fn().mockResolvedValue({ id: 1, sessionId: 1, leftAt: null }),
   addLiveChatMessage: vi.fn().mockResolvedValue({ 
     id: 1, 
     sessionId: 1, 
@@ -30,6 +32,21 @@ vi.mock("./db", () => ({
     createdAt: new Date()
   }),
   getGraphsBySession: vi.fn().mockResolvedValue([]),
+  getGraphById: vi.fn().mockResolvedValue({
+    id: 1,
+    sessionId: 1,
+    createdBy: 1,
+    title: "Test Graph",
+    graphType: "quadratic",
+    equation: "y = a x^2",
+    expressions: JSON.stringify([
+      { id: "1", source: "y = a x^2", color: "#3b82f6" },
+      { id: "2", source: "x = k", color: "#ef4444" },
+    ]),
+    parameters: null,
+    isActive: true,
+    createdAt: new Date()
+  }),
   getActiveGraphBySession: vi.fn().mockResolvedValue(null),
   updateGraph: vi.fn().mockResolvedValue(undefined),
   deleteGraph: vi.fn().mockResolvedValue(undefined),
@@ -49,9 +66,19 @@ vi.mock("./db", () => ({
     id: 1,
     sessionId: 1,
     question: "What is 2+2?",
+    questionType: "text",
     correctAnswer: "4",
+    checkMode: "strict",
+    tolerance: null,
+    toleranceType: "absolute",
     points: 10,
-    isActive: true
+    timeLimit: null,
+    speedBonus: 0,
+    streakBonus: false,
+    isActive: true,
+    activatedAt: new Date(),
+    resultsRevealed: false,
+    createdAt: new Date()
   }),
   getExerciseResponse: vi.fn().mockResolvedValue(null),
   createExerciseResponse: vi.fn().mockResolvedValue({
@@ -62,6 +89,11 @@ vi.mock("./db", () => ({
     isCorrect: true,
     pointsEarned: 10
   }),
+  getExerciseResponsesWithNames: vi.fn().mockResolvedValue([
+    { id: 1, exerciseId: 1, participantId: 1, answer: "4", isCorrect: true, checkReason: "Texto igual à resposta esperada", pointsEarned: 10, participantName: "Test User" }
+  ]),
+  getResponsesByExercise: vi.fn().mockResolvedValue([]),
+  getActiveParticipantsBySession: vi.fn().mockResolvedValue([]),
   updateParticipantScore: vi.fn().mockResolvedValue(undefined),
   deactivateSessionExercises: vi.fn().mockResolvedValue(undefined),
   updateExercise: vi.fn().mockResolvedValue(undefined),
@@ -76,8 +108,26 @@ vi.mock("./db", () => ({
     correctAnswers: 1,
     totalAnswers: 1
   }),
+  updateSession: vi.fn().mockResolvedValue(undefined),
+  endActiveExercise: vi.fn().mockResolvedValue(true),
+  getQueuedExercises: vi.fn().mockResolvedValue([]),
+  createQueuedExercises: vi.fn().mockResolvedValue(undefined),
+  activateNextQueuedExercise: vi.fn().mockResolvedValue(undefined),
+  getBankQuestionsByIds: vi.fn().mockResolvedValue([]),
+  createBankQuestion: vi.fn().mockImplementation(async question => ({ id: 10, ...question })),
+  createQuizSet: vi.fn().mockImplementation(async set => ({ id: 20, ...set })),
 }));
 
+import { ENV } from "./_core/env";
+import { signParticipantToken } from "./_core/participantToken";
+import { INVALID_PARTICIPANT_ERR_MSG } from "@shared/const";
+
+ENV.cookieSecret = "test-secret";
+
+function createParticipantToken(participantId: number = 1, sessionId: number = 1) {
+  return signParticipantToken({ sessionId, participantId, role: "student", name: "Test User" });
+}
+
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
 function createAuthContext(): TrpcContext {
@@ -124,9 +174,7 @@ describe("liveChat", () => {
     const caller = appRouter.createCaller(ctx);
 
     const result = await caller.liveChat.sendMessage({
-      sessionId: 1,
-      participantId: 1,
-      senderName: "Test User",
+      participantToken: await createParticipantToken(),
       message: "Hello everyone!",
     });
 
@@ -134,6 +182,32 @@ describe("liveChat", () => {
     expect(result?.message).toBe("Hello");
   });
 
+  it("takes the sender from the participant token", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.liveChat.sendMessage({
+      participantToken: await createParticipantToken(3, 1),
+      message: "Hi",
+    });
+
+    expect(db.addLiveChatMessage).toHaveBeenLastCalledWith({
+      sessionId: 1,
+      participantId: 3,
+      senderName: "Test User",
+      message: "Hi",
+    });
+  });
+
+  it("rejects messages without a valid participant token", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.liveChat.sendMessage({ participantToken: "not-a-token", message: "Hi" })
+    ).rejects.toThrow("Invalid participant token");
+  });
+
   it("gets messages for a session", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
@@ -154,13 +228,94 @@ describe("graph", () => {
       sessionId: 1,
       title: "Linear Function",
       graphType: "linear",
-      equation: "y = 2x + 1",
+      expressions: [{ id: "1", source: "y = 2x + 1", color: "#3b82f6" }],
     });
 
     expect(result).toBeDefined();
     expect(result?.graphType).toBe("linear");
   });
 
+  it("stores several expressions with one slider per parameter", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.graph.create({
+      sessionId: 1,
+      graphType: "custom",
+      expressions: [
+        { id: "1", source: "y = a(x - h)^2", color: "#3b82f6" },
+        { id: "2", source: "(h, 0)", color: "#ef4444" },
+        { id: "3", source: "y < x", color: "#22c55e" },
+      ],
+      parameters: [{ name: "a", value: 2, min: -5, max: 5, step: 0.5 }],
+    });
+
+    const stored = vi.mocked(db.createInteractiveGraph).mock.lastCall![0];
+    expect(stored.equation).toBe("y = a(x - h)^2");
+    expect(JSON.parse(stored.parameters!)).toEqual([
+      { name: "a", value: 2, min: -5, max: 5, step: 0.5 },
+      { name: "h", value: 1, min: -10, max: 10, step: 0.1 },
+    ]);
+  });
+
+  it("rejects expressions that do not parse", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.graph.create({
+      sessionId: 1,
+      graphType: "custom",
+      expressions: [
+        { id: "1", source: "y = x", color: "#3b82f6" },
+        { id: "2", source: "y = alert(1)", color: "#ef4444" },
+      ],
+    })).rejects.toThrow("Expressão 2 inválida: Função desconhecida: alert (posição 5)");
+  });
+
+  it("saves and broadcasts the teacher's slider values", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.graph.setParameters({
+      graphId: 1,
+      parameters: [
+        { name: "k", value: 3, min: 0, max: 5, step: 1 },
+        { name: "z", value: 7, min: 0, max: 10, step: 1 },
+      ],
+    });
+
+    // Names not used by the expressions are dropped, missing ones get defaults
+    expect(result.parameters).toEqual([
+      { name: "a", value: 1, min: -10, max: 10, step: 0.1 },
+      { name: "k", value: 3, min: 0, max: 5, step: 1 },
+    ]);
+    expect(db.updateGraph).toHaveBeenCalledWith(1, { parameters: JSON.stringify(result.parameters) });
+  });
+
+  it("does not mix 2D and 3D expressions in one graph", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.graph.create({
+      sessionId: 1,
+      graphType: "surface",
+      expressions: [
+        { id: "1", source: "z = x^2 - y^2", color: "#3b82f6" },
+        { id: "2", source: "y = x", color: "#ef4444" },
+      ],
+    })).rejects.toThrow("Um gráfico não pode misturar expressões 2D e 3D");
+  });
+
+  it("saves the teacher's camera with the yaw in (-π, π]", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const { camera } = await caller.graph.setCamera({ graphId: 1, camera: { yaw: 3 * Math.PI / 2, pitch: 0.5, zoom: 2 } });
+
+    expect(camera.yaw).toBeCloseTo(-Math.PI / 2);
+    expect(db.updateGraph).toHaveBeenCalledWith(1, { camera: JSON.stringify(camera) });
+  });
+
   it("gets graphs for a session", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
@@ -194,7 +349,7 @@ describe("exercise (gamification)", () => {
 
     const result = await caller.exercise.submitAnswer({
       exerciseId: 1,
-      participantId: 1,
+      participantToken: await createParticipantToken(),
       answer: "4",
     });
 
@@ -203,6 +358,278 @@ describe("exercise (gamification)", () => {
     expect(result.pointsEarned).toBe(10);
   });
 
+  it("keeps checking answers as exact text by default", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.exercise.create({ sessionId: 1, question: "Metade de 1?", correctAnswer: "1/2" });
+
+    expect(db.createExercise).toHaveBeenLastCalledWith(expect.objectContaining({ checkMode: "strict", tolerance: null }));
+  });
+
+  it("refuses an expected answer that cannot be compared as math", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.exercise.create({ sessionId: 1, question: "Derivada de x²?", correctAnswer: "2x +", checkMode: "equivalent" })
+    ).rejects.toThrow("A resposta esperada não é uma expressão válida");
+  });
+
+  it("accepts an equivalent answer and stores why", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({
+      id: 2, sessionId: 1, correctAnswer: "1/2", checkMode: "equivalent", tolerance: null, toleranceType: "absolute", points: 10, isActive: true,
+      timeLimit: null, speedBonus: 0, streakBonus: false, activatedAt: new Date(),
+    } as any);
+
+    await caller.exercise.submitAnswer({
+      exerciseId: 2,
+      participantToken: await createParticipantToken(),
+      answer: "\\frac{2}{4}",
+    });
+
+    expect(db.createExerciseResponse).toHaveBeenLastCalledWith(expect.objectContaining({
+      isCorrect: true,
+      pointsEarned: 10,
+      checkReason: "Mesmo valor da resposta esperada",
+    }));
+  });
+
+  it("shows the answers and their reasons only to the teacher", async () => {
+    const responses = await appRouter.createCaller(createAuthContext()).exercise.getResponses({ exerciseId: 1 });
+    expect(responses[0]).toMatchObject({ participantName: "Test User", checkReason: "Texto igual à resposta esperada" });
+
+    vi.mocked(db.getRoomById).mockResolvedValueOnce({ id: 1, hostId: 2 } as any);
+    await expect(
+      appRouter.createCaller(createAuthContext()).exercise.getResponses({ exerciseId: 1 })
+    ).rejects.toThrow("Apenas o professor pode ver as respostas");
+  });
+
+  it("stores a multiple-choice question with its answer as text", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.exercise.create({
+      sessionId: 1,
+      question: "Quanto é 2+2?",
+      content: { type: "multipleChoice", options: ["3", "4", "5"], correct: [1] },
+    });
+
+    expect(db.createExercise).toHaveBeenLastCalledWith(expect.objectContaining({
+      questionType: "multipleChoice",
+      content: JSON.stringify({ type: "multipleChoice", options: ["3", "4", "5"], correct: [1], multiple: false }),
+      correctAnswer: "B) 4",
+    }));
+  });
+
+  it("gives students the active question without its answer", async () => {
+    vi.mocked(db.getActiveExercise).mockResolvedValueOnce({
+      id: 3, sessionId: 1, question: "Quanto é 2+2?", questionType: "multipleChoice", correctAnswer: "B) 4",
+      content: JSON.stringify({ type: "multipleChoice", options: ["3", "4", "5"], correct: [1], multiple: false }),
+    } as any);
+
+    const exercise = await appRouter.createCaller(createPublicContext()).exercise.getActive({ sessionId: 1 });
+
+    expect(exercise?.content).toEqual({ type: "multipleChoice", options: ["3", "4", "5"], multiple: false });
+    expect(exercise).not.toHaveProperty("correctAnswer");
+  });
+
+  it("gives partial credit for the right parts of a multi-part question", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({
+      id: 4, sessionId: 1, questionType: "multiPart", points: 10, isActive: true, correctAnswer: "1) 4; 2) Verdadeiro",
+      timeLimit: null, speedBonus: 0, streakBonus: false, activatedAt: new Date(),
+      content: JSON.stringify({
+        type: "multiPart",
+        parts: [
+          { prompt: "2+2", points: 6, question: { type: "numeric", value: 4, tolerance: 0 } },
+          { prompt: "4 é par", points: 4, question: { type: "trueFalse", correct: true } },
+        ],
+      }),
+    } as any);
+
+    const result = await caller.exercise.submitAnswer({
+      exerciseId: 4,
+      participantToken: await createParticipantToken(),
+      answer: ["4", false],
+    });
+
+    expect(db.createExerciseResponse).toHaveBeenLastCalledWith(expect.objectContaining({
+      answer: "1) 4; 2) Falso",
+      answerData: JSON.stringify(["4", false]),
+      isCorrect: false,
+      pointsEarned: 6,
+    }));
+    expect(db.updateParticipantScore).toHaveBeenLastCalledWith(1, 1, 6, false, expect.any(Number), 0);
+    expect(result.parts?.map(part => part.correct)).toEqual([true, false]);
+  });
+
+  it("times answers on the server and rejects them after the time limit", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+    const timed = { id: 5, sessionId: 1, correctAnswer: "4", checkMode: "strict", points: 10, isActive: true, timeLimit: 30, speedBonus: 10, streakBonus: true };
+    vi.mocked(db.getParticipantScore).mockResolvedValueOnce({ streak: 2 } as any);
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({ ...timed, activatedAt: new Date(Date.now() - 15_000) } as any);
+
+    const result = await caller.exercise.submitAnswer({ exerciseId: 5, participantToken: await createParticipantToken(), answer: "4" });
+
+    // 10 points, half of the speed bonus, twice for the third right answer in a row
+    const [[response]] = vi.mocked(db.createExerciseResponse).mock.calls.slice(-1);
+    expect(response.responseTime).toBeGreaterThanOrEqual(15_000);
+    expect(response).toMatchObject({ pointsEarned: 30, bonusPoints: 20 });
+    expect(result).toMatchObject({ streak: 3, multiplier: 2 });
+    expect(db.updateParticipantScore).toHaveBeenLastCalledWith(1, 1, 30, true, response.responseTime, 3);
+
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({ ...timed, activatedAt: new Date(Date.now() - 40_000) } as any);
+    await expect(
+      caller.exercise.submitAnswer({ exerciseId: 5, participantToken: await createParticipantToken(), answer: "4" })
+    ).rejects.toThrow("O tempo para responder este exercício acabou");
+  });
+
+  it("tells students how much time is left by the server clock", async () => {
+    vi.mocked(db.getActiveExercise).mockResolvedValueOnce({
+      id: 6, sessionId: 1, correctAnswer: "4", checkMode: "strict", timeLimit: 60, activatedAt: new Date(Date.now() - 20_000),
+    } as any);
+
+    const exercise = await appRouter.createCaller(createPublicContext()).exercise.getActive({ sessionId: 1 });
+
+    expect(exercise?.remainingTime).toBeGreaterThan(39_000);
+    expect(exercise?.remainingTime).toBeLessThanOrEqual(40_000);
+  });
+
+  it("shows the teacher who answered and how, live", async () => {
+    vi.mocked(db.getResponsesByExercise).mockResolvedValueOnce([
+      { participantId: 2, answer: "2x + 2", isCorrect: false, responseTime: 4_000 },
+      { participantId: 3, answer: "2(x+1)", isCorrect: false, responseTime: 6_000 },
+      { participantId: 4, answer: "2x", isCorrect: true, responseTime: null },
+    ] as any);
+    vi.mocked(db.getActiveParticipantsBySession).mockResolvedValueOnce([
+      { id: 1, role: "teacher", visibleName: "Test User" },
+      { id: 2, role: "student", visibleName: "Ana" },
+      { id: 3, role: "student", visibleName: "Bia" },
+      { id: 5, role: "guest", visibleName: null, guestName: "Caio" },
+    ] as any);
+
+    const stats = await appRouter.createCaller(createAuthContext()).exercise.getLiveStats({ exerciseId: 1 });
+
+    // The student who answered and left still counts
+    expect(stats).toMatchObject({ answered: 3, expected: 4, correct: 1, averageResponseTime: 5_000, resultsRevealed: false });
+    expect(stats.mostCommonWrong).toEqual({ answer: "2x + 2", variants: ["2(x+1)"], count: 2, correct: false });
+    expect(stats.notAnswered).toEqual([{ participantId: 5, name: "Caio" }]);
+
+    vi.mocked(db.getRoomById).mockResolvedValueOnce({ id: 1, hostId: 2 } as any);
+    await expect(
+      appRouter.createCaller(createAuthContext()).exercise.getLiveStats({ exerciseId: 1 })
+    ).rejects.toThrow("Apenas o professor pode ver os resultados");
+  });
+
+  it("groups the answers again only when new ones come in", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const followed = { id: 9, sessionId: 1, questionType: "text", correctAnswer: "4", checkMode: "equivalent", points: 10, isActive: true, resultsRevealed: false };
+    const answers = [
+      { participantId: 2, answer: "4", isCorrect: true, responseTime: 1_000 },
+      { participantId: 3, answer: "5", isCorrect: false, responseTime: 2_000 },
+    ];
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce(followed as any);
+    vi.mocked(db.getResponsesByExercise).mockResolvedValueOnce(answers as any);
+    const first = await caller.exercise.getLiveStats({ exerciseId: 9 });
+
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce(followed as any);
+    vi.mocked(db.getResponsesByExercise).mockResolvedValueOnce(answers as any);
+    const second = await caller.exercise.getLiveStats({ exerciseId: 9 });
+    expect(second.groups).toBe(first.groups);
+
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce(followed as any);
+    vi.mocked(db.getResponsesByExercise).mockResolvedValueOnce([
+      ...answers,
+      { participantId: 4, answer: "5", isCorrect: false, responseTime: 3_000 },
+    ] as any);
+    const third = await caller.exercise.getLiveStats({ exerciseId: 9 });
+    expect(third.groups).toEqual([
+      { answer: "5", variants: [], count: 2, correct: false },
+      { answer: "4", variants: [], count: 1, correct: true },
+    ]);
+  });
+
+  it("reveals the results to the class and stops taking answers", async () => {
+    vi.mocked(db.getResponsesByExercise).mockResolvedValueOnce([
+      { participantId: 2, answer: "4", isCorrect: true, responseTime: 1_000 },
+      { participantId: 3, answer: "5", isCorrect: false, responseTime: 2_000 },
+    ] as any);
+    await appRouter.createCaller(createAuthContext()).exercise.revealResults({ exerciseId: 1 });
+    const stored = {
+      answered: 2,
+      correct: 1,
+      bars: [{ label: "4", count: 1, correct: true }, { label: "5", count: 1, correct: false }],
+    };
+    expect(db.updateExercise).toHaveBeenLastCalledWith(1, { resultsRevealed: true, revealedResults: JSON.stringify(stored) });
+
+    // Students get the histogram worked out when it was revealed
+    const caller = appRouter.createCaller(createPublicContext());
+    const revealed = {
+      id: 1, sessionId: 1, correctAnswer: "4", checkMode: "strict", points: 10, isActive: true,
+      resultsRevealed: true, revealedResults: JSON.stringify(stored),
+    };
+    const reads = vi.mocked(db.getResponsesByExercise).mock.calls.length;
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce(revealed as any);
+    expect(await caller.exercise.getRevealedResults({ exerciseId: 1 })).toEqual(stored);
+    expect(vi.mocked(db.getResponsesByExercise).mock.calls.length).toBe(reads);
+
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce(revealed as any);
+    await expect(
+      caller.exercise.submitAnswer({ exerciseId: 1, participantToken: await createParticipantToken(), answer: "4" })
+    ).rejects.toThrow("O professor já revelou os resultados deste exercício");
+
+    // Nothing to see before the teacher reveals it
+    expect(await caller.exercise.getRevealedResults({ exerciseId: 1 })).toBeNull();
+  });
+
+  it("lists the exercises of a session without their answers", async () => {
+    vi.mocked(db.getExercisesBySession).mockResolvedValueOnce([{
+      id: 7, sessionId: 1, question: "2+2?", questionType: "multipleChoice", correctAnswer: "B) 4", checkMode: "strict",
+      content: JSON.stringify({ type: "multipleChoice", options: ["3", "4"], correct: [1], multiple: false }),
+      points: 10, timeLimit: null, isActive: false, createdAt: new Date(),
+    }] as any);
+
+    const [exercise] = await appRouter.createCaller(createPublicContext()).exercise.getBySession({ sessionId: 1 });
+
+    expect(exercise).not.toHaveProperty("correctAnswer");
+    expect(JSON.stringify(exercise.content)).not.toContain("correct");
+  });
+
+  it("rejects answers for an exercise of another session", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+
+    vi.mocked(db.getParticipantById).mockResolvedValueOnce({ id: 1, sessionId: 2, leftAt: null } as any);
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 2, roomId: 1, status: "active" } as any);
+    await expect(
+      caller.exercise.submitAnswer({
+        exerciseId: 1,
+        participantToken: await createParticipantToken(1, 2),
+        answer: "4",
+      })
+    ).rejects.toThrow("Exercício não encontrado");
+  });
+
+  it("refuses answers from students who left or after the session ended", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    const participantToken = await createParticipantToken();
+
+    vi.mocked(db.getParticipantById).mockResolvedValueOnce({ id: 1, sessionId: 1, leftAt: new Date() } as any);
+    await expect(
+      caller.exercise.submitAnswer({ exerciseId: 1, participantToken, answer: "4" })
+    ).rejects.toThrow(INVALID_PARTICIPANT_ERR_MSG);
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 1, roomId: 1, status: "ended" } as any);
+    await expect(
+      caller.exercise.submitAnswer({ exerciseId: 1, participantToken, answer: "4" })
+    ).rejects.toThrow(INVALID_PARTICIPANT_ERR_MSG);
+  });
+
   it("gets session ranking", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
@@ -218,9 +645,105 @@ describe("exercise (gamification)", () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
 
-    const score = await caller.score.getMyScore({ sessionId: 1, participantId: 1 });
+    const score = await caller.score.getMyScore({ participantToken: await createParticipantToken() });
 
     expect(score).toBeDefined();
     expect(score?.totalPoints).toBe(10);
   });
 });
+
+describe("question bank", () => {
+  const bankQuestion = {
+    id: 7, ownerId: 1, question: "Quanto é 2 + 2?", questionLatex: null, questionType: "multipleChoice",
+    content: JSON.stringify({ type: "multipleChoice", options: ["3", "4"], correct: [1], multiple: false }),
+    correctAnswer: "B) 4", checkMode: "strict", tolerance: null, toleranceType: "absolute",
+    points: 10, timeLimit: 20, speedBonus: 5, streakBonus: true, topic: "Aritmética", difficulty: "easy", grade: "6º ano",
+  };
+
+  it("queues a set into the session and starts its first question", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    vi.mocked(db.getBankQuestionsByIds).mockResolvedValueOnce([bankQuestion, { ...bankQuestion, id: 8 }] as any);
+    vi.mocked(db.getQueuedExercises).mockResolvedValueOnce([{ id: 3, queuePosition: 4 }] as any);
+    vi.mocked(db.activateNextQueuedExercise).mockResolvedValueOnce({ id: 3 } as any);
+
+    const result = await caller.bank.queue({ sessionId: 1, questionIds: [7, 8], autoAdvance: true });
+
+    expect(result).toEqual({ queued: 2, started: true });
+    const [queued] = vi.mocked(db.createQueuedExercises).mock.lastCall!;
+    expect(queued.map(exercise => [exercise.bankQuestionId, exercise.queuePosition, exercise.isActive])).toEqual([[7, 5, false], [8, 6, false]]);
+    expect(queued[0]).toMatchObject({ sessionId: 1, timeLimit: 20, speedBonus: 5, correctAnswer: "B) 4" });
+    expect(db.updateSession).toHaveBeenLastCalledWith(1, { autoAdvance: true });
+  });
+
+  it("only lets the teacher of the room queue questions", async () => {
+    vi.mocked(db.getRoomById).mockResolvedValueOnce({ id: 1, hostId: 2 } as any);
+    const calls = vi.mocked(db.createQueuedExercises).mock.calls.length;
+
+    await expect(
+      appRouter.createCaller(createAuthContext()).bank.queue({ sessionId: 1, questionIds: [7] })
+    ).rejects.toThrow("Apenas o professor pode aplicar questões");
+    expect(db.createQueuedExercises).toHaveBeenCalledTimes(calls);
+  });
+
+  it("moves on to the next queued question when the teacher's screen says time is up", async () => {
+    const timed = { id: 5, sessionId: 1, correctAnswer: "4", checkMode: "strict", timeLimit: 10, isActive: true };
+    const caller = appRouter.createCaller(createAuthContext());
+    const ended = vi.mocked(db.endActiveExercise).mock.calls.length;
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 1, roomId: 1, status: "active", autoAdvance: true } as any);
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({ ...timed, activatedAt: new Date(Date.now() - 5_000) } as any);
+    expect(await caller.exercise.timeUp({ exerciseId: 5 })).toEqual({ advanced: false });
+    expect(db.endActiveExercise).toHaveBeenCalledTimes(ended);
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 1, roomId: 1, status: "active", autoAdvance: true } as any);
+    vi.mocked(db.getExerciseById).mockResolvedValueOnce({ ...timed, activatedAt: new Date(Date.now() - 13_000) } as any);
+    vi.mocked(db.activateNextQueuedExercise).mockResolvedValueOnce({ id: 6 } as any);
+    expect(await caller.exercise.timeUp({ exerciseId: 5 })).toEqual({ advanced: true });
+    expect(db.endActiveExercise).toHaveBeenLastCalledWith(5);
+
+    // Looking at the active exercise changes nothing
+    vi.mocked(db.getActiveExercise).mockResolvedValueOnce({ ...timed, activatedAt: new Date(Date.now() - 13_000) } as any);
+    const calls = vi.mocked(db.endActiveExercise).mock.calls.length;
+    await appRouter.createCaller(createPublicContext()).exercise.getActive({ sessionId: 1 });
+    expect(db.endActiveExercise).toHaveBeenCalledTimes(calls);
+  });
+
+  it("lets only the host end an exercise, advancing the queue once", async () => {
+    await expect(
+      appRouter.createCaller(createAuthContext()).exercise.endExercise({ exerciseId: 1 })
+    ).resolves.toEqual({ success: true });
+
+    vi.mocked(db.getRoomById).mockResolvedValueOnce({ id: 1, hostId: 2 } as any);
+    await expect(
+      appRouter.createCaller(createAuthContext()).exercise.endExercise({ exerciseId: 1 })
+    ).rejects.toThrow("Apenas o professor pode encerrar o exercício");
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 1, roomId: 1, status: "active", autoAdvance: true } as any);
+    vi.mocked(db.endActiveExercise).mockResolvedValueOnce(false);
+    const calls = vi.mocked(db.activateNextQueuedExercise).mock.calls.length;
+    await appRouter.createCaller(createAuthContext()).exercise.endExercise({ exerciseId: 1 });
+    expect(db.activateNextQueuedExercise).toHaveBeenCalledTimes(calls);
+  });
+
+  it("imports a GIFT file into the bank as a new set", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const result = await caller.bank.import({
+      format: "gift",
+      content: "$CATEGORY: Geometria\n\nQuantos lados tem um hexágono? {#6}\n\nDescreva um triângulo. {}",
+      title: "Polígonos",
+    });
+
+    expect(result).toEqual({ imported: 1, warnings: ["Questão 2: questões dissertativas não são importadas"], setId: 20 });
+    expect(db.createBankQuestion).toHaveBeenLastCalledWith(expect.objectContaining({
+      ownerId: 1, questionType: "numeric", topic: "Geometria", correctAnswer: "6",
+    }));
+    expect(db.createQuizSet).toHaveBeenLastCalledWith(expect.objectContaining({ title: "Polígonos", questionIds: "[10]" }));
+  });
+
+  it("refuses a file in neither format", async () => {
+    await expect(
+      appRouter.createCaller(createAuthContext()).bank.import({ format: "json", content: "{\"questions\": []}" })
+    ).rejects.toThrow("O arquivo não está no formato mathtutor-quiz (versão 1)");
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import type { Socket } from "socket.io";
+import { degrees, PDFDocument } from "pdf-lib";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { registerRealtimeHandlers } from "./realtime";
+import { flattenPdfAnnotations } from "./pdfAnnotations";
+import { SEND_PDF_ANNOTATION_DRAFT, SEND_PDF_POINTER, SESSION_EVENTS, SUBSCRIBE_SESSION } from "@shared/realtime";
+import { pdfAnnotationHit } from "@shared/pdfAnnotations";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getPdfAnnotations: vi.fn(),
+  addPdfAnnotation: vi.fn(),
+  deletePdfAnnotations: vi.fn(),
+  clearPdfAnnotationPage: vi.fn(),
+  getDocumentById: vi.fn(),
+  getSessionById: vi.fn(),
+  getParticipantById: vi.fn().mockResolvedValue({ id: 1, sessionId: 1, leftAt: null }),
+  getRoomById: vi.fn(),
+  updateRoom: vi.fn(),
+  getActiveSessionByRoom: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { signParticipantToken } from "./_core/participantToken";
+
+ENV.cookieSecret = "test-secret";
+
+function createTeacherContext(id = 1): TrpcContext {
+  return {
+    user: {
+      id,
+      openId: `teacher-${id}`,
+      email: "teacher@example.com",
+      name: "Professor",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+const ink = {
+  sessionId: 1,
+  documentId: 3,
+  page: 2,
+  tool: "ink" as const,
+  data: { color: "#dc2626", width: 0.003, points: [[0.1, 0.1], [0.5, 0.5]] as [number, number][] },
+};
+
+describe("pdf annotations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 1, status: "active" } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1, keepPdfAnnotations: false } as any);
+    vi.mocked(db.getDocumentById).mockResolvedValue({ id: 3, roomId: 1, pageCount: 4 } as any);
+    vi.mocked(db.getPdfAnnotations).mockResolvedValue([]);
+    vi.mocked(db.addPdfAnnotation).mockImplementation(async annotation => ({ id: 9, createdAt: new Date(), ...annotation }) as any);
+  });
+
+  it("saves the teacher's annotations on pages of the room's documents", async () => {
+    const annotation = await appRouter.createCaller(createTeacherContext()).pdfAnnotation.add(ink);
+
+    expect(annotation).toMatchObject({ roomId: 1, sessionId: 1, documentId: 3, page: 2, tool: "ink" });
+    expect(JSON.parse(annotation!.data)).toEqual(ink.data);
+  });
+
+  it("rejects annotations from others, on other documents or off the page", async () => {
+    await expect(appRouter.createCaller(createTeacherContext(2)).pdfAnnotation.add(ink))
+      .rejects.toThrow("Apenas o professor pode anotar o PDF");
+
+    const caller = appRouter.createCaller(createTeacherContext());
+    await expect(caller.pdfAnnotation.add({ ...ink, page: 5 })).rejects.toThrow("Página não encontrada");
+    await expect(caller.pdfAnnotation.add({ ...ink, data: { ...ink.data, points: [[0.5, 1.5]] } }))
+      .rejects.toThrow("Ponto fora da página");
+    await expect(caller.pdfAnnotation.add({ ...ink, tool: "text" })).rejects.toThrow("Uma nota tem uma posição");
+
+    vi.mocked(db.getDocumentById).mockResolvedValue({ id: 3, roomId: 2, pageCount: 4 } as any);
+    await expect(caller.pdfAnnotation.add(ink)).rejects.toThrow("Documento não encontrado");
+
+    expect(db.addPdfAnnotation).not.toHaveBeenCalled();
+  });
+
+  it("shows earlier sessions' annotations only when the room keeps them", async () => {
+    const caller = appRouter.createCaller(createTeacherContext());
+
+    await caller.pdfAnnotation.get({ sessionId: 1, documentId: 3 });
+    expect(db.getPdfAnnotations).toHaveBeenLastCalledWith(3, 1);
+
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1, keepPdfAnnotations: true } as any);
+    const { keep } = await caller.pdfAnnotation.get({ sessionId: 1, documentId: 3 });
+    expect(keep).toBe(true);
+    expect(db.getPdfAnnotations).toHaveBeenLastCalledWith(3, undefined);
+
+    await caller.pdfAnnotation.clearPage({ sessionId: 1, documentId: 3, page: 2 });
+    expect(db.clearPdfAnnotationPage).toHaveBeenCalledWith(3, 2, 1, undefined);
+  });
+
+  it("erases only annotations of the teacher's own room", async () => {
+    const caller = appRouter.createCaller(createTeacherContext());
+
+    await caller.pdfAnnotation.erase({ sessionId: 1, documentId: 3, ids: [9] });
+    expect(db.deletePdfAnnotations).toHaveBeenLastCalledWith(3, [9], 1, 1);
+
+    vi.mocked(db.getDocumentById).mockResolvedValue({ id: 4, roomId: 2, pageCount: 4 } as any);
+    await expect(caller.pdfAnnotation.erase({ sessionId: 1, documentId: 4, ids: [9] })).rejects.toThrow("Documento não encontrado");
+    await expect(caller.pdfAnnotation.clearPage({ sessionId: 1, documentId: 4, page: 1 })).rejects.toThrow("Documento não encontrado");
+    expect(db.deletePdfAnnotations).toHaveBeenCalledTimes(1);
+    expect(db.clearPdfAnnotationPage).not.toHaveBeenCalled();
+  });
+
+  it("lets only the host choose whether annotations are kept", async () => {
+    await appRouter.createCaller(createTeacherContext()).pdfAnnotation.setKeep({ roomId: 1, keep: true });
+    expect(db.updateRoom).toHaveBeenCalledWith(1, { keepPdfAnnotations: true });
+
+    await expect(appRouter.createCaller(createTeacherContext(2)).pdfAnnotation.setKeep({ roomId: 1, keep: false }))
+      .rejects.toThrow("Apenas o professor pode alterar as anotações da sala");
+  });
+
+  it("flattens annotations into the pages of a new PDF", async () => {
+    const source = await PDFDocument.create();
+    source.addPage([600, 800]);
+    source.addPage([600, 800]).setRotation(degrees(90));
+    const original = await source.save();
+
+    const annotation = (id: number, page: number, tool: "ink" | "highlight" | "text", data: object) =>
+      ({ id, roomId: 1, sessionId: 1, documentId: 3, page, tool, data: JSON.stringify(data), createdAt: new Date() });
+    const flattened = await flattenPdfAnnotations(original, [
+      annotation(1, 1, "ink", ink.data),
+      annotation(2, 1, "highlight", { ...ink.data, width: 0.02 }),
+      // Characters outside the standard fonts are dropped instead of failing the export
+      annotation(3, 2, "text", { color: "#111827", width: 0.022, points: [[0.1, 0.1]], text: "Área ∫ f(x) dx\nsegunda linha" }),
+      // Pages that do not exist are skipped
+      annotation(4, 7, "ink", ink.data),
+    ]);
+
+    const result = await PDFDocument.load(flattened);
+    expect(result.getPageCount()).toBe(2);
+    expect(flattened.length).toBeGreaterThan(original.length);
+  });
+
+  it("relays only the teacher's drafts", async () => {
+    const handlers = new Map<string, (data: unknown) => Promise<void> | void>();
+    const emit = vi.fn();
+    const connect = () => {
+      const socket = {
+        data: {},
+        on: vi.fn((event: string, handler: (data: unknown) => void) => handlers.set(event, handler)),
+        emit: vi.fn(),
+        join: vi.fn(),
+        to: vi.fn().mockReturnValue({ emit }),
+      };
+      registerRealtimeHandlers(socket as unknown as Socket);
+    };
+    const draft = { documentId: 3, page: 2, tool: "ink", data: ink.data };
+
+    connect();
+    await handlers.get(SUBSCRIBE_SESSION)?.({
+      participantToken: await signParticipantToken({ sessionId: 1, participantId: 5, role: "student", name: "Aluno" }),
+    });
+    await handlers.get(SEND_PDF_ANNOTATION_DRAFT)?.(draft);
+    expect(emit).not.toHaveBeenCalled();
+
+    connect();
+    await handlers.get(SUBSCRIBE_SESSION)?.({
+      participantToken: await signParticipantToken({ sessionId: 1, participantId: 2, role: "teacher", name: "Professor" }),
+    });
+    await handlers.get(SEND_PDF_ANNOTATION_DRAFT)?.(draft);
+    await handlers.get(SEND_PDF_ANNOTATION_DRAFT)?.({ ...draft, tool: "laser" });
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith(SESSION_EVENTS.pdfAnnotationDraft, draft);
+  });
+
+  it("relays the teacher's laser pointer", async () => {
+    const handlers = new Map<string, (data: unknown) => Promise<void> | void>();
+    const emit = vi.fn();
+    const socket = {
+      data: {},
+      on: vi.fn((event: string, handler: (data: unknown) => void) => handlers.set(event, handler)),
+      emit: vi.fn(),
+      join: vi.fn(),
+      to: vi.fn().mockReturnValue({ emit }),
+    };
+    registerRealtimeHandlers(socket as unknown as Socket);
+
+    await handlers.get(SUBSCRIBE_SESSION)?.({
+      participantToken: await signParticipantToken({ sessionId: 1, participantId: 2, role: "teacher", name: "Professor" }),
+    });
+    await handlers.get(SEND_PDF_POINTER)?.({ documentId: 3, page: 2, point: [0.4, 0.6] });
+    await handlers.get(SEND_PDF_POINTER)?.({ documentId: 3, page: 2, point: null });
+    await handlers.get(SEND_PDF_POINTER)?.({ documentId: 3, page: 2, point: [2, 0.6] });
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(emit).toHaveBeenNthCalledWith(1, SESSION_EVENTS.pdfPointer, { documentId: 3, page: 2, point: [0.4, 0.6] });
+    expect(emit).toHaveBeenNthCalledWith(2, SESSION_EVENTS.pdfPointer, { documentId: 3, page: 2, point: null });
+  });
+
+  it("erases annotations touched by the eraser on pages of any shape", () => {
+    const line = { ...ink.data, points: [[0.1, 0.5], [0.9, 0.5]] as [number, number][] };
+    expect(pdfAnnotationHit("ink", line, [0.5, 0.51], 0.01, 1)).toBe(true);
+    // On a page twice as tall as wide, the same gap is twice as far
+    expect(pdfAnnotationHit("ink", line, [0.5, 0.51], 0.01, 2)).toBe(false);
+    expect(pdfAnnotationHit("text", { color: "#111827", width: 0.02, points: [[0.1, 0.1]], text: "abc" }, [0.12, 0.105], 0, 1))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { degrees, LineCapStyle, PDFDocument, rgb, StandardFonts, type PDFPage } from "pdf-lib";
+import type { Document, PdfAnnotation, Room } from "../drizzle/schema";
+import type { BoardPoint } from "@shared/board";
+import {
+  MAX_PDF_ANNOTATION_POINTS,
+  MAX_PDF_ANNOTATION_WIDTH,
+  PDF_ANNOTATION_TOOLS,
+  PDF_HIGHLIGHT_OPACITY,
+  validatePdfAnnotation,
+  type PdfAnnotationData,
+} from "@shared/pdfAnnotations";
+import { storagePut, storageRead } from "./storage";
+import * as db from "./db";
+
+export const pdfAnnotationDataInput = z.object({
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  width: z.number().positive().max(MAX_PDF_ANNOTATION_WIDTH),
+  points: z.array(z.tuple([z.number(), z.number()])).max(MAX_PDF_ANNOTATION_POINTS),
+  text: z.string().optional(),
+});
+
+/** An annotation as sent by the teacher, checked against the rules of its tool. */
+export const pdfAnnotationInput = z.object({
+  sessionId: z.number(),
+  documentId: z.number(),
+  page: z.number().int().min(1),
+  tool: z.enum(PDF_ANNOTATION_TOOLS),
+  data: pdfAnnotationDataInput,
+}).superRefine(({ tool, data }, ctx) => {
+  const error = validatePdfAnnotation(tool, data);
+  if (error) ctx.addIssue({ code: "custom", message: error, path: ["data"] });
+});
+
+/**
+ * Annotations shown on a document during a session: every annotation of
+ * the document when the room keeps them across sessions, otherwise only
+ * those drawn in this session.
+ */
+export function getVisiblePdfAnnotations(room: Room, sessionId: number, documentId: number): Promise<PdfAnnotation[]> {
+  return db.getPdfAnnotations(documentId, room.keepPdfAnnotations ? undefined : sessionId);
+}
+
+// Top of the letters below the top of the line, as a fraction of the font size
+const TEXT_ASCENT = 0.8;
+const TEXT_LINE_HEIGHT = 1.2;
+
+function hexToRgb(hex: string) {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  return rgb(r, g, b);
+}
+
+/**
+ * Maps fractions of the page as it is displayed to PDF user space,
+ * following the page rotation, plus the displayed width in PDF units.
+ */
+function pageSpace(page: PDFPage) {
+  const { x: left, y: bottom, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const toPdf = ([u, v]: BoardPoint): { x: number; y: number } => {
+    switch (rotation) {
+      case 90: return { x: left + v * width, y: bottom + u * height };
+      case 180: return { x: left + (1 - u) * width, y: bottom + v * height };
+      case 270: return { x: left + (1 - v) * width, y: bottom + (1 - u) * height };
+      default: return { x: left + u * width, y: bottom + (1 - v) * height };
+    }
+  };
+  const sideways = rotation === 90 || rotation === 270;
+  return {
+    toPdf,
+    rotation,
+    displayWidth: sideways ? height : width,
+    displayHeight: sideways ? width : height,
+  };
+}
+
+/** A copy of the PDF with the annotations drawn into its pages. */
+export async function flattenPdfAnnotations(source: Uint8Array, annotations: PdfAnnotation[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(source);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  // Standard fonts only cover Latin-1, so other characters are left out of notes
+  const encodable = new Set(font.getCharacterSet());
+  const pages = pdf.getPages();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.page - 1];
+    if (!page) continue;
+    const data: PdfAnnotationData = JSON.parse(annotation.data);
+    const { toPdf, rotation, displayWidth, displayHeight } = pageSpace(page);
+    const color = hexToRgb(data.color);
+    const size = data.width * displayWidth;
+
+    if (annotation.tool === "text") {
+      const [u, v] = data.points[0];
+      (data.text ?? "").split("\n").forEach((line, index) => {
+        const baseline = v + (size * (TEXT_ASCENT + index * TEXT_LINE_HEIGHT)) / displayHeight;
+        const text = Array.from(line).filter(char => encodable.has(char.codePointAt(0)!)).join("");
+        page.drawText(text, { ...toPdf([u, baseline]), size, font, color, rotate: degrees(rotation) });
+      });
+      continue;
+    }
+
+    // One path rather than segments, so see-through highlights do not darken where segments meet.
+    // drawSvgPath flips the y axis, hence the negated y.
+    const path = data.points
+      .map(toPdf)
+      .map(({ x, y }, index) => `${index === 0 ? "M" : "L"} ${x} ${-y}`);
+    if (data.points.length === 1) path.push(path[0].replace("M", "L"));
+    page.drawSvgPath(path.join(" "), {
+      x: 0,
+      y: 0,
+      borderColor: color,
+      borderWidth: size,
+      borderLineCap: LineCapStyle.Round,
+      borderOpacity: annotation.tool === "highlight" ? PDF_HIGHLIGHT_OPACITY : 1,
+    });
+  }
+
+  return pdf.save();
+}
+
+/** Flattens the annotations into a new document of the same room, uploaded to storage. */
+export async function exportAnnotatedDocument(
+  room: Room,
+  document: Document,
+  annotations: PdfAnnotation[],
+  uploadedBy: number
+): Promise<Document | undefined> {
+  const source = await storageRead(document.s3Key);
+  const flattened = await flattenPdfAnnotations(new Uint8Array(source), annotations);
+
+  const s3Key = `documents/${room.slug}/${nanoid()}.pdf`;
+  const { url } = await storagePut(s3Key, Buffer.from(flattened), "application/pdf");
+
+  return db.createDocument({
+    roomId: room.id,
+    uploadedBy,
+    title: `${document.title.replace(/\.pdf$/i, "")} (anotado).pdf`,
+    s3Key,
+    s3Url: url,
+    fileSize: flattened.length,
+    pageCount: document.pageCount,
+  });
+}
@@ -124,6 +124,21 @@ describe("pdfSync", () => {
       });
     });
 
+    it("syncs the scroll position within the page and the lock", async () => {
+      vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 1, status: "active" } as any);
+      vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1, slug: "test-room" } as any);
+
+      const caller = appRouter.createCaller(createMockContext(createTestUser({ id: 1 })));
+      await caller.pdfSync.updateState({ sessionId: 1, scrollX: 0, scrollY: 0.25, locked: true });
+
+      expect(db.updatePdfSyncState).toHaveBeenCalledWith(1, expect.objectContaining({
+        scrollX: 0,
+        scrollY: 0.25,
+        locked: true,
+      }));
+      await expect(caller.pdfSync.updateState({ sessionId: 1, scrollY: 1.5 })).rejects.toThrow();
+    });
+
     it("throws error when user is not the teacher", async () => {
       const user = createTestUser({ id: 2 }); // Different user
       const mockSession = { id: 1, roomId: 1, status: "active" };
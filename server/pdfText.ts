@@ -0,0 +1,103 @@
+import { getDocument, type PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { Document } from "../drizzle/schema";
+import { storageRead } from "./storage";
+import * as db from "./db";
+
+// Extracted text per document, kept for the lifetime of the process
+const pageTextCache = new Map<number, Promise<string[]>>();
+
+// Canvas factory pdf.js uses under Node, backed by @napi-rs/canvas
+type NodeCanvasFactory = {
+  create(width: number, height: number): {
+    canvas: HTMLCanvasElement & { toBuffer(mimeType: "image/jpeg", quality?: number): Buffer };
+    context: CanvasRenderingContext2D;
+  };
+};
+
+const THUMBNAIL_QUALITY = 80;
+
+export type PdfPageContent = {
+  text: string;
+  // JPEG preview of the page, or null when it could not be drawn
+  thumbnail: Buffer | null;
+};
+
+async function readPageText(page: PDFPageProxy): Promise<string> {
+  const content = await page.getTextContent();
+  return content.items
+    .map(item => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+    .join("")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+/** Plain text of every page of a PDF, in page order. */
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  const pdf = await getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      pages.push(await readPageText(await pdf.getPage(pageNumber)));
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Text and a thumbnail `thumbnailWidth` pixels wide of every page of a
+ * PDF, in page order. A page that cannot be drawn keeps its text.
+ */
+export async function readPdfPages(data: Uint8Array, thumbnailWidth: number): Promise<PdfPageContent[]> {
+  const pdf = await getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  try {
+    const canvasFactory = pdf.canvasFactory as NodeCanvasFactory;
+    const pages: PdfPageContent[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const text = await readPageText(page);
+
+      let thumbnail: Buffer | null = null;
+      try {
+        const viewport = page.getViewport({ scale: thumbnailWidth / page.getViewport({ scale: 1 }).width });
+        const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({ canvas, canvasContext: context, viewport }).promise;
+        thumbnail = canvas.toBuffer("image/jpeg", THUMBNAIL_QUALITY);
+      } catch (error) {
+        console.warn("[PDF] Failed to draw thumbnail of page", pageNumber, String(error));
+      }
+
+      pages.push({ text, thumbnail });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Text of one page of an uploaded document, or an empty string when the
+ * page does not exist or the file cannot be read.
+ */
+export async function getDocumentPageText(document: Document, pageNumber: number): Promise<string> {
+  // Documents indexed on upload already have their text stored
+  if (document.indexStatus === "ready") {
+    return (await db.getDocumentPage(document.id, pageNumber))?.text ?? "";
+  }
+
+  let pages = pageTextCache.get(document.id);
+  if (!pages) {
+    pages = storageRead(document.s3Key).then(data => extractPdfPages(new Uint8Array(data)));
+    pageTextCache.set(document.id, pages);
+  }
+
+  try {
+    return (await pages)[pageNumber - 1] ?? "";
+  } catch (error) {
+    pageTextCache.delete(document.id);
+    console.warn("[PDF] Failed to extract text from document", document.id, String(error));
+    return "";
+  }
+}
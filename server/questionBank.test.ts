@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { formatGift, parseGift } from "@shared/giftFormat";
+import type { BankItem } from "@shared/questionBank";
+import { bankQuestionFields, exportQuiz, parseQuizImport, toBankItem } from "./questionBank";
+
+const items: BankItem[] = [
+  {
+    question: "Qual é a derivada de x²?",
+    questionLatex: "\\frac{d}{dx} x^2",
+    content: { type: "multipleChoice", options: ["x", "2x", "x²"], correct: [1], multiple: false },
+    points: 10,
+    tags: { topic: "Cálculo", difficulty: "medium", grade: "3º ano" },
+  },
+  {
+    question: "Marque os números primos",
+    content: { type: "multipleChoice", options: ["2", "4", "5"], correct: [0, 2], multiple: true },
+    points: 10,
+    tags: { topic: "Cálculo" },
+  },
+  { question: "π vale 3,14 com duas casas?", content: { type: "trueFalse", correct: true }, points: 10 },
+  { question: "Quanto vale g?", content: { type: "numeric", value: 9.8, tolerance: 0.1, unit: "m/s^2" }, points: 10 },
+  { question: "Resolva: x: 2x = 6", content: { type: "text", correctAnswer: "x = 3", checkMode: "strict" }, points: 10 },
+  { question: "Ordene", content: { type: "ordering", steps: ["a", "b"] }, points: 10 },
+];
+
+describe("question bank formats", () => {
+  it("writes GIFT that Moodle reads, leaving out what it cannot hold", () => {
+    const { text, warnings } = formatGift(items);
+
+    expect(text).toContain("$CATEGORY: Cálculo");
+    expect(text).toContain("// [tag:difficulty=medium] [tag:grade=3º ano]");
+    expect(text).toContain("Qual é a derivada de x²? $$\\\\frac\\{d\\}\\{dx\\} x^2$$ {\n\t~x\n\t=2x\n\t~x²\n}");
+    expect(text).toContain("\t~%50%2\n\t~%-100%4\n\t~%50%5");
+    expect(text).toContain("{TRUE}");
+    expect(text).toContain("{#9.8:0.1}");
+    expect(text).toContain("Resolva\\: x\\: 2x \\= 6 {=x \\= 3}");
+    expect(text).not.toContain("Ordene");
+    expect(warnings).toEqual([
+      "Questão 4: a unidade (m/s^2) não existe em GIFT",
+      "Questão 6: questões do tipo \"ordenar passos\" não existem em GIFT",
+    ]);
+  });
+
+  it("reads back what it writes", () => {
+    const { items: read, warnings } = parseGift(formatGift(items).text);
+
+    expect(warnings).toEqual([]);
+    expect(read).toHaveLength(5);
+    expect(read[0]).toMatchObject({
+      question: "Qual é a derivada de x²?",
+      questionLatex: "\\frac{d}{dx} x^2",
+      content: items[0].content,
+      tags: { topic: "Cálculo", difficulty: "medium", grade: "3º ano" },
+    });
+    expect(read[1].content).toEqual(items[1].content);
+    expect(read[2].content).toEqual({ type: "trueFalse", correct: true });
+    expect(read[3].content).toEqual({ type: "numeric", value: 9.8, tolerance: 0.1 });
+    expect(read[4]).toMatchObject({ question: "Resolva: x: 2x = 6", content: { type: "text", correctAnswer: "x = 3" } });
+  });
+
+  it("keeps LaTeX commands through a round trip", () => {
+    const latex: BankItem[] = [
+      { question: "Qual letra grega?", questionLatex: "x \\neq 2, \\nabla f", content: { type: "text", correctAnswer: "\\nu", checkMode: "strict" }, points: 10 },
+      { question: "Linha 1\nLinha 2 \\not", content: { type: "trueFalse", correct: false }, points: 10 },
+    ];
+    const { text } = formatGift(latex);
+    expect(text).toContain("$$x \\\\neq 2, \\\\nabla f$$ {=\\\\nu}");
+
+    const { items: read } = parseGift(text);
+    expect(read[0]).toMatchObject({ questionLatex: "x \\neq 2, \\nabla f", content: { type: "text", correctAnswer: "\\nu" } });
+    expect(read[1].question).toBe("Linha 1\nLinha 2 \\not");
+  });
+
+  it("reads GIFT as exported by Moodle", () => {
+    const { items: read, warnings } = parseGift([
+      "// question: 1 name: capital",
+      "$CATEGORY: $course$/top/Matemática/Frações",
+      "",
+      "::Q1::[html]Metade de 1 é {",
+      "  =0,5#Isso",
+      "  =1/2",
+      "}",
+      "",
+      "::Q2:: A raiz de 16 está entre {#3..5}",
+      "",
+      "::Q3:: Associe {=a -> 1 =b -> 2}",
+      "",
+      "::Q4:: Complete\\: 2 + {~1 =2 ~3} = 4",
+    ].join("\r\n"));
+
+    expect(read.map(item => item.content)).toEqual([
+      { type: "text", correctAnswer: "0,5", checkMode: "strict" },
+      { type: "numeric", value: 4, tolerance: 1 },
+      { type: "multipleChoice", options: ["1", "2", "3"], correct: [1], multiple: false },
+    ]);
+    expect(read[0].tags?.topic).toBe("Frações");
+    expect(read[2].question).toBe("Complete: 2 + _____ = 4");
+    expect(warnings).toEqual([
+      "Questão 1: só a primeira de 2 respostas aceitas foi mantida",
+      "Questão 3: questões de associação não são importadas",
+    ]);
+  });
+
+  it("imports the JSON format question by question", () => {
+    const text = exportQuiz("json", "Cálculo I", items.slice(0, 3)).content;
+    const parsed = parseQuizImport("json", text);
+    expect(parsed.title).toBe("Cálculo I");
+    expect(parsed.items.map(item => item.content)).toEqual(items.slice(0, 3).map(item => item.content));
+
+    const file = JSON.parse(text);
+    file.questions[1].content.correct = [7];
+    file.questions[2].speedBonus = 10;
+    const partial = parseQuizImport("json", JSON.stringify(file));
+    expect(partial.items).toHaveLength(1);
+    expect(partial.warnings).toEqual([
+      "Questão 2 (content): Alternativa correta inexistente, ignorada",
+      "Questão 3: O bônus de velocidade precisa de um tempo limite, ignorada",
+    ]);
+
+    expect(() => parseQuizImport("json", "[1, 2")).toThrow("O arquivo não é um JSON válido");
+    expect(exportQuiz("gift", "Frações: revisão", []).filename).toBe("fracoes-revisao.gift.txt");
+  });
+
+  it("keeps bank questions as exercises keep their questions", () => {
+    const tolerant: BankItem = {
+      question: "Metade de 1",
+      content: { type: "text", correctAnswer: "1/2", checkMode: "equivalent", tolerance: 0.01, toleranceType: "absolute" },
+      points: 5,
+      tags: { topic: "  ", grade: " 6º ano " },
+    };
+    const fields = bankQuestionFields(tolerant);
+    expect(fields).toMatchObject({ questionType: "text", content: null, correctAnswer: "1/2", checkMode: "equivalent", tolerance: 0.01, topic: null, grade: "6º ano" });
+
+    const stored = { id: 1, ownerId: 1, createdAt: new Date(), updatedAt: new Date(), ...fields } as Parameters<typeof toBankItem>[0];
+    expect(toBankItem(stored)).toMatchObject({ content: tolerant.content, points: 5, tags: { grade: "6º ano" } });
+  });
+});
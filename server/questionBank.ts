@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { BankQuestion, Exercise, InsertBankQuestion, InsertExercise } from "../drizzle/schema";
+import { describeCorrectAnswer, questionPoints, readExerciseQuestion } from "@shared/exerciseQuestions";
+import { MAX_SPEED_BONUS } from "@shared/exerciseScoring";
+import { formatGift, parseGift } from "@shared/giftFormat";
+import {
+  MAX_IMPORT_QUESTIONS,
+  MAX_TAG_LENGTH,
+  normalizeTags,
+  QUESTION_DIFFICULTIES,
+  QUIZ_FILE_FORMAT,
+  QUIZ_FILE_VERSION,
+  validateBankItem,
+  type BankItem,
+  type QuestionTags,
+  type QuizExportFormat,
+  type QuizFile,
+} from "@shared/questionBank";
+import { storedQuestionInput } from "./exerciseQuestions";
+
+export class QuizImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizImportError";
+  }
+}
+
+const tagText = z.string().trim().max(MAX_TAG_LENGTH).nullish();
+
+export const questionTagsInput = z.object({
+  topic: tagText,
+  difficulty: z.enum(QUESTION_DIFFICULTIES).nullish(),
+  grade: tagText,
+});
+
+/** A question for the bank, checked against the rules of its type. */
+export const bankItemInput = z.object({
+  question: z.string().trim().min(1).max(2000),
+  questionLatex: z.string().trim().max(2000).nullish(),
+  content: storedQuestionInput,
+  points: z.number().int().min(1).max(100).default(10),
+  timeLimit: z.number().int().positive().nullish(),
+  speedBonus: z.number().int().min(0).max(MAX_SPEED_BONUS).default(0),
+  streakBonus: z.boolean().default(false),
+  tags: questionTagsInput.optional(),
+}).superRefine((item, ctx) => {
+  const error = validateBankItem(item);
+  if (error) ctx.addIssue({ code: "custom", message: error });
+});
+
+// Questions are read one by one on import, so one bad question does not lose the others
+const quizFileInput = z.object({
+  format: z.literal(QUIZ_FILE_FORMAT),
+  version: z.literal(QUIZ_FILE_VERSION),
+  title: z.string().trim().max(255).optional(),
+  questions: z.array(z.unknown()).min(1).max(MAX_IMPORT_QUESTIONS),
+});
+
+/** The columns of a bank question holding the item, everything but its owner. */
+export function bankQuestionFields(item: BankItem): Omit<InsertBankQuestion, "ownerId"> {
+  const { content } = item;
+  return {
+    question: item.question,
+    questionLatex: item.questionLatex || null,
+    questionType: content.type,
+    content: content.type === "text" ? null : JSON.stringify(content),
+    correctAnswer: describeCorrectAnswer(content).slice(0, 255),
+    checkMode: content.type === "text" ? content.checkMode : "strict",
+    tolerance: content.type === "text" ? (content.tolerance ?? null) : null,
+    toleranceType: content.type === "text" ? (content.toleranceType ?? "absolute") : "absolute",
+    points: questionPoints(content, item.points),
+    timeLimit: item.timeLimit ?? null,
+    speedBonus: item.speedBonus ?? 0,
+    streakBonus: item.streakBonus ?? false,
+    ...normalizeTags(item.tags),
+  };
+}
+
+/** The item kept in a bank question, or asked in an exercise of a session. */
+export function toBankItem(question: BankQuestion | Exercise, tags?: QuestionTags): BankItem {
+  const content = readExerciseQuestion(question);
+  return {
+    question: question.question,
+    questionLatex: question.questionLatex,
+    content: content.type === "text" && content.tolerance == null
+      ? { type: "text", correctAnswer: content.correctAnswer, checkMode: content.checkMode }
+      : content,
+    points: question.points,
+    timeLimit: question.timeLimit,
+    speedBonus: question.speedBonus,
+    streakBonus: question.streakBonus,
+    tags: normalizeTags(tags ?? ("topic" in question ? question : undefined)),
+  };
+}
+
+/** An exercise asking the bank question, waiting in the queue of the session. */
+export function queuedExercise(
+  question: BankQuestion,
+  sessionId: number,
+  createdBy: number,
+  queuePosition: number
+): InsertExercise {
+  return {
+    sessionId,
+    createdBy,
+    question: question.question,
+    questionLatex: question.questionLatex,
+    questionType: question.questionType,
+    content: question.content,
+    correctAnswer: question.correctAnswer,
+    checkMode: question.checkMode,
+    tolerance: question.tolerance,
+    toleranceType: question.toleranceType,
+    points: question.points,
+    timeLimit: question.timeLimit,
+    speedBonus: question.speedBonus,
+    streakBonus: question.streakBonus,
+    isActive: false,
+    activatedAt: null,
+    bankQuestionId: question.id,
+    queuePosition,
+  };
+}
+
+/** The questions of a quiz file, in the documented JSON format or GIFT. */
+export function parseQuizImport(
+  format: QuizExportFormat,
+  text: string
+): { title: string | null; items: BankItem[]; warnings: string[] } {
+  if (format === "gift") {
+    const { items, warnings } = parseGift(text);
+    if (items.length === 0) {
+      throw new QuizImportError(warnings[0] ?? "Nenhuma questão encontrada no arquivo");
+    }
+    if (items.length > MAX_IMPORT_QUESTIONS) {
+      warnings.push(`Só as primeiras ${MAX_IMPORT_QUESTIONS} questões foram importadas`);
+    }
+    return { title: null, items: items.slice(0, MAX_IMPORT_QUESTIONS), warnings };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new QuizImportError("O arquivo não é um JSON válido");
+  }
+  const file = quizFileInput.safeParse(data);
+  if (!file.success) {
+    throw new QuizImportError(`O arquivo não está no formato ${QUIZ_FILE_FORMAT} (versão ${QUIZ_FILE_VERSION})`);
+  }
+
+  const items: BankItem[] = [];
+  const warnings: string[] = [];
+  file.data.questions.forEach((question, index) => {
+    const item = bankItemInput.safeParse(question);
+    if (item.success) {
+      items.push(item.data);
+    } else {
+      const issue = item.error.issues[0];
+      const where = issue.path.length > 0 ? ` (${issue.path.join(".")})` : "";
+      warnings.push(`Questão ${index + 1}${where}: ${issue.message}, ignorada`);
+    }
+  });
+  if (items.length === 0) {
+    throw new QuizImportError(warnings[0] ?? "Nenhuma questão encontrada no arquivo");
+  }
+  return { title: file.data.title || null, items, warnings };
+}
+
+/** The items as a file to download, with what could not go in it. */
+export function exportQuiz(
+  format: QuizExportFormat,
+  title: string,
+  items: BankItem[]
+): { filename: string; content: string; warnings: string[] } {
+  const name = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase() || "questoes";
+
+  if (format === "gift") {
+    const { text, warnings } = formatGift(items);
+    return { filename: `${name}.gift.txt`, content: text, warnings };
+  }
+
+  const file: QuizFile = { format: QUIZ_FILE_FORMAT, version: QUIZ_FILE_VERSION, title, questions: items };
+  return { filename: `${name}.json`, content: JSON.stringify(file, null, 2), warnings: [] };
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import type { Server, Socket } from "socket.io";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { attachRealtimeServer, publishToSession, registerRealtimeHandlers } from "./realtime";
+import { SESSION_EVENTS, SUBSCRIBE_ERROR, SUBSCRIBE_SESSION, SUBSCRIBED, sessionChannel } from "@shared/realtime";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  addLiveChatMessage: vi.fn(),
+  getSessionById: vi.fn().mockResolvedValue({ id: 1, roomId: 1, status: "active" }),
+  getParticipantById: vi.fn().mockResolvedValue({ id: 1, sessionId: 1, leftAt: null }),
+  getRoomById: vi.fn(),
+  updateParticipantLeft: vi.fn(),
+  updatePdfSyncState: vi.fn(),
+  clearPdfSyncState: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { signParticipantToken } from "./_core/participantToken";
+
+ENV.cookieSecret = "test-secret";
+
+function createParticipantToken(participantId: number, sessionId: number) {
+  return signParticipantToken({ sessionId, participantId, role: "student", name: "Aluno" });
+}
+
+function createFakeIo(sockets: unknown[] = []) {
+  const emit = vi.fn();
+  const to = vi.fn().mockReturnValue({ emit });
+  const fetchSockets = vi.fn().mockResolvedValue(sockets);
+  const within = vi.fn().mockReturnValue({ fetchSockets });
+  return { io: { to, in: within } as unknown as Server, to, in: within, emit };
+}
+
+function createFakeSocket() {
+  const handlers = new Map<string, (data: unknown) => Promise<void> | void>();
+  const socket = {
+    data: {},
+    on: vi.fn((event: string, handler: (data: unknown) => void) => handlers.set(event, handler)),
+    emit: vi.fn(),
+    join: vi.fn(),
+    leave: vi.fn(),
+  };
+  registerRealtimeHandlers(socket as unknown as Socket);
+  return { socket, handlers };
+}
+
+function createPublicContext(): TrpcContext {
+  return {
+    user: null,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+function createTeacherContext(): TrpcContext {
+  return {
+    ...createPublicContext(),
+    user: {
+      id: 1,
+      openId: "teacher",
+      email: "teacher@example.com",
+      name: "Professor",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+  };
+}
+
+describe("realtime", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("publishes events to the session channel", () => {
+    const { io, to, emit } = createFakeIo();
+    attachRealtimeServer(io);
+
+    publishToSession(7, SESSION_EVENTS.exercise, { exerciseId: 3 });
+
+    expect(to).toHaveBeenCalledWith(sessionChannel(7));
+    expect(emit).toHaveBeenCalledWith("exercise-changed", { exerciseId: 3 });
+  });
+
+  it("joins the session channel of the participant token", async () => {
+    const { socket, handlers } = createFakeSocket();
+
+    vi.mocked(db.getParticipantById).mockResolvedValueOnce({ id: 2, sessionId: 5, leftAt: null } as any);
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 5, roomId: 1, status: "active" } as any);
+    await handlers.get(SUBSCRIBE_SESSION)?.({ participantToken: await createParticipantToken(2, 5) });
+    await handlers.get(SUBSCRIBE_SESSION)?.({ participantToken: "forged" });
+
+    expect(socket.join).toHaveBeenCalledTimes(1);
+    expect(socket.join).toHaveBeenCalledWith("session:5");
+    // The client counts on events only once the subscription is acknowledged
+    expect(socket.emit).toHaveBeenCalledWith(SUBSCRIBED, { sessionId: 5 });
+    expect(socket.emit).toHaveBeenCalledWith(SUBSCRIBE_ERROR, expect.anything());
+  });
+
+  it("refuses to subscribe a participant who left", async () => {
+    const { socket, handlers } = createFakeSocket();
+
+    vi.mocked(db.getParticipantById).mockResolvedValueOnce({ id: 2, sessionId: 1, leftAt: new Date() } as any);
+    await handlers.get(SUBSCRIBE_SESSION)?.({ participantToken: await createParticipantToken(2, 1) });
+
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(socket.emit).not.toHaveBeenCalledWith(SUBSCRIBED, expect.anything());
+    expect(socket.emit).toHaveBeenCalledWith(SUBSCRIBE_ERROR, expect.anything());
+  });
+
+  it("refuses to subscribe to a session that has ended", async () => {
+    const { socket, handlers } = createFakeSocket();
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 1, roomId: 1, status: "ended" } as any);
+    await handlers.get(SUBSCRIBE_SESSION)?.({ participantToken: await createParticipantToken(2, 1) });
+
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(socket.emit).not.toHaveBeenCalledWith(SUBSCRIBED, expect.anything());
+    expect(socket.emit).toHaveBeenCalledWith(SUBSCRIBE_ERROR, expect.anything());
+  });
+
+  it("stops pushing events to a participant who leaves", async () => {
+    const leaving = { data: { participant: { sessionId: 1, participantId: 2 } }, leave: vi.fn() };
+    const staying = { data: { participant: { sessionId: 1, participantId: 3 } }, leave: vi.fn() };
+    const { io, in: within } = createFakeIo([leaving, staying]);
+    attachRealtimeServer(io);
+
+    const caller = appRouter.createCaller(createPublicContext());
+    await caller.session.leave({ participantToken: await createParticipantToken(2, 1) });
+
+    expect(db.updateParticipantLeft).toHaveBeenCalledWith(2);
+    expect(within).toHaveBeenCalledWith(sessionChannel(1));
+    expect(leaving.leave).toHaveBeenCalledWith(sessionChannel(1));
+    expect(leaving.data.participant).toBeUndefined();
+    expect(staying.leave).not.toHaveBeenCalled();
+  });
+
+  it("pushes live chat messages after they are stored", async () => {
+    const { io, emit } = createFakeIo();
+    attachRealtimeServer(io);
+
+    const stored = {
+      id: 10,
+      sessionId: 1,
+      participantId: 2,
+      senderName: "Aluno",
+      message: "Oi",
+      createdAt: new Date(),
+    };
+    vi.mocked(db.addLiveChatMessage).mockResolvedValue(stored);
+
+    const caller = appRouter.createCaller(createPublicContext());
+    await caller.liveChat.sendMessage({
+      participantToken: await createParticipantToken(2, 1),
+      message: "Oi",
+    });
+
+    expect(emit).toHaveBeenCalledWith(SESSION_EVENTS.liveChat, stored);
+  });
+
+  it("pushes a null PDF state when the teacher clears it", async () => {
+    const { io, to, emit } = createFakeIo();
+    attachRealtimeServer(io);
+
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 1, status: "active" } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1 } as any);
+
+    const caller = appRouter.createCaller(createTeacherContext());
+    await caller.pdfSync.clearState({ sessionId: 1 });
+
+    expect(db.clearPdfSyncState).toHaveBeenCalledWith(1);
+    expect(to).toHaveBeenCalledWith(sessionChannel(1));
+    expect(emit).toHaveBeenCalledWith(SESSION_EVENTS.pdfSync, null);
+  });
+});
@@ -0,0 +1,142 @@
+import type { Server, Socket } from "socket.io";
+import { verifyActiveParticipant, type ParticipantClaims } from "./_core/participantToken";
+import { boardStrokeDataInput, canDrawOnBoard } from "./whiteboard";
+import { pdfAnnotationDataInput } from "./pdfAnnotations";
+import { BOARD_TOOLS } from "@shared/board";
+import { PDF_ANNOTATION_TOOLS } from "@shared/pdfAnnotations";
+import { z } from "zod";
+import {
+  SEND_BOARD_DRAFT,
+  SEND_PDF_ANNOTATION_DRAFT,
+  SEND_PDF_POINTER,
+  SESSION_EVENTS,
+  sessionChannel,
+  SUBSCRIBE_ERROR,
+  SUBSCRIBE_SESSION,
+  SUBSCRIBED,
+  UNSUBSCRIBE_SESSION,
+  type SessionEventName,
+  type SessionEventPayloads,
+} from "@shared/realtime";
+
+// Socket.IO instance shared with the WebRTC signaling server
+let _io: Server | null = null;
+
+// Drafts arrive many times per second, so drawing rights are re-checked at most this often
+const DRAW_CHECK_TTL_MS = 5000;
+
+const boardDraftMessage = z.object({
+  page: z.number().int().min(1),
+  tool: z.enum(BOARD_TOOLS),
+  data: boardStrokeDataInput.nullable(),
+});
+
+const pdfAnnotationDraftMessage = z.object({
+  documentId: z.number(),
+  page: z.number().int().min(1),
+  tool: z.enum(PDF_ANNOTATION_TOOLS),
+  data: pdfAnnotationDataInput.nullable(),
+});
+
+const pdfPointerMessage = z.object({
+  documentId: z.number(),
+  page: z.number().int().min(1),
+  point: z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)]).nullable(),
+});
+
+type SocketData = {
+  participant?: ParticipantClaims;
+  drawCheck?: { allowed: boolean; at: number };
+};
+
+export function attachRealtimeServer(io: Server) {
+  _io = io;
+}
+
+/**
+ * Register the session subscription handlers on a connected socket.
+ * Clients join the channel of the session their participant token was
+ * issued for and receive every event published for it until they
+ * unsubscribe, disconnect or leave the session.
+ */
+export function registerRealtimeHandlers(socket: Socket) {
+  socket.on(SUBSCRIBE_SESSION, async (data: { participantToken: string }) => {
+    const participant = await verifyActiveParticipant(data?.participantToken);
+    if (!participant) {
+      socket.emit(SUBSCRIBE_ERROR, { message: "Token de participante inválido" });
+      return;
+    }
+    (socket.data as SocketData).participant = participant;
+    socket.join(sessionChannel(participant.sessionId));
+    socket.emit(SUBSCRIBED, { sessionId: participant.sessionId });
+  });
+
+  // Strokes in progress are only relayed, never stored: the finished stroke is saved by `board.addStroke`
+  socket.on(SEND_BOARD_DRAFT, async (data: unknown) => {
+    const state = socket.data as SocketData;
+    const draft = boardDraftMessage.safeParse(data);
+    if (!state.participant || !draft.success) return;
+
+    if (!state.drawCheck || Date.now() - state.drawCheck.at > DRAW_CHECK_TTL_MS) {
+      state.drawCheck = { allowed: await canDrawOnBoard(state.participant), at: Date.now() };
+    }
+    if (!state.drawCheck.allowed) return;
+
+    socket.to(sessionChannel(state.participant.sessionId)).emit(SESSION_EVENTS.boardDraft, {
+      participantId: state.participant.participantId,
+      ...draft.data,
+    });
+  });
+
+  // Only the teacher annotates PDFs; the finished annotation is saved by `pdfAnnotation.add`
+  socket.on(SEND_PDF_ANNOTATION_DRAFT, (data: unknown) => {
+    const { participant } = socket.data as SocketData;
+    const draft = pdfAnnotationDraftMessage.safeParse(data);
+    if (participant?.role !== "teacher" || !draft.success) return;
+
+    socket.to(sessionChannel(participant.sessionId)).emit(SESSION_EVENTS.pdfAnnotationDraft, draft.data);
+  });
+
+  socket.on(SEND_PDF_POINTER, (data: unknown) => {
+    const { participant } = socket.data as SocketData;
+    const pointer = pdfPointerMessage.safeParse(data);
+    if (participant?.role !== "teacher" || !pointer.success) return;
+
+    socket.to(sessionChannel(participant.sessionId)).emit(SESSION_EVENTS.pdfPointer, pointer.data);
+  });
+
+  socket.on(UNSUBSCRIBE_SESSION, (data: { sessionId: number }) => {
+    if (!data || typeof data.sessionId !== "number") return;
+    socket.leave(sessionChannel(data.sessionId));
+  });
+}
+
+/**
+ * Stop pushing a session's events to a participant who left it: their
+ * sockets leave the session channel and can no longer send drafts.
+ */
+export async function removeFromSession(sessionId: number, participantId: number): Promise<void> {
+  if (!_io) return;
+  const channel = sessionChannel(sessionId);
+  const sockets = await _io.in(channel).fetchSockets();
+  sockets.forEach(socket => {
+    const state = socket.data as SocketData;
+    if (state.participant?.participantId !== participantId) return;
+    state.participant = undefined;
+    socket.leave(channel);
+  });
+}
+
+/**
+ * Push an event to every client subscribed to a session.
+ * Call this only after the corresponding database write has committed.
+ * It is a no-op when the realtime server is not running (e.g. in tests).
+ */
+export function publishToSession<E extends SessionEventName>(
+  sessionId: number,
+  event: E,
+  payload: SessionEventPayloads[E]
+): void {
+  if (!_io) return;
+  _io.to(sessionChannel(sessionId)).emit(event, payload);
+}
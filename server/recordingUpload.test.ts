@@ -0,0 +1,167 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Recording } from "../drizzle/schema";
+import {
+  completeRecordingUpload,
+  getReceivedChunks,
+  saveRecordingChunk,
+} from "./recordingUpload";
+
+// Mock the database functions, keeping each recording's latest state
+const recordings = new Map<number, Recording>();
+vi.mock("./db", () => ({
+  getRecordingById: vi.fn(async (id: number) => recordings.get(id)),
+  updateRecording: vi.fn(async (id: number, values: Partial<Recording>) => {
+    const current = recordings.get(id);
+    if (current) recordings.set(id, { ...current, ...values });
+  }),
+}));
+
+// Mock storage, keeping what was stored before the staged file is removed
+let storedData: Buffer | undefined;
+vi.mock("./storage", () => ({
+  storagePutFile: vi.fn(async (key: string, filePath: string) => {
+    storedData = await readFile(filePath);
+    return { key, url: "/api/storage/recordings/sala/1/abc.webm" };
+  }),
+}));
+
+import * as db from "./db";
+import { storagePutFile } from "./storage";
+
+const WEBM_HEADER = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+
+let nextRecordingId = Date.now();
+
+function createRecording(overrides: Partial<Recording> = {}): Recording {
+  const recording: Recording = {
+    id: nextRecordingId++,
+    sessionId: 1,
+    title: "Gravação",
+    s3Key: "recordings/sala/1/abc.webm",
+    s3Url: "",
+    duration: null,
+    fileSize: null,
+    mimeType: "video/webm",
+    status: "processing",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  recordings.set(recording.id, recording);
+  return recording;
+}
+
+describe("recording upload", () => {
+  let recording: Recording;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    recording = createRecording();
+  });
+
+  afterEach(async () => {
+    // Leave no staged chunks behind
+    await rm(path.join(os.tmpdir(), "mathtutor-recording-chunks", String(recording.id)), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it("stages chunks and reports which ones were received", async () => {
+    await saveRecordingChunk(recording, 1, Buffer.from("second"));
+    const received = await saveRecordingChunk(recording, 0, Buffer.concat([WEBM_HEADER, Buffer.from("first")]));
+
+    expect(received).toEqual([0, 1]);
+    expect(await getReceivedChunks(recording.id)).toEqual([0, 1]);
+  });
+
+  it("assembles the chunks in order and stores them under the recording key", async () => {
+    await saveRecordingChunk(recording, 1, Buffer.from("-second"));
+    await saveRecordingChunk(recording, 0, Buffer.concat([WEBM_HEADER, Buffer.from("first")]));
+
+    const result = await completeRecordingUpload(recording, {
+      totalChunks: 2,
+      mimeType: "video/webm;codecs=vp9",
+      duration: 12,
+    });
+
+    const stored = vi.mocked(storagePutFile).mock.calls[0];
+    expect(stored[0]).toBe("recordings/sala/1/abc.webm");
+    expect(storedData?.subarray(4).toString()).toBe("first-second");
+    expect(stored[2]).toBe("video/webm");
+    expect(result.status).toBe("ready");
+    expect(db.updateRecording).toHaveBeenCalledWith(recording.id, expect.objectContaining({
+      status: "ready",
+      s3Url: "/api/storage/recordings/sala/1/abc.webm",
+      fileSize: 4 + "first-second".length,
+      duration: 12,
+    }));
+    expect(await getReceivedChunks(recording.id)).toEqual([]);
+  });
+
+  it("stages chunks sent at the same time one after the other", async () => {
+    const results = await Promise.all(
+      [0, 1, 2, 3].map(index => saveRecordingChunk(recording, index, Buffer.from(`part ${index}`)))
+    );
+
+    // Each chunk saw the ones staged before it, and nothing staged after it
+    expect(results).toEqual([[0], [0, 1], [0, 1, 2], [0, 1, 2, 3]]);
+  });
+
+  it("keeps the upload open when chunks are missing", async () => {
+    await saveRecordingChunk(recording, 0, Buffer.concat([WEBM_HEADER, Buffer.from("first")]));
+
+    await expect(
+      completeRecordingUpload(recording, { totalChunks: 3, mimeType: "video/webm" })
+    ).rejects.toThrow("Partes da gravação ausentes: 1, 2");
+    expect(db.updateRecording).not.toHaveBeenCalled();
+    expect(await getReceivedChunks(recording.id)).toEqual([0]);
+  });
+
+  it("marks the recording as failed when the content does not match the mime type", async () => {
+    await saveRecordingChunk(recording, 0, Buffer.from("not a video"));
+
+    await expect(
+      completeRecordingUpload(recording, { totalChunks: 1, mimeType: "video/webm" })
+    ).rejects.toThrow("O conteúdo não corresponde ao formato informado");
+    expect(db.updateRecording).toHaveBeenCalledWith(recording.id, { status: "failed" });
+    expect(storagePutFile).not.toHaveBeenCalled();
+  });
+
+  it("rejects unsupported mime types", async () => {
+    await saveRecordingChunk(recording, 0, Buffer.concat([WEBM_HEADER, Buffer.from("first")]));
+
+    await expect(
+      completeRecordingUpload(recording, { totalChunks: 1, mimeType: "application/zip" })
+    ).rejects.toThrow("Formato de gravação não suportado");
+    expect(db.updateRecording).toHaveBeenCalledWith(recording.id, { status: "failed" });
+  });
+
+  it("rejects a chunk or a second completion queued behind a completion", async () => {
+    await saveRecordingChunk(recording, 0, Buffer.concat([WEBM_HEADER, Buffer.from("first")]));
+
+    // Both were checked against the row read before the first completion finished
+    const [completed, late, again] = await Promise.allSettled([
+      completeRecordingUpload(recording, { totalChunks: 1, mimeType: "video/webm" }),
+      saveRecordingChunk(recording, 1, Buffer.from("late")),
+      completeRecordingUpload(recording, { totalChunks: 2, mimeType: "video/webm" }),
+    ]);
+
+    expect(completed).toMatchObject({ status: "fulfilled", value: { status: "ready" } });
+    expect(late).toMatchObject({ status: "rejected", reason: { statusCode: 409, message: "A gravação já foi finalizada" } });
+    expect(again).toMatchObject({ status: "rejected", reason: { statusCode: 409, message: "A gravação já foi finalizada" } });
+    expect(storagePutFile).toHaveBeenCalledTimes(1);
+    expect(await getReceivedChunks(recording.id)).toEqual([]);
+  });
+
+  it("rejects chunks for recordings that are already finished", async () => {
+    const ready = createRecording({ status: "ready" });
+
+    await expect(saveRecordingChunk(ready, 0, Buffer.from("late"))).rejects.toThrow(
+      "A gravação já foi finalizada"
+    );
+  });
+});
@@ -0,0 +1,296 @@
+import express, { type Express, type Request, type Response } from "express";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, open, readdir, rm, stat, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import {
+  BadRequestError,
+  ForbiddenError,
+  HttpError,
+  NotFoundError,
+} from "@shared/_core/errors";
+import type { Recording } from "../drizzle/schema";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { storagePutFile } from "./storage";
+import { enqueueTranscription } from "./transcription";
+
+export const MAX_RECORDING_CHUNK_SIZE = 16 * 1024 * 1024; // 16 MB
+export const MAX_RECORDING_SIZE = 512 * 1024 * 1024; // 512 MB
+export const RECORDING_MIME_TYPES = ["video/webm", "audio/webm", "video/mp4"] as const;
+
+// Chunks are staged on local disk until the upload is completed
+const CHUNK_ROOT = path.join(os.tmpdir(), "mathtutor-recording-chunks");
+
+function getChunkDir(recordingId: number) {
+  return path.join(CHUNK_ROOT, String(recordingId));
+}
+
+function getChunkPath(recordingId: number, index: number) {
+  return path.join(getChunkDir(recordingId), `${String(index).padStart(6, "0")}.part`);
+}
+
+// Where the chunks are put together once they all arrived
+function getAssembledPath(recordingId: number) {
+  return path.join(getChunkDir(recordingId), "recording");
+}
+
+// Work in progress on each recording's chunks, so that the size checked
+// before a chunk is written still holds when it is written
+const recordingQueues = new Map<number, Promise<unknown>>();
+
+function serialize<T>(recordingId: number, task: () => Promise<T>): Promise<T> {
+  const previous = recordingQueues.get(recordingId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  recordingQueues.set(recordingId, run);
+  run.finally(() => {
+    if (recordingQueues.get(recordingId) === run) recordingQueues.delete(recordingId);
+  }).catch(() => undefined);
+  return run;
+}
+
+function normalizeMimeType(mimeType: string) {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Check the container signature of an assembled recording:
+ * WebM files start with the EBML magic number, MP4 files carry "ftyp" at offset 4.
+ */
+function matchesMimeType(data: Buffer, mimeType: string) {
+  if (mimeType.endsWith("/webm")) {
+    return data.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+  }
+  if (mimeType === "video/mp4") {
+    return data.subarray(4, 8).toString("ascii") === "ftyp";
+  }
+  return false;
+}
+
+async function readHeader(file: string, length: number) {
+  const handle = await open(file, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(length), 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function getStagedSize(recordingId: number, indices: number[]) {
+  let total = 0;
+  for (const index of indices) {
+    total += (await stat(getChunkPath(recordingId, index))).size;
+  }
+  return total;
+}
+
+/** Indices of the chunks already received for a recording, in order. */
+export async function getReceivedChunks(recordingId: number): Promise<number[]> {
+  try {
+    const files = await readdir(getChunkDir(recordingId));
+    return files
+      .filter(file => file.endsWith(".part"))
+      .map(file => parseInt(file, 10))
+      .filter(index => Number.isInteger(index))
+      .sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Re-read the recording inside its queue: a chunk or completion waiting
+ * behind another completion must see the status that one left behind.
+ */
+async function getOpenRecording(recordingId: number): Promise<Recording> {
+  const current = await db.getRecordingById(recordingId);
+  if (!current) {
+    throw NotFoundError("Gravação não encontrada");
+  }
+  if (current.status !== "processing") {
+    throw new HttpError(409, "A gravação já foi finalizada");
+  }
+  return current;
+}
+
+/**
+ * Stage one MediaRecorder chunk. Re-sending an index overwrites it,
+ * so clients can safely retry after a dropped request. Chunks of the
+ * same recording are staged one at a time.
+ */
+export async function saveRecordingChunk(
+  recording: Recording,
+  index: number,
+  data: Buffer
+): Promise<number[]> {
+  if (recording.status !== "processing") {
+    throw new HttpError(409, "A gravação já foi finalizada");
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw BadRequestError("Índice de parte inválido");
+  }
+  if (data.length === 0) {
+    throw BadRequestError("Parte da gravação vazia");
+  }
+  if (data.length > MAX_RECORDING_CHUNK_SIZE) {
+    throw new HttpError(413, "Parte da gravação muito grande");
+  }
+
+  return serialize(recording.id, async () => {
+    await getOpenRecording(recording.id);
+    const others = (await getReceivedChunks(recording.id)).filter(i => i !== index);
+    if ((await getStagedSize(recording.id, others)) + data.length > MAX_RECORDING_SIZE) {
+      throw new HttpError(413, "Gravação excede o tamanho máximo permitido");
+    }
+
+    await mkdir(getChunkDir(recording.id), { recursive: true });
+    await writeFile(getChunkPath(recording.id, index), data);
+    return getReceivedChunks(recording.id);
+  });
+}
+
+export type CompleteRecordingInput = {
+  totalChunks: number;
+  mimeType: string;
+  duration?: number;
+};
+
+/**
+ * Assemble the staged chunks on disk, verify them and stream the file to
+ * the recording's s3Key. Missing chunks leave the upload open so the client
+ * can resume; an invalid or unstorable file marks the recording as failed.
+ */
+export function completeRecordingUpload(
+  recording: Recording,
+  input: CompleteRecordingInput
+): Promise<Recording> {
+  return serialize(recording.id, async () => assembleRecording(await getOpenRecording(recording.id), input));
+}
+
+async function assembleRecording(recording: Recording, input: CompleteRecordingInput): Promise<Recording> {
+  if (!Number.isInteger(input.totalChunks) || input.totalChunks < 1) {
+    throw BadRequestError("Número de partes inválido");
+  }
+
+  const received = new Set(await getReceivedChunks(recording.id));
+  const missing: number[] = [];
+  for (let index = 0; index < input.totalChunks; index++) {
+    if (!received.has(index)) missing.push(index);
+  }
+  if (missing.length > 0) {
+    throw new HttpError(409, `Partes da gravação ausentes: ${missing.join(", ")}`);
+  }
+
+  const fail = async (error: HttpError) => {
+    await db.updateRecording(recording.id, { status: "failed" });
+    await rm(getChunkDir(recording.id), { recursive: true, force: true });
+    throw error;
+  };
+
+  const mimeType = normalizeMimeType(input.mimeType);
+  if (!(RECORDING_MIME_TYPES as readonly string[]).includes(mimeType)) {
+    return fail(BadRequestError("Formato de gravação não suportado"));
+  }
+
+  const indices = Array.from({ length: input.totalChunks }, (_, index) => index);
+  const size = await getStagedSize(recording.id, indices);
+  if (size > MAX_RECORDING_SIZE) {
+    return fail(new HttpError(413, "Gravação excede o tamanho máximo permitido"));
+  }
+  if (!matchesMimeType(await readHeader(getChunkPath(recording.id, 0), 8), mimeType)) {
+    return fail(BadRequestError("O conteúdo não corresponde ao formato informado"));
+  }
+
+  try {
+    const assembled = getAssembledPath(recording.id);
+    await writeFile(assembled, "");
+    for (const index of indices) {
+      await pipeline(createReadStream(getChunkPath(recording.id, index)), createWriteStream(assembled, { flags: "a" }));
+    }
+
+    const { url } = await storagePutFile(recording.s3Key, assembled, mimeType);
+    const completed = {
+      s3Url: url,
+      fileSize: size,
+      mimeType,
+      duration: input.duration ?? null,
+      status: "ready" as const,
+    };
+    await db.updateRecording(recording.id, completed);
+    await rm(getChunkDir(recording.id), { recursive: true, force: true });
+    return { ...recording, ...completed };
+  } catch (error) {
+    console.error("[Recording] Failed to store recording", recording.id, error);
+    return fail(new HttpError(502, "Falha ao armazenar a gravação"));
+  }
+}
+
+async function getRecordingForHost(req: Request): Promise<Recording> {
+  const user = await sdk.authenticateRequest(req);
+
+  const recording = await db.getRecordingById(Number(req.params.recordingId));
+  if (!recording) {
+    throw NotFoundError("Gravação não encontrada");
+  }
+
+  const session = await db.getSessionById(recording.sessionId);
+  const room = session ? await db.getRoomById(session.roomId) : undefined;
+  if (!room || room.hostId !== user.id) {
+    throw ForbiddenError("Apenas o professor pode enviar gravações");
+  }
+
+  return recording;
+}
+
+function handleUpload(handler: (req: Request, res: Response) => Promise<void>) {
+  return async (req: Request, res: Response) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Recording] Upload request failed", error);
+      res.status(500).json({ error: "Falha no upload da gravação" });
+    }
+  };
+}
+
+export function registerRecordingUploadRoutes(app: Express) {
+  // Resume support: which chunks the server already has
+  app.get(
+    "/api/recordings/:recordingId/chunks",
+    handleUpload(async (req, res) => {
+      const recording = await getRecordingForHost(req);
+      res.json({ status: recording.status, received: await getReceivedChunks(recording.id) });
+    })
+  );
+
+  app.put(
+    "/api/recordings/:recordingId/chunks/:index",
+    express.raw({ type: () => true, limit: MAX_RECORDING_CHUNK_SIZE }),
+    handleUpload(async (req, res) => {
+      const recording = await getRecordingForHost(req);
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const received = await saveRecordingChunk(recording, Number(req.params.index), body);
+      res.json({ received });
+    })
+  );
+
+  app.post(
+    "/api/recordings/:recordingId/complete",
+    handleUpload(async (req, res) => {
+      const recording = await getRecordingForHost(req);
+      const { totalChunks, mimeType, duration } = req.body ?? {};
+      if (typeof mimeType !== "string" || (duration !== undefined && typeof duration !== "number")) {
+        throw BadRequestError("Dados de finalização inválidos");
+      }
+      const completed = await completeRecordingUpload(recording, { totalChunks, mimeType, duration });
+      enqueueTranscription(completed);
+      res.json(completed);
+    })
+  );
+}
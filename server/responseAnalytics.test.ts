@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { analyzeResponses, groupAnswers, MAX_REVEALED_BARS, OTHER_ANSWERS_LABEL, revealedResults } from "@shared/responseAnalytics";
+
+describe("response analytics", () => {
+  it("counts equivalent typed answers together, apart from right ones", () => {
+    const groups = groupAnswers("text", [
+      { answer: "x^2 - 1", correct: true },
+      { answer: "(x-1)(x+1)", correct: true },
+      { answer: "x^2 + 1", correct: false },
+      { answer: "$x^2+1$", correct: false },
+      { answer: "1 + x^2", correct: false },
+      { answer: "x^2 - 1 ", correct: false },
+    ]);
+
+    expect(groups).toEqual([
+      { answer: "x^2 + 1", variants: ["$x^2+1$", "1 + x^2"], count: 3, correct: false },
+      { answer: "x^2 - 1", variants: ["(x-1)(x+1)"], count: 2, correct: true },
+      // Judged wrong, so not with the right answer it resembles
+      { answer: "x^2 - 1", variants: [], count: 1, correct: false },
+    ]);
+  });
+
+  it("keeps options and steps by their text", () => {
+    const groups = groupAnswers("multipleChoice", [
+      { answer: "B) 2", correct: true },
+      { answer: "C) 2,0", correct: false },
+      { answer: "B) 2", correct: true },
+    ]);
+    expect(groups.map(group => [group.answer, group.count])).toEqual([["B) 2", 2], ["C) 2,0", 1]]);
+  });
+
+  it("sums up the exercise and reveals it without names", () => {
+    const responses = Array.from({ length: 12 }, (_, index) => ({
+      participantId: index + 1,
+      answer: String(index % 10),
+      correct: index % 10 === 0,
+      responseTime: index === 0 ? null : 1_000 * index,
+    }));
+    const analytics = analyzeResponses("numeric", responses, [
+      { participantId: 1, name: "Ana" },
+      { participantId: 20, name: "Bia" },
+    ]);
+
+    expect(analytics).toMatchObject({ answered: 12, expected: 13, correct: 2, averageResponseTime: 6_000 });
+    expect(analytics.mostCommonWrong).toMatchObject({ answer: "1", count: 2 });
+    expect(analytics.notAnswered).toEqual([{ participantId: 20, name: "Bia" }]);
+
+    const revealed = revealedResults(analytics);
+    expect(revealed.bars).toHaveLength(MAX_REVEALED_BARS);
+    expect(revealed.bars[MAX_REVEALED_BARS - 1]).toEqual({ label: OTHER_ANSWERS_LABEL, count: 3, correct: false });
+    expect(revealed.bars.reduce((sum, bar) => sum + bar.count, 0)).toBe(12);
+    expect(JSON.stringify(revealed)).not.toContain("Ana");
+  });
+});
@@ -1,25 +1,94 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { participantProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { signParticipantToken } from "./_core/participantToken";
+import { enqueueTranscription } from "./transcription";
+import { enqueueLessonNotes } from "./lessonNotes";
+import { parseTutorContext } from "./tutorContext";
+import { resolveTutorPolicy } from "./tutorPolicy";
+import { finishTutorTurn, startTutorTurn, TUTOR_DISABLED_MESSAGE } from "./shadowTutor";
+import { clusterTutorQuestions, getTutorQuestionsByStudent } from "./tutorQuestions";
+import { boardStrokeInput, canDrawOnBoard } from "./whiteboard";
+import { enqueueDocumentIndexing } from "./documentIndex";
+import { exportAnnotatedDocument, getVisiblePdfAnnotations, pdfAnnotationInput } from "./pdfAnnotations";
+import { analyzeExercise, exerciseAnswerInput, exerciseQuestionInput, summarizeResponses, toPublicExercise } from "./exerciseQuestions";
+import {
+  bankItemInput,
+  bankQuestionFields,
+  exportQuiz,
+  parseQuizImport,
+  queuedExercise,
+  QuizImportError,
+  questionTagsInput,
+  toBankItem,
+} from "./questionBank";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import { TRPCError } from "@trpc/server";
 import { invokeLLM } from "./_core/llm";
 import { notifyOwner } from "./_core/notification";
-import { storagePut, storageGet } from "./storage";
+import { storageGet } from "./storage";
+import { publishToSession, removeFromSession } from "./realtime";
+import { SESSION_EVENTS } from "@shared/realtime";
+import { TUTOR_POLICIES } from "@shared/tutorPolicy";
+import { formatMathError, MathParseError } from "@shared/mathExpression";
+import {
+  getGraphParameterNames,
+  GRAPH_TYPES,
+  MAX_GRAPH_EXPRESSIONS,
+  parseGraphExpression,
+  readGraphExpressions,
+  SPACE_KINDS,
+  syncGraphParameters,
+} from "@shared/graphExpressions";
+import { clampCamera, MAX_PITCH, MAX_ZOOM, MIN_ZOOM } from "@shared/graph3d";
+import { MAX_BOARD_PAGES, readBoardDrawers } from "@shared/board";
+import { MAX_SEARCH_RESULTS, searchSnippet, searchTerms } from "@shared/documentSearch";
+import { ANSWER_CHECK_MODES, TOLERANCE_TYPES } from "@shared/answerCheck";
+import {
+  describeCorrectAnswer,
+  describeExerciseAnswer,
+  gradeExerciseAnswer,
+  questionPoints,
+  readExerciseQuestion,
+  validateExerciseAnswer,
+  validateExerciseQuestion,
+  type ExerciseQuestion,
+} from "@shared/exerciseQuestions";
+import { isLateAnswer, MAX_SPEED_BONUS, scoreAnswer } from "@shared/exerciseScoring";
+import { revealedResults, type RevealedResults } from "@shared/responseAnalytics";
+import {
+  MAX_IMPORT_SIZE,
+  MAX_SET_QUESTIONS,
+  QUESTION_DIFFICULTIES,
+  QUIZ_EXPORT_FORMATS,
+} from "@shared/questionBank";
 import * as db from "./db";
 
-// Shadow Tutor system prompt
-const SHADOW_TUTOR_SYSTEM_PROMPT = `Você é um assistente tutor de matemática útil. Responda dúvidas específicas do aluno de forma concisa sem interromper o fluxo da aula principal. Use LaTeX para fórmulas.
+const graphExpressionInput = z.object({
+  id: z.string().max(64),
+  source: z.string().min(1).max(512),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  hidden: z.boolean().optional(),
+  range: z.object({ min: z.number(), max: z.number() })
+    .refine(range => range.min < range.max, { message: "O início do intervalo deve ser menor que o fim" })
+    .optional(),
+});
 
-Diretrizes:
-- Seja conciso e direto nas respostas
-- Use notação LaTeX para fórmulas matemáticas (ex: $x^2 + y^2 = r^2$)
-- Explique conceitos de forma clara e acessível
-- Se o aluno estiver confuso, ofereça exemplos práticos
-- Mantenha um tom amigável e encorajador
-- Responda sempre em português brasileiro`;
+const graphParameterInput = z.object({
+  name: z.string().max(32),
+  value: z.number(),
+  min: z.number(),
+  max: z.number(),
+  step: z.number().positive(),
+}).refine(parameter => parameter.min < parameter.max, { message: "O mínimo deve ser menor que o máximo" });
+
+const graphCameraInput = z.object({
+  yaw: z.number().finite(),
+  pitch: z.number().min(-MAX_PITCH).max(MAX_PITCH),
+  zoom: z.number().min(MIN_ZOOM).max(MAX_ZOOM),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -106,6 +175,33 @@ export const appRouter = router({
         return { success: true };
       }),
 
+    setTutorPolicy: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        policy: z.enum(TUTOR_POLICIES),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getRoomById(input.roomId);
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode alterar o modo do Shadow Tutor" });
+        }
+
+        await db.updateRoom(room.id, { tutorPolicy: input.policy });
+
+        const activeSession = await db.getActiveSessionByRoom(room.id);
+        await db.addTutorPolicyLog({
+          roomId: room.id,
+          sessionId: activeSession?.id ?? null,
+          event: "changed",
+          policy: input.policy,
+        });
+
+        if (activeSession) {
+          publishToSession(activeSession.id, SESSION_EVENTS.tutorPolicy, { sessionId: activeSession.id });
+        }
+        return { success: true };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
@@ -194,9 +290,49 @@ export const appRouter = router({
           content: `A sessão "${session.title}" na sala "${room.name}" foi finalizada.\n\nDuração: ${durationMinutes} minutos\nParticipantes: ${participantNames}\nTotal de participantes: ${participants.length}`
         });
 
+        // Lesson notes are generated in the background, and again once the recording's transcript is ready
+        enqueueLessonNotes(input.sessionId);
+
+        return { success: true };
+      }),
+
+    setTutorPolicy: protectedProcedure
+      .input(z.object({
+        sessionId: z.number(),
+        policy: z.enum(TUTOR_POLICIES).nullable(), // null falls back to the room policy
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!session || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode alterar o modo do Shadow Tutor" });
+        }
+
+        await db.updateSession(session.id, { tutorPolicy: input.policy });
+        await db.addTutorPolicyLog({
+          roomId: room.id,
+          sessionId: session.id,
+          event: "changed",
+          policy: input.policy ?? room.tutorPolicy,
+        });
+
+        publishToSession(session.id, SESSION_EVENTS.tutorPolicy, { sessionId: session.id });
         return { success: true };
       }),
 
+    getMyHistory: protectedProcedure.query(async ({ ctx }) => {
+      const rooms = await db.getRoomsByHost(ctx.user.id);
+      const sessionsByRoom = await Promise.all(
+        rooms.map(async room => {
+          const roomSessions = await db.getSessionsByRoom(room.id);
+          return roomSessions.map(session => ({ ...session, roomName: room.name }));
+        })
+      );
+      return sessionsByRoom
+        .flat()
+        .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+    }),
+
     getActive: publicProcedure
       .input(z.object({ roomId: z.number() }))
       .query(async ({ input }) => {
@@ -245,6 +381,16 @@ export const appRouter = router({
           throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Falha ao entrar na sessão" });
         }
 
+        // Signed proof of identity for every participant-scoped call that follows
+        const participantToken = await signParticipantToken({
+          sessionId: participant.sessionId,
+          participantId: participant.id,
+          role: participant.role,
+          name: participant.visibleName || visibleName,
+        });
+
+        publishToSession(input.sessionId, SESSION_EVENTS.participants, { sessionId: input.sessionId });
+
         // Notify owner when student joins
         if (!isTeacher) {
           await notifyOwner({
@@ -253,13 +399,16 @@ export const appRouter = router({
           });
         }
 
-        return participant;
+        return { ...participant, participantToken };
       }),
 
-    leave: publicProcedure
-      .input(z.object({ participantId: z.number() }))
-      .mutation(async ({ input }) => {
-        await db.updateParticipantLeft(input.participantId);
+    leave: participantProcedure
+      .mutation(async ({ ctx }) => {
+        const { sessionId, participantId } = ctx.participant;
+        await db.updateParticipantLeft(participantId);
+        await removeFromSession(sessionId, participantId);
+
+        publishToSession(sessionId, SESSION_EVENTS.participants, { sessionId });
         return { success: true };
       }),
 
@@ -272,45 +421,23 @@ export const appRouter = router({
 
   // ==================== SHADOW TUTOR (AI CHAT) ROUTES ====================
   shadowTutor: router({
-    chat: publicProcedure
+    chat: participantProcedure
       .input(z.object({
-        sessionId: z.number(),
-        participantId: z.number(),
         message: z.string().min(1),
       }))
-      .mutation(async ({ input }) => {
-        // Save user message
-        await db.addChatMessage({
-          sessionId: input.sessionId,
-          participantId: input.participantId,
-          role: "user",
-          content: input.message,
-        });
-
-        // Get chat history for context
-        const history = await db.getChatMessagesByParticipant(input.participantId);
-        
-        // Build messages array for LLM
-        const messages = [
-          { role: "system" as const, content: SHADOW_TUTOR_SYSTEM_PROMPT },
-          ...history.slice(-10).map(msg => ({
-            role: msg.role as "user" | "assistant",
-            content: msg.content,
-          })),
-        ];
+      .mutation(async ({ ctx, input }) => {
+        const turn = await startTutorTurn(ctx.participant, input.message);
+        if (!turn) {
+          throw new TRPCError({ code: "FORBIDDEN", message: TUTOR_DISABLED_MESSAGE });
+        }
 
         try {
-          const response = await invokeLLM({ messages });
+          const response = await invokeLLM({ messages: turn.messages });
           const rawContent = response.choices[0]?.message?.content;
           const assistantMessage = typeof rawContent === 'string' ? rawContent : "Desculpe, não consegui processar sua pergunta.";
 
           // Save assistant response
-          await db.addChatMessage({
-            sessionId: input.sessionId,
-            participantId: input.participantId,
-            role: "assistant",
-            content: assistantMessage,
-          });
+          await finishTutorTurn(turn, assistantMessage);
 
           return { response: assistantMessage };
         } catch (error) {
@@ -322,10 +449,130 @@ export const appRouter = router({
         }
       }),
 
-    getHistory: publicProcedure
-      .input(z.object({ participantId: z.number() }))
-      .query(async ({ input }) => {
-        return db.getChatMessagesByParticipant(input.participantId);
+    getHistory: participantProcedure
+      .query(async ({ ctx }) => {
+        const messages = await db.getChatMessagesByParticipant(ctx.participant.participantId);
+        // The lesson context behind each answer is for the teacher, through `getAnswerContext`
+        return messages.map(({ context: _context, ...msg }) => msg);
+      }),
+
+    getPolicy: participantProcedure
+      .query(async ({ ctx }) => {
+        return resolveTutorPolicy(ctx.participant.sessionId);
+      }),
+
+    getPolicyLog: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const room = await db.getRoomById(input.roomId);
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver o histórico do Shadow Tutor" });
+        }
+
+        const entries = await db.getTutorPolicyLogByRoom(room.id);
+
+        // Resolve participant names for the entries that have one
+        const sessionIds = Array.from(new Set(
+          entries.filter(entry => entry.participantId && entry.sessionId).map(entry => entry.sessionId!)
+        ));
+        const names = new Map<number, string>();
+        for (const sessionId of sessionIds) {
+          const participants = await db.getParticipantsBySession(sessionId);
+          participants.forEach(p => names.set(p.id, p.visibleName || p.guestName || "Anônimo"));
+        }
+
+        return entries.map(entry => ({
+          ...entry,
+          participantName: entry.participantId ? names.get(entry.participantId) ?? null : null,
+        }));
+      }),
+
+    getSessionQuestions: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver as perguntas dos alunos" });
+        }
+
+        return getTutorQuestionsByStudent(input.sessionId);
+      }),
+
+    clusterSessionQuestions: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver as perguntas dos alunos" });
+        }
+
+        const students = await getTutorQuestionsByStudent(input.sessionId);
+        const questions = students
+          .flatMap(student => student.questions)
+          .sort((a, b) => a.id - b.id);
+
+        try {
+          return await clusterTutorQuestions(questions);
+        } catch (error) {
+          console.error("[ShadowTutor] Failed to cluster questions for session", input.sessionId, error);
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Erro ao agrupar as perguntas. Tente novamente." });
+        }
+      }),
+
+    promoteQuestionToChat: protectedProcedure
+      .input(z.object({ messageId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const question = await db.getChatMessageById(input.messageId);
+        if (!question || question.role !== "user") {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Pergunta não encontrada" });
+        }
+
+        const session = await db.getSessionById(question.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!session || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver as perguntas dos alunos" });
+        }
+        if (session.status !== "active") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A sessão não está ativa" });
+        }
+
+        // Posted by the teacher; the student who asked stays anonymous
+        const participants = await db.getParticipantsBySession(session.id);
+        const teacher = participants.find(p => p.userId === ctx.user.id);
+        if (!teacher) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Entre na sessão para enviar mensagens no chat" });
+        }
+
+        const chatMessage = await db.addLiveChatMessage({
+          sessionId: session.id,
+          participantId: teacher.id,
+          senderName: teacher.visibleName || ctx.user.name || "Professor",
+          message: `Pergunta de um aluno: ${question.content}`,
+        });
+
+        if (chatMessage) {
+          publishToSession(session.id, SESSION_EVENTS.liveChat, chatMessage);
+        }
+        return chatMessage;
+      }),
+
+    getAnswerContext: protectedProcedure
+      .input(z.object({ messageId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const message = await db.getChatMessageById(input.messageId);
+        if (!message) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Mensagem não encontrada" });
+        }
+
+        const session = await db.getSessionById(message.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver o contexto das respostas" });
+        }
+
+        return parseTutorContext(message.context) ?? [];
       }),
   }),
 
@@ -347,8 +594,9 @@ export const appRouter = router({
           throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode criar gravações" });
         }
 
+        // The file is uploaded in chunks to /api/recordings/:id and stored under this key
         const s3Key = `recordings/${room.slug}/${session.id}/${nanoid()}.webm`;
-        
+
         const recording = await db.createRecording({
           sessionId: input.sessionId,
           title: input.title ?? `Gravação ${new Date().toLocaleDateString('pt-BR')}`,
@@ -360,23 +608,6 @@ export const appRouter = router({
         return recording;
       }),
 
-    uploadComplete: protectedProcedure
-      .input(z.object({
-        recordingId: z.number(),
-        s3Url: z.string(),
-        duration: z.number().optional(),
-        fileSize: z.number().optional(),
-      }))
-      .mutation(async ({ input }) => {
-        await db.updateRecording(input.recordingId, {
-          s3Url: input.s3Url,
-          duration: input.duration,
-          fileSize: input.fileSize,
-          status: "ready",
-        });
-        return { success: true };
-      }),
-
     getBySession: publicProcedure
       .input(z.object({ sessionId: z.number() }))
       .query(async ({ input }) => {
@@ -419,24 +650,95 @@ export const appRouter = router({
       .query(async ({ input }) => {
         return db.getTranscriptionsBySession(input.sessionId);
       }),
+
+    getSegments: publicProcedure
+      .input(z.object({ transcriptionId: z.number() }))
+      .query(async ({ input }) => {
+        return db.getTranscriptSegments(input.transcriptionId);
+      }),
+
+    retry: protectedProcedure
+      .input(z.object({ transcriptionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const transcription = await db.getTranscriptionById(input.transcriptionId);
+        if (!transcription || transcription.status !== "failed" || !transcription.recordingId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Transcrição não pode ser refeita" });
+        }
+
+        const session = await db.getSessionById(transcription.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode refazer transcrições" });
+        }
+
+        const recording = await db.getRecordingById(transcription.recordingId);
+        if (!recording || recording.status !== "ready") {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Gravação não encontrada" });
+        }
+
+        await db.updateTranscription(transcription.id, { status: "processing" });
+        enqueueTranscription(recording, { ...transcription, status: "processing" });
+        return { success: true };
+      }),
+  }),
+
+  // ==================== LESSON NOTES ROUTES ====================
+  lessonNotes: router({
+    get: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver as notas da aula" });
+        }
+
+        return (await db.getLessonNotesBySession(input.sessionId)) ?? null;
+      }),
+
+    regenerate: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        if (!session) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Sessão não encontrada" });
+        }
+
+        const room = await db.getRoomById(session.roomId);
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode gerar notas da aula" });
+        }
+
+        const notes = await db.getLessonNotesBySession(input.sessionId);
+        if (notes?.status === "processing") {
+          throw new TRPCError({ code: "CONFLICT", message: "As notas desta aula já estão sendo geradas" });
+        }
+
+        await db.upsertLessonNotes(input.sessionId, { status: "processing" });
+        enqueueLessonNotes(input.sessionId);
+        return { success: true };
+      }),
   }),
 
   // ==================== LIVE CHAT ROUTES ====================
   liveChat: router({
-    sendMessage: publicProcedure
+    sendMessage: participantProcedure
       .input(z.object({
-        sessionId: z.number(),
-        participantId: z.number(),
-        senderName: z.string(),
         message: z.string().min(1).max(1000),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const { sessionId, participantId, name } = ctx.participant;
+
         const chatMessage = await db.addLiveChatMessage({
-          sessionId: input.sessionId,
-          participantId: input.participantId,
-          senderName: input.senderName,
+          sessionId,
+          participantId,
+          senderName: name,
           message: input.message,
         });
+
+        if (chatMessage) {
+          publishToSession(sessionId, SESSION_EVENTS.liveChat, chatMessage);
+        }
         return chatMessage;
       }),
 
@@ -453,8 +755,9 @@ export const appRouter = router({
       .input(z.object({
         sessionId: z.number(),
         title: z.string().optional(),
-        graphType: z.enum(["linear", "quadratic", "cubic", "trigonometric", "exponential", "custom"]),
-        equation: z.string(),
+        graphType: z.enum(GRAPH_TYPES),
+        expressions: z.array(graphExpressionInput).min(1).max(MAX_GRAPH_EXPRESSIONS),
+        parameters: z.array(graphParameterInput).optional(),
         config: z.string().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
@@ -468,19 +771,95 @@ export const appRouter = router({
           throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode criar gráficos" });
         }
 
+        // Students evaluate the expressions as sent, so they must parse here first
+        const kinds = input.expressions.map((expression, index) => {
+          try {
+            return parseGraphExpression(expression.source).kind;
+          } catch (error) {
+            if (error instanceof MathParseError) {
+              throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Expressão ${index + 1} inválida: ${formatMathError(error)}`,
+              });
+            }
+            throw error;
+          }
+        });
+        const spaceKinds = kinds.filter(kind => SPACE_KINDS.includes(kind));
+        if (spaceKinds.length > 0 && spaceKinds.length < kinds.length) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Um gráfico não pode misturar expressões 2D e 3D" });
+        }
+        const parameters = syncGraphParameters(input.parameters ?? [], getGraphParameterNames(input.expressions));
+
         const graph = await db.createInteractiveGraph({
           sessionId: input.sessionId,
           createdBy: ctx.user.id,
           title: input.title ?? "Gráfico",
           graphType: input.graphType,
-          equation: input.equation,
+          equation: input.expressions[0].source,
+          expressions: JSON.stringify(input.expressions),
+          parameters: JSON.stringify(parameters),
           config: input.config ?? null,
           isActive: true,
         });
 
+        if (graph) {
+          publishToSession(input.sessionId, SESSION_EVENTS.graph, { graphId: graph.id });
+        }
+
         return graph;
       }),
 
+    // Slider movements of the teacher, broadcast live to the students
+    setParameters: protectedProcedure
+      .input(z.object({
+        graphId: z.number(),
+        parameters: z.array(graphParameterInput),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const graph = await db.getGraphById(input.graphId);
+        if (!graph) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Gráfico não encontrado" });
+        }
+
+        const session = await db.getSessionById(graph.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode alterar os parâmetros" });
+        }
+
+        const parameters = syncGraphParameters(input.parameters, getGraphParameterNames(readGraphExpressions(graph)));
+        await db.updateGraph(graph.id, { parameters: JSON.stringify(parameters) });
+
+        publishToSession(graph.sessionId, SESSION_EVENTS.graphParameters, { graphId: graph.id, parameters });
+        return { parameters };
+      }),
+
+    // Camera of a 3D graph: the teacher rotates and zooms, students follow
+    setCamera: protectedProcedure
+      .input(z.object({
+        graphId: z.number(),
+        camera: graphCameraInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const graph = await db.getGraphById(input.graphId);
+        if (!graph) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Gráfico não encontrado" });
+        }
+
+        const session = await db.getSessionById(graph.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode mover a câmera" });
+        }
+
+        const camera = clampCamera(input.camera);
+        await db.updateGraph(graph.id, { camera: JSON.stringify(camera) });
+
+        publishToSession(graph.sessionId, SESSION_EVENTS.graphCamera, { graphId: graph.id, camera });
+        return { camera };
+      }),
+
     getBySession: publicProcedure
       .input(z.object({ sessionId: z.number() }))
       .query(async ({ input }) => {
@@ -500,13 +879,23 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         await db.updateGraph(input.graphId, { isActive: input.isActive });
+
+        const graph = await db.getGraphById(input.graphId);
+        if (graph) {
+          publishToSession(graph.sessionId, SESSION_EVENTS.graph, { graphId: graph.id });
+        }
         return { success: true };
       }),
 
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
+        const graph = await db.getGraphById(input.id);
         await db.deleteGraph(input.id);
+
+        if (graph) {
+          publishToSession(graph.sessionId, SESSION_EVENTS.graph, { graphId: null });
+        }
         return { success: true };
       }),
   }),
@@ -518,9 +907,17 @@ export const appRouter = router({
         sessionId: z.number(),
         question: z.string(),
         questionLatex: z.string().optional(),
-        correctAnswer: z.string(),
+        // Free-text questions: the answer and how to check it
+        correctAnswer: z.string().default(""),
+        checkMode: z.enum(ANSWER_CHECK_MODES).default("strict"),
+        tolerance: z.number().nonnegative().optional(),
+        toleranceType: z.enum(TOLERANCE_TYPES).default("absolute"),
         points: z.number().default(10),
-        timeLimit: z.number().optional(),
+        timeLimit: z.number().int().positive().optional(),
+        speedBonus: z.number().int().min(0).max(MAX_SPEED_BONUS).default(0),
+        streakBonus: z.boolean().default(false),
+        // Every other type of question, answer included
+        content: exerciseQuestionInput.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         const session = await db.getSessionById(input.sessionId);
@@ -533,6 +930,17 @@ export const appRouter = router({
           throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode criar exercícios" });
         }
 
+        const question: ExerciseQuestion = input.content
+          ?? { type: "text", correctAnswer: input.correctAnswer, checkMode: input.checkMode };
+        // The content was checked with its input; answers compared as math must parse as math
+        const error = question.type === "text" ? validateExerciseQuestion(question) : null;
+        if (error) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error });
+        }
+        if (input.speedBonus > 0 && !input.timeLimit) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O bônus de velocidade precisa de um tempo limite" });
+        }
+
         // Deactivate previous exercises
         await db.deactivateSessionExercises(input.sessionId);
 
@@ -541,124 +949,595 @@ export const appRouter = router({
           createdBy: ctx.user.id,
           question: input.question,
           questionLatex: input.questionLatex ?? null,
-          correctAnswer: input.correctAnswer,
-          points: input.points,
+          questionType: question.type,
+          content: question.type === "text" ? null : JSON.stringify(question),
+          correctAnswer: describeCorrectAnswer(question).slice(0, 255),
+          checkMode: input.checkMode,
+          tolerance: input.tolerance ?? null,
+          toleranceType: input.toleranceType,
+          points: questionPoints(question, input.points),
           timeLimit: input.timeLimit ?? null,
+          speedBonus: input.speedBonus,
+          streakBonus: input.streakBonus,
           isActive: true,
+          activatedAt: new Date(),
         });
 
+        if (exercise) {
+          publishToSession(input.sessionId, SESSION_EVENTS.exercise, { exerciseId: exercise.id });
+        }
+
         return exercise;
       }),
 
     getActive: publicProcedure
       .input(z.object({ sessionId: z.number() }))
       .query(async ({ input }) => {
-        return db.getActiveExercise(input.sessionId);
+        const exercise = await db.getActiveExercise(input.sessionId);
+
+        // Students see it too, so without its answer
+        return exercise && toPublicExercise(exercise);
       }),
 
     getBySession: publicProcedure
       .input(z.object({ sessionId: z.number() }))
       .query(async ({ input }) => {
-        return db.getExercisesBySession(input.sessionId);
+        // Public, so without the answers
+        const exercises = await db.getExercisesBySession(input.sessionId);
+        return exercises.map(exercise => toPublicExercise(exercise));
       }),
 
-    submitAnswer: publicProcedure
+    submitAnswer: participantProcedure
       .input(z.object({
         exerciseId: z.number(),
-        participantId: z.number(),
-        answer: z.string(),
+        answer: exerciseAnswerInput,
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const { participantId } = ctx.participant;
+
         const exercise = await db.getExerciseById(input.exerciseId);
-        if (!exercise || !exercise.isActive) {
+        if (!exercise || !exercise.isActive || exercise.sessionId !== ctx.participant.sessionId) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Exercício não encontrado ou não está ativo" });
         }
 
+        if (exercise.resultsRevealed) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O professor já revelou os resultados deste exercício" });
+        }
+
         // Check if already answered
-        const existingResponse = await db.getExerciseResponse(input.exerciseId, input.participantId);
+        const existingResponse = await db.getExerciseResponse(input.exerciseId, participantId);
         if (existingResponse) {
           throw new TRPCError({ code: "CONFLICT", message: "Você já respondeu este exercício" });
         }
 
-        // Check answer (case insensitive, trim whitespace)
-        const isCorrect = input.answer.trim().toLowerCase() === exercise.correctAnswer.trim().toLowerCase();
-        const pointsEarned = isCorrect ? exercise.points : 0;
+        // Timed by the server: the countdown on screen is only a display
+        const responseTime = Date.now() - (exercise.activatedAt ?? exercise.createdAt).getTime();
+        if (isLateAnswer(exercise.timeLimit, responseTime)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O tempo para responder este exercício acabou" });
+        }
+
+        const question = readExerciseQuestion(exercise);
+        const invalid = validateExerciseAnswer(question, input.answer);
+        if (invalid) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: invalid });
+        }
+        const graded = gradeExerciseAnswer(question, input.answer, exercise.points);
+        const { correct: isCorrect, reason, parts } = graded;
+        const previous = await db.getParticipantScore(exercise.sessionId, participantId);
+        const score = scoreAnswer(exercise, graded, responseTime, previous?.streak ?? 0);
 
         // Save response
         const response = await db.createExerciseResponse({
           exerciseId: input.exerciseId,
-          participantId: input.participantId,
-          answer: input.answer,
+          participantId,
+          answer: describeExerciseAnswer(question, input.answer).slice(0, 255),
+          answerData: JSON.stringify(input.answer),
           isCorrect,
-          pointsEarned,
+          checkReason: reason.slice(0, 255),
+          partResults: parts ? JSON.stringify(parts) : null,
+          pointsEarned: score.pointsEarned,
+          bonusPoints: score.bonusPoints,
+          responseTime,
         });
 
         // Update participant score
-        await db.updateParticipantScore(exercise.sessionId, input.participantId, pointsEarned, isCorrect);
+        await db.updateParticipantScore(exercise.sessionId, participantId, score.pointsEarned, isCorrect, responseTime, score.streak);
+        publishToSession(exercise.sessionId, SESSION_EVENTS.score, { participantId });
 
         return {
           ...response,
           correctAnswer: exercise.correctAnswer,
+          parts: parts ?? null,
+          streak: score.streak,
+          multiplier: score.multiplier,
         };
       }),
 
-    endExercise: protectedProcedure
+    // Every answer to the exercise, with why it was judged right or wrong
+    getResponses: protectedProcedure
       .input(z.object({ exerciseId: z.number() }))
-      .mutation(async ({ input }) => {
-        await db.updateExercise(input.exerciseId, { isActive: false });
-        return { success: true };
+      .query(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver as respostas" });
+        }
+
+        return db.getExerciseResponsesWithNames(input.exerciseId);
       }),
-  }),
 
-  // ==================== SCORES/RANKING ROUTES ====================
-  score: router({
-    getRanking: publicProcedure
-      .input(z.object({ sessionId: z.number() }))
-      .query(async ({ input }) => {
-        return db.getSessionRanking(input.sessionId);
+    // The question with its answer and how the class answered it, by type
+    getResults: protectedProcedure
+      .input(z.object({ exerciseId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver os resultados" });
+        }
+
+        const responses = await db.getResponsesByExercise(input.exerciseId);
+        return {
+          question: readExerciseQuestion(exercise),
+          correctAnswer: exercise.correctAnswer,
+          summary: summarizeResponses(exercise, responses),
+        };
       }),
 
-    getMyScore: publicProcedure
-      .input(z.object({
-        sessionId: z.number(),
-        participantId: z.number(),
-      }))
-      .query(async ({ input }) => {
-        return db.getParticipantScore(input.sessionId, input.participantId);
+    // Who has answered, how the answers spread and who is still missing, while the exercise is open
+    getLiveStats: protectedProcedure
+      .input(z.object({ exerciseId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver os resultados" });
+        }
+
+        const [responses, participants] = await Promise.all([
+          db.getResponsesByExercise(input.exerciseId),
+          db.getActiveParticipantsBySession(exercise.sessionId),
+        ]);
+        return {
+          ...analyzeExercise(exercise, responses, participants),
+          resultsRevealed: exercise.resultsRevealed,
+        };
       }),
-  }),
 
-  // ==================== DOCUMENT ROUTES ====================
-  document: router({
-    upload: protectedProcedure
-      .input(z.object({
-        roomId: z.number(),
-        title: z.string(),
-        fileData: z.string(), // Base64 encoded
-        mimeType: z.string(),
-        fileSize: z.number(),
-      }))
+    // Shows the class how it answered; from then on no more answers are taken
+    revealResults: protectedProcedure
+      .input(z.object({ exerciseId: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const room = await db.getRoomById(input.roomId);
-        if (!room || room.hostId !== ctx.user.id) {
-          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode fazer upload de documentos" });
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode revelar os resultados" });
         }
 
-        const s3Key = `documents/${room.slug}/${nanoid()}.pdf`;
-        const fileBuffer = Buffer.from(input.fileData, "base64");
-        
-        const { url } = await storagePut(s3Key, fileBuffer, input.mimeType);
+        // Worked out once: every student asks for it
+        if (!exercise.resultsRevealed) {
+          const responses = await db.getResponsesByExercise(exercise.id);
+          const results = revealedResults(analyzeExercise(exercise, responses, []));
+          await db.updateExercise(exercise.id, { resultsRevealed: true, revealedResults: JSON.stringify(results) });
+        }
+        publishToSession(exercise.sessionId, SESSION_EVENTS.exercise, { exerciseId: exercise.id });
+        return { success: true };
+      }),
 
-        const document = await db.createDocument({
-          roomId: input.roomId,
-          uploadedBy: ctx.user.id,
-          title: input.title,
-          s3Key,
-          s3Url: url,
-          fileSize: input.fileSize,
+    // The revealed spread of the answers, without names, or null until the teacher reveals it
+    getRevealedResults: publicProcedure
+      .input(z.object({ exerciseId: z.number() }))
+      .query(async ({ input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        if (!exercise?.resultsRevealed || !exercise.revealedResults) return null;
+        return JSON.parse(exercise.revealedResults) as RevealedResults;
+      }),
+
+    endExercise: protectedProcedure
+      .input(z.object({ exerciseId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !session || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode encerrar o exercício" });
+        }
+
+        // Only ending the active exercise moves the queue on
+        if (await db.endActiveExercise(exercise.id)) {
+          const next = session.autoAdvance ? await db.activateNextQueuedExercise(exercise.sessionId) : undefined;
+          publishToSession(exercise.sessionId, SESSION_EVENTS.exercise, { exerciseId: next?.id ?? null });
+        }
+        return { success: true };
+      }),
+
+    // Sent by the teacher's screen when the time is up: a session that advances by itself moves on to the next in the queue
+    timeUp: protectedProcedure
+      .input(z.object({ exerciseId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !session || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode avançar os exercícios" });
+        }
+
+        // Not before no answer can count any more
+        const elapsed = Date.now() - (exercise.activatedAt ?? exercise.createdAt).getTime();
+        if (!session.autoAdvance || !exercise.timeLimit || !isLateAnswer(exercise.timeLimit, elapsed)) {
+          return { advanced: false };
+        }
+
+        if (!(await db.endActiveExercise(exercise.id))) return { advanced: false };
+        const next = await db.activateNextQueuedExercise(exercise.sessionId);
+        publishToSession(exercise.sessionId, SESSION_EVENTS.exercise, { exerciseId: next?.id ?? null });
+        return { advanced: true };
+      }),
+
+    // Exercises waiting to be asked, in order
+    getQueue: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!session || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode ver a fila de exercícios" });
+        }
+
+        const queued = await db.getQueuedExercises(input.sessionId);
+        return {
+          autoAdvance: session.autoAdvance,
+          exercises: queued.map(exercise => ({
+            id: exercise.id,
+            question: exercise.question,
+            questionType: exercise.questionType,
+            points: exercise.points,
+            timeLimit: exercise.timeLimit,
+          })),
+        };
+      }),
+
+    // Ends the active exercise and starts the next in the queue, if any
+    next: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode avançar os exercícios" });
+        }
+
+        await db.deactivateSessionExercises(input.sessionId);
+        const next = await db.activateNextQueuedExercise(input.sessionId);
+        publishToSession(input.sessionId, SESSION_EVENTS.exercise, { exerciseId: next?.id ?? null });
+        return next ?? null;
+      }),
+
+    setAutoAdvance: protectedProcedure
+      .input(z.object({ sessionId: z.number(), autoAdvance: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode avançar os exercícios" });
+        }
+
+        await db.updateSession(input.sessionId, { autoAdvance: input.autoAdvance });
+        return { success: true };
+      }),
+
+    clearQueue: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode esvaziar a fila de exercícios" });
+        }
+
+        await db.deleteQueuedExercises(input.sessionId);
+        return { success: true };
+      }),
+  }),
+
+  // ==================== SCORES/RANKING ROUTES ====================
+  score: router({
+    getRanking: publicProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(async ({ input }) => {
+        return db.getSessionRanking(input.sessionId);
+      }),
+
+    getMyScore: participantProcedure
+      .query(async ({ ctx }) => {
+        return db.getParticipantScore(ctx.participant.sessionId, ctx.participant.participantId);
+      }),
+  }),
+
+  // ==================== QUESTION BANK ROUTES ====================
+  bank: router({
+    list: protectedProcedure
+      .input(z.object({
+        topic: z.string().optional(),
+        difficulty: z.enum(QUESTION_DIFFICULTIES).optional(),
+        grade: z.string().optional(),
+        search: z.string().max(100).optional(),
+      }).optional())
+      .query(async ({ ctx, input }) => {
+        return db.getBankQuestions(ctx.user.id, input);
+      }),
+
+    getTags: protectedProcedure.query(async ({ ctx }) => {
+      return db.getBankTags(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(bankItemInput)
+      .mutation(async ({ ctx, input }) => {
+        return db.createBankQuestion({ ownerId: ctx.user.id, ...bankQuestionFields(input) });
+      }),
+
+    update: protectedProcedure
+      .input(z.object({ id: z.number(), item: bankItemInput }))
+      .mutation(async ({ ctx, input }) => {
+        const question = await db.getBankQuestionById(input.id);
+        if (!question || question.ownerId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Questão não encontrada" });
+        }
+
+        await db.updateBankQuestion(input.id, bankQuestionFields(input.item));
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const question = await db.getBankQuestionById(input.id);
+        if (!question || question.ownerId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Questão não encontrada" });
+        }
+
+        await db.deleteBankQuestion(input.id);
+
+        // Sets keep the rest of their questions
+        const sets = await db.getQuizSetsByOwner(ctx.user.id);
+        for (const set of sets) {
+          const questionIds = JSON.parse(set.questionIds) as number[];
+          if (questionIds.includes(input.id)) {
+            await db.updateQuizSet(set.id, { questionIds: JSON.stringify(questionIds.filter(id => id !== input.id)) });
+          }
+        }
+        return { success: true };
+      }),
+
+    // Keeps an exercise asked in a session, to ask it again in any room
+    saveExercise: protectedProcedure
+      .input(z.object({ exerciseId: z.number(), tags: questionTagsInput.optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const exercise = await db.getExerciseById(input.exerciseId);
+        const session = exercise ? await db.getSessionById(exercise.sessionId) : undefined;
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!exercise || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode guardar o exercício no banco" });
+        }
+
+        return db.createBankQuestion({ ownerId: ctx.user.id, ...bankQuestionFields(toBankItem(exercise, input.tags)) });
+      }),
+
+    listSets: protectedProcedure.query(async ({ ctx }) => {
+      const sets = await db.getQuizSetsByOwner(ctx.user.id);
+      return sets.map(set => ({ ...set, questionIds: JSON.parse(set.questionIds) as number[] }));
+    }),
+
+    // Creates the set, or replaces it when given its id
+    saveSet: protectedProcedure
+      .input(z.object({
+        id: z.number().optional(),
+        title: z.string().trim().min(1).max(255),
+        description: z.string().trim().max(2000).optional(),
+        questionIds: z.array(z.number()).min(1).max(MAX_SET_QUESTIONS),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const questionIds = Array.from(new Set(input.questionIds));
+        const questions = await db.getBankQuestionsByIds(ctx.user.id, questionIds);
+        if (questions.length !== questionIds.length) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Questão não encontrada no banco" });
+        }
+
+        const data = { title: input.title, description: input.description || null, questionIds: JSON.stringify(questionIds) };
+        if (input.id === undefined) {
+          return db.createQuizSet({ ownerId: ctx.user.id, ...data });
+        }
+
+        const set = await db.getQuizSetById(input.id);
+        if (!set || set.ownerId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Conjunto não encontrado" });
+        }
+        await db.updateQuizSet(input.id, data);
+        return db.getQuizSetById(input.id);
+      }),
+
+    deleteSet: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const set = await db.getQuizSetById(input.id);
+        if (!set || set.ownerId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Conjunto não encontrado" });
+        }
+
+        await db.deleteQuizSet(input.id);
+        return { success: true };
+      }),
+
+    // A code other teachers can copy the set with; sharing again keeps the same code
+    shareSet: protectedProcedure
+      .input(z.object({ id: z.number(), shared: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const set = await db.getQuizSetById(input.id);
+        if (!set || set.ownerId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Conjunto não encontrado" });
+        }
+
+        const shareCode = input.shared ? (set.shareCode ?? nanoid(10)) : null;
+        await db.updateQuizSet(input.id, { shareCode });
+        return { shareCode };
+      }),
+
+    // Copies a shared set, questions and all, into the teacher's own bank
+    copySharedSet: protectedProcedure
+      .input(z.object({ shareCode: z.string().trim().min(1).max(16) }))
+      .mutation(async ({ ctx, input }) => {
+        const set = await db.getQuizSetByShareCode(input.shareCode);
+        if (!set) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Nenhum conjunto compartilhado com este código" });
+        }
+
+        const questions = await db.getBankQuestionsByIds(set.ownerId, JSON.parse(set.questionIds) as number[]);
+        const questionIds: number[] = [];
+        for (const question of questions) {
+          const copy = await db.createBankQuestion({ ownerId: ctx.user.id, ...bankQuestionFields(toBankItem(question)) });
+          if (copy) questionIds.push(copy.id);
+        }
+        return db.createQuizSet({
+          ownerId: ctx.user.id,
+          title: set.title,
+          description: set.description,
+          questionIds: JSON.stringify(questionIds),
         });
+      }),
+
+    // Queues the questions into the session, starting the first if nothing is being asked
+    queue: protectedProcedure
+      .input(z.object({
+        sessionId: z.number(),
+        questionIds: z.array(z.number()).min(1).max(MAX_SET_QUESTIONS),
+        autoAdvance: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode aplicar questões" });
+        }
+
+        const questions = await db.getBankQuestionsByIds(ctx.user.id, input.questionIds);
+        if (questions.length === 0) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Questão não encontrada no banco" });
+        }
+
+        const queued = await db.getQueuedExercises(input.sessionId);
+        const start = queued.reduce((last, exercise) => Math.max(last, exercise.queuePosition ?? 0), 0) + 1;
+        await db.createQueuedExercises(
+          questions.map((question, index) => queuedExercise(question, input.sessionId, ctx.user.id, start + index))
+        );
+        if (input.autoAdvance !== undefined) {
+          await db.updateSession(input.sessionId, { autoAdvance: input.autoAdvance });
+        }
+
+        let started = false;
+        if (!(await db.getActiveExercise(input.sessionId))) {
+          const next = await db.activateNextQueuedExercise(input.sessionId);
+          if (next) {
+            started = true;
+            publishToSession(input.sessionId, SESSION_EVENTS.exercise, { exerciseId: next.id });
+          }
+        }
+        return { queued: questions.length, started };
+      }),
+
+    export: protectedProcedure
+      .input(z.object({
+        format: z.enum(QUIZ_EXPORT_FORMATS),
+        // A set, or questions of the bank
+        setId: z.number().optional(),
+        questionIds: z.array(z.number()).max(MAX_SET_QUESTIONS).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        let title = "Banco de questões";
+        let questionIds = input.questionIds ?? [];
+        if (input.setId !== undefined) {
+          const set = await db.getQuizSetById(input.setId);
+          if (!set || set.ownerId !== ctx.user.id) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Conjunto não encontrado" });
+          }
+          title = set.title;
+          questionIds = JSON.parse(set.questionIds) as number[];
+        }
+
+        const questions = await db.getBankQuestionsByIds(ctx.user.id, questionIds);
+        if (questions.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Escolha as questões a exportar" });
+        }
+        return exportQuiz(input.format, title, questions.map(question => toBankItem(question)));
+      }),
+
+    // Adds the questions of a file to the bank, as a new set unless told otherwise
+    import: protectedProcedure
+      .input(z.object({
+        format: z.enum(QUIZ_EXPORT_FORMATS),
+        content: z.string().min(1).max(MAX_IMPORT_SIZE),
+        asSet: z.boolean().default(true),
+        title: z.string().trim().max(255).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        let parsed: ReturnType<typeof parseQuizImport>;
+        try {
+          parsed = parseQuizImport(input.format, input.content);
+        } catch (error) {
+          if (error instanceof QuizImportError) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+          }
+          throw error;
+        }
+
+        const questionIds: number[] = [];
+        for (const item of parsed.items) {
+          const question = await db.createBankQuestion({ ownerId: ctx.user.id, ...bankQuestionFields(item) });
+          if (question) questionIds.push(question.id);
+        }
+
+        const set = input.asSet && questionIds.length > 0
+          ? await db.createQuizSet({
+            ownerId: ctx.user.id,
+            title: input.title || parsed.title || `Importado em ${new Date().toLocaleDateString("pt-BR")}`,
+            questionIds: JSON.stringify(questionIds),
+          })
+          : undefined;
+        return { imported: questionIds.length, warnings: parsed.warnings, setId: set?.id ?? null };
+      }),
+  }),
+
+  // ==================== DOCUMENT ROUTES ====================
+  document: router({
+    // Index again a document that failed or was uploaded before indexing existed
+    reindex: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const document = await db.getDocumentById(input.id);
+        const room = document ? await db.getRoomById(document.roomId) : undefined;
+        if (!document || !room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode indexar documentos" });
+        }
+        if (document.indexStatus === "processing" || document.indexStatus === "ready") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O documento já está indexado" });
+        }
 
-        return document;
+        await db.updateDocument(document.id, { indexStatus: "processing" });
+        enqueueDocumentIndexing({ ...document, indexStatus: "processing" });
+        return { success: true };
+      }),
+
+    // Pages of the room's documents containing every word of the query
+    search: publicProcedure
+      .input(z.object({ roomId: z.number(), query: z.string().max(200) }))
+      .query(async ({ input }) => {
+        const terms = searchTerms(input.query);
+        const matches = await db.searchDocumentPages(input.roomId, terms, MAX_SEARCH_RESULTS);
+        return matches.map(({ text, ...match }) => ({ ...match, snippet: searchSnippet(text, terms) }));
       }),
 
     getByRoom: publicProcedure
@@ -707,6 +1586,9 @@ export const appRouter = router({
         currentPage: z.number().min(1).optional(),
         totalPages: z.number().min(1).optional(),
         zoomLevel: z.number().min(25).max(400).optional(),
+        scrollX: z.number().min(0).max(1).optional(),
+        scrollY: z.number().min(0).max(1).optional(),
+        locked: z.boolean().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         // Verify user is the teacher of this session
@@ -725,9 +1607,14 @@ export const appRouter = router({
           currentPage: input.currentPage,
           totalPages: input.totalPages,
           zoomLevel: input.zoomLevel,
+          scrollX: input.scrollX,
+          scrollY: input.scrollY,
+          locked: input.locked,
           updatedBy: ctx.user.id,
         });
 
+        publishToSession(input.sessionId, SESSION_EVENTS.pdfSync, state ?? null);
+
         return state;
       }),
 
@@ -746,8 +1633,259 @@ export const appRouter = router({
         }
 
         await db.clearPdfSyncState(input.sessionId);
+        publishToSession(input.sessionId, SESSION_EVENTS.pdfSync, null);
+        return { success: true };
+      }),
+  }),
+
+  // ==================== PDF ANNOTATION ROUTES ====================
+  pdfAnnotation: router({
+    // Annotations to redraw over a document, for the teacher and late joiners
+    get: publicProcedure
+      .input(z.object({ sessionId: z.number(), documentId: z.number() }))
+      .query(async ({ input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Sessão não encontrada" });
+        }
+
+        return {
+          keep: room.keepPdfAnnotations,
+          annotations: await getVisiblePdfAnnotations(room, input.sessionId, input.documentId),
+        };
+      }),
+
+    add: protectedProcedure
+      .input(pdfAnnotationInput)
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode anotar o PDF" });
+        }
+
+        const document = await db.getDocumentById(input.documentId);
+        if (!document || document.roomId !== room.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Documento não encontrado" });
+        }
+        if (document.pageCount && input.page > document.pageCount) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Página não encontrada" });
+        }
+
+        const annotation = await db.addPdfAnnotation({
+          roomId: room.id,
+          sessionId: input.sessionId,
+          documentId: document.id,
+          page: input.page,
+          tool: input.tool,
+          data: JSON.stringify(input.data),
+        });
+
+        if (annotation) {
+          publishToSession(input.sessionId, SESSION_EVENTS.pdfAnnotation, annotation);
+        }
+        return annotation;
+      }),
+
+    // Eraser and undo
+    erase: protectedProcedure
+      .input(z.object({ sessionId: z.number(), documentId: z.number(), ids: z.array(z.number()).min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode apagar anotações" });
+        }
+
+        const document = await db.getDocumentById(input.documentId);
+        if (!document || document.roomId !== room.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Documento não encontrado" });
+        }
+
+        await db.deletePdfAnnotations(document.id, input.ids, room.id, room.keepPdfAnnotations ? undefined : input.sessionId);
+        publishToSession(input.sessionId, SESSION_EVENTS.pdfAnnotationErase, { documentId: input.documentId, ids: input.ids });
+        return { success: true };
+      }),
+
+    // Clears what is shown on the page: this session's annotations, or all of them when the room keeps them
+    clearPage: protectedProcedure
+      .input(z.object({ sessionId: z.number(), documentId: z.number(), page: z.number().int().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode apagar anotações" });
+        }
+
+        const document = await db.getDocumentById(input.documentId);
+        if (!document || document.roomId !== room.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Documento não encontrado" });
+        }
+
+        await db.clearPdfAnnotationPage(document.id, input.page, room.id, room.keepPdfAnnotations ? undefined : input.sessionId);
+        publishToSession(input.sessionId, SESSION_EVENTS.pdfAnnotations, { documentId: input.documentId });
         return { success: true };
       }),
+
+    // Whether annotations carry over to later sessions of the room
+    setKeep: protectedProcedure
+      .input(z.object({ roomId: z.number(), keep: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getRoomById(input.roomId);
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode alterar as anotações da sala" });
+        }
+
+        await db.updateRoom(room.id, { keepPdfAnnotations: input.keep });
+
+        const activeSession = await db.getActiveSessionByRoom(room.id);
+        if (activeSession) {
+          publishToSession(activeSession.id, SESSION_EVENTS.pdfAnnotations, { documentId: null });
+        }
+        return { success: true };
+      }),
+
+    // Flattens the visible annotations into a new PDF of the room
+    export: protectedProcedure
+      .input(z.object({ sessionId: z.number(), documentId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode exportar o PDF anotado" });
+        }
+
+        const document = await db.getDocumentById(input.documentId);
+        if (!document || document.roomId !== room.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Documento não encontrado" });
+        }
+
+        const annotations = await getVisiblePdfAnnotations(room, input.sessionId, document.id);
+        if (annotations.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O documento não tem anotações" });
+        }
+
+        const exported = await exportAnnotatedDocument(room, document, annotations, ctx.user.id);
+        if (!exported) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Falha ao exportar o PDF" });
+        }
+        return exported;
+      }),
+  }),
+
+  // ==================== WHITEBOARD ROUTES ====================
+  board: router({
+    // Everything a late joiner needs to redraw the board
+    get: publicProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(async ({ input }) => {
+        const [board, strokes] = await Promise.all([
+          db.getWhiteboard(input.sessionId),
+          db.getWhiteboardStrokes(input.sessionId),
+        ]);
+        return {
+          pageCount: board?.pageCount ?? 1,
+          currentPage: board?.currentPage ?? 1,
+          drawers: readBoardDrawers(board),
+          strokes,
+        };
+      }),
+
+    addStroke: participantProcedure
+      .input(boardStrokeInput)
+      .mutation(async ({ ctx, input }) => {
+        const { sessionId, participantId } = ctx.participant;
+        if (!(await canDrawOnBoard(ctx.participant))) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "O professor ainda não liberou o quadro para você" });
+        }
+
+        const board = await db.getWhiteboard(sessionId);
+        if (input.page > (board?.pageCount ?? 1)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Página não encontrada" });
+        }
+
+        const stroke = await db.addWhiteboardStroke({
+          sessionId,
+          participantId,
+          page: input.page,
+          tool: input.tool,
+          data: JSON.stringify(input.data),
+        });
+
+        if (stroke) {
+          publishToSession(sessionId, SESSION_EVENTS.boardStroke, stroke);
+        }
+        return stroke;
+      }),
+
+    // Eraser and undo: anyone who can draw can erase any stroke, as on a real board
+    erase: participantProcedure
+      .input(z.object({ ids: z.array(z.number()).min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        const { sessionId } = ctx.participant;
+        if (!(await canDrawOnBoard(ctx.participant))) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "O professor ainda não liberou o quadro para você" });
+        }
+
+        await db.deleteWhiteboardStrokes(sessionId, input.ids);
+        publishToSession(sessionId, SESSION_EVENTS.boardErase, { ids: input.ids });
+        return { success: true };
+      }),
+
+    // Page shown to everyone; one past the last page adds a new one
+    setPage: protectedProcedure
+      .input(z.object({ sessionId: z.number(), page: z.number().int().min(1).max(MAX_BOARD_PAGES) }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode trocar a página do quadro" });
+        }
+
+        const board = await db.getWhiteboard(input.sessionId);
+        const pageCount = board?.pageCount ?? 1;
+        if (input.page > pageCount + 1) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Página não encontrada" });
+        }
+
+        await db.upsertWhiteboard(input.sessionId, {
+          currentPage: input.page,
+          pageCount: Math.max(pageCount, input.page),
+        });
+        publishToSession(input.sessionId, SESSION_EVENTS.board, { sessionId: input.sessionId });
+        return { success: true };
+      }),
+
+    clearPage: protectedProcedure
+      .input(z.object({ sessionId: z.number(), page: z.number().int().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode limpar o quadro" });
+        }
+
+        await db.clearWhiteboardPage(input.sessionId, input.page);
+        publishToSession(input.sessionId, SESSION_EVENTS.board, { sessionId: input.sessionId });
+        return { success: true };
+      }),
+
+    // Students allowed to draw besides the teacher
+    setDrawers: protectedProcedure
+      .input(z.object({ sessionId: z.number(), participantIds: z.array(z.number()).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        const session = await db.getSessionById(input.sessionId);
+        const room = session ? await db.getRoomById(session.roomId) : undefined;
+        if (!room || room.hostId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Apenas o professor pode liberar o quadro" });
+        }
+
+        const drawers = Array.from(new Set(input.participantIds));
+        await db.upsertWhiteboard(input.sessionId, { drawers: JSON.stringify(drawers) });
+        publishToSession(input.sessionId, SESSION_EVENTS.board, { sessionId: input.sessionId });
+        return { drawers };
+      }),
   }),
 
   // ==================== DAILY.CO VIDEO ROUTES ====================
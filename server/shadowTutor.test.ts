@@ -6,15 +6,72 @@ import type { TrpcContext } from "./_core/context";
 vi.mock("./db", () => ({
   addChatMessage: vi.fn(),
   getChatMessagesByParticipant: vi.fn(),
+  getChatMessageById: vi.fn(),
+  getSessionById: vi.fn().mockResolvedValue({ id: 1, roomId: 3, status: "active", tutorPolicy: null }),
+  getParticipantById: vi.fn().mockResolvedValue({ id: 1, sessionId: 1, leftAt: null }),
+  getRoomById: vi.fn(),
+  getActiveExercise: vi.fn(),
+  getActiveGraphBySession: vi.fn(),
+  getPdfSyncState: vi.fn(),
+  getDocumentById: vi.fn(),
+  getRecentTranscriptSegments: vi.fn().mockResolvedValue([]),
+  getActiveSessionByRoom: vi.fn(),
+  updateRoom: vi.fn(),
+  updateSession: vi.fn(),
+  addTutorPolicyLog: vi.fn(),
+  getChatMessagesBySession: vi.fn(),
+  getParticipantsBySession: vi.fn(),
+  addLiveChatMessage: vi.fn(),
+}));
+
+// Mock PDF text extraction
+vi.mock("./pdfText", () => ({
+  getDocumentPageText: vi.fn(),
 }));
 
 // Mock LLM
 vi.mock("./_core/llm", () => ({
   invokeLLM: vi.fn(),
+  streamLLM: vi.fn(),
 }));
 
 import * as db from "./db";
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM, streamLLM } from "./_core/llm";
+import { ENV } from "./_core/env";
+import { signParticipantToken } from "./_core/participantToken";
+import { getDocumentPageText } from "./pdfText";
+import { applyTokenBudget, estimateTokens, type TutorContextSection } from "./tutorContext";
+import type { TutorPolicy } from "@shared/tutorPolicy";
+import { registerShadowTutorRoutes } from "./shadowTutor";
+import { EventEmitter } from "events";
+import type { Express, Request, Response } from "express";
+
+ENV.cookieSecret = "test-secret";
+
+function participantTokenFor(
+  participantId: number,
+  sessionId: number = 1,
+  role: "teacher" | "student" = "student"
+) {
+  return signParticipantToken({ sessionId, participantId, role, name: "Aluno" });
+}
+
+function createAuthContext(userId: number = 1): TrpcContext {
+  return {
+    ...createPublicContext(),
+    user: {
+      id: userId,
+      openId: `user-${userId}`,
+      email: `user${userId}@example.com`,
+      name: `User ${userId}`,
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+  };
+}
 
 function createPublicContext(): TrpcContext {
   return {
@@ -73,8 +130,7 @@ describe("shadowTutor.chat", () => {
     const caller = appRouter.createCaller(ctx);
 
     const result = await caller.shadowTutor.chat({
-      sessionId: 1,
-      participantId: 1,
+      participantToken: await participantTokenFor(1),
       message: "Como resolver x² + 2x + 1 = 0?",
     });
 
@@ -127,8 +183,7 @@ describe("shadowTutor.chat", () => {
     const caller = appRouter.createCaller(ctx);
 
     await caller.shadowTutor.chat({
-      sessionId: 1,
-      participantId: 1,
+      participantToken: await participantTokenFor(1),
       message: "E integral?",
     });
 
@@ -162,8 +217,7 @@ describe("shadowTutor.chat", () => {
 
     await expect(
       caller.shadowTutor.chat({
-        sessionId: 1,
-        participantId: 1,
+        participantToken: await participantTokenFor(1),
         message: "Pergunta",
       })
     ).rejects.toThrow("Erro ao processar sua pergunta");
@@ -200,7 +254,7 @@ describe("shadowTutor.getHistory", () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
 
-    const result = await caller.shadowTutor.getHistory({ participantId: 1 });
+    const result = await caller.shadowTutor.getHistory({ participantToken: await participantTokenFor(1) });
 
     expect(result).toHaveLength(2);
     expect(result[0].content).toBe("Pergunta 1");
@@ -213,8 +267,387 @@ describe("shadowTutor.getHistory", () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
 
-    const result = await caller.shadowTutor.getHistory({ participantId: 999 });
+    const result = await caller.shadowTutor.getHistory({ participantToken: await participantTokenFor(999) });
 
     expect(result).toHaveLength(0);
   });
+
+  it("rejects requests without a valid participant token", async () => {
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.shadowTutor.getHistory({ participantToken: "forged" })
+    ).rejects.toThrow("Invalid participant token");
+    expect(db.getChatMessagesByParticipant).not.toHaveBeenCalled();
+  });
+
+  it("reads the history of the participant in the token", async () => {
+    vi.mocked(db.getChatMessagesByParticipant).mockResolvedValue([]);
+
+    const ctx = createPublicContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.shadowTutor.getHistory({ participantToken: await participantTokenFor(42) });
+
+    expect(db.getChatMessagesByParticipant).toHaveBeenCalledWith(42);
+  });
+});
+
+describe("shadowTutor lesson context", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getChatMessagesByParticipant).mockResolvedValue([]);
+    vi.mocked(invokeLLM).mockResolvedValue({
+      choices: [{ message: { content: "Resposta" } }],
+    } as any);
+  });
+
+  it("injects the active exercise, graph, PDF page and transcript without the answer", async () => {
+    vi.mocked(db.getActiveExercise).mockResolvedValue({
+      id: 1, sessionId: 1, createdBy: 1, question: "Quanto é a derivada de x^3?", questionLatex: null,
+      correctAnswer: "3x^2", points: 10, timeLimit: null, isActive: true, createdAt: new Date(),
+    });
+    vi.mocked(db.getActiveGraphBySession).mockResolvedValue({
+      id: 1, sessionId: 1, createdBy: 1, title: "Cúbica", graphType: "cubic", equation: "y = x^3",
+      config: null, isActive: true, createdAt: new Date(), updatedAt: new Date(),
+    });
+    vi.mocked(db.getPdfSyncState).mockResolvedValue({
+      id: 1, sessionId: 1, documentId: 4, currentPage: 2, totalPages: 10, zoomLevel: 100, updatedBy: 1, updatedAt: new Date(),
+    });
+    vi.mocked(db.getDocumentById).mockResolvedValue({ id: 4, title: "Apostila" } as any);
+    vi.mocked(getDocumentPageText).mockResolvedValue("Regra da potência: d/dx x^n = n x^(n-1)");
+    vi.mocked(db.getRecentTranscriptSegments).mockResolvedValue([
+      { id: 1, transcriptionId: 1, recordingId: 1, startMs: 65000, endMs: 70000, text: "Vamos derivar polinômios.", confidence: 0.9, createdAt: new Date() },
+    ]);
+
+    const caller = appRouter.createCaller(createPublicContext());
+    await caller.shadowTutor.chat({
+      participantToken: await participantTokenFor(1),
+      message: "Não entendi",
+    });
+
+    const systemPrompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain("Quanto é a derivada de x^3?");
+    expect(systemPrompt).not.toContain("3x^2");
+    expect(systemPrompt).toContain("Cúbica: y = x^3");
+    expect(getDocumentPageText).toHaveBeenCalledWith(expect.objectContaining({ id: 4 }), 2);
+    expect(systemPrompt).toContain("Apostila - página 2");
+    expect(systemPrompt).toContain("[01:05] Vamos derivar polinômios.");
+
+    // The injected context is stored with the answer
+    const stored = vi.mocked(db.addChatMessage).mock.calls[1][0];
+    expect(stored.role).toBe("assistant");
+    expect(JSON.parse(stored.context!)).toHaveLength(4);
+  });
+
+  it("shows the injected context of an answer to the host only", async () => {
+    const context: TutorContextSection[] = [
+      { kind: "graph", label: "Gráfico em exibição", content: "y = x", truncated: false },
+    ];
+    const answer = { id: 2, sessionId: 1, participantId: 1, role: "assistant" as const, content: "Resposta", context: JSON.stringify(context), createdAt: new Date() };
+    vi.mocked(db.getChatMessagesByParticipant).mockResolvedValue([answer]);
+    vi.mocked(db.getChatMessageById).mockResolvedValue(answer);
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 3, status: "active", tutorPolicy: null } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 3, hostId: 1, tutorPolicy: "full" } as any);
+
+    const history = await appRouter.createCaller(createPublicContext())
+      .shadowTutor.getHistory({ participantToken: await participantTokenFor(1) });
+    expect(history[0]).not.toHaveProperty("context");
+
+    expect(await appRouter.createCaller(createAuthContext(1)).shadowTutor.getAnswerContext({ messageId: 2 })).toEqual(context);
+    await expect(appRouter.createCaller(createAuthContext(2)).shadowTutor.getAnswerContext({ messageId: 2 }))
+      .rejects.toThrow("Apenas o professor pode ver o contexto das respostas");
+  });
+
+  it("keeps the highest priority sections within the token budget", () => {
+    const sections: TutorContextSection[] = [
+      { kind: "exercise", label: "Exercício", content: "a".repeat(40), truncated: false },
+      { kind: "pdf", label: "PDF", content: "b".repeat(400), truncated: false },
+      { kind: "transcript", label: "Transcrição", content: "linha antiga\nlinha nova", truncated: false },
+    ];
+
+    const result = applyTokenBudget(sections, 30);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].truncated).toBe(false);
+    expect(result[1].kind).toBe("pdf");
+    expect(result[1].truncated).toBe(true);
+    expect(estimateTokens(result[0].content) + estimateTokens(result[1].content)).toBeLessThanOrEqual(30);
+  });
+
+  it("keeps the most recent transcript lines when truncating", () => {
+    const result = applyTokenBudget([
+      { kind: "transcript", label: "Transcrição", content: "linha antiga\nlinha nova", truncated: false },
+    ], 3);
+
+    expect(result[0].content).toBe("linha nova");
+    expect(result[0].truncated).toBe(true);
+  });
+});
+
+describe("shadowTutor policies", () => {
+  function mockPolicies(roomPolicy: TutorPolicy, sessionPolicy: TutorPolicy | null = null) {
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 3, status: "active", tutorPolicy: sessionPolicy } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 3, hostId: 1, tutorPolicy: roomPolicy } as any);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getActiveExercise).mockResolvedValue(undefined);
+    vi.mocked(db.getActiveGraphBySession).mockResolvedValue(undefined);
+    vi.mocked(db.getPdfSyncState).mockResolvedValue(undefined);
+    vi.mocked(db.getRecentTranscriptSegments).mockResolvedValue([]);
+    vi.mocked(db.getChatMessagesByParticipant).mockResolvedValue([]);
+    vi.mocked(invokeLLM).mockResolvedValue({
+      choices: [{ message: { content: "Resposta" } }],
+    } as any);
+  });
+
+  it("refuses to answer when the tutor is off and logs the attempt", async () => {
+    mockPolicies("off");
+    const caller = appRouter.createCaller(createPublicContext());
+
+    await expect(caller.shadowTutor.chat({
+      participantToken: await participantTokenFor(7),
+      message: "Qual a resposta?",
+    })).rejects.toThrow("O Shadow Tutor foi desativado pelo professor");
+
+    expect(invokeLLM).not.toHaveBeenCalled();
+    expect(db.addChatMessage).not.toHaveBeenCalled();
+    expect(db.addTutorPolicyLog).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 3, sessionId: 1, participantId: 7, event: "blocked", policy: "off",
+    }));
+  });
+
+  it("lets the session policy override the room policy", async () => {
+    mockPolicies("full", "socratic");
+    const caller = appRouter.createCaller(createPublicContext());
+
+    await caller.shadowTutor.chat({ participantToken: await participantTokenFor(7), message: "Como faço?" });
+
+    const systemPrompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain("Modo socrático");
+    expect(db.addTutorPolicyLog).toHaveBeenCalledWith(expect.objectContaining({
+      event: "answered", policy: "socratic", locked: false,
+    }));
+  });
+
+  it("locks the tutor to hints while an exercise is active", async () => {
+    mockPolicies("full");
+    vi.mocked(db.getActiveExercise).mockResolvedValue({
+      id: 9, sessionId: 1, createdBy: 1, question: "Derive x^2", questionLatex: null,
+      correctAnswer: "2x", points: 10, timeLimit: null, isActive: true, createdAt: new Date(),
+    });
+    const caller = appRouter.createCaller(createPublicContext());
+    const participantToken = await participantTokenFor(7);
+
+    await expect(caller.shadowTutor.getPolicy({ participantToken })).resolves.toEqual({
+      policy: "hints", locked: true, exerciseId: 9,
+    });
+
+    await caller.shadowTutor.chat({ participantToken, message: "Derive x^2" });
+
+    const systemPrompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain("Modo apenas dicas");
+    expect(systemPrompt).toContain("exercício valendo pontos");
+    expect(db.addTutorPolicyLog).toHaveBeenCalledWith(expect.objectContaining({
+      event: "answered", policy: "hints", locked: true, exerciseId: 9,
+    }));
+  });
+
+  it("only lets the host change the policy", async () => {
+    mockPolicies("full");
+
+    await expect(
+      appRouter.createCaller(createAuthContext(2)).session.setTutorPolicy({ sessionId: 1, policy: "off" })
+    ).rejects.toThrow("Apenas o professor pode alterar o modo do Shadow Tutor");
+    expect(db.updateSession).not.toHaveBeenCalled();
+
+    await appRouter.createCaller(createAuthContext(1)).session.setTutorPolicy({ sessionId: 1, policy: "off" });
+    expect(db.updateSession).toHaveBeenCalledWith(1, { tutorPolicy: "off" });
+    expect(db.addTutorPolicyLog).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 3, sessionId: 1, event: "changed", policy: "off",
+    }));
+  });
+});
+
+describe("shadowTutor streaming", () => {
+  type StreamHandler = (req: Request, res: Response) => Promise<void>;
+
+  function getStreamHandler(): StreamHandler {
+    let handler: StreamHandler | undefined;
+    registerShadowTutorRoutes({ post: (_path: string, h: StreamHandler) => { handler = h; } } as unknown as Express);
+    return handler!;
+  }
+
+  function createResponse() {
+    const res = Object.assign(new EventEmitter(), {
+      written: "",
+      writableEnded: false,
+      headersSent: false,
+      statusCode: 200,
+      body: undefined as unknown,
+      writeHead: vi.fn(() => { res.headersSent = true; }),
+      write: vi.fn((chunk: string) => { res.written += chunk; }),
+      end: vi.fn(() => { res.writableEnded = true; }),
+      status: vi.fn((code: number) => { res.statusCode = code; return res; }),
+      json: vi.fn((body: unknown) => { res.body = body; }),
+    });
+    return res;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 3, status: "active", tutorPolicy: null } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 3, hostId: 1, tutorPolicy: "full" } as any);
+    vi.mocked(db.getActiveExercise).mockResolvedValue(undefined);
+    vi.mocked(db.getActiveGraphBySession).mockResolvedValue(undefined);
+    vi.mocked(db.getPdfSyncState).mockResolvedValue(undefined);
+    vi.mocked(db.getRecentTranscriptSegments).mockResolvedValue([]);
+    vi.mocked(db.getChatMessagesByParticipant).mockResolvedValue([]);
+    vi.mocked(db.addChatMessage).mockImplementation(async message => ({ id: 42, ...message }) as any);
+  });
+
+  it("relays deltas and stores the final answer", async () => {
+    vi.mocked(streamLLM).mockImplementation(async function* () {
+      yield "A derivada de $x";
+      yield "^2$ é $2x$.";
+    });
+    const res = createResponse();
+
+    await getStreamHandler()(
+      { body: { participantToken: await participantTokenFor(7), message: "Derivada de x^2?" } } as Request,
+      res as unknown as Response
+    );
+
+    expect(res.written).toContain('event: delta\ndata: {"text":"A derivada de $x"}');
+    expect(res.written).toContain('event: done\ndata: {"messageId":42}');
+    expect(res.end).toHaveBeenCalled();
+    expect(db.addChatMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      role: "assistant", content: "A derivada de $x^2$ é $2x$.",
+    }));
+  });
+
+  it("stores the partial answer when the student cancels", async () => {
+    const res = createResponse();
+    vi.mocked(streamLLM).mockImplementation(async function* (_params, signal) {
+      yield "Primeiro passo: ";
+      // The student closes the connection mid-answer
+      res.emit("close");
+      if (signal?.aborted) throw new DOMException("aborted", "AbortError");
+      yield "nunca chega";
+    });
+
+    await getStreamHandler()(
+      { body: { participantToken: await participantTokenFor(7), message: "Resolva" } } as Request,
+      res as unknown as Response
+    );
+
+    expect(db.addChatMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      role: "assistant", content: "Primeiro passo: ",
+    }));
+    expect(res.written).not.toContain("event: done");
+    expect(res.end).not.toHaveBeenCalled();
+  });
+
+  it("rejects the stream when the tutor is off", async () => {
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 3, hostId: 1, tutorPolicy: "off" } as any);
+    const res = createResponse();
+
+    await getStreamHandler()(
+      { body: { participantToken: await participantTokenFor(7), message: "Resolva" } } as Request,
+      res as unknown as Response
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ error: "O Shadow Tutor foi desativado pelo professor" });
+    expect(streamLLM).not.toHaveBeenCalled();
+  });
+});
+
+describe("shadowTutor question dashboard", () => {
+  const question = (id: number, participantId: number, content: string) => ({
+    id, sessionId: 1, participantId, role: "user" as const, content, context: null, createdAt: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 3, status: "active", tutorPolicy: null } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 3, hostId: 1, tutorPolicy: "full" } as any);
+    vi.mocked(db.getParticipantsBySession).mockResolvedValue([
+      { id: 5, userId: 1, visibleName: "Prof. Silva", role: "teacher" },
+      { id: 7, userId: null, visibleName: "Ana", role: "guest" },
+      { id: 8, userId: null, visibleName: "Bruno", role: "guest" },
+    ] as any);
+    vi.mocked(db.getChatMessagesBySession).mockResolvedValue([
+      question(10, 7, "Por que a derivada de x^2 é 2x?"),
+      { ...question(11, 7, "Resposta"), role: "assistant" },
+      question(12, 8, "Como usar a regra da cadeia?"),
+      question(13, 7, "E a regra da cadeia em sen(2x)?"),
+    ]);
+  });
+
+  it("lists the questions by student, without the tutor answers", async () => {
+    const caller = appRouter.createCaller(createAuthContext(1));
+
+    const students = await caller.shadowTutor.getSessionQuestions({ sessionId: 1 });
+
+    expect(students.map(student => student.studentName)).toEqual(["Ana", "Bruno"]);
+    expect(students[0].questions.map(q => q.id)).toEqual([10, 13]);
+    // Linked to the tutor's answer, to see the context it was given
+    expect(students[0].questions.map(q => q.answerId)).toEqual([11, null]);
+  });
+
+  it("only lets the room host see the questions", async () => {
+    const caller = appRouter.createCaller(createAuthContext(2));
+
+    await expect(caller.shadowTutor.getSessionQuestions({ sessionId: 1 })).rejects.toThrow(
+      "Apenas o professor pode ver as perguntas dos alunos"
+    );
+    await expect(caller.shadowTutor.promoteQuestionToChat({ messageId: 10 })).rejects.toThrow();
+    expect(db.getChatMessagesBySession).not.toHaveBeenCalled();
+  });
+
+  it("clusters questions by topic, most frequent first, ignoring unknown ids", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue({
+      choices: [{
+        message: {
+          content: JSON.stringify({
+            clusters: [
+              { topic: "Regra da potência", confusion: "Origem do expoente", questionIds: [10] },
+              { topic: "Regra da cadeia", confusion: "Quando aplicar", questionIds: [12, 13, 99] },
+              { topic: "Outros", confusion: "", questionIds: [99] },
+            ],
+          }),
+        },
+      }],
+    } as any);
+    const caller = appRouter.createCaller(createAuthContext(1));
+
+    const clusters = await caller.shadowTutor.clusterSessionQuestions({ sessionId: 1 });
+
+    expect(clusters).toEqual([
+      { topic: "Regra da cadeia", confusion: "Quando aplicar", questionIds: [12, 13] },
+      { topic: "Regra da potência", confusion: "Origem do expoente", questionIds: [10] },
+    ]);
+    const prompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content as string;
+    expect(prompt).toContain("[12] Como usar a regra da cadeia?");
+    expect(prompt).not.toContain("Resposta");
+  });
+
+  it("promotes a question to the live chat without naming the student", async () => {
+    vi.mocked(db.getChatMessageById).mockResolvedValue(question(12, 8, "Como usar a regra da cadeia?"));
+    vi.mocked(db.addLiveChatMessage).mockImplementation(async message => ({ id: 1, createdAt: new Date(), ...message }) as any);
+    const caller = appRouter.createCaller(createAuthContext(1));
+
+    await caller.shadowTutor.promoteQuestionToChat({ messageId: 12 });
+
+    expect(db.addLiveChatMessage).toHaveBeenCalledWith({
+      sessionId: 1,
+      participantId: 5,
+      senderName: "Prof. Silva",
+      message: "Pergunta de um aluno: Como usar a regra da cadeia?",
+    });
+  });
 });
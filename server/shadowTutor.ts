@@ -0,0 +1,176 @@
+import type { Express, Request, Response } from "express";
+import {
+  BadRequestError,
+  ForbiddenError,
+  HttpError,
+  UnauthorizedError,
+} from "@shared/_core/errors";
+import { INVALID_PARTICIPANT_ERR_MSG } from "@shared/const";
+import type { EffectiveTutorPolicy } from "@shared/tutorPolicy";
+import type { ChatMessage } from "../drizzle/schema";
+import * as db from "./db";
+import { streamLLM, type Message } from "./_core/llm";
+import { verifyActiveParticipant, type ParticipantClaims } from "./_core/participantToken";
+import { buildTutorContext, formatTutorContext, type TutorContextSection } from "./tutorContext";
+import { formatTutorPolicyPrompt, logTutorPolicyUse, resolveTutorPolicy } from "./tutorPolicy";
+
+// Shadow Tutor system prompt
+const SHADOW_TUTOR_SYSTEM_PROMPT = `Você é um assistente tutor de matemática útil. Responda dúvidas específicas do aluno de forma concisa sem interromper o fluxo da aula principal. Use LaTeX para fórmulas.
+
+Diretrizes:
+- Seja conciso e direto nas respostas
+- Use notação LaTeX para fórmulas matemáticas (ex: $x^2 + y^2 = r^2$)
+- Explique conceitos de forma clara e acessível
+- Se o aluno estiver confuso, ofereça exemplos práticos
+- Mantenha um tom amigável e encorajador
+- Responda sempre em português brasileiro`;
+
+export const TUTOR_DISABLED_MESSAGE = "O Shadow Tutor foi desativado pelo professor";
+
+/** Everything needed to ask the LLM one question and store its answer. */
+export type TutorTurn = {
+  participant: ParticipantClaims;
+  messages: Message[];
+  lessonContext: TutorContextSection[];
+  policy: EffectiveTutorPolicy;
+};
+
+/**
+ * Save the student's question and build the LLM prompt for it: system
+ * prompt, the teacher's policy, the lesson context and the recent history.
+ * Returns null (and logs the attempt) when the teacher turned the tutor off.
+ */
+export async function startTutorTurn(
+  participant: ParticipantClaims,
+  message: string
+): Promise<TutorTurn | null> {
+  const { sessionId, participantId } = participant;
+
+  // The teacher decides how much the tutor may help, enforced here
+  const policy = await resolveTutorPolicy(sessionId);
+  if (policy.policy === "off") {
+    await logTutorPolicyUse(participant, "blocked", policy);
+    return null;
+  }
+
+  // Save user message
+  await db.addChatMessage({
+    sessionId,
+    participantId,
+    role: "user",
+    content: message,
+  });
+
+  // Get chat history and what is happening in the lesson for context
+  const [history, lessonContext] = await Promise.all([
+    db.getChatMessagesByParticipant(participantId),
+    buildTutorContext(sessionId),
+  ]);
+
+  const systemPrompt = [
+    SHADOW_TUTOR_SYSTEM_PROMPT,
+    formatTutorPolicyPrompt(policy),
+    formatTutorContext(lessonContext),
+  ].filter(Boolean).join("\n\n");
+
+  const messages: Message[] = [
+    { role: "system", content: systemPrompt },
+    ...history.slice(-10).map(msg => ({
+      role: msg.role as "user" | "assistant",
+      content: msg.content,
+    })),
+  ];
+
+  return { participant, messages, lessonContext, policy };
+}
+
+/** Store the assistant's answer together with the context it was given. */
+export async function finishTutorTurn(turn: TutorTurn, content: string): Promise<ChatMessage | undefined> {
+  const message = await db.addChatMessage({
+    sessionId: turn.participant.sessionId,
+    participantId: turn.participant.participantId,
+    role: "assistant",
+    content,
+    context: JSON.stringify(turn.lessonContext),
+  });
+  await logTutorPolicyUse(turn.participant, "answered", turn.policy);
+  return message;
+}
+
+function writeEvent(res: Response, event: "delta" | "done" | "error", data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Relay one answer to the student as it is generated. The stream ends with
+ * a "done" event once the answer is stored; if the student cancels (closes
+ * the connection) the partial answer is stored instead.
+ */
+async function streamTutorAnswer(req: Request, res: Response) {
+  const { participantToken, message } = req.body ?? {};
+  const participant = await verifyActiveParticipant(participantToken);
+  if (!participant) {
+    throw UnauthorizedError(INVALID_PARTICIPANT_ERR_MSG);
+  }
+  if (typeof message !== "string" || !message.trim()) {
+    throw BadRequestError("Mensagem vazia");
+  }
+
+  const turn = await startTutorTurn(participant, message);
+  if (!turn) {
+    throw ForbiddenError(TUTOR_DISABLED_MESSAGE);
+  }
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  let content = "";
+  try {
+    for await (const delta of streamLLM({ messages: turn.messages }, abort.signal)) {
+      content += delta;
+      writeEvent(res, "delta", { text: delta });
+    }
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      console.error("[ShadowTutor] Stream failed", error);
+      writeEvent(res, "error", { message: "Erro ao processar sua pergunta. Tente novamente." });
+    }
+  }
+
+  // Keep whatever was generated, even when the student stopped the answer
+  const stored = content.trim() ? await finishTutorTurn(turn, content) : undefined;
+
+  if (!abort.signal.aborted) {
+    writeEvent(res, "done", { messageId: stored?.id ?? null });
+    res.end();
+  }
+}
+
+export function registerShadowTutorRoutes(app: Express) {
+  app.post("/api/shadow-tutor/stream", async (req, res) => {
+    try {
+      await streamTutorAnswer(req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("[ShadowTutor] Stream request failed", error);
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[ShadowTutor] Stream request failed", error);
+      res.status(500).json({ error: "Erro ao processar sua pergunta. Tente novamente." });
+    }
+  });
+}
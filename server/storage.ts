@@ -1,8 +1,19 @@
 // Preconfigured storage helpers for Manus WebDev templates
 // Uses the Biz-provided storage proxy (Authorization: Bearer <token>)
+// or, with STORAGE_DRIVER=local or without proxy credentials outside
+// production, files under LOCAL_STORAGE_DIR served from /api/storage
 
+import express, { type Express } from "express";
+import { createWriteStream, openAsBlob } from "fs";
+import { copyFile, mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
 import { ENV } from './_core/env';
 
+const LOCAL_STORAGE_ROUTE = "/api/storage";
+
 type StorageConfig = { baseUrl: string; apiKey: string };
 
 function getStorageConfig(): StorageConfig {
@@ -67,15 +78,88 @@ function buildAuthHeaders(apiKey: string): HeadersInit {
   return { Authorization: `Bearer ${apiKey}` };
 }
 
+function useLocalStorage(): boolean {
+  if (ENV.storageDriver) return ENV.storageDriver === "local";
+  return !ENV.isProduction && (!ENV.forgeApiUrl || !ENV.forgeApiKey);
+}
+
+function getLocalStorageRoot(): string {
+  return path.resolve(ENV.localStorageDir);
+}
+
+function resolveLocalPath(key: string): string {
+  const root = getLocalStorageRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+function buildLocalUrl(key: string): string {
+  return `${LOCAL_STORAGE_ROUTE}/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+async function localPut(
+  key: string,
+  data: Buffer | Uint8Array | string
+): Promise<{ key: string; url: string }> {
+  const filePath = resolveLocalPath(key);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, data);
+  return { key, url: buildLocalUrl(key) };
+}
+
+/**
+ * Serve the files written by the local storage backend.
+ * Does nothing when the storage proxy is in use.
+ */
+export function registerStorageRoutes(app: Express) {
+  if (!useLocalStorage()) return;
+  app.use(
+    LOCAL_STORAGE_ROUTE,
+    express.static(getLocalStorageRoot(), { dotfiles: "deny", index: false })
+  );
+}
+
 export async function storagePut(
   relKey: string,
   data: Buffer | Uint8Array | string,
   contentType = "application/octet-stream"
 ): Promise<{ key: string; url: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
+  if (useLocalStorage()) {
+    return localPut(normalizeKey(relKey), data);
+  }
+
   const key = normalizeKey(relKey);
+  return proxyPut(key, toFormData(data, contentType, key.split("/").pop() ?? key));
+}
+
+/**
+ * Store a file from local disk without reading it into memory:
+ * it is copied or streamed to the storage proxy as it is read.
+ */
+export async function storagePutFile(
+  relKey: string,
+  filePath: string,
+  contentType = "application/octet-stream"
+): Promise<{ key: string; url: string }> {
+  const key = normalizeKey(relKey);
+  if (useLocalStorage()) {
+    const target = resolveLocalPath(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(filePath, target);
+    return { key, url: buildLocalUrl(key) };
+  }
+
+  const form = new FormData();
+  form.append("file", await openAsBlob(filePath, { type: contentType }), key.split("/").pop() ?? key);
+  return proxyPut(key, form);
+}
+
+async function proxyPut(key: string, formData: FormData): Promise<{ key: string; url: string }> {
+  const { baseUrl, apiKey } = getStorageConfig();
   const uploadUrl = buildUploadUrl(baseUrl, key);
-  const formData = toFormData(data, contentType, key.split("/").pop() ?? key);
   const response = await fetch(uploadUrl, {
     method: "POST",
     headers: buildAuthHeaders(apiKey),
@@ -93,10 +177,52 @@ export async function storagePut(
 }
 
 export async function storageGet(relKey: string): Promise<{ key: string; url: string; }> {
-  const { baseUrl, apiKey } = getStorageConfig();
   const key = normalizeKey(relKey);
+  if (useLocalStorage()) {
+    resolveLocalPath(key);
+    return { key, url: buildLocalUrl(key) };
+  }
+
+  const { baseUrl, apiKey } = getStorageConfig();
   return {
     key,
     url: await buildDownloadUrl(baseUrl, key, apiKey),
   };
 }
+
+export async function storageRead(relKey: string): Promise<Buffer> {
+  const key = normalizeKey(relKey);
+  if (useLocalStorage()) {
+    return readFile(resolveLocalPath(key));
+  }
+
+  const { url } = await storageGet(key);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Storage download failed (${response.status} ${response.statusText})`
+    );
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Copy a stored file to local disk without reading it into memory:
+ * copied as is, or streamed from the storage proxy as it downloads.
+ */
+export async function storageReadToFile(relKey: string, filePath: string): Promise<void> {
+  const key = normalizeKey(relKey);
+  if (useLocalStorage()) {
+    await copyFile(resolveLocalPath(key), filePath);
+    return;
+  }
+
+  const { url } = await storageGet(key);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Storage download failed (${response.status} ${response.statusText})`
+    );
+  }
+  await pipeline(Readable.fromWeb(response.body as ReadableStream), createWriteStream(filePath));
+}
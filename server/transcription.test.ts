@@ -0,0 +1,165 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { truncate, writeFile } from "fs/promises";
+import type { Recording } from "../drizzle/schema";
+import { MAX_TRANSCRIPTION_BYTES, type AudioSplitter } from "./audioChunks";
+import { runTranscriptionJob, setAudioSplitter, setTranscriber, type Transcriber } from "./transcription";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  createTranscription: vi.fn(),
+  updateTranscription: vi.fn(),
+  createTranscriptSegments: vi.fn(),
+  getSessionById: vi.fn(),
+}));
+
+vi.mock("./lessonNotes", () => ({
+  enqueueLessonNotes: vi.fn(),
+}));
+
+// Mock storage
+vi.mock("./storage", () => ({
+  storageReadToFile: vi.fn((_key: string, filePath: string) => writeFile(filePath, "webm")),
+}));
+
+import * as db from "./db";
+import { storageReadToFile } from "./storage";
+import { enqueueLessonNotes } from "./lessonNotes";
+
+const recording: Recording = {
+  id: 7,
+  sessionId: 3,
+  title: "Gravação",
+  s3Key: "recordings/sala/3/abc.webm",
+  s3Url: "/api/storage/recordings/sala/3/abc.webm",
+  duration: 60,
+  fileSize: 4,
+  mimeType: "video/webm",
+  status: "ready",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("transcription job", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.createTranscription).mockResolvedValue({
+      id: 11,
+      sessionId: 3,
+      recordingId: 7,
+      content: "",
+      language: "pt-BR",
+      status: "processing",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  });
+
+  it("stores timestamped segments and marks the transcription as ready", async () => {
+    const fakeTranscriber: Transcriber = vi.fn().mockResolvedValue({
+      text: " Hoje vamos estudar derivadas. A derivada de x² é 2x. ",
+      segments: [
+        { start: 0, end: 2.5, text: "Hoje vamos estudar derivadas.", confidence: 0.9 },
+        { start: 2.5, end: 5.25, text: "A derivada de x² é 2x.", confidence: null },
+        { start: 5.25, end: 6, text: "", confidence: 0.1 },
+      ],
+    });
+    setTranscriber(fakeTranscriber);
+
+    const result = await runTranscriptionJob(recording);
+
+    expect(fakeTranscriber).toHaveBeenCalledWith(expect.objectContaining({
+      data: Buffer.from("webm"),
+      mimeType: "video/webm",
+      language: "pt-BR",
+    }));
+    expect(db.createTranscription).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 3,
+      recordingId: 7,
+      status: "processing",
+    }));
+    expect(db.createTranscriptSegments).toHaveBeenCalledWith([
+      { transcriptionId: 11, recordingId: 7, startMs: 0, endMs: 2500, text: "Hoje vamos estudar derivadas.", confidence: 0.9 },
+      { transcriptionId: 11, recordingId: 7, startMs: 2500, endMs: 5250, text: "A derivada de x² é 2x.", confidence: null },
+    ]);
+    expect(db.updateTranscription).toHaveBeenCalledWith(11, {
+      content: "Hoje vamos estudar derivadas. A derivada de x² é 2x.",
+      status: "ready",
+    });
+    expect(result?.status).toBe("ready");
+  });
+
+  it("transcribes a recording over the service's limit in pieces, on the recording's clock", async () => {
+    vi.mocked(storageReadToFile).mockImplementationOnce(async (_key, filePath) => {
+      await writeFile(filePath, "");
+      await truncate(filePath, MAX_TRANSCRIPTION_BYTES + 1);
+    });
+    const splitter: AudioSplitter = vi.fn().mockResolvedValue([
+      { data: Buffer.from("ogg 1"), mimeType: "audio/ogg", offset: 0 },
+      { data: Buffer.from("ogg 2"), mimeType: "audio/ogg", offset: 600 },
+    ]);
+    setAudioSplitter(splitter);
+    const fakeTranscriber: Transcriber = vi.fn()
+      .mockResolvedValueOnce({
+        text: "Primeira parte.",
+        segments: [{ start: 598, end: 600, text: "Primeira parte.", confidence: 0.8 }],
+      })
+      .mockResolvedValueOnce({
+        text: " Segunda parte. ",
+        segments: [{ start: 1.5, end: 3, text: "Segunda parte.", confidence: 0.7 }],
+      });
+    setTranscriber(fakeTranscriber);
+
+    const result = await runTranscriptionJob(recording);
+
+    // Handed the staged file, never the recording in memory
+    expect(splitter).toHaveBeenCalledWith({ filePath: expect.stringMatching(/recording$/), mimeType: "video/webm" });
+    expect(fakeTranscriber).toHaveBeenCalledTimes(2);
+    expect(fakeTranscriber).toHaveBeenLastCalledWith(expect.objectContaining({ data: Buffer.from("ogg 2"), mimeType: "audio/ogg" }));
+    expect(db.createTranscriptSegments).toHaveBeenCalledWith([
+      { transcriptionId: 11, recordingId: 7, startMs: 598_000, endMs: 600_000, text: "Primeira parte.", confidence: 0.8 },
+      { transcriptionId: 11, recordingId: 7, startMs: 601_500, endMs: 603_000, text: "Segunda parte.", confidence: 0.7 },
+    ]);
+    expect(db.updateTranscription).toHaveBeenCalledWith(11, { content: "Primeira parte. Segunda parte.", status: "ready" });
+    expect(result?.status).toBe("ready");
+  });
+
+  it("regenerates the lesson notes when the transcript of an ended session is ready", async () => {
+    setTranscriber(vi.fn().mockResolvedValue({ text: "Oi", segments: [] }));
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 3, status: "active" } as any);
+    await runTranscriptionJob(recording);
+    expect(enqueueLessonNotes).not.toHaveBeenCalled();
+
+    vi.mocked(db.getSessionById).mockResolvedValueOnce({ id: 3, status: "ended" } as any);
+    await runTranscriptionJob(recording);
+    expect(enqueueLessonNotes).toHaveBeenCalledWith(3);
+  });
+
+  it("marks the transcription as failed when the transcriber throws", async () => {
+    setTranscriber(vi.fn().mockRejectedValue(new Error("service unavailable")));
+
+    const result = await runTranscriptionJob(recording);
+
+    expect(db.createTranscriptSegments).not.toHaveBeenCalled();
+    expect(db.updateTranscription).toHaveBeenCalledWith(11, { status: "failed" });
+    expect(result?.status).toBe("failed");
+  });
+
+  it("reuses an existing transcription when retrying", async () => {
+    setTranscriber(vi.fn().mockResolvedValue({ text: "Oi", segments: [] }));
+
+    await runTranscriptionJob(recording, {
+      id: 4,
+      sessionId: 3,
+      recordingId: 7,
+      content: "",
+      language: "pt-BR",
+      status: "processing",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(db.createTranscription).not.toHaveBeenCalled();
+    expect(db.updateTranscription).toHaveBeenCalledWith(4, { content: "Oi", status: "ready" });
+  });
+});
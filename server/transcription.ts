@@ -0,0 +1,161 @@
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import type { Recording, Transcription } from "../drizzle/schema";
+import { type AudioChunk, type AudioSplitter, ffmpegSplitter, MAX_TRANSCRIPTION_BYTES, withStagingDir } from "./audioChunks";
+import * as db from "./db";
+import { enqueueLessonNotes } from "./lessonNotes";
+import { storageReadToFile } from "./storage";
+import { transcribeAudio } from "./_core/voiceTranscription";
+
+export type TranscriptSegmentResult = {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+  confidence: number | null; // 0-1
+};
+
+export type TranscriberInput = {
+  data: Buffer;
+  mimeType: string;
+  language: string;
+  url: string;
+};
+
+export type TranscriberResult = {
+  text: string;
+  segments: TranscriptSegmentResult[];
+};
+
+/**
+ * Turns a recording into text. Throws when the recording cannot be
+ * transcribed; the job records that as a failed transcription.
+ */
+export type Transcriber = (input: TranscriberInput) => Promise<TranscriberResult>;
+
+const TRANSCRIPTION_LANGUAGE = "pt-BR";
+
+/** Default transcriber backed by the Whisper speech-to-text service. */
+export const whisperTranscriber: Transcriber = async ({ data, mimeType, language, url }) => {
+  const result = await transcribeAudio({
+    audioUrl: url,
+    audio: { data, mimeType },
+    language: language.split("-")[0],
+  });
+
+  if ("error" in result) {
+    throw new Error(`${result.error}${result.details ? `: ${result.details}` : ""}`);
+  }
+
+  return {
+    text: result.text,
+    segments: result.segments.map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      // Whisper reports the average log-probability of the segment's tokens
+      confidence: Math.min(1, Math.max(0, Math.exp(segment.avg_logprob))),
+    })),
+  };
+};
+
+let _transcriber: Transcriber = whisperTranscriber;
+
+export function setTranscriber(transcriber: Transcriber) {
+  _transcriber = transcriber;
+}
+
+let _splitter: AudioSplitter = ffmpegSplitter;
+
+export function setAudioSplitter(splitter: AudioSplitter) {
+  _splitter = splitter;
+}
+
+/**
+ * Transcribe the recording in pieces the service takes when it is too
+ * large for it, shifting each piece's segments to the recording's clock.
+ */
+async function transcribeRecording(recording: Recording): Promise<TranscriberResult> {
+  const mimeType = recording.mimeType ?? "video/webm";
+  // Streamed to disk: only a recording small enough to send as it is gets read into memory
+  const chunks = await withStagingDir(async (dir): Promise<AudioChunk[]> => {
+    const filePath = path.join(dir, "recording");
+    await storageReadToFile(recording.s3Key, filePath);
+    if ((await stat(filePath)).size > MAX_TRANSCRIPTION_BYTES) {
+      return _splitter({ filePath, mimeType });
+    }
+    return [{ data: await readFile(filePath), mimeType, offset: 0 }];
+  });
+
+  const texts: string[] = [];
+  const segments: TranscriptSegmentResult[] = [];
+  for (const chunk of chunks) {
+    const result = await _transcriber({
+      data: chunk.data,
+      mimeType: chunk.mimeType,
+      language: TRANSCRIPTION_LANGUAGE,
+      url: recording.s3Url,
+    });
+    texts.push(result.text.trim());
+    segments.push(...result.segments.map(segment => ({
+      ...segment,
+      start: segment.start + chunk.offset,
+      end: segment.end + chunk.offset,
+    })));
+  }
+  return { text: texts.filter(text => text.length > 0).join(" "), segments };
+}
+
+/**
+ * Transcribe a ready recording and store its timestamped segments.
+ * The transcription row is created as processing (or an existing one,
+ * already set back to processing, is reused) and ends up ready or failed;
+ * errors are logged, never thrown.
+ */
+export async function runTranscriptionJob(
+  recording: Recording,
+  existing?: Transcription
+): Promise<Transcription | undefined> {
+  const transcription = existing ?? await db.createTranscription({
+    sessionId: recording.sessionId,
+    recordingId: recording.id,
+    content: "",
+    language: TRANSCRIPTION_LANGUAGE,
+    status: "processing",
+  });
+  if (!transcription) return undefined;
+
+  try {
+    const result = await transcribeRecording(recording);
+
+    await db.createTranscriptSegments(
+      result.segments
+        .filter(segment => segment.text.length > 0)
+        .map(segment => ({
+          transcriptionId: transcription.id,
+          recordingId: recording.id,
+          startMs: Math.round(segment.start * 1000),
+          endMs: Math.round(segment.end * 1000),
+          text: segment.text,
+          confidence: segment.confidence,
+        }))
+    );
+    await db.updateTranscription(transcription.id, { content: result.text.trim(), status: "ready" });
+
+    // Notes made when the session ended went without this transcript
+    const session = await db.getSessionById(recording.sessionId);
+    if (session?.status === "ended") enqueueLessonNotes(session.id);
+
+    return { ...transcription, content: result.text.trim(), status: "ready" };
+  } catch (error) {
+    console.error("[Transcription] Failed to transcribe recording", recording.id, error);
+    await db.updateTranscription(transcription.id, { status: "failed" });
+    return { ...transcription, status: "failed" };
+  }
+}
+
+/** Start transcribing a recording in the background. */
+export function enqueueTranscription(recording: Recording, existing?: Transcription) {
+  runTranscriptionJob(recording, existing).catch(error => {
+    console.error("[Transcription] Job crashed", recording.id, error);
+  });
+}
@@ -0,0 +1,137 @@
+import * as db from "./db";
+import { getDocumentPageText } from "./pdfText";
+import { describeGraph } from "@shared/graphExpressions";
+
+export type TutorContextSection = {
+  kind: "exercise" | "graph" | "pdf" | "transcript";
+  label: string;
+  content: string;
+  truncated: boolean;
+};
+
+// Roughly 4 characters per token for Portuguese text
+export const TUTOR_CONTEXT_TOKEN_BUDGET = 1500;
+const CHARS_PER_TOKEN = 4;
+const TRANSCRIPT_SEGMENT_LIMIT = 30;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function formatOffset(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60).toString().padStart(2, "0")}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Fit sections into the token budget. Sections are given in priority order
+ * and each one takes what it needs from the remaining budget; the first that
+ * does not fit is cut (PDF text keeps its beginning, the transcript keeps its
+ * most recent lines) and anything after it is dropped.
+ */
+export function applyTokenBudget(
+  sections: TutorContextSection[],
+  budget: number = TUTOR_CONTEXT_TOKEN_BUDGET
+): TutorContextSection[] {
+  const result: TutorContextSection[] = [];
+  let remaining = budget;
+
+  for (const section of sections) {
+    if (remaining <= 0) break;
+
+    if (estimateTokens(section.content) <= remaining) {
+      result.push(section);
+      remaining -= estimateTokens(section.content);
+      continue;
+    }
+
+    const maxChars = remaining * CHARS_PER_TOKEN;
+    let content: string;
+    if (section.kind === "transcript") {
+      const lines = section.content.split("\n");
+      while (lines.length > 1 && lines.join("\n").length > maxChars) lines.shift();
+      content = lines.join("\n").slice(-maxChars);
+    } else {
+      content = section.content.slice(0, maxChars);
+    }
+
+    result.push({ ...section, content, truncated: true });
+    remaining = 0;
+  }
+
+  return result;
+}
+
+/**
+ * Collect what is on screen in a session right now: the active exercise
+ * (never its answer), the active graph, the text of the PDF page being shown
+ * and the most recent transcript lines.
+ */
+export async function buildTutorContext(sessionId: number): Promise<TutorContextSection[]> {
+  const [exercise, graph, pdfState, segments] = await Promise.all([
+    db.getActiveExercise(sessionId),
+    db.getActiveGraphBySession(sessionId),
+    db.getPdfSyncState(sessionId),
+    db.getRecentTranscriptSegments(sessionId, TRANSCRIPT_SEGMENT_LIMIT),
+  ]);
+
+  const sections: TutorContextSection[] = [];
+
+  if (exercise) {
+    const question = exercise.questionLatex
+      ? `${exercise.question}\n$${exercise.questionLatex}$`
+      : exercise.question;
+    sections.push({ kind: "exercise", label: "Exercício ativo", content: question, truncated: false });
+  }
+
+  if (graph) {
+    sections.push({
+      kind: "graph",
+      label: "Gráfico em exibição",
+      content: `${graph.title ? `${graph.title}: ` : ""}${describeGraph(graph)}`,
+      truncated: false,
+    });
+  }
+
+  if (pdfState?.documentId) {
+    const document = await db.getDocumentById(pdfState.documentId);
+    const pageText = document ? await getDocumentPageText(document, pdfState.currentPage) : "";
+    if (pageText) {
+      sections.push({
+        kind: "pdf",
+        label: `${document?.title ?? "PDF"} - página ${pdfState.currentPage}`,
+        content: pageText,
+        truncated: false,
+      });
+    }
+  }
+
+  if (segments.length > 0) {
+    sections.push({
+      kind: "transcript",
+      label: "Falas recentes do professor",
+      content: segments.map(segment => `[${formatOffset(segment.startMs)}] ${segment.text}`).join("\n"),
+      truncated: false,
+    });
+  }
+
+  return applyTokenBudget(sections);
+}
+
+export function formatTutorContext(sections: TutorContextSection[]): string {
+  if (sections.length === 0) return "";
+
+  return [
+    "Contexto atual da aula (use para entender a dúvida do aluno):",
+    ...sections.map(section => `### ${section.label}${section.truncated ? " (trecho)" : ""}\n${section.content}`),
+  ].join("\n\n");
+}
+
+export function parseTutorContext(value: string | null): TutorContextSection[] | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as TutorContextSection[];
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { DEFAULT_TUTOR_POLICY, type EffectiveTutorPolicy, type TutorPolicy } from "@shared/tutorPolicy";
+import type { ParticipantClaims } from "./_core/participantToken";
+import * as db from "./db";
+
+const TUTOR_POLICY_PROMPTS: Record<Exclude<TutorPolicy, "off">, string> = {
+  hints: `Modo apenas dicas (definido pelo professor):
+- Nunca dê a resposta final nem resolva o exercício por completo
+- Ofereça no máximo uma dica curta por mensagem, apontando o próximo passo ou o conceito envolvido
+- Se o aluno pedir a resposta, explique que neste momento você só pode dar dicas`,
+  socratic: `Modo socrático (definido pelo professor):
+- Não entregue respostas prontas; conduza o aluno com perguntas
+- Faça uma pergunta de cada vez que leve o aluno a descobrir o próximo passo
+- Valide o raciocínio do aluno antes de avançar`,
+  full: `Modo explicações completas (definido pelo professor):
+- Você pode resolver problemas passo a passo e mostrar a resposta final`,
+};
+
+const EXERCISE_LOCK_PROMPT = `Há um exercício valendo pontos em andamento. Mesmo que o aluno cole o enunciado, não revele a resposta nem faça as contas por ele.`;
+
+/**
+ * Policy in effect for a session: the session override, else the room
+ * default. While an exercise is active anything more permissive than
+ * hint-only is locked down to hints.
+ */
+export async function resolveTutorPolicy(sessionId: number): Promise<EffectiveTutorPolicy> {
+  const session = await db.getSessionById(sessionId);
+  const room = session ? await db.getRoomById(session.roomId) : undefined;
+  const policy = session?.tutorPolicy ?? room?.tutorPolicy ?? DEFAULT_TUTOR_POLICY;
+
+  if (policy === "off") {
+    return { policy, locked: false, exerciseId: null };
+  }
+
+  const exercise = await db.getActiveExercise(sessionId);
+  if (!exercise) {
+    return { policy, locked: false, exerciseId: null };
+  }
+
+  return { policy: "hints", locked: true, exerciseId: exercise.id };
+}
+
+/** Instructions appended to the Shadow Tutor system prompt for a policy. */
+export function formatTutorPolicyPrompt(effective: EffectiveTutorPolicy): string {
+  if (effective.policy === "off") return "";
+
+  const prompt = TUTOR_POLICY_PROMPTS[effective.policy];
+  return effective.locked ? `${prompt}\n\n${EXERCISE_LOCK_PROMPT}` : prompt;
+}
+
+/** Record that a participant's question was answered or refused under a policy. */
+export async function logTutorPolicyUse(
+  participant: ParticipantClaims,
+  event: "answered" | "blocked",
+  effective: EffectiveTutorPolicy
+): Promise<void> {
+  const session = await db.getSessionById(participant.sessionId);
+  if (!session) return;
+
+  await db.addTutorPolicyLog({
+    roomId: session.roomId,
+    sessionId: session.id,
+    participantId: participant.participantId,
+    event,
+    policy: effective.policy,
+    locked: effective.locked,
+    exerciseId: effective.exerciseId,
+  });
+}
@@ -0,0 +1,138 @@
+import * as db from "./db";
+import { invokeLLM } from "./_core/llm";
+
+const CLUSTER_SYSTEM_PROMPT = `Você ajuda um professor de matemática a entender as dúvidas da turma durante uma aula ao vivo.
+Você recebe as perguntas que os alunos fizeram a um assistente de IA, cada uma com seu número entre colchetes.
+
+Diretrizes:
+- Agrupe as perguntas por tópico matemático (ex: "Regra da cadeia", "Sinal de funções")
+- Cada pergunta pertence a exatamente um grupo; use "Outros" para perguntas sem relação com a aula
+- Para cada grupo, descreva em uma frase qual é a confusão dos alunos
+- Use apenas os números de pergunta recebidos
+- Escreva sempre em português brasileiro`;
+
+const CLUSTER_SCHEMA = {
+  name: "tutor_question_clusters",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      clusters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            topic: { type: "string" },
+            confusion: { type: "string", description: "O que os alunos não entenderam, em uma frase" },
+            questionIds: { type: "array", items: { type: "integer" } },
+          },
+          required: ["topic", "confusion", "questionIds"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["clusters"],
+    additionalProperties: false,
+  },
+};
+
+// Keep the prompt within a reasonable size for busy sessions
+const MAX_CLUSTERED_QUESTIONS = 200;
+
+export type TutorQuestion = {
+  id: number;
+  participantId: number;
+  content: string;
+  createdAt: Date;
+  // The tutor's answer, null while it has not answered
+  answerId: number | null;
+};
+
+export type StudentTutorQuestions = {
+  participantId: number;
+  studentName: string;
+  questions: TutorQuestion[];
+};
+
+export type TutorQuestionCluster = {
+  topic: string;
+  confusion: string;
+  questionIds: number[];
+};
+
+/** Questions students asked the Shadow Tutor in a session, grouped by student. */
+export async function getTutorQuestionsByStudent(sessionId: number): Promise<StudentTutorQuestions[]> {
+  const [messages, participants] = await Promise.all([
+    db.getChatMessagesBySession(sessionId),
+    db.getParticipantsBySession(sessionId),
+  ]);
+  const names = new Map(participants.map(p => [p.id, p.visibleName || p.guestName || "Anônimo"]));
+
+  const byStudent = new Map<number, StudentTutorQuestions>();
+  // Each student's last question, which the next answer to them replies to
+  const unanswered = new Map<number, TutorQuestion>();
+  for (const message of messages) {
+    if (message.role !== "user") {
+      const question = unanswered.get(message.participantId);
+      if (question) question.answerId = message.id;
+      unanswered.delete(message.participantId);
+      continue;
+    }
+
+    let student = byStudent.get(message.participantId);
+    if (!student) {
+      student = {
+        participantId: message.participantId,
+        studentName: names.get(message.participantId) ?? "Anônimo",
+        questions: [],
+      };
+      byStudent.set(message.participantId, student);
+    }
+    const question: TutorQuestion = {
+      id: message.id,
+      participantId: message.participantId,
+      content: message.content,
+      createdAt: message.createdAt,
+      answerId: null,
+    };
+    student.questions.push(question);
+    unanswered.set(message.participantId, question);
+  }
+
+  return Array.from(byStudent.values()).sort((a, b) => b.questions.length - a.questions.length);
+}
+
+/**
+ * Group questions by topic with the LLM, most frequent confusion first.
+ * Ids the LLM made up are dropped, as are groups left empty.
+ */
+export async function clusterTutorQuestions(questions: TutorQuestion[]): Promise<TutorQuestionCluster[]> {
+  const recent = questions.slice(-MAX_CLUSTERED_QUESTIONS);
+  if (recent.length === 0) return [];
+
+  const response = await invokeLLM({
+    messages: [
+      { role: "system", content: CLUSTER_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `Perguntas dos alunos:\n\n${recent.map(question => `[${question.id}] ${question.content}`).join("\n")}`,
+      },
+    ],
+    outputSchema: CLUSTER_SCHEMA,
+  });
+
+  const rawContent = response.choices[0]?.message?.content;
+  if (typeof rawContent !== "string") {
+    throw new Error("LLM returned no content");
+  }
+  const { clusters } = JSON.parse(rawContent) as { clusters: TutorQuestionCluster[] };
+
+  const knownIds = new Set(recent.map(question => question.id));
+  return clusters
+    .map(cluster => ({
+      ...cluster,
+      questionIds: Array.from(new Set(cluster.questionIds.filter(id => knownIds.has(id)))),
+    }))
+    .filter(cluster => cluster.questionIds.length > 0)
+    .sort((a, b) => b.questionIds.length - a.questionIds.length);
+}
@@ -0,0 +1,202 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, StandardFonts } from "pdf-lib";
+
+/**
+ * Fonts used to typeset converted documents: the standard PDF fonts for
+ * prose and code, and KaTeX's own fonts for formulas, which cover the
+ * math symbols the standard fonts lack.
+ */
+
+const STANDARD_FONTS = {
+  serif: StandardFonts.TimesRoman,
+  "serif-bold": StandardFonts.TimesRomanBold,
+  "serif-italic": StandardFonts.TimesRomanItalic,
+  "serif-bold-italic": StandardFonts.TimesRomanBoldItalic,
+  mono: StandardFonts.Courier,
+} as const;
+
+const MATH_FONTS = {
+  "math-main": "KaTeX_Main-Regular",
+  "math-bold": "KaTeX_Main-Bold",
+  "math-italic": "KaTeX_Math-Italic",
+  "math-ams": "KaTeX_AMS-Regular",
+  "math-size1": "KaTeX_Size1-Regular",
+  "math-size2": "KaTeX_Size2-Regular",
+  "math-size3": "KaTeX_Size3-Regular",
+  "math-size4": "KaTeX_Size4-Regular",
+} as const;
+
+export type StandardFontName = keyof typeof STANDARD_FONTS;
+export type MathFontName = keyof typeof MATH_FONTS;
+export type FontName = StandardFontName | MathFontName;
+
+// Fonts tried, in order, for a character the requested font does not have
+const FALLBACK_FONTS: FontName[] = ["serif", "math-main", "math-italic", "math-ams", "math-size1"];
+
+// Vertical extent of a character, in em, when the font gives no outline
+const DEFAULT_HEIGHT = 0.7;
+const DEFAULT_DEPTH = 0.2;
+
+type MathFontFile = { bytes: Uint8Array; font: fontkit.Font };
+
+// KaTeX font files never change, so they are read once per process
+const mathFontFiles = new Map<MathFontName, MathFontFile>();
+
+function isMathFont(name: FontName): name is MathFontName {
+  return name in MATH_FONTS;
+}
+
+function mathFontFile(name: MathFontName): MathFontFile {
+  let file = mathFontFiles.get(name);
+  if (!file) {
+    const require = createRequire(import.meta.url);
+    const bytes = readFileSync(require.resolve(`katex/dist/fonts/${MATH_FONTS[name]}.ttf`));
+    file = { bytes, font: fontkit.create(bytes) };
+    mathFontFiles.set(name, file);
+  }
+  return file;
+}
+
+export type FontSet = ReturnType<typeof createFontSet>;
+
+/**
+ * Measure text in any of the fonts and draw it into `pdf`. KaTeX fonts
+ * are embedded only if something was laid out with them, once `embed()`
+ * is awaited before drawing.
+ */
+export function createFontSet(pdf: PDFDocument) {
+  pdf.registerFontkit(fontkit);
+
+  const standard = new Map<StandardFontName, { font: PDFFont; characters: Set<number> }>();
+  const embedded = new Map<FontName, PDFFont>();
+  const used = new Set<MathFontName>();
+
+  function standardFont(name: StandardFontName) {
+    let entry = standard.get(name);
+    if (!entry) {
+      const font = pdf.embedStandardFont(STANDARD_FONTS[name]);
+      entry = { font, characters: new Set(font.getCharacterSet()) };
+      standard.set(name, entry);
+      embedded.set(name, font);
+    }
+    return entry;
+  }
+
+  function has(name: FontName, codePoint: number): boolean {
+    if (isMathFont(name)) return mathFontFile(name).font.hasGlyphForCodePoint(codePoint);
+    return standardFont(name).characters.has(codePoint);
+  }
+
+  // The font that draws `char`: `name` if it has it, otherwise the first fallback that does
+  function fontFor(name: FontName, char: string): FontName | null {
+    const codePoint = char.codePointAt(0)!;
+    if (has(name, codePoint)) return name;
+    return FALLBACK_FONTS.find(fallback => has(fallback, codePoint)) ?? null;
+  }
+
+  function measure(name: FontName, text: string, size: number): number {
+    if (!isMathFont(name)) return standardFont(name).font.widthOfTextAtSize(text, size);
+    const { font } = mathFontFile(name);
+    return (font.layout(text).advanceWidth / font.unitsPerEm) * size;
+  }
+
+  /** Height above and depth below the baseline of the ink of `text`. */
+  function extent(name: FontName, text: string, size: number): { height: number; depth: number } {
+    if (!isMathFont(name)) return { height: DEFAULT_HEIGHT * size, depth: DEFAULT_DEPTH * size };
+    const { font } = mathFontFile(name);
+    let height = 0;
+    let depth = 0;
+    for (const char of Array.from(text)) {
+      const { bbox } = font.glyphForCodePoint(char.codePointAt(0)!);
+      height = Math.max(height, (bbox.maxY / font.unitsPerEm) * size);
+      depth = Math.max(depth, (-bbox.minY / font.unitsPerEm) * size);
+    }
+    return { height, depth };
+  }
+
+  /** Line height of a font: its ascent plus descent, at `size`. */
+  function lineExtent(name: FontName, size: number): { ascent: number; descent: number } {
+    if (!isMathFont(name)) {
+      const { font } = standardFont(name);
+      const ascent = font.heightAtSize(size, { descender: false });
+      return { ascent, descent: font.heightAtSize(size) - ascent };
+    }
+    const { font } = mathFontFile(name);
+    return { ascent: (font.ascent / font.unitsPerEm) * size, descent: (-font.descent / font.unitsPerEm) * size };
+  }
+
+  function markUsed(name: FontName) {
+    if (isMathFont(name)) used.add(name);
+    else standardFont(name);
+  }
+
+  /**
+   * `text` set in `name`, switching to a fallback font for the characters
+   * it lacks. Characters no font has are drawn as "?".
+   */
+  function textBox(name: FontName, text: string, size: number): TypesetBox {
+    const items: DrawItem[] = [];
+    let width = 0;
+    let height = 0;
+    let depth = 0;
+    const flush = (font: FontName, run: string) => {
+      if (!run) return;
+      markUsed(font);
+      const runExtent = extent(font, run, size);
+      items.push({ type: "text", font, size, x: width, y: 0, text: run });
+      width += measure(font, run, size);
+      height = Math.max(height, runExtent.height);
+      depth = Math.max(depth, runExtent.depth);
+    };
+
+    let runFont = name;
+    let run = "";
+    for (const char of Array.from(text)) {
+      const font = fontFor(name, char);
+      const drawn = font ?? "serif";
+      if (drawn !== runFont) {
+        flush(runFont, run);
+        runFont = drawn;
+        run = "";
+      }
+      run += font ? char : "?";
+    }
+    flush(runFont, run);
+    return { width, height, depth, items };
+  }
+
+  async function embed() {
+    for (const name of Array.from(used)) {
+      if (!embedded.has(name)) {
+        embedded.set(name, await pdf.embedFont(mathFontFile(name).bytes, { subset: true }));
+      }
+    }
+  }
+
+  function pdfFont(name: FontName): PDFFont {
+    const font = embedded.get(name);
+    if (!font) throw new Error(`Font ${name} was not embedded`);
+    return font;
+  }
+
+  return { has: (name: FontName, char: string) => has(name, char.codePointAt(0)!), textBox, lineExtent, embed, pdfFont };
+}
+
+/** Something to draw, relative to the baseline at the left of the box it belongs to. */
+export type DrawItem =
+  | { type: "text"; font: FontName; size: number; x: number; y: number; text: string }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; thickness: number };
+
+/** Laid out content: `height` above and `depth` below its baseline. */
+export type TypesetBox = { width: number; height: number; depth: number; items: DrawItem[] };
+
+/** The items of `box`, moved by `dx` and `dy`. */
+export function shiftItems(box: TypesetBox, dx: number, dy: number): DrawItem[] {
+  return box.items.map(item =>
+    item.type === "text"
+      ? { ...item, x: item.x + dx, y: item.y + dy }
+      : { ...item, x1: item.x1 + dx, y1: item.y1 + dy, x2: item.x2 + dx, y2: item.y2 + dy }
+  );
+}
@@ -1,5 +1,7 @@
 import { Server as HttpServer } from "http";
 import { Server, Socket } from "socket.io";
+import { attachRealtimeServer, registerRealtimeHandlers } from "./realtime";
+import { verifyActiveParticipant } from "./_core/participantToken";
 
 interface Participant {
   socketId: string;
@@ -27,18 +29,28 @@ export function initializeWebRTCSignaling(httpServer: HttpServer) {
     path: "/api/webrtc",
   });
 
+  // Session events (chat, exercises, PDF sync...) share this server
+  attachRealtimeServer(io);
+
   io.on("connection", (socket: Socket) => {
     console.log(`[WebRTC] Client connected: ${socket.id}`);
 
-    // Join a room
-    socket.on("join-room", (data: {
+    registerRealtimeHandlers(socket);
+
+    // Join a room - identity and host role come from the signed participant token
+    socket.on("join-room", async (data: {
       roomSlug: string;
-      sessionId: number;
-      oderId: number;
-      odername: string;
-      isHost: boolean;
+      participantToken: string;
     }) => {
-      const { roomSlug, sessionId, oderId, odername, isHost } = data;
+      const claims = await verifyActiveParticipant(data?.participantToken);
+      if (!claims) {
+        socket.emit("join-error", { message: "Token de participante inválido" });
+        return;
+      }
+
+      const { roomSlug } = data;
+      const { sessionId, participantId: oderId, name: odername } = claims;
+      const isHost = claims.role === "teacher";
       const roomKey = `${roomSlug}-${sessionId}`;
 
       // Create room if it doesn't exist
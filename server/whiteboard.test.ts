@@ -0,0 +1,128 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import type { Socket } from "socket.io";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { registerRealtimeHandlers } from "./realtime";
+import { SEND_BOARD_DRAFT, SESSION_EVENTS, SUBSCRIBE_SESSION } from "@shared/realtime";
+import { boardStrokeHit } from "@shared/board";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getWhiteboard: vi.fn(),
+  upsertWhiteboard: vi.fn(),
+  getWhiteboardStrokes: vi.fn(),
+  addWhiteboardStroke: vi.fn(),
+  deleteWhiteboardStrokes: vi.fn(),
+  clearWhiteboardPage: vi.fn(),
+  getSessionById: vi.fn(),
+  getParticipantById: vi.fn().mockResolvedValue({ id: 1, sessionId: 1, leftAt: null }),
+  getRoomById: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { signParticipantToken } from "./_core/participantToken";
+
+ENV.cookieSecret = "test-secret";
+
+function createParticipantToken(participantId: number, role: "teacher" | "student" = "student") {
+  return signParticipantToken({ sessionId: 1, participantId, role, name: "Aluno" });
+}
+
+function createMockContext(user: TrpcContext["user"] = null): TrpcContext {
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+function createTeacherContext(): TrpcContext {
+  return createMockContext({
+    id: 1,
+    openId: "teacher",
+    email: "teacher@example.com",
+    name: "Professor",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  });
+}
+
+const line = { page: 1, tool: "line" as const, data: { color: "#111827", width: 3, points: [[0, 0], [100, 100]] as [number, number][] } };
+
+describe("whiteboard", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getWhiteboard).mockResolvedValue({ id: 1, sessionId: 1, pageCount: 2, currentPage: 1, drawers: "[5]" } as any);
+    vi.mocked(db.addWhiteboardStroke).mockImplementation(async stroke => ({ id: 9, createdAt: new Date(), ...stroke }) as any);
+    vi.mocked(db.getSessionById).mockResolvedValue({ id: 1, roomId: 1, status: "active" } as any);
+    vi.mocked(db.getRoomById).mockResolvedValue({ id: 1, hostId: 1 } as any);
+  });
+
+  it("lets the teacher and granted students draw", async () => {
+    const caller = appRouter.createCaller(createMockContext());
+
+    await caller.board.addStroke({ participantToken: await createParticipantToken(2, "teacher"), ...line });
+    await caller.board.addStroke({ participantToken: await createParticipantToken(5), ...line });
+    await expect(caller.board.addStroke({ participantToken: await createParticipantToken(6), ...line }))
+      .rejects.toThrow("O professor ainda não liberou o quadro para você");
+
+    expect(db.addWhiteboardStroke).toHaveBeenCalledTimes(2);
+    expect(db.addWhiteboardStroke).toHaveBeenLastCalledWith(expect.objectContaining({ participantId: 5, page: 1, tool: "line" }));
+  });
+
+  it("rejects strokes that do not fit their tool or the board", async () => {
+    const caller = appRouter.createCaller(createMockContext());
+    const participantToken = await createParticipantToken(5);
+
+    await expect(caller.board.addStroke({ participantToken, ...line, data: { ...line.data, points: [[0, 0]] } }))
+      .rejects.toThrow("Uma forma tem início e fim");
+    await expect(caller.board.addStroke({ participantToken, ...line, page: 3 })).rejects.toThrow("Página não encontrada");
+    expect(db.addWhiteboardStroke).not.toHaveBeenCalled();
+  });
+
+  it("adds one page at a time", async () => {
+    const caller = appRouter.createCaller(createTeacherContext());
+
+    await caller.board.setPage({ sessionId: 1, page: 3 });
+    expect(db.upsertWhiteboard).toHaveBeenCalledWith(1, { currentPage: 3, pageCount: 3 });
+
+    await expect(caller.board.setPage({ sessionId: 1, page: 5 })).rejects.toThrow("Página não encontrada");
+  });
+
+  it("only relays drafts of participants who can draw", async () => {
+    const handlers = new Map<string, (data: unknown) => Promise<void> | void>();
+    const emit = vi.fn();
+    const socket = {
+      data: {},
+      on: vi.fn((event: string, handler: (data: unknown) => void) => handlers.set(event, handler)),
+      emit: vi.fn(),
+      join: vi.fn(),
+      to: vi.fn().mockReturnValue({ emit }),
+    };
+    registerRealtimeHandlers(socket as unknown as Socket);
+
+    await handlers.get(SUBSCRIBE_SESSION)?.({ participantToken: await createParticipantToken(5) });
+    await handlers.get(SEND_BOARD_DRAFT)?.({ page: 1, tool: "line", data: line.data });
+    await handlers.get(SEND_BOARD_DRAFT)?.({ page: 1, tool: "laser", data: null });
+
+    expect(socket.to).toHaveBeenCalledWith("session:1");
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith(SESSION_EVENTS.boardDraft, { participantId: 5, ...line });
+  });
+
+  it("erases strokes touched by the eraser", () => {
+    expect(boardStrokeHit("line", line.data, [50, 55], 5)).toBe(true);
+    expect(boardStrokeHit("line", line.data, [50, 80], 5)).toBe(false);
+    expect(boardStrokeHit("rectangle", line.data, [50, 50], 5)).toBe(false);
+    expect(boardStrokeHit("text", { color: "#111827", width: 20, points: [[10, 10]], text: "abc" }, [20, 20], 0)).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { BOARD_TOOLS, MAX_STROKE_POINTS, readBoardDrawers, validateBoardStroke } from "@shared/board";
+import type { ParticipantClaims } from "./_core/participantToken";
+import * as db from "./db";
+
+export const boardStrokeDataInput = z.object({
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  width: z.number().min(1).max(200),
+  points: z.array(z.tuple([z.number(), z.number()])).max(MAX_STROKE_POINTS),
+  text: z.string().optional(),
+});
+
+/** A stroke as sent by the client, checked against the rules of its tool. */
+export const boardStrokeInput = z.object({
+  page: z.number().int().min(1),
+  tool: z.enum(BOARD_TOOLS),
+  data: boardStrokeDataInput,
+}).superRefine(({ tool, data }, ctx) => {
+  const error = validateBoardStroke(tool, data);
+  if (error) ctx.addIssue({ code: "custom", message: error, path: ["data"] });
+});
+
+/**
+ * Whether a participant may draw on the board of their session: the
+ * teacher always, students and guests once the teacher grants it.
+ */
+export async function canDrawOnBoard(participant: ParticipantClaims): Promise<boolean> {
+  if (participant.role === "teacher") return true;
+  const board = await db.getWhiteboard(participant.sessionId);
+  return readBoardDrawers(board).includes(participant.participantId);
+}
@@ -0,0 +1,530 @@
+/**
+ * Checking of exercise answers. In "strict" mode the answer must be the
+ * expected text (ignoring case and surrounding spaces), as exercises have
+ * always been checked. In "equivalent" mode both are read as math —
+ * numbers, fractions, LaTeX, algebraic expressions, equations, with an
+ * optional unit — and compared by value: "0,5", "2/4" and "\frac{1}{2}"
+ * all match "1/2", "1e3" is 1000, and "1+x" matches "x+1". Expressions with variables are
+ * compared at sample points. Every result carries a reason for the teacher.
+ */
+
+import {
+  evaluate,
+  findWords,
+  formatMathError,
+  getFreeSymbols,
+  MathParseError,
+  parseExpression,
+  type MathNode,
+  type MathScope,
+} from "./mathExpression";
+
+export const ANSWER_CHECK_MODES = ["strict", "equivalent"] as const;
+export type AnswerCheckMode = (typeof ANSWER_CHECK_MODES)[number];
+
+export const ANSWER_CHECK_MODE_LABELS: Record<AnswerCheckMode, string> = {
+  strict: "Texto exato",
+  equivalent: "Equivalência matemática",
+};
+
+export const TOLERANCE_TYPES = ["absolute", "relative"] as const;
+export type ToleranceType = (typeof TOLERANCE_TYPES)[number];
+
+export type AnswerCheckOptions = {
+  mode: AnswerCheckMode;
+  // Accepted difference: in the unit of the expected answer, or a fraction of it when relative
+  tolerance?: number | null;
+  toleranceType?: ToleranceType;
+};
+
+export type AnswerCheckResult = {
+  correct: boolean;
+  // Why, in words the teacher can read next to the answer
+  reason: string;
+};
+
+// Differences below this, relative to the values compared, are rounding
+const DEFAULT_RELATIVE_TOLERANCE = 1e-9;
+
+// Points where expressions with variables are compared
+const SAMPLE_COUNT = 24;
+const MIN_VALID_SAMPLES = 6;
+
+// ==================== UNITS ====================
+
+type Dimensions = Record<string, number>;
+
+export type Unit = {
+  // As typed, for messages
+  text: string;
+  // Multiplier to the base units of the dimensions
+  factor: number;
+  dimensions: Dimensions;
+};
+
+type UnitDefinition = { factor: number; dimensions: Dimensions; prefixable?: boolean };
+
+const LENGTH = { m: 1 };
+const MASS = { kg: 1 };
+const TIME = { s: 1 };
+
+const UNITS: Record<string, UnitDefinition> = {
+  m: { factor: 1, dimensions: LENGTH, prefixable: true },
+  g: { factor: 1e-3, dimensions: MASS, prefixable: true },
+  t: { factor: 1000, dimensions: MASS },
+  s: { factor: 1, dimensions: TIME, prefixable: true },
+  min: { factor: 60, dimensions: TIME },
+  h: { factor: 3600, dimensions: TIME },
+  L: { factor: 1e-3, dimensions: { m: 3 }, prefixable: true },
+  l: { factor: 1e-3, dimensions: { m: 3 }, prefixable: true },
+  ha: { factor: 1e4, dimensions: { m: 2 } },
+  N: { factor: 1, dimensions: { kg: 1, m: 1, s: -2 }, prefixable: true },
+  J: { factor: 1, dimensions: { kg: 1, m: 2, s: -2 }, prefixable: true },
+  W: { factor: 1, dimensions: { kg: 1, m: 2, s: -3 }, prefixable: true },
+  Pa: { factor: 1, dimensions: { kg: 1, m: -1, s: -2 }, prefixable: true },
+  Hz: { factor: 1, dimensions: { s: -1 }, prefixable: true },
+  mol: { factor: 1, dimensions: { mol: 1 } },
+  rad: { factor: 1, dimensions: { rad: 1 } },
+  "°": { factor: Math.PI / 180, dimensions: { rad: 1 } },
+  grau: { factor: Math.PI / 180, dimensions: { rad: 1 } },
+  graus: { factor: Math.PI / 180, dimensions: { rad: 1 } },
+  // Temperatures are only compared in the same scale: there is no factor between them
+  "°C": { factor: 1, dimensions: { "°C": 1 } },
+  K: { factor: 1, dimensions: { K: 1 } },
+  "%": { factor: 0.01, dimensions: {} },
+};
+
+const PREFIXES: Record<string, number> = {
+  G: 1e9, M: 1e6, k: 1e3, h: 1e2, d: 1e-1, c: 1e-2, m: 1e-3, "µ": 1e-6, u: 1e-6, n: 1e-9,
+};
+
+function unitFactor(name: string): UnitDefinition | null {
+  if (Object.prototype.hasOwnProperty.call(UNITS, name)) return UNITS[name];
+  for (const prefix of Object.keys(PREFIXES)) {
+    const base = name.slice(prefix.length);
+    if (name.startsWith(prefix) && Object.prototype.hasOwnProperty.call(UNITS, base) && UNITS[base].prefixable) {
+      return { ...UNITS[base], factor: PREFIXES[prefix] * UNITS[base].factor };
+    }
+  }
+  return null;
+}
+
+const UNIT_FACTOR = /^([a-zA-Zµ°%]+|°C)(?:\^(-?\d+)|([²³]))?$/;
+
+/** A unit like "km", "m/s^2", "kg·m/s²" or "°", or null when the text is not one. */
+export function parseUnit(text: string): Unit | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const dimensions: Dimensions = {};
+  let factor = 1;
+  // "/" divides by the factor right after it only: kg·m/s² is kg·m·s⁻²
+  const parts = trimmed.replace(/\s*([/*·])\s*/g, " $1").split(/\s+/);
+  for (const part of parts) {
+    const divide = part.startsWith("/");
+    const body = /^[/*·]/.test(part) ? part.slice(1) : part;
+    const match = body.match(UNIT_FACTOR);
+    if (!match) return null;
+    const definition = unitFactor(match[1]);
+    if (!definition) return null;
+    const power = (match[2] ? parseInt(match[2], 10) : match[3] === "²" ? 2 : match[3] === "³" ? 3 : 1) * (divide ? -1 : 1);
+    factor *= Math.pow(definition.factor, power);
+    for (const [base, exponent] of Object.entries(definition.dimensions)) {
+      dimensions[base] = (dimensions[base] ?? 0) + exponent * power;
+      if (dimensions[base] === 0) delete dimensions[base];
+    }
+  }
+  return { text: trimmed, factor, dimensions };
+}
+
+function sameDimensions(a: Dimensions, b: Dimensions): boolean {
+  const keys = new Set(Object.keys(a).concat(Object.keys(b)));
+  let same = true;
+  keys.forEach(key => {
+    if ((a[key] ?? 0) !== (b[key] ?? 0)) same = false;
+  });
+  return same;
+}
+
+// A unit after the value, optionally separated by spaces: "3 km", "90°", "9,8 m/s^2"
+const TRAILING_UNIT = /^(.*?[\d)}.\s])\s*((?:°C|[a-zA-Zµ°%][a-zA-Zµ°]*)(?:\^-?\d+|[²³])?(?:\s*[/*·]\s*[a-zA-Zµ°][a-zA-Zµ°]*(?:\^-?\d+|[²³])?)*)\s*$/;
+
+// ==================== NORMALIZATION ====================
+
+const LATEX_REPLACEMENTS: [RegExp, string][] = [
+  [/\\(?:left|right|displaystyle|big|Big|bigg|Bigg)\b/g, ""],
+  [/\\(?:,|;|:|!|quad|qquad)/g, " "],
+  [/\\(?:cdot|times|ast)\b/g, "*"],
+  [/\\div\b/g, "/"],
+  [/\\(?:leq?|leqslant)\b/g, "<="],
+  [/\\(?:geq?|geqslant)\b/g, ">="],
+  [/\\(?:neq?)\b/g, "!="],
+  [/\\pi\b/g, "π"],
+  [/\\(?:lvert|rvert|vert)\b|\\\|/g, "|"],
+  [/\\%/g, "%"],
+  [/\^\s*\{?\s*\\circ\s*\}?|\\degree\b/g, "°"],
+  [/\{,\}/g, ","],
+  [/_\{([a-zA-Z0-9]+)\}/g, "_$1"],
+  [/\\(?:text|mathrm|textrm|operatorname|mbox)\s*\{([^{}]*)\}/g, " $1"],
+  [/\\(arcsin|arccos|arctan|sinh|cosh|tanh|sin|cos|tan|cot|sec|csc|ln|log|exp|min|max)\b/g, " $1 "],
+];
+
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ε", varepsilon: "ε", theta: "θ", vartheta: "θ",
+  lambda: "λ", mu: "μ", sigma: "σ", phi: "φ", varphi: "φ", omega: "ω", rho: "ρ", tau: "τ",
+};
+
+/** Index just past the `{...}` group opening at `start`, or -1 when unbalanced. */
+function groupEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === "{") depth++;
+    else if (text[index] === "}" && --depth === 0) return index + 1;
+  }
+  return -1;
+}
+
+/** The argument of a LaTeX command at `at`: a `{...}` group or a single character. */
+function readArgument(text: string, at: number): { content: string; end: number } | null {
+  while (text[at] === " ") at++;
+  if (at >= text.length) return null;
+  if (text[at] === "{") {
+    const end = groupEnd(text, at);
+    return end === -1 ? null : { content: text.slice(at + 1, end - 1), end };
+  }
+  return { content: text[at], end: at + 1 };
+}
+
+/** LaTeX structure the expression parser reads differently: fractions, roots, braces. */
+function latexToExpression(text: string): string {
+  let result = "";
+  let at = 0;
+  while (at < text.length) {
+    const rest = text.slice(at);
+    const fraction = rest.match(/^\\[dt]?frac/);
+    if (fraction) {
+      const numerator = readArgument(text, at + fraction[0].length);
+      const denominator = numerator && readArgument(text, numerator.end);
+      if (numerator && denominator) {
+        result += `((${latexToExpression(numerator.content)})/(${latexToExpression(denominator.content)}))`;
+        at = denominator.end;
+        continue;
+      }
+    }
+    if (rest.startsWith("\\sqrt")) {
+      let position = at + 5;
+      let index: string | null = null;
+      if (text[position] === "[") {
+        const close = text.indexOf("]", position);
+        if (close !== -1) {
+          index = text.slice(position + 1, close);
+          position = close + 1;
+        }
+      }
+      const radicand = readArgument(text, position);
+      if (radicand) {
+        const inner = latexToExpression(radicand.content);
+        result += index ? `((${inner})^(1/(${latexToExpression(index)})))` : `sqrt(${inner})`;
+        at = radicand.end;
+        continue;
+      }
+    }
+    const command = rest.match(/^\\([a-zA-Z]+)/);
+    if (command && GREEK[command[1]]) {
+      result += GREEK[command[1]];
+      at += command[0].length;
+      continue;
+    }
+    result += text[at] === "{" ? "(" : text[at] === "}" ? ")" : text[at];
+    at++;
+  }
+  return result;
+}
+
+/**
+ * Plain expression syntax for an answer as students type it: LaTeX
+ * delimiters and commands, decimal commas and typographic symbols.
+ */
+export function normalizeAnswerText(text: string): string {
+  let normalized = text.trim()
+    .replace(/^\$\$?|\$\$?$/g, "")
+    .replace(/^\\[([]|\\[)\]]$/g, "")
+    .trim();
+
+  if (/[\\{}]/.test(normalized)) {
+    for (const [pattern, replacement] of LATEX_REPLACEMENTS) normalized = normalized.replace(pattern, replacement);
+    normalized = latexToExpression(normalized);
+  }
+
+  // A comma between digits is a decimal comma unless it separates arguments of a function
+  if (!/[a-zA-Z]\s*\(/.test(normalized)) {
+    normalized = normalized.replace(/(\d),(\d)/g, "$1.$2");
+  }
+  // Scientific notation as calculators show it: "1e3" and "6,02E23" are powers of ten, not products with e
+  normalized = normalized.replace(/(?<![\w.])(\d+(?:\.\d+)?)[eE]([+-]?\d+)(?![\w.])/g, "($1*10^($2))");
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
+// ==================== PARSING ====================
+
+export type ParsedAnswer = {
+  expression: MathNode;
+  unit: Unit | null;
+};
+
+/**
+ * Read an answer as an expression and an optional unit after it. A unit
+ * is only split off a value without variables, so "2m" with a variable m
+ * elsewhere stays algebra. Throws MathParseError.
+ */
+export function parseAnswer(text: string): ParsedAnswer {
+  const normalized = normalizeAnswerText(text);
+  if (!normalized) throw new MathParseError("Resposta vazia", 0);
+
+  const withUnit = normalized.match(TRAILING_UNIT);
+  if (withUnit) {
+    const unit = parseUnit(withUnit[2]);
+    if (unit) {
+      try {
+        const expression = parseExpression(withUnit[1]);
+        if (getFreeSymbols(expression).length === 0) return { expression, unit };
+      } catch {
+        // Not a value followed by a unit: read the whole answer as an expression
+      }
+    }
+  }
+  return { expression: parseExpression(normalized), unit: null };
+}
+
+// ==================== COMPARISON ====================
+
+/** A number as shown in reasons: six significant digits, or as many as asked, and a decimal comma. */
+export function formatNumber(value: number, digits = 6): string {
+  if (!Number.isFinite(value)) return "indefinido";
+  const rounded = Number(value.toPrecision(digits));
+  return String(rounded).replace(".", ",");
+}
+
+/** Two different values with the digits it takes to tell them apart. */
+function formatDifferent(a: number, b: number): [string, string] {
+  let digits = 6;
+  while (digits < 17 && formatNumber(a, digits) === formatNumber(b, digits)) digits++;
+  return [formatNumber(a, digits), formatNumber(b, digits)];
+}
+
+function withinTolerance(answer: number, expected: number, options: AnswerCheckOptions): boolean {
+  const difference = Math.abs(answer - expected);
+  const scale = Math.max(Math.abs(answer), Math.abs(expected), 1);
+  if (difference <= DEFAULT_RELATIVE_TOLERANCE * scale) return true;
+  if (!options.tolerance) return false;
+  return options.toleranceType === "relative"
+    ? difference <= options.tolerance * Math.abs(expected)
+    : difference <= options.tolerance;
+}
+
+function describeTolerance(options: AnswerCheckOptions): string {
+  if (!options.tolerance) return "";
+  return options.toleranceType === "relative"
+    ? ` (tolerância de ${formatNumber(options.tolerance * 100)}%)`
+    : ` (tolerância de ±${formatNumber(options.tolerance)})`;
+}
+
+// Deterministic sample points, so the same answer always gets the same result
+function samplePoints(names: string[]): MathScope[] {
+  const points: MathScope[] = [];
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  for (let index = 0; index < SAMPLE_COUNT; index++) {
+    const scope: MathScope = {};
+    // Both signs, away from 0 and from integers where expressions tend to be special
+    for (const name of names) scope[name] = (random() < 0.5 ? -1 : 1) * (0.3 + 2.7 * random());
+    points.push(scope);
+  }
+  return points;
+}
+
+function valueAt(expression: MathNode, scope: MathScope): number {
+  try {
+    return evaluate(expression, scope);
+  } catch {
+    return NaN;
+  }
+}
+
+type Relation = { op: "=" | ">" | ">=" | "!="; difference: MathNode };
+
+const REVERSED: Record<string, "<" | "<=" | ">" | ">="> = { "<": ">", "<=": ">=", ">": "<", ">=": "<=" };
+
+/** An equation or inequality as `difference op 0`, with < and <= turned around. */
+function relationOf(node: MathNode): Relation | null {
+  if (node.type !== "compare") return null;
+  const subtract = (left: MathNode, right: MathNode): MathNode =>
+    ({ type: "binary", op: "-", left, right, start: node.start, end: node.end });
+  if (node.op === "<" || node.op === "<=") {
+    return { op: REVERSED[node.op] as ">" | ">=", difference: subtract(node.right, node.left) };
+  }
+  return { op: node.op, difference: subtract(node.left, node.right) };
+}
+
+/** The value in `x = 3` or `3 = x`, for answers that name the variable they solve for. */
+function solvedValue(node: MathNode): MathNode | null {
+  if (node.type !== "compare" || node.op !== "=") return null;
+  if (node.left.type === "symbol" && getFreeSymbols(node.right).length === 0) return node.right;
+  if (node.right.type === "symbol" && getFreeSymbols(node.left).length === 0) return node.left;
+  return null;
+}
+
+function compareRelations(answer: Relation, expected: Relation, names: string[]): AnswerCheckResult {
+  if (answer.op !== expected.op) {
+    return { correct: false, reason: "O tipo de relação (=, <, ≤...) é diferente da resposta esperada" };
+  }
+  // Equivalent relations have differences that are a constant multiple of each other,
+  // positive for inequalities so they point the same way
+  let ratio: number | null = null;
+  let valid = 0;
+  for (const scope of samplePoints(names)) {
+    const a = valueAt(answer.difference, scope);
+    const e = valueAt(expected.difference, scope);
+    if (!Number.isFinite(a) || !Number.isFinite(e)) continue;
+    if (Math.abs(e) < 1e-12 || Math.abs(a) < 1e-12) {
+      if (Math.abs(e) < 1e-12 && Math.abs(a) < 1e-12) valid++;
+      else return { correct: false, reason: "Não é equivalente à relação esperada" };
+      continue;
+    }
+    const current = a / e;
+    if (ratio === null) ratio = current;
+    else if (Math.abs(current - ratio) > 1e-9 * Math.max(1, Math.abs(ratio))) {
+      return { correct: false, reason: "Não é equivalente à relação esperada" };
+    }
+    valid++;
+  }
+  if (valid < MIN_VALID_SAMPLES) {
+    return { correct: false, reason: "Não foi possível comparar: as expressões não têm valor na maioria dos pontos" };
+  }
+  if (ratio !== null && expected.op !== "=" && expected.op !== "!=" && ratio < 0) {
+    return { correct: false, reason: "A desigualdade está invertida" };
+  }
+  return { correct: true, reason: "Relação equivalente à resposta esperada" };
+}
+
+function compareExpressions(answer: MathNode, expected: MathNode, scale: number, options: AnswerCheckOptions): AnswerCheckResult {
+  const expectedNames = getFreeSymbols(expected);
+  const extra = getFreeSymbols(answer).filter(name => !expectedNames.includes(name));
+  const names = expectedNames.concat(extra);
+
+  if (names.length === 0) {
+    const a = valueAt(answer, {}) * scale;
+    const e = valueAt(expected, {});
+    if (!Number.isFinite(a)) return { correct: false, reason: "A resposta não tem valor definido" };
+    if (withinTolerance(a, e, options)) {
+      return { correct: true, reason: a === e ? "Mesmo valor da resposta esperada" : `Valor ${formatNumber(a)} aceito para ${formatNumber(e)}${describeTolerance(options)}` };
+    }
+    const [given, wanted] = formatDifferent(a, e);
+    return { correct: false, reason: `Valor ${given} diferente do esperado, ${wanted}${describeTolerance(options)}` };
+  }
+
+  let valid = 0;
+  for (const scope of samplePoints(names)) {
+    const a = valueAt(answer, scope) * scale;
+    const e = valueAt(expected, scope);
+    if (!Number.isFinite(a) || !Number.isFinite(e)) continue;
+    if (!withinTolerance(a, e, options)) {
+      const at = names.map(name => `${name} = ${formatNumber(scope[name])}`).join(", ");
+      const unknown = extra.length > 0 ? `; usa ${extra.join(", ")}, que não aparece na resposta esperada` : "";
+      const [given, wanted] = formatDifferent(a, e);
+      return { correct: false, reason: `Não é equivalente: com ${at}, a resposta vale ${given} e a esperada ${wanted}${unknown}` };
+    }
+    valid++;
+  }
+  if (valid < MIN_VALID_SAMPLES) {
+    return { correct: false, reason: "Não foi possível comparar: as expressões não têm valor na maioria dos pontos" };
+  }
+  return { correct: true, reason: "Expressão equivalente à resposta esperada" };
+}
+
+function checkStrict(answer: string, expected: string): AnswerCheckResult {
+  const correct = answer.trim().toLowerCase() === expected.trim().toLowerCase();
+  return { correct, reason: correct ? "Texto igual à resposta esperada" : "Texto diferente da resposta esperada" };
+}
+
+// Text that is not math, such as a name or a word: a unit is not a word
+function hasWords(text: string): boolean {
+  return findWords(normalizeAnswerText(text)).some(word => !parseUnit(word));
+}
+
+// Text compared as written, LaTeX delimiters, spacing and case aside
+function checkText(answer: string, expected: string, note: string): AnswerCheckResult {
+  const result = checkStrict(normalizeAnswerText(answer), normalizeAnswerText(expected));
+  return { ...result, reason: `${result.reason} (${note})` };
+}
+
+/** Check a student's answer against the expected one of an exercise. */
+export function checkAnswer(answer: string, expected: string, options: AnswerCheckOptions): AnswerCheckResult {
+  if (options.mode === "strict") return checkStrict(answer, expected);
+
+  let expectedAnswer: ParsedAnswer | null = null;
+  if (!hasWords(expected)) {
+    try {
+      expectedAnswer = parseAnswer(expected);
+    } catch (error) {
+      if (!(error instanceof MathParseError)) throw error;
+    }
+  }
+  if (!expectedAnswer) {
+    // Checked when the exercise is created; exercises from before and answers in words fall back to text
+    return checkText(answer, expected, "a resposta esperada não é uma expressão e foi comparada como texto");
+  }
+
+  let given: ParsedAnswer | null = null;
+  let notMath = "a resposta não é uma expressão";
+  if (!hasWords(answer)) {
+    try {
+      given = parseAnswer(answer);
+    } catch (error) {
+      if (!(error instanceof MathParseError)) throw error;
+      notMath = `não foi possível interpretar a resposta: ${formatMathError(error)}`;
+    }
+  }
+  if (!given) return checkText(answer, expected, `${notMath}; comparada como texto`);
+
+  // Values in another unit of the same kind are converted to the expected one.
+  // A plain number and a percentage compare by value: 0,5 matches 50%
+  let scale = 1;
+  let unitNote = "";
+  const dimensionless = (unit: Unit | null) => !unit || Object.keys(unit.dimensions).length === 0;
+  if (dimensionless(expectedAnswer.unit) && dimensionless(given.unit)) {
+    scale = (given.unit?.factor ?? 1) / (expectedAnswer.unit?.factor ?? 1);
+  } else if (expectedAnswer.unit) {
+    if (!given.unit) {
+      return { correct: false, reason: `Faltou a unidade (esperada: ${expectedAnswer.unit.text})` };
+    }
+    if (!sameDimensions(given.unit.dimensions, expectedAnswer.unit.dimensions)) {
+      return { correct: false, reason: `Unidade incompatível: ${given.unit.text} não pode ser convertida em ${expectedAnswer.unit.text}` };
+    }
+    scale = given.unit.factor / expectedAnswer.unit.factor;
+    if (given.unit.text !== expectedAnswer.unit.text) unitNote = ` (convertida de ${given.unit.text} para ${expectedAnswer.unit.text})`;
+  } else if (given.unit) {
+    unitNote = ` (unidade ${given.unit.text} ignorada)`;
+  }
+
+  const answerRelation = relationOf(given.expression);
+  const expectedRelation = relationOf(expectedAnswer.expression);
+  let result: AnswerCheckResult;
+  if (answerRelation && expectedRelation) {
+    const names = Array.from(new Set(getFreeSymbols(given.expression).concat(getFreeSymbols(expectedAnswer.expression))));
+    result = compareRelations(answerRelation, expectedRelation, names);
+  } else if (answerRelation || expectedRelation) {
+    // "x = 3" for an expected "3", or the other way around
+    const answerValue = answerRelation ? solvedValue(given.expression) : given.expression;
+    const expectedValue = expectedRelation ? solvedValue(expectedAnswer.expression) : expectedAnswer.expression;
+    result = answerValue && expectedValue
+      ? compareExpressions(answerValue, expectedValue, scale, options)
+      : { correct: false, reason: answerRelation ? "A resposta é uma equação ou desigualdade, a esperada não" : "A resposta esperada é uma equação ou desigualdade" };
+  } else {
+    result = compareExpressions(given.expression, expectedAnswer.expression, scale, options);
+  }
+  return { ...result, reason: result.reason + unitNote };
+}
@@ -0,0 +1,144 @@
+/**
+ * Collaborative whiteboard of a session. Strokes are stored in board
+ * coordinates (a 1600 × 900 page) so every screen size draws the same
+ * board. Shared by the server (validation) and the client (drawing and
+ * the eraser's hit test).
+ */
+
+import type { WhiteboardStroke } from "../drizzle/schema";
+
+export type BoardTool = WhiteboardStroke["tool"];
+
+export const BOARD_TOOLS: readonly BoardTool[] = [
+  "pen", "highlighter", "line", "arrow", "rectangle", "ellipse", "text", "latex",
+];
+
+export const BOARD_TOOL_LABELS: Record<BoardTool, string> = {
+  pen: "Caneta",
+  highlighter: "Marca-texto",
+  line: "Linha",
+  arrow: "Seta",
+  rectangle: "Retângulo",
+  ellipse: "Elipse",
+  text: "Texto",
+  latex: "Fórmula (LaTeX)",
+};
+
+export const BOARD_WIDTH = 1600;
+export const BOARD_HEIGHT = 900;
+
+export const MAX_BOARD_PAGES = 20;
+export const MAX_STROKE_POINTS = 2000;
+export const MAX_BOARD_TEXT = 500;
+
+export const BOARD_COLORS = ["#111827", "#2563eb", "#dc2626", "#16a34a", "#f59e0b", "#9333ea", "#ffffff"];
+
+// Formulas offered by the LaTeX stamp
+export const LATEX_STAMPS = [
+  "\\frac{a}{b}",
+  "\\sqrt{x}",
+  "x^{2}",
+  "\\int_{a}^{b} f(x)\\,dx",
+  "\\sum_{n=1}^{\\infty} a_n",
+  "\\lim_{x \\to 0} f(x)",
+  "\\frac{d}{dx} f(x)",
+  "\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}",
+];
+
+export type BoardPoint = [number, number];
+
+export type BoardStrokeData = {
+  color: string;
+  // Line width, or font size for text and formulas
+  width: number;
+  // Pen and highlighter: the path; shapes: start and end; text and formulas: top-left corner
+  points: BoardPoint[];
+  // Text, or LaTeX source for formulas
+  text?: string;
+};
+
+/** A stroke being drawn, relayed to the other participants before it is saved. */
+export type BoardDraft = {
+  participantId: number;
+  page: number;
+  tool: BoardTool;
+  // null when the stroke was cancelled or saved
+  data: BoardStrokeData | null;
+};
+
+const FREEHAND: BoardTool[] = ["pen", "highlighter"];
+const SHAPES: BoardTool[] = ["line", "arrow", "rectangle", "ellipse"];
+
+/** Why the stroke cannot be saved, or null if it is fine. */
+export function validateBoardStroke(tool: BoardTool, data: BoardStrokeData): string | null {
+  const { points, text } = data;
+  if (points.some(([x, y]) => x < 0 || x > BOARD_WIDTH || y < 0 || y > BOARD_HEIGHT)) {
+    return "Ponto fora do quadro";
+  }
+  if (FREEHAND.includes(tool)) {
+    if (points.length === 0 || points.length > MAX_STROKE_POINTS) return "Traço com pontos demais";
+  } else if (SHAPES.includes(tool)) {
+    if (points.length !== 2) return "Uma forma tem início e fim";
+  } else {
+    if (points.length !== 1) return "Um texto tem uma posição";
+    if (!text?.trim() || text.length > MAX_BOARD_TEXT) return "Texto vazio ou longo demais";
+  }
+  return null;
+}
+
+function distanceToSegment([px, py]: BoardPoint, [ax, ay]: BoardPoint, [bx, by]: BoardPoint): number {
+  const [dx, dy] = [bx - ax, by - ay];
+  const length = dx * dx + dy * dy;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / length));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+function distanceToPath(point: BoardPoint, path: BoardPoint[]): number {
+  if (path.length === 1) return Math.hypot(point[0] - path[0][0], point[1] - path[0][1]);
+  let distance = Infinity;
+  for (let i = 1; i < path.length; i++) distance = Math.min(distance, distanceToSegment(point, path[i - 1], path[i]));
+  return distance;
+}
+
+/** Outline of an ellipse inscribed in the box from `a` to `b`. */
+export function ellipsePath([ax, ay]: BoardPoint, [bx, by]: BoardPoint, steps = 64): BoardPoint[] {
+  const [cx, cy, rx, ry] = [(ax + bx) / 2, (ay + by) / 2, Math.abs(bx - ax) / 2, Math.abs(by - ay) / 2];
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (2 * Math.PI * i) / steps;
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+  });
+}
+
+/**
+ * Whether the eraser, a circle of `radius` at `point`, touches the stroke.
+ * Text is measured roughly, as a box of 0.6 × size per character.
+ */
+export function boardStrokeHit(tool: BoardTool, data: BoardStrokeData, point: BoardPoint, radius: number): boolean {
+  const { points, width } = data;
+  const reach = radius + width / 2;
+
+  switch (tool) {
+    case "pen":
+    case "highlighter":
+    case "line":
+    case "arrow":
+      return distanceToPath(point, points) <= reach;
+    case "rectangle": {
+      const [[ax, ay], [bx, by]] = points;
+      return distanceToPath(point, [[ax, ay], [bx, ay], [bx, by], [ax, by], [ax, ay]]) <= reach;
+    }
+    case "ellipse":
+      return distanceToPath(point, ellipsePath(points[0], points[1])) <= reach;
+    case "text":
+    case "latex": {
+      const [[x, y]] = points;
+      const [boxWidth, boxHeight] = [0.6 * width * (data.text?.length ?? 1), 1.2 * width];
+      return point[0] >= x - radius && point[0] <= x + boxWidth + radius
+        && point[1] >= y - radius && point[1] <= y + boxHeight + radius;
+    }
+  }
+}
+
+export function readBoardDrawers(board: { drawers: string | null } | undefined): number[] {
+  return board?.drawers ? JSON.parse(board.drawers) : [];
+}
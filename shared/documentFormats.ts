@@ -0,0 +1,28 @@
+/**
+ * Files teachers can upload as room documents. Anything that is not a PDF
+ * is converted to one on the server, which recognizes the format from the
+ * file's content rather than its name or the type the browser reports.
+ */
+
+export const DOCUMENT_FORMATS = ["pdf", "png", "jpeg", "markdown", "latex"] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: "PDF",
+  png: "Imagem PNG",
+  jpeg: "Imagem JPEG",
+  markdown: "Markdown",
+  latex: "LaTeX",
+};
+
+// For the file picker; the server decides what the file really is
+export const DOCUMENT_UPLOAD_ACCEPT = "application/pdf,.pdf,image/png,image/jpeg,.png,.jpg,.jpeg,.md,.markdown,.txt,.tex,text/markdown,text/plain";
+
+// Images uploaded together become the pages of one PDF
+export const MAX_IMAGE_PAGES = 30;
+
+// Largest upload, all its files together, by account role
+export const MAX_DOCUMENT_UPLOAD_BYTES: Record<"user" | "admin", number> = {
+  user: 100 * 1024 * 1024,
+  admin: 500 * 1024 * 1024,
+};
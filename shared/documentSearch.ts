@@ -0,0 +1,61 @@
+/**
+ * Full-text search over the pages of a room's documents. Text is compared
+ * in lower case and without accents, so "funcao" finds "Função". Shared by
+ * the server (index and query) and the client (highlighting results).
+ */
+
+export const MIN_SEARCH_TERM_LENGTH = 2;
+export const MAX_SEARCH_TERMS = 5;
+export const MAX_SEARCH_RESULTS = 30;
+
+// Characters of context kept on each side of the match
+const SNIPPET_RADIUS = 60;
+
+export type SearchSnippet = {
+  text: string;
+  // [start, end) of each matched term within `text`
+  highlights: [number, number][];
+};
+
+/**
+ * Lower case, accents removed and any whitespace turned into a space.
+ * Every character maps to exactly one character, so positions in the
+ * normalized text are positions in the original.
+ */
+export function normalizeSearchText(text: string): string {
+  let normalized = "";
+  for (const char of text.split("")) {
+    normalized += /\s/.test(char) ? " " : char.normalize("NFD").charAt(0).toLowerCase().charAt(0);
+  }
+  return normalized;
+}
+
+/** Normalized words of a query that are long enough to search for. */
+export function searchTerms(query: string): string[] {
+  const terms = normalizeSearchText(query)
+    .split(" ")
+    .filter(term => term.length >= MIN_SEARCH_TERM_LENGTH);
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+/** The part of a page around the first match, with every match in it marked. */
+export function searchSnippet(text: string, terms: string[]): SearchSnippet {
+  const normalized = normalizeSearchText(text);
+  const first = terms.length > 0 ? normalized.indexOf(terms[0]) : -1;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, Math.max(first, 0) + (terms[0]?.length ?? 0) + SNIPPET_RADIUS);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const window = normalized.slice(start, end);
+
+  const highlights: [number, number][] = [];
+  for (const term of terms) {
+    for (let at = window.indexOf(term); at !== -1; at = window.indexOf(term, at + term.length)) {
+      highlights.push([prefix.length + at, prefix.length + at + term.length]);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
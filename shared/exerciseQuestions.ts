@@ -0,0 +1,548 @@
+/**
+ * The kinds of question an exercise can ask. Free-text questions keep
+ * their answer in the columns of the exercise, as they always have; every
+ * other kind is stored as JSON in `exercises.content`. Students are sent
+ * the public form of a question, without what makes an answer right, and
+ * the server grades what they send back.
+ */
+
+import type { Exercise } from "../drizzle/schema";
+import {
+  checkAnswer,
+  formatNumber,
+  parseAnswer,
+  parseUnit,
+  type AnswerCheckMode,
+  type ToleranceType,
+} from "./answerCheck";
+import { MathParseError, formatMathError } from "./mathExpression";
+
+export type QuestionType = Exercise["questionType"];
+
+export const QUESTION_TYPES: readonly QuestionType[] = ["text", "multipleChoice", "numeric", "trueFalse", "ordering", "multiPart"];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  text: "Resposta livre",
+  multipleChoice: "Múltipla escolha",
+  numeric: "Numérica",
+  trueFalse: "Verdadeiro ou falso",
+  ordering: "Ordenar passos",
+  multiPart: "Várias partes",
+};
+
+export const MIN_CHOICE_OPTIONS = 2;
+export const MAX_CHOICE_OPTIONS = 8;
+export const MIN_ORDERING_STEPS = 2;
+export const MAX_ORDERING_STEPS = 10;
+export const MIN_QUESTION_PARTS = 2;
+export const MAX_QUESTION_PARTS = 6;
+export const MAX_QUESTION_TEXT = 255;
+
+export type TextQuestion = {
+  type: "text";
+  correctAnswer: string;
+  checkMode: AnswerCheckMode;
+  tolerance?: number | null;
+  toleranceType?: ToleranceType;
+};
+
+export type ChoiceQuestion = {
+  type: "multipleChoice";
+  options: string[];
+  // Indexes of the right options: exactly one unless `multiple`
+  correct: number[];
+  multiple: boolean;
+};
+
+export type NumericQuestion = {
+  type: "numeric";
+  value: number;
+  // Accepted difference, in `unit` when there is one
+  tolerance: number;
+  unit?: string;
+};
+
+export type TrueFalseQuestion = {
+  type: "trueFalse";
+  correct: boolean;
+};
+
+export type OrderingQuestion = {
+  type: "ordering";
+  // In the right order; students get them shuffled
+  steps: string[];
+};
+
+export type SimpleQuestion = TextQuestion | ChoiceQuestion | NumericQuestion | TrueFalseQuestion | OrderingQuestion;
+
+export type QuestionPart = {
+  prompt: string;
+  // Earned when this part is right, whatever happens to the others
+  points: number;
+  question: SimpleQuestion;
+};
+
+export type MultiPartQuestion = {
+  type: "multiPart";
+  parts: QuestionPart[];
+};
+
+export type ExerciseQuestion = SimpleQuestion | MultiPartQuestion;
+
+// The questions kept in `exercises.content`
+export type ContentQuestion = Exclude<ExerciseQuestion, TextQuestion>;
+
+/**
+ * What a student sends: text for free-text and numeric questions, the
+ * indexes of the chosen options, true or false, the steps in the order
+ * given, or one of those per part (null for a part left blank).
+ */
+export type SimpleAnswer = string | boolean | number[] | string[];
+export type ExerciseAnswer = SimpleAnswer | (SimpleAnswer | null)[];
+
+export type PublicSimpleQuestion =
+  | { type: "text" }
+  | { type: "multipleChoice"; options: string[]; multiple: boolean }
+  | { type: "numeric"; unit?: string }
+  | { type: "trueFalse" }
+  | { type: "ordering"; steps: string[] };
+
+export type PublicQuestion =
+  | PublicSimpleQuestion
+  | { type: "multiPart"; parts: { prompt: string; points: number; question: PublicSimpleQuestion }[] };
+
+export type PartResult = {
+  correct: boolean;
+  pointsEarned: number;
+  reason: string;
+};
+
+export type GradeResult = PartResult & {
+  // Multi-part questions only, one per part
+  parts?: PartResult[];
+};
+
+type StoredExercise = Pick<Exercise, "questionType" | "content" | "correctAnswer" | "checkMode" | "tolerance" | "toleranceType">;
+
+/** The question of an exercise, from its content or, for free text, its columns. */
+export function readExerciseQuestion(exercise: StoredExercise): ExerciseQuestion {
+  if (exercise.content && exercise.questionType !== "text") {
+    return JSON.parse(exercise.content) as ExerciseQuestion;
+  }
+  return {
+    type: "text",
+    correctAnswer: exercise.correctAnswer,
+    checkMode: exercise.checkMode ?? "strict",
+    tolerance: exercise.tolerance,
+    toleranceType: exercise.toleranceType ?? "absolute",
+  };
+}
+
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function isTextList(value: unknown[], count?: number): boolean {
+  return value.every(item => typeof item === "string" && item.trim() !== "" && item.length <= MAX_QUESTION_TEXT)
+    && (count === undefined || value.length === count);
+}
+
+function validateSimpleQuestion(question: SimpleQuestion): string | null {
+  switch (question.type) {
+    case "text":
+      if (!question.correctAnswer.trim()) return "Informe a resposta correta";
+      if (question.checkMode === "equivalent") {
+        try {
+          parseAnswer(question.correctAnswer);
+        } catch (error) {
+          if (error instanceof MathParseError) {
+            return `A resposta esperada não é uma expressão válida: ${formatMathError(error)}`;
+          }
+          throw error;
+        }
+      }
+      return null;
+    case "multipleChoice": {
+      const { options, correct, multiple } = question;
+      if (options.length < MIN_CHOICE_OPTIONS || options.length > MAX_CHOICE_OPTIONS) {
+        return `Use de ${MIN_CHOICE_OPTIONS} a ${MAX_CHOICE_OPTIONS} alternativas`;
+      }
+      if (!isTextList(options)) return "Preencha todas as alternativas";
+      if (correct.some(index => !Number.isInteger(index) || index < 0 || index >= options.length)) {
+        return "Alternativa correta inexistente";
+      }
+      if (new Set(correct).size !== correct.length) return "Alternativa correta repetida";
+      if (multiple ? correct.length === 0 : correct.length !== 1) {
+        return multiple ? "Marque ao menos uma alternativa correta" : "Marque uma alternativa correta";
+      }
+      return null;
+    }
+    case "numeric":
+      if (!Number.isFinite(question.value)) return "Informe o valor correto";
+      if (!Number.isFinite(question.tolerance) || question.tolerance < 0) return "Tolerância inválida";
+      if (question.unit && !parseUnit(question.unit)) return `Unidade desconhecida: ${question.unit}`;
+      return null;
+    case "trueFalse":
+      return null;
+    case "ordering": {
+      const { steps } = question;
+      if (steps.length < MIN_ORDERING_STEPS || steps.length > MAX_ORDERING_STEPS) {
+        return `Use de ${MIN_ORDERING_STEPS} a ${MAX_ORDERING_STEPS} passos`;
+      }
+      if (!isTextList(steps)) return "Preencha todos os passos";
+      // Answers are the steps themselves, so two equal steps could not be told apart
+      if (new Set(steps.map(step => step.trim())).size !== steps.length) return "Os passos devem ser diferentes";
+      return null;
+    }
+  }
+}
+
+/** Why the question cannot be asked, or null if it is fine. */
+export function validateExerciseQuestion(question: ExerciseQuestion): string | null {
+  if (question.type !== "multiPart") return validateSimpleQuestion(question);
+
+  const { parts } = question;
+  if (parts.length < MIN_QUESTION_PARTS || parts.length > MAX_QUESTION_PARTS) {
+    return `Use de ${MIN_QUESTION_PARTS} a ${MAX_QUESTION_PARTS} partes`;
+  }
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+    if (!part.prompt.trim()) return `Parte ${index + 1}: escreva o enunciado`;
+    if (!Number.isInteger(part.points) || part.points < 1) return `Parte ${index + 1}: pontos inválidos`;
+    const error = validateSimpleQuestion(part.question);
+    if (error) return `Parte ${index + 1}: ${error}`;
+  }
+  return null;
+}
+
+/** The points of an exercise: the sum of its parts, or what the teacher gave it. */
+export function questionPoints(question: ExerciseQuestion, points: number): number {
+  return question.type === "multiPart"
+    ? question.parts.reduce((total, part) => total + part.points, 0)
+    : points;
+}
+
+// ==================== PUBLIC FORM ====================
+
+/** The same shuffle for everyone and every fetch of the exercise, never the right order. */
+function shuffleSteps(steps: string[], seed: number): string[] {
+  const shuffled = steps.slice();
+  let state = (seed * 2654435761) >>> 0 || 1;
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    const j = state % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.every((step, index) => step === steps[index])) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+}
+
+function publicSimpleQuestion(question: SimpleQuestion, seed: number): PublicSimpleQuestion {
+  switch (question.type) {
+    case "text":
+      return { type: "text" };
+    case "multipleChoice":
+      return { type: "multipleChoice", options: question.options, multiple: question.multiple };
+    case "numeric":
+      return question.unit ? { type: "numeric", unit: question.unit } : { type: "numeric" };
+    case "trueFalse":
+      return { type: "trueFalse" };
+    case "ordering":
+      return { type: "ordering", steps: shuffleSteps(question.steps, seed) };
+  }
+}
+
+/** The question as students see it: nothing that gives the answer away. */
+export function publicQuestion(question: ExerciseQuestion, seed: number): PublicQuestion {
+  if (question.type !== "multiPart") return publicSimpleQuestion(question, seed);
+  return {
+    type: "multiPart",
+    parts: question.parts.map((part, index) => ({
+      prompt: part.prompt,
+      points: part.points,
+      question: publicSimpleQuestion(part.question, seed + index),
+    })),
+  };
+}
+
+// ==================== ANSWERS ====================
+
+function validateSimpleAnswer(question: SimpleQuestion, answer: unknown): string | null {
+  switch (question.type) {
+    case "text":
+    case "numeric":
+      return typeof answer === "string" && answer.trim() ? null : "Escreva uma resposta";
+    case "multipleChoice":
+      if (!Array.isArray(answer) || answer.length === 0) return "Escolha uma alternativa";
+      if (!answer.every(index => Number.isInteger(index) && index >= 0 && index < question.options.length)) {
+        return "Alternativa inexistente";
+      }
+      if (new Set(answer).size !== answer.length) return "Alternativa repetida";
+      return question.multiple || answer.length === 1 ? null : "Escolha só uma alternativa";
+    case "trueFalse":
+      return typeof answer === "boolean" ? null : "Responda verdadeiro ou falso";
+    case "ordering": {
+      const given = Array.isArray(answer) && answer.every(step => typeof step === "string")
+        ? (answer as string[]).slice().sort()
+        : [];
+      const steps = question.steps.slice().sort();
+      return given.length === steps.length && given.every((step, index) => step === steps[index])
+        ? null
+        : "Ordene todos os passos";
+    }
+  }
+}
+
+/** Why the answer does not fit the question, or null if it can be graded. */
+export function validateExerciseAnswer(question: ExerciseQuestion, answer: ExerciseAnswer): string | null {
+  if (question.type !== "multiPart") return validateSimpleAnswer(question, answer);
+
+  if (!Array.isArray(answer) || answer.length !== question.parts.length) return "Responda cada parte";
+  if (answer.every(part => part === null)) return "Responda ao menos uma parte";
+  for (let index = 0; index < answer.length; index++) {
+    const part = answer[index];
+    if (part === null) continue;
+    const error = validateSimpleAnswer(question.parts[index].question, part);
+    if (error) return `Parte ${index + 1}: ${error}`;
+  }
+  return null;
+}
+
+function describeChoices(options: string[], indexes: number[]): string {
+  return indexes
+    .slice()
+    .sort((a, b) => a - b)
+    .map(index => `${optionLetter(index)}) ${options[index]}`)
+    .join("; ");
+}
+
+function describeBoolean(value: boolean): string {
+  return value ? "Verdadeiro" : "Falso";
+}
+
+function describeSimpleAnswer(question: SimpleQuestion, answer: SimpleAnswer | null): string {
+  if (answer === null) return "(em branco)";
+  switch (question.type) {
+    case "text":
+    case "numeric":
+      return String(answer).trim();
+    case "multipleChoice":
+      return describeChoices(question.options, answer as number[]);
+    case "trueFalse":
+      return describeBoolean(answer as boolean);
+    case "ordering":
+      return (answer as string[]).join(" → ");
+  }
+}
+
+/** A student's answer as text, as the teacher reads it and as it is stored. */
+export function describeExerciseAnswer(question: ExerciseQuestion, answer: ExerciseAnswer): string {
+  if (question.type !== "multiPart") return describeSimpleAnswer(question, answer as SimpleAnswer);
+  return question.parts
+    .map((part, index) => `${index + 1}) ${describeSimpleAnswer(part.question, (answer as (SimpleAnswer | null)[])[index])}`)
+    .join("; ");
+}
+
+function describeSimpleCorrectAnswer(question: SimpleQuestion): string {
+  switch (question.type) {
+    case "text":
+      return question.correctAnswer;
+    case "multipleChoice":
+      return describeChoices(question.options, question.correct);
+    case "numeric": {
+      const tolerance = question.tolerance > 0 ? ` ± ${formatNumber(question.tolerance)}` : "";
+      return `${formatNumber(question.value)}${tolerance}${question.unit ? ` ${question.unit}` : ""}`;
+    }
+    case "trueFalse":
+      return describeBoolean(question.correct);
+    case "ordering":
+      return question.steps.join(" → ");
+  }
+}
+
+/** The right answer as text, kept in `exercises.correctAnswer` and shown after answering. */
+export function describeCorrectAnswer(question: ExerciseQuestion): string {
+  if (question.type !== "multiPart") return describeSimpleCorrectAnswer(question);
+  return question.parts.map((part, index) => `${index + 1}) ${describeSimpleCorrectAnswer(part.question)}`).join("; ");
+}
+
+// ==================== GRADING ====================
+
+function gradeChoice(question: ChoiceQuestion, chosen: number[]): { correct: boolean; reason: string } {
+  const letters = (indexes: number[]) => indexes.slice().sort((a, b) => a - b).map(optionLetter).join(", ");
+  const missing = question.correct.filter(index => !chosen.includes(index));
+  const wrong = chosen.filter(index => !question.correct.includes(index));
+  if (missing.length === 0 && wrong.length === 0) return { correct: true, reason: "Alternativa correta" };
+  if (!question.multiple) {
+    return { correct: false, reason: `Escolheu ${letters(chosen)}; a correta é ${letters(question.correct)}` };
+  }
+  const notes = [
+    missing.length > 0 ? `faltou marcar ${letters(missing)}` : null,
+    wrong.length > 0 ? `marcou ${letters(wrong)}, que não ${wrong.length > 1 ? "são corretas" : "é correta"}` : null,
+  ].filter(Boolean);
+  return { correct: false, reason: `Alternativas incorretas: ${notes.join("; ")}` };
+}
+
+function gradeSimple(question: SimpleQuestion, answer: SimpleAnswer): { correct: boolean; reason: string } {
+  switch (question.type) {
+    case "text":
+      return checkAnswer(answer as string, question.correctAnswer, {
+        mode: question.checkMode,
+        tolerance: question.tolerance,
+        toleranceType: question.toleranceType,
+      });
+    case "numeric":
+      return checkAnswer(answer as string, `${question.value}${question.unit ? ` ${question.unit}` : ""}`, {
+        mode: "equivalent",
+        tolerance: question.tolerance,
+        toleranceType: "absolute",
+      });
+    case "multipleChoice":
+      return gradeChoice(question, answer as number[]);
+    case "trueFalse":
+      return answer === question.correct
+        ? { correct: true, reason: "Resposta certa" }
+        : { correct: false, reason: `A afirmação é ${question.correct ? "verdadeira" : "falsa"}` };
+    case "ordering": {
+      const inPlace = (answer as string[]).filter((step, index) => step === question.steps[index]).length;
+      return inPlace === question.steps.length
+        ? { correct: true, reason: "Ordem correta" }
+        : { correct: false, reason: `${inPlace} de ${question.steps.length} passos na posição certa` };
+    }
+  }
+}
+
+/**
+ * Grade an answer already checked by `validateExerciseAnswer`. The points
+ * are all or nothing, except in multi-part questions, where each right
+ * part earns its own.
+ */
+export function gradeExerciseAnswer(question: ExerciseQuestion, answer: ExerciseAnswer, points: number): GradeResult {
+  if (question.type !== "multiPart") {
+    const { correct, reason } = gradeSimple(question, answer as SimpleAnswer);
+    return { correct, reason, pointsEarned: correct ? points : 0 };
+  }
+
+  const parts = question.parts.map((part, index): PartResult => {
+    const partAnswer = (answer as (SimpleAnswer | null)[])[index];
+    if (partAnswer === null) return { correct: false, pointsEarned: 0, reason: "Em branco" };
+    const { correct, reason } = gradeSimple(part.question, partAnswer);
+    return { correct, reason, pointsEarned: correct ? part.points : 0 };
+  });
+  const right = parts.filter(part => part.correct).length;
+  const firstWrong = parts.findIndex(part => !part.correct);
+  return {
+    correct: right === parts.length,
+    pointsEarned: parts.reduce((total, part) => total + part.pointsEarned, 0),
+    reason: firstWrong < 0
+      ? "Todas as partes corretas"
+      : `${right} de ${parts.length} partes corretas (parte ${firstWrong + 1}: ${parts[firstWrong].reason})`,
+    parts,
+  };
+}
+
+// ==================== RESULTS ====================
+
+export type SimpleQuestionResults =
+  | { type: "multipleChoice"; counts: number[] }
+  | { type: "trueFalse"; counts: { true: number; false: number } }
+  // How many put each step, in the right order, in its place
+  | { type: "ordering"; inPlace: number[] }
+  | { type: "text" | "numeric"; answers: { answer: string; count: number; correct: boolean }[] };
+
+export type QuestionResults =
+  | SimpleQuestionResults
+  | { type: "multiPart"; parts: { answered: number; correct: number; results: SimpleQuestionResults }[] };
+
+export type QuestionSummary = {
+  answered: number;
+  correct: number;
+  results: QuestionResults;
+};
+
+type GradedAnswer = {
+  answer: SimpleAnswer | null;
+  correct: boolean;
+};
+
+export type GradedResponse = {
+  answer: ExerciseAnswer | null;
+  correct: boolean;
+  // Multi-part questions only
+  parts?: PartResult[] | null;
+};
+
+// Distinct free-text answers listed in the results
+const MAX_LISTED_ANSWERS = 8;
+
+function simpleResults(question: SimpleQuestion, graded: GradedAnswer[]): SimpleQuestionResults {
+  const given = graded.filter(item => item.answer !== null);
+  switch (question.type) {
+    case "multipleChoice": {
+      const counts = question.options.map(() => 0);
+      given.forEach(item => (item.answer as number[]).forEach(index => counts[index]++));
+      return { type: "multipleChoice", counts };
+    }
+    case "trueFalse":
+      return {
+        type: "trueFalse",
+        counts: {
+          true: given.filter(item => item.answer === true).length,
+          false: given.filter(item => item.answer === false).length,
+        },
+      };
+    case "ordering":
+      return {
+        type: "ordering",
+        inPlace: question.steps.map((step, index) => given.filter(item => (item.answer as string[])[index] === step).length),
+      };
+    case "text":
+    case "numeric": {
+      const answers = new Map<string, { answer: string; count: number; correct: boolean }>();
+      given.forEach(item => {
+        const answer = String(item.answer).trim();
+        const entry = answers.get(answer.toLowerCase()) ?? { answer, count: 0, correct: item.correct };
+        entry.count++;
+        answers.set(answer.toLowerCase(), entry);
+      });
+      return {
+        type: question.type,
+        answers: Array.from(answers.values()).sort((a, b) => b.count - a.count).slice(0, MAX_LISTED_ANSWERS),
+      };
+    }
+  }
+}
+
+/**
+ * What the class answered: how many got it right and, by type, how the
+ * answers spread over the options, steps or parts. Multi-part answers
+ * come with the result of each part.
+ */
+export function summarizeAnswers(
+  question: ExerciseQuestion,
+  responses: GradedResponse[]
+): QuestionSummary {
+  const summary = { answered: responses.length, correct: responses.filter(response => response.correct).length };
+  if (question.type !== "multiPart") {
+    return { ...summary, results: simpleResults(question, responses as GradedAnswer[]) };
+  }
+  return {
+    ...summary,
+    results: {
+      type: "multiPart",
+      parts: question.parts.map((part, index) => {
+        const graded = responses.map(response => ({
+          answer: Array.isArray(response.answer) ? (response.answer as (SimpleAnswer | null)[])[index] ?? null : null,
+          correct: response.parts?.[index]?.correct ?? false,
+        }));
+        return {
+          answered: graded.filter(item => item.answer !== null).length,
+          correct: graded.filter(item => item.correct).length,
+          results: simpleResults(part.question, graded),
+        };
+      }),
+    },
+  };
+}
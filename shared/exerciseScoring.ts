@@ -0,0 +1,65 @@
+/**
+ * Points for an answer beyond those of the question itself. The time of
+ * an answer is measured by the server, from the moment the exercise was
+ * activated, so the countdown students see is only a display.
+ */
+
+// Answers sent just as the time ends still count: they were on their way
+export const LATE_ANSWER_GRACE_MS = 2000;
+
+export const MAX_SPEED_BONUS = 100;
+
+// Each right answer in a row adds this much to the multiplier, up to the maximum
+export const STREAK_STEP = 0.5;
+export const MAX_STREAK_MULTIPLIER = 3;
+
+export type ScoringRules = {
+  // Seconds, or null for no limit
+  timeLimit: number | null;
+  speedBonus: number;
+  streakBonus: boolean;
+};
+
+export type AnswerScore = {
+  pointsEarned: number;
+  // Included in pointsEarned
+  bonusPoints: number;
+  // Right answers in a row, this one included
+  streak: number;
+  multiplier: number;
+};
+
+/** Whether an answer given `responseTime` milliseconds after activation is too late. */
+export function isLateAnswer(timeLimit: number | null, responseTime: number): boolean {
+  return timeLimit !== null && responseTime > timeLimit * 1000 + LATE_ANSWER_GRACE_MS;
+}
+
+/** The points multiplier for a streak of right answers before this one. */
+export function streakMultiplier(previousStreak: number): number {
+  return Math.min(1 + STREAK_STEP * previousStreak, MAX_STREAK_MULTIPLIER);
+}
+
+/**
+ * The points of a graded answer. Only a fully right answer earns the speed
+ * bonus, which falls from its full value at once to none at the time
+ * limit, and keeps the streak going; the streak multiplier applies to
+ * every point earned, partial credit included.
+ */
+export function scoreAnswer(
+  rules: ScoringRules,
+  graded: { correct: boolean; pointsEarned: number },
+  responseTime: number,
+  previousStreak: number
+): AnswerScore {
+  const speedBonus = graded.correct && rules.timeLimit && rules.speedBonus > 0
+    ? Math.round(rules.speedBonus * Math.max(0, 1 - responseTime / (rules.timeLimit * 1000)))
+    : 0;
+  const multiplier = rules.streakBonus ? streakMultiplier(previousStreak) : 1;
+  const pointsEarned = Math.round((graded.pointsEarned + speedBonus) * multiplier);
+  return {
+    pointsEarned,
+    bonusPoints: pointsEarned - graded.pointsEarned,
+    streak: graded.correct ? previousStreak + 1 : 0,
+    multiplier,
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * GIFT, the text format Moodle imports and exports quizzes in. It has
+ * multiple choice, short answer, numeric and true or false questions;
+ * ordering and multi-part questions have no GIFT form and are left out of
+ * exports, as matching and essay questions are left out of imports. Nor
+ * does GIFT keep points or time limits: imported questions get the
+ * defaults of the bank. Tags travel as Moodle does, in `[tag:...]`
+ * comments, and the topic as the `$CATEGORY`.
+ */
+
+import { normalizeTags, validateBankItem, type BankItem, type QuestionDifficulty, QUESTION_DIFFICULTIES } from "./questionBank";
+import type { ChoiceQuestion } from "./exerciseQuestions";
+
+export type GiftResult = {
+  text: string;
+  warnings: string[];
+};
+
+export type GiftImport = {
+  items: BankItem[];
+  warnings: string[];
+};
+
+const DEFAULT_POINTS = 10;
+
+// Characters that must be escaped with a backslash to be read as text, the backslash itself included
+const SPECIAL = "~=#{}:\\";
+
+function escapeGift(text: string): string {
+  return text.replace(/[~=#{}:\\]/g, char => `\\${char}`).replace(/\r?\n/g, "\\n");
+}
+
+// Escaped characters become private-use ones while the markup is read, and back afterwards.
+// One pass, so that \\neq (an escaped backslash, then "neq") is not read as a new line
+function protect(text: string): string {
+  return text.replace(/\\([~=#{}:\\n])/g, (_, char: string) =>
+    char === "n" ? "\n" : String.fromCharCode(0xe000 + SPECIAL.indexOf(char)));
+}
+
+function restore(text: string): string {
+  return text.replace(/[\ue000-\ue006]/g, char => SPECIAL[char.charCodeAt(0) - 0xe000]).trim();
+}
+
+function formatWeight(weight: number): string {
+  return `%${Number(weight.toFixed(5))}%`;
+}
+
+function formatChoices(question: ChoiceQuestion): string {
+  if (!question.multiple) {
+    return question.options
+      .map((option, index) => `\t${question.correct.includes(index) ? "=" : "~"}${escapeGift(option)}`)
+      .join("\n");
+  }
+  // Right options share the full mark; a wrong one takes it all away
+  const weight = 100 / question.correct.length;
+  return question.options
+    .map((option, index) => `\t~${formatWeight(question.correct.includes(index) ? weight : -100)}${escapeGift(option)}`)
+    .join("\n");
+}
+
+/** The items as GIFT text, with a warning for each that could not go in whole. */
+export function formatGift(items: BankItem[]): GiftResult {
+  const blocks: string[] = [];
+  const warnings: string[] = [];
+  let category: string | null = null;
+
+  items.forEach((item, index) => {
+    const label = `Questão ${index + 1}`;
+    const { content } = item;
+    let answers: string;
+    switch (content.type) {
+      case "text":
+        answers = `=${escapeGift(content.correctAnswer)}`;
+        if (content.checkMode === "equivalent") {
+          warnings.push(`${label}: GIFT só compara o texto exato da resposta`);
+        }
+        break;
+      case "multipleChoice":
+        answers = `\n${formatChoices(content)}\n`;
+        break;
+      case "numeric":
+        answers = `#${content.value}:${content.tolerance}`;
+        if (content.unit) warnings.push(`${label}: a unidade (${content.unit}) não existe em GIFT`);
+        break;
+      case "trueFalse":
+        answers = content.correct ? "TRUE" : "FALSE";
+        break;
+      default:
+        warnings.push(`${label}: questões do tipo "${content.type === "ordering" ? "ordenar passos" : "várias partes"}" não existem em GIFT`);
+        return;
+    }
+
+    const lines: string[] = [];
+    const tags = normalizeTags(item.tags);
+    if (tags.topic && tags.topic !== category) {
+      category = tags.topic;
+      lines.push(`$CATEGORY: ${tags.topic}`, "");
+    }
+    const tagComments = [
+      tags.difficulty && `[tag:difficulty=${tags.difficulty}]`,
+      tags.grade && `[tag:grade=${tags.grade.replace(/[[\]]/g, "")}]`,
+    ].filter(Boolean);
+    if (tagComments.length > 0) lines.push(`// ${tagComments.join(" ")}`);
+
+    // Moodle shows formulas between $$ with its MathJax filter
+    const text = item.questionLatex ? `${item.question} $$${item.questionLatex}$$` : item.question;
+    lines.push(`${escapeGift(text)} {${answers}}`);
+    blocks.push(lines.join("\n"));
+  });
+
+  return { text: blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "", warnings };
+}
+
+// ==================== IMPORT ====================
+
+type GiftAnswer = { marker: "=" | "~"; weight: number | null; text: string };
+
+function readAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  const pattern = /([=~])([^=~]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    let text = match[2].split("#")[0];
+    let weight: number | null = null;
+    const weighted = /^%(-?\d+(?:\.\d+)?)%/.exec(text);
+    if (weighted) {
+      weight = Number(weighted[1]);
+      text = text.slice(weighted[0].length);
+    }
+    answers.push({ marker: match[1] as "=" | "~", weight, text: restore(text) });
+  }
+  return answers;
+}
+
+function readNumber(body: string): { value: number; tolerance: number } | null {
+  // The first fully right answer when there are several
+  const answer = body.includes("=") ? (body.split("=").find(part => part.trim() && !part.trim().startsWith("%")) ?? "") : body;
+  const text = answer.split("#")[0].trim();
+  const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(text);
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])];
+    return Number.isFinite(low) && Number.isFinite(high) ? { value: (low + high) / 2, tolerance: Math.abs(high - low) / 2 } : null;
+  }
+  const [value, tolerance = "0"] = text.split(":");
+  const parsed = { value: Number(value), tolerance: Math.abs(Number(tolerance)) };
+  return value !== "" && Number.isFinite(parsed.value) && Number.isFinite(parsed.tolerance) ? parsed : null;
+}
+
+function readTags(comments: string[], topic: string | null): BankItem["tags"] {
+  let difficulty: QuestionDifficulty | null = null;
+  let grade: string | null = null;
+  const pattern = /\[tag:(difficulty|grade)=([^\]]*)\]/g;
+  for (const comment of comments) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(comment))) {
+      if (match[1] === "grade") grade = match[2];
+      else if ((QUESTION_DIFFICULTIES as readonly string[]).includes(match[2])) difficulty = match[2] as QuestionDifficulty;
+    }
+  }
+  return normalizeTags({ topic, difficulty, grade });
+}
+
+/** The questions of a GIFT text, with a warning for each left out or changed. */
+export function parseGift(text: string): GiftImport {
+  const items: BankItem[] = [];
+  const warnings: string[] = [];
+  let topic: string | null = null;
+  let count = 0;
+
+  const blocks = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+  for (const block of blocks) {
+    const comments: string[] = [];
+    const lines: string[] = [];
+    for (const line of block.split("\n")) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("//")) comments.push(trimmed);
+      else if (trimmed.startsWith("$CATEGORY:")) {
+        // Only the last level of the category path, without Moodle's context prefix
+        const path = trimmed.slice("$CATEGORY:".length).trim().replace(/^\$\w+\$\//, "").split("/");
+        topic = path[path.length - 1] || null;
+      } else if (trimmed) lines.push(trimmed);
+    }
+    if (lines.length === 0) continue;
+
+    count++;
+    const label = `Questão ${count}`;
+    const source = protect(lines.join(" "))
+      .replace(/^::[^:]*::/, "")
+      .replace(/^\s*\[(?:html|moodle|plain|markdown)\]/, "");
+    const open = source.indexOf("{");
+    const close = source.indexOf("}", open);
+    if (open < 0 || close < 0) {
+      warnings.push(`${label}: sem respostas, ignorada`);
+      continue;
+    }
+
+    const before = source.slice(0, open).trim();
+    const after = source.slice(close + 1).trim();
+    let question = restore(after ? `${before} _____ ${after}` : before);
+    let questionLatex: string | null = null;
+    const formula = /\s*\$\$([\s\S]+)\$\$$/.exec(question);
+    if (formula) {
+      questionLatex = formula[1].trim();
+      question = question.slice(0, formula.index).trim() || questionLatex;
+    }
+    const base = { question, questionLatex, points: DEFAULT_POINTS, tags: readTags(comments, topic) };
+
+    const body = source.slice(open + 1, close).trim();
+    let item: BankItem;
+    if (!body) {
+      warnings.push(`${label}: questões dissertativas não são importadas`);
+      continue;
+    } else if (/^(T|TRUE|F|FALSE)\s*(#|$)/.test(body)) {
+      item = { ...base, content: { type: "trueFalse", correct: body.startsWith("T") } };
+    } else if (body.startsWith("#")) {
+      const number = readNumber(body.slice(1));
+      if (!number) {
+        warnings.push(`${label}: resposta numérica ilegível, ignorada`);
+        continue;
+      }
+      item = { ...base, content: { type: "numeric", ...number } };
+    } else if (body.includes("->")) {
+      warnings.push(`${label}: questões de associação não são importadas`);
+      continue;
+    } else {
+      const answers = readAnswers(body);
+      if (answers.length > 0 && answers.every(answer => answer.marker === "=")) {
+        if (answers.length > 1) warnings.push(`${label}: só a primeira de ${answers.length} respostas aceitas foi mantida`);
+        item = { ...base, content: { type: "text", correctAnswer: answers[0].text, checkMode: "strict" } };
+      } else {
+        const correct = answers
+          .map((answer, index) => (answer.marker === "=" || (answer.weight ?? 0) > 0 ? index : -1))
+          .filter(index => index >= 0);
+        item = {
+          ...base,
+          content: { type: "multipleChoice", options: answers.map(answer => answer.text), correct, multiple: correct.length > 1 },
+        };
+      }
+    }
+
+    const error = validateBankItem(item);
+    if (error) {
+      warnings.push(`${label}: ${error}, ignorada`);
+      continue;
+    }
+    items.push(item);
+  }
+
+  return { items, warnings };
+}
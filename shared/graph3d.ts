@@ -0,0 +1,147 @@
+/**
+ * Software 3D for surfaces and curves in space: an orbit camera, a
+ * projection onto the canvas and the surface mesh, sorted back to front
+ * (painter's algorithm) so it draws with the plain 2D canvas API, without
+ * WebGL.
+ *
+ * The graph window [xMin, xMax] × [yMin, yMax] and the range of z on it
+ * are scaled to the cube [-1, 1]³ before projecting.
+ */
+
+import type { SpacePoint } from "./graphExpressions";
+
+export type GraphCamera = {
+  // Rotation around the vertical axis, in radians
+  yaw: number;
+  // Elevation above the xy plane, in radians; positive looks from above
+  pitch: number;
+  zoom: number;
+};
+
+export const DEFAULT_CAMERA: GraphCamera = { yaw: -Math.PI / 4, pitch: Math.PI / 6, zoom: 1 };
+
+export const MAX_PITCH = Math.PI / 2;
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+
+// Distance from the eye to the center of the cube, in cube units; lower is more perspective
+const EYE_DISTANCE = 5;
+
+/** Keep the camera within the limits accepted by the server, yaw in (-π, π]. */
+export function clampCamera(camera: GraphCamera): GraphCamera {
+  const turns = Math.round(camera.yaw / (2 * Math.PI));
+  return {
+    yaw: camera.yaw - turns * 2 * Math.PI,
+    pitch: Math.min(MAX_PITCH, Math.max(-MAX_PITCH, camera.pitch)),
+    zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, camera.zoom)),
+  };
+}
+
+export function readGraphCamera(stored: string | null): GraphCamera {
+  return stored ? clampCamera({ ...DEFAULT_CAMERA, ...JSON.parse(stored) }) : DEFAULT_CAMERA;
+}
+
+export type ProjectedPoint = { px: number; py: number; depth: number };
+
+/**
+ * Canvas position of a point of the cube. `depth` grows towards the
+ * viewer, so sorting by it ascending gives the drawing order.
+ */
+export function project(point: SpacePoint, camera: GraphCamera, width: number, height: number): ProjectedPoint {
+  const [cosYaw, sinYaw] = [Math.cos(camera.yaw), Math.sin(camera.yaw)];
+  const [cosPitch, sinPitch] = [Math.cos(camera.pitch), Math.sin(camera.pitch)];
+
+  const x = point.x * cosYaw - point.y * sinYaw;
+  const y = point.x * sinYaw + point.y * cosYaw;
+  const up = point.z * cosPitch + y * sinPitch;
+  const depth = point.z * sinPitch - y * cosPitch;
+
+  const scale = (camera.zoom * Math.min(width, height)) / 3.5;
+  const perspective = EYE_DISTANCE / (EYE_DISTANCE - depth);
+  return {
+    px: width / 2 + x * scale * perspective,
+    py: height / 2 - up * scale * perspective,
+    depth,
+  };
+}
+
+export type SpaceWindow = { xMin: number; xMax: number; yMin: number; yMax: number; zMin: number; zMax: number };
+
+/** Scale a point of the graph window to the cube. */
+export function toCube(point: SpacePoint, window: SpaceWindow): SpacePoint {
+  const scale = (value: number, min: number, max: number) => (2 * (value - min)) / (max - min) - 1;
+  return {
+    x: scale(point.x, window.xMin, window.xMax),
+    y: scale(point.y, window.yMin, window.yMax),
+    z: scale(point.z, window.zMin, window.zMax),
+  };
+}
+
+/** Range of z covering the given values, ignoring the top and bottom 2% (poles); [-1, 1] if there are none. */
+export function zRangeOf(values: number[]): { zMin: number; zMax: number } {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return { zMin: -1, zMax: 1 };
+
+  const cut = Math.floor(sorted.length * 0.02);
+  const [zMin, zMax] = [sorted[cut], sorted[sorted.length - 1 - cut]];
+  // A flat surface still needs a range to scale
+  return zMin === zMax ? { zMin: zMin - 1, zMax: zMax + 1 } : { zMin, zMax };
+}
+
+export type SurfaceQuad = {
+  // Corners in the cube, in order around the quad
+  corners: [SpacePoint, SpacePoint, SpacePoint, SpacePoint];
+  // Average height in the cube, from -1 (lowest) to 1 (highest)
+  height: number;
+};
+
+/**
+ * Sample z = f(x, y) on a cells × cells grid of the window. Cells with an
+ * undefined corner, or outside the z range, are left out.
+ */
+export function buildSurfaceMesh(
+  surface: (x: number, y: number) => number | null,
+  window: SpaceWindow,
+  cells: number
+): SurfaceQuad[] {
+  const dx = (window.xMax - window.xMin) / cells;
+  const dy = (window.yMax - window.yMin) / cells;
+  const grid: (SpacePoint | null)[][] = [];
+  for (let i = 0; i <= cells; i++) {
+    const column: (SpacePoint | null)[] = [];
+    for (let j = 0; j <= cells; j++) {
+      const [x, y] = [window.xMin + i * dx, window.yMin + j * dy];
+      const z = surface(x, y);
+      column.push(z === null || z < window.zMin || z > window.zMax ? null : toCube({ x, y, z }, window));
+    }
+    grid.push(column);
+  }
+
+  const quads: SurfaceQuad[] = [];
+  for (let i = 0; i < cells; i++) {
+    for (let j = 0; j < cells; j++) {
+      const corners = [grid[i][j], grid[i + 1][j], grid[i + 1][j + 1], grid[i][j + 1]];
+      if (corners.some(corner => corner === null)) continue;
+      const points = corners as SurfaceQuad["corners"];
+      quads.push({ corners: points, height: points.reduce((sum, point) => sum + point.z, 0) / 4 });
+    }
+  }
+  return quads;
+}
+
+/**
+ * Brightness from 0.4 to 1 of a quad lit from the viewer's side, by the
+ * angle between its normal and the light.
+ */
+export function shade(corners: SurfaceQuad["corners"]): number {
+  const [a, b, , d] = corners;
+  const u = { x: b.x - a.x, y: b.y - a.y, z: b.z - a.z };
+  const v = { x: d.x - a.x, y: d.y - a.y, z: d.z - a.z };
+  const normal = { x: u.y * v.z - u.z * v.y, y: u.z * v.x - u.x * v.z, z: u.x * v.y - u.y * v.x };
+  const length = Math.hypot(normal.x, normal.y, normal.z);
+  if (length === 0) return 1;
+
+  const light = { x: -0.4, y: -0.4, z: 0.82 };
+  const cosine = Math.abs(normal.x * light.x + normal.y * light.y + normal.z * light.z) / length;
+  return 0.4 + 0.6 * cosine;
+}
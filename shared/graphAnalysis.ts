@@ -0,0 +1,228 @@
+/**
+ * Numeric analysis of plotted functions: roots, local extrema,
+ * intersections, tangent lines and areas. Works on the plotting functions
+ * built by `compileGraphExpression`, where undefined points are null.
+ */
+
+import { toLatex, type MathNode } from "./mathExpression";
+
+export type Plot = (x: number) => number | null;
+
+export type AnalysisPoint = { x: number; y: number };
+
+export type Extremum = AnalysisPoint & { kind: "min" | "max" };
+
+export type Tangent = AnalysisPoint & { slope: number };
+
+export type AnalysisResult =
+  | { tool: "roots"; points: AnalysisPoint[] }
+  | { tool: "extrema"; points: Extremum[] }
+  | { tool: "intersections"; points: AnalysisPoint[] }
+  | { tool: "tangent"; tangent: Tangent }
+  | { tool: "area"; from: number; to: number; area: number };
+
+// Enough samples to separate roots of sen(10x) on a [-10, 10] window
+const DEFAULT_SAMPLES = 2000;
+const REFINE_ITERATIONS = 60;
+// |f(x)| below this counts as zero when a curve only touches the axis
+const TOUCH_TOLERANCE = 1e-7;
+
+type Sample = { x: number; y: number | null };
+
+function sample(f: Plot, from: number, to: number, samples: number): Sample[] {
+  const points: Sample[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const x = from + ((to - from) * i) / samples;
+    points.push({ x, y: f(x) });
+  }
+  return points;
+}
+
+function bisect(f: Plot, a: number, b: number, fa: number): number {
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (fm === null) break;
+    if (fm === 0) return mid;
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = mid;
+      fa = fm;
+    } else {
+      b = mid;
+    }
+  }
+  return (a + b) / 2;
+}
+
+// Golden-section search for the minimum of f on [a, b]
+function minimize(f: (x: number) => number, a: number, b: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    if (f(c) < f(d)) b = d;
+    else a = c;
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+}
+
+function addUnique(values: number[], value: number, tolerance: number) {
+  if (!values.some(existing => Math.abs(existing - value) < tolerance)) values.push(value);
+}
+
+/**
+ * Zeros of f in [from, to]: sign changes refined by bisection, plus points
+ * where the curve touches the axis without crossing (x^2). Sign changes
+ * across a vertical asymptote (tg x) are discarded.
+ */
+export function findRoots(f: Plot, from: number, to: number, samples = DEFAULT_SAMPLES): number[] {
+  const points = sample(f, from, to, samples);
+  const tolerance = ((to - from) / samples) / 2;
+  const roots: number[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const { x, y } = points[i];
+    if (y === null) continue;
+    if (y === 0) {
+      addUnique(roots, x, tolerance);
+      continue;
+    }
+
+    const next = points[i + 1];
+    if (next && next.y !== null && next.y !== 0 && Math.sign(next.y) !== Math.sign(y)) {
+      const root = bisect(f, x, next.x, y);
+      const value = f(root);
+      if (value !== null && Math.abs(value) < Math.max(Math.abs(y), Math.abs(next.y))) {
+        addUnique(roots, root, tolerance);
+      }
+      continue;
+    }
+
+    const previous = points[i - 1];
+    if (previous && next && previous.y !== null && next.y !== null
+      && Math.abs(y) <= Math.abs(previous.y) && Math.abs(y) <= Math.abs(next.y)) {
+      const candidate = minimize(t => Math.abs(f(t) ?? Infinity), previous.x, next.x);
+      const value = f(candidate);
+      if (value !== null && Math.abs(value) < TOUCH_TOLERANCE) addUnique(roots, candidate, tolerance);
+    }
+  }
+
+  return roots.sort((a, b) => a - b);
+}
+
+/** Local minima and maxima strictly inside [from, to]. */
+export function findExtrema(f: Plot, from: number, to: number, samples = DEFAULT_SAMPLES): Extremum[] {
+  const points = sample(f, from, to, samples);
+  const extrema: Extremum[] = [];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const [previous, current, next] = [points[i - 1].y, points[i].y, points[i + 1].y];
+    if (previous === null || current === null || next === null) continue;
+
+    const kind = current < previous && current <= next ? "min" : current > previous && current >= next ? "max" : null;
+    if (!kind) continue;
+
+    const sign = kind === "min" ? 1 : -1;
+    const x = minimize(t => sign * (f(t) ?? sign * Infinity), points[i - 1].x, points[i + 1].x);
+    const y = f(x);
+    if (y !== null) extrema.push({ x, y, kind });
+  }
+
+  return extrema;
+}
+
+/** Points where two curves meet in [from, to]. */
+export function findIntersections(f: Plot, g: Plot, from: number, to: number, samples = DEFAULT_SAMPLES): AnalysisPoint[] {
+  const difference: Plot = x => {
+    const [a, b] = [f(x), g(x)];
+    return a === null || b === null ? null : a - b;
+  };
+  return findRoots(difference, from, to, samples).flatMap(x => {
+    const y = f(x);
+    return y === null ? [] : [{ x, y }];
+  });
+}
+
+/** f'(x) by central differences; null where f is undefined around x. */
+export function derivativeAt(f: Plot, x: number): number | null {
+  const h = 1e-5 * Math.max(1, Math.abs(x));
+  const [before, after] = [f(x - h), f(x + h)];
+  if (before === null || after === null) return null;
+  return (after - before) / (2 * h);
+}
+
+export function tangentAt(f: Plot, x: number): Tangent | null {
+  const y = f(x);
+  const slope = derivativeAt(f, x);
+  return y === null || slope === null ? null : { x, y, slope };
+}
+
+/** Signed area between f and the x axis (Simpson's rule); null if f is undefined somewhere in between. */
+export function integrate(f: Plot, from: number, to: number, intervals = 1000): number | null {
+  const n = intervals % 2 === 0 ? intervals : intervals + 1;
+  const h = (to - from) / n;
+  let sum = 0;
+  for (let i = 0; i <= n; i++) {
+    const y = f(from + i * h);
+    if (y === null) return null;
+    sum += y * (i === 0 || i === n ? 1 : i % 2 === 1 ? 4 : 2);
+  }
+  return (sum * h) / 3;
+}
+
+// ==================== SHARING ====================
+
+// 4 decimal places, no "-0", decimal comma ({,} keeps LaTeX from adding a space after it)
+function latexNumber(value: number): string {
+  const rounded = Number(value.toFixed(4));
+  return String(Object.is(rounded, -0) ? 0 : rounded).replace(".", "{,}");
+}
+
+// Chat messages are limited, so long lists of points are cut
+const MAX_SHARED_POINTS = 10;
+
+function list(items: string[]): string {
+  const shown = items.slice(0, MAX_SHARED_POINTS).join(", ");
+  return items.length > MAX_SHARED_POINTS ? `${shown} e mais ${items.length - MAX_SHARED_POINTS}` : shown;
+}
+
+const point = ({ x, y }: AnalysisPoint) => `(${latexNumber(x)};\\ ${latexNumber(y)})`;
+
+/**
+ * Chat message with the result, formulas in `$...$`. `f` is the analysed
+ * function, `g` the second one for intersections.
+ */
+export function analysisToLatex(result: AnalysisResult, f: MathNode, g?: MathNode): string {
+  const fx = `$f(x) = ${toLatex(f)}$`;
+
+  switch (result.tool) {
+    case "roots":
+      return result.points.length === 0
+        ? `${fx} não tem raízes no intervalo visível`
+        : `Raízes de ${fx}: ${list(result.points.map(({ x }) => `$x = ${latexNumber(x)}$`))}`;
+    case "extrema":
+      return result.points.length === 0
+        ? `${fx} não tem máximos nem mínimos locais no intervalo visível`
+        : `Extremos de ${fx}: ${list(result.points
+          .map(extremum => `${extremum.kind === "min" ? "mínimo" : "máximo"} em $${point(extremum)}$`))}`;
+    case "intersections": {
+      const gx = g ? ` e $g(x) = ${toLatex(g)}$` : "";
+      return result.points.length === 0
+        ? `${fx}${gx} não se cruzam no intervalo visível`
+        : `Interseções de ${fx}${gx}: ${list(result.points.map(p => `$${point(p)}$`))}`;
+    }
+    case "tangent": {
+      const { x, y, slope } = result.tangent;
+      const intercept = y - slope * x;
+      const sign = intercept < 0 ? "-" : "+";
+      return `Reta tangente a ${fx} em $x = ${latexNumber(x)}$: `
+        + `$y = ${latexNumber(slope)}x ${sign} ${latexNumber(Math.abs(intercept))}$ `
+        + `($f'(${latexNumber(x)}) = ${latexNumber(slope)}$)`;
+    }
+    case "area":
+      return `$\\int_{${latexNumber(result.from)}}^{${latexNumber(result.to)}} ${toLatex(f)}\\,dx `
+        + `\\approx ${latexNumber(result.area)}$`;
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Expressions shown together on an interactive graph. Each line the teacher
+ * types is classified by its shape:
+ * - `y = a x^2 + b` or a bare expression of x: function
+ * - `(1, k)`: point
+ * - `x = k`: vertical line
+ * - `y < 2x + 1`, `y >= sen x`: inequality, drawn as a shaded region
+ * - `(cos t, sen t)`: parametric curve, t runs over the expression's range
+ * - `r = 1 + cos θ` (or `cos t`): polar curve
+ * - `x^2 + y^2 = 25`: implicit relation, traced with marching squares
+ * - `(-y, x)`: vector field
+ * - `z = x^2 - y^2`: surface, drawn in the 3D view
+ * - `(cos t, sen t, t/4)`: curve in space, also 3D
+ *
+ * Single-letter names other than x and y are parameters bound to sliders,
+ * except the curve variable (t, θ) inside parametric and polar curves.
+ */
+
+import type { InteractiveGraph } from "../drizzle/schema";
+import {
+  compileExpression,
+  findSymbol,
+  getFreeSymbols,
+  MathParseError,
+  parseEquation,
+  parseExpressionRange,
+  type MathNode,
+  type MathScope,
+} from "./mathExpression";
+
+export type GraphExpression = {
+  id: string;
+  source: string;
+  color: string;
+  hidden?: boolean;
+  // Values taken by t or θ in parametric and polar curves; [0, 2π] by default
+  range?: { min: number; max: number };
+};
+
+export type GraphParameter = {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export type InequalityOp = "<" | "<=" | ">" | ">=";
+
+export type ParsedGraphExpression =
+  | { kind: "function"; expression: MathNode; parameters: string[] }
+  | { kind: "point"; x: MathNode; y: MathNode; parameters: string[] }
+  | { kind: "vertical"; x: MathNode; parameters: string[] }
+  | { kind: "inequality"; op: InequalityOp; boundary: MathNode; parameters: string[] }
+  | { kind: "parametric"; x: MathNode; y: MathNode; variable: string; parameters: string[] }
+  | { kind: "polar"; radius: MathNode; variable: string; parameters: string[] }
+  | { kind: "implicit"; left: MathNode; right: MathNode; parameters: string[] }
+  | { kind: "vectorField"; x: MathNode; y: MathNode; parameters: string[] }
+  | { kind: "surface"; expression: MathNode; parameters: string[] }
+  | { kind: "spaceCurve"; x: MathNode; y: MathNode; z: MathNode; variable: string; parameters: string[] };
+
+export type GraphExpressionKind = ParsedGraphExpression["kind"];
+
+export type GraphType = InteractiveGraph["graphType"];
+
+export const GRAPH_TYPES: readonly GraphType[] = [
+  "linear", "quadratic", "cubic", "trigonometric", "exponential", "custom",
+  "parametric", "polar", "implicit", "vectorField",
+  "surface", "spaceCurve",
+];
+
+export const GRAPH_TYPE_LABELS: Record<GraphType, string> = {
+  linear: "Linear",
+  quadratic: "Quadrática",
+  cubic: "Cúbica",
+  trigonometric: "Trigonométrica",
+  exponential: "Exponencial",
+  custom: "Personalizada",
+  parametric: "Paramétrica",
+  polar: "Polar",
+  implicit: "Implícita",
+  vectorField: "Campo vetorial",
+  surface: "Superfície (3D)",
+  spaceCurve: "Curva no espaço (3D)",
+};
+
+// First expression offered by the editor for each type
+export const GRAPH_TYPE_EXAMPLES: Record<GraphType, string> = {
+  linear: "y = 2x + 1",
+  quadratic: "y = x^2 - 4",
+  cubic: "y = x^3 - 3x",
+  trigonometric: "y = sen(x)",
+  exponential: "y = 2^x",
+  custom: "y = x",
+  parametric: "(3cos t, 2sen t)",
+  polar: "r = 1 + cos θ",
+  implicit: "x^2 + y^2 = 25",
+  vectorField: "(-y, x)",
+  surface: "z = x^2 - y^2",
+  spaceCurve: "(cos t, sen t, t/4)",
+};
+
+// Kinds drawn in the 3D view; a graph cannot mix them with plane kinds
+export const SPACE_KINDS: GraphExpressionKind[] = ["surface", "spaceCurve"];
+
+export const MAX_GRAPH_EXPRESSIONS = 10;
+
+// Colors given to new expressions, in order
+export const GRAPH_COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#a855f7", "#f97316", "#0ea5e9", "#ec4899", "#64748b"];
+
+const INEQUALITY_OPS: string[] = ["<", "<=", ">", ">="];
+
+// Variables of parametric curves
+const CURVE_VARIABLES = ["t", "θ"];
+
+export const DEFAULT_CURVE_RANGE = { min: 0, max: 2 * Math.PI };
+
+/** Classify and parse one line typed in the graph editor. */
+export function parseGraphExpression(source: string): ParsedGraphExpression {
+  const tuple = splitTuple(source);
+  if (tuple?.commas.length === 2) {
+    const [first, second] = tuple.commas;
+    const x = parseExpressionRange(source, tuple.open + 1, first);
+    const y = parseExpressionRange(source, first + 1, second);
+    const z = parseExpressionRange(source, second + 1, tuple.close);
+    const symbols = [x, y, z].flatMap(node => getFreeSymbols(node));
+    const variable = CURVE_VARIABLES.find(name => symbols.includes(name));
+    if (!variable) {
+      throw new MathParseError("Curvas no espaço usam t nas coordenadas", tuple.open, tuple.close + 1);
+    }
+    [x, y, z].forEach(node => rejectSymbols(node, ["x", "y", "z"]));
+    return { kind: "spaceCurve", x, y, z, variable, parameters: collectParameters([x, y, z], [variable]) };
+  }
+  if (tuple) {
+    const x = parseExpressionRange(source, tuple.open + 1, tuple.commas[0]);
+    const y = parseExpressionRange(source, tuple.commas[0] + 1, tuple.close);
+    const symbols = [...getFreeSymbols(x), ...getFreeSymbols(y)];
+    const variable = CURVE_VARIABLES.find(name => symbols.includes(name));
+    const isField = symbols.includes("x") || symbols.includes("y");
+
+    if (variable && isField) {
+      const symbol = findSymbol(x, variable) ?? findSymbol(y, variable)!;
+      throw new MathParseError(
+        `Use ${variable} para curvas paramétricas ou x e y para campos vetoriais, não os dois`,
+        symbol.start,
+        symbol.end
+      );
+    }
+    if (variable) {
+      return { kind: "parametric", x, y, variable, parameters: collectParameters([x, y], [variable]) };
+    }
+    if (isField) {
+      return { kind: "vectorField", x, y, parameters: collectParameters([x, y], ["x", "y"]) };
+    }
+    return { kind: "point", x, y, parameters: collectParameters([x, y]) };
+  }
+
+  const node = parseExpressionRange(source);
+  if (node.type === "compare" && node.left.type === "symbol") {
+    const right = node.right;
+    if (node.left.name === "x" && node.op === "=" && !usesAny(right, ["x", "y"])) {
+      return { kind: "vertical", x: right, parameters: collectParameters([right]) };
+    }
+    if (node.left.name === "y" && INEQUALITY_OPS.includes(node.op)) {
+      rejectSymbols(right, ["y"]);
+      return { kind: "inequality", op: node.op as InequalityOp, boundary: right, parameters: collectParameters([right]) };
+    }
+    if (node.left.name === "z" && node.op === "=") {
+      rejectSymbols(right, ["z"]);
+      return { kind: "surface", expression: right, parameters: collectParameters([right], ["x", "y"]) };
+    }
+    if (node.left.name === "r" && node.op === "=") {
+      rejectSymbols(right, ["x", "y", "r"]);
+      // θ unless the curve is written with t alone
+      const symbols = getFreeSymbols(right);
+      const variable = symbols.includes("t") && !symbols.includes("θ") ? "t" : "θ";
+      return { kind: "polar", radius: right, variable, parameters: collectParameters([right], [variable]) };
+    }
+  }
+  if (node.type === "compare" && INEQUALITY_OPS.includes(node.op)) {
+    throw new MathParseError('Escreva a desigualdade como "y < expressão"', node.start, node.end);
+  }
+
+  // Anything else with an "=" that involves y is a relation between x and y
+  const isFunction = node.type === "compare" && node.left.type === "symbol" && node.left.name === "y" && !usesAny(node.right, ["y"]);
+  if (node.type === "compare" && node.op === "=" && !isFunction && usesAny(node, ["y"])) {
+    return {
+      kind: "implicit",
+      left: node.left,
+      right: node.right,
+      parameters: collectParameters([node.left, node.right], ["x", "y"]),
+    };
+  }
+
+  const { expression } = parseEquation(source);
+  rejectSymbols(expression, ["y"]);
+  return { kind: "function", expression, parameters: collectParameters([expression]) };
+}
+
+// "(a, b)" or "(a, b, c)": positions of the outer parentheses and of the commas between them
+function splitTuple(source: string): { open: number; commas: number[]; close: number } | null {
+  const open = source.search(/\S/);
+  const close = source.trimEnd().length - 1;
+  if (open < 0 || source[open] !== "(" || source[close] !== ")") return null;
+
+  const commas: number[] = [];
+  let depth = 0;
+  for (let i = open; i <= close; i++) {
+    const char = source[i];
+    if (char === "(" || char === "{") depth++;
+    if (char === ")" || char === "}") depth--;
+    // The first "(" closed before the end: "(x + 1)(x - 1)" is not a point
+    if (depth === 0 && i < close) return null;
+    if (char === "," && depth === 1) commas.push(i);
+  }
+
+  if (commas.length === 0) return null;
+  if (commas.length > 2) {
+    throw new MathParseError("Use duas coordenadas no plano ou três no espaço", commas[2], commas[2] + 1);
+  }
+  return { open, commas, close };
+}
+
+function rejectSymbols(node: MathNode, names: string[]) {
+  for (const name of names) {
+    const symbol = findSymbol(node, name);
+    if (symbol) {
+      throw new MathParseError(`"${name}" não pode ser usado aqui`, symbol.start, symbol.end);
+    }
+  }
+}
+
+function usesAny(node: MathNode, names: string[]): boolean {
+  return names.some(name => findSymbol(node, name) !== null);
+}
+
+function collectParameters(nodes: MathNode[], variables: string[] = ["x"]): string[] {
+  const names = nodes.flatMap(node => getFreeSymbols(node)).filter(name => !variables.includes(name));
+  return Array.from(new Set(names));
+}
+
+/** Parameter names used by the expressions that parse, in order of appearance. */
+export function getGraphParameterNames(expressions: GraphExpression[]): string[] {
+  const names = new Set<string>();
+  for (const { source } of expressions) {
+    try {
+      parseGraphExpression(source).parameters.forEach(name => names.add(name));
+    } catch {
+      // Invalid lines have no sliders until they are fixed
+    }
+  }
+  return Array.from(names);
+}
+
+export function defaultGraphParameter(name: string): GraphParameter {
+  return { name, value: 1, min: -10, max: 10, step: 0.1 };
+}
+
+/** One slider per name: existing sliders keep their settings, unused ones are dropped. */
+export function syncGraphParameters(current: GraphParameter[], names: string[]): GraphParameter[] {
+  return names.map(name => current.find(parameter => parameter.name === name) ?? defaultGraphParameter(name));
+}
+
+export function parameterScope(parameters: GraphParameter[]): MathScope {
+  return Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.value]));
+}
+
+export type PlanePoint = { x: number; y: number };
+
+export type SpacePoint = { x: number; y: number; z: number };
+
+export type CompiledGraphExpression =
+  | { kind: "function"; plot: (x: number) => number | null }
+  | { kind: "point"; x: number | null; y: number | null }
+  | { kind: "vertical"; x: number | null }
+  | { kind: "inequality"; op: InequalityOp; boundary: (x: number) => number | null }
+  | { kind: "parametric"; curve: (t: number) => PlanePoint | null; range: { min: number; max: number } }
+  | { kind: "implicit"; relation: (x: number, y: number) => number | null }
+  | { kind: "vectorField"; field: (x: number, y: number) => PlanePoint | null }
+  | { kind: "surface"; surface: (x: number, y: number) => number | null }
+  | { kind: "spaceCurve"; curve: (t: number) => SpacePoint | null; range: { min: number; max: number } };
+
+function pointOf(x: number | null, y: number | null): PlanePoint | null {
+  return x === null || y === null ? null : { x, y };
+}
+
+/**
+ * Bind parameter values; parameters without a slider count as 1. Polar
+ * curves come back as parametric ones, (r cos θ, r sen θ).
+ */
+export function compileGraphExpression(
+  parsed: ParsedGraphExpression,
+  scope: MathScope,
+  range = DEFAULT_CURVE_RANGE
+): CompiledGraphExpression {
+  const fullScope = { ...Object.fromEntries(parsed.parameters.map(name => [name, 1])), ...scope };
+  const constant = (node: MathNode) => compileExpression(node, fullScope)(0);
+
+  switch (parsed.kind) {
+    case "function":
+      return { kind: "function", plot: compileExpression(parsed.expression, fullScope) };
+    case "point":
+      return { kind: "point", x: constant(parsed.x), y: constant(parsed.y) };
+    case "vertical":
+      return { kind: "vertical", x: constant(parsed.x) };
+    case "inequality":
+      return { kind: "inequality", op: parsed.op, boundary: compileExpression(parsed.boundary, fullScope) };
+    case "parametric": {
+      const [x, y] = [parsed.x, parsed.y].map(node => compileExpression(node, fullScope, [parsed.variable]));
+      return { kind: "parametric", curve: t => pointOf(x(t), y(t)), range };
+    }
+    case "polar": {
+      const radius = compileExpression(parsed.radius, fullScope, [parsed.variable]);
+      return {
+        kind: "parametric",
+        curve: angle => {
+          const r = radius(angle);
+          return r === null ? null : { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+        },
+        range,
+      };
+    }
+    case "implicit": {
+      const [left, right] = [parsed.left, parsed.right].map(node => compileExpression(node, fullScope, ["x", "y"]));
+      return {
+        kind: "implicit",
+        relation: (x, y) => {
+          const [a, b] = [left(x, y), right(x, y)];
+          return a === null || b === null ? null : a - b;
+        },
+      };
+    }
+    case "vectorField": {
+      const [x, y] = [parsed.x, parsed.y].map(node => compileExpression(node, fullScope, ["x", "y"]));
+      return { kind: "vectorField", field: (px, py) => pointOf(x(px, py), y(px, py)) };
+    }
+    case "surface":
+      return { kind: "surface", surface: compileExpression(parsed.expression, fullScope, ["x", "y"]) };
+    case "spaceCurve": {
+      const [x, y, z] = [parsed.x, parsed.y, parsed.z].map(node => compileExpression(node, fullScope, [parsed.variable]));
+      return {
+        kind: "spaceCurve",
+        curve: t => {
+          const [px, py, pz] = [x(t), y(t), z(t)];
+          return px === null || py === null || pz === null ? null : { x: px, y: py, z: pz };
+        },
+        range,
+      };
+    }
+  }
+}
+
+export type Segment = [PlanePoint, PlanePoint];
+
+/**
+ * Trace F(x, y) = 0 with marching squares over a cols × rows grid of the
+ * window. Cells where F is undefined at a corner are skipped, and so are
+ * sign changes across a pole (1/(x - y)), where |F| grows instead of
+ * vanishing between the corners.
+ */
+export function traceImplicit(
+  relation: (x: number, y: number) => number | null,
+  window: { xMin: number; xMax: number; yMin: number; yMax: number },
+  cols: number,
+  rows: number
+): Segment[] {
+  const dx = (window.xMax - window.xMin) / cols;
+  const dy = (window.yMax - window.yMin) / rows;
+  const values: (number | null)[][] = [];
+  for (let j = 0; j <= rows; j++) {
+    const row: (number | null)[] = [];
+    for (let i = 0; i <= cols; i++) row.push(relation(window.xMin + i * dx, window.yMin + j * dy));
+    values.push(row);
+  }
+
+  const segments: Segment[] = [];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const x0 = window.xMin + i * dx;
+      const y0 = window.yMin + j * dy;
+      // Corners counter-clockwise from the bottom left
+      const corners = [
+        { x: x0, y: y0, v: values[j][i] },
+        { x: x0 + dx, y: y0, v: values[j][i + 1] },
+        { x: x0 + dx, y: y0 + dy, v: values[j + 1][i + 1] },
+        { x: x0, y: y0 + dy, v: values[j + 1][i] },
+      ];
+      if (corners.some(corner => corner.v === null)) continue;
+
+      // Where F crosses zero on each edge with a sign change
+      const crossings: PlanePoint[] = [];
+      for (let k = 0; k < 4; k++) {
+        const a = corners[k];
+        const b = corners[(k + 1) % 4];
+        if ((a.v! > 0) === (b.v! > 0)) continue;
+        const t = a.v! / (a.v! - b.v!);
+        crossings.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+      }
+      if (crossings.length < 2) continue;
+
+      const center = relation(x0 + dx / 2, y0 + dy / 2);
+      const largest = Math.max(...corners.map(corner => Math.abs(corner.v!)));
+      if (center === null || Math.abs(center) > largest) continue;
+
+      if (crossings.length === 2) {
+        segments.push([crossings[0], crossings[1]]);
+      } else {
+        // Saddle: when the center has the sign of the first corner, that
+        // corner and the opposite one are joined and the other two cut off
+        const joinFirst = (center > 0) === (corners[0].v! > 0);
+        segments.push(joinFirst ? [crossings[0], crossings[1]] : [crossings[3], crossings[0]]);
+        segments.push(joinFirst ? [crossings[2], crossings[3]] : [crossings[1], crossings[2]]);
+      }
+    }
+  }
+  return segments;
+}
+
+// ==================== STORED GRAPHS ====================
+
+type StoredGraph = Pick<InteractiveGraph, "equation" | "expressions" | "parameters" | "config">;
+
+/** Expressions of a stored graph; graphs from before multiple expressions have only `equation`. */
+export function readGraphExpressions(graph: StoredGraph): GraphExpression[] {
+  if (graph.expressions) {
+    return JSON.parse(graph.expressions) as GraphExpression[];
+  }
+  const config = graph.config ? (JSON.parse(graph.config) as { color?: string }) : {};
+  return [{ id: "1", source: graph.equation, color: config.color ?? GRAPH_COLORS[0] }];
+}
+
+export function readGraphParameters(graph: StoredGraph): GraphParameter[] {
+  return graph.parameters ? (JSON.parse(graph.parameters) as GraphParameter[]) : [];
+}
+
+/** One-line description for prompts and notes: "y = a x^2; (1, 2); a = 2". */
+export function describeGraph(graph: StoredGraph): string {
+  const expressions = readGraphExpressions(graph).map(expression => expression.source);
+  const parameters = readGraphParameters(graph).map(parameter => `${parameter.name} = ${parameter.value}`);
+  return [...expressions, ...parameters].join("; ");
+}
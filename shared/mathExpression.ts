@@ -0,0 +1,893 @@
+/**
+ * Math expressions typed by teachers and students (graph equations,
+ * answers). Tokenizer, recursive-descent parser and AST evaluator shared by
+ * the client (plotting) and the server (validation), so nothing typed by a
+ * user is ever run as JavaScript.
+ *
+ * Syntax highlights:
+ * - implicit multiplication: `2x`, `3(x + 1)`, `x sen x`, `(x + 1)(x - 1)`
+ * - Portuguese and English function names: `sen`/`sin`, `tg`/`tan`, `raiz`/`sqrt`...
+ * - function application without parentheses: `sen 2x`, `sen^2 x`
+ * - constants `pi`/`π`, `e`, `tau`
+ * - piecewise functions: `{x < 0: -x, 0 <= x < 2: x^2, 4}` (last value without
+ *   condition is the default) or `se(x < 0, -x, x)`
+ * - parameters: any other single-letter name (`a x^2 + b`), or `k_1` style names
+ *
+ * Every node and error carries the [start, end) character range it covers in
+ * the source so the editor can point at the exact problem.
+ */
+
+export type MathNode =
+  | { type: "number"; value: number; start: number; end: number }
+  | { type: "symbol"; name: string; start: number; end: number }
+  | { type: "unary"; op: "-"; argument: MathNode; start: number; end: number }
+  | { type: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode; start: number; end: number }
+  | { type: "call"; name: string; args: MathNode[]; start: number; end: number }
+  | { type: "compare"; op: CompareOp; left: MathNode; right: MathNode; start: number; end: number }
+  | { type: "logical"; op: "and"; left: MathNode; right: MathNode; start: number; end: number }
+  | { type: "piecewise"; cases: PiecewiseCase[]; otherwise: MathNode | null; start: number; end: number };
+
+export type CompareOp = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type PiecewiseCase = { condition: MathNode; value: MathNode };
+
+export type MathScope = Record<string, number>;
+
+export class MathParseError extends Error {
+  constructor(
+    message: string,
+    public start: number,
+    public end: number = start + 1
+  ) {
+    super(message);
+    this.name = "MathParseError";
+  }
+}
+
+// ==================== FUNCTIONS AND CONSTANTS ====================
+
+type MathFunction = {
+  // Canonical name, used in the AST whatever alias was typed
+  name: string;
+  minArgs: number;
+  maxArgs: number;
+  apply: (...args: number[]) => number;
+};
+
+// 171! and beyond do not fit in a double
+const MAX_FACTORIAL = 170;
+
+const factorial = (n: number): number => {
+  if (n < 0 || !Number.isInteger(n)) return NaN;
+  if (n > MAX_FACTORIAL) return Infinity;
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+};
+
+const FUNCTION_LIST: Array<[string[], Omit<MathFunction, "name">]> = [
+  [["sin", "sen"], { minArgs: 1, maxArgs: 1, apply: Math.sin }],
+  [["cos"], { minArgs: 1, maxArgs: 1, apply: Math.cos }],
+  [["tan", "tg"], { minArgs: 1, maxArgs: 1, apply: Math.tan }],
+  [["cot", "cotg"], { minArgs: 1, maxArgs: 1, apply: x => 1 / Math.tan(x) }],
+  [["sec"], { minArgs: 1, maxArgs: 1, apply: x => 1 / Math.cos(x) }],
+  [["csc", "cossec", "cosec"], { minArgs: 1, maxArgs: 1, apply: x => 1 / Math.sin(x) }],
+  [["asin", "arcsin", "arcsen"], { minArgs: 1, maxArgs: 1, apply: Math.asin }],
+  [["acos", "arccos"], { minArgs: 1, maxArgs: 1, apply: Math.acos }],
+  [["atan", "arctan", "arctg"], { minArgs: 1, maxArgs: 1, apply: Math.atan }],
+  [["sinh", "senh"], { minArgs: 1, maxArgs: 1, apply: Math.sinh }],
+  [["cosh"], { minArgs: 1, maxArgs: 1, apply: Math.cosh }],
+  [["tanh", "tgh"], { minArgs: 1, maxArgs: 1, apply: Math.tanh }],
+  [["exp"], { minArgs: 1, maxArgs: 1, apply: Math.exp }],
+  [["ln"], { minArgs: 1, maxArgs: 1, apply: Math.log }],
+  // log(x) is base 10, log(x, b) is base b
+  [["log"], { minArgs: 1, maxArgs: 2, apply: (x, base = 10) => Math.log(x) / Math.log(base) }],
+  [["sqrt", "raiz"], { minArgs: 1, maxArgs: 1, apply: Math.sqrt }],
+  [["cbrt"], { minArgs: 1, maxArgs: 1, apply: Math.cbrt }],
+  [["abs", "mod"], { minArgs: 1, maxArgs: 1, apply: Math.abs }],
+  [["floor", "piso"], { minArgs: 1, maxArgs: 1, apply: Math.floor }],
+  [["ceil", "teto"], { minArgs: 1, maxArgs: 1, apply: Math.ceil }],
+  [["round", "arred"], { minArgs: 1, maxArgs: 1, apply: Math.round }],
+  [["sign", "sgn", "sinal"], { minArgs: 1, maxArgs: 1, apply: Math.sign }],
+  [["min"], { minArgs: 1, maxArgs: Infinity, apply: Math.min }],
+  [["max"], { minArgs: 1, maxArgs: Infinity, apply: Math.max }],
+  [["fact", "fat"], { minArgs: 1, maxArgs: 1, apply: factorial }],
+];
+
+const FUNCTIONS = new Map<string, MathFunction>();
+for (const [aliases, fn] of FUNCTION_LIST) {
+  for (const alias of aliases) FUNCTIONS.set(alias, { ...fn, name: aliases[0] });
+}
+
+// `se(condição, então, senão)` is parsed into a piecewise node, not called
+const CONDITIONAL_FUNCTIONS = ["se", "if"];
+
+export const MATH_CONSTANTS: Readonly<Record<string, number>> = {
+  pi: Math.PI,
+  "π": Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+};
+
+// Names matched inside a run of letters, longest first ("sen" before "e").
+// se/if only count as a whole word so that "sex" stays s·e·x
+const KNOWN_NAMES = [...Array.from(FUNCTIONS.keys()), ...Object.keys(MATH_CONSTANTS)]
+  .sort((a, b) => b.length - a.length);
+
+export function isMathFunction(name: string): boolean {
+  return FUNCTIONS.has(name);
+}
+
+/**
+ * Runs of three or more letters with no function or constant in them,
+ * such as "Paris": read as math they would be products of one-letter
+ * variables, which is rarely what was meant.
+ */
+export function findWords(source: string): string[] {
+  return (source.match(/[a-zA-Zα-ωΑ-Ω]{3,}/g) ?? [])
+    .filter(run => splitLetterRun(run, 0).every(token => token.value.length === 1));
+}
+
+// ==================== TOKENIZER ====================
+
+type TokenType = "number" | "name" | "op" | "(" | ")" | "{" | "}" | "," | ":" | "|" | "eof";
+
+type Token = { type: TokenType; value: string; start: number; end: number };
+
+const SINGLE_CHAR_OPS: Record<string, string> = {
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "*": "*",
+  "·": "*",
+  "×": "*",
+  "/": "/",
+  "÷": "/",
+  "^": "^",
+  "!": "!",
+  "<": "<",
+  ">": ">",
+  "=": "=",
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "√": "√",
+  "²": "²",
+  "³": "³",
+};
+
+const TWO_CHAR_OPS: Record<string, string> = {
+  "<=": "<=",
+  ">=": ">=",
+  "!=": "!=",
+  "==": "=",
+  "&&": "and",
+  "**": "^",
+};
+
+const isLetter = (char: string) => /[a-zA-Zα-ωΑ-Ω]/.test(char);
+const isDigit = (char: string) => char >= "0" && char <= "9";
+
+/**
+ * Split a run of letters into names: known functions and constants are
+ * matched greedily, anything else becomes one single-letter symbol per
+ * letter (so `xy` is `x·y` and `pix` is `π·x`).
+ */
+function splitLetterRun(run: string, start: number): Token[] {
+  if (CONDITIONAL_FUNCTIONS.includes(run)) {
+    return [{ type: "name", value: run, start, end: start + run.length }];
+  }
+
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < run.length) {
+    const known = KNOWN_NAMES.find(name => run.startsWith(name, i));
+    const value = known ?? run[i];
+    tokens.push({ type: "name", value, start: start + i, end: start + i + value.length });
+    i += value.length;
+  }
+  return tokens;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (isDigit(char) || (char === "." && isDigit(source[i + 1] ?? ""))) {
+      const start = i;
+      while (isDigit(source[i] ?? "")) i++;
+      if (source[i] === ".") {
+        i++;
+        while (isDigit(source[i] ?? "")) i++;
+      }
+      if (source[i] === ".") {
+        throw new MathParseError("Número com mais de um ponto decimal", start, i + 1);
+      }
+      tokens.push({ type: "number", value: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (isLetter(char)) {
+      const start = i;
+      while (isLetter(source[i] ?? "")) i++;
+      const run = source.slice(start, i);
+
+      // Subscripted names such as a_1 or k_max are always a single parameter
+      if (source[i] === "_" && /[a-zA-Z0-9]/.test(source[i + 1] ?? "")) {
+        const letters = splitLetterRun(run, start);
+        const last = letters.pop()!;
+        i++;
+        while (/[a-zA-Z0-9]/.test(source[i] ?? "")) i++;
+        tokens.push(...letters, { type: "name", value: source.slice(last.start, i), start: last.start, end: i });
+        continue;
+      }
+
+      // A word of three or more unknown letters right before "(" is a typo
+      // (sine(x), sqr(x)), not a product of single-letter parameters
+      const letters = splitLetterRun(run, start);
+      const next = source.slice(i).trimStart()[0];
+      if (next === "(" && run.length >= 3 && letters.every(token => token.value.length === 1)) {
+        throw new MathParseError(`Função desconhecida: ${run}`, start, i);
+      }
+
+      tokens.push(...letters);
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (TWO_CHAR_OPS[twoChars]) {
+      tokens.push({ type: "op", value: TWO_CHAR_OPS[twoChars], start: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if (SINGLE_CHAR_OPS[char]) {
+      tokens.push({ type: "op", value: SINGLE_CHAR_OPS[char], start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if ("(){},:|".includes(char)) {
+      tokens.push({ type: char as TokenType, value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === "[" || char === "]") {
+      tokens.push({ type: char === "[" ? "(" : ")", value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ";") {
+      tokens.push({ type: ",", value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new MathParseError(`Caractere inválido: "${char}"`, i);
+  }
+
+  tokens.push({ type: "eof", value: "", start: source.length, end: source.length });
+  return tokens;
+}
+
+// ==================== PARSER ====================
+
+const COMPARE_OPS = ["<", "<=", ">", ">=", "=", "!="];
+
+class Parser {
+  private index = 0;
+  // Open |...| groups: a "|" closes the innermost one instead of opening another
+  private absDepth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.index++;
+    return token;
+  }
+
+  private isOp(value: string, token: Token = this.peek()) {
+    return token.type === "op" && token.value === value;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.unexpected(token, description);
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token, expected?: string): MathParseError {
+    if (token.type === "eof") {
+      return new MathParseError(
+        expected ? `Expressão incompleta: faltou ${expected}` : "Expressão incompleta",
+        token.start
+      );
+    }
+    return new MathParseError(
+      expected ? `Esperado ${expected}, encontrado "${token.value}"` : `Símbolo inesperado: "${token.value}"`,
+      token.start,
+      token.end
+    );
+  }
+
+  parse(): MathNode {
+    if (this.peek().type === "eof") {
+      throw new MathParseError("Expressão vazia", 0);
+    }
+    const node = this.parseLogical();
+    const rest = this.peek();
+    if (rest.type !== "eof") {
+      throw rest.type === ")" || rest.type === "}"
+        ? new MathParseError(`"${rest.value}" sem abertura correspondente`, rest.start, rest.end)
+        : this.unexpected(rest);
+    }
+    return node;
+  }
+
+  private parseLogical(): MathNode {
+    let left = this.parseComparison();
+    while (this.isOp("and")) {
+      this.next();
+      const right = this.parseComparison();
+      left = { type: "logical", op: "and", left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  // Chained comparisons (0 <= x < 2) are read as (0 <= x) and (x < 2)
+  private parseComparison(): MathNode {
+    let left = this.parseAdditive();
+    let result: MathNode | null = null;
+
+    while (this.peek().type === "op" && COMPARE_OPS.includes(this.peek().value)) {
+      const op = this.next().value as CompareOp;
+      const right = this.parseAdditive();
+      const comparison: MathNode = { type: "compare", op, left, right, start: left.start, end: right.end };
+      result = result
+        ? { type: "logical", op: "and", left: result, right: comparison, start: result.start, end: right.end }
+        : comparison;
+      left = right;
+    }
+
+    return result ?? left;
+  }
+
+  private parseAdditive(): MathNode {
+    let left = this.parseMultiplicative();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.next().value as "+" | "-";
+      const right = this.parseMultiplicative();
+      left = { type: "binary", op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  // Whether the next token can start a factor multiplied by juxtaposition
+  private startsImplicitFactor(stopAtFunction: boolean): boolean {
+    const token = this.peek();
+    if (token.type === "number" || token.type === "(" || token.type === "{") return true;
+    if (token.type === "|") return this.absDepth === 0;
+    if (this.isOp("√")) return true;
+    if (token.type === "name") {
+      return !(stopAtFunction && (FUNCTIONS.has(token.value) || CONDITIONAL_FUNCTIONS.includes(token.value)));
+    }
+    return false;
+  }
+
+  private parseMultiplicative(stopAtFunction = false): MathNode {
+    let left = this.parseUnary();
+    for (;;) {
+      if (this.isOp("*") || this.isOp("/")) {
+        if (stopAtFunction) break;
+        const op = this.next().value as "*" | "/";
+        const right = this.parseUnary();
+        left = { type: "binary", op, left, right, start: left.start, end: right.end };
+      } else if (this.startsImplicitFactor(stopAtFunction)) {
+        const right = this.parsePower();
+        left = { type: "binary", op: "*", left, right, start: left.start, end: right.end };
+      } else {
+        break;
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): MathNode {
+    const token = this.peek();
+    if (this.isOp("-")) {
+      this.next();
+      const argument = this.parseUnary();
+      return { type: "unary", op: "-", argument, start: token.start, end: argument.end };
+    }
+    if (this.isOp("+")) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // Exponentiation is right-associative and binds tighter than unary minus: -2^2 = -4
+  private parsePower(): MathNode {
+    const base = this.parsePostfix();
+    if (this.isOp("^")) {
+      this.next();
+      const exponent = this.parseUnary();
+      return { type: "binary", op: "^", left: base, right: exponent, start: base.start, end: exponent.end };
+    }
+    return base;
+  }
+
+  private parsePostfix(): MathNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      const token = this.peek();
+      if (this.isOp("!")) {
+        this.next();
+        node = { type: "call", name: "fact", args: [node], start: node.start, end: token.end };
+      } else if (this.isOp("²") || this.isOp("³")) {
+        this.next();
+        const exponent: MathNode = { type: "number", value: token.value === "²" ? 2 : 3, start: token.start, end: token.end };
+        node = { type: "binary", op: "^", left: node, right: exponent, start: node.start, end: token.end };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): MathNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "number": {
+        this.next();
+        return { type: "number", value: Number(token.value), start: token.start, end: token.end };
+      }
+      case "(": {
+        this.next();
+        const inner = this.parseLogical();
+        const close = this.expect(")", '")"');
+        return { ...inner, start: token.start, end: close.end };
+      }
+      case "|": {
+        this.next();
+        this.absDepth++;
+        const inner = this.parseAdditive();
+        this.absDepth--;
+        const close = this.expect("|", '"|"');
+        return { type: "call", name: "abs", args: [inner], start: token.start, end: close.end };
+      }
+      case "{":
+        return this.parsePiecewise();
+      case "name":
+        return this.parseName();
+      case "op":
+        if (token.value === "√") {
+          this.next();
+          const argument = this.parsePower();
+          return { type: "call", name: "sqrt", args: [argument], start: token.start, end: argument.end };
+        }
+        throw this.unexpected(token, "um número ou variável");
+      default:
+        throw this.unexpected(token, "um número ou variável");
+    }
+  }
+
+  private parseName(): MathNode {
+    const token = this.next();
+
+    if (CONDITIONAL_FUNCTIONS.includes(token.value)) {
+      return this.parseConditional(token);
+    }
+
+    const fn = FUNCTIONS.get(token.value);
+    if (!fn) {
+      return { type: "symbol", name: token.value, start: token.start, end: token.end };
+    }
+
+    // sen^2 x means (sen x)^2
+    let exponent: MathNode | null = null;
+    if (this.isOp("^")) {
+      this.next();
+      exponent = this.parseUnary();
+    }
+
+    let args: MathNode[];
+    let end: number;
+    if (this.peek().type === "(") {
+      this.next();
+      args = [this.parseLogical()];
+      while (this.peek().type === ",") {
+        this.next();
+        args.push(this.parseLogical());
+      }
+      end = this.expect(")", '")"').end;
+    } else if (this.startsImplicitFactor(false) || this.isOp("-")) {
+      // sen 2x means sen(2x); the argument stops before the next function
+      const argument = this.isOp("-") ? this.parseUnary() : this.parseMultiplicative(true);
+      args = [argument];
+      end = argument.end;
+    } else {
+      throw new MathParseError(`Faltou o argumento de ${token.value}`, token.start, token.end);
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `de ${fn.minArgs} a ${fn.maxArgs}`;
+      throw new MathParseError(
+        `${token.value} recebe ${expected} argumento(s), recebeu ${args.length}`,
+        token.start,
+        end
+      );
+    }
+
+    const call: MathNode = { type: "call", name: fn.name, args, start: token.start, end };
+    return exponent
+      ? { type: "binary", op: "^", left: call, right: exponent, start: token.start, end }
+      : call;
+  }
+
+  // se(condição, valor, senão)
+  private parseConditional(token: Token): MathNode {
+    this.expect("(", `"(" depois de ${token.value}`);
+    const condition = this.parseLogical();
+    this.expect(",", '","');
+    const value = this.parseLogical();
+    let otherwise: MathNode | null = null;
+    if (this.peek().type === ",") {
+      this.next();
+      otherwise = this.parseLogical();
+    }
+    const close = this.expect(")", '")"');
+    return { type: "piecewise", cases: [{ condition, value }], otherwise, start: token.start, end: close.end };
+  }
+
+  // {condição: valor, condição: valor, padrão}
+  private parsePiecewise(): MathNode {
+    const open = this.next();
+    const cases: PiecewiseCase[] = [];
+    let otherwise: MathNode | null = null;
+
+    for (;;) {
+      const first = this.parseLogical();
+      if (this.peek().type === ":") {
+        this.next();
+        if (otherwise) {
+          throw new MathParseError("O valor padrão deve ser o último da função por partes", otherwise.start, otherwise.end);
+        }
+        cases.push({ condition: first, value: this.parseLogical() });
+      } else if (otherwise) {
+        throw new MathParseError("A função por partes só pode ter um valor padrão", first.start, first.end);
+      } else {
+        otherwise = first;
+      }
+
+      if (this.peek().type === ",") {
+        this.next();
+        continue;
+      }
+      const close = this.expect("}", '"}"');
+      if (cases.length === 0) {
+        throw new MathParseError("Função por partes sem condições", open.start, close.end);
+      }
+      return { type: "piecewise", cases, otherwise, start: open.start, end: close.end };
+    }
+  }
+}
+
+export function parseExpression(source: string): MathNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+// ==================== EVALUATION ====================
+
+/** Evaluate an expression; comparisons yield 1 or 0, undefined points NaN. */
+export function evaluate(node: MathNode, scope: MathScope = {}): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "symbol":
+      if (Object.prototype.hasOwnProperty.call(scope, node.name)) return scope[node.name];
+      if (Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, node.name)) return MATH_CONSTANTS[node.name];
+      throw new MathParseError(`Variável sem valor: ${node.name}`, node.start, node.end);
+    case "unary":
+      return -evaluate(node.argument, scope);
+    case "binary":
+      return applyBinary(node.op, evaluate(node.left, scope), evaluate(node.right, scope));
+    case "call":
+      return FUNCTIONS.get(node.name)!.apply(...node.args.map(arg => evaluate(arg, scope)));
+    case "compare":
+      return applyCompare(node.op, evaluate(node.left, scope), evaluate(node.right, scope)) ? 1 : 0;
+    case "logical":
+      return evaluate(node.left, scope) !== 0 && evaluate(node.right, scope) !== 0 ? 1 : 0;
+    case "piecewise":
+      for (const { condition, value } of node.cases) {
+        const test = evaluate(condition, scope);
+        if (test !== 0 && !Number.isNaN(test)) return evaluate(value, scope);
+      }
+      return node.otherwise ? evaluate(node.otherwise, scope) : NaN;
+  }
+}
+
+function applyBinary(op: "+" | "-" | "*" | "/" | "^", left: number, right: number): number {
+  switch (op) {
+    case "+": return left + right;
+    case "-": return left - right;
+    case "*": return left * right;
+    case "/": return left / right;
+    case "^": return realPower(left, right);
+  }
+}
+
+function applyCompare(op: CompareOp, left: number, right: number): boolean {
+  switch (op) {
+    case "<": return left < right;
+    case "<=": return left <= right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+    case "=": return left === right;
+    case "!=": return left !== right;
+  }
+}
+
+// Odd roots of negative numbers are real: (-8)^(1/3) = -2
+function realPower(base: number, exponent: number): number {
+  if (base < 0 && !Number.isInteger(exponent)) {
+    const inverse = 1 / exponent;
+    if (Number.isInteger(inverse) && Math.abs(inverse) % 2 === 1) {
+      return -Math.pow(-base, exponent);
+    }
+  }
+  return Math.pow(base, exponent);
+}
+
+/** Names a scope must provide to evaluate the expression, in order of appearance. */
+export function getFreeSymbols(node: MathNode): string[] {
+  const names = new Set<string>();
+  visitSymbols(node, symbol => {
+    if (!(symbol.name in MATH_CONSTANTS)) names.add(symbol.name);
+  });
+  return Array.from(names);
+}
+
+/** First occurrence of a name in the expression, to point errors at it. */
+export function findSymbol(node: MathNode, name: string): MathNode | null {
+  let found: MathNode | null = null;
+  visitSymbols(node, symbol => {
+    if (!found && symbol.name === name) found = symbol;
+  });
+  return found;
+}
+
+function visitSymbols(node: MathNode, callback: (symbol: Extract<MathNode, { type: "symbol" }>) => void) {
+  const visit = (current: MathNode) => {
+    switch (current.type) {
+      case "symbol":
+        callback(current);
+        break;
+      case "unary":
+        visit(current.argument);
+        break;
+      case "binary":
+      case "compare":
+      case "logical":
+        visit(current.left);
+        visit(current.right);
+        break;
+      case "call":
+        current.args.forEach(visit);
+        break;
+      case "piecewise":
+        current.cases.forEach(({ condition, value }) => {
+          visit(condition);
+          visit(value);
+        });
+        if (current.otherwise) visit(current.otherwise);
+        break;
+    }
+  };
+  visit(node);
+}
+
+// ==================== EQUATIONS ====================
+
+export type ParsedEquation = {
+  expression: MathNode;
+  // Names other than the variables, e.g. a and b in y = a x + b
+  parameters: string[];
+};
+
+// "y =" or "f(x) =" in front of the expression
+const FUNCTION_LHS = /^\s*(?:y|[a-zA-Z]\s*\(\s*x\s*\))\s*=(?!=)/;
+
+/**
+ * Parse a graph equation (`y = ...`, `f(x) = ...` or a bare expression of x).
+ * Positions in errors refer to the full source, left-hand side included.
+ */
+export function parseEquation(source: string, variables: string[] = ["x"]): ParsedEquation {
+  const lhs = source.match(FUNCTION_LHS);
+  const expression = parseExpressionRange(source, lhs ? lhs[0].length : 0);
+
+  if (expression.type === "compare" || expression.type === "logical") {
+    throw new MathParseError(
+      'Escreva a equação como "y = expressão"',
+      expression.start,
+      expression.end
+    );
+  }
+
+  const parameters = getFreeSymbols(expression).filter(name => !variables.includes(name));
+  return { expression, parameters };
+}
+
+/** Parse `source.slice(start, end)` with node and error positions relative to the whole source. */
+export function parseExpressionRange(source: string, start = 0, end = source.length): MathNode {
+  try {
+    return shiftPositions(parseExpression(source.slice(start, end)), start);
+  } catch (error) {
+    if (error instanceof MathParseError) {
+      throw new MathParseError(error.message, error.start + start, error.end + start);
+    }
+    throw error;
+  }
+}
+
+function shiftPositions(node: MathNode, offset: number): MathNode {
+  if (offset === 0) return node;
+  const shift = (current: MathNode): MathNode => {
+    const shifted = { ...current, start: current.start + offset, end: current.end + offset } as MathNode;
+    switch (shifted.type) {
+      case "unary":
+        return { ...shifted, argument: shift(shifted.argument) };
+      case "binary":
+      case "compare":
+      case "logical":
+        return { ...shifted, left: shift(shifted.left), right: shift(shifted.right) } as MathNode;
+      case "call":
+        return { ...shifted, args: shifted.args.map(shift) };
+      case "piecewise":
+        return {
+          ...shifted,
+          cases: shifted.cases.map(({ condition, value }) => ({ condition: shift(condition), value: shift(value) })),
+          otherwise: shifted.otherwise ? shift(shifted.otherwise) : null,
+        };
+      default:
+        return shifted;
+    }
+  };
+  return shift(node);
+}
+
+/** "mensagem (posição N)" with a 1-based position, for error messages. */
+export function formatMathError(error: MathParseError): string {
+  return `${error.message} (posição ${error.start + 1})`;
+}
+
+/**
+ * Build a plotting function from an equation. Points where the function is
+ * undefined (or a parameter is missing) come back as null.
+ */
+export function compileEquation(
+  source: string,
+  parameters: MathScope = {}
+): (x: number) => number | null {
+  return compileExpression(parseEquation(source).expression, parameters);
+}
+
+/** Same as `compileEquation` for an already parsed expression of one or more variables. */
+export function compileExpression(
+  expression: MathNode,
+  parameters: MathScope = {},
+  variables: string[] = ["x"]
+): (...values: number[]) => number | null {
+  const scope: MathScope = { ...parameters };
+  return (...values: number[]) => {
+    variables.forEach((variable, index) => {
+      scope[variable] = values[index];
+    });
+    try {
+      const result = evaluate(expression, scope);
+      return Number.isFinite(result) ? result : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+// ==================== LATEX ====================
+
+const LATEX_COMMANDS = new Set(["sin", "cos", "tan", "cot", "sec", "csc", "sinh", "cosh", "tanh", "exp", "ln", "log", "min", "max"]);
+const LATEX_ARC_COMMANDS: Record<string, string> = { asin: "\\arcsin", acos: "\\arccos", atan: "\\arctan" };
+const LATEX_SYMBOLS: Record<string, string> = { pi: "\\pi", "π": "\\pi", tau: "\\tau" };
+const LATEX_COMPARE: Record<CompareOp, string> = { "<": "<", "<=": "\\le", ">": ">", ">=": "\\ge", "=": "=", "!=": "\\ne" };
+
+// Binding strength used to decide where parentheses are needed
+function precedence(node: MathNode): number {
+  switch (node.type) {
+    case "logical":
+    case "compare":
+      return 0;
+    case "binary":
+      return node.op === "+" || node.op === "-" ? 1 : node.op === "^" ? 4 : 2;
+    case "unary":
+      return 3;
+    default:
+      return 5;
+  }
+}
+
+// LaTeX of a child, in parentheses when it binds more loosely than `minimum`
+function wrap(child: MathNode, minimum: number): string {
+  return precedence(child) < minimum ? `\\left(${toLatex(child)}\\right)` : toLatex(child);
+}
+
+function binaryToLatex(node: Extract<MathNode, { type: "binary" }>): string {
+  // A negative right operand always gets parentheses: 2 - (-x), a \cdot (-b)
+  const right = (minimum: number) => wrap(node.right, node.right.type === "unary" ? 4 : minimum);
+
+  switch (node.op) {
+    case "+":
+      return `${toLatex(node.left)} + ${right(1)}`;
+    case "-":
+      return `${toLatex(node.left)} - ${right(2)}`;
+    case "*": {
+      // 2x and a(x + 1) read better without a dot; 2 · 3 needs one
+      const factor = right(2);
+      const separator = /^\d/.test(factor) ? " \\cdot " : " ";
+      return `${wrap(node.left, 2)}${separator}${factor}`;
+    }
+    case "/":
+      return `\\frac{${toLatex(node.left)}}{${toLatex(node.right)}}`;
+    case "^":
+      return `${wrap(node.left, 5)}^{${toLatex(node.right)}}`;
+  }
+}
+
+/** LaTeX for an expression, e.g. `sen(x)/2` becomes `\frac{\sin\left(x\right)}{2}`. */
+export function toLatex(node: MathNode): string {
+  switch (node.type) {
+    case "number":
+      return String(node.value);
+    case "symbol":
+      return LATEX_SYMBOLS[node.name] ?? node.name.replace(/_(\w+)/, "_{$1}");
+    case "unary":
+      return `-${wrap(node.argument, 3)}`;
+    case "binary":
+      return binaryToLatex(node);
+    case "call": {
+      const args = node.args.map(toLatex);
+      if (node.name === "sqrt") return `\\sqrt{${args[0]}}`;
+      if (node.name === "cbrt") return `\\sqrt[3]{${args[0]}}`;
+      if (node.name === "abs") return `\\left|${args[0]}\\right|`;
+      if (node.name === "floor") return `\\left\\lfloor ${args[0]} \\right\\rfloor`;
+      if (node.name === "ceil") return `\\left\\lceil ${args[0]} \\right\\rceil`;
+      if (node.name === "fact") return `${wrap(node.args[0], 5)}!`;
+      if (node.name === "log" && args.length === 2) return `\\log_{${args[1]}}\\left(${args[0]}\\right)`;
+      const command = LATEX_ARC_COMMANDS[node.name]
+        ?? (LATEX_COMMANDS.has(node.name) ? `\\${node.name}` : `\\operatorname{${node.name}}`);
+      return `${command}\\left(${args.join(", ")}\\right)`;
+    }
+    case "compare":
+      return `${toLatex(node.left)} ${LATEX_COMPARE[node.op]} ${toLatex(node.right)}`;
+    case "logical":
+      return `${toLatex(node.left)} \\text{ e } ${toLatex(node.right)}`;
+    case "piecewise": {
+      const rows = node.cases.map(({ condition, value }) => `${toLatex(value)} & \\text{se } ${toLatex(condition)}`);
+      if (node.otherwise) rows.push(`${toLatex(node.otherwise)} & \\text{caso contrário}`);
+      return `\\begin{cases} ${rows.join(" \\\\ ")} \\end{cases}`;
+    }
+  }
+}
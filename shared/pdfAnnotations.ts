@@ -0,0 +1,93 @@
+/**
+ * Annotations drawn by the teacher over the pages of a PDF. Points are
+ * stored as fractions of the page (0–1 from the top-left corner) and
+ * widths as fractions of the page width, so they land on the same spot
+ * at any zoom level and when flattened into the PDF itself.
+ */
+
+import type { PdfAnnotation } from "../drizzle/schema";
+import { boardStrokeHit, type BoardPoint } from "./board";
+
+export type PdfAnnotationTool = PdfAnnotation["tool"];
+
+export const PDF_ANNOTATION_TOOLS: readonly PdfAnnotationTool[] = ["ink", "highlight", "text"];
+
+export const PDF_ANNOTATION_TOOL_LABELS: Record<PdfAnnotationTool, string> = {
+  ink: "Caneta",
+  highlight: "Marca-texto",
+  text: "Nota",
+};
+
+export const PDF_ANNOTATION_COLORS = ["#dc2626", "#2563eb", "#16a34a", "#111827", "#facc15", "#f472b6"];
+
+// Line widths, and font size for notes, as fractions of the page width
+export const PDF_INK_WIDTH = 0.003;
+export const PDF_HIGHLIGHT_WIDTH = 0.02;
+export const PDF_TEXT_SIZE = 0.022;
+export const MAX_PDF_ANNOTATION_WIDTH = 0.1;
+
+// Highlights are drawn see-through so the text under them stays readable
+export const PDF_HIGHLIGHT_OPACITY = 0.35;
+
+export const MAX_PDF_ANNOTATION_POINTS = 2000;
+export const MAX_PDF_ANNOTATION_TEXT = 500;
+
+export type PdfAnnotationData = {
+  color: string;
+  // Line width, or font size for notes
+  width: number;
+  // Ink and highlight: the path; notes: top-left corner
+  points: BoardPoint[];
+  text?: string;
+};
+
+/** An annotation being drawn by the teacher, relayed to students before it is saved. */
+export type PdfAnnotationDraft = {
+  documentId: number;
+  page: number;
+  tool: PdfAnnotationTool;
+  // null when the annotation was cancelled or saved
+  data: PdfAnnotationData | null;
+};
+
+/** Where the teacher's laser pointer is, relayed live and never stored. */
+export type PdfPointer = {
+  documentId: number;
+  page: number;
+  // null when the pointer left the page
+  point: BoardPoint | null;
+};
+
+/** Why the annotation cannot be saved, or null if it is fine. */
+export function validatePdfAnnotation(tool: PdfAnnotationTool, data: PdfAnnotationData): string | null {
+  const { points, text } = data;
+  if (points.some(([x, y]) => x < 0 || x > 1 || y < 0 || y > 1)) return "Ponto fora da página";
+  if (tool === "text") {
+    if (points.length !== 1) return "Uma nota tem uma posição";
+    if (!text?.trim() || text.length > MAX_PDF_ANNOTATION_TEXT) return "Nota vazia ou longa demais";
+  } else if (points.length === 0 || points.length > MAX_PDF_ANNOTATION_POINTS) {
+    return "Traço com pontos demais";
+  }
+  return null;
+}
+
+/**
+ * Whether the eraser, a circle of `radius` (a fraction of the page width)
+ * at `point`, touches the annotation. `aspect` is the page height over its
+ * width, needed to measure distances on pages that are not square.
+ */
+export function pdfAnnotationHit(
+  tool: PdfAnnotationTool,
+  data: PdfAnnotationData,
+  point: BoardPoint,
+  radius: number,
+  aspect: number
+): boolean {
+  const toWidthUnits = ([x, y]: BoardPoint): BoardPoint => [x, y * aspect];
+  return boardStrokeHit(
+    tool === "text" ? "text" : "pen",
+    { ...data, points: data.points.map(toWidthUnits) },
+    toWidthUnits(point),
+    radius
+  );
+}
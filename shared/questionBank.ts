@@ -0,0 +1,86 @@
+/**
+ * A teacher's question bank: questions kept outside any session, tagged to
+ * be found again, grouped into quiz sets that are queued into a session
+ * all at once. Bank items travel between teachers and other platforms in
+ * the JSON format described in docs/quiz-format.md, or as GIFT text.
+ */
+
+import { MAX_SPEED_BONUS } from "./exerciseScoring";
+import { MAX_QUESTION_TEXT, validateExerciseQuestion, type ExerciseQuestion } from "./exerciseQuestions";
+
+export const QUESTION_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export type QuestionDifficulty = (typeof QUESTION_DIFFICULTIES)[number];
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Fácil",
+  medium: "Média",
+  hard: "Difícil",
+};
+
+export const MAX_TAG_LENGTH = 64;
+export const MAX_SET_QUESTIONS = 100;
+export const MAX_IMPORT_QUESTIONS = 100;
+// Characters of an imported file
+export const MAX_IMPORT_SIZE = 512 * 1024;
+
+export type QuestionTags = {
+  topic?: string | null;
+  difficulty?: QuestionDifficulty | null;
+  // School year or course, as the teacher writes it
+  grade?: string | null;
+};
+
+/** A question of the bank as it is imported and exported. */
+export type BankItem = {
+  question: string;
+  questionLatex?: string | null;
+  // Free-text questions included, with how their answers are checked
+  content: ExerciseQuestion;
+  points: number;
+  // Seconds
+  timeLimit?: number | null;
+  speedBonus?: number;
+  streakBonus?: boolean;
+  tags?: QuestionTags;
+};
+
+export const QUIZ_FILE_FORMAT = "mathtutor-quiz";
+export const QUIZ_FILE_VERSION = 1;
+
+export type QuizFile = {
+  format: typeof QUIZ_FILE_FORMAT;
+  version: typeof QUIZ_FILE_VERSION;
+  title?: string;
+  questions: BankItem[];
+};
+
+export const QUIZ_EXPORT_FORMATS = ["json", "gift"] as const;
+export type QuizExportFormat = (typeof QUIZ_EXPORT_FORMATS)[number];
+
+export const QUIZ_EXPORT_FORMAT_LABELS: Record<QuizExportFormat, string> = {
+  json: "JSON (MathTutor)",
+  gift: "GIFT (Moodle)",
+};
+
+/** Why the item cannot go into the bank, or null if it is fine. */
+export function validateBankItem(item: BankItem): string | null {
+  if (!item.question.trim()) return "Escreva a pergunta";
+  if (item.question.length > 2000) return "Pergunta longa demais";
+  if (!Number.isInteger(item.points) || item.points < 1 || item.points > 100) return "Pontos inválidos";
+  if (item.timeLimit != null && (!Number.isInteger(item.timeLimit) || item.timeLimit < 1)) return "Tempo limite inválido";
+  const speedBonus = item.speedBonus ?? 0;
+  if (!Number.isInteger(speedBonus) || speedBonus < 0 || speedBonus > MAX_SPEED_BONUS) return "Bônus de velocidade inválido";
+  if (speedBonus > 0 && !item.timeLimit) return "O bônus de velocidade precisa de um tempo limite";
+  if (item.content.type === "text" && item.content.correctAnswer.length > MAX_QUESTION_TEXT) return "Resposta longa demais";
+  return validateExerciseQuestion(item.content);
+}
+
+/** Tags trimmed, with blanks as none. */
+export function normalizeTags(tags: QuestionTags | undefined): Required<QuestionTags> {
+  const clean = (value: string | null | undefined) => value?.trim().slice(0, MAX_TAG_LENGTH) || null;
+  return {
+    topic: clean(tags?.topic),
+    difficulty: tags?.difficulty ?? null,
+    grade: clean(tags?.grade),
+  };
+}
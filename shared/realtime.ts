@@ -0,0 +1,79 @@
+/**
+ * Realtime session events pushed over the Socket.IO server.
+ * Shared by the server publisher and the client subscriptions so both
+ * sides agree on event names and payload shapes.
+ */
+
+import type { LiveChat, PdfAnnotation, PdfSyncState, WhiteboardStroke } from "../drizzle/schema";
+import type { BoardDraft } from "./board";
+import type { PdfAnnotationDraft, PdfPointer } from "./pdfAnnotations";
+import type { GraphParameter } from "./graphExpressions";
+import type { GraphCamera } from "./graph3d";
+
+export const SESSION_EVENTS = {
+  liveChat: "live-chat-message",
+  exercise: "exercise-changed",
+  score: "score-changed",
+  pdfSync: "pdf-sync-changed",
+  graph: "graph-changed",
+  graphParameters: "graph-parameters-changed",
+  graphCamera: "graph-camera-changed",
+  participants: "participants-changed",
+  tutorPolicy: "tutor-policy-changed",
+  board: "board-changed",
+  boardStroke: "board-stroke-added",
+  boardErase: "board-strokes-erased",
+  boardDraft: "board-draft",
+  pdfAnnotations: "pdf-annotations-changed",
+  pdfAnnotation: "pdf-annotation-added",
+  pdfAnnotationErase: "pdf-annotations-erased",
+  pdfAnnotationDraft: "pdf-annotation-draft",
+  pdfPointer: "pdf-pointer",
+} as const;
+
+export type SessionEventName = (typeof SESSION_EVENTS)[keyof typeof SESSION_EVENTS];
+
+export interface SessionEventPayloads {
+  "live-chat-message": LiveChat;
+  "exercise-changed": { exerciseId: number | null };
+  "score-changed": { participantId: number };
+  "pdf-sync-changed": PdfSyncState | null;
+  "graph-changed": { graphId: number | null };
+  "graph-parameters-changed": { graphId: number; parameters: GraphParameter[] };
+  "graph-camera-changed": { graphId: number; camera: GraphCamera };
+  "participants-changed": { sessionId: number };
+  "tutor-policy-changed": { sessionId: number };
+  "board-changed": { sessionId: number };
+  "board-stroke-added": WhiteboardStroke;
+  "board-strokes-erased": { ids: number[] };
+  "board-draft": BoardDraft;
+  "pdf-annotations-changed": { documentId: number | null };
+  "pdf-annotation-added": PdfAnnotation;
+  "pdf-annotations-erased": { documentId: number; ids: number[] };
+  "pdf-annotation-draft": PdfAnnotationDraft;
+  "pdf-pointer": PdfPointer;
+}
+
+// Client -> server messages used to join/leave a session channel.
+// Subscribing requires the participant token issued by `session.join`.
+export const SUBSCRIBE_SESSION = "subscribe-session";
+export const UNSUBSCRIBE_SESSION = "unsubscribe-session";
+export const SUBSCRIBE_ERROR = "subscribe-error";
+// Server -> client: the subscription was accepted and events will now arrive
+export const SUBSCRIBED = "subscribed";
+
+// Client -> server: a whiteboard stroke still being drawn, relayed to the
+// rest of the session as a "board-draft" event. Saved strokes go through tRPC.
+export const SEND_BOARD_DRAFT = "send-board-draft";
+
+// Client -> server: the teacher's PDF annotation still being drawn, relayed
+// as a "pdf-annotation-draft" event. Saved annotations go through tRPC.
+export const SEND_PDF_ANNOTATION_DRAFT = "send-pdf-annotation-draft";
+
+// Client -> server: the teacher's laser pointer over a PDF page, relayed
+// as a "pdf-pointer" event.
+export const SEND_PDF_POINTER = "send-pdf-pointer";
+
+export function sessionChannel(sessionId: number): string {
+  return `session:${sessionId}`;
+}
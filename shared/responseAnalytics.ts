@@ -0,0 +1,151 @@
+/**
+ * What the teacher follows while an exercise is open: who has answered,
+ * how the answers spread and which wrong answer came up most. Typed
+ * answers that say the same thing in other ways, such as "2x + 2" and
+ * "2(x+1)", are counted together. Students only see the spread, without
+ * names, once the teacher reveals it.
+ */
+
+import { checkAnswer, normalizeAnswerText } from "./answerCheck";
+import type { QuestionType } from "./exerciseQuestions";
+
+export type AnalyzedResponse = {
+  participantId: number;
+  // As stored in `exerciseResponses.answer`
+  answer: string;
+  correct: boolean;
+  // Milliseconds, null for answers from before they were timed
+  responseTime: number | null;
+};
+
+export type AnswerGroup = {
+  // The way most students wrote it
+  answer: string;
+  // Other ways the same answer was written
+  variants: string[];
+  count: number;
+  correct: boolean;
+};
+
+export type ResponseAnalytics = {
+  answered: number;
+  // Students of the session, those who answered and left included
+  expected: number;
+  correct: number;
+  groups: AnswerGroup[];
+  mostCommonWrong: AnswerGroup | null;
+  // Milliseconds
+  averageResponseTime: number | null;
+  notAnswered: { participantId: number; name: string }[];
+};
+
+/** The spread of the answers as the class sees it: no names, no spellings. */
+export type RevealedResults = {
+  answered: number;
+  correct: number;
+  bars: { label: string; count: number; correct: boolean }[];
+};
+
+// Bars shown to the class; answers beyond them add up in a last one
+export const MAX_REVEALED_BARS = 8;
+export const OTHER_ANSWERS_LABEL = "Outras";
+
+// Distinct answers compared for equivalence, most given first; the rest group by text only
+const MAX_COMPARED_ANSWERS = 50;
+
+// Only typed answers can say the same thing in other ways
+const TYPED_QUESTION_TYPES: readonly QuestionType[] = ["text", "numeric"];
+
+type Spellings = {
+  key: string;
+  correct: boolean;
+  count: number;
+  spellings: Map<string, number>;
+};
+
+function mergeInto(target: Spellings, source: Spellings) {
+  target.count += source.count;
+  source.spellings.forEach((count, spelling) => target.spellings.set(spelling, (target.spellings.get(spelling) ?? 0) + count));
+}
+
+/**
+ * The answers given, counted together when they are the same answer:
+ * same text for options and steps, mathematically equivalent for typed
+ * answers. Right and wrong answers never share a group. Most given first.
+ */
+export function groupAnswers(questionType: QuestionType, responses: Pick<AnalyzedResponse, "answer" | "correct">[]): AnswerGroup[] {
+  const typed = TYPED_QUESTION_TYPES.includes(questionType);
+
+  // Same text first, which for typed answers leaves aside case, spacing and LaTeX delimiters
+  const byText = new Map<string, Spellings>();
+  responses.forEach(({ answer, correct }) => {
+    const spelling = answer.trim();
+    const key = typed ? normalizeAnswerText(spelling).toLowerCase() : spelling;
+    const id = `${correct}:${key}`;
+    const entry = byText.get(id) ?? { key, correct, count: 0, spellings: new Map<string, number>() };
+    entry.count++;
+    entry.spellings.set(spelling, (entry.spellings.get(spelling) ?? 0) + 1);
+    byText.set(id, entry);
+  });
+
+  let groups = Array.from(byText.values()).sort((a, b) => b.count - a.count);
+  if (typed) {
+    const merged: Spellings[] = [];
+    groups.forEach((entry, index) => {
+      const same = index < MAX_COMPARED_ANSWERS
+        ? merged.find(group => group.correct === entry.correct && checkAnswer(entry.key, group.key, { mode: "equivalent" }).correct)
+        : undefined;
+      if (same) {
+        mergeInto(same, entry);
+      } else {
+        merged.push(entry);
+      }
+    });
+    groups = merged.sort((a, b) => b.count - a.count);
+  }
+
+  return groups.map(group => {
+    const spellings = Array.from(group.spellings.entries()).sort((a, b) => b[1] - a[1]).map(([spelling]) => spelling);
+    return { answer: spellings[0], variants: spellings.slice(1), count: group.count, correct: group.correct };
+  });
+}
+
+/**
+ * How the exercise is going: the answers so far against the students of
+ * the session. Groups already worked out for these answers can be passed in.
+ */
+export function analyzeResponses(
+  questionType: QuestionType,
+  responses: AnalyzedResponse[],
+  students: { participantId: number; name: string }[],
+  groups: AnswerGroup[] = groupAnswers(questionType, responses)
+): ResponseAnalytics {
+  const answeredIds = new Set(responses.map(response => response.participantId));
+  const present = new Set(students.map(student => student.participantId));
+  const times = responses.map(response => response.responseTime).filter((time): time is number => time !== null);
+
+  return {
+    answered: responses.length,
+    expected: present.size + Array.from(answeredIds).filter(id => !present.has(id)).length,
+    correct: responses.filter(response => response.correct).length,
+    groups,
+    mostCommonWrong: groups.find(group => !group.correct) ?? null,
+    averageResponseTime: times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null,
+    notAnswered: students.filter(student => !answeredIds.has(student.participantId)),
+  };
+}
+
+/** The histogram revealed to the class. */
+export function revealedResults(analytics: Pick<ResponseAnalytics, "answered" | "correct" | "groups">): RevealedResults {
+  const { groups } = analytics;
+  const shown = groups.length > MAX_REVEALED_BARS ? groups.slice(0, MAX_REVEALED_BARS - 1) : groups;
+  const bars = shown.map(group => ({ label: group.answer, count: group.count, correct: group.correct }));
+  if (shown.length < groups.length) {
+    bars.push({
+      label: OTHER_ANSWERS_LABEL,
+      count: groups.slice(shown.length).reduce((sum, group) => sum + group.count, 0),
+      correct: false,
+    });
+  }
+  return { answered: analytics.answered, correct: analytics.correct, bars };
+}
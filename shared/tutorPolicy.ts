@@ -0,0 +1,28 @@
+/**
+ * Shadow Tutor policies chosen by the teacher per room, with an optional
+ * override per session. Shared by the server (enforcement) and the client
+ * (host selector and student badge).
+ */
+
+import type { Room } from "../drizzle/schema";
+
+export type TutorPolicy = Room["tutorPolicy"];
+
+export const TUTOR_POLICIES: readonly TutorPolicy[] = ["off", "hints", "socratic", "full"];
+
+export const DEFAULT_TUTOR_POLICY: TutorPolicy = "full";
+
+export const TUTOR_POLICY_LABELS: Record<TutorPolicy, string> = {
+  off: "Desativado",
+  hints: "Apenas dicas",
+  socratic: "Socrático",
+  full: "Explicações completas",
+};
+
+/** Policy actually applied to a session right now. */
+export type EffectiveTutorPolicy = {
+  policy: TutorPolicy;
+  // True while an active exercise forces the tutor into hint-only mode
+  locked: boolean;
+  exerciseId: number | null;
+};